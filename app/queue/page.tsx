@@ -26,10 +26,9 @@ export default function QueueManagementPage() {
   const [activeTab, setActiveTab] = useState('pending');
 
   const queueManager = SessionQueueManagerClient.getInstance();
-  const { connected, lastUpdate } = useQueueUpdates((event) => {
-    if (event.type === 'state-changed' || event.type === 'metrics-updated') {
-      void loadQueueState();
-    }
+  // The client has already fetched the state each event changed
+  const { connected, lastUpdate } = useQueueUpdates(() => {
+    setQueueState(queueManager.getQueueState());
   });
 
   const sensors = useSensors(
@@ -43,7 +42,7 @@ export default function QueueManagementPage() {
 
   const loadQueueState = useCallback(async () => {
     try {
-      const state = queueManager.getQueueState();
+      const state = await queueManager.refresh();
       setQueueState(state);
       setError(null);
     } catch (err) {
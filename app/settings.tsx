@@ -101,6 +101,9 @@ export default function SettingsPage() {
     logs: '0 MB',
     total: '0 MB'
   });
+  const [terminologyPath, setTerminologyPath] = useState('');
+  const [terminologyTerms, setTerminologyTerms] = useState('');
+  const [terminologyStatus, setTerminologyStatus] = useState<'idle' | 'loading' | 'saving'>('idle');
   const { toast } = useToast();
 
   const settingsSections: SettingsSection[] = [
@@ -272,6 +275,56 @@ export default function SettingsPage() {
     }
   };
 
+  // Project ids default to the folder name, as in `sessionhub plan`
+  const terminologyProjectId = () =>
+    terminologyPath.replace(/[\\/]+$/, '').split(/[\\/]/).pop() || terminologyPath;
+
+  const loadTerminology = async () => {
+    if (!terminologyPath) return;
+
+    setTerminologyStatus('loading');
+    try {
+      const result = await window.sessionhub?.settings?.getTerminologyAllowlist(terminologyProjectId(), terminologyPath);
+      if (result?.success) {
+        setTerminologyTerms((result.terms || []).join('\n'));
+      } else {
+        toast({
+          title: 'Failed to load terminology',
+          description: result?.error || 'The project terminology could not be read',
+          type: 'error'
+        });
+      }
+    } finally {
+      setTerminologyStatus('idle');
+    }
+  };
+
+  const saveTerminology = async () => {
+    if (!terminologyPath) return;
+
+    setTerminologyStatus('saving');
+    try {
+      const terms = terminologyTerms.split('\n');
+      const result = await window.sessionhub?.settings?.saveTerminologyAllowlist(terminologyProjectId(), terminologyPath, terms);
+      if (result?.success) {
+        setTerminologyTerms((result.terms || []).join('\n'));
+        toast({
+          title: 'Terminology saved',
+          description: 'Saved to .sessionhub/terminology.json in the project',
+          type: 'success'
+        });
+      } else {
+        toast({
+          title: 'Failed to save terminology',
+          description: result?.error || 'The project terminology could not be written',
+          type: 'error'
+        });
+      }
+    } finally {
+      setTerminologyStatus('idle');
+    }
+  };
+
   const testSupabaseConnection = async () => {
     if (!supabaseUrl || !supabaseKey) return;
     
@@ -723,6 +776,53 @@ export default function SettingsPage() {
                       </div>
                     </CardContent>
                   </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Project Terminology</CardTitle>
+                      <CardDescription>
+                        Terms in plans that look like code but are the project&apos;s vocabulary, one per line
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Project Path</label>
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={terminologyPath}
+                            onChange={(e) => setTerminologyPath(e.target.value)}
+                            placeholder="/path/to/project"
+                            className="w-full px-3 py-2 rounded-lg border bg-background"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => void loadTerminology()}
+                            disabled={!terminologyPath || terminologyStatus !== 'idle'}
+                          >
+                            {terminologyStatus === 'loading' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                          </Button>
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Terms</label>
+                        <textarea
+                          value={terminologyTerms}
+                          onChange={(e) => setTerminologyTerms(e.target.value)}
+                          placeholder={'call the .save() endpoint\nNode.js'}
+                          rows={5}
+                          className="w-full px-3 py-2 rounded-lg border bg-background font-mono text-sm"
+                        />
+                      </div>
+                      <Button
+                        onClick={() => void saveTerminology()}
+                        disabled={!terminologyPath || terminologyStatus !== 'idle'}
+                      >
+                        {terminologyStatus === 'saving' ? 'Saving...' : 'Save Terminology'}
+                      </Button>
+                    </CardContent>
+                  </Card>
                 </div>
               )}
 
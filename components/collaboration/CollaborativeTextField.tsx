@@ -0,0 +1,148 @@
+/**
+ * Collaborative Text Field
+ * Textarea bound to a shared session text document, showing who else is
+ * editing and where their carets are
+ */
+
+import React, { useEffect, useLayoutEffect, useRef } from 'react';
+import { Users } from 'lucide-react';
+import { RemoteCursor, useCollaborativeText } from '@/hooks/useCollaborativeText';
+import { CollaboratorInfo } from '@/src/services/collaboration/types';
+
+interface CollaborativeTextFieldProps {
+  docId: string | null;
+  initialText: string;
+  user: CollaboratorInfo;
+  label?: string;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  onTextChange?: (text: string) => void;
+}
+
+// Shared by the textarea and the caret overlay so their text wraps identically
+const FIELD_TEXT = 'w-full px-3 py-2 text-sm leading-6 font-sans whitespace-pre-wrap break-words border rounded';
+
+export const CollaborativeTextField: React.FC<CollaborativeTextFieldProps> = ({
+  docId,
+  initialText,
+  user,
+  label,
+  placeholder,
+  rows = 4,
+  className = '',
+  onTextChange
+}) => {
+  const { text, setText, setSelection, selection, cursors, connected, error } = useCollaborativeText(docId, initialText, user);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    onTextChange?.(text);
+  }, [text, onTextChange]);
+
+  // Put the caret back where it was after a remote edit shifted the text
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (selection && textarea && document.activeElement === textarea) {
+      textarea.setSelectionRange(selection.start, selection.end);
+    }
+  }, [selection]);
+
+  const reportSelection = () => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+    }
+  };
+
+  const collaborators = [...new Map(cursors.map(cursor => [cursor.user.id, cursor.user])).values()];
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        {label && <span className="text-sm font-medium">{label}</span>}
+        <div className="flex items-center gap-2 ml-auto">
+          {collaborators.map(collaborator => (
+            <span
+              key={collaborator.id}
+              title={`${collaborator.name} is editing`}
+              className="flex items-center justify-center w-6 h-6 rounded-full text-xs font-semibold text-white"
+              style={{ backgroundColor: collaborator.color }}
+            >
+              {collaborator.name.slice(0, 1).toUpperCase()}
+            </span>
+          ))}
+          <span className={`flex items-center gap-1 text-xs ${connected ? 'text-green-600' : 'text-muted-foreground'}`}>
+            <Users className="w-3 h-3" />
+            {connected ? 'Shared' : 'Local only'}
+          </span>
+        </div>
+      </div>
+
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          rows={rows}
+          placeholder={placeholder}
+          onChange={(e) => setText(e.target.value)}
+          onSelect={reportSelection}
+          onScroll={(e) => {
+            if (overlayRef.current) overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          className={`${FIELD_TEXT} resize-y bg-white dark:bg-gray-900 dark:border-gray-700`}
+        />
+        {cursors.length > 0 && (
+          <div
+            ref={overlayRef}
+            aria-hidden
+            className={`${FIELD_TEXT} absolute inset-0 overflow-hidden pointer-events-none text-transparent border-transparent`}
+          >
+            {renderCursors(text, cursors)}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * The text with each remote selection tinted and a labelled caret at its end
+ */
+function renderCursors(text: string, cursors: RemoteCursor[]): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  const sorted = [...cursors].sort((a, b) => a.start - b.start);
+  let offset = 0;
+
+  sorted.forEach(cursor => {
+    const start = Math.max(cursor.start, offset);
+    const end = Math.max(cursor.end, start);
+    nodes.push(text.slice(offset, start));
+    if (end > start) {
+      nodes.push(
+        <span key={`${cursor.clientId}-selection`} style={{ backgroundColor: `${cursor.user.color}33` }}>
+          {text.slice(start, end)}
+        </span>
+      );
+    }
+    nodes.push(
+      <span key={cursor.clientId} className="relative">
+        <span className="absolute top-0 bottom-0 -ml-px w-0.5" style={{ backgroundColor: cursor.user.color }} />
+        <span
+          className="absolute -top-4 left-0 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+          style={{ backgroundColor: cursor.user.color }}
+        >
+          {cursor.user.name}
+        </span>
+      </span>
+    );
+    offset = end;
+  });
+  nodes.push(text.slice(offset));
+  // A trailing newline needs content after it to take up a line
+  nodes.push('\u200b');
+  return nodes;
+}
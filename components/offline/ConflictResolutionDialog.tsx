@@ -142,6 +142,27 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
                   </div>
                 </div>
 
+                {/* Base, local and remote side by side */}
+                {conflict.baseValue !== undefined && (
+                  <div className="mb-6">
+                    <h3 className="text-sm font-semibold mb-3">Both Sides Changed This Field</h3>
+                    <div className="grid grid-cols-3 gap-3">
+                      {[
+                        { label: 'Base (Last Synced)', value: conflict.baseValue as unknown },
+                        { label: 'Local (Your Changes)', value: conflict.localValue as unknown },
+                        { label: 'Remote (Server)', value: conflict.remoteValue as unknown }
+                      ].map(({ label, value }) => (
+                        <div key={label} className="min-w-0">
+                          <div className="text-xs text-gray-500 mb-1">{label}</div>
+                          <pre className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded overflow-x-auto h-full">
+                            {value === undefined ? '(not set)' : formatValue(value)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Diff View Toggle */}
                 <div className="mb-4 flex items-center justify-between">
                   <h3 className="text-sm font-semibold">Compare Changes</h3>
@@ -159,7 +180,7 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
                     <DiffViewer
                       localValue={formatValue(conflict.localValue)}
                       remoteValue={formatValue(conflict.remoteValue)}
-                      baseValue={conflict.baseValue ? formatValue(conflict.baseValue) : undefined}
+                      baseValue={conflict.baseValue !== undefined ? formatValue(conflict.baseValue) : undefined}
                       type={typeof conflict.localValue === 'object' ? 'json' : 'text'}
                     />
                   </div>
@@ -1,5 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Session } from '@/src/models/Session';
+import { CollaboratorInfo, sessionDocumentId } from '@/src/services/collaboration/types';
+import { CollaborativeTextField } from '@/components/collaboration/CollaborativeTextField';
 import { Modal } from '@/components/ui/modal';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
@@ -37,6 +39,8 @@ interface SessionPreviewModalProps {
   onDelete?: (session: Session) => void;
   onExport?: (session: Session) => void;
   onEdit?: (session: Session) => void;
+  // Shown to others editing the same session; defaults to the session owner
+  collaborator?: CollaboratorInfo;
 }
 
 const statusConfig = {
@@ -93,15 +97,23 @@ export function SessionPreviewModal({
   onArchive, 
   onDelete, 
   onExport,
-  onEdit 
+  onEdit,
+  collaborator
 }: SessionPreviewModalProps) {
   const [activeTab, setActiveTab] = useState('overview');
   const [loading, setLoading] = useState(false);
+  const [liveDescription, setLiveDescription] = useState<string | null>(null);
+  const sessionUserId = session?.userId;
+  const editor = useMemo<CollaboratorInfo>(
+    () => collaborator || { id: sessionUserId || 'local', name: 'You', color: '#3b82f6' },
+    [collaborator, sessionUserId]
+  );
 
   useEffect(() => {
     if (isOpen && session) {
       setActiveTab('overview');
     }
+    setLiveDescription(null);
   }, [isOpen, session]);
 
   if (!session) return null;
@@ -161,7 +173,7 @@ export function SessionPreviewModal({
             </div>
             <div className="flex-1 min-w-0">
               <h1 className="text-2xl font-bold truncate">{session.name}</h1>
-              <p className="text-muted-foreground mt-1">{session.description}</p>
+              <p className="text-muted-foreground mt-1">{liveDescription ?? session.description}</p>
               <div className="flex items-center gap-4 mt-3">
                 <Badge variant="secondary" className={`${status?.bgColor} ${status?.color}`}>
                   {status?.label}
@@ -296,6 +308,18 @@ export function SessionPreviewModal({
                   </Card>
                 </div>
 
+                {/* Description, edited together with anyone else who has the session open */}
+                <Card className="p-6">
+                  <CollaborativeTextField
+                    docId={isOpen ? sessionDocumentId(session.id, 'description') : null}
+                    initialText={session.description || ''}
+                    user={editor}
+                    label="Description"
+                    placeholder="Describe what this session should achieve"
+                    onTextChange={setLiveDescription}
+                  />
+                </Card>
+
                 {/* Request Content */}
                 <Card className="p-6">
                   <div className="flex items-center gap-2 mb-4">
@@ -368,6 +392,24 @@ export function SessionPreviewModal({
                       </div>
                     )}
 
+                    {session.instructions.requirements.length > 0 && (
+                      <Card className="p-6">
+                        <h3 className="text-lg font-semibold mb-4">Requirements</h3>
+                        <div className="space-y-4">
+                          {session.instructions.requirements.map(requirement => (
+                            <CollaborativeTextField
+                              key={requirement.id}
+                              docId={isOpen ? sessionDocumentId(session.id, `requirements/${requirement.id}`) : null}
+                              initialText={requirement.description}
+                              user={editor}
+                              label={`${requirement.id} (${requirement.priority})`}
+                              rows={2}
+                            />
+                          ))}
+                        </div>
+                      </Card>
+                    )}
+
                     <Card className="p-6">
                       <h3 className="text-lg font-semibold mb-4">Instruction Details</h3>
                       <div className="bg-muted/50 rounded-lg p-4 max-h-96 overflow-y-auto">
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RelativePosition, TextDocument } from '@/src/services/collaboration/TextCRDT';
+import { CollaboratorInfo, DocumentChange, PresenceState } from '@/src/services/collaboration/types';
+
+export interface RemoteCursor {
+  clientId: string;
+  user: CollaboratorInfo;
+  // Absolute offsets into the current text
+  start: number;
+  end: number;
+}
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+interface UseCollaborativeTextReturn {
+  text: string;
+  setText: (value: string) => void;
+  setSelection: (selection: TextSelection) => void;
+  // Where the local caret moved to after a remote edit
+  selection: TextSelection | null;
+  cursors: RemoteCursor[];
+  connected: boolean;
+  error: string | null;
+}
+
+/**
+ * Edit a session text field as a CRDT document shared through the main
+ * process. Falls back to plain local state outside Electron.
+ */
+export function useCollaborativeText(
+  docId: string | null,
+  initialText: string,
+  user: CollaboratorInfo
+): UseCollaborativeTextReturn {
+  const [text, setTextState] = useState(initialText);
+  const [peers, setPeers] = useState<PresenceState[]>([]);
+  const [selection, setSelectionState] = useState<TextSelection | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const documentRef = useRef<TextDocument | null>(null);
+  const clientIdRef = useRef<string | null>(null);
+  const caretRef = useRef<{ anchor: RelativePosition; head: RelativePosition } | null>(null);
+  const initialTextRef = useRef(initialText);
+
+  useEffect(() => {
+    const collab = typeof window !== 'undefined' ? window.sessionhub?.collab : undefined;
+    if (!docId || !collab) {
+      setTextState(initialTextRef.current);
+      return;
+    }
+    let disposed = false;
+
+    const handleUpdate = (change: DocumentChange) => {
+      const document = documentRef.current;
+      if (!document || change.docId !== docId || change.origin === clientIdRef.current) return;
+      if (document.applyUpdate(change.update)) {
+        setTextState(document.getText());
+        // Keep the local caret on the same characters
+        const caret = caretRef.current;
+        if (caret) {
+          setSelectionState({ start: document.absolutePosition(caret.anchor), end: document.absolutePosition(caret.head) });
+        }
+      }
+    };
+    const handlePresence = (presence: PresenceState) => {
+      if (presence.docId !== docId || presence.clientId === clientIdRef.current) return;
+      setPeers(current => [...current.filter(peer => peer.clientId !== presence.clientId), presence]);
+    };
+    const handlePresenceLeft = (event: { docId: string; clientId: string }) => {
+      if (event.docId !== docId) return;
+      setPeers(current => current.filter(peer => peer.clientId !== event.clientId));
+    };
+
+    collab.onUpdate(handleUpdate);
+    collab.onPresence(handlePresence);
+    collab.onPresenceLeft(handlePresenceLeft);
+
+    collab.open(docId, initialTextRef.current).then(snapshot => {
+      if (disposed) {
+        void collab.close(docId, snapshot.clientId);
+        return;
+      }
+      const document = new TextDocument(snapshot.clientId);
+      document.applyUpdate(snapshot.update);
+      documentRef.current = document;
+      clientIdRef.current = snapshot.clientId;
+      setTextState(document.getText());
+      setPeers(snapshot.peers.filter(peer => peer.clientId !== snapshot.clientId));
+      setConnected(true);
+      setError(null);
+    }).catch((err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to open the shared document');
+    });
+
+    return () => {
+      disposed = true;
+      collab.removeUpdateListener(handleUpdate);
+      collab.removePresenceListener(handlePresence);
+      collab.removePresenceLeftListener(handlePresenceLeft);
+      if (clientIdRef.current) {
+        void collab.close(docId, clientIdRef.current);
+      }
+      documentRef.current = null;
+      clientIdRef.current = null;
+      caretRef.current = null;
+      setPeers([]);
+      setConnected(false);
+    };
+  }, [docId]);
+
+  const setText = useCallback((value: string) => {
+    const document = documentRef.current;
+    const clientId = clientIdRef.current;
+    if (!document || !clientId || !docId) {
+      setTextState(value);
+      return;
+    }
+    const update = document.setText(value);
+    setTextState(document.getText());
+    if (update.ops.length > 0) {
+      window.sessionhub.collab.update(docId, clientId, update).catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to share the edit');
+      });
+    }
+  }, [docId]);
+
+  const setSelection = useCallback((next: TextSelection) => {
+    const document = documentRef.current;
+    const clientId = clientIdRef.current;
+    if (!document || !clientId || !docId) return;
+    const length = document.length;
+    const cursor = {
+      anchor: document.relativePosition(Math.min(next.start, length)),
+      head: document.relativePosition(Math.min(next.end, length))
+    };
+    caretRef.current = cursor;
+    void window.sessionhub.collab.setPresence({ docId, clientId, user, cursor, updatedAt: new Date().toISOString() })
+      .catch(() => undefined);
+  }, [docId, user]);
+
+  // Peer carets are anchored to characters, so they are placed again on every render
+  const document = documentRef.current;
+  const cursors: RemoteCursor[] = [];
+  for (const peer of peers) {
+    if (!document || !peer.cursor) continue;
+    const anchor = document.absolutePosition(peer.cursor.anchor);
+    const head = document.absolutePosition(peer.cursor.head);
+    cursors.push({ clientId: peer.clientId, user: peer.user, start: Math.min(anchor, head), end: Math.max(anchor, head) });
+  }
+
+  return {
+    text,
+    setText,
+    setSelection,
+    selection,
+    cursors,
+    connected,
+    error
+  };
+}
@@ -15,6 +15,8 @@ import { claudeAutoAcceptService } from "./services/ClaudeAutoAcceptService";
 import { autoUpdateService } from "./services/AutoUpdateService";
 import { menuBarService } from "./services/mac/MenuBarService";
 import { appLifecycleService } from "./services/AppLifecycleService";
+import { localAPIService } from "./services/LocalAPIService";
+import { mcpClientService } from "./services/MCPClientService";
 import { fileAssociationService } from "./services/mac/FileAssociationService";
 import { productionOptimizations } from "../src/config/production-optimizations";
 import { EmergencyRecoverySystem } from "../src/services/pipeline/EmergencyRecoverySystem";
@@ -25,13 +27,17 @@ import { registerSessionPipelineHandlers } from "./ipc/sessionPipelineHandlers";
 import { registerContextHandlers } from "./ipc/contextHandlers";
 import { registerSessionHandlers } from "./ipc/sessionHandlers";
 import { registerPipelineHandlers } from "./ipc/pipelineHandlers";
-import { registerMCPServerHandlers } from "./ipc/mcpServerHandlers";
+import { registerMCPServerHandlers, stopMCPBatches } from "./ipc/mcpServerHandlers";
 import { registerZedHandlers } from "./ipc/zedHandlers";
 import { registerAIHandlers } from "./ipc/aiHandlers";
 import { setupOnboardingHandlers } from "./ipc/onboardingHandlers";
 import { registerTutorialHandlers } from "./ipc/tutorialHandlers";
 import { registerSessionOrchestrationHandlers } from "./ipc/sessionOrchestrationHandlers";
 import { registerRecoveryHandlers } from "./ipc/recoveryHandlers";
+import { registerCollaborationHandlers, stopCollaboration } from "./ipc/collaborationHandlers";
+import { registerQueueHandlers, stopQueue } from "./ipc/queueHandlers";
+import { registerSettingsHandlers } from "./ipc/settingsHandlers";
+import { channels } from "./ipc/channels";
 // Configure auto-updater for production
 if (!isDev) {
   serve({ directory: "app" });
@@ -117,6 +123,11 @@ class SessionHubApp {
     // Clear crash marker for clean shutdown
     const recovery = EmergencyRecoverySystem.getInstance();
     recovery.clearCrashMarker();
+    await localAPIService.stop();
+    await stopCollaboration();
+    await stopQueue();
+    await stopMCPBatches();
+    await mcpClientService.stop();
     // Shutdown production optimizations
     if (!isDev) {
       await productionOptimizations.shutdown();
@@ -310,6 +321,8 @@ class SessionHubApp {
     }, 5000);
     // Initialize Claude auto-accept service
     void claudeAutoAcceptService.initialize();
+    // External MCP servers; the session pipeline hands them to both actors
+    await mcpClientService.start();
     // Set up IPC handlers
     this.setupIpcHandlers();
   }
@@ -381,10 +394,18 @@ class SessionHubApp {
     });
   }
   private setupIpcHandlers(): void {
+    // Registry channels are handled on ipcMain and their events sent to every window
+    channels.attachIpc(ipcMain, (event, payload) => {
+      BrowserWindow.getAllWindows().forEach((window) => {
+        void window.webContents.send(event, payload);
+      });
+    });
     // Register Figma handlers
     registerFigmaHandlers();
     // Register Admin handlers
     registerAdminHandlers();
+    // Register Settings handlers
+    registerSettingsHandlers();
     // Register Session Pipeline handlers
     registerSessionPipelineHandlers();
     // Register Context handlers
@@ -407,6 +428,12 @@ class SessionHubApp {
     registerSessionOrchestrationHandlers();
     // Register Recovery handlers
     registerRecoveryHandlers();
+    // Register collaborative editing handlers
+    registerCollaborationHandlers();
+    // Register session queue handlers; queued sessions start running here
+    registerQueueHandlers();
+    // Serve the registry over HTTP when opted in
+    void localAPIService.start(channels);
     // System health check
     ipcMain.handle("get-system-health", async () => {
       return await productionMonitor.performHealthChecks();
@@ -1,11 +1,15 @@
 import { ipcMain, dialog } from "electron";
 import { MacKeychainService } from "../services/mac/MacKeychainService";
 import { ClaudeAPIClient } from "../../src/lib/api/ClaudeAPIClient";
+import { StreamCancelledError } from "../../src/lib/api/MessageStream";
 import Store from "electron-store";
 
 const store = new Store();
 const keychainService = new MacKeychainService();
 
+// Chat responses currently streaming, by session
+const chatStreams = new Map<string, AbortController>();
+
 export function registerApiHandlers(): void {
   // Check if API key exists
   ipcMain.handle("check-api-key", async () => {
@@ -48,10 +52,14 @@ export function registerApiHandlers(): void {
     }
   });
 
-  // Send chat message
+  // Send chat message, streaming the response as "chat:stream" events
   ipcMain.handle(
     "send-chat-message",
-    async (_event, sessionId: string, message: string) => {
+    async (event, sessionId: string, message: string) => {
+      const controller = new AbortController();
+      chatStreams.get(sessionId)?.abort();
+      chatStreams.set(sessionId, controller);
+
       try {
         const apiKey = await keychainService.getCredential(
           "sessionhub",
@@ -72,8 +80,20 @@ export function registerApiHandlers(): void {
         // Add user message to history
         history.push({ role: "user", content: message });
 
-        // Send to Claude API
-        const response = await client.sendMessage(message, sessionId, history);
+        // Send to Claude API; a cancelled stream keeps the text received so far
+        const response = await client
+          .sendMessage(message, sessionId, history, {
+            signal: controller.signal,
+            onText: (delta) => {
+              event.sender.send("chat:stream", { sessionId, delta });
+            },
+          })
+          .catch((error: unknown) => {
+            if (error instanceof StreamCancelledError) {
+              return error.partial.text;
+            }
+            throw error;
+          });
 
         // Add assistant response to history
         history.push({ role: "assistant", content: response });
@@ -85,10 +105,21 @@ export function registerApiHandlers(): void {
       } catch (error: unknown) {
 // REMOVED: console statement
         throw error;
+      } finally {
+        if (chatStreams.get(sessionId) === controller) {
+          chatStreams.delete(sessionId);
+        }
       }
     },
   );
 
+  // Stop the chat response a session is streaming
+  ipcMain.handle("cancel-chat-message", async (_event, sessionId: string) => {
+    const controller = chatStreams.get(sessionId);
+    controller?.abort();
+    return !!controller;
+  });
+
   // GitHub repository selection dialog
   ipcMain.handle("select-github-repo", async () => {
     try {
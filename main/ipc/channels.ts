@@ -0,0 +1,8 @@
+import { ChannelRegistry } from '@/src/services/localapi/ChannelRegistry';
+
+/**
+ * The main process's channel registry. Handler modules register their
+ * channels here; background.ts binds it to ipcMain and, when enabled,
+ * serves it over the local API.
+ */
+export const channels = new ChannelRegistry();
@@ -0,0 +1,106 @@
+/**
+ * @actor system
+ * @responsibility IPC handlers for collaborative editing of session text
+ */
+
+import { Logger } from '@/src/lib/logging/Logger';
+import { DatabaseService } from '@/src/database/DatabaseService';
+import { SupabaseService } from '@/src/services/cloud/SupabaseService';
+import { SupabaseCloudSync } from '@/src/services/cloud/SupabaseCloudSync';
+import { OfflineOperationQueue } from '@/src/services/offline/OfflineOperationQueue';
+import { CollaborationService } from '@/src/services/collaboration/CollaborationService';
+import { TextUpdate } from '@/src/services/collaboration/TextCRDT';
+import { DocumentChange, PresenceState } from '@/src/services/collaboration/types';
+import { channels } from './channels';
+
+let collaboration: Promise<CollaborationService> | null = null;
+let cloudSync: SupabaseCloudSync | null = null;
+
+export function registerCollaborationHandlers(): void {
+  const logger = new Logger('Collaboration');
+  const db = new DatabaseService();
+  const supabase = new SupabaseService(logger);
+
+  // The queue creates its table on construction, so the database must be open first
+  const ready = (): Promise<CollaborationService> => {
+    if (!collaboration) {
+      collaboration = (async () => {
+        await db.connect();
+        const service = new CollaborationService(db, new OfflineOperationQueue(db), supabase, {
+          relayUrl: process.env['SESSIONHUB_COLLAB_RELAY_URL']
+        });
+        await service.initialize();
+        service.on('update', (change: DocumentChange) => channels.publish('collab:update', change));
+        service.on('presence', (presence: PresenceState) => channels.publish('collab:presence', presence));
+        service.on('presenceLeft', (event: { docId: string; clientId: string }) => channels.publish('collab:presence-left', event));
+        // Session sync merges description and requirement text through these documents
+        cloudSync = new SupabaseCloudSync(supabase);
+        cloudSync.attachCollaboration(service);
+        cloudSync.initialize().catch(error => {
+          logger.info('Collaborative edits stay local until Supabase is configured', { error: (error as Error).message });
+        });
+        return service;
+      })().catch(error => {
+        collaboration = null;
+        throw error;
+      });
+    }
+    return collaboration;
+  };
+
+  const docId = { name: 'docId', schema: { type: 'string' } };
+  const clientId = { name: 'clientId', schema: { type: 'string' }, description: 'Replica id returned by collab:open' };
+
+  channels.handle('collab:open', {
+    summary: 'Open a session text document and get its state',
+    params: [docId, { name: 'initialText', schema: { type: 'string' }, optional: true, description: 'Seeds a document with no state yet' }]
+  }, async (id: string, initialText?: string) => {
+    const service = await ready();
+    // Catch up on edits made elsewhere; the editor gets them as updates
+    service.pullRemoteUpdates().catch(error => {
+      logger.warn('Failed to pull document updates', { error: (error as Error).message });
+    });
+    return service.open(id, initialText);
+  });
+
+  channels.handle('collab:update', {
+    summary: 'Apply an edit made in an open editor',
+    params: [docId, clientId, { name: 'update', schema: { type: 'object', properties: { ops: { type: 'array' } }, required: ['ops'] } }]
+  }, async (id: string, replica: string, update: TextUpdate) => {
+    const text = await (await ready()).applyLocalUpdate(id, replica, update);
+    return { text };
+  });
+
+  channels.handle('collab:presence', {
+    summary: 'Share an editor\'s caret with other collaborators',
+    params: [{
+      name: 'presence',
+      body: true,
+      schema: { type: 'object', properties: { docId: { type: 'string' }, clientId: { type: 'string' } }, required: ['docId', 'clientId', 'user'] }
+    }]
+  }, async (presence: PresenceState) => {
+    (await ready()).setPresence(presence);
+    return { success: true };
+  });
+
+  channels.handle('collab:close', { params: [docId, clientId] }, async (id: string, replica: string) => {
+    (await ready()).close(id, replica);
+    return { success: true };
+  });
+
+  // Session sync runs from startup rather than from the first opened document
+  ready().catch(error => {
+    logger.warn('Collaborative editing is unavailable', { error: (error as Error).message });
+  });
+}
+
+export async function stopCollaboration(): Promise<void> {
+  const pending = collaboration;
+  const sync = cloudSync;
+  collaboration = null;
+  cloudSync = null;
+  await sync?.disconnect().catch(() => undefined);
+  if (pending) {
+    (await pending.catch(() => null))?.destroy();
+  }
+}
@@ -3,62 +3,204 @@
  * 
  * Handles all IPC communication for the MCP server infrastructure
  */
-import { ipcMain } from 'electron';
 import { MCPServerService } from '../../src/services/mcp/server/MCPServerService';
-import { MCPMarketplace, MarketplaceSearchOptions } from '../../src/services/mcp/marketplace/MCPMarketplace';
-import { MCPIntegration } from '../../src/services/mcp/server/types';
+import {
+  MCPMarketplace,
+  MarketplaceSearchOptions,
+  MarketplaceUpgradePlan
+} from '../../src/services/mcp/marketplace/MCPMarketplace';
+import {
+  MCPInstallationConfig,
+  MCPIntegration,
+  MCPIntegrationManifest
+} from '../../src/services/mcp/server/types';
+import { DatabaseService } from '../../src/database/DatabaseService';
+import { BatchOperation, MCPBatchProcessor } from '../../src/services/mcp/batch/MCPBatchProcessor';
+import { MCPBatchStore } from '../../src/services/mcp/batch/MCPBatchStore';
+import { Logger } from '../../src/lib/logging/Logger';
+import { channels } from './channels';
 let mcpServer: MCPServerService | null = null;
 let marketplace: MCPMarketplace | null = null;
+let batches: Promise<MCPBatchProcessor> | null = null;
+const BATCH_EVENTS = [
+  'batch-created', 'batch-started', 'batch-progress', 'batch-completed', 'batch-failed',
+  'batch-cancelled', 'batch-interrupted', 'batch-resumed'
+];
 export function registerMCPServerHandlers(): void {
+  const logger = new Logger('MCP');
   // Initialize services
   mcpServer = new MCPServerService();
-  marketplace = new MCPMarketplace();
+  marketplace = new MCPMarketplace({ keyring: mcpServer.getKeyring() });
+  // Batches persist to SQLite; restoring them on startup marks those cut
+  // short by the last shutdown as interrupted until resumed, retried or rolled back
+  const db = new DatabaseService();
+  const batchProcessor = (): Promise<MCPBatchProcessor> => {
+    if (!batches) {
+      batches = (async () => {
+        await db.connect();
+        const processor = new MCPBatchProcessor(new MCPBatchStore(db));
+        for (const event of BATCH_EVENTS) {
+          processor.on(event, (operation: BatchOperation) => {
+            channels.publish(`mcp:event:${event.replace('-', ':')}`, operation);
+          });
+        }
+        await processor.restoreInterruptedBatches();
+        return processor;
+      })().catch(error => {
+        batches = null;
+        throw error;
+      });
+    }
+    return batches;
+  };
+  batchProcessor().catch(error => {
+    logger.error('Failed to restore MCP batch operations', error as Error);
+  });
   // Server management
-  ipcMain.handle('mcp:server:start', async () => {
+  channels.handle('mcp:server:start', async () => {
     if (!mcpServer) {
       throw new Error('MCP Server not initialized');
     }
     return mcpServer.start();
   });
-  ipcMain.handle('mcp:server:stop', async () => {
+  channels.handle('mcp:server:stop', async () => {
     if (!mcpServer) {
       throw new Error('MCP Server not initialized');
     }
     return mcpServer.stop();
   });
-  ipcMain.handle('mcp:server:status', async () => {
+  channels.handle('mcp:server:status', async () => {
     if (!mcpServer) {
       return { running: false };
     }
     return mcpServer.getStatus();
   });
   // Integration management
-  ipcMain.handle('mcp:integrations:list', async () => {
+  channels.handle('mcp:integrations:list', async () => {
     if (!mcpServer) {
       return [];
     }
     return mcpServer.listIntegrations();
   });
-  ipcMain.handle('mcp:integrations:register', async (_event, integration: MCPIntegration) => {
+  channels.handle('mcp:integrations:register', {
+    params: [
+      { name: 'integration', schema: { type: 'object' } },
+      { name: 'installation', schema: { type: 'object' }, optional: true }
+    ]
+  }, async (integration: MCPIntegration, installation?: MCPInstallationConfig) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.registerIntegration(integration, installation);
+  });
+  channels.handle('mcp:integrations:sign', {
+    params: [
+      { name: 'target', schema: { type: 'object' } },
+      { name: 'publisher', schema: { type: 'string' }, optional: true }
+    ],
+    ipcOnly: true
+  }, async (target: MCPIntegration | MCPIntegrationManifest, publisher?: string) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.signIntegration(target, publisher);
+  });
+  // Signature trust. This and the token channels stay off the local HTTP
+  // API: a single API token must not be able to change what the app trusts
+  channels.handle('mcp:keyring:list', { ipcOnly: true }, async () => {
+    if (!mcpServer) {
+      return [];
+    }
+    return mcpServer.listTrustedKeys();
+  });
+  channels.handle('mcp:keyring:trust', {
+    params: [
+      { name: 'publisher', schema: { type: 'string' } },
+      { name: 'publicKeyPem', schema: { type: 'string' } }
+    ],
+    ipcOnly: true
+  }, async (publisher: string, publicKeyPem: string) => {
     if (!mcpServer) {
       throw new Error('MCP Server not initialized');
     }
-    return mcpServer.registerIntegration(integration);
+    return mcpServer.trustKey(publisher, publicKeyPem);
+  });
+  channels.handle('mcp:keyring:revoke', { params: [{ name: 'keyId', schema: { type: 'string' } }], ipcOnly: true }, async (keyId: string) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.revokeKey(keyId);
+  });
+  channels.handle('mcp:quarantine:list', { ipcOnly: true }, async () => {
+    if (!mcpServer) {
+      return [];
+    }
+    return mcpServer.listQuarantined();
   });
-  ipcMain.handle('mcp:integrations:unregister', async (_event, id: string) => {
+  channels.handle('mcp:quarantine:release', { params: [{ name: 'id', schema: { type: 'string' } }], ipcOnly: true }, async (id: string) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.releaseQuarantined(id);
+  });
+  channels.handle('mcp:quarantine:delete', { params: [{ name: 'id', schema: { type: 'string' } }], ipcOnly: true }, async (id: string) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.deleteQuarantined(id);
+  });
+  // Client tokens for the HTTP and WebSocket API
+  channels.handle('mcp:tokens:issue', {
+    params: [
+      { name: 'client', schema: { type: 'string' } },
+      { name: 'scopes', schema: { type: 'array', items: { type: 'string' } } },
+      { name: 'expiresInDays', schema: { type: 'number' }, optional: true }
+    ],
+    ipcOnly: true
+  }, async (client: string, scopes: string[], expiresInDays?: number) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.issueToken(client, scopes, expiresInDays);
+  });
+  channels.handle('mcp:tokens:list', { ipcOnly: true }, async () => {
+    if (!mcpServer) {
+      return [];
+    }
+    return mcpServer.listTokens();
+  });
+  channels.handle('mcp:tokens:revoke', { params: [{ name: 'tokenId', schema: { type: 'string' } }], ipcOnly: true }, async (tokenId: string) => {
+    if (!mcpServer) {
+      throw new Error('MCP Server not initialized');
+    }
+    return mcpServer.revokeToken(tokenId);
+  });
+  channels.handle('mcp:integrations:unregister', { params: [{ name: 'id', schema: { type: 'string' } }] }, async (id: string) => {
     if (!mcpServer) {
       throw new Error('MCP Server not initialized');
     }
     return mcpServer.unregisterIntegration(id);
   });
   // Tool execution
-  ipcMain.handle('mcp:tool:execute', async (_event, integrationId: string, tool: string, params: unknown) => {
+  channels.handle('mcp:tool:execute', {
+    params: [
+      { name: 'integrationId', schema: { type: 'string' } },
+      { name: 'tool', schema: { type: 'string' } },
+      { name: 'params' }
+    ]
+  }, async (integrationId: string, tool: string, params: unknown) => {
     if (!mcpServer) {
       throw new Error('MCP Server not initialized');
     }
     return mcpServer.executeToolCall(integrationId, tool, params);
   });
-  ipcMain.handle('mcp:tool:test', async (_event, integrationId: string, tool: string, params: unknown) => {
+  channels.handle('mcp:tool:test', {
+    params: [
+      { name: 'integrationId', schema: { type: 'string' } },
+      { name: 'tool', schema: { type: 'string' } },
+      { name: 'params' }
+    ]
+  }, async (integrationId: string, tool: string, params: unknown) => {
     if (!mcpServer) {
       throw new Error('MCP Server not initialized');
     }
@@ -68,48 +210,138 @@ export function registerMCPServerHandlers(): void {
       _test: true
     });
   });
+  // Batch operations
+  const operationId = { name: 'operationId', schema: { type: 'string' } };
+  channels.handle('mcp:batch:list', async () => {
+    return (await batchProcessor()).getAllBatchOperations();
+  });
+  channels.handle('mcp:batch:get', { params: [operationId] }, async (id: string) => {
+    return (await batchProcessor()).getBatchOperation(id) ?? null;
+  });
+  channels.handle('mcp:batch:cancel', { params: [operationId] }, async (id: string) => {
+    return (await batchProcessor()).cancelBatchOperation(id);
+  });
+  channels.handle('mcp:batch:resume', {
+    params: [operationId],
+    summary: 'Continue an interrupted batch with the items that have no result yet'
+  }, async (id: string) => {
+    return (await batchProcessor()).resumeBatchOperation(id);
+  });
+  channels.handle('mcp:batch:retry', {
+    params: [operationId],
+    summary: 'Run the failed items of a batch again'
+  }, async (id: string) => {
+    return (await batchProcessor()).retryFailedItems(id);
+  });
+  channels.handle('mcp:batch:rollback', {
+    params: [operationId],
+    summary: 'Undo the successful items of an interrupted or finished batch'
+  }, async (id: string) => {
+    return (await batchProcessor()).rollbackBatchOperation(id);
+  });
   // Marketplace
-  ipcMain.handle('mcp:marketplace:search', async (_event, options: unknown) => {
+  channels.handle('mcp:marketplace:search', { params: [{ name: 'options' }] }, async (options: unknown) => {
     if (!marketplace) {
       throw new Error('Marketplace not initialized');
     }
     return marketplace.searchIntegrations(options as MarketplaceSearchOptions);
   });
-  ipcMain.handle('mcp:marketplace:getFeatured', async () => {
+  channels.handle('mcp:marketplace:getFeatured', async () => {
     if (!marketplace) {
       throw new Error('Marketplace not initialized');
     }
     return marketplace.getFeaturedIntegrations();
   });
-  ipcMain.handle('mcp:marketplace:getTrending', async () => {
+  channels.handle('mcp:marketplace:getTrending', async () => {
     if (!marketplace) {
       throw new Error('Marketplace not initialized');
     }
     return marketplace.getTrendingIntegrations();
   });
-  ipcMain.handle('mcp:marketplace:getIntegration', async (_event, id: string) => {
+  channels.handle('mcp:marketplace:getIntegration', { params: [{ name: 'id', schema: { type: 'string' } }] }, async (id: string) => {
     if (!marketplace) {
       throw new Error('Marketplace not initialized');
     }
     return marketplace.getIntegration(id);
   });
-  ipcMain.handle('mcp:marketplace:install', async (_event, integrationId: string) => {
+  channels.handle('mcp:marketplace:install', {
+    params: [
+      { name: 'packageId', schema: { type: 'string' } },
+      { name: 'version', schema: { type: 'string' }, optional: true }
+    ]
+  }, async (packageId: string, version?: string) => {
+    if (!marketplace || !mcpServer) {
+      throw new Error('Services not initialized');
+    }
+    return marketplace.installIntegration(packageId, mcpServer.getRegistry(), version);
+  });
+  channels.handle('mcp:marketplace:installed', async () => {
+    if (!marketplace || !mcpServer) {
+      return [];
+    }
+    return marketplace.listInstalled(mcpServer.getRegistry());
+  });
+  // Upgrades are two steps so the permission and dependency diff can be shown first
+  channels.handle('mcp:marketplace:planUpgrade', {
+    params: [
+      { name: 'packageId', schema: { type: 'string' } },
+      { name: 'version', schema: { type: 'string' }, optional: true }
+    ]
+  }, async (packageId: string, version?: string) => {
     if (!marketplace || !mcpServer) {
       throw new Error('Services not initialized');
     }
-    // Get integration from marketplace
-    const marketplaceIntegration = await marketplace.getIntegration(integrationId);
-    if (!marketplaceIntegration) {
-      throw new Error('Integration not found in marketplace');
+    return marketplace.planUpgrade(packageId, mcpServer.getRegistry(), version);
+  });
+  channels.handle('mcp:marketplace:upgrade', { params: [{ name: 'plan', schema: { type: 'object' } }] }, async (plan: MarketplaceUpgradePlan) => {
+    if (!marketplace || !mcpServer) {
+      throw new Error('Services not initialized');
     }
-    // Install to local server
-    const integration = marketplaceIntegration.manifest.integration;
-    const id = await mcpServer.registerIntegration(integration);
-    // Update marketplace stats
-    await marketplace.installIntegration(integrationId, process.env['HOME'] || '');
-    return id;
+    return marketplace.upgradeIntegration(plan, mcpServer.getRegistry());
   });
-  ipcMain.handle('mcp:marketplace:getCategories', async () => {
+  channels.handle('mcp:marketplace:pin', {
+    params: [
+      { name: 'packageId', schema: { type: 'string' } },
+      { name: 'pinned', schema: { type: 'boolean' } }
+    ]
+  }, async (packageId: string, pinned: boolean) => {
+    if (!marketplace || !mcpServer) {
+      throw new Error('Services not initialized');
+    }
+    return marketplace.pinVersion(packageId, pinned, mcpServer.getRegistry());
+  });
+  channels.handle('mcp:marketplace:uninstall', { params: [{ name: 'packageId', schema: { type: 'string' } }] }, async (packageId: string) => {
+    if (!marketplace || !mcpServer) {
+      throw new Error('Services not initialized');
+    }
+    return marketplace.uninstallIntegration(packageId, mcpServer.getRegistry());
+  });
+  // Package index sources
+  channels.handle('mcp:marketplace:sources:list', async () => {
+    if (!marketplace) {
+      return [];
+    }
+    return marketplace.listSources();
+  });
+  channels.handle('mcp:marketplace:sources:add', { params: [{ name: 'location', schema: { type: 'string' } }] }, async (location: string) => {
+    if (!marketplace) {
+      throw new Error('Marketplace not initialized');
+    }
+    return marketplace.addSource(location);
+  });
+  channels.handle('mcp:marketplace:sources:remove', { params: [{ name: 'location', schema: { type: 'string' } }] }, async (location: string) => {
+    if (!marketplace) {
+      throw new Error('Marketplace not initialized');
+    }
+    return marketplace.removeSource(location);
+  });
+  channels.handle('mcp:marketplace:refresh', async () => {
+    if (!marketplace) {
+      throw new Error('Marketplace not initialized');
+    }
+    return marketplace.refresh();
+  });
+  channels.handle('mcp:marketplace:getCategories', async () => {
     if (!marketplace) {
       throw new Error('Marketplace not initialized');
     }
@@ -118,16 +350,16 @@ export function registerMCPServerHandlers(): void {
   // Event forwarding
   if (mcpServer) {
     mcpServer.on('integration:registered', (integration) => {
-      const g = global as { mainWindow?: { webContents: { send: (channel: string, data: unknown) => void } } };
-      g.mainWindow?.webContents.send('mcp:event:integration:registered', integration);
+      channels.publish('mcp:event:integration:registered', integration);
     });
     mcpServer.on('integration:unregistered', (integration) => {
-      const g = global as { mainWindow?: { webContents: { send: (channel: string, data: unknown) => void } } };
-      g.mainWindow?.webContents.send('mcp:event:integration:unregistered', integration);
+      channels.publish('mcp:event:integration:unregistered', integration);
+    });
+    mcpServer.on('integration:quarantined', (entry) => {
+      channels.publish('mcp:event:integration:quarantined', entry);
     });
     mcpServer.on('error', (error) => {
-      const g = global as { mainWindow?: { webContents: { send: (channel: string, data: unknown) => void } } };
-      g.mainWindow?.webContents.send('mcp:event:error', error);
+      channels.publish('mcp:event:error', error);
     });
   }
   // Auto-start server in development
@@ -146,4 +378,11 @@ export function getMCPServer(): MCPServerService | null {
 }
 export function getMCPMarketplace(): MCPMarketplace | null {
   return marketplace;
+}
+export async function stopMCPBatches(): Promise<void> {
+  const pending = batches;
+  batches = null;
+  if (pending) {
+    await (await pending.catch(() => null))?.cleanup();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * @actor system
+ * @responsibility IPC handlers for the session queue shared with the CLI
+ */
+
+import { Logger } from '@/src/lib/logging/Logger';
+import { CredentialManager } from '@/src/lib/security/CredentialManager';
+import { APIAuthenticationManager } from '@/src/lib/api/APIAuthenticationManager';
+import { DatabaseService } from '@/src/database/DatabaseService';
+import { SessionService } from '@/src/services/SessionService';
+import { SessionQueueManager, QueueEvent } from '@/src/services/queue/SessionQueueManager';
+import { SessionQueueStore } from '@/src/services/queue/SessionQueueStore';
+import { runPlannedSession } from '@/src/services/session/PlannedSessionRunner';
+import { ProtocolValidator } from '@/src/core/protocol/ProtocolValidator';
+import { SecuritySandbox } from '@/src/core/execution/SecuritySandbox';
+import { ExecutionEngine } from '@/src/core/execution/ExecutionEngine';
+import { SessionPriority } from '@/src/models/Session';
+import { mcpClientService } from '../services/MCPClientService';
+import { channels } from './channels';
+
+let queue: Promise<SessionQueueManager> | null = null;
+
+export function registerQueueHandlers(): void {
+  const logger = new Logger('SessionQueue');
+  const db = new DatabaseService();
+  let execution: Promise<ExecutionEngine> | null = null;
+
+  // Built like the CLI's engine so a session runs the same from either
+  const engine = (): Promise<ExecutionEngine> => {
+    if (!execution) {
+      const auth = new APIAuthenticationManager(logger, CredentialManager.getInstance());
+      execution = auth.initialize().then(() => new ExecutionEngine(
+        logger,
+        new ProtocolValidator(logger),
+        new SecuritySandbox(logger),
+        auth.getExecutionClient() || undefined,
+        undefined,
+        mcpClientService.getManager()
+      )).catch(error => {
+        execution = null;
+        throw error;
+      });
+    }
+    return execution;
+  };
+
+  // Sessions the CLI queues with `sessionhub queue add` run here
+  const ready = (): Promise<SessionQueueManager> => {
+    if (!queue) {
+      queue = (async () => {
+        const sessions = SessionService.getInstance();
+        await sessions.initialize();
+        const manager = SessionQueueManager.getInstance({
+          store: new SessionQueueStore(db),
+          sessions,
+          runSession: async (sessionId) => {
+            const session = await sessions.getSession(sessionId);
+            if (!session) throw new Error(`Session ${sessionId} no longer exists`);
+            return (await runPlannedSession(sessions, await engine(), session)).status;
+          }
+        });
+        await manager.whenReady();
+        manager.on('queue-event', (event: QueueEvent) => channels.publish('queue:event', event));
+        return manager;
+      })().catch(error => {
+        queue = null;
+        throw error;
+      });
+    }
+    return queue;
+  };
+
+  const sessionId = { name: 'sessionId', schema: { type: 'string' } };
+
+  channels.handle('queue:state', { summary: 'Get the session queue and its metrics' }, async () => {
+    return (await ready()).getQueueState();
+  });
+
+  channels.handle('queue:add', {
+    summary: 'Queue a planned session',
+    params: [sessionId, { name: 'priority', schema: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] }, optional: true }]
+  }, async (id: string, priority?: SessionPriority) => {
+    const manager = await ready();
+    const sessions = SessionService.getInstance();
+    const session = await sessions.getSession(id);
+    if (!session?.instructions) {
+      throw new Error(`Session ${id} has no plan to execute`);
+    }
+    if (manager.getSession(id)) {
+      throw new Error(`Session ${id} is already queued`);
+    }
+    await manager.addToQueue(await sessions.updateSession(id, {
+      status: 'pending',
+      metadata: { ...session.metadata, priority: priority || session.metadata.priority || 'medium' }
+    }));
+    return manager.getSession(id);
+  });
+
+  channels.handle('queue:cancel', { summary: 'Cancel sessions and drop them from the queue', params: [{ name: 'sessionIds', schema: { type: 'array', items: { type: 'string' } } }] }, async (ids: string[]) => {
+    await (await ready()).cancelMultipleSessions(ids);
+    return { success: true };
+  });
+
+  channels.handle('queue:move', {
+    summary: 'Move a queued session to another position',
+    params: [sessionId, { name: 'position', schema: { type: 'integer', minimum: 1 } }]
+  }, async (id: string, position: number) => {
+    await (await ready()).moveSession(id, position);
+    return { success: true };
+  });
+
+  channels.handle('queue:priority', {
+    summary: 'Change the priority of a queued session',
+    params: [sessionId, { name: 'priority', schema: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] } }]
+  }, async (id: string, priority: SessionPriority) => {
+    await (await ready()).updatePriority(id, priority);
+    return { success: true };
+  });
+
+  channels.handle('queue:pause', { summary: 'Stop starting queued sessions' }, async () => {
+    await (await ready()).pauseQueue();
+    return { success: true };
+  });
+
+  channels.handle('queue:resume', { summary: 'Start queued sessions again' }, async () => {
+    await (await ready()).resumeQueue();
+    return { success: true };
+  });
+
+  // Queued sessions run whether or not the queue page is open
+  ready().catch(error => {
+    logger.error('Failed to start the session queue', error as Error);
+  });
+}
+
+export async function stopQueue(): Promise<void> {
+  const pending = queue;
+  queue = null;
+  if (pending) {
+    (await pending.catch(() => null))?.destroy();
+  }
+}
@@ -3,7 +3,6 @@
  * @responsibility IPC handlers for recovery operations
  */
 
-import { ipcMain } from 'electron';
 import { Logger } from '../../src/lib/logging/Logger';
 import { AuditLogger } from '../../src/lib/logging/AuditLogger';
 import { BackupService } from '../../src/services/BackupService';
@@ -15,6 +14,7 @@ import { BackupHealthMonitor } from '../../src/services/monitoring/BackupHealthM
 import { RecoveryLogger, RecoveryLogQuery } from '../../src/services/recovery/RecoveryLogger';
 import * as path from 'path';
 import * as os from 'os';
+import { channels } from './channels';
 
 let recoveryService: PointInTimeRecoveryService;
 let emergencyRecovery: EmergencyRecoveryMode;
@@ -69,7 +69,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Get available recovery points
    */
-  ipcMain.handle('recovery:getRecoveryPoints', async () => {
+  channels.handle('recovery:getRecoveryPoints', async () => {
     try {
       const points = await recoveryService.scanForRecoveryPoints();
       
@@ -98,7 +98,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Perform point-in-time recovery
    */
-  ipcMain.handle('recovery:recoverToPoint', async (_event, options: RecoveryOptions) => {
+  channels.handle('recovery:recoverToPoint', { params: [{ name: 'options', schema: { type: 'object' } }] }, async (options: RecoveryOptions) => {
     try {
       const result = await recoveryService.recoverToPoint(options);
       
@@ -137,7 +137,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Detect corruption
    */
-  ipcMain.handle('recovery:detectCorruption', async () => {
+  channels.handle('recovery:detectCorruption', async () => {
     try {
       const report = await recoveryService.detectCorruption();
       
@@ -171,7 +171,11 @@ export function registerRecoveryHandlers(): void {
   /**
    * Attempt automatic recovery
    */
-  ipcMain.handle('recovery:attemptAutoRecovery', async (_event, sessionId?: string) => {
+  channels.handle('recovery:attemptAutoRecovery', {
+    params: [
+      { name: 'sessionId', schema: { type: 'string' }, optional: true }
+    ]
+  }, async (sessionId?: string) => {
     try {
       const result = await recoveryService.attemptAutoRecovery(sessionId);
       
@@ -206,7 +210,12 @@ export function registerRecoveryHandlers(): void {
   /**
    * Create recovery checkpoint
    */
-  ipcMain.handle('recovery:createCheckpoint', async (_event, data: unknown, description: string) => {
+  channels.handle('recovery:createCheckpoint', {
+    params: [
+      { name: 'data' },
+      { name: 'description', schema: { type: 'string' } }
+    ]
+  }, async (data: unknown, description: string) => {
     try {
       const checkpoint = await recoveryService.createRecoveryCheckpoint(data, description);
       
@@ -238,7 +247,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Check startup health
    */
-  ipcMain.handle('recovery:checkStartupHealth', async () => {
+  channels.handle('recovery:checkStartupHealth', async () => {
     try {
       const healthy = await emergencyRecovery.checkStartupHealth();
       
@@ -269,7 +278,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Enter emergency recovery mode
    */
-  ipcMain.handle('recovery:enterEmergencyMode', async (_event, options: unknown) => {
+  channels.handle('recovery:enterEmergencyMode', { params: [{ name: 'options' }] }, async (options: unknown) => {
     try {
       const result = await emergencyRecovery.enterEmergencyMode(options as any);
       
@@ -305,7 +314,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Exit emergency recovery mode
    */
-  ipcMain.handle('recovery:exitEmergencyMode', async () => {
+  channels.handle('recovery:exitEmergencyMode', async () => {
     try {
       await emergencyRecovery.exitEmergencyMode();
       
@@ -334,7 +343,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Get safe mode configuration
    */
-  ipcMain.handle('recovery:getSafeModeConfig', async () => {
+  channels.handle('recovery:getSafeModeConfig', async () => {
     try {
       return await emergencyRecovery.getSafeModeConfig();
     } catch (error) {
@@ -345,7 +354,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Get backup health status
    */
-  ipcMain.handle('recovery:getHealthStatus', async () => {
+  channels.handle('recovery:getHealthStatus', async () => {
     try {
       const status = healthMonitor.getHealthStatus();
       
@@ -371,7 +380,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Force health check
    */
-  ipcMain.handle('recovery:checkHealthNow', async () => {
+  channels.handle('recovery:checkHealthNow', async () => {
     try {
       const status = await healthMonitor.checkNow();
       
@@ -403,7 +412,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Query recovery logs
    */
-  ipcMain.handle('recovery:queryLogs', async (_event, query: RecoveryLogQuery) => {
+  channels.handle('recovery:queryLogs', { params: [{ name: 'query', schema: { type: 'object' } }] }, async (query: RecoveryLogQuery) => {
     try {
       return await recoveryLogger.query(query);
     } catch (error) {
@@ -414,7 +423,12 @@ export function registerRecoveryHandlers(): void {
   /**
    * Get recovery log summary
    */
-  ipcMain.handle('recovery:getLogSummary', async (_event, startDate?: Date, endDate?: Date) => {
+  channels.handle('recovery:getLogSummary', {
+    params: [
+      { name: 'startDate', schema: { type: 'string', format: 'date-time' }, optional: true },
+      { name: 'endDate', schema: { type: 'string', format: 'date-time' }, optional: true }
+    ]
+  }, async (startDate?: Date, endDate?: Date) => {
     try {
       return await recoveryLogger.getSummary(startDate, endDate);
     } catch (error) {
@@ -425,7 +439,14 @@ export function registerRecoveryHandlers(): void {
   /**
    * Export recovery logs
    */
-  ipcMain.handle('recovery:exportLogs', async (_event, outputPath: string, query?: RecoveryLogQuery, format?: 'json' | 'csv') => {
+  channels.handle('recovery:exportLogs', {
+    params: [
+      { name: 'outputPath', schema: { type: 'string' } },
+      { name: 'query', schema: { type: 'object' }, optional: true },
+      { name: 'format', schema: { type: 'string', enum: ['json', 'csv'] }, optional: true }
+    ],
+    ipcOnly: true
+  }, async (outputPath: string, query?: RecoveryLogQuery, format?: 'json' | 'csv') => {
     try {
       await recoveryLogger.exportLogs(outputPath, query, format);
       return true;
@@ -437,7 +458,7 @@ export function registerRecoveryHandlers(): void {
   /**
    * Clean up old recovery logs
    */
-  ipcMain.handle('recovery:cleanupLogs', async (_event, daysToKeep: number) => {
+  channels.handle('recovery:cleanupLogs', { params: [{ name: 'daysToKeep', schema: { type: 'number' } }] }, async (daysToKeep: number) => {
     try {
       await recoveryLogger.cleanup(daysToKeep);
       return true;
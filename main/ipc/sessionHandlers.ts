@@ -1,9 +1,9 @@
-import { ipcMain } from 'electron';
 import SessionService, { SessionFilter } from '@/src/services/SessionService';
 import { SessionRequest, SessionMetadata, Session } from '@/src/models/Session';
 // import { InstructionProtocol } from '@/src/models/Instruction';
 // import { ExecutionResult } from '@/src/models/ExecutionResult';
 import { Logger } from '@/src/lib/logging/Logger';
+import { channels } from './channels';
 
 interface SessionTemplate {
   name: string;
@@ -17,29 +17,44 @@ export function registerSessionHandlers() {
   const sessionService = SessionService.getInstance();
 
   // Session CRUD operations
-  ipcMain.handle('session:create', async (_event, request: SessionRequest, metadata: SessionMetadata) => {
+  channels.handle('session:create', {
+    params: [
+      { name: 'request', schema: { type: 'object' } },
+      { name: 'metadata', schema: { type: 'object' } }
+    ]
+  }, async (request: SessionRequest, metadata: SessionMetadata) => {
     return sessionService.createSession(request, metadata);
   });
 
-  ipcMain.handle('session:get', async (_event, sessionId: string) => {
+  channels.handle('session:get', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     return sessionService.getSession(sessionId);
   });
 
-  ipcMain.handle('session:update', async (_event, sessionId: string, updates: unknown) => {
+  channels.handle('session:update', {
+    params: [
+      { name: 'sessionId', schema: { type: 'string' } },
+      { name: 'updates' }
+    ]
+  }, async (sessionId: string, updates: unknown) => {
     return sessionService.updateSession(sessionId, updates as Partial<Session>);
   });
 
-  ipcMain.handle('session:delete', async (_event, sessionId: string) => {
+  channels.handle('session:delete', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     return sessionService.deleteSession(sessionId);
   });
 
   // Session search and filtering
-  ipcMain.handle('session:search', async (_event, filter: SessionFilter) => {
+  channels.handle('session:search', { params: [{ name: 'filter', schema: { type: 'object' } }] }, async (filter: SessionFilter) => {
     return sessionService.searchSessions(filter);
   });
 
   // Session templates
-  ipcMain.handle('session:createTemplate', async (_event, sessionId: string, templateData: Partial<SessionTemplate>) => {
+  channels.handle('session:createTemplate', {
+    params: [
+      { name: 'sessionId', schema: { type: 'string' } },
+      { name: 'templateData', schema: { type: 'object' } }
+    ]
+  }, async (sessionId: string, templateData: Partial<SessionTemplate>) => {
     const session = await sessionService.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -47,30 +62,39 @@ export function registerSessionHandlers() {
     return sessionService.createTemplate(templateData.name || "", templateData.description || "", session);
   });
 
-  ipcMain.handle('session:getTemplates', async (_event) => {
+  channels.handle('session:getTemplates', async () => {
     return sessionService.getTemplates();
   });
 
-  ipcMain.handle('session:createFromTemplate', async (_event, templateId: string, data: any) => {
+  channels.handle('session:createFromTemplate', {
+    params: [
+      { name: 'templateId', schema: { type: 'string' } },
+      { name: 'data' }
+    ]
+  }, async (templateId: string, data: any) => {
     return sessionService.createSessionFromTemplate(templateId, data);
   });
 
   // Session analytics
-  ipcMain.handle('session:analytics', async (_event, _userId?: string) => {
+  channels.handle('session:analytics', {
+    params: [
+      { name: 'userId', schema: { type: 'string' }, optional: true }
+    ]
+  }, async (_userId?: string) => {
     return sessionService.getAnalytics();
   });
 
   // Export/Import
-  ipcMain.handle('session:export', async (_event, sessionId: string) => {
+  channels.handle('session:export', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     return sessionService.exportSession(sessionId);
   });
 
-  ipcMain.handle('session:import', async (_event, data: any) => {
+  channels.handle('session:import', { params: [{ name: 'data' }] }, async (data: any) => {
     return sessionService.importSession(data);
   });
 
   // Session workflow handoffs
-  ipcMain.handle('session:handoffToPlanning', async (_event, sessionId: string) => {
+  channels.handle('session:handoffToPlanning', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     const session = await sessionService.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -78,7 +102,7 @@ export function registerSessionHandlers() {
     return sessionService.handoffToPlanningActor(sessionId);
   });
 
-  ipcMain.handle('session:handoffToExecution', async (_event, sessionId: string) => {
+  channels.handle('session:handoffToExecution', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     const session = await sessionService.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -86,7 +110,7 @@ export function registerSessionHandlers() {
     return sessionService.handoffToExecutionActor(sessionId);
   });
 
-  ipcMain.handle('session:complete', async (_event, sessionId: string) => {
+  channels.handle('session:complete', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     const session = await sessionService.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -94,7 +118,12 @@ export function registerSessionHandlers() {
     return sessionService.completeSession(sessionId);
   });
 
-  ipcMain.handle('session:fail', async (_event, sessionId: string, error: unknown) => {
+  channels.handle('session:fail', {
+    params: [
+      { name: 'sessionId', schema: { type: 'string' } },
+      { name: 'error' }
+    ]
+  }, async (sessionId: string, error: unknown) => {
     const session = await sessionService.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -104,31 +133,42 @@ export function registerSessionHandlers() {
 
   // Git versioning - Note: These methods access private gitService property
   // In a real implementation, these should be exposed as public methods on SessionService
-  ipcMain.handle('session:getHistory', async (_event, sessionId: string) => {
+  channels.handle('session:getHistory', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
     // Placeholder since gitService is private
     logger.info('Session history requested', { sessionId });
     return { message: 'Git service access is private - needs public API' };
   });
 
-  ipcMain.handle('session:getVersion', async (_event, sessionId: string, commit: string) => {
+  channels.handle('session:getVersion', {
+    params: [
+      { name: 'sessionId', schema: { type: 'string' } },
+      { name: 'commit', schema: { type: 'string' } }
+    ]
+  }, async (sessionId: string, commit: string) => {
     // Placeholder since gitService is private
     logger.info('Session version requested', { sessionId, commit });
     return { message: 'Git service access is private - needs public API' };
   });
 
-  ipcMain.handle('session:compareVersions', async (_event, sessionId: string, commit1: string, commit2: string) => {
+  channels.handle('session:compareVersions', {
+    params: [
+      { name: 'sessionId', schema: { type: 'string' } },
+      { name: 'commit1', schema: { type: 'string' } },
+      { name: 'commit2', schema: { type: 'string' } }
+    ]
+  }, async (sessionId: string, commit1: string, commit2: string) => {
     // Placeholder since gitService is private
     logger.info('Session version comparison requested', { sessionId, commit1, commit2 });
     return { message: 'Git service access is private - needs public API' };
   });
 
-  ipcMain.handle('session:searchByContent', async (_event, searchTerm: string) => {
+  channels.handle('session:searchByContent', { params: [{ name: 'searchTerm', schema: { type: 'string' } }] }, async (searchTerm: string) => {
     // Placeholder since gitService is private
     logger.info('Session content search requested', { searchTerm });
     return { message: 'Git service access is private - needs public API' };
   });
 
-  ipcMain.handle('session:getStatistics', async (_event) => {
+  channels.handle('session:getStatistics', async () => {
     // Placeholder since gitService is private
     logger.info('Session statistics requested');
     return { message: 'Git service access is private - needs public API' };
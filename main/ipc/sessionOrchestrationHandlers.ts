@@ -3,7 +3,6 @@
  * @responsibility IPC handlers for session orchestration and complexity management
  */
 
-import { ipcMain, IpcMainInvokeEvent, BrowserWindow } from 'electron';
 import { Logger } from '@/src/lib/logging/Logger';
 import { AuditLogger } from '@/src/lib/logging/AuditLogger';
 import { SessionManager } from '@/src/core/orchestrator/SessionManager';
@@ -13,6 +12,14 @@ import { SessionOrchestrationFramework } from '@/src/services/session/SessionOrc
 import { SessionPatternLearningSystem } from '@/src/services/session/SessionPatternLearningSystem';
 import { PatternRecognitionService } from '@/src/services/intelligence/PatternRecognitionService';
 import { DatabaseService } from '@/src/database/DatabaseService';
+import { ChannelParam } from '@/src/services/localapi/ChannelRegistry';
+import { channels } from './channels';
+
+const workflowRequest: ChannelParam = {
+  name: 'request',
+  body: true,
+  schema: { type: 'object', properties: { workflowId: { type: 'string' } }, required: ['workflowId'] }
+};
 
 export function registerSessionOrchestrationHandlers(): void {
   // Initialize services
@@ -33,10 +40,13 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Analyze session complexity
    */
-  ipcMain.handle('session:analyzeComplexity', async (
-    _event: IpcMainInvokeEvent,
-    { content }: { content: string }
-  ) => {
+  channels.handle('session:analyzeComplexity', {
+    params: [{
+      name: 'request',
+      body: true,
+      schema: { type: 'object', properties: { content: { type: 'string' } }, required: ['content'] }
+    }]
+  }, async ({ content }: { content: string }) => {
     try {
       const request = {
         id: `req_${Date.now()}`,
@@ -71,14 +81,21 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Create split workflow from complexity analysis
    */
-  ipcMain.handle('session:createSplitWorkflow', async (
-    _event: IpcMainInvokeEvent,
-    { complexityScore, name, description }: {
-      complexityScore: unknown;
-      name: string;
-      description: string;
-    }
-  ) => {
+  channels.handle('session:createSplitWorkflow', {
+    params: [{
+      name: 'request',
+      body: true,
+      schema: {
+        type: 'object',
+        properties: { complexityScore: { type: 'object' }, name: { type: 'string' }, description: { type: 'string' } },
+        required: ['complexityScore', 'name', 'description']
+      }
+    }]
+  }, async ({ complexityScore, name, description }: {
+    complexityScore: unknown;
+    name: string;
+    description: string;
+  }) => {
     try {
       // Create a session for splitting
       const session = await sessionManager.createSession({
@@ -121,7 +138,7 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Get all workflows
    */
-  ipcMain.handle('session:getWorkflows', async (_event: IpcMainInvokeEvent) => {
+  channels.handle('session:getWorkflows', async () => {
     try {
       const workflows = orchestrationFramework.getAllWorkflows();
       return {
@@ -140,10 +157,7 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Start workflow execution
    */
-  ipcMain.handle('workflow:start', async (
-    _event: IpcMainInvokeEvent,
-    { workflowId }: { workflowId: string }
-  ) => {
+  channels.handle('workflow:start', { params: [workflowRequest] }, async ({ workflowId }: { workflowId: string }) => {
     try {
       await orchestrationFramework.executeWorkflow(workflowId, {
         continueOnFailure: false,
@@ -167,10 +181,7 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Pause workflow execution
    */
-  ipcMain.handle('workflow:pause', async (
-    _event: IpcMainInvokeEvent,
-    { workflowId }: { workflowId: string }
-  ) => {
+  channels.handle('workflow:pause', { params: [workflowRequest] }, async ({ workflowId }: { workflowId: string }) => {
     try {
       await orchestrationFramework.pauseWorkflow(workflowId);
       return { success: true };
@@ -186,10 +197,7 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Resume workflow execution
    */
-  ipcMain.handle('workflow:resume', async (
-    _event: IpcMainInvokeEvent,
-    { workflowId }: { workflowId: string }
-  ) => {
+  channels.handle('workflow:resume', { params: [workflowRequest] }, async ({ workflowId }: { workflowId: string }) => {
     try {
       await orchestrationFramework.resumeWorkflow(workflowId);
       return { success: true };
@@ -205,10 +213,7 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Cancel workflow execution
    */
-  ipcMain.handle('workflow:cancel', async (
-    _event: IpcMainInvokeEvent,
-    { workflowId }: { workflowId: string }
-  ) => {
+  channels.handle('workflow:cancel', { params: [workflowRequest] }, async ({ workflowId }: { workflowId: string }) => {
     try {
       await orchestrationFramework.cancelWorkflow(workflowId);
       return { success: true };
@@ -224,7 +229,7 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Get pattern learning insights
    */
-  ipcMain.handle('session:getLearningInsights', async (_event: IpcMainInvokeEvent) => {
+  channels.handle('session:getLearningInsights', async () => {
     try {
       const insights = learningSystem.getInsights() as unknown;
       const statistics = learningSystem.getPatternStatistics() as unknown;
@@ -246,10 +251,13 @@ export function registerSessionOrchestrationHandlers(): void {
   /**
    * Get complexity statistics
    */
-  ipcMain.handle('session:getComplexityStatistics', async (
-    _event: IpcMainInvokeEvent,
-    { userId, projectId }: { userId?: string; projectId?: string }
-  ) => {
+  channels.handle('session:getComplexityStatistics', {
+    params: [{
+      name: 'request',
+      body: true,
+      schema: { type: 'object', properties: { userId: { type: 'string' }, projectId: { type: 'string' } } }
+    }]
+  }, async ({ userId, projectId }: { userId?: string; projectId?: string }) => {
     try {
       const statistics = await complexityAnalyzer.getComplexityStatistics(userId, projectId);
       return {
@@ -267,63 +275,42 @@ export function registerSessionOrchestrationHandlers(): void {
 
   // Set up event forwarding
   orchestrationFramework.on('workflow:created', (workflow: { id: string }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('workflow:created', workflow);
-    });
+    channels.publish('workflow:created', workflow);
   });
 
   orchestrationFramework.on('workflow:started', (workflow: { id: string }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('workflow:started', workflow);
-    });
+    channels.publish('workflow:started', workflow);
   });
 
   orchestrationFramework.on('workflow:progress', (workflow: { id: string; progress: unknown }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('workflow:progress', {
-        workflowId: workflow.id,
-        progress: workflow.progress
-      });
+    channels.publish('workflow:progress', {
+      workflowId: workflow.id,
+      progress: workflow.progress
     });
   });
 
   orchestrationFramework.on('workflow:completed', (workflow: { id: string }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('workflow:completed', { workflowId: workflow.id });
-    });
+    channels.publish('workflow:completed', { workflowId: workflow.id });
   });
 
   orchestrationFramework.on('workflow:failed', ({ workflow, error }: { workflow: { id: string }; error: Error }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('workflow:failed', {
-        workflowId: workflow.id,
-        error: error.message
-      });
+    channels.publish('workflow:failed', {
+      workflowId: workflow.id,
+      error: error.message
     });
   });
 
   orchestrationFramework.on('session:starting', ({ workflow, sessionId }: { workflow: { id: string }; sessionId: string }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('session:starting', {
-        workflowId: workflow.id,
-        sessionId
-      });
+    channels.publish('session:starting', {
+      workflowId: workflow.id,
+      sessionId
     });
   });
 
   orchestrationFramework.on('session:completed', ({ workflow, sessionId }: { workflow: { id: string }; sessionId: string }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('session:completed', {
-        workflowId: workflow.id,
-        sessionId
-      });
+    channels.publish('session:completed', {
+      workflowId: workflow.id,
+      sessionId
     });
     
     // Learn from completed session
@@ -337,13 +324,10 @@ export function registerSessionOrchestrationHandlers(): void {
   });
 
   orchestrationFramework.on('session:failed', ({ workflow, sessionId, error }: { workflow: { id: string }; sessionId: string; error: Error }) => {
-    const windows = BrowserWindow.getAllWindows();
-    windows.forEach((window: BrowserWindow) => {
-      void window.webContents.send('session:failed', {
-        workflowId: workflow.id,
-        sessionId,
-        error: error.message
-      });
+    channels.publish('session:failed', {
+      workflowId: workflow.id,
+      sessionId,
+      error: error.message
     });
   });
 
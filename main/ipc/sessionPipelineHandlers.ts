@@ -2,9 +2,17 @@ import { ipcMain, IpcMainInvokeEvent } from 'electron';
 import { Logger } from '@/src/lib/logging/Logger';
 import { AuditLogger } from '@/src/lib/logging/AuditLogger';
 import { ClaudeAPIClient } from '@/src/lib/api/ClaudeAPIClient';
-import { SessionExecutionPipeline, SessionExecutionRequest } from '@/src/services/session/SessionExecutionPipeline';
+import { providerFromEnvironment } from '@/src/lib/api/providers';
+import {
+  SessionExecutionPipeline,
+  SessionExecutionRequest,
+  SessionProgressEvent,
+  SessionStreamEvent
+} from '@/src/services/session/SessionExecutionPipeline';
 import { DocumentImportService } from '@/src/services/document/DocumentImportService';
 import { DocumentAnalysisService, DocumentMetadata } from '@/src/services/document/DocumentAnalysisService';
+import { mcpClientService } from '../services/MCPClientService';
+import { channels } from './channels';
 import * as path from 'path';
 
 let sessionPipeline: SessionExecutionPipeline | null = null;
@@ -35,9 +43,16 @@ function initializeServices() {
   }
 
   if (!sessionPipeline) {
-    const claudeClient = new ClaudeAPIClient({ apiKey: process.env['ANTHROPIC_API_KEY'] || '' }, logger);
+    // SESSIONHUB_LLM_* variables point both actors at another provider
+    const claudeClient = new ClaudeAPIClient({
+      apiKey: process.env['ANTHROPIC_API_KEY'] || '',
+      provider: providerFromEnvironment(process.env, logger)
+    }, logger);
     if (auditLogger) {
-      sessionPipeline = new SessionExecutionPipeline(logger, auditLogger, claudeClient);
+      sessionPipeline = new SessionExecutionPipeline(logger, auditLogger, claudeClient, mcpClientService.getManager());
+      // Every window and /events subscriber sees each session's progress and output
+      sessionPipeline.on('progress', (event: SessionProgressEvent) => channels.publish('session:progress', event));
+      sessionPipeline.on('stream', (event: SessionStreamEvent) => channels.publish('session:stream', event));
     }
   }
 }
@@ -45,37 +60,49 @@ function initializeServices() {
 export function registerSessionPipelineHandlers() {
   initializeServices();
 
-  // Execute a complete session
-  ipcMain.handle('session:execute', async (
-    event: IpcMainInvokeEvent,
-    request: SessionExecutionRequest
-  ) => {
+  // Execute a complete session; progress and output arrive as session:progress and session:stream
+  channels.handle('session:execute', {
+    summary: 'Plan and execute a session',
+    params: [{
+      name: 'request',
+      body: true,
+      schema: {
+        type: 'object',
+        properties: { userId: { type: 'string' }, projectId: { type: 'string' }, description: { type: 'string' } },
+        required: ['userId', 'projectId', 'description']
+      }
+    }]
+  }, async (request: SessionExecutionRequest) => {
     try {
       initializeServices();
 
-      // Subscribe to progress updates
-      const sessionId = `session_${Date.now()}`;
-      if (sessionPipeline) {
-        sessionPipeline.subscribeToProgress(sessionId, (progress) => {
-          void event.sender.send('session:progress', { sessionId, progress });
-        });
-
-        // Execute session
-        const result = await sessionPipeline.executeSession(request);
-
-        // Unsubscribe from progress
-        sessionPipeline.unsubscribeFromProgress(sessionId);
-        
-        return { success: true, session: result };
-      } else {
-        throw new Error('Session pipeline not initialized');
-      }
+      if (!sessionPipeline) throw new Error('Session pipeline not initialized');
+      const session = await sessionPipeline.executeSession(request);
+      return { success: true, session };
     } catch (error) {
       logger?.error('Session execution failed', error as Error);
       return { success: false, error: (error as Error).message };
     }
   });
 
+  // Cancel a session's execution; its changes are rolled back
+  channels.handle('session:cancel', {
+    summary: 'Cancel a running session and roll back its changes',
+    params: [{ name: 'sessionId', schema: { type: 'string' } }]
+  }, async (sessionId: string) => {
+    initializeServices();
+    return { success: sessionPipeline?.cancelSession(sessionId) ?? false };
+  });
+
+  // Cancel the response a session is streaming
+  ipcMain.handle('session:cancelStreaming', async (
+    _event: IpcMainInvokeEvent,
+    sessionId: string
+  ) => {
+    initializeServices();
+    return { success: sessionPipeline?.cancelStreaming(sessionId) ?? false };
+  });
+
   // Import documents
   ipcMain.handle('document:import', async (
     _event: IpcMainInvokeEvent,
@@ -166,6 +193,57 @@ export function registerSessionPipelineHandlers() {
     }
   });
 
+  // Roll back the changes a session's execution applied
+  ipcMain.handle('session:rollback', async (
+    _event: IpcMainInvokeEvent,
+    sessionId: string
+  ) => {
+    try {
+      initializeServices();
+
+      if (!sessionPipeline) throw new Error('Session pipeline not initialized');
+      const report = await sessionPipeline.rollbackSession(sessionId);
+      return { success: true, report };
+    } catch (error) {
+      logger?.error('Session rollback failed', error as Error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // List the recordings of a session's recorded executions
+  ipcMain.handle('session:recordings', async (
+    _event: IpcMainInvokeEvent,
+    sessionId: string
+  ) => {
+    try {
+      initializeServices();
+
+      if (!sessionPipeline) throw new Error('Session pipeline not initialized');
+      const recordings = await sessionPipeline.listRecordings(sessionId);
+      return { success: true, recordings };
+    } catch (error) {
+      logger?.error('Failed to list recordings', error as Error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Replay a recorded execution without reaching the network or running commands
+  ipcMain.handle('session:replay', async (
+    _event: IpcMainInvokeEvent,
+    recording: string
+  ) => {
+    try {
+      initializeServices();
+
+      if (!sessionPipeline) throw new Error('Session pipeline not initialized');
+      const report = await sessionPipeline.replayRecording(recording);
+      return { success: true, report };
+    } catch (error) {
+      logger?.error('Session replay failed', error as Error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // Get user sessions
   ipcMain.handle('session:getUserSessions', async (
     _event: IpcMainInvokeEvent,
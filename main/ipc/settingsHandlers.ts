@@ -1,6 +1,7 @@
 import { ipcMain } from "electron";
 import Store from "electron-store";
 import { ClaudeAPIClient } from "../../src/lib/api/ClaudeAPIClient";
+import { TerminologyAllowlist } from "../../src/core/protocol/TerminologyAllowlist";
 import fs from 'fs/promises';
 import path from 'path';
 import { app } from 'electron';
@@ -268,6 +269,32 @@ export function registerSettingsHandlers(): void {
       return getDefaultSettings().features;
     }
   });
+
+  // Project terms that code detection must not flag, from the project's config
+  ipcMain.handle("get-terminology-allowlist", async (_event, projectId: string, projectPath: string) => {
+    try {
+      const terms = await TerminologyAllowlist.getInstance().loadProject(projectId, projectPath);
+      return { success: true, terms };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load project terminology'
+      };
+    }
+  });
+
+  // Save a project's terms to its config
+  ipcMain.handle("save-terminology-allowlist", async (_event, projectId: string, projectPath: string, terms: string[]) => {
+    try {
+      const saved = await TerminologyAllowlist.getInstance().saveProject(projectId, projectPath, terms);
+      return { success: true, terms: saved };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save project terminology'
+      };
+    }
+  });
 }
 
 function getDefaultSettings(): SettingsData {
@@ -1,14 +1,15 @@
-import { ipcMain, shell, BrowserWindow } from 'electron';
+import { shell } from 'electron';
 import { ZedAdapter } from '../../src/services/ide/ZedAdapter';
 import { ZedConnectionManager } from '../../src/services/ide/ZedConnectionManager';
 import { BaseProjectContext } from '../../src/models/ProjectContext';
+import { channels } from './channels';
 
 let zedAdapter: ZedAdapter | null = null;
 let connectionManager: ZedConnectionManager | null = null;
 
 export function registerZedHandlers() {
   // Connection Management
-  ipcMain.handle('zed:store-credentials', async (_event, credentials) => {
+  channels.handle('zed:store-credentials', { params: [{ name: 'credentials' }], ipcOnly: true }, async (credentials) => {
     if (!connectionManager) {
       connectionManager = new ZedConnectionManager();
     }
@@ -17,7 +18,7 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:test-connection', async () => {
+  channels.handle('zed:test-connection', async () => {
     if (!connectionManager) {
       connectionManager = new ZedConnectionManager();
     }
@@ -25,7 +26,7 @@ export function registerZedHandlers() {
     return await connectionManager.testConnection();
   });
 
-  ipcMain.handle('zed:get-connection-health', async () => {
+  channels.handle('zed:get-connection-health', async () => {
     if (!connectionManager) {
       throw new Error('Connection manager not initialized');
     }
@@ -33,7 +34,7 @@ export function registerZedHandlers() {
     return await connectionManager.getConnectionHealth();
   });
 
-  ipcMain.handle('zed:reconnect', async () => {
+  channels.handle('zed:reconnect', async () => {
     if (!connectionManager) {
       throw new Error('Connection manager not initialized');
     }
@@ -43,7 +44,7 @@ export function registerZedHandlers() {
   });
 
   // IDE Adapter Operations
-  ipcMain.handle('zed:connect', async () => {
+  channels.handle('zed:connect', async () => {
     if (!zedAdapter) {
       zedAdapter = new ZedAdapter();
     }
@@ -52,7 +53,7 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:disconnect', async () => {
+  channels.handle('zed:disconnect', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -61,7 +62,7 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:open-workspace', async (_event, workspacePath: string) => {
+  channels.handle('zed:open-workspace', { params: [{ name: 'workspacePath', schema: { type: 'string' } }] }, async (workspacePath: string) => {
     if (!zedAdapter) {
       zedAdapter = new ZedAdapter();
       void zedAdapter.connect();
@@ -71,7 +72,7 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:get-workspace-info', async () => {
+  channels.handle('zed:get-workspace-info', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -79,7 +80,7 @@ export function registerZedHandlers() {
     return await zedAdapter.getActiveWorkspace();
   });
 
-  ipcMain.handle('zed:open-file', async (_event, filePath: string) => {
+  channels.handle('zed:open-file', { params: [{ name: 'filePath', schema: { type: 'string' } }] }, async (filePath: string) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -88,7 +89,13 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:save-file', async (_event, filePath: string, content: string) => {
+  channels.handle('zed:save-file', {
+    params: [
+      { name: 'filePath', schema: { type: 'string' } },
+      { name: 'content', schema: { type: 'string' } }
+    ],
+    ipcOnly: true
+  }, async (filePath: string, content: string) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -98,7 +105,12 @@ export function registerZedHandlers() {
   });
 
   // Two-Actor Integration
-  ipcMain.handle('zed:send-to-execution', async (_event, instruction: string, context: unknown) => {
+  channels.handle('zed:send-to-execution', {
+    params: [
+      { name: 'instruction', schema: { type: 'string' } },
+      { name: 'context' }
+    ]
+  }, async (instruction: string, context: unknown) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -107,7 +119,7 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:get-execution-status', async () => {
+  channels.handle('zed:get-execution-status', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -115,7 +127,7 @@ export function registerZedHandlers() {
     return await zedAdapter.getExecutionStatus();
   });
 
-  ipcMain.handle('zed:get-actor-status', async () => {
+  channels.handle('zed:get-actor-status', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -123,7 +135,7 @@ export function registerZedHandlers() {
     return await zedAdapter.getActorStatus();
   });
 
-  ipcMain.handle('zed:sync-actors', async () => {
+  channels.handle('zed:sync-actors', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -133,7 +145,13 @@ export function registerZedHandlers() {
   });
 
   // New Two-Actor handlers
-  ipcMain.handle('zed:handle-slash-command', async (_event, command: string, args: string, context: any) => {
+  channels.handle('zed:handle-slash-command', {
+    params: [
+      { name: 'command', schema: { type: 'string' } },
+      { name: 'args', schema: { type: 'string' } },
+      { name: 'context' }
+    ]
+  }, async (command: string, args: string, context: any) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -141,7 +159,7 @@ export function registerZedHandlers() {
     return await zedAdapter.handleSlashCommand(command, args, context);
   });
 
-  ipcMain.handle('zed:get-boundary-violations', async () => {
+  channels.handle('zed:get-boundary-violations', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -149,7 +167,7 @@ export function registerZedHandlers() {
     return zedAdapter.getBoundaryViolations();
   });
 
-  ipcMain.handle('zed:get-flow-metrics', async () => {
+  channels.handle('zed:get-flow-metrics', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -157,7 +175,7 @@ export function registerZedHandlers() {
     return zedAdapter.getInstructionFlowMetrics();
   });
 
-  ipcMain.handle('zed:enforce-assistant-response', async (_event, response: any) => {
+  channels.handle('zed:enforce-assistant-response', { params: [{ name: 'response' }] }, async (response: any) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -166,7 +184,7 @@ export function registerZedHandlers() {
   });
 
   // Git Operations
-  ipcMain.handle('zed:git-status', async () => {
+  channels.handle('zed:git-status', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -174,7 +192,11 @@ export function registerZedHandlers() {
     return await zedAdapter.getGitStatus();
   });
 
-  ipcMain.handle('zed:stage-files', async (_event, files: string[]) => {
+  channels.handle('zed:stage-files', {
+    params: [
+      { name: 'files', schema: { type: 'array', items: { type: 'string' } } }
+    ]
+  }, async (files: string[]) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -183,7 +205,7 @@ export function registerZedHandlers() {
     return { success: true };
   });
 
-  ipcMain.handle('zed:commit', async (_event, message: string) => {
+  channels.handle('zed:commit', { params: [{ name: 'message', schema: { type: 'string' } }] }, async (message: string) => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -193,7 +215,7 @@ export function registerZedHandlers() {
   });
 
   // Quality Gates
-  ipcMain.handle('zed:run-linter', async () => {
+  channels.handle('zed:run-linter', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -201,7 +223,7 @@ export function registerZedHandlers() {
     return await zedAdapter.runLinter();
   });
 
-  ipcMain.handle('zed:run-typecheck', async () => {
+  channels.handle('zed:run-typecheck', async () => {
     if (!zedAdapter) {
       throw new Error('Zed adapter not initialized');
     }
@@ -210,7 +232,7 @@ export function registerZedHandlers() {
   });
 
   // Utility
-  ipcMain.handle('zed:open-external', async (_event, url: string) => {
+  channels.handle('zed:open-external', { params: [{ name: 'url', schema: { type: 'string' } }], ipcOnly: true }, async (url: string) => {
     void shell.openExternal(url);
     return { success: true };
   });
@@ -218,54 +240,36 @@ export function registerZedHandlers() {
   // Forward events from adapters to renderer
   if (connectionManager) {
     connectionManager.on('health-check', (health: unknown) => {
-      const windows = BrowserWindow.getAllWindows();
-      windows.forEach((window) => {
-        void window.webContents.send('zed:health-update', health);
-      });
+      channels.publish('zed:health-update', health);
     });
   }
 
   if (zedAdapter) {
     zedAdapter.on('workspace-opened', (workspace: unknown) => {
-      const windows = BrowserWindow.getAllWindows();
-      windows.forEach((window) => {
-        void window.webContents.send('zed:workspace-opened', workspace);
-      });
+      channels.publish('zed:workspace-opened', workspace);
     });
 
     zedAdapter.on('execution-sent', (message: { instruction: string }) => {
-      const windows = BrowserWindow.getAllWindows();
-      windows.forEach((window) => {
-        void window.webContents.send('actor:instruction-sent', {
-          id: Date.now().toString(),
-          type: 'execution',
-          content: message.instruction,
-          timestamp: new Date(),
-          status: 'sent'
-        });
+      channels.publish('actor:instruction-sent', {
+        id: Date.now().toString(),
+        type: 'execution',
+        content: message.instruction,
+        timestamp: new Date(),
+        status: 'sent'
       });
     });
 
     // Forward Two-Actor events
     zedAdapter.on('actor-state-update', (state: any) => {
-      const windows = BrowserWindow.getAllWindows();
-      windows.forEach((window) => {
-        void window.webContents.send('zed:actor-state-update', state);
-      });
+      channels.publish('zed:actor-state-update', state);
     });
 
     zedAdapter.on('boundary-violation', (violation: any) => {
-      const windows = BrowserWindow.getAllWindows();
-      windows.forEach((window) => {
-        void window.webContents.send('zed:boundary-violation', violation);
-      });
+      channels.publish('zed:boundary-violation', violation);
     });
 
     zedAdapter.on('execution-complete', (data: any) => {
-      const windows = BrowserWindow.getAllWindows();
-      windows.forEach((window) => {
-        void window.webContents.send('zed:execution-complete', data);
-      });
+      channels.publish('zed:execution-complete', data);
     });
   }
 }
\ No newline at end of file
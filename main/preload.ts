@@ -63,6 +63,37 @@ interface SessionProgressData {
   };
 }
 
+interface ChatStreamData {
+  sessionId: string;
+  delta: string;
+}
+
+interface SessionStreamData {
+  sessionId: string;
+  phase: "planning" | "executing";
+  delta: string;
+  objectives?: Array<{ id: string; primary: string }>;
+}
+
+type IpcListener = (event: Electron.IpcRendererEvent, data: unknown) => void;
+
+// Wrappers registered for stream callbacks, so they can be removed again
+const streamListeners = new Map<(data: never) => void, IpcListener>();
+
+function addStreamListener<T>(channel: string, callback: (data: T) => void): void {
+  const listener: IpcListener = (_event, data) => callback(data as T);
+  streamListeners.set(callback, listener);
+  ipcRenderer.on(channel, listener);
+}
+
+function removeStreamListener<T>(channel: string, callback: (data: T) => void): void {
+  const listener = streamListeners.get(callback);
+  if (listener) {
+    ipcRenderer.removeListener(channel, listener);
+    streamListeners.delete(callback);
+  }
+}
+
 interface DocumentMetadata {
   path: string;
   name: string;
@@ -120,6 +151,9 @@ interface SessionHubAPI {
 
   // Chat functionality
   sendChatMessage: (sessionId: string, message: string) => Promise<string>;
+  cancelChatMessage: (sessionId: string) => Promise<boolean>;
+  onChatStream: (callback: (data: ChatStreamData) => void) => void;
+  removeChatStreamListener: (callback: (data: ChatStreamData) => void) => void;
 
   // GitHub integration
   selectGitHubRepo: () => Promise<{
@@ -216,12 +250,19 @@ interface SessionHubAPI {
   analyzeDocument: (documentMetadata: DocumentMetadata) => Promise<APIResponse<unknown>>;
   analyzeDocumentSet: (documents: DocumentMetadata[]) => Promise<APIResponse<unknown>>;
   getSession: (sessionId: string) => Promise<APIResponse<SessionData>>;
+  cancelSession: (sessionId: string) => Promise<{ success: boolean }>;
+  rollbackSession: (sessionId: string) => Promise<APIResponse<unknown>>;
+  listSessionRecordings: (sessionId: string) => Promise<APIResponse<string[]>>;
+  replaySessionRecording: (recording: string) => Promise<APIResponse<unknown>>;
   getUserSessions: (userId: string) => Promise<APIResponse<SessionData[]>>;
   getSessionMetrics: () => Promise<APIResponse<unknown>>;
   selectDocuments: () => Promise<string[] | null>;
   getFileInfo: (filePath: string) => Promise<DocumentMetadata>;
   onSessionProgress: (callback: (data: SessionProgressData) => void) => void;
   removeSessionProgressListener: (callback: (data: SessionProgressData) => void) => void;
+  cancelSessionStreaming: (sessionId: string) => Promise<{ success: boolean }>;
+  onSessionStream: (callback: (data: SessionStreamData) => void) => void;
+  removeSessionStreamListener: (callback: (data: SessionStreamData) => void) => void;
 
   // Event handlers for navigation and file operations
   onNavigate: (callback: (path: string) => void) => void;
@@ -253,6 +294,13 @@ contextBridge.exposeInMainWorld("sessionhub", {
 
   // Chat functionality
   sendChatMessage: (sessionId: string, message: string) => ipcRenderer.invoke("send-chat-message", sessionId, message),
+  cancelChatMessage: (sessionId: string) => ipcRenderer.invoke("cancel-chat-message", sessionId),
+  onChatStream: (callback: (data: ChatStreamData) => void) => {
+    addStreamListener("chat:stream", callback);
+  },
+  removeChatStreamListener: (callback: (data: ChatStreamData) => void) => {
+    removeStreamListener("chat:stream", callback);
+  },
 
   // GitHub integration
   selectGitHubRepo: () => ipcRenderer.invoke("select-github-repo"),
@@ -332,6 +380,10 @@ contextBridge.exposeInMainWorld("sessionhub", {
   analyzeDocument: (documentMetadata: DocumentMetadata) => ipcRenderer.invoke("document:analyze", documentMetadata),
   analyzeDocumentSet: (documents: DocumentMetadata[]) => ipcRenderer.invoke("document:analyzeSet", documents),
   getSession: (sessionId: string) => ipcRenderer.invoke("session:get", sessionId),
+  cancelSession: (sessionId: string) => ipcRenderer.invoke("session:cancel", sessionId),
+  rollbackSession: (sessionId: string) => ipcRenderer.invoke("session:rollback", sessionId),
+  listSessionRecordings: (sessionId: string) => ipcRenderer.invoke("session:recordings", sessionId),
+  replaySessionRecording: (recording: string) => ipcRenderer.invoke("session:replay", recording),
   getUserSessions: (userId: string) => ipcRenderer.invoke("session:getUserSessions", userId),
   getSessionMetrics: () => ipcRenderer.invoke("session:getMetrics"),
   selectDocuments: () => ipcRenderer.invoke("dialog:selectDocuments"),
@@ -344,6 +396,13 @@ contextBridge.exposeInMainWorld("sessionhub", {
     const wrapper = (_event: Electron.IpcRendererEvent, data: SessionProgressData) => callback(data);
     ipcRenderer.removeListener("session:progress", wrapper as any);
   },
+  cancelSessionStreaming: (sessionId: string) => ipcRenderer.invoke("session:cancelStreaming", sessionId),
+  onSessionStream: (callback: (data: SessionStreamData) => void) => {
+    addStreamListener("session:stream", callback);
+  },
+  removeSessionStreamListener: (callback: (data: SessionStreamData) => void) => {
+    removeStreamListener("session:stream", callback);
+  },
 
   // Event handlers
   onNavigate: (callback: (path: string) => void) => {
@@ -555,6 +614,44 @@ contextBridge.exposeInMainWorld("sessionhub", {
       test: (integrationId: string, tool: string, params: unknown) => 
         ipcRenderer.invoke("mcp:tool:test", integrationId, tool, params),
     },
+    signing: {
+      sign: (target: unknown, publisher?: string) =>
+        ipcRenderer.invoke("mcp:integrations:sign", target, publisher),
+      listKeys: () =>
+        ipcRenderer.invoke("mcp:keyring:list"),
+      trustKey: (publisher: string, publicKeyPem: string) =>
+        ipcRenderer.invoke("mcp:keyring:trust", publisher, publicKeyPem),
+      revokeKey: (keyId: string) =>
+        ipcRenderer.invoke("mcp:keyring:revoke", keyId),
+      listQuarantined: () =>
+        ipcRenderer.invoke("mcp:quarantine:list"),
+      releaseQuarantined: (id: string) =>
+        ipcRenderer.invoke("mcp:quarantine:release", id),
+      deleteQuarantined: (id: string) =>
+        ipcRenderer.invoke("mcp:quarantine:delete", id),
+    },
+    tokens: {
+      issue: (client: string, scopes: string[], expiresInDays?: number) =>
+        ipcRenderer.invoke("mcp:tokens:issue", client, scopes, expiresInDays),
+      list: () =>
+        ipcRenderer.invoke("mcp:tokens:list"),
+      revoke: (tokenId: string) =>
+        ipcRenderer.invoke("mcp:tokens:revoke", tokenId),
+    },
+    batch: {
+      list: () =>
+        ipcRenderer.invoke("mcp:batch:list"),
+      get: (operationId: string) =>
+        ipcRenderer.invoke("mcp:batch:get", operationId),
+      cancel: (operationId: string) =>
+        ipcRenderer.invoke("mcp:batch:cancel", operationId),
+      resume: (operationId: string) =>
+        ipcRenderer.invoke("mcp:batch:resume", operationId),
+      retry: (operationId: string) =>
+        ipcRenderer.invoke("mcp:batch:retry", operationId),
+      rollback: (operationId: string) =>
+        ipcRenderer.invoke("mcp:batch:rollback", operationId),
+    },
     marketplace: {
       search: (options: unknown) => 
         ipcRenderer.invoke("mcp:marketplace:search", options),
@@ -564,10 +661,28 @@ contextBridge.exposeInMainWorld("sessionhub", {
         ipcRenderer.invoke("mcp:marketplace:getTrending"),
       getIntegration: (id: string) => 
         ipcRenderer.invoke("mcp:marketplace:getIntegration", id),
-      install: (integrationId: string) => 
-        ipcRenderer.invoke("mcp:marketplace:install", integrationId),
+      install: (packageId: string, version?: string) => 
+        ipcRenderer.invoke("mcp:marketplace:install", packageId, version),
       getCategories: () => 
         ipcRenderer.invoke("mcp:marketplace:getCategories"),
+      listInstalled: () =>
+        ipcRenderer.invoke("mcp:marketplace:installed"),
+      planUpgrade: (packageId: string, version?: string) =>
+        ipcRenderer.invoke("mcp:marketplace:planUpgrade", packageId, version),
+      upgrade: (plan: unknown) =>
+        ipcRenderer.invoke("mcp:marketplace:upgrade", plan),
+      pin: (packageId: string, pinned: boolean) =>
+        ipcRenderer.invoke("mcp:marketplace:pin", packageId, pinned),
+      uninstall: (packageId: string) =>
+        ipcRenderer.invoke("mcp:marketplace:uninstall", packageId),
+      listSources: () =>
+        ipcRenderer.invoke("mcp:marketplace:sources:list"),
+      addSource: (location: string) =>
+        ipcRenderer.invoke("mcp:marketplace:sources:add", location),
+      removeSource: (location: string) =>
+        ipcRenderer.invoke("mcp:marketplace:sources:remove", location),
+      refresh: () =>
+        ipcRenderer.invoke("mcp:marketplace:refresh"),
     },
     on: (event: string, callback: (data: unknown) => void) => {
       ipcRenderer.on(`mcp:event:${event}`, (_event, data) => callback(data));
@@ -622,6 +737,57 @@ contextBridge.exposeInMainWorld("sessionhub", {
     },
   },
 
+  // Collaborative editing of session text
+  collab: {
+    open: (docId: string, initialText?: string) =>
+      ipcRenderer.invoke("collab:open", docId, initialText),
+    update: (docId: string, clientId: string, update: unknown) =>
+      ipcRenderer.invoke("collab:update", docId, clientId, update),
+    setPresence: (presence: unknown) =>
+      ipcRenderer.invoke("collab:presence", presence),
+    close: (docId: string, clientId: string) =>
+      ipcRenderer.invoke("collab:close", docId, clientId),
+    onUpdate: (callback: (change: unknown) => void) => {
+      addStreamListener("collab:update", callback);
+    },
+    removeUpdateListener: (callback: (change: unknown) => void) => {
+      removeStreamListener("collab:update", callback);
+    },
+    onPresence: (callback: (presence: unknown) => void) => {
+      addStreamListener("collab:presence", callback);
+    },
+    removePresenceListener: (callback: (presence: unknown) => void) => {
+      removeStreamListener("collab:presence", callback);
+    },
+    onPresenceLeft: (callback: (event: unknown) => void) => {
+      addStreamListener("collab:presence-left", callback);
+    },
+    removePresenceLeftListener: (callback: (event: unknown) => void) => {
+      removeStreamListener("collab:presence-left", callback);
+    },
+  },
+
+  // Session queue, shared with `sessionhub queue`
+  queue: {
+    getState: () => ipcRenderer.invoke("queue:state"),
+    add: (sessionId: string, priority?: string) =>
+      ipcRenderer.invoke("queue:add", sessionId, priority),
+    cancel: (sessionIds: string[]) =>
+      ipcRenderer.invoke("queue:cancel", sessionIds),
+    move: (sessionId: string, position: number) =>
+      ipcRenderer.invoke("queue:move", sessionId, position),
+    setPriority: (sessionId: string, priority: string) =>
+      ipcRenderer.invoke("queue:priority", sessionId, priority),
+    pause: () => ipcRenderer.invoke("queue:pause"),
+    resume: () => ipcRenderer.invoke("queue:resume"),
+    onEvent: (callback: (event: unknown) => void) => {
+      addStreamListener("queue:event", callback);
+    },
+    removeEventListener: (callback: (event: unknown) => void) => {
+      removeStreamListener("queue:event", callback);
+    },
+  },
+
   // AI Enhancement Handlers
   ai: {
     initialize: () => 
@@ -704,6 +870,10 @@ contextBridge.exposeInMainWorld("sessionhub", {
       ipcRenderer.invoke("clear-cache"),
     getFeatureFlags: () => 
       ipcRenderer.invoke("get-feature-flags"),
+    getTerminologyAllowlist: (projectId: string, projectPath: string) =>
+      ipcRenderer.invoke("get-terminology-allowlist", projectId, projectPath),
+    saveTerminologyAllowlist: (projectId: string, projectPath: string, terms: string[]) =>
+      ipcRenderer.invoke("save-terminology-allowlist", projectId, projectPath, terms),
   },
 } as SessionHubAPI);
 
@@ -760,6 +930,10 @@ contextBridge.exposeInMainWorld("electron", {
       ipcRenderer.invoke("clear-cache"),
     getFeatureFlags: () => 
       ipcRenderer.invoke("get-feature-flags"),
+    getTerminologyAllowlist: (projectId: string, projectPath: string) =>
+      ipcRenderer.invoke("get-terminology-allowlist", projectId, projectPath),
+    saveTerminologyAllowlist: (projectId: string, projectPath: string, terms: string[]) =>
+      ipcRenderer.invoke("save-terminology-allowlist", projectId, projectPath, terms),
   },
   api: {
     saveApiKey: (apiKey: string) => 
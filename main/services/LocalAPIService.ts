@@ -0,0 +1,64 @@
+/**
+ * Local API Service
+ * Serves the channel registry over HTTP on 127.0.0.1 when
+ * SESSIONHUB_LOCAL_API_PORT is set. The bearer token comes from
+ * SESSIONHUB_LOCAL_API_TOKEN or is generated per launch; either way the
+ * URL and token are written to ~/.sessionhub/local-api.json (mode 0600)
+ * for scripts to pick up.
+ */
+
+import { app } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ChannelRegistry } from '../../src/services/localapi/ChannelRegistry';
+import { LocalAPIServer } from '../../src/services/localapi/LocalAPIServer';
+import { Logger } from '../../src/lib/logging/Logger';
+
+const RUNTIME_FILE = path.join(os.homedir(), '.sessionhub', 'local-api.json');
+
+export class LocalAPIService {
+  private server: LocalAPIServer | null = null;
+  private logger = new Logger('LocalAPI');
+
+  isEnabled(): boolean {
+    return !!process.env['SESSIONHUB_LOCAL_API_PORT'];
+  }
+
+  async start(registry: ChannelRegistry): Promise<void> {
+    if (!this.isEnabled() || this.server) return;
+
+    const port = Number(process.env['SESSIONHUB_LOCAL_API_PORT']);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      this.logger.error('SESSIONHUB_LOCAL_API_PORT is not a valid port', undefined, { port: process.env['SESSIONHUB_LOCAL_API_PORT'] });
+      return;
+    }
+    const token = process.env['SESSIONHUB_LOCAL_API_TOKEN'] || crypto.randomBytes(32).toString('base64url');
+
+    const server = new LocalAPIServer(registry, { port, token, version: app.getVersion() });
+    try {
+      await server.start();
+    } catch (error) {
+      this.logger.error('Failed to start the local API', error as Error, { port });
+      return;
+    }
+    this.server = server;
+
+    await fs.mkdir(path.dirname(RUNTIME_FILE), { recursive: true });
+    await fs.writeFile(RUNTIME_FILE, JSON.stringify({ url: `http://127.0.0.1:${port}`, token, pid: process.pid }, null, 2), { mode: 0o600 });
+    // mode only applies when the file is created
+    await fs.chmod(RUNTIME_FILE, 0o600);
+    this.logger.info('Local API listening', { url: `http://127.0.0.1:${port}` });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await this.server.stop();
+    this.server = null;
+    await fs.rm(RUNTIME_FILE, { force: true });
+  }
+}
+
+// Export singleton instance
+export const localAPIService = new LocalAPIService();
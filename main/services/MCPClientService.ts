@@ -0,0 +1,42 @@
+/**
+ * MCP Client Service
+ * Connects the app to the external MCP servers listed in
+ * ~/.sessionhub/mcp/servers.json so the planning and execution actors can
+ * call their tools. Servers connect in the background; their tools become
+ * available as each one finishes.
+ */
+
+import { AuditLogger } from '../../src/lib/logging/AuditLogger';
+import { Logger } from '../../src/lib/logging/Logger';
+import { MCPClientManager } from '../../src/services/mcp/client/MCPClientManager';
+import { createMCPClientManager } from '../../src/services/mcp/client/MCPClientConfig';
+
+export class MCPClientService {
+  private manager: MCPClientManager | null = null;
+  private logger = new Logger('MCPClients');
+
+  async start(): Promise<void> {
+    if (this.manager) return;
+
+    try {
+      this.manager = await createMCPClientManager(new AuditLogger(this.logger), this.logger);
+    } catch (error) {
+      this.logger.error('Failed to load the MCP server config', error as Error);
+      return;
+    }
+    void this.manager.connect();
+  }
+
+  getManager(): MCPClientManager | undefined {
+    return this.manager ?? undefined;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.manager) return;
+    await this.manager.disconnect();
+    this.manager = null;
+  }
+}
+
+// Export singleton instance
+export const mcpClientService = new MCPClientService();
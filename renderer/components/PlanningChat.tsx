@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "../../components/ui/Button";
 import { Card } from "../../components/ui/Card";
-import { Send, GitBranch, FileCode, Loader, User, Bot } from "lucide-react";
+import { Send, GitBranch, FileCode, Loader, User, Bot, Square } from "lucide-react";
 
 interface Message {
   id: string;
@@ -37,6 +37,8 @@ export function PlanningChat({
   ]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Response text received so far while the assistant is streaming
+  const [streamingText, setStreamingText] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -45,7 +47,24 @@ export function PlanningChat({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  useEffect(() => {
+    const handleStream = (data: { sessionId: string; delta: string }) => {
+      if (data.sessionId === sessionId) {
+        setStreamingText((prev) => prev + data.delta);
+      }
+    };
+
+    window.electronAPI.onChatStream(handleStream);
+    return () => {
+      window.electronAPI.removeChatStreamListener(handleStream);
+    };
+  }, [sessionId]);
+
+  const stopResponse = () => {
+    void window.electronAPI.cancelChatMessage(sessionId);
+  };
 
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
@@ -59,6 +78,7 @@ export function PlanningChat({
 
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
+    setStreamingText("");
     setIsLoading(true);
 
     try {
@@ -84,6 +104,7 @@ export function PlanningChat({
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      setStreamingText("");
       setIsLoading(false);
     }
   };
@@ -212,9 +233,19 @@ export function PlanningChat({
               <div className="p-2 rounded-full bg-gray-100 dark:bg-gray-800">
                 <Bot className="h-5 w-5 text-gray-600 dark:text-gray-400" />
               </div>
-              <div className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-800">
-                <Loader className="h-4 w-4 animate-spin text-gray-600 dark:text-gray-400" />
+              <div className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 max-w-[80%]">
+                {streamingText ? (
+                  <p className="whitespace-pre-wrap text-gray-900 dark:text-gray-100">
+                    {streamingText}
+                  </p>
+                ) : (
+                  <Loader className="h-4 w-4 animate-spin text-gray-600 dark:text-gray-400" />
+                )}
               </div>
+              <Button variant="secondary" size="sm" onClick={stopResponse}>
+                <Square className="h-3 w-3 mr-1" />
+                Stop
+              </Button>
             </div>
           )}
           <div ref={messagesEndRef} />
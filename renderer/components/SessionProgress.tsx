@@ -44,6 +44,9 @@ export const SessionProgress: React.FC<SessionProgressProps> = ({
   const [metrics, setMetrics] = useState<SessionMetrics | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [rollbackMessage, setRollbackMessage] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   const updateStep = useCallback(
     (
@@ -243,6 +246,55 @@ export const SessionProgress: React.FC<SessionProgressProps> = ({
     };
   }, [sessionId, handleProgressEvent, updateStepsFromStatus]);
 
+  const handleRollback = useCallback(async () => {
+    setIsRollingBack(true);
+    setRollbackMessage(null);
+
+    try {
+      const result = (await window.sessionhub.rollbackSession(sessionId)) as {
+        success: boolean;
+        report?: { restored: string[]; removed: string[]; failures: unknown[] };
+        error?: string;
+      };
+
+      if (result.success && result.report) {
+        const { restored, removed, failures } = result.report;
+        setRollbackMessage(
+          `Rolled back: ${restored.length} restored, ${removed.length} removed` +
+            (failures.length > 0 ? `, ${failures.length} could not be reverted` : ""),
+        );
+      } else {
+        setError(result.error || "Rollback failed");
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsRollingBack(false);
+    }
+  }, [sessionId]);
+
+  const handleCancel = useCallback(async () => {
+    setIsCancelling(true);
+
+    try {
+      const result = await window.sessionhub.cancelSession(sessionId);
+      if (result.success) {
+        setCurrentMessage("Cancelling: stopping the running task and rolling back...");
+      } else {
+        setError("The session is no longer executing");
+        setIsCancelling(false);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+      setIsCancelling(false);
+    }
+  }, [sessionId]);
+
+  const executionStep = steps.find((step) => step.id === "execution");
+  const canCancel = executionStep?.status === "active";
+  const canRollback =
+    executionStep?.status === "completed" || executionStep?.status === "failed";
+
   const getStepIcon = (status: ProgressStep["status"]) => {
     switch (status) {
       case "completed":
@@ -391,6 +443,41 @@ export const SessionProgress: React.FC<SessionProgressProps> = ({
           </div>
         )}
 
+        {/* Cancel */}
+        {canCancel && (
+          <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">
+              Stop the execution and revert the changes it has applied.
+            </p>
+            <button
+              type="button"
+              onClick={() => void handleCancel()}
+              disabled={isCancelling}
+              className="rounded-md border border-red-300 px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isCancelling ? "Cancelling..." : "Cancel execution"}
+            </button>
+          </div>
+        )}
+
+        {/* Rollback */}
+        {canRollback && (
+          <div className="flex items-center justify-between rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600">
+              {rollbackMessage ||
+                "Revert every file and command change this session applied."}
+            </p>
+            <button
+              type="button"
+              onClick={() => void handleRollback()}
+              disabled={isRollingBack || rollbackMessage !== null}
+              className="rounded-md border border-red-300 px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isRollingBack ? "Rolling back..." : "Roll back changes"}
+            </button>
+          </div>
+        )}
+
         {/* Error Alert */}
         {error && (
           <div className="rounded-lg border border-red-200 bg-red-50 p-4">
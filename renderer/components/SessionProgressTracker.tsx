@@ -25,10 +25,22 @@ interface SessionProgress {
   details?: Record<string, any>;
 }
 
+interface StreamedObjective {
+  id: string;
+  primary: string;
+}
+
 interface SessionProgressTrackerProps {
   sessionId: string;
   progress: SessionProgress[];
   isActive: boolean;
+  // Output of the response currently streaming, shown under its phase
+  stream?: {
+    phase: string;
+    text: string;
+    objectives: StreamedObjective[];
+  } | null;
+  onCancelStream?: () => void;
 }
 
 const phaseIcons: Record<string, JSX.Element> = {
@@ -54,7 +66,9 @@ const phaseColors: Record<string, string> = {
 export function SessionProgressTracker({ 
   sessionId: _sessionId, 
   progress, 
-  isActive 
+  isActive,
+  stream,
+  onCancelStream
 }: SessionProgressTrackerProps) {
   const [expandedPhases, setExpandedPhases] = useState<Set<string>>(new Set());
   const [currentPhase, setCurrentPhase] = useState<string>("");
@@ -179,6 +193,33 @@ export function SessionProgressTracker({
                 )}
               </button>
 
+              {isActive && stream?.phase === phase && (
+                <div className="border-t border-gray-200 dark:border-gray-700 px-4 py-3">
+                  {stream.objectives.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                      {stream.objectives.map((objective) => (
+                        <li key={objective.id} className="flex items-start gap-2">
+                          <CheckCircle className="h-3 w-3 text-indigo-500 mt-1" />
+                          <span className="text-gray-700 dark:text-gray-300">{objective.primary}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-gray-500 font-mono truncate">
+                      {stream.text.slice(-200) || 'Waiting for response...'}
+                    </p>
+                  )}
+                  {onCancelStream && (
+                    <button
+                      onClick={onCancelStream}
+                      className="mt-2 text-xs text-red-600 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              )}
+
               {isExpanded && hasProgress && (
                 <div className="border-t border-gray-200 dark:border-gray-700 px-4 py-3 bg-gray-50 dark:bg-gray-800/50">
                   <div className="space-y-2">
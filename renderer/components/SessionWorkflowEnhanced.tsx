@@ -5,6 +5,8 @@ import { ApiConfiguration } from "./ApiConfiguration";
 import { PlanningChat } from "./PlanningChat";
 import { Button } from "./ui/Button";
 import { Card } from "./ui/Card";
+import { CollaborativeTextField } from "@/components/collaboration/CollaborativeTextField";
+import { CollaboratorInfo, sessionDocumentId } from "@/src/services/collaboration/types";
 import {
   CheckCircle,
   Circle,
@@ -46,6 +48,8 @@ interface SessionProgress {
 interface Session {
   id: string;
   name: string;
+  // Kept in a shared document so teammates can write it together
+  description: string;
   status: "configuring" | "document-import" | "planning" | "executing" | "completed";
   documents: SessionDocument[];
   plan?: string;
@@ -53,6 +57,8 @@ interface Session {
   progress: SessionProgress[];
 }
 
+const localCollaborator: CollaboratorInfo = { id: "local", name: "You", color: "#3b82f6" };
+
 export default function SessionWorkflowEnhanced() {
   const [hasApiKey, setHasApiKey] = useState(false);
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
@@ -79,6 +85,7 @@ export default function SessionWorkflowEnhanced() {
     const session: Session = {
       id: Date.now().toString(),
       name: `Session ${new Date().toLocaleString()}`,
+      description: "",
       status: "document-import",
       documents: [],
       progress: []
@@ -86,6 +93,10 @@ export default function SessionWorkflowEnhanced() {
     setCurrentSession(session);
   };
 
+  const handleDescriptionChange = useCallback((description: string) => {
+    setCurrentSession(session => session && session.description !== description ? { ...session, description } : session);
+  }, []);
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -399,6 +410,17 @@ export default function SessionWorkflowEnhanced() {
                   understand your needs.
                 </p>
 
+                <CollaborativeTextField
+                  docId={sessionDocumentId(currentSession.id, "description")}
+                  initialText={currentSession.description}
+                  user={localCollaborator}
+                  label="Session description"
+                  placeholder="What should this session build?"
+                  rows={3}
+                  className="mb-6"
+                  onTextChange={handleDescriptionChange}
+                />
+
                 {/* Drop Zone */}
                 <div
                   className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
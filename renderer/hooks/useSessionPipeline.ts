@@ -24,6 +24,26 @@ interface SessionProgress {
   details?: Record<string, unknown>;
 }
 
+interface StreamedObjective {
+  id: string;
+  primary: string;
+}
+
+interface SessionStreamEvent {
+  sessionId: string;
+  phase: 'planning' | 'executing';
+  delta: string;
+  objectives?: StreamedObjective[];
+}
+
+// Output of the response currently streaming for the session
+interface SessionStream {
+  sessionId: string;
+  phase: 'planning' | 'executing';
+  text: string;
+  objectives: StreamedObjective[];
+}
+
 interface Session {
   id: string;
   name: string;
@@ -64,6 +84,12 @@ interface GetSessionResponse {
   error?: string;
 }
 
+interface RollbackSessionResponse {
+  success: boolean;
+  report?: unknown;
+  error?: string;
+}
+
 interface GetUserSessionsResponse {
   success: boolean;
   sessions?: Session[];
@@ -92,6 +118,7 @@ export function useSessionPipeline() {
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
   const [progress, setProgress] = useState<SessionProgress[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [stream, setStream] = useState<SessionStream | null>(null);
 
   // Listen for progress updates
   useEffect(() => {
@@ -107,10 +134,34 @@ export function useSessionPipeline() {
     };
   }, []);
 
+  // Accumulate streamed planning and execution output
+  useEffect(() => {
+    const handleStream = (data: unknown) => {
+      const event = data as SessionStreamEvent;
+      setStream(prev => {
+        const current = prev && prev.sessionId === event.sessionId && prev.phase === event.phase
+          ? prev
+          : { sessionId: event.sessionId, phase: event.phase, text: '', objectives: [] };
+        return {
+          ...current,
+          text: current.text + event.delta,
+          objectives: event.objectives ?? current.objectives
+        };
+      });
+    };
+
+    window.electronAPI.onSessionStream(handleStream);
+
+    return () => {
+      window.electronAPI.removeSessionStreamListener(handleStream);
+    };
+  }, []);
+
   const executeSession = useCallback(async (request: SessionExecutionRequest) => {
     setIsExecuting(true);
     setError(null);
     setProgress([]);
+    setStream(null);
 
     try {
       const result = await window.electronAPI.executeSession(request) as SessionExecutionResponse;
@@ -210,6 +261,28 @@ export function useSessionPipeline() {
     }
   }, []);
 
+  const rollbackSession = useCallback(async (sessionId: string) => {
+    try {
+      const result = await window.electronAPI.rollbackSession(sessionId) as RollbackSessionResponse;
+      
+      if (result.success && result.report) {
+        return result.report;
+      } else {
+        setError(result.error || 'Failed to roll back session');
+        return null;
+      }
+    } catch (err) {
+      setError((err as Error).message);
+      return null;
+    }
+  }, []);
+
+  const cancelStreaming = useCallback(async () => {
+    if (!stream) return false;
+    const result = await window.electronAPI.cancelSessionStreaming(stream.sessionId);
+    return result.success;
+  }, [stream]);
+
   const getUserSessions = useCallback(async (userId: string) => {
     try {
       const result = await window.electronAPI.getUserSessions(userId) as GetUserSessionsResponse;
@@ -279,6 +352,7 @@ export function useSessionPipeline() {
     currentSession,
     progress,
     error,
+    stream,
     
     // Actions
     executeSession,
@@ -287,6 +361,8 @@ export function useSessionPipeline() {
     analyzeDocument,
     analyzeDocumentSet,
     getSession,
+    rollbackSession,
+    cancelStreaming,
     getUserSessions,
     getMetrics,
     selectDocuments,
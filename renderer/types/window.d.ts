@@ -1,3 +1,8 @@
+import type { TextUpdate } from '../../src/services/collaboration/TextCRDT';
+import type { CollaborativeDocumentSnapshot, DocumentChange, PresenceState } from '../../src/services/collaboration/types';
+import type { QueueEvent, QueuedSession, QueueState } from '../../src/services/queue/SessionQueueManager';
+import type { SessionPriority } from '../../src/models/Session';
+
 declare global {
   interface Window {
     api: {
@@ -32,6 +37,9 @@ declare global {
       validateApiKey: (apiKey: string) => Promise<boolean>;
       saveApiKey: (apiKey: string) => Promise<void>;
       sendChatMessage: (sessionId: string, message: string) => Promise<string>;
+      cancelChatMessage: (sessionId: string) => Promise<boolean>;
+      onChatStream: (callback: (data: { sessionId: string; delta: string }) => void) => void;
+      removeChatStreamListener: (callback: (data: { sessionId: string; delta: string }) => void) => void;
       selectGitHubRepo: () => Promise<{
         url: string;
         name: string;
@@ -137,12 +145,19 @@ declare global {
       analyzeDocument: (documentMetadata: unknown) => Promise<unknown>;
       analyzeDocumentSet: (documents: unknown[]) => Promise<unknown>;
       getSession: (sessionId: string) => Promise<unknown>;
+      cancelSession: (sessionId: string) => Promise<{ success: boolean }>;
+      rollbackSession: (sessionId: string) => Promise<unknown>;
+      listSessionRecordings: (sessionId: string) => Promise<unknown>;
+      replaySessionRecording: (recording: string) => Promise<unknown>;
       getUserSessions: (userId: string) => Promise<unknown>;
       getSessionMetrics: () => Promise<unknown>;
       selectDocuments: () => Promise<unknown>;
       getFileInfo: (filePath: string) => Promise<unknown>;
       onSessionProgress: (callback: (data: unknown) => void) => void;
       removeSessionProgressListener: (callback: (data: unknown) => void) => void;
+      cancelSessionStreaming: (sessionId: string) => Promise<{ success: boolean }>;
+      onSessionStream: (callback: (data: unknown) => void) => void;
+      removeSessionStreamListener: (callback: (data: unknown) => void) => void;
       // Tutorial and Help API
       settings: {
         getSettings: () => Promise<unknown>;
@@ -154,6 +169,33 @@ declare global {
         getStorageInfo: () => Promise<{ sessions: string; cache: string; logs: string; total: string }>;
         clearCache: () => Promise<{ success: boolean; message?: string; error?: string }>;
         getFeatureFlags: () => Promise<unknown>;
+        getTerminologyAllowlist: (projectId: string, projectPath: string) => Promise<{ success: boolean; terms?: string[]; error?: string }>;
+        saveTerminologyAllowlist: (projectId: string, projectPath: string, terms: string[]) => Promise<{ success: boolean; terms?: string[]; error?: string }>;
+      };
+      // Collaborative editing of session text
+      collab: {
+        open: (docId: string, initialText?: string) => Promise<CollaborativeDocumentSnapshot>;
+        update: (docId: string, clientId: string, update: TextUpdate) => Promise<{ text: string }>;
+        setPresence: (presence: PresenceState) => Promise<{ success: boolean }>;
+        close: (docId: string, clientId: string) => Promise<{ success: boolean }>;
+        onUpdate: (callback: (change: DocumentChange) => void) => void;
+        removeUpdateListener: (callback: (change: DocumentChange) => void) => void;
+        onPresence: (callback: (presence: PresenceState) => void) => void;
+        removePresenceListener: (callback: (presence: PresenceState) => void) => void;
+        onPresenceLeft: (callback: (event: { docId: string; clientId: string }) => void) => void;
+        removePresenceLeftListener: (callback: (event: { docId: string; clientId: string }) => void) => void;
+      };
+      // Session queue, shared with `sessionhub queue`
+      queue: {
+        getState: () => Promise<QueueState>;
+        add: (sessionId: string, priority?: SessionPriority) => Promise<QueuedSession>;
+        cancel: (sessionIds: string[]) => Promise<{ success: boolean }>;
+        move: (sessionId: string, position: number) => Promise<{ success: boolean }>;
+        setPriority: (sessionId: string, priority: SessionPriority) => Promise<{ success: boolean }>;
+        pause: () => Promise<{ success: boolean }>;
+        resume: () => Promise<{ success: boolean }>;
+        onEvent: (callback: (event: QueueEvent) => void) => void;
+        removeEventListener: (callback: (event: QueueEvent) => void) => void;
       };
       tutorials: {
         getTutorials: () => Promise<Array<{
@@ -389,6 +431,8 @@ declare global {
         getStorageInfo: () => Promise<{ sessions: string; cache: string; logs: string; total: string }>;
         clearCache: () => Promise<{ success: boolean; message?: string; error?: string }>;
         getFeatureFlags: () => Promise<unknown>;
+        getTerminologyAllowlist: (projectId: string, projectPath: string) => Promise<{ success: boolean; terms?: string[]; error?: string }>;
+        saveTerminologyAllowlist: (projectId: string, projectPath: string, terms: string[]) => Promise<{ success: boolean; terms?: string[]; error?: string }>;
       };
       api: {
         saveApiKey: (apiKey: string) => Promise<void>;
@@ -418,6 +462,9 @@ declare global {
       validateApiKey: (apiKey: string) => Promise<boolean>;
       saveApiKey: (apiKey: string) => Promise<void>;
       sendChatMessage: (sessionId: string, message: string) => Promise<string>;
+      cancelChatMessage: (sessionId: string) => Promise<boolean>;
+      onChatStream: (callback: (data: { sessionId: string; delta: string }) => void) => void;
+      removeChatStreamListener: (callback: (data: { sessionId: string; delta: string }) => void) => void;
       selectGitHubRepo: () => Promise<{
         url: string;
         name: string;
@@ -467,12 +514,19 @@ declare global {
       analyzeDocument: (documentMetadata: unknown) => Promise<unknown>;
       analyzeDocumentSet: (documents: unknown[]) => Promise<unknown>;
       getSession: (sessionId: string) => Promise<unknown>;
+      cancelSession: (sessionId: string) => Promise<{ success: boolean }>;
+      rollbackSession: (sessionId: string) => Promise<unknown>;
+      listSessionRecordings: (sessionId: string) => Promise<unknown>;
+      replaySessionRecording: (recording: string) => Promise<unknown>;
       getUserSessions: (userId: string) => Promise<unknown>;
       getSessionMetrics: () => Promise<unknown>;
       selectDocuments: () => Promise<unknown>;
       getFileInfo: (filePath: string) => Promise<unknown>;
       onSessionProgress: (callback: (data: unknown) => void) => void;
       removeSessionProgressListener: (callback: (data: unknown) => void) => void;
+      cancelSessionStreaming: (sessionId: string) => Promise<{ success: boolean }>;
+      onSessionStream: (callback: (data: unknown) => void) => void;
+      removeSessionStreamListener: (callback: (data: unknown) => void) => void;
       // Tutorial and Help API
       getTutorials: () => Promise<Array<{
         id: string;
@@ -537,8 +591,83 @@ declare global {
           getFeatured: () => Promise<unknown[]>;
           getTrending: () => Promise<unknown[]>;
           getIntegration: (id: string) => Promise<unknown>;
-          install: (integrationId: string) => Promise<string>;
+          install: (packageId: string, version?: string) => Promise<string>;
           getCategories: () => Promise<unknown[]>;
+          listInstalled: () => Promise<Array<{
+            packageId: string;
+            integrationId: string;
+            name: string;
+            version: string;
+            pinnedVersion?: string;
+            latestVersion?: string;
+            updateAvailable: boolean;
+          }>>;
+          // Shows the permission, dependency and tool changes before upgrade() applies them
+          planUpgrade: (packageId: string, version?: string) => Promise<{
+            packageId: string;
+            integrationId: string;
+            fromVersion: string;
+            toVersion: string;
+            permissions: { added: string[]; removed: string[] };
+            dependencies: { added: string[]; removed: string[] };
+            tools: { added: string[]; removed: string[] };
+            manifestSha256: string;
+          }>;
+          upgrade: (plan: unknown) => Promise<void>;
+          pin: (packageId: string, pinned: boolean) => Promise<void>;
+          uninstall: (packageId: string) => Promise<void>;
+          listSources: () => Promise<Array<{
+            location: string;
+            name?: string;
+            status: 'ok' | 'error';
+            packages: number;
+            error?: string;
+          }>>;
+          addSource: (location: string) => Promise<unknown[]>;
+          removeSource: (location: string) => Promise<unknown[]>;
+          refresh: () => Promise<unknown[]>;
+        };
+        signing: {
+          sign: (target: unknown, publisher?: string) => Promise<unknown>;
+          listKeys: () => Promise<Array<{
+            keyId: string;
+            publisher: string;
+            publicKey: string;
+            addedAt: string;
+            source: 'local' | 'imported';
+          }>>;
+          trustKey: (publisher: string, publicKeyPem: string) => Promise<unknown>;
+          revokeKey: (keyId: string) => Promise<boolean>;
+          listQuarantined: () => Promise<Array<{
+            id: string;
+            manifest: unknown;
+            status: 'unsigned' | 'invalid' | 'untrusted';
+            reason: string;
+            quarantinedAt: string;
+          }>>;
+          releaseQuarantined: (id: string) => Promise<string>;
+          deleteQuarantined: (id: string) => Promise<void>;
+        };
+        tokens: {
+          // The token is returned only once
+          issue: (client: string, scopes: string[], expiresInDays?: number) => Promise<{
+            token: string;
+            info: {
+              tokenId: string;
+              client: string;
+              scopes: string[];
+              issuedAt: string;
+              expiresAt?: string;
+            };
+          }>;
+          list: () => Promise<Array<{
+            tokenId: string;
+            client: string;
+            scopes: string[];
+            issuedAt: string;
+            expiresAt?: string;
+          }>>;
+          revoke: (tokenId: string) => Promise<boolean>;
         };
         onIntegrationRegistered: (callback: (integration: unknown) => void) => void;
         onIntegrationUnregistered: (callback: (integration: unknown) => void) => void;
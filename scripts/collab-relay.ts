@@ -0,0 +1,21 @@
+/**
+ * Runs a loopback relay for trying collaborative editing without Supabase:
+ *   npm run collab:relay -- 4455
+ *   SESSIONHUB_COLLAB_RELAY_URL=ws://127.0.0.1:4455 npm run electron:dev
+ */
+import { CollabRelayServer } from '../src/services/collaboration/CollabRelayServer';
+
+const port = Number(process.argv[2] || process.env['SESSIONHUB_COLLAB_RELAY_PORT'] || 4455);
+const relay = new CollabRelayServer({ port });
+
+relay.on('error', error => process.stderr.write(`Relay error: ${(error as Error).message}\n`));
+relay.start().then(() => {
+  process.stdout.write(`Collaboration relay listening on ws://127.0.0.1:${port}\n`);
+}).catch(error => {
+  process.stderr.write(`Collaboration relay failed: ${(error as Error).message}\n`);
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  void relay.stop().then(() => process.exit(0));
+});
@@ -0,0 +1,18 @@
+/**
+ * Runs SessionHub as a language server over stdio for LSP clients, e.g.
+ *   cmd = { "npm", "run", "--silent", "lsp:stdio" }
+ */
+import { LSPAdapter } from '../src/services/ide/LSPAdapter';
+import { createCLIServices } from '../src/cli/CLIServices';
+
+// The same engines, API keys and MCP servers as the desktop app
+const services = createCLIServices();
+const adapter = new LSPAdapter({ actors: services });
+adapter.on('exit', async code => {
+  await services.close().catch(() => undefined);
+  process.exit(code);
+});
+adapter.connect().catch(error => {
+  process.stderr.write(`SessionHub language server failed: ${(error as Error).message}\n`);
+  process.exit(1);
+});
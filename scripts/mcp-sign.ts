@@ -0,0 +1,55 @@
+/**
+ * Signs an MCP integration with this machine's Ed25519 key, e.g.
+ *   npm run mcp:sign -- my-integration.json --publisher acme --out signed.json
+ * The input is an integration built with MCPIntegrationSDK or a manifest.
+ * Share the key printed by `npm run mcp:sign -- --public-key` with the
+ * machines that should trust it.
+ *
+ * `npm run mcp:sign -- --index <dir> --name "Acme marketplace"` builds and
+ * signs index.json for a package directory (see MCPPackageIndex), ready to
+ * be added as a marketplace source.
+ */
+import * as fs from 'fs/promises';
+import { MCPServerService } from '../src/services/mcp/server/MCPServerService';
+import { buildPackageIndex } from '../src/services/mcp/marketplace/MCPPackageIndex';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main(args: string[]): Promise<void> {
+  const service = new MCPServerService();
+  const publisher = option(args, '--publisher');
+
+  if (args.includes('--public-key')) {
+    process.stdout.write(await service.getSigningPublicKey(publisher));
+    return;
+  }
+
+  const indexDir = option(args, '--index');
+  if (indexDir) {
+    const index = await buildPackageIndex(indexDir, service.getKeyring(), {
+      name: option(args, '--name') || indexDir,
+      signingKey: await service.getKeyring().getSigningKey(publisher)
+    });
+    process.stderr.write(`Indexed ${index.packages.length} packages with key ${index.signature?.keyId}\n`);
+    return;
+  }
+
+  const input = args.find((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+  if (!input) {
+    throw new Error('Usage: mcp:sign <integration.json> [--publisher <name>] [--out <file>] | --index <dir> [--name <name>] | --public-key');
+  }
+
+  const target = JSON.parse(await fs.readFile(input, 'utf-8'));
+  const signed = await service.signIntegration(target, publisher);
+  const signature = signed.integration.signature;
+  await fs.writeFile(option(args, '--out') || input, `${JSON.stringify(signed, null, 2)}\n`);
+  process.stderr.write(`Signed ${signed.integration.name} with key ${signature?.keyId} (${signature?.publisher})\n`);
+}
+
+main(process.argv.slice(2)).catch(error => {
+  process.stderr.write(`mcp:sign failed: ${(error as Error).message}\n`);
+  process.exit(1);
+});
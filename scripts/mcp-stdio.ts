@@ -0,0 +1,13 @@
+/**
+ * Runs the SessionHub MCP server over stdio for MCP hosts, e.g.
+ *   { "command": "npm", "args": ["run", "--silent", "mcp:stdio"] }
+ */
+import { MCPServerService } from '../src/services/mcp/server/MCPServerService';
+
+new MCPServerService()
+  .serveStdio()
+  .then(() => process.exit(0))
+  .catch(error => {
+    process.stderr.write(`SessionHub MCP server failed: ${(error as Error).message}\n`);
+    process.exit(1);
+  });
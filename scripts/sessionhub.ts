@@ -0,0 +1,8 @@
+import { SessionHubCLI } from '../src/cli/SessionHubCLI';
+
+new SessionHubCLI()
+  .run(process.argv.slice(2))
+  .then(code => {
+    // Timers started by shared services would otherwise keep the process alive
+    process.stdout.write('', () => process.exit(code));
+  });
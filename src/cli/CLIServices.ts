@@ -0,0 +1,109 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../lib/logging/Logger';
+import { AuditLogger } from '../lib/logging/AuditLogger';
+import { CredentialManager } from '../lib/security/CredentialManager';
+import { APIAuthenticationManager } from '../lib/api/APIAuthenticationManager';
+import { DatabaseService } from '../database/DatabaseService';
+import { SessionService } from '../services/SessionService';
+import { SessionQueueManager } from '../services/queue/SessionQueueManager';
+import { SessionQueueStore } from '../services/queue/SessionQueueStore';
+import { APIUsageTracker } from '../services/usage/APIUsageTracker';
+import { AnalyticsDataStore } from '../services/analytics/AnalyticsDataStore';
+import { ProtocolValidator } from '../core/protocol/ProtocolValidator';
+import { SecuritySandbox } from '../core/execution/SecuritySandbox';
+import { PlanningEngine } from '../core/planning/PlanningEngine';
+import { ExecutionEngine } from '../core/execution/ExecutionEngine';
+import { MCPClientManager } from '../services/mcp/client/MCPClientManager';
+import { createMCPClientManager } from '../services/mcp/client/MCPClientConfig';
+
+/**
+ * Services a CLI command may need. Each is created on first use, so a
+ * command only opens what it touches.
+ */
+export interface CLIServices {
+  sessions(): Promise<SessionService>;
+  queue(): Promise<SessionQueueManager>;
+  planning(): Promise<PlanningEngine>;
+  execution(): Promise<ExecutionEngine>;
+  usage(): Promise<APIUsageTracker>;
+  close(): Promise<void>;
+}
+
+/**
+ * The services the desktop app runs, on its database in ~/.sessionhub
+ * and its credential store
+ */
+export function createCLIServices(logger: Logger = new Logger('SessionHubCLI')): CLIServices {
+  const db = new DatabaseService();
+  const validator = new ProtocolValidator(logger);
+  let auth: Promise<APIAuthenticationManager> | null = null;
+  let queue: SessionQueueManager | null = null;
+  let usage: APIUsageTracker | null = null;
+  let mcp: Promise<MCPClientManager> | null = null;
+
+  // Without a stored Anthropic key both engines fall back to their built-in implementations
+  const authentication = () => {
+    if (!auth) {
+      const manager = new APIAuthenticationManager(logger, CredentialManager.getInstance());
+      auth = manager.initialize().then(() => manager);
+    }
+    return auth;
+  };
+
+  // The servers in ~/.sessionhub/mcp/servers.json, connected once for both engines
+  const mcpClients = () => {
+    if (!mcp) {
+      mcp = createMCPClientManager(new AuditLogger(logger), logger).then(async manager => {
+        await manager.connect();
+        return manager;
+      });
+    }
+    return mcp;
+  };
+
+  return {
+    async sessions() {
+      const service = SessionService.getInstance();
+      await service.initialize();
+      return service;
+    },
+
+    async queue() {
+      queue = SessionQueueManager.getInstance({ store: new SessionQueueStore(db), sessions: await this.sessions() });
+      await queue.whenReady();
+      return queue;
+    },
+
+    async planning() {
+      const client = (await authentication()).getPlanningClient();
+      return new PlanningEngine(logger, validator, client || undefined, undefined, await mcpClients());
+    },
+
+    async execution() {
+      const client = (await authentication()).getExecutionClient();
+      return new ExecutionEngine(
+        logger,
+        validator,
+        new SecuritySandbox(logger),
+        client || undefined,
+        undefined,
+        await mcpClients()
+      );
+    },
+
+    async usage() {
+      if (!usage) {
+        const analytics = new AnalyticsDataStore(path.join(os.homedir(), '.sessionhub', 'analytics'));
+        usage = new APIUsageTracker(db, analytics);
+      }
+      return usage;
+    },
+
+    async close() {
+      queue?.destroy();
+      await (await mcp?.catch(() => null))?.disconnect();
+      await db.disconnect();
+    }
+  };
+}
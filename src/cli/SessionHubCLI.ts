@@ -0,0 +1,475 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
+import { Session, SessionPriority, SessionRequest, SessionStatus } from '../models/Session';
+import { SessionService } from '../services/SessionService';
+import { runPlannedSession } from '../services/session/PlannedSessionRunner';
+import { RecordingError } from '../core/execution/ExecutionRecorder';
+import { buildExecutionEnvironment } from '../core/execution/ExecutionEnvironment';
+import { CLIServices, createCLIServices } from './CLIServices';
+
+export const EXIT_CODES = {
+  usage: 64,
+  notFound: 66,
+  software: 70
+} as const;
+
+// Exit status of commands that report one session (plan, execute,
+// session show). Sessions still in flight exit with EX_TEMPFAIL so
+// scripts can poll until they settle.
+export const STATUS_EXIT_CODES: Record<SessionStatus, number> = {
+  completed: 0,
+  pending: 0,
+  failed: 1,
+  cancelled: 2,
+  paused: 3,
+  planning: 75,
+  validating: 75,
+  executing: 75
+};
+
+const PRIORITIES: SessionPriority[] = ['critical', 'high', 'medium', 'low'];
+const EXECUTABLE: SessionStatus[] = ['pending', 'failed', 'paused'];
+const DEFAULT_USER = 'anonymous';
+
+const USAGE = `Usage: sessionhub <command> [options]
+
+Commands:
+  plan <description...>       Create a session and plan it
+      --project <id>  --path <dir>  --user <id>
+  execute <session-id>        Run a planned session
+      --concurrency <n>  --timeout <ms>  --record
+  queue add <session-id>      Queue a planned session  [--priority critical|high|medium|low]
+  queue list                  List queued sessions
+  queue cancel <session-id>   Cancel a session and drop it from the queue
+  session show <session-id>   Print a session
+  session export <session-id> Export a session  [--format json|md] [--output <file>]
+  replay list <session-id>    List the recordings of a session's recorded runs
+  replay run <recording>      Re-run a recording offline and report divergences
+  usage report                API usage totals
+      --user <id>  --period today|week|month  --from <date> --to <date>
+
+Output is JSON. plan, execute and session show exit with 0 for completed
+or pending sessions, 1 failed, 2 cancelled, 3 paused, 75 still running.
+replay run exits with 0 when the run matches its recording, 1 otherwise.
+Queued sessions run in the desktop app while it is open.
+`;
+
+export interface CLIStreams {
+  stdout: Pick<NodeJS.WritableStream, 'write'>;
+  stderr: Pick<NodeJS.WritableStream, 'write'>;
+}
+
+export class CLIError extends Error {
+  constructor(message: string, public code: string, public exitCode: number = EXIT_CODES.software) {
+    super(message);
+    this.name = 'CLIError';
+  }
+}
+
+interface CommandResult {
+  // Strings are printed as they are, anything else as JSON
+  output: unknown;
+  exitCode: number;
+}
+
+/**
+ * Headless SessionHub: drives sessions through the same services as the
+ * desktop app, so scripts, SSH sessions and CI can plan, execute and
+ * queue work without Electron.
+ */
+export class SessionHubCLI {
+  private services: CLIServices;
+  private streams: CLIStreams;
+
+  constructor(services: CLIServices = createCLIServices(), streams: CLIStreams = process) {
+    this.services = services;
+    this.streams = streams;
+  }
+
+  /**
+   * Run one command and return the process exit code
+   */
+  async run(argv: string[]): Promise<number> {
+    try {
+      const result = await this.dispatch(argv);
+      this.streams.stdout.write(
+        typeof result.output === 'string' ? result.output : `${JSON.stringify(result.output, null, 2)}\n`
+      );
+      return result.exitCode;
+    } catch (error) {
+      const failure = this.toCLIError(error);
+      this.streams.stderr.write(`${JSON.stringify({ error: { code: failure.code, message: failure.message } })}\n`);
+      return failure.exitCode;
+    } finally {
+      await this.services.close();
+    }
+  }
+
+  private dispatch(argv: string[]): Promise<CommandResult> {
+    const [command, ...args] = argv;
+
+    switch (command) {
+      case 'plan':
+        return this.plan(args);
+      case 'execute':
+        return this.execute(args);
+      case 'queue':
+        return this.queue(args);
+      case 'session':
+        return this.session(args);
+      case 'replay':
+        return this.replay(args);
+      case 'usage':
+        return this.usage(args);
+      case 'help':
+      case '--help':
+      case '-h':
+        return Promise.resolve({ output: USAGE, exitCode: 0 });
+      default:
+        throw new CLIError(command ? `Unknown command: ${command}` : 'No command given', 'USAGE', EXIT_CODES.usage);
+    }
+  }
+
+  private async plan(args: string[]): Promise<CommandResult> {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        project: { type: 'string' },
+        path: { type: 'string' },
+        user: { type: 'string' }
+      }
+    });
+
+    const content = positionals.join(' ').trim();
+    if (!content) {
+      throw new CLIError('plan needs a description of the work', 'USAGE', EXIT_CODES.usage);
+    }
+
+    const projectPath = path.resolve(values.path || process.cwd());
+    const projectId = values.project || path.basename(projectPath);
+    const request: SessionRequest = {
+      id: randomUUID(),
+      sessionId: '',
+      userId: values.user || DEFAULT_USER,
+      content,
+      context: { projectId, projectPath },
+      timestamp: new Date().toISOString()
+    };
+
+    const sessions = await this.services.sessions();
+    let session = await sessions.createSession(request, { projectId, projectPath, environment: 'cli' });
+    const planningRequest = { ...request, sessionId: session.id };
+    const startTime = Date.now();
+
+    try {
+      const planning = await this.services.planning();
+      const instructions = await planning.generateInstructions(planningRequest);
+      // Planned sessions wait for execute or the queue
+      session = await sessions.updateSession(session.id, {
+        status: 'pending',
+        request: planningRequest,
+        instructions,
+        metadata: { ...session.metadata, planningDuration: Date.now() - startTime }
+      });
+    } catch (error) {
+      session = await sessions.updateSession(session.id, {
+        status: 'failed',
+        request: planningRequest,
+        error: {
+          code: 'PLANNING_FAILED',
+          message: (error as Error).message,
+          actor: 'planning',
+          phase: 'planning',
+          recoverable: true
+        }
+      });
+    }
+
+    return this.sessionResult(session);
+  }
+
+  private async execute(args: string[]): Promise<CommandResult> {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        concurrency: { type: 'string' },
+        timeout: { type: 'string' },
+        record: { type: 'boolean' }
+      }
+    });
+
+    const sessions = await this.services.sessions();
+    const session = await this.requireSession(sessions, positionals[0]);
+    if (!session.instructions) {
+      throw new CLIError(`Session ${session.id} has no plan to execute`, 'NO_PLAN', EXIT_CODES.usage);
+    }
+    if (!EXECUTABLE.includes(session.status)) {
+      throw new CLIError(`Session ${session.id} is ${session.status} and cannot be executed`, 'INVALID_STATE', EXIT_CODES.usage);
+    }
+
+    // A session run by hand no longer waits in the queue
+    const queue = await this.services.queue();
+    await queue.removeFromQueue(session.id);
+    const execution = await this.services.execution();
+    return this.sessionResult(await runPlannedSession(sessions, execution, session, {
+      timeout: values.timeout ? this.parseNumber(values.timeout, 'timeout') : undefined,
+      concurrency: values.concurrency ? this.parseNumber(values.concurrency, 'concurrency') : undefined,
+      record: values.record
+    }));
+  }
+
+  private async queue(args: string[]): Promise<CommandResult> {
+    const [action, ...rest] = args;
+    const { values, positionals } = parseArgs({
+      args: rest,
+      allowPositionals: true,
+      options: {
+        priority: { type: 'string' }
+      }
+    });
+
+    const queue = await this.services.queue();
+
+    switch (action) {
+      case 'list': {
+        const state = queue.getQueueState();
+        return {
+          output: {
+            isPaused: state.isPaused,
+            sessions: state.sessions.map(queued => ({
+              id: queued.id,
+              name: queued.name,
+              status: queued.status,
+              priority: queued.priority,
+              queuePosition: queued.queuePosition,
+              addedToQueueAt: queued.addedToQueueAt
+            }))
+          },
+          exitCode: 0
+        };
+      }
+
+      case 'add': {
+        const priority = (values.priority || 'medium') as SessionPriority;
+        if (!PRIORITIES.includes(priority)) {
+          throw new CLIError(`Priority must be one of ${PRIORITIES.join(', ')}`, 'USAGE', EXIT_CODES.usage);
+        }
+
+        const sessions = await this.services.sessions();
+        const session = await this.requireSession(sessions, positionals[0]);
+        if (!session.instructions || !EXECUTABLE.includes(session.status)) {
+          throw new CLIError(`Session ${session.id} is ${session.status} and cannot be queued`, 'INVALID_STATE', EXIT_CODES.usage);
+        }
+        if (queue.getSession(session.id)) {
+          throw new CLIError(`Session ${session.id} is already queued`, 'ALREADY_QUEUED', EXIT_CODES.usage);
+        }
+
+        await queue.addToQueue(await sessions.updateSession(session.id, {
+          status: 'pending',
+          metadata: { ...session.metadata, priority }
+        }));
+        return { output: queue.getSession(session.id), exitCode: 0 };
+      }
+
+      case 'cancel': {
+        const sessions = await this.services.sessions();
+        const session = await this.requireSession(sessions, positionals[0]);
+        if (session.status === 'completed') {
+          throw new CLIError(`Session ${session.id} has already completed`, 'INVALID_STATE', EXIT_CODES.usage);
+        }
+
+        const cancelled = await sessions.updateSession(session.id, { status: 'cancelled' });
+        await queue.removeFromQueue(session.id);
+        return { output: cancelled, exitCode: 0 };
+      }
+
+      default:
+        throw new CLIError('queue needs one of add, list or cancel', 'USAGE', EXIT_CODES.usage);
+    }
+  }
+
+  private async session(args: string[]): Promise<CommandResult> {
+    const [action, ...rest] = args;
+    const { values, positionals } = parseArgs({
+      args: rest,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string' },
+        output: { type: 'string' }
+      }
+    });
+
+    if (action !== 'show' && action !== 'export') {
+      throw new CLIError('session needs one of show or export', 'USAGE', EXIT_CODES.usage);
+    }
+
+    const sessions = await this.services.sessions();
+    const session = await this.requireSession(sessions, positionals[0]);
+
+    switch (action) {
+      case 'show':
+        return this.sessionResult(session);
+
+      case 'export': {
+        const format = values.format || 'json';
+        if (format !== 'json' && format !== 'md') {
+          throw new CLIError('Export format must be json or md', 'USAGE', EXIT_CODES.usage);
+        }
+
+        const exported = await sessions.exportSession(session.id, format);
+        if (!values.output) {
+          return { output: exported.endsWith('\n') ? exported : `${exported}\n`, exitCode: 0 };
+        }
+
+        const outputPath = path.resolve(values.output);
+        await fs.writeFile(outputPath, exported, 'utf-8');
+        return { output: { sessionId: session.id, format, path: outputPath }, exitCode: 0 };
+      }
+    }
+  }
+
+  private async replay(args: string[]): Promise<CommandResult> {
+    const [action, ...rest] = args;
+    const { values, positionals } = parseArgs({
+      args: rest,
+      allowPositionals: true,
+      options: {
+        timeout: { type: 'string' }
+      }
+    });
+
+    const execution = await this.services.execution();
+
+    switch (action) {
+      case 'list': {
+        const sessions = await this.services.sessions();
+        const session = await this.requireSession(sessions, positionals[0]);
+        const sessionId = session.instructions?.metadata.sessionId || session.id;
+        return { output: { sessionId, recordings: await execution.listRecordings(sessionId) }, exitCode: 0 };
+      }
+
+      case 'run': {
+        if (!positionals[0]) {
+          throw new CLIError('replay run needs a recording file', 'USAGE', EXIT_CODES.usage);
+        }
+
+        let recording;
+        try {
+          recording = await execution.loadRecording(path.resolve(positionals[0]));
+        } catch (error) {
+          if (error instanceof RecordingError && error.code === 'RECORDING_NOT_FOUND') {
+            throw new CLIError(error.message, 'NOT_FOUND', EXIT_CODES.notFound);
+          }
+          throw new CLIError((error as Error).message, 'INVALID_RECORDING', EXIT_CODES.usage);
+        }
+
+        const report = await execution.replayExecution(recording, {
+          workingDirectory: process.cwd(),
+          environment: await buildExecutionEnvironment(process.cwd()),
+          timeout: values.timeout ? this.parseNumber(values.timeout, 'timeout') : 300000
+        });
+        return {
+          output: {
+            instructionId: report.instructionId,
+            recordedAt: report.recordedAt,
+            status: report.result.status,
+            divergences: report.divergences
+          },
+          exitCode: report.divergences.length === 0 ? 0 : 1
+        };
+      }
+
+      default:
+        throw new CLIError('replay needs one of list or run', 'USAGE', EXIT_CODES.usage);
+    }
+  }
+
+  private async usage(args: string[]): Promise<CommandResult> {
+    const [action, ...rest] = args;
+    if (action !== 'report') {
+      throw new CLIError('usage needs report', 'USAGE', EXIT_CODES.usage);
+    }
+
+    const { values } = parseArgs({
+      args: rest,
+      options: {
+        user: { type: 'string' },
+        period: { type: 'string' },
+        from: { type: 'string' },
+        to: { type: 'string' }
+      }
+    });
+
+    const { start, end } = this.reportRange(values.period, values.from, values.to);
+    const userId = values.user || DEFAULT_USER;
+    const tracker = await this.services.usage();
+    const metrics = await tracker.getUsageMetrics(userId, start, end);
+
+    return { output: { userId, ...metrics }, exitCode: 0 };
+  }
+
+  private reportRange(period = 'month', from?: string, to?: string): { start: Date; end: Date } {
+    const end = to ? this.parseDate(to, 'to') : new Date();
+    if (from) {
+      return { start: this.parseDate(from, 'from'), end };
+    }
+
+    switch (period) {
+      case 'today':
+        return { start: new Date(end.getFullYear(), end.getMonth(), end.getDate()), end };
+      case 'week':
+        return { start: new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000), end };
+      case 'month':
+        return { start: new Date(end.getFullYear(), end.getMonth(), 1), end };
+      default:
+        throw new CLIError('Period must be today, week or month', 'USAGE', EXIT_CODES.usage);
+    }
+  }
+
+  private async requireSession(sessions: SessionService, sessionId: string | undefined): Promise<Session> {
+    if (!sessionId) {
+      throw new CLIError('A session id is required', 'USAGE', EXIT_CODES.usage);
+    }
+
+    const session = await sessions.getSession(sessionId);
+    if (!session) {
+      throw new CLIError(`Session not found: ${sessionId}`, 'NOT_FOUND', EXIT_CODES.notFound);
+    }
+    return session;
+  }
+
+  private sessionResult(session: Session): CommandResult {
+    return { output: session, exitCode: STATUS_EXIT_CODES[session.status] ?? EXIT_CODES.software };
+  }
+
+  private parseNumber(value: string, name: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new CLIError(`--${name} must be a positive integer`, 'USAGE', EXIT_CODES.usage);
+    }
+    return parsed;
+  }
+
+  private parseDate(value: string, name: string): Date {
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) {
+      throw new CLIError(`--${name} must be a date`, 'USAGE', EXIT_CODES.usage);
+    }
+    return parsed;
+  }
+
+  private toCLIError(error: unknown): CLIError {
+    if (error instanceof CLIError) return error;
+
+    // parseArgs rejects unknown options and missing values with ERR_PARSE_ARGS_* codes
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code?.startsWith('ERR_PARSE_ARGS')) {
+      return new CLIError((error as Error).message, 'USAGE', EXIT_CODES.usage);
+    }
+    return new CLIError((error as Error).message, 'INTERNAL_ERROR');
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * @actor execution
+ * @responsibility Describes what an execution would change without applying it
+ * @forbidden Cannot write to disk or run commands
+ */
+
+import {
+  ChangePreview,
+  CommandPreview,
+  FileChangePreview,
+  InstructionDeliverable
+} from '@/src/models/Instruction';
+import { createPatch } from 'diff';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface PreviewFragment {
+  files: FileChangePreview[];
+  commands: CommandPreview[];
+  // Generated source keyed by requirement ID
+  generatedCode?: Record<string, string>;
+}
+
+/**
+ * Builds change previews for one instruction's deliverables
+ */
+export class ChangePreviewBuilder {
+  private readonly deliverables: InstructionDeliverable[];
+
+  constructor(deliverables: InstructionDeliverable[]) {
+    this.deliverables = deliverables;
+  }
+
+  /**
+   * Build the preview entry for a single file change under root.
+   * A null content previews a deletion.
+   */
+  async previewFileChange(
+    root: string,
+    relativePath: string,
+    content: string | null
+  ): Promise<FileChangePreview | null> {
+    const existing = await this.readExisting(path.join(root, relativePath));
+
+    if (content === null && existing === null) {
+      return null;
+    }
+
+    const action: FileChangePreview['action'] =
+      content === null ? 'delete' : existing === null ? 'create' : 'modify';
+
+    if (action === 'modify' && existing === content) {
+      return null;
+    }
+
+    return {
+      path: relativePath,
+      action,
+      diff: createPatch(relativePath, existing ?? '', content ?? ''),
+      satisfies: this.matchDeliverables(relativePath)
+    };
+  }
+
+  /**
+   * Deliverables a change to the given path contributes to: exact file
+   * matches, or any file inside a deliverable directory
+   */
+  matchDeliverables(relativePath: string): InstructionDeliverable[] {
+    const target = this.normalize(relativePath);
+
+    return this.deliverables.filter(deliverable => {
+      if (!deliverable.path) return false;
+      const candidate = this.normalize(deliverable.path);
+
+      if (deliverable.type === 'directory') {
+        return target === candidate || target.startsWith(`${candidate}/`);
+      }
+
+      return target === candidate;
+    });
+  }
+
+  /**
+   * Combine per-task fragments into the preview stored on the result
+   */
+  merge(instructionId: string, fragments: PreviewFragment[]): ChangePreview {
+    const files = new Map<string, FileChangePreview>();
+    const commands: CommandPreview[] = [];
+    let generatedCode: Record<string, string> | undefined;
+
+    for (const fragment of fragments) {
+      // Later tasks win for the same path, matching execution order
+      fragment.files.forEach(file => files.set(file.path, file));
+      commands.push(...fragment.commands);
+      if (fragment.generatedCode) {
+        generatedCode = { ...generatedCode, ...fragment.generatedCode };
+      }
+    }
+
+    return {
+      instructionId,
+      generatedAt: new Date().toISOString(),
+      files: Array.from(files.values()),
+      commands,
+      generatedCode
+    };
+  }
+
+  private normalize(filePath: string): string {
+    return path.posix
+      .normalize(filePath.replace(/\\/g, '/'))
+      .replace(/^\.\//, '')
+      .replace(/\/$/, '');
+  }
+
+  private async readExisting(fullPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(fullPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
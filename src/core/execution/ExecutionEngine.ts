@@ -10,19 +10,115 @@ import {
   ExecutionResult,
   ExecutionOutput,
   ExecutionError,
-  ValidationResult
+  ValidationResult,
+  ChangePreview,
+  FileChangePreview,
+  RollbackReport,
+  ExecutionAttempt,
+  CriterionFailure,
+  InstructionRequirement
 } from '@/src/models/Instruction';
 import { Logger } from '@/src/lib/logging/Logger';
 import { ProtocolValidator } from '@/src/core/protocol/ProtocolValidator';
-import { SecuritySandbox } from './SecuritySandbox';
-import { ClaudeCodeAPIClient } from '@/src/lib/api/ClaudeCodeAPIClient';
+import {
+  SecuritySandbox,
+  SandboxError,
+  SandboxLimits,
+  IsolatedTaskSpec,
+  IsolatedTaskResult
+} from './SecuritySandbox';
+import { ChangePreviewBuilder, PreviewFragment } from './ChangePreview';
+import { RollbackJournal } from './RollbackJournal';
+import { TaskScheduler } from './TaskScheduler';
+import {
+  ExecutionRecorder,
+  ExecutionRecording,
+  ExecutionRecordingStore
+} from './ExecutionRecorder';
+import { ExecutionReplayer, ReplayError, ReplayReport } from './ExecutionReplayer';
+import {
+  APIExchangeInterceptor,
+  ClaudeCodeAPIClient,
+  CommandRunner
+} from '@/src/lib/api/ClaudeCodeAPIClient';
+import { StreamOptions } from '@/src/lib/api/MessageStream';
+import { isLLMProvider, LLMProvider } from '@/src/lib/api/providers/LLMProvider';
+import { MCPClientManager } from '@/src/services/mcp/client/MCPClientManager';
 import { v4 as uuidv4 } from 'uuid';
+import * as path from 'path';
 
 export interface ExecutionContext {
   workingDirectory: string;
+  // Everything isolated tasks see; build it with buildExecutionEnvironment
   environment: Record<string, string>;
   timeout: number;
   dryRun: boolean;
+  limits?: Partial<SandboxLimits>;
+  // An approved dry-run preview; its generated code is applied as reviewed
+  approvedPreview?: ChangePreview;
+  // Regenerate code from failure evidence when automated criteria fail
+  repair?: RepairOptions;
+  // Independent tasks run concurrently up to this width; defaults to 1
+  concurrency?: number;
+  // Save a replayable recording of the run's API exchanges, commands and file writes
+  record?: boolean;
+  // Stream generated code as it arrives; aborting cancels generation
+  stream?: StreamOptions;
+  // Aborting cancels the run like cancelExecution, stopping the task in progress
+  signal?: AbortSignal;
+}
+
+export type ReplayContext = Omit<ExecutionContext, 'dryRun' | 'record' | 'repair' | 'concurrency' | 'approvedPreview'>;
+
+export interface RepairOptions {
+  // Total runs per execution, including the first
+  maxAttempts: number;
+  // Shared by every execution in the same session
+  sessionBudget?: RepairBudget;
+}
+
+export interface RepairBudget {
+  maxRepairAttempts?: number;
+  maxTokens?: number;
+}
+
+export interface RepairUsage {
+  repairAttempts: number;
+  tokens: number;
+}
+
+interface Generation {
+  code: string;
+  tokens: number;
+}
+
+// Failures to repair, with each code requirement's previous implementation
+interface InstructionRepair {
+  attempt: number;
+  failures: CriterionFailure[];
+  previousCode: Map<string, string>;
+}
+
+// Recording state of a run; replays also answer API requests from the recording
+interface RunCapture {
+  recorder: ExecutionRecorder;
+  replayer?: ExecutionReplayer;
+}
+
+// Errors after which a repair attempt would not start from a clean tree
+const NON_REPAIRABLE_ERRORS = new Set(['EXECUTION_CANCELLED', 'ROLLBACK_INCOMPLETE']);
+
+// Test runner summaries such as "Tests: 1 failed, 4 passed" or "3 passing"
+const TEST_COUNT = /\b(\d+)\s+(passed|passing|failed|failing)\b/gi;
+// Criteria whose validation method names tests need a test report to pass
+const TEST_METHOD = /\btests?\b|\btesting\b/i;
+
+interface RunEvidence {
+  commands: Array<{ command: string; exitCode: number }>;
+  // Output lines that summarize a test run, and those reporting failures
+  testReports: string[];
+  failedTests: string[];
+  lines: string[];
 }
 
 export interface ExecutionTask {
@@ -31,6 +127,14 @@ export interface ExecutionTask {
   description: string;
   action: (context?: any) => Promise<any>;
   rollback?: () => Promise<void>;
+  // When set, the task runs in its own process instead of calling action
+  isolated?: IsolatedTaskSpec;
+  // Describes the task's changes for dry runs without applying them
+  preview?: () => Promise<PreviewFragment>;
+  // Task IDs that must complete before this task starts
+  dependsOn?: string[];
+  // Absolute paths the task may write; overlapping tasks are serialized
+  writes?: string[];
 }
 
 export class ExecutionEngine {
@@ -39,19 +143,35 @@ export class ExecutionEngine {
   private readonly sandbox: SecuritySandbox;
   private readonly claudeCodeApi?: ClaudeCodeAPIClient;
   private executionHistory: Map<string, ExecutionResult> = new Map();
+  private journals: Map<string, RollbackJournal> = new Map();
+  private activeExecutions: Map<string, AbortController> = new Map();
+  // Latest generated implementation per instruction and requirement, fed back on repair
+  private generations: Map<string, Map<string, Generation>> = new Map();
+  private repairUsage: Map<string, RepairUsage> = new Map();
+  private captures: Map<string, RunCapture> = new Map();
+  private readonly recordingStore: ExecutionRecordingStore;
   private readonly useRealApi: boolean;
+  private readonly mcpClients?: MCPClientManager;
 
   constructor(
     logger: Logger,
     validator: ProtocolValidator,
     sandbox: SecuritySandbox,
-    claudeCodeApi?: ClaudeCodeAPIClient
+    // A bare provider is wrapped in a client with the execution prompts
+    claudeCodeApi?: ClaudeCodeAPIClient | LLMProvider,
+    recordingStore: ExecutionRecordingStore = new ExecutionRecordingStore(),
+    // External MCP tools that requirements may name
+    mcpClients?: MCPClientManager
   ) {
     this.logger = logger;
     this.validator = validator;
     this.sandbox = sandbox;
-    this.claudeCodeApi = claudeCodeApi;
+    this.claudeCodeApi = isLLMProvider(claudeCodeApi)
+      ? new ClaudeCodeAPIClient({ apiKey: '', provider: claudeCodeApi }, logger)
+      : claudeCodeApi;
+    this.recordingStore = recordingStore;
     this.useRealApi = !!claudeCodeApi;
+    this.mcpClients = mcpClients;
   }
 
   /**
@@ -61,17 +181,307 @@ export class ExecutionEngine {
   async executeInstructions(
     instructions: InstructionProtocol,
     context: ExecutionContext
+  ): Promise<ExecutionResult> {
+    if (!context.record || context.dryRun) {
+      return this.dispatch(instructions, context);
+    }
+
+    const recorder = new ExecutionRecorder(instructions, this.recordingRoots(instructions, context), {
+      concurrency: context.concurrency
+    });
+    const result = await this.captured(instructions, { recorder }, () => this.dispatch(instructions, context));
+    const recording = recorder.finish(result.status);
+    recording.options.repairAttempts = result.attempts?.length;
+
+    try {
+      result.recording = await this.recordingStore.save(recording);
+      result.logs.push(`Recorded ${recording.events.length} event(s) to ${result.recording}`);
+    } catch (error) {
+      this.logger.warn('ExecutionEngine: Failed to save recording', {
+        instructionId: instructions.metadata.id,
+        error: (error as Error).message
+      });
+      result.logs.push(`Recording could not be saved: ${(error as Error).message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-run a recorded instruction with API responses and command output
+   * served from the recording, and report where the commands, file writes
+   * and outcome diverge from it. Nothing reaches the network or runs;
+   * generated files are still written to the session workspace.
+   */
+  async replayExecution(
+    recording: ExecutionRecording,
+    context: ReplayContext
+  ): Promise<ReplayReport> {
+    const instructions = recording.instructions;
+    const replayContext: ExecutionContext = {
+      ...context,
+      dryRun: false,
+      concurrency: recording.options.concurrency,
+      repair: recording.options.repairAttempts && recording.options.repairAttempts > 1
+        ? { maxAttempts: recording.options.repairAttempts }
+        : undefined
+    };
+
+    const replayer = new ExecutionReplayer(recording);
+    const recorder = new ExecutionRecorder(instructions, this.recordingRoots(instructions, replayContext));
+
+    this.logger.info('ExecutionEngine: Replaying recording', {
+      instructionId: recording.instructionId,
+      recordedAt: recording.recordedAt,
+      events: recording.events.length
+    });
+
+    const result = await this.captured(instructions, { recorder, replayer }, () =>
+      this.dispatch(instructions, replayContext)
+    );
+    const divergences = replayer.compare(recorder.finish(result.status));
+
+    divergences.forEach(d => result.logs.push(`Replay diverged at ${d.at}: ${d.message}`));
+    this.logger.info('ExecutionEngine: Replay completed', {
+      instructionId: recording.instructionId,
+      divergences: divergences.length
+    });
+
+    return {
+      instructionId: recording.instructionId,
+      recordedAt: recording.recordedAt,
+      result,
+      divergences
+    };
+  }
+
+  /**
+   * Load a recording saved by an earlier run
+   */
+  loadRecording(file: string): Promise<ExecutionRecording> {
+    return this.recordingStore.load(file);
+  }
+
+  /**
+   * Recording files saved for a session
+   */
+  listRecordings(sessionId: string): Promise<string[]> {
+    return this.recordingStore.list(sessionId);
+  }
+
+  private async captured(
+    instructions: InstructionProtocol,
+    capture: RunCapture,
+    run: () => Promise<ExecutionResult>
+  ): Promise<ExecutionResult> {
+    const instructionId = instructions.metadata.id;
+    if (this.captures.has(instructionId)) {
+      throw new Error(`Instruction ${instructionId} is already being recorded or replayed`);
+    }
+
+    this.captures.set(instructionId, capture);
+    try {
+      return await run();
+    } finally {
+      this.captures.delete(instructionId);
+    }
+  }
+
+  /**
+   * Directory generated code of a session is written to; undefined when
+   * code generation runs on the built-in implementation
+   */
+  getWorkspaceDir(sessionId: string): string | undefined {
+    return this.claudeCodeApi?.getWorkspaceDir(sessionId);
+  }
+
+  /**
+   * Directories recorded paths are stored relative to
+   */
+  private recordingRoots(instructions: InstructionProtocol, context: ExecutionContext): Record<string, string> {
+    const roots: Record<string, string> = { project: context.workingDirectory };
+    const workspace = this.getWorkspaceDir(instructions.metadata.sessionId);
+    if (workspace) {
+      roots['workspace'] = workspace;
+    }
+    return roots;
+  }
+
+  private async dispatch(
+    instructions: InstructionProtocol,
+    context: ExecutionContext
+  ): Promise<ExecutionResult> {
+    const repair = context.repair;
+    if (repair && repair.maxAttempts > 1 && !context.dryRun && this.claudeCodeApi) {
+      return this.executeWithRepair(instructions, context, repair);
+    }
+
+    return this.executeAttempt(instructions, context);
+  }
+
+  /**
+   * Repair loop: while automated success criteria fail, regenerate the
+   * implementation from the failure evidence and run it again. Every run
+   * is kept as a child result on the returned parent.
+   */
+  private async executeWithRepair(
+    instructions: InstructionProtocol,
+    context: ExecutionContext,
+    options: RepairOptions
+  ): Promise<ExecutionResult> {
+    const instructionId = instructions.metadata.id;
+    const sessionId = instructions.metadata.sessionId;
+    const usage = this.repairUsage.get(sessionId) ?? { repairAttempts: 0, tokens: 0 };
+    this.repairUsage.set(sessionId, usage);
+
+    const attempts: ExecutionAttempt[] = [];
+    let repair: InstructionRepair | undefined;
+
+    for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+      this.generations.delete(instructionId);
+      const result = await this.executeAttempt(instructions, context, repair);
+      const generated = this.generations.get(instructionId) ?? new Map<string, Generation>();
+      const tokensUsed = [...generated.values()].reduce((sum, generation) => sum + generation.tokens, 0);
+
+      usage.tokens += tokensUsed;
+      if (repair) {
+        usage.repairAttempts++;
+      }
+
+      attempts.push({
+        attempt,
+        trigger: repair ? 'repair' : 'initial',
+        repairing: repair?.failures ?? [],
+        tokensUsed,
+        result
+      });
+
+      const failures = this.collectCriterionFailures(instructions, result);
+      if (failures.length === 0) {
+        break;
+      }
+
+      if (result.errors.some(e => NON_REPAIRABLE_ERRORS.has(e.code))) {
+        result.logs.push('Repair skipped: the run was cancelled or could not be fully rolled back');
+        break;
+      }
+
+      if (attempt === options.maxAttempts) {
+        result.logs.push(`Repair stopped after ${attempt} attempt(s); ${failures.length} criterion failure(s) remain`);
+        break;
+      }
+
+      const exhausted = this.exhaustedBudget(usage, options.sessionBudget);
+      if (exhausted) {
+        result.logs.push(`Repair stopped: session ${exhausted} budget exhausted`);
+        break;
+      }
+
+      if (generated.size === 0) {
+        result.logs.push('Repair skipped: no generated implementation to repair');
+        break;
+      }
+
+      this.logger.info('ExecutionEngine: Retrying failed success criteria', {
+        instructionId,
+        attempt: attempt + 1,
+        failures: failures.map(f => f.criterionId)
+      });
+      repair = {
+        attempt: attempt + 1,
+        failures,
+        previousCode: new Map([...generated].map(([requirementId, generation]) => [requirementId, generation.code]))
+      };
+    }
+
+    const last = attempts[attempts.length - 1] as ExecutionAttempt;
+    const result: ExecutionResult = { ...last.result, attempts };
+
+    this.validator.validateExecutionResultSchema(result);
+    this.executionHistory.set(instructionId, result);
+    return result;
+  }
+
+  /**
+   * Automated criteria that failed in a run, with the errors or output that explain it
+   */
+  private collectCriterionFailures(
+    instructions: InstructionProtocol,
+    result: ExecutionResult
+  ): CriterionFailure[] {
+    const evidence = result.errors
+      .map(e => `[${e.code}] ${e.message}`)
+      .join('\n');
+
+    return result.validationResults
+      .filter(v => !v.passed)
+      .flatMap(v => {
+        const criterion = instructions.successCriteria.find(c => c.id === v.criterionId);
+        if (!criterion?.automated) return [];
+        return [{ criterionId: criterion.id, criterion: criterion.criterion, evidence: evidence || v.message }];
+      });
+  }
+
+  private exhaustedBudget(usage: RepairUsage, budget?: RepairBudget): string | undefined {
+    if (budget?.maxRepairAttempts !== undefined && usage.repairAttempts >= budget.maxRepairAttempts) {
+      return 'repair attempt';
+    }
+    if (budget?.maxTokens !== undefined && usage.tokens >= budget.maxTokens) {
+      return 'token';
+    }
+    return undefined;
+  }
+
+  /**
+   * Repair attempts and generation tokens a session has used so far
+   */
+  getRepairUsage(sessionId: string): RepairUsage {
+    return { ...(this.repairUsage.get(sessionId) ?? { repairAttempts: 0, tokens: 0 }) };
+  }
+
+  /**
+   * Run the instructions once. A failure rolls back everything the run changed.
+   */
+  private async executeAttempt(
+    instructions: InstructionProtocol,
+    runContext: ExecutionContext,
+    repair?: InstructionRepair
   ): Promise<ExecutionResult> {
     const startTime = new Date().toISOString();
     const outputs: ExecutionOutput[] = [];
     const errors: ExecutionError[] = [];
     const logs: string[] = [];
+    const instructionId = instructions.metadata.id;
+    const journal = new RollbackJournal(instructionId, this.logger);
+    const controller = new AbortController();
+    const capture = this.captures.get(instructionId);
+
+    // Cancelling kills the running command or ends the generation in
+    // progress, so tasks see the run's signal rather than the caller's
+    const generation = new AbortController();
+    const cancel = () => controller.abort();
+    const endGeneration = () => generation.abort();
+    runContext.signal?.addEventListener('abort', cancel, { once: true });
+    runContext.stream?.signal?.addEventListener('abort', endGeneration, { once: true });
+    controller.signal.addEventListener('abort', endGeneration, { once: true });
+    if (runContext.signal?.aborted) cancel();
+    if (runContext.stream?.signal?.aborted) endGeneration();
+    const context: ExecutionContext = {
+      ...runContext,
+      signal: controller.signal,
+      stream: { ...runContext.stream, signal: generation.signal }
+    };
 
     this.logger.info('ExecutionEngine: Starting execution', {
-      instructionId: instructions.metadata.id
+      instructionId
     });
 
     try {
+      // The project's vocabulary, as planning saw it
+      if (instructions.metadata.projectId) {
+        await this.validator.loadTerminologyAllowlist(instructions.metadata.projectId, context.workingDirectory);
+      }
+
       // Validate instructions are properly formatted
       this.validator.validate(instructions);
 
@@ -79,17 +489,32 @@ export class ExecutionEngine {
       this.validator.ensureExecutionBoundary(instructions);
 
       // Parse instructions into executable tasks
-      const tasks = await this.parseInstructionTasks(instructions, context);
+      const tasks = await this.parseInstructionTasks(instructions, context, journal, repair, capture);
 
-      // Execute tasks in sandboxed environment
-      for (const task of tasks) {
+      if (context.dryRun) {
+        return await this.previewTasks(instructions, tasks, context, startTime, logs);
+      }
+
+      this.journals.set(instructionId, journal);
+      this.activeExecutions.set(instructionId, controller);
+
+      // Execute tasks in sandboxed environment as a dependency graph.
+      // The first failure or a cancellation stops new tasks from starting
+      // and rolls back the whole instruction.
+      // Commands may write anywhere under their cwd
+      const scheduled = tasks.map(task => task.isolated && !task.writes
+        ? { ...task, writes: [path.resolve(context.workingDirectory, task.isolated.cwd || '.')] }
+        : task);
+      const scheduler = new TaskScheduler(scheduled, context.concurrency ?? 1);
+      const schedule = await scheduler.run(async task => {
         try {
           logs.push(`Starting task: ${task.description}`);
+
+          if (task.rollback) {
+            journal.recordUndo(task.id, task.description, task.rollback);
+          }
           
-          const output = await this.sandbox.executeSecurely(
-            task.action,
-            context.timeout
-          );
+          const output = await this.runTask(task, context, journal, capture);
           
           outputs.push({
             type: 'console',
@@ -100,23 +525,50 @@ export class ExecutionEngine {
           logs.push(`Completed task: ${task.description}`);
         } catch (error: any) {
           const execError: ExecutionError = {
-            code: 'TASK_FAILED',
-            message: `Failed to execute task: ${task.description}`,
+            code: controller.signal.aborted
+              ? 'EXECUTION_CANCELLED'
+              : error instanceof SandboxError ? error.code : 'TASK_FAILED',
+            message: `Failed to execute task: ${task.description} - ${(error as Error).message}`,
             stack: (error as Error).stack,
             recoverable: false
           };
           errors.push(execError);
           logs.push(`Error in task: ${task.description} - ${(error as Error).message}`);
-          
-          // Attempt rollback if available
-          if (task.rollback) {
-            try {
-              await task.rollback();
-              logs.push(`Rolled back task: ${task.description}`);
-            } catch (rollbackError) {
-              logs.push(`Failed to rollback task: ${task.description}`);
-            }
-          }
+          throw error;
+        }
+      }, () => controller.signal.aborted);
+
+      schedule.serialized.forEach(s => {
+        logs.push(`Serialized task ${s.task} after ${s.waitedFor}: both write ${s.path}`);
+      });
+
+      // A task stopped by the cancellation already recorded it
+      const interrupted = errors.some(e => e.code === 'EXECUTION_CANCELLED');
+      if (controller.signal.aborted && (interrupted || schedule.skipped.length > 0)) {
+        if (!interrupted) {
+          errors.push({
+            code: 'EXECUTION_CANCELLED',
+            message: 'Execution cancelled before completion',
+            recoverable: false
+          });
+        }
+        logs.push(`Execution cancelled, skipping ${schedule.skipped.length} task(s)`);
+      } else if (schedule.skipped.length > 0) {
+        logs.push(`Skipping ${schedule.skipped.length} remaining task(s)`);
+      }
+
+      let rollback: RollbackReport | undefined;
+      if (errors.length > 0) {
+        const reason = errors.some(e => e.code === 'EXECUTION_CANCELLED') ? 'cancelled' : 'failure';
+        rollback = await journal.rollback(reason);
+        logs.push(...this.describeRollback(rollback));
+
+        if (rollback.failures.length > 0) {
+          errors.push({
+            code: 'ROLLBACK_INCOMPLETE',
+            message: `Rollback left ${rollback.failures.length} change(s) in place`,
+            recoverable: false
+          });
         }
       }
 
@@ -135,9 +587,12 @@ export class ExecutionEngine {
         outputs,
         errors,
         logs,
-        validationResults
+        validationResults,
+        rollback
       };
 
+      this.validator.validateExecutionResultSchema(result);
+
       // Store execution history
       this.executionHistory.set(instructions.metadata.id, result);
 
@@ -165,83 +620,285 @@ export class ExecutionEngine {
         logs,
         validationResults: []
       };
+    } finally {
+      this.activeExecutions.delete(instructionId);
+      runContext.signal?.removeEventListener('abort', cancel);
+      runContext.stream?.signal?.removeEventListener('abort', endGeneration);
+    }
+  }
+
+  /**
+   * Request cancellation of a running instruction. Running commands are
+   * killed and generations ended, then every applied change is rolled back.
+   */
+  cancelExecution(instructionId: string): boolean {
+    const controller = this.activeExecutions.get(instructionId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    this.logger.info('ExecutionEngine: Cancellation requested', { instructionId });
+    return true;
+  }
+
+  /**
+   * Manually roll back a finished instruction to its pre-execution state
+   */
+  async rollbackExecution(instructionId: string): Promise<RollbackReport> {
+    if (this.activeExecutions.has(instructionId)) {
+      throw new Error(`Instruction ${instructionId} is still executing; cancel it instead`);
+    }
+
+    const journal = this.journals.get(instructionId);
+    if (!journal) {
+      throw new Error(`No rollback journal for instruction ${instructionId}`);
+    }
+
+    const report = await journal.rollback('manual');
+    const result = this.executionHistory.get(instructionId);
+    if (result) {
+      result.rollback = report;
+      result.logs.push(...this.describeRollback(report));
+    }
+
+    this.logger.info('ExecutionEngine: Manual rollback completed', {
+      instructionId,
+      restored: report.restored.length,
+      removed: report.removed.length,
+      failures: report.failures.length
+    });
+
+    return report;
+  }
+
+  private describeRollback(report: RollbackReport): string[] {
+    const lines = [
+      `Rolled back instruction (${report.reason}): ${report.restored.length} restored, ${report.removed.length} removed`
+    ];
+    if (report.untracked.length > 0) {
+      lines.push(`Rollback could not revert ${report.untracked.length} in-place change(s): ${report.untracked.join(', ')}`);
+    }
+    report.failures.forEach(f => lines.push(`Rollback failed for ${f.target}: ${f.error}`));
+    return lines;
+  }
+
+  /**
+   * Dry run: collect what each task would change instead of running it
+   */
+  private async previewTasks(
+    instructions: InstructionProtocol,
+    tasks: ExecutionTask[],
+    context: ExecutionContext,
+    startTime: string,
+    logs: string[]
+  ): Promise<ExecutionResult> {
+    const builder = new ChangePreviewBuilder(instructions.deliverables);
+    const fragments: PreviewFragment[] = [];
+    const errors: ExecutionError[] = [];
+
+    for (const task of tasks) {
+      try {
+        if (task.preview) {
+          fragments.push(await this.sandbox.executeSecurely(task.preview, context.timeout));
+          logs.push(`Previewed task: ${task.description}`);
+        } else if (task.isolated) {
+          fragments.push({
+            files: [],
+            commands: [{
+              command: [task.isolated.command, ...(task.isolated.args || [])].join(' '),
+              cwd: task.isolated.cwd || context.workingDirectory,
+              description: task.description
+            }]
+          });
+          logs.push(`Previewed task: ${task.description}`);
+        } else {
+          logs.push(`No preview available for task: ${task.description}`);
+        }
+      } catch (error: any) {
+        errors.push({
+          code: error instanceof SandboxError ? error.code : 'PREVIEW_FAILED',
+          message: `Failed to preview task: ${task.description} - ${(error as Error).message}`,
+          stack: (error as Error).stack,
+          recoverable: true
+        });
+        logs.push(`Error previewing task: ${task.description} - ${(error as Error).message}`);
+      }
+    }
+
+    const preview = builder.merge(instructions.metadata.id, fragments);
+    logs.push(`Dry run: ${preview.files.length} file change(s), ${preview.commands.length} command(s)`);
+
+    const result: ExecutionResult = {
+      instructionId: instructions.metadata.id,
+      status: errors.length === 0 ? 'success' : 'failure',
+      startTime,
+      endTime: new Date().toISOString(),
+      outputs: [{
+        type: 'artifact',
+        description: 'Change preview',
+        content: JSON.stringify({
+          files: preview.files.map(f => ({ path: f.path, action: f.action })),
+          commands: preview.commands.map(c => c.command)
+        })
+      }],
+      errors,
+      logs,
+      validationResults: [],
+      preview
+    };
+
+    this.executionHistory.set(instructions.metadata.id, result);
+    return result;
+  }
+
+  /**
+   * Mark a stored dry-run preview as approved so a real run can apply it
+   */
+  approvePreview(instructionId: string, approvedBy: string): ChangePreview | undefined {
+    const preview = this.executionHistory.get(instructionId)?.preview;
+    if (!preview) {
+      return undefined;
+    }
+
+    preview.approval = { approvedBy, approvedAt: new Date().toISOString() };
+    this.logger.info('ExecutionEngine: Preview approved', { instructionId, approvedBy });
+    return preview;
+  }
+
+  /**
+   * Run a single task, isolating it in a child process when it carries
+   * a serializable spec
+   */
+  private async runTask(
+    task: ExecutionTask,
+    context: ExecutionContext,
+    journal: RollbackJournal,
+    capture?: RunCapture
+  ): Promise<unknown> {
+    const spec = task.isolated;
+    if (spec) {
+      const cwd = path.resolve(context.workingDirectory, spec.cwd || '.');
+      const execute = () => this.sandbox.executeIsolated(spec, {
+        workingDirectory: context.workingDirectory,
+        environment: context.environment,
+        limits: { timeoutMs: context.timeout, ...context.limits },
+        signal: context.signal
+      });
+
+      return journal.trackCommand(task.id, spec.command, cwd, async () => {
+        if (!capture) return execute();
+
+        let result: Awaited<ReturnType<typeof execute>> | undefined;
+        const command = [spec.command, ...(spec.args || [])].join(' ');
+        await capture.recorder.recordCommand(command, cwd, async () => {
+          result = capture.replayer ? this.replayedResult(await capture.replayer.command(command)) : await execute();
+          return result.stdout;
+        });
+        return result;
+      });
+    }
+
+    return this.sandbox.executeSecurely(task.action, context.timeout);
+  }
+
+  /**
+   * Command runner that executes generated-code commands inside the sandbox,
+   * confined to the generated workspace and tracked by the journal
+   */
+  private createSandboxedRunner(
+    context: ExecutionContext,
+    journal: RollbackJournal,
+    taskId: string,
+    capture?: RunCapture
+  ): CommandRunner {
+    return (command, cwd) => journal.trackCommand(taskId, command, cwd, async () => {
+      const execute = async () => {
+        const result = await this.sandbox.executeIsolated(
+          { kind: 'command', command },
+          {
+            workingDirectory: cwd,
+            environment: context.environment,
+            limits: { timeoutMs: context.timeout, ...context.limits },
+            signal: context.signal
+          }
+        );
+        return result.stdout;
+      };
+      if (!capture) return execute();
+      const replayer = capture.replayer;
+      return capture.recorder.recordCommand(command, cwd, replayer ? () => replayer.command(command) : execute);
+    });
+  }
+
+  /**
+   * The scheduler runs a generation task alongside others that write
+   * elsewhere, so its changes must stay inside the paths it declared.
+   * Project commands only follow changes at the workspace root, which
+   * a requirement writes only when its paths cover the whole workspace.
+   */
+  private assertWithinWrites(
+    claudeApi: ClaudeCodeAPIClient,
+    root: string,
+    writes: string[],
+    requirementId: string,
+    generatedCode: string
+  ): void {
+    for (const change of claudeApi.parseGeneratedChanges(generatedCode)) {
+      const fullPath = claudeApi.resolveChangePath(root, change.path);
+      if (!writes.some(write => fullPath === write || fullPath.startsWith(write + path.sep))) {
+        throw new Error(`Generated change ${change.path} is outside the paths declared by ${requirementId}`);
+      }
     }
   }
 
+  private replayedResult(stdout: string): IsolatedTaskResult {
+    return { exitCode: 0, stdout, stderr: '', durationMs: 0, cpuTimeMs: 0, peakMemoryMB: 0 };
+  }
+
+  /**
+   * API interceptor for a captured run: replays answer from the recording,
+   * and every exchange is recorded
+   */
+  private captureExchange(capture?: RunCapture): APIExchangeInterceptor | undefined {
+    if (!capture) return undefined;
+    return {
+      ...capture.replayer?.exchange(),
+      ...capture.recorder.exchange()
+    };
+  }
+
   private async parseInstructionTasks(
     instructions: InstructionProtocol,
-    context: ExecutionContext
+    context: ExecutionContext,
+    journal: RollbackJournal,
+    repair?: InstructionRepair,
+    capture?: RunCapture
   ): Promise<ExecutionTask[]> {
     const tasks: ExecutionTask[] = [];
+    const taskIds = new Map(instructions.requirements.map(r => [r.id, uuidv4()]));
+    // Tool requirements are fulfilled by their MCP call, not by generated code
+    const codeRequirements = instructions.requirements.filter(r => !r.tool);
 
     if (this.useRealApi && this.claudeCodeApi) {
-      // When using real API, create a single task to generate and execute all code
-      const task: ExecutionTask = {
-        id: uuidv4(),
-        type: 'code',
-        description: 'Generate and execute code for all requirements',
-        action: async () => {
-          this.logger.info('Using Claude Code API to generate implementation');
-          
-          // Generate code from instructions
-          const claudeApi = this.claudeCodeApi;
-          if (!claudeApi) {
-            throw new Error('Claude Code API not available');
-          }
-          
-          const generatedCode = await claudeApi.generateCode({
-            instruction: instructions,
-            context: {
-              projectType: context.environment['PROJECT_TYPE'] || 'web',
-              language: context.environment['LANGUAGE'] || 'typescript',
-              framework: context.environment['FRAMEWORK'],
-              existingCode: context.environment['EXISTING_CODE']
-            }
-          });
-          
-          this.logger.debug('Code generated, executing...');
-          
-          // Execute the generated code
-          const executionResult = await claudeApi.executeCode(
-            generatedCode,
-            instructions
-          );
-          
-          if (!executionResult || !executionResult.success) {
-            throw new Error(`Execution failed: ${executionResult?.error || 'Unknown error'}`);
-          }
-          
-          return {
-            generated: true,
-            executed: true,
-            output: executionResult.output,
-            files: executionResult.files,
-            executionTime: executionResult.executionTime
-          };
-        },
-        rollback: async () => {
-          // Clean up workspace on failure
-          if (this.claudeCodeApi) {
-            await this.claudeCodeApi.cleanup(instructions.metadata.sessionId);
-          }
-        }
-      };
-      
-      tasks.push(task);
+      // One generation task per requirement, so dependencies, paths and concurrency apply
+      for (const requirement of codeRequirements) {
+        tasks.push(this.createGenerationTask(
+          this.claudeCodeApi, requirement, instructions, context, journal, taskIds, repair, capture
+        ));
+      }
     } else {
-      // Fallback to mock implementation
-      for (const requirement of instructions.requirements) {
+      // Fallback to mock implementation, one task per requirement
+      for (const requirement of codeRequirements) {
         const task: ExecutionTask = {
-          id: uuidv4(),
+          id: taskIds.get(requirement.id) as string,
           type: 'code',
           description: requirement.description,
+          dependsOn: (requirement.dependsOn ?? []).map(id => taskIds.get(id) as string),
+          writes: requirement.paths?.map(p => path.resolve(context.workingDirectory, p)),
           action: async () => {
             this.logger.debug('Executing requirement (mock)', { requirement });
             
-            if (context.dryRun) {
-              return { simulated: true, requirement: requirement.description };
-            }
-            
             return { executed: true, requirement: requirement.description };
           }
         };
@@ -250,30 +907,316 @@ export class ExecutionEngine {
       }
     }
 
+    for (const requirement of instructions.requirements) {
+      if (requirement.tool) {
+        tasks.push(this.createToolTask(requirement, requirement.tool, instructions, context, taskIds, capture));
+      }
+    }
+
     return tasks;
   }
 
+  /**
+   * Task that generates and applies the code for one requirement. Its
+   * declared paths are resolved in the session workspace the code is
+   * written to.
+   */
+  private createGenerationTask(
+    claudeApi: ClaudeCodeAPIClient,
+    requirement: InstructionRequirement,
+    instructions: InstructionProtocol,
+    context: ExecutionContext,
+    journal: RollbackJournal,
+    taskIds: Map<string, string>,
+    repair?: InstructionRepair,
+    capture?: RunCapture
+  ): ExecutionTask {
+    const taskId = taskIds.get(requirement.id) as string;
+    const workspace = () => claudeApi.getWorkspaceDir(instructions.metadata.sessionId);
+    const scoped = { ...instructions, requirements: [requirement] };
+    // Generated code runs its commands in the shared session workspace, so a
+    // requirement without declared paths may write anywhere in it
+    const writes = requirement.paths?.length
+      ? requirement.paths.map(p => path.resolve(workspace(), p))
+      : [path.resolve(workspace())];
+
+    return {
+      id: taskId,
+      type: 'code',
+      description: repair
+        ? `Regenerate and execute code for ${requirement.id} (repair attempt ${repair.attempt})`
+        : `Generate and execute code for ${requirement.id}: ${requirement.description}`,
+      dependsOn: (requirement.dependsOn ?? []).map(id => taskIds.get(id) as string),
+      writes,
+      action: async () => {
+        const generatedCode = await this.generateImplementation(claudeApi, scoped, requirement.id, context, repair, capture);
+        this.assertWithinWrites(claudeApi, workspace(), writes, requirement.id, generatedCode);
+
+        this.logger.debug('Code generated, executing...', { requirementId: requirement.id });
+
+        // Execute the generated code
+        const executionResult = await claudeApi.executeCode(generatedCode, instructions, {
+          runner: this.createSandboxedRunner(context, journal, taskId, capture),
+          beforeFileChange: fullPath => journal.recordFileChange(taskId, fullPath),
+          afterFileChange: (fullPath, content) => capture?.recorder.recordFileChange(fullPath, content)
+        });
+
+        if (executionResult?.cause instanceof SandboxError) {
+          throw executionResult.cause;
+        }
+
+        if (!executionResult || !executionResult.success) {
+          throw new Error(`Execution failed: ${executionResult?.error || 'Unknown error'}`);
+        }
+
+        return {
+          generated: true,
+          executed: true,
+          requirementId: requirement.id,
+          output: executionResult.output,
+          files: executionResult.files,
+          deleted: executionResult.deleted,
+          commands: executionResult.commands,
+          executionTime: executionResult.executionTime
+        };
+      },
+      preview: async () => {
+        const generatedCode = await this.generateImplementation(claudeApi, scoped, requirement.id, context);
+        const changes = claudeApi.parseGeneratedChanges(generatedCode);
+        const root = workspace();
+        const builder = new ChangePreviewBuilder(instructions.deliverables);
+
+        const files: FileChangePreview[] = [];
+        for (const change of changes) {
+          claudeApi.resolveChangePath(root, change.path);
+          const file = await builder.previewFileChange(root, change.path, change.content);
+          if (file) files.push(file);
+        }
+
+        return {
+          files,
+          commands: claudeApi.planCommands(changes).map(command => ({
+            command,
+            cwd: root,
+            description: 'Run generated project command'
+          })),
+          generatedCode: { [requirement.id]: generatedCode }
+        };
+      }
+    };
+  }
+
+  /**
+   * Task that fulfils a requirement by calling an external MCP tool
+   */
+  private createToolTask(
+    requirement: InstructionRequirement,
+    tool: NonNullable<InstructionRequirement['tool']>,
+    instructions: InstructionProtocol,
+    context: ExecutionContext,
+    taskIds: Map<string, string>,
+    capture?: RunCapture
+  ): ExecutionTask {
+    const args = tool.arguments || {};
+    const id = taskIds.get(requirement.id) as string;
+    return {
+      id,
+      type: 'service',
+      description: requirement.description,
+      dependsOn: (requirement.dependsOn ?? []).map(dep => taskIds.get(dep) as string),
+      action: async () => {
+        // Tool calls are not recorded, and a replay must not repeat their side effects
+        if (capture?.replayer) {
+          throw new ReplayError(`MCP tool ${tool.name} cannot be replayed`, 'NOT_RECORDED');
+        }
+        if (!this.mcpClients) {
+          throw new Error(`No MCP servers configured for tool: ${tool.name}`);
+        }
+        const result = await this.mcpClients.callTool('execution', tool.name, args, {
+          sessionId: instructions.metadata.sessionId,
+          instructionId: instructions.metadata.id
+        });
+        const text = result.content.map(item => item.text ?? '').filter(Boolean).join('\n');
+        if (result.isError) {
+          throw new Error(`MCP tool ${tool.name} failed: ${text || 'no details'}`);
+        }
+        return { tool: tool.name, output: text, structuredContent: result.structuredContent };
+      },
+      // External side effects cannot be previewed, only described
+      preview: async () => ({
+        files: [],
+        commands: [{
+          command: `mcp ${tool.name} ${JSON.stringify(args)}`,
+          cwd: context.workingDirectory,
+          description: requirement.description
+        }]
+      })
+    };
+  }
+
+  /**
+   * Generate the implementation of one requirement, reusing the reviewed
+   * code when the context carries an approved preview for this
+   * instruction. Repair attempts always regenerate from the failure
+   * evidence.
+   */
+  private async generateImplementation(
+    claudeApi: ClaudeCodeAPIClient,
+    instructions: InstructionProtocol,
+    requirementId: string,
+    context: ExecutionContext,
+    repair?: InstructionRepair,
+    capture?: RunCapture
+  ): Promise<string> {
+    const instructionId = instructions.metadata.id;
+    const approved = context.approvedPreview;
+    const approvedCode = approved?.approval && approved.instructionId === instructionId
+      ? approved.generatedCode?.[requirementId]
+      : undefined;
+    if (!repair && approved?.approval && approvedCode) {
+      this.logger.info('Applying approved preview', {
+        instructionId,
+        requirementId,
+        approvedBy: approved.approval.approvedBy
+      });
+      this.recordGeneration(instructionId, requirementId, { code: approvedCode, tokens: 0 });
+      return approvedCode;
+    }
+
+    this.logger.info('Using Claude Code API to generate implementation', {
+      requirementId,
+      repairAttempt: repair?.attempt
+    });
+
+    // A requirement that produced no code last attempt is generated afresh
+    const previousCode = repair?.previousCode.get(requirementId);
+    const code = await claudeApi.generateCode({
+      instruction: instructions,
+      context: {
+        projectType: context.environment['PROJECT_TYPE'] || 'web',
+        language: context.environment['LANGUAGE'] || 'typescript',
+        framework: context.environment['FRAMEWORK'],
+        existingCode: context.environment['EXISTING_CODE']
+      },
+      repair: repair && previousCode !== undefined
+        ? { attempt: repair.attempt, previousCode, failures: repair.failures }
+        : undefined
+    }, this.captureExchange(capture), context.stream);
+
+    const usage = claudeApi.getLastUsage();
+    this.recordGeneration(instructionId, requirementId, {
+      code,
+      tokens: usage.inputTokens + usage.outputTokens
+    });
+    return code;
+  }
+
+  private recordGeneration(instructionId: string, requirementId: string, generation: Generation): void {
+    const generations = this.generations.get(instructionId) ?? new Map<string, Generation>();
+    generations.set(requirementId, generation);
+    this.generations.set(instructionId, generations);
+  }
+
+  /**
+   * Evaluate each success criterion against what the run produced: task
+   * errors, command exit codes, and the test summaries and validation
+   * lines in command output. An automated criterion passes only when
+   * something ran to verify it; one checked by tests needs a test report.
+   */
   private async validateResults(
     instructions: InstructionProtocol,
     outputs: ExecutionOutput[],
     errors: ExecutionError[]
   ): Promise<ValidationResult[]> {
-    const results: ValidationResult[] = [];
+    const evidence = this.collectRunEvidence(outputs);
+    const runFailures = [
+      ...errors.map(e => `[${e.code}] ${e.message}`),
+      ...evidence.commands
+        .filter(c => c.exitCode !== 0)
+        .map(c => `${c.command} exited with code ${c.exitCode}`),
+      ...evidence.failedTests
+    ];
+
+    return instructions.successCriteria.map(criterion => {
+      const failures = [
+        ...runFailures,
+        ...evidence.lines.filter(line => line.startsWith(`✗ ${criterion.criterion}`))
+      ];
+      const details = { commands: evidence.commands, testReports: evidence.testReports, failures };
 
-    for (const criterion of instructions.successCriteria) {
-      const result: ValidationResult = {
+      if (failures.length > 0) {
+        return {
+          criterionId: criterion.id,
+          passed: false,
+          message: `Criterion failed: ${criterion.criterion}\n${failures.join('\n')}`,
+          details
+        };
+      }
+
+      if (!criterion.automated) {
+        return {
+          criterionId: criterion.id,
+          passed: true,
+          message: `Criterion left for manual review: ${criterion.criterion}`,
+          details
+        };
+      }
+
+      const unverified = evidence.commands.length === 0
+        ? 'no command ran'
+        : TEST_METHOD.test(criterion.validationMethod) && evidence.testReports.length === 0
+          ? 'no test report in the command output'
+          : undefined;
+      return {
         criterionId: criterion.id,
-        passed: errors.length === 0, // Simple validation for now
-        message: errors.length === 0 
-          ? `Criterion met: ${criterion.criterion}`
-          : `Criterion failed: ${criterion.criterion}`,
-        details: { outputs: outputs.length, errors: errors.length }
+        passed: !unverified,
+        message: unverified
+          ? `Criterion not verified: ${criterion.criterion} (${unverified})`
+          : `Criterion met: ${criterion.criterion}`,
+        details
       };
-      
-      results.push(result);
+    });
+  }
+
+  /**
+   * Commands, exit codes and test results from the outputs of a run.
+   * Isolated tasks report their exit code; generated code reports the
+   * commands it ran, which all exited 0 or the task would have failed.
+   */
+  private collectRunEvidence(outputs: ExecutionOutput[]): RunEvidence {
+    const evidence: RunEvidence = { commands: [], testReports: [], failedTests: [], lines: [] };
+
+    for (const output of outputs) {
+      let data: any;
+      try {
+        data = JSON.parse(output.content ?? '');
+      } catch {
+        continue;
+      }
+
+      let text: string;
+      if (typeof data?.exitCode === 'number') {
+        evidence.commands.push({ command: output.description, exitCode: data.exitCode });
+        text = `${data.stdout ?? ''}\n${data.stderr ?? ''}`;
+      } else if (Array.isArray(data?.commands)) {
+        data.commands.forEach((command: string) => evidence.commands.push({ command, exitCode: 0 }));
+        text = typeof data.output === 'string' ? data.output : '';
+      } else {
+        continue;
+      }
+
+      for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+        evidence.lines.push(line);
+        const counts = [...line.matchAll(TEST_COUNT)];
+        if (counts.length === 0) continue;
+        evidence.testReports.push(line);
+        if (counts.some(([, count, outcome]) => /^fail/i.test(outcome as string) && Number(count) > 0)) {
+          evidence.failedTests.push(line);
+        }
+      }
     }
 
-    return results;
+    return evidence;
   }
 
   private determineStatus(
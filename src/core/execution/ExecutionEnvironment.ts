@@ -0,0 +1,68 @@
+/**
+ * @actor system
+ * @responsibility Builds the minimal environment isolated tasks run with
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Kept in the project next to its terminology, naming what its commands need:
+//   { "variables": ["NODE_ENV", "DATABASE_URL"] }
+export const EXECUTION_ENVIRONMENT_FILE = path.join('.sessionhub', 'environment.json');
+
+// Enough to resolve commands and run package managers. Windows also needs
+// its system directories and temp paths to start processes at all.
+const BASE_VARIABLES = process.platform === 'win32'
+  ? ['PATH', 'HOME', 'LANG', 'PATHEXT', 'SystemRoot', 'ComSpec', 'USERPROFILE', 'TEMP', 'TMP']
+  : ['PATH', 'HOME', 'LANG'];
+
+export class ExecutionEnvironmentError extends Error {
+  constructor(message: string, public readonly configPath: string) {
+    super(message);
+    this.name = 'ExecutionEnvironmentError';
+  }
+}
+
+/**
+ * Variables generated code may see when it runs for a project. Nothing else
+ * from the app's environment is passed on, so API keys and credentials
+ * never reach the commands a plan runs.
+ */
+export async function buildExecutionEnvironment(
+  projectPath: string,
+  source: NodeJS.ProcessEnv = process.env
+): Promise<Record<string, string>> {
+  const names = [...BASE_VARIABLES, ...await readProjectVariables(projectPath)];
+  const environment: Record<string, string> = {};
+  for (const name of names) {
+    const value = source[name];
+    if (value !== undefined) {
+      environment[name] = value;
+    }
+  }
+  return environment;
+}
+
+async function readProjectVariables(projectPath: string): Promise<string[]> {
+  const configPath = path.join(projectPath, EXECUTION_ENVIRONMENT_FILE);
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  let variables: unknown = [];
+  if (raw && raw.trim()) {
+    try {
+      variables = JSON.parse(raw).variables ?? [];
+    } catch (error) {
+      throw new ExecutionEnvironmentError(`${configPath} is not valid JSON: ${(error as Error).message}`, configPath);
+    }
+  }
+  if (!Array.isArray(variables) || variables.some(name => typeof name !== 'string')) {
+    throw new ExecutionEnvironmentError(`${configPath} must list variable names as strings under "variables"`, configPath);
+  }
+  return variables;
+}
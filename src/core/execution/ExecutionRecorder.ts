@@ -0,0 +1,239 @@
+/**
+ * @actor execution
+ * @responsibility Records the external effects of an execution run so it can be replayed
+ * @forbidden Cannot change what a run does, only observe it
+ */
+
+import { ExecutionResult, InstructionProtocol } from '@/src/models/Instruction';
+import {
+  APIExchangeInterceptor,
+  APIRequestBody,
+  APIResponseBody
+} from '@/src/lib/api/ClaudeCodeAPIClient';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+// Command output above this size is kept as a hash only
+const MAX_RECORDED_OUTPUT = 64 * 1024;
+
+export interface RecordedApiExchange {
+  kind: 'api';
+  seq: number;
+  // Hash of the request body; replays compare it to spot prompt drift
+  requestHash: string;
+  request: APIRequestBody;
+  response: APIResponseBody;
+}
+
+export interface RecordedCommand {
+  kind: 'command';
+  seq: number;
+  command: string;
+  cwd: string;
+  outputHash: string;
+  output?: string;
+  error?: string;
+}
+
+export interface RecordedFileChange {
+  kind: 'file';
+  seq: number;
+  path: string;
+  action: 'write' | 'delete';
+  contentHash?: string;
+}
+
+export type RecordedEvent = RecordedApiExchange | RecordedCommand | RecordedFileChange;
+
+export interface RecordedOptions {
+  concurrency?: number;
+  // Runs the repair loop actually made; a replay allows exactly as many
+  repairAttempts?: number;
+}
+
+/**
+ * Everything a run exchanged with the outside world, in order. Paths are
+ * stored against named roots (<workspace>, <project>) so recordings can be
+ * replayed on another machine.
+ */
+export interface ExecutionRecording {
+  formatVersion: number;
+  instructionId: string;
+  sessionId: string;
+  recordedAt: string;
+  instructions: InstructionProtocol;
+  options: RecordedOptions;
+  events: RecordedEvent[];
+  status?: ExecutionResult['status'];
+}
+
+export type RecordingErrorCode = 'RECORDING_NOT_FOUND' | 'INVALID_RECORDING' | 'UNSUPPORTED_FORMAT';
+
+export class RecordingError extends Error {
+  constructor(message: string, public code: RecordingErrorCode) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+export function contentHash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export class ExecutionRecorder {
+  private readonly recording: ExecutionRecording;
+  private readonly roots: Array<[string, string]>;
+
+  constructor(
+    instructions: InstructionProtocol,
+    roots: Record<string, string>,
+    options: RecordedOptions = {}
+  ) {
+    this.recording = {
+      formatVersion: RECORDING_FORMAT_VERSION,
+      instructionId: instructions.metadata.id,
+      sessionId: instructions.metadata.sessionId,
+      recordedAt: new Date().toISOString(),
+      instructions,
+      options,
+      events: []
+    };
+    // Longest root first so nested roots win
+    this.roots = Object.entries(roots)
+      .map(([name, dir]): [string, string] => [name, path.resolve(dir)])
+      .sort((a, b) => b[1].length - a[1].length);
+  }
+
+  /**
+   * Interceptor that records every API exchange of a call
+   */
+  exchange(): APIExchangeInterceptor {
+    return {
+      afterResponse: (request, response) => {
+        this.recording.events.push({
+          kind: 'api',
+          seq: this.recording.events.length,
+          requestHash: contentHash(JSON.stringify(request)),
+          request,
+          response
+        });
+      }
+    };
+  }
+
+  /**
+   * Run a command and record its output, or the error it failed with
+   */
+  async recordCommand(command: string, cwd: string, run: () => Promise<string>): Promise<string> {
+    const entry: RecordedCommand = {
+      kind: 'command',
+      seq: this.recording.events.length,
+      command,
+      cwd: this.portablePath(cwd),
+      outputHash: ''
+    };
+    this.recording.events.push(entry);
+
+    try {
+      const output = await run();
+      entry.outputHash = contentHash(output);
+      if (output.length <= MAX_RECORDED_OUTPUT) {
+        entry.output = output;
+      }
+      return output;
+    } catch (error) {
+      entry.error = (error as Error).message;
+      entry.outputHash = contentHash('');
+      throw error;
+    }
+  }
+
+  recordFileChange(fullPath: string, content: string | null): void {
+    this.recording.events.push({
+      kind: 'file',
+      seq: this.recording.events.length,
+      path: this.portablePath(fullPath),
+      action: content === null ? 'delete' : 'write',
+      contentHash: content === null ? undefined : contentHash(content)
+    });
+  }
+
+  finish(status: ExecutionResult['status']): ExecutionRecording {
+    return { ...this.recording, status, events: [...this.recording.events] };
+  }
+
+  private portablePath(target: string): string {
+    const resolved = path.resolve(target);
+    for (const [name, root] of this.roots) {
+      if (resolved === root || resolved.startsWith(root + path.sep)) {
+        return path.posix.join(`<${name}>`, ...path.relative(root, resolved).split(path.sep));
+      }
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Saves recordings as JSON files, one directory per session
+ */
+export class ExecutionRecordingStore {
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(os.homedir(), '.sessionhub', 'recordings');
+  }
+
+  async save(recording: ExecutionRecording): Promise<string> {
+    const dir = path.join(this.directory, recording.sessionId);
+    const stamp = recording.recordedAt.replace(/[:.]/g, '-');
+    const file = path.join(dir, `${recording.instructionId}-${stamp}.json`);
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(recording, null, 2), 'utf8');
+    return file;
+  }
+
+  async load(file: string): Promise<ExecutionRecording> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch {
+      throw new RecordingError(`Recording not found: ${file}`, 'RECORDING_NOT_FOUND');
+    }
+
+    let recording: ExecutionRecording;
+    try {
+      recording = JSON.parse(raw);
+    } catch (error) {
+      throw new RecordingError(`Recording is not valid JSON: ${(error as Error).message}`, 'INVALID_RECORDING');
+    }
+
+    if (recording.formatVersion !== RECORDING_FORMAT_VERSION) {
+      throw new RecordingError(
+        `Unsupported recording format ${recording.formatVersion}; expected ${RECORDING_FORMAT_VERSION}`,
+        'UNSUPPORTED_FORMAT'
+      );
+    }
+    if (!recording.instructions?.metadata || !Array.isArray(recording.events)) {
+      throw new RecordingError('Recording is missing its instructions or events', 'INVALID_RECORDING');
+    }
+
+    return recording;
+  }
+
+  /**
+   * Recording files of a session, by instruction then time
+   */
+  async list(sessionId: string): Promise<string[]> {
+    const dir = path.join(this.directory, sessionId);
+    const entries = await fs.readdir(dir).catch(() => [] as string[]);
+    return entries
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => path.join(dir, name));
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * @actor execution
+ * @responsibility Answers API requests and commands from a recording and reports where a re-run diverges
+ * @forbidden Cannot reach the network or run commands; every response and output comes from the recording
+ */
+
+import { ExecutionResult } from '@/src/models/Instruction';
+import { APIExchangeInterceptor } from '@/src/lib/api/ClaudeCodeAPIClient';
+import {
+  ExecutionRecording,
+  RecordedApiExchange,
+  RecordedCommand,
+  RecordedFileChange,
+  contentHash
+} from './ExecutionRecorder';
+
+export interface ReplayDivergence {
+  kind: 'api' | 'command' | 'file' | 'status';
+  // Which event diverged, e.g. "command #2" or a recorded path
+  at: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface ReplayReport {
+  instructionId: string;
+  recordedAt: string;
+  result: ExecutionResult;
+  divergences: ReplayDivergence[];
+}
+
+export class ReplayError extends Error {
+  constructor(message: string, public code: 'RECORDING_EXHAUSTED' | 'NOT_RECORDED') {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+export class ExecutionReplayer {
+  private readonly recording: ExecutionRecording;
+  private readonly exchanges: RecordedApiExchange[];
+  private readonly commands: RecordedCommand[];
+  private readonly divergences: ReplayDivergence[] = [];
+  // Indexes of the recorded exchanges and commands already answered
+  private readonly served = new Set<number>();
+  private readonly ran = new Set<number>();
+  private requests = 0;
+
+  constructor(recording: ExecutionRecording) {
+    this.recording = recording;
+    this.exchanges = recording.events.filter((e): e is RecordedApiExchange => e.kind === 'api');
+    this.commands = recording.events.filter((e): e is RecordedCommand => e.kind === 'command');
+  }
+
+  /**
+   * Interceptor that answers each API request with the recorded response
+   * to the same request, or else the next unanswered one: concurrent
+   * tasks may send their requests in a different order. A request beyond
+   * the recording fails instead of going out.
+   */
+  exchange(): APIExchangeInterceptor {
+    return {
+      beforeRequest: request => {
+        const number = ++this.requests;
+        const requestHash = contentHash(JSON.stringify(request));
+        const unanswered = (index: number) => !this.served.has(index);
+        let index = this.exchanges.findIndex((e, i) => unanswered(i) && e.requestHash === requestHash);
+        if (index === -1) {
+          index = this.exchanges.findIndex((_e, i) => unanswered(i));
+        }
+
+        const recorded = this.exchanges[index];
+        if (!recorded) {
+          this.divergences.push({
+            kind: 'api',
+            at: `api #${number}`,
+            message: 'Live run made an API request the recording does not have'
+          });
+          throw new ReplayError(
+            `Recording has ${this.exchanges.length} API exchange(s); request ${number} cannot be replayed`,
+            'RECORDING_EXHAUSTED'
+          );
+        }
+        this.served.add(index);
+
+        if (requestHash !== recorded.requestHash) {
+          this.divergences.push({
+            kind: 'api',
+            at: `api #${index + 1}`,
+            expected: recorded.requestHash,
+            actual: requestHash,
+            message: 'API request differs from the recorded request'
+          });
+        }
+        return recorded.response;
+      }
+    };
+  }
+
+  /**
+   * Recorded output of a command, matched like API requests: the same
+   * command if one is unanswered, or else the next. A recorded failure is
+   * thrown again. Output too large to record is served empty, which the
+   * comparison reports as different output.
+   */
+  async command(command: string): Promise<string> {
+    const unanswered = (index: number) => !this.ran.has(index);
+    let index = this.commands.findIndex((c, i) => unanswered(i) && c.command === command);
+    if (index === -1) {
+      index = this.commands.findIndex((_c, i) => unanswered(i));
+    }
+
+    const recorded = this.commands[index];
+    if (!recorded) {
+      throw new ReplayError(
+        `Recording has ${this.commands.length} command(s); ${command} cannot be replayed`,
+        'RECORDING_EXHAUSTED'
+      );
+    }
+    this.ran.add(index);
+
+    if (recorded.error !== undefined) {
+      throw new Error(recorded.error);
+    }
+    return recorded.output ?? '';
+  }
+
+  /**
+   * Compare a re-run with the recording. Commands are compared in
+   * order; file changes by the final state of each path, since concurrent
+   * tasks may write in a different order.
+   */
+  compare(live: ExecutionRecording): ReplayDivergence[] {
+    const divergences = [...this.divergences];
+
+    if (this.served.size < this.exchanges.length) {
+      const first = this.exchanges.findIndex((_e, i) => !this.served.has(i));
+      divergences.push({
+        kind: 'api',
+        at: `api #${first + 1}`,
+        message: `Live run made ${this.served.size} of ${this.exchanges.length} recorded API request(s)`
+      });
+    }
+
+    divergences.push(...this.compareCommands(
+      this.recording.events.filter((e): e is RecordedCommand => e.kind === 'command'),
+      live.events.filter((e): e is RecordedCommand => e.kind === 'command')
+    ));
+
+    divergences.push(...this.compareFiles(
+      this.finalFiles(this.recording),
+      this.finalFiles(live)
+    ));
+
+    if (this.recording.status && live.status !== this.recording.status) {
+      divergences.push({
+        kind: 'status',
+        at: 'result',
+        expected: this.recording.status,
+        actual: live.status,
+        message: 'Execution finished with a different status'
+      });
+    }
+
+    return divergences;
+  }
+
+  private compareCommands(recorded: RecordedCommand[], live: RecordedCommand[]): ReplayDivergence[] {
+    const divergences: ReplayDivergence[] = [];
+    const count = Math.max(recorded.length, live.length);
+
+    for (let i = 0; i < count; i++) {
+      const expected = recorded[i];
+      const actual = live[i];
+      const at = `command #${i + 1}`;
+
+      if (!expected || !actual) {
+        divergences.push({
+          kind: 'command',
+          at,
+          expected: expected?.command,
+          actual: actual?.command,
+          message: expected ? 'Recorded command did not run' : 'Live run ran an extra command'
+        });
+      } else if (expected.command !== actual.command || expected.cwd !== actual.cwd) {
+        divergences.push({
+          kind: 'command',
+          at,
+          expected: `${expected.command} (in ${expected.cwd})`,
+          actual: `${actual.command} (in ${actual.cwd})`,
+          message: 'Different command ran'
+        });
+      } else if (expected.error !== actual.error) {
+        divergences.push({
+          kind: 'command',
+          at,
+          expected: expected.error ?? 'success',
+          actual: actual.error ?? 'success',
+          message: `Command ${expected.command} finished differently`
+        });
+      } else if (expected.outputHash !== actual.outputHash) {
+        divergences.push({
+          kind: 'command',
+          at,
+          expected: expected.output ?? expected.outputHash,
+          actual: actual.output ?? actual.outputHash,
+          message: `Command ${expected.command} produced different output`
+        });
+      }
+    }
+
+    return divergences;
+  }
+
+  private compareFiles(
+    recorded: Map<string, RecordedFileChange>,
+    live: Map<string, RecordedFileChange>
+  ): ReplayDivergence[] {
+    const divergences: ReplayDivergence[] = [];
+    const paths = new Set([...recorded.keys(), ...live.keys()]);
+
+    for (const filePath of Array.from(paths).sort()) {
+      const expected = recorded.get(filePath);
+      const actual = live.get(filePath);
+      const describe = (change?: RecordedFileChange) =>
+        change ? `${change.action}${change.contentHash ? ` ${change.contentHash}` : ''}` : 'untouched';
+
+      if (describe(expected) !== describe(actual)) {
+        divergences.push({
+          kind: 'file',
+          at: filePath,
+          expected: describe(expected),
+          actual: describe(actual),
+          message: !expected
+            ? 'Live run changed a file the recording did not'
+            : !actual
+              ? 'Recorded file change did not happen'
+              : 'File content differs from the recording'
+        });
+      }
+    }
+
+    return divergences;
+  }
+
+  private finalFiles(recording: ExecutionRecording): Map<string, RecordedFileChange> {
+    const files = new Map<string, RecordedFileChange>();
+    for (const event of recording.events) {
+      if (event.kind === 'file') {
+        files.set(event.path, event);
+      }
+    }
+    return files;
+  }
+}
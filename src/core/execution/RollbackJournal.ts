@@ -0,0 +1,250 @@
+/**
+ * @actor execution
+ * @responsibility Records every side effect of an instruction so it can be undone as a unit
+ * @forbidden Cannot decide whether a rollback should happen
+ */
+
+import { RollbackReport } from '@/src/models/Instruction';
+import { Logger } from '@/src/lib/logging/Logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+interface FileEntry {
+  kind: 'file';
+  taskId: string;
+  path: string;
+  // null when the file did not exist before the task touched it
+  previousContent: Buffer | null;
+}
+
+interface CommandEntry {
+  kind: 'command';
+  taskId: string;
+  command: string;
+  cwd: string;
+  createdPaths: string[];
+  modifiedPaths: string[];
+}
+
+interface UndoEntry {
+  kind: 'undo';
+  taskId: string;
+  description: string;
+  undo: () => Promise<void>;
+}
+
+type JournalEntry = FileEntry | CommandEntry | UndoEntry;
+
+export interface JournalSummary {
+  instructionId: string;
+  entries: number;
+  files: string[];
+  commands: string[];
+  rolledBack: boolean;
+}
+
+const MAX_TRACKED_PATHS = 50000;
+const IGNORED_DIRECTORIES = new Set(['.git']);
+
+export class RollbackJournal {
+  readonly instructionId: string;
+  private readonly logger: Logger;
+  private readonly entries: JournalEntry[] = [];
+  private readonly snapshotted: Set<string> = new Set();
+  private rolledBack = false;
+
+  constructor(instructionId: string, logger: Logger) {
+    this.instructionId = instructionId;
+    this.logger = logger;
+  }
+
+  /**
+   * Snapshot a file before it is written or deleted. Only the first
+   * change per path is kept, which is the pre-execution state.
+   */
+  async recordFileChange(taskId: string, filePath: string): Promise<void> {
+    const fullPath = path.resolve(filePath);
+    if (this.snapshotted.has(fullPath)) {
+      return;
+    }
+
+    let previousContent: Buffer | null = null;
+    try {
+      previousContent = await fs.readFile(fullPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.snapshotted.add(fullPath);
+    this.entries.push({ kind: 'file', taskId, path: fullPath, previousContent });
+  }
+
+  /**
+   * Run a command and record the files it creates or modifies under cwd.
+   * Created paths are removed on rollback; in-place modifications cannot
+   * be reversed and are reported as untracked.
+   */
+  async trackCommand<T>(
+    taskId: string,
+    command: string,
+    cwd: string,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const before = await this.listTree(cwd);
+
+    try {
+      return await run();
+    } finally {
+      const after = await this.listTree(cwd);
+      const createdPaths = this.topLevelPaths(
+        Array.from(after.keys()).filter(p => !before.has(p))
+      );
+      const modifiedPaths = Array.from(after.entries())
+        .filter(([p, stamp]) => before.has(p) && before.get(p) !== stamp && !this.snapshotted.has(p))
+        .map(([p]) => p);
+
+      this.entries.push({ kind: 'command', taskId, command, cwd, createdPaths, modifiedPaths });
+    }
+  }
+
+  /**
+   * Register a task-provided undo step, run in journal order on rollback
+   */
+  recordUndo(taskId: string, description: string, undo: () => Promise<void>): void {
+    this.entries.push({ kind: 'undo', taskId, description, undo });
+  }
+
+  /**
+   * Undo every recorded change in reverse order
+   */
+  async rollback(reason: RollbackReport['reason']): Promise<RollbackReport> {
+    if (this.rolledBack) {
+      throw new Error(`Instruction ${this.instructionId} has already been rolled back`);
+    }
+    this.rolledBack = true;
+
+    const report: RollbackReport = {
+      instructionId: this.instructionId,
+      reason,
+      restored: [],
+      removed: [],
+      untracked: [],
+      failures: [],
+      completedAt: ''
+    };
+
+    this.logger.info('RollbackJournal: Rolling back instruction', {
+      instructionId: this.instructionId,
+      reason,
+      entries: this.entries.length
+    });
+
+    for (const entry of [...this.entries].reverse()) {
+      try {
+        await this.undoEntry(entry, report);
+      } catch (error) {
+        const target = entry.kind === 'file' ? entry.path
+          : entry.kind === 'command' ? entry.command
+          : entry.description;
+        report.failures.push({ target, error: (error as Error).message });
+      }
+    }
+
+    report.completedAt = new Date().toISOString();
+    return report;
+  }
+
+  isRolledBack(): boolean {
+    return this.rolledBack;
+  }
+
+  getSummary(): JournalSummary {
+    return {
+      instructionId: this.instructionId,
+      entries: this.entries.length,
+      files: this.entries.filter((e): e is FileEntry => e.kind === 'file').map(e => e.path),
+      commands: this.entries.filter((e): e is CommandEntry => e.kind === 'command').map(e => e.command),
+      rolledBack: this.rolledBack
+    };
+  }
+
+  private async undoEntry(entry: JournalEntry, report: RollbackReport): Promise<void> {
+    switch (entry.kind) {
+      case 'file':
+        if (entry.previousContent === null) {
+          await fs.rm(entry.path, { force: true });
+          report.removed.push(entry.path);
+        } else {
+          await fs.mkdir(path.dirname(entry.path), { recursive: true });
+          await fs.writeFile(entry.path, entry.previousContent);
+          report.restored.push(entry.path);
+        }
+        break;
+
+      case 'command':
+        for (const created of [...entry.createdPaths].reverse()) {
+          await fs.rm(created, { recursive: true, force: true });
+          report.removed.push(created);
+        }
+        report.untracked.push(...entry.modifiedPaths);
+        break;
+
+      case 'undo':
+        await entry.undo();
+        break;
+    }
+  }
+
+  /**
+   * Map of every path under root to a change stamp (mtime and size)
+   */
+  private async listTree(root: string): Promise<Map<string, string>> {
+    const tree = new Map<string, string>();
+    const pending = [path.resolve(root)];
+
+    while (pending.length > 0 && tree.size < MAX_TRACKED_PATHS) {
+      const dir = pending.pop() as string;
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const dirent of entries) {
+        if (IGNORED_DIRECTORIES.has(dirent.name)) continue;
+        const fullPath = path.join(dir, dirent.name);
+
+        try {
+          const stats = await fs.lstat(fullPath);
+          tree.set(fullPath, dirent.isDirectory() ? 'dir' : `${stats.mtimeMs}:${stats.size}`);
+        } catch {
+          continue;
+        }
+
+        if (dirent.isDirectory()) {
+          pending.push(fullPath);
+        }
+      }
+    }
+
+    if (tree.size >= MAX_TRACKED_PATHS) {
+      this.logger.warn('RollbackJournal: Directory too large to track fully', { root });
+    }
+
+    return tree;
+  }
+
+  /**
+   * Drop paths whose parent directory is itself new, so a created
+   * directory is removed as one unit
+   */
+  private topLevelPaths(paths: string[]): string[] {
+    const created = new Set(paths);
+    return paths
+      .filter(p => !created.has(path.dirname(p)))
+      .sort();
+  }
+}
@@ -1,22 +1,95 @@
-
 /**
  * Security sandbox for safe execution of tasks
  * Prevents malicious code execution and resource abuse
  */
 
 import { Logger } from '@/src/lib/logging/Logger';
+import { spawn, execFile, ChildProcess } from 'child_process';
+import * as path from 'path';
+
+export type SandboxErrorCode =
+  | 'SANDBOX_TIMEOUT'
+  | 'SANDBOX_MEMORY_LIMIT'
+  | 'SANDBOX_CPU_LIMIT'
+  | 'SANDBOX_WORKDIR_VIOLATION'
+  | 'SANDBOX_SPAWN_FAILED'
+  | 'SANDBOX_NONZERO_EXIT'
+  | 'SANDBOX_CANCELLED';
+
+export class SandboxError extends Error {
+  constructor(
+    message: string,
+    public code: SandboxErrorCode,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+export interface SandboxLimits {
+  maxMemoryMB: number;
+  maxCpuTimeMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Serializable description of work that runs in its own process.
+ * `command` is a shell command line for `kind: 'command'` and a
+ * script source for `kind: 'node'`.
+ */
+export interface IsolatedTaskSpec {
+  kind: 'command' | 'node';
+  command: string;
+  args?: string[];
+  cwd?: string;
+  stdin?: string;
+}
+
+export interface IsolationOptions {
+  workingDirectory: string;
+  environment: Record<string, string>;
+  limits?: Partial<SandboxLimits>;
+  // Aborting kills the task's process group
+  signal?: AbortSignal;
+}
+
+export interface IsolatedTaskResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  cpuTimeMs: number;
+  peakMemoryMB: number;
+}
+
+interface ProcessGroupUsage {
+  rssMB: number;
+  cpuTimeMs: number;
+}
+
+const DEFAULT_LIMITS: SandboxLimits = {
+  maxMemoryMB: 512,
+  maxCpuTimeMs: 60000,
+  timeoutMs: 300000
+};
+
+const SAMPLE_INTERVAL_MS = 250;
+const MAX_CAPTURED_OUTPUT = 1024 * 1024;
 
 export class SecuritySandbox {
   private readonly logger: Logger;
-  private readonly maxMemoryMB: number = 512;
-  // private readonly maxCpuPercent: number = 80; // Commented out for future use
+  private readonly limits: SandboxLimits;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, limits?: Partial<SandboxLimits>) {
     this.logger = logger;
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
   }
 
   /**
-   * Execute a function in a sandboxed environment with resource limits
+   * Execute a function in-process with a wall-clock timeout.
+   * Only suitable for trusted orchestration steps; untrusted work
+   * must go through executeIsolated.
    */
   async executeSecurely<T>(
     fn: (context?: any) => Promise<T>,
@@ -24,50 +97,305 @@ export class SecuritySandbox {
   ): Promise<T> {
     this.logger.debug('SecuritySandbox: Executing function securely', { timeoutMs });
 
-    // Create a promise that rejects after timeout
+    let timer: NodeJS.Timeout | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Execution timeout after ${timeoutMs}ms`));
+      timer = setTimeout(() => {
+        reject(new SandboxError(`Execution timeout after ${timeoutMs}ms`, 'SANDBOX_TIMEOUT', { timeoutMs }));
       }, timeoutMs);
     });
 
     try {
-      // Race between execution and timeout
-      const result = await Promise.race([
-        this.wrapWithResourceLimits(fn),
-        timeoutPromise
-      ]);
+      const result = await Promise.race([fn({}), timeoutPromise]);
 
       this.logger.debug('SecuritySandbox: Execution completed successfully');
       return result;
     } catch (error: any) {
       this.logger.error('SecuritySandbox: Execution failed', error as Error);
       throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private async wrapWithResourceLimits<T>(fn: (context?: any) => Promise<T>): Promise<T> {
-    // In a real implementation, this would:
-    // 1. Create a separate process or worker
-    // 2. Set resource limits (memory, CPU, file access)
-    // 3. Monitor resource usage
-    // 4. Kill process if limits exceeded
+  /**
+   * Run a task in a separate process with enforced memory, CPU-time and
+   * wall-clock ceilings. The process only sees the allow-listed
+   * environment and cannot start outside the working directory.
+   */
+  async executeIsolated(
+    spec: IsolatedTaskSpec,
+    options: IsolationOptions
+  ): Promise<IsolatedTaskResult> {
+    const limits: SandboxLimits = { ...this.limits, ...options.limits };
+    const cwd = this.resolveWorkingDirectory(options.workingDirectory, spec.cwd);
+    const env = this.buildEnvironment(spec, options.environment);
 
-    // For now, we'll just execute with basic error handling
-    try {
-      const startMemory = process.memoryUsage();
-      const result = await fn({});
-      const endMemory = process.memoryUsage();
-
-      // Check memory usage
-      const memoryUsedMB = (endMemory.heapUsed - startMemory.heapUsed) / 1024 / 1024;
-      if (memoryUsedMB > this.maxMemoryMB) {
-        throw new Error(`Memory limit exceeded: ${memoryUsedMB}MB > ${this.maxMemoryMB}MB`);
+    if (options.signal?.aborted) {
+      throw new SandboxError('Isolated task cancelled before it started', 'SANDBOX_CANCELLED');
+    }
+
+    this.logger.debug('SecuritySandbox: Spawning isolated task', {
+      kind: spec.kind,
+      cwd,
+      limits
+    });
+
+    const child = this.spawnTask(spec, cwd, env, limits);
+    return this.superviseProcess(child, spec, limits, options.signal);
+  }
+
+  private resolveWorkingDirectory(workingDirectory: string, requested?: string): string {
+    const root = path.resolve(workingDirectory);
+    const cwd = requested ? path.resolve(root, requested) : root;
+    const relative = path.relative(root, cwd);
+
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new SandboxError(
+        `Working directory ${cwd} is outside the sandbox root ${root}`,
+        'SANDBOX_WORKDIR_VIOLATION',
+        { root, requested: cwd }
+      );
+    }
+
+    return cwd;
+  }
+
+  /**
+   * Only variables listed in the execution context reach the child.
+   * PATH is inherited when the context does not provide one so that
+   * commands can still be resolved.
+   */
+  private buildEnvironment(
+    spec: IsolatedTaskSpec,
+    allowed: Record<string, string>
+  ): NodeJS.ProcessEnv {
+    const env = { ...allowed } as NodeJS.ProcessEnv;
+
+    if (!env['PATH'] && process.env['PATH']) {
+      env['PATH'] = process.env['PATH'];
+    }
+
+    if (spec.kind === 'node') {
+      // process.execPath is the Electron binary inside the packaged app
+      env['ELECTRON_RUN_AS_NODE'] = '1';
+    }
+
+    return env;
+  }
+
+  private spawnTask(
+    spec: IsolatedTaskSpec,
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    limits: SandboxLimits
+  ): ChildProcess {
+    const detached = process.platform !== 'win32';
+
+    if (spec.kind === 'node') {
+      return spawn(
+        process.execPath,
+        [`--max-old-space-size=${limits.maxMemoryMB}`, '-e', spec.command, ...(spec.args || [])],
+        { cwd, env, detached, stdio: 'pipe' }
+      );
+    }
+
+    if (spec.args) {
+      return spawn(spec.command, spec.args, { cwd, env, detached, stdio: 'pipe' });
+    }
+
+    return spawn(spec.command, { cwd, env, detached, stdio: 'pipe', shell: true });
+  }
+
+  private superviseProcess(
+    child: ChildProcess,
+    spec: IsolatedTaskSpec,
+    limits: SandboxLimits,
+    signal?: AbortSignal
+  ): Promise<IsolatedTaskResult> {
+    const startTime = Date.now();
+
+    return new Promise((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let peakMemoryMB = 0;
+      let cpuTimeMs = 0;
+      let violation: SandboxError | undefined;
+      let sampling = false;
+
+      const terminate = (error: SandboxError) => {
+        if (violation) return;
+        violation = error;
+        this.logger.warn(error.code === 'SANDBOX_CANCELLED'
+          ? 'SecuritySandbox: Task cancelled, killing task'
+          : 'SecuritySandbox: Limit breached, killing task', {
+          code: error.code,
+          pid: child.pid
+        });
+        this.killProcessGroup(child);
+      };
+
+      const timeoutTimer = setTimeout(() => {
+        terminate(new SandboxError(
+          `Task exceeded wall-clock limit of ${limits.timeoutMs}ms`,
+          'SANDBOX_TIMEOUT',
+          { timeoutMs: limits.timeoutMs }
+        ));
+      }, limits.timeoutMs);
+
+      const sampleTimer = setInterval(() => {
+        if (sampling || child.pid === undefined || process.platform === 'win32') return;
+        sampling = true;
+
+        this.sampleProcessGroup(child.pid)
+          .then(usage => {
+            if (!usage) return;
+            peakMemoryMB = Math.max(peakMemoryMB, usage.rssMB);
+            cpuTimeMs = Math.max(cpuTimeMs, usage.cpuTimeMs);
+
+            if (usage.rssMB > limits.maxMemoryMB) {
+              terminate(new SandboxError(
+                `Memory limit exceeded: ${usage.rssMB.toFixed(1)}MB > ${limits.maxMemoryMB}MB`,
+                'SANDBOX_MEMORY_LIMIT',
+                { usedMB: usage.rssMB, limitMB: limits.maxMemoryMB }
+              ));
+            } else if (usage.cpuTimeMs > limits.maxCpuTimeMs) {
+              terminate(new SandboxError(
+                `CPU time limit exceeded: ${usage.cpuTimeMs}ms > ${limits.maxCpuTimeMs}ms`,
+                'SANDBOX_CPU_LIMIT',
+                { usedMs: usage.cpuTimeMs, limitMs: limits.maxCpuTimeMs }
+              ));
+            }
+          })
+          .catch(error => {
+            this.logger.debug('SecuritySandbox: Resource sampling failed', {
+              error: (error as Error).message
+            });
+          })
+          .finally(() => {
+            sampling = false;
+          });
+      }, SAMPLE_INTERVAL_MS);
+
+      const cancel = () => {
+        terminate(new SandboxError('Isolated task cancelled', 'SANDBOX_CANCELLED'));
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+
+      const cleanup = () => {
+        clearTimeout(timeoutTimer);
+        clearInterval(sampleTimer);
+        signal?.removeEventListener('abort', cancel);
+      };
+
+      child.stdout?.on('data', (data: Buffer) => {
+        if (stdout.length < MAX_CAPTURED_OUTPUT) stdout += data.toString();
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        if (stderr.length < MAX_CAPTURED_OUTPUT) stderr += data.toString();
+      });
+
+      child.on('error', (error: Error) => {
+        cleanup();
+        reject(new SandboxError(
+          `Failed to start isolated task: ${error.message}`,
+          'SANDBOX_SPAWN_FAILED'
+        ));
+      });
+
+      child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+        cleanup();
+        const durationMs = Date.now() - startTime;
+
+        if (violation) {
+          reject(violation);
+          return;
+        }
+
+        if (signal === 'SIGXCPU') {
+          reject(new SandboxError('CPU time limit exceeded', 'SANDBOX_CPU_LIMIT', { signal }));
+          return;
+        }
+
+        if (/heap out of memory|ERR_WORKER_OUT_OF_MEMORY/i.test(stderr)) {
+          reject(new SandboxError(
+            `Memory limit of ${limits.maxMemoryMB}MB exceeded`,
+            'SANDBOX_MEMORY_LIMIT',
+            { limitMB: limits.maxMemoryMB }
+          ));
+          return;
+        }
+
+        if (code !== 0) {
+          reject(new SandboxError(
+            `Isolated ${spec.kind} exited with ${signal ? `signal ${signal}` : `code ${code}`}: ${stderr.trim()}`,
+            'SANDBOX_NONZERO_EXIT',
+            { exitCode: code, signal, stdout, stderr }
+          ));
+          return;
+        }
+
+        resolve({ exitCode: 0, stdout, stderr, durationMs, cpuTimeMs, peakMemoryMB });
+      });
+
+      if (spec.stdin !== undefined) {
+        child.stdin?.end(spec.stdin);
+      } else {
+        child.stdin?.end();
       }
+    });
+  }
 
-      return result;
-    } catch (error: any) {
-      throw error;
+  /**
+   * Sum resident memory and CPU time over the task's process group so
+   * that grandchildren (npm scripts, test runners) count toward limits.
+   */
+  private sampleProcessGroup(pgid: number): Promise<ProcessGroupUsage | null> {
+    return new Promise((resolve, reject) => {
+      execFile('ps', ['-A', '-o', 'pgid=,rss=,time='], (error, output) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        let rssKB = 0;
+        let cpuTimeMs = 0;
+        let found = false;
+
+        for (const line of output.split('\n')) {
+          const [group, rss, time] = line.trim().split(/\s+/);
+          if (!group || !rss || !time || parseInt(group, 10) !== pgid) continue;
+          found = true;
+          rssKB += parseInt(rss, 10) || 0;
+          cpuTimeMs += this.parseCpuTime(time);
+        }
+
+        resolve(found ? { rssMB: rssKB / 1024, cpuTimeMs } : null);
+      });
+    });
+  }
+
+  /**
+   * Parse ps TIME values: "[DD-]HH:MM:SS" on Linux, "M:SS.ss" on macOS
+   */
+  private parseCpuTime(value: string): number {
+    const [dayPart, clockPart] = value.includes('-') ? value.split('-') : ['0', value];
+    const seconds = (clockPart || '')
+      .split(':')
+      .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+
+    return Math.round((parseInt(dayPart || '0', 10) * 86400 + seconds) * 1000);
+  }
+
+  private killProcessGroup(child: ChildProcess): void {
+    try {
+      if (child.pid !== undefined && process.platform !== 'win32') {
+        process.kill(-child.pid, 'SIGKILL');
+      } else {
+        child.kill('SIGKILL');
+      }
+    } catch {
+      child.kill('SIGKILL');
     }
   }
 
@@ -95,4 +423,4 @@ export class SecuritySandbox {
 
     return true;
   }
-}
\ No newline at end of file
+}
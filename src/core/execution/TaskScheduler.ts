@@ -0,0 +1,183 @@
+/**
+ * @actor execution
+ * @responsibility Runs execution tasks as a dependency graph with bounded concurrency
+ * @forbidden Cannot reorder work beyond what declared dependencies allow
+ */
+
+import * as path from 'path';
+
+export interface SchedulableTask {
+  id: string;
+  // IDs of tasks that must complete first
+  dependsOn?: string[];
+  // Paths the task may write; tasks with overlapping paths never run together
+  writes?: string[];
+}
+
+export type SchedulerErrorCode = 'UNKNOWN_DEPENDENCY' | 'DEPENDENCY_CYCLE';
+
+export class SchedulerError extends Error {
+  constructor(message: string, public code: SchedulerErrorCode) {
+    super(message);
+    this.name = 'SchedulerError';
+  }
+}
+
+export interface ScheduleReport {
+  completed: string[];
+  failed: string[];
+  // Never started because a task failed or the run was stopped
+  skipped: string[];
+  // Pairs of tasks that were ready together but serialized over shared paths
+  serialized: Array<{ task: string; waitedFor: string; path: string }>;
+}
+
+export class TaskScheduler<T extends SchedulableTask> {
+  private readonly tasks: T[];
+  private readonly concurrency: number;
+
+  constructor(tasks: T[], concurrency: number) {
+    this.tasks = tasks;
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.validate();
+  }
+
+  /**
+   * First dependency cycle among the nodes, as a path of IDs that starts
+   * and ends on the same node, or undefined when the graph is acyclic
+   */
+  static findCycle(nodes: Array<{ id: string; dependsOn?: string[] }>): string[] | undefined {
+    const edges = new Map(nodes.map(node => [node.id, node.dependsOn ?? []]));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string): string[] | undefined => {
+      if (state.get(id) === 'done') return undefined;
+      if (state.get(id) === 'visiting') {
+        return [...stack.slice(stack.indexOf(id)), id];
+      }
+
+      state.set(id, 'visiting');
+      stack.push(id);
+      for (const dependency of edges.get(id) ?? []) {
+        const cycle = visit(dependency);
+        if (cycle) return cycle;
+      }
+      stack.pop();
+      state.set(id, 'done');
+      return undefined;
+    };
+
+    for (const node of nodes) {
+      const cycle = visit(node.id);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  }
+
+  /**
+   * Run every task whose dependencies completed, up to the concurrency
+   * width. The first failure, or shouldStop returning true, stops new
+   * tasks from starting; tasks already running are awaited.
+   */
+  async run(
+    execute: (task: T) => Promise<void>,
+    shouldStop: () => boolean = () => false
+  ): Promise<ScheduleReport> {
+    const report: ScheduleReport = { completed: [], failed: [], skipped: [], serialized: [] };
+    const pending = [...this.tasks];
+    const running = new Map<string, { task: T; done: Promise<void> }>();
+    const completed = new Set<string>();
+    const reported = new Set<string>();
+    let halted = false;
+
+    const launch = (task: T) => {
+      const done = execute(task).then(
+        () => {
+          completed.add(task.id);
+          report.completed.push(task.id);
+        },
+        () => {
+          report.failed.push(task.id);
+          halted = true;
+        }
+      ).finally(() => running.delete(task.id));
+      running.set(task.id, { task, done });
+    };
+
+    while (pending.length > 0 || running.size > 0) {
+      if (!halted && shouldStop()) {
+        halted = true;
+      }
+
+      if (!halted) {
+        for (const task of [...pending]) {
+          if (running.size >= this.concurrency) break;
+          if (!(task.dependsOn ?? []).every(id => completed.has(id))) continue;
+
+          const blocker = this.findWriteConflict(task, Array.from(running.values()).map(r => r.task));
+          if (blocker) {
+            const key = `${task.id}:${blocker.task.id}`;
+            if (!reported.has(key)) {
+              reported.add(key);
+              report.serialized.push({ task: task.id, waitedFor: blocker.task.id, path: blocker.path });
+            }
+            continue;
+          }
+
+          pending.splice(pending.indexOf(task), 1);
+          launch(task);
+        }
+      }
+
+      if (running.size === 0) {
+        // Nothing can start: either halted or every remaining task waits on a failure
+        break;
+      }
+
+      await Promise.race(Array.from(running.values()).map(r => r.done));
+    }
+
+    report.skipped = pending.map(task => task.id);
+    return report;
+  }
+
+  private validate(): void {
+    const ids = new Set(this.tasks.map(task => task.id));
+    for (const task of this.tasks) {
+      const missing = (task.dependsOn ?? []).find(id => !ids.has(id));
+      if (missing) {
+        throw new SchedulerError(`Task ${task.id} depends on unknown task ${missing}`, 'UNKNOWN_DEPENDENCY');
+      }
+    }
+
+    const cycle = TaskScheduler.findCycle(this.tasks);
+    if (cycle) {
+      throw new SchedulerError(`Task dependency cycle: ${cycle.join(' -> ')}`, 'DEPENDENCY_CYCLE');
+    }
+  }
+
+  private findWriteConflict(task: T, running: T[]): { task: T; path: string } | undefined {
+    for (const other of running) {
+      for (const mine of task.writes ?? []) {
+        for (const theirs of other.writes ?? []) {
+          if (this.overlaps(mine, theirs)) {
+            return { task: other, path: mine };
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Same path, or one is a directory containing the other
+   */
+  private overlaps(a: string, b: string): boolean {
+    const left = path.resolve(a);
+    const right = path.resolve(b);
+    return left === right ||
+      left.startsWith(right + path.sep) ||
+      right.startsWith(left + path.sep);
+  }
+}
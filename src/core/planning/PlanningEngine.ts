@@ -13,14 +13,20 @@ import {
   InstructionRequirement,
   InstructionDeliverable,
   InstructionConstraints,
-  SuccessCriterion
+  SuccessCriterion,
+  CURRENT_PROTOCOL_VERSION
 } from '@/src/models/Instruction';
 import { Logger } from '@/src/lib/logging/Logger';
 import { ProtocolValidator } from '@/src/core/protocol/ProtocolValidator';
 import { ClaudeAPIClient } from '@/src/lib/api/ClaudeAPIClient';
+import { StreamCancelledError, StreamOptions } from '@/src/lib/api/MessageStream';
+import { parsePartialJson } from '@/src/lib/api/PartialJson';
+import { isLLMProvider, LLMProvider } from '@/src/lib/api/providers/LLMProvider';
 import { PatternRecognitionService } from '@/src/services/intelligence/PatternRecognitionService';
 import { ProjectContextService } from '@/src/services/intelligence/ProjectContextService';
 import { BaseProjectContext } from '@/src/models/ProjectContext';
+import { MCPClientManager } from '@/src/services/mcp/client/MCPClientManager';
+import { MCPToolCallResult } from '@/src/services/mcp/client/types';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface UserRequest {
@@ -31,6 +37,12 @@ export interface UserRequest {
   timestamp: string;
 }
 
+export interface PlanningStream extends StreamOptions {
+  // Called as the streamed instruction JSON grows; only fully received
+  // items are present, so lists such as objectives fill in one at a time
+  onPartialInstructions?: (partial: Partial<InstructionProtocol>) => void;
+}
+
 export interface PlanningStrategy {
   approach: string;
   rationale: string;
@@ -46,19 +58,26 @@ export class PlanningEngine {
   private readonly contextService: ProjectContextService;
   private readonly useRealApi: boolean;
   private readonly systemPrompt: string;
+  private readonly mcpClients?: MCPClientManager;
 
   constructor(
     logger: Logger, 
     validator: ProtocolValidator,
-    claudeApi?: ClaudeAPIClient,
-    patternService?: PatternRecognitionService
+    // A bare provider is wrapped in a client with the planning prompts
+    claudeApi?: ClaudeAPIClient | LLMProvider,
+    patternService?: PatternRecognitionService,
+    // External MCP tools; planning may only call the read-only ones
+    mcpClients?: MCPClientManager
   ) {
     this.logger = logger;
     this.validator = validator;
-    this.claudeApi = claudeApi;
+    this.claudeApi = isLLMProvider(claudeApi)
+      ? new ClaudeAPIClient({ apiKey: '', provider: claudeApi }, logger)
+      : claudeApi;
     this.patternService = patternService || new PatternRecognitionService();
     this.contextService = ProjectContextService.getInstance();
     this.useRealApi = !!claudeApi;
+    this.mcpClients = mcpClients;
     this.systemPrompt = this.buildSystemPrompt();
   }
 
@@ -89,9 +108,10 @@ REMEMBER:
 
 INSTRUCTION FORMAT:
 - Objectives: What should exist when complete
-- Requirements: What the solution must do
+- Requirements: What the solution must do (list dependsOn with the IDs of requirements that must be done first, so independent ones can run in parallel)
 - Validation: How to verify success
 - Constraints: What limitations exist
+- Tools: When request.availableTools lists an external tool that fulfils a requirement, set the requirement's tool to its name and arguments
 
 The Execution Actor will receive your instructions and implement them perfectly.`;
   }
@@ -100,7 +120,7 @@ The Execution Actor will receive your instructions and implement them perfectly.
    * Main entry point for generating instructions from user requests
    * This method ONLY creates instructions, never executes anything
    */
-  async generateInstructions(request: UserRequest): Promise<InstructionProtocol> {
+  async generateInstructions(request: UserRequest, stream?: PlanningStream): Promise<InstructionProtocol> {
     this.logger.info('PlanningEngine: Generating instructions', { 
       requestId: request.id,
       useRealApi: this.useRealApi 
@@ -131,7 +151,7 @@ The Execution Actor will receive your instructions and implement them perfectly.
 
       if (this.useRealApi && this.claudeApi) {
         // Use real Claude API with pattern context
-        instructions = await this.generateWithClaudeAPI(request, patternSuggestions);
+        instructions = await this.generateWithClaudeAPI(request, patternSuggestions, stream);
       } else {
         // Use mock implementation with pattern enhancements
         const context = await this.analyzeContext(request, patternSuggestions);
@@ -139,6 +159,12 @@ The Execution Actor will receive your instructions and implement them perfectly.
         instructions = await this.buildInstructions(request, context, strategy, patternSuggestions);
       }
       
+      // Project vocabulary may look like code; it is listed in the project's config
+      const projectPath = request.context?.['projectPath'];
+      if (instructions.metadata.projectId && typeof projectPath === 'string') {
+        await this.validator.loadTerminologyAllowlist(instructions.metadata.projectId, projectPath);
+      }
+
       // Validate instructions contain no code
       this.validator.ensureNoCode(instructions);
       
@@ -189,7 +215,11 @@ The Execution Actor will receive your instructions and implement them perfectly.
     }
   }
 
-  private async generateWithClaudeAPI(request: UserRequest, patternSuggestions: any[]): Promise<InstructionProtocol> {
+  private async generateWithClaudeAPI(
+    request: UserRequest,
+    patternSuggestions: any[],
+    stream?: PlanningStream
+  ): Promise<InstructionProtocol> {
     if (!this.claudeApi) {
       throw new Error('Claude API client not configured');
     }
@@ -210,9 +240,11 @@ The Execution Actor will receive your instructions and implement them perfectly.
             relevance: s.relevanceScore,
             reason: s.reason,
             strategy: s.applicationStrategy
-          }))
+          })),
+          availableTools: this.describeAvailableTools()
         },
-        context
+        context,
+        stream: stream && this.streamPartialInstructions(stream)
       });
 
       // If Claude returns a complete instruction protocol, use it
@@ -230,6 +262,9 @@ The Execution Actor will receive your instructions and implement them perfectly.
 
       return this.buildInstructions(request, context, strategy, patternSuggestions);
     } catch (error: any) {
+      if (error instanceof StreamCancelledError) {
+        throw error;
+      }
       this.logger.error('Claude API call failed', error as Error);
       
       // Fall back to pattern-enhanced local generation
@@ -239,15 +274,57 @@ The Execution Actor will receive your instructions and implement them perfectly.
     }
   }
 
-  private isValidInstructionProtocol(obj: any): boolean {
-    return obj &&
-      obj.metadata &&
-      obj.context &&
-      obj.objectives &&
-      obj.requirements &&
-      obj.deliverables &&
-      obj.constraints &&
-      obj.successCriteria;
+  /**
+   * Call a read-only external tool to inform planning, e.g. to look up
+   * existing issues. Mutating tools are refused for the planning role.
+   */
+  async queryTool(name: string, args: Record<string, any>, sessionId: string): Promise<MCPToolCallResult> {
+    if (!this.mcpClients) {
+      throw new Error('No MCP servers configured');
+    }
+    return this.mcpClients.callTool('planning', name, args, { sessionId });
+  }
+
+  /**
+   * Tools the Execution Actor can be instructed to call, for the prompt
+   */
+  private describeAvailableTools(): Array<Record<string, any>> {
+    return (this.mcpClients?.listTools('execution') ?? []).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      readOnly: tool.access === 'read'
+    }));
+  }
+
+  /**
+   * Wrap stream callbacks so the partial instruction JSON is re-parsed
+   * whenever an object or list item may have completed
+   */
+  private streamPartialInstructions(stream: PlanningStream): StreamOptions {
+    const onPartial = stream.onPartialInstructions;
+    return {
+      signal: stream.signal,
+      onText: (delta, text) => {
+        stream.onText?.(delta, text);
+        if (!onPartial || !/[}\]]/.test(delta)) return;
+
+        const partial = parsePartialJson(text);
+        if (partial && typeof partial === 'object' && !Array.isArray(partial)) {
+          onPartial(partial as Partial<InstructionProtocol>);
+        }
+      }
+    };
+  }
+
+  private isValidInstructionProtocol(obj: unknown): obj is InstructionProtocol {
+    const issues = this.validator.checkSchema(obj);
+    if (issues.length > 0) {
+      this.logger.debug('Claude response is not a complete instruction protocol', {
+        issues: issues.slice(0, 5)
+      });
+    }
+    return issues.length === 0;
   }
 
   private async analyzeContext(request: UserRequest, patternSuggestions: any[]): Promise<InstructionContext> {
@@ -400,8 +477,9 @@ The Execution Actor will receive your instructions and implement them perfectly.
       sessionId: request.sessionId || uuidv4(),
       sessionName: this.extractSessionName(request),
       timestamp: new Date().toISOString(),
-      version: '1.0',
-      actor: 'planning'
+      version: CURRENT_PROTOCOL_VERSION,
+      actor: 'planning',
+      projectId: request.context?.['projectId']
     };
   }
 
@@ -0,0 +1,397 @@
+/**
+ * @actor system
+ * @responsibility Scores how likely a piece of instruction text is source code
+ * @forbidden Cannot reject instructions itself; ProtocolValidator decides
+ */
+
+import * as ts from 'typescript';
+
+export type CodeLanguage = 'typescript' | 'markup' | 'python' | 'sql' | 'shell';
+
+export interface CodeSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CodeDetection {
+  isCode: boolean;
+  // 0..1, combined from every signal found on the strongest line
+  confidence: number;
+  language?: CodeLanguage;
+  reasons: string[];
+  span?: CodeSpan;
+}
+
+interface Signal {
+  confidence: number;
+  reason: string;
+  start: number;
+  end: number;
+}
+
+interface HeuristicRule {
+  pattern: RegExp;
+  confidence: number;
+  reason: string;
+}
+
+interface ScannedToken {
+  kind: ts.SyntaxKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_CODE_THRESHOLD = 0.7;
+
+const DECLARATION_KEYWORDS = new Set([
+  ts.SyntaxKind.ConstKeyword,
+  ts.SyntaxKind.LetKeyword,
+  ts.SyntaxKind.VarKeyword
+]);
+
+const TYPE_DECLARATION_KEYWORDS = new Set([
+  ts.SyntaxKind.ClassKeyword,
+  ts.SyntaxKind.InterfaceKeyword,
+  ts.SyntaxKind.EnumKeyword
+]);
+
+const CONTROL_KEYWORDS = new Set([
+  ts.SyntaxKind.IfKeyword,
+  ts.SyntaxKind.ForKeyword,
+  ts.SyntaxKind.WhileKeyword,
+  ts.SyntaxKind.SwitchKeyword,
+  ts.SyntaxKind.CatchKeyword
+]);
+
+const EXPORTABLE_KEYWORDS = new Set([
+  ts.SyntaxKind.DefaultKeyword,
+  ts.SyntaxKind.ConstKeyword,
+  ts.SyntaxKind.LetKeyword,
+  ts.SyntaxKind.FunctionKeyword,
+  ts.SyntaxKind.ClassKeyword,
+  ts.SyntaxKind.InterfaceKeyword,
+  ts.SyntaxKind.TypeKeyword,
+  ts.SyntaxKind.EnumKeyword,
+  ts.SyntaxKind.AsyncKeyword,
+  ts.SyntaxKind.OpenBraceToken,
+  ts.SyntaxKind.AsteriskToken
+]);
+
+const COMPARISON_OPERATORS = new Set([
+  ts.SyntaxKind.EqualsEqualsEqualsToken,
+  ts.SyntaxKind.ExclamationEqualsEqualsToken,
+  ts.SyntaxKind.PlusEqualsToken,
+  ts.SyntaxKind.MinusEqualsToken,
+  ts.SyntaxKind.AsteriskEqualsToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.QuestionQuestionToken
+]);
+
+const CODE_PUNCTUATION = new Set([
+  ts.SyntaxKind.OpenBraceToken,
+  ts.SyntaxKind.CloseBraceToken,
+  ts.SyntaxKind.OpenParenToken,
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.OpenBracketToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.SemicolonToken,
+  ts.SyntaxKind.EqualsToken,
+  ts.SyntaxKind.EqualsGreaterThanToken,
+  ts.SyntaxKind.DotToken,
+  ...COMPARISON_OPERATORS
+]);
+
+const MARKUP_RULES: HeuristicRule[] = [
+  { pattern: /<[A-Za-z][\w.]*(\s+[\w-]+=(\{[^}]*\}|"[^"]*"|'[^']*'))+\s*\/?>/, confidence: 0.85, reason: 'element with attributes' },
+  { pattern: /<([A-Za-z][\w.]*)[^<>]*>[^<]*<\/\1>/, confidence: 0.8, reason: 'paired element tags' },
+  { pattern: /<[A-Za-z][\w.]*\s*\/>/, confidence: 0.6, reason: 'self-closing element' }
+];
+
+const PYTHON_RULES: HeuristicRule[] = [
+  { pattern: /^\s*(async\s+)?def\s+\w+\s*\([^)]*\)\s*(->\s*[^:]+)?:/, confidence: 0.95, reason: 'def statement' },
+  { pattern: /^\s*class\s+\w+\s*(\([^)]*\))?\s*:\s*$/, confidence: 0.9, reason: 'class statement' },
+  { pattern: /^\s*from\s+[\w.]+\s+import\s+[\w*, ()]+$/, confidence: 0.9, reason: 'from-import' },
+  { pattern: /^\s*import\s+[\w.]+(\s+as\s+\w+)?\s*$/, confidence: 0.5, reason: 'module import' },
+  { pattern: /^\s*for\s+\w+(\s*,\s*\w+)*\s+in\s+.+:\s*$/, confidence: 0.85, reason: 'for-in loop' },
+  { pattern: /^\s*(if|elif|while|with)\s+.+:\s*$/, confidence: 0.55, reason: 'block statement' },
+  { pattern: /^\s*(try|finally|else|except(\s+\w+(\s+as\s+\w+)?)?)\s*:\s*$/, confidence: 0.8, reason: 'exception block' },
+  { pattern: /\blambda\s+[\w, ]*:/, confidence: 0.8, reason: 'lambda' },
+  { pattern: /\bself\.\w+/, confidence: 0.6, reason: 'self attribute access' },
+  { pattern: /\bprint\s*\(/, confidence: 0.5, reason: 'print call' },
+  { pattern: /\bif\s+__name__\s*==\s*['"]__main__['"]/, confidence: 0.99, reason: 'main guard' }
+];
+
+const SQL_RULES: HeuristicRule[] = [
+  { pattern: /\bSELECT\s+(DISTINCT\s+)?[\w.*]+(\s*,\s*[\w.*]+)*\s+FROM\s+\w+/, confidence: 0.85, reason: 'SELECT statement' },
+  { pattern: /\bselect\s+\*\s+from\s+\w+/i, confidence: 0.9, reason: 'SELECT * statement' },
+  { pattern: /\bINSERT\s+INTO\s+\w+\s*(\(|VALUES\b)/i, confidence: 0.9, reason: 'INSERT statement' },
+  { pattern: /\bUPDATE\s+\w+\s+SET\s+\w+\s*=/i, confidence: 0.9, reason: 'UPDATE statement' },
+  { pattern: /\bDELETE\s+FROM\s+\w+\s*(WHERE\b|;|$)/i, confidence: 0.85, reason: 'DELETE statement' },
+  { pattern: /\b(CREATE|ALTER|DROP)\s+(TABLE|INDEX|VIEW)\s+(IF\s+(NOT\s+)?EXISTS\s+)?\w+/, confidence: 0.9, reason: 'DDL statement' },
+  { pattern: /\bcreate\s+table\s+\w+\s*\(/i, confidence: 0.9, reason: 'CREATE TABLE definition' },
+  { pattern: /\bJOIN\s+\w+(\s+\w+)?\s+ON\s+\w+\.\w+\s*=/i, confidence: 0.85, reason: 'JOIN clause' },
+  { pattern: /\bWHERE\s+\w+(\.\w+)?\s*(=|<>|!=|LIKE|IN)\s*/, confidence: 0.6, reason: 'WHERE clause' }
+];
+
+const SHELL_RULES: HeuristicRule[] = [
+  { pattern: /^\s*\$\s+\S+/, confidence: 0.85, reason: 'shell prompt' },
+  { pattern: /\b(npm|yarn|pnpm)\s+(install|i|add|run|exec)\b(\s+-{1,2}[\w-]+)*\s+\S+/, confidence: 0.85, reason: 'package manager command' },
+  { pattern: /\bpip3?\s+install\s+\S+/, confidence: 0.85, reason: 'pip install' },
+  { pattern: /\bgit\s+(clone|init|add|commit|push|pull|checkout|rebase)\b\s+\S+/, confidence: 0.7, reason: 'git command' },
+  { pattern: /\bmkdir\s+-p\s+\S+/, confidence: 0.9, reason: 'mkdir -p' },
+  { pattern: /\bcat\s*>{1,2}\s*[\w/.-]+\s*<<-?\s*['"]?\w+/, confidence: 0.95, reason: 'heredoc' },
+  { pattern: /\|\s*(grep|awk|sed|xargs|sort|uniq|head|tail|wc)\b/, confidence: 0.8, reason: 'pipeline' },
+  { pattern: /\b(sudo|chmod|chown)\s+(-\w+\s+)?[+\w]/, confidence: 0.75, reason: 'privileged command' },
+  { pattern: /(^|\s)export\s+[A-Z_][A-Z0-9_]*=/, confidence: 0.85, reason: 'environment export' },
+  { pattern: /\b[\w.-]+(\s+-{1,2}[\w-]+)+\s*(&&|\|\|)\s*\w+/, confidence: 0.8, reason: 'chained commands' },
+  { pattern: /\bcurl\s+(-{1,2}[\w-]+\s+)*['"]?https?:\/\//, confidence: 0.85, reason: 'curl request' }
+];
+
+const FENCED_BLOCK = /(```|~~~)([\w+-]*)[^\n]*\n[\s\S]*?\1/;
+
+const FENCE_LANGUAGES: Record<string, CodeLanguage> = {
+  ts: 'typescript', typescript: 'typescript', js: 'typescript', javascript: 'typescript',
+  tsx: 'typescript', jsx: 'typescript', html: 'markup', xml: 'markup',
+  py: 'python', python: 'python', sql: 'sql',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell', console: 'shell'
+};
+
+/**
+ * Classifies instruction text as prose or code. TypeScript and JavaScript
+ * are tokenized with the TypeScript scanner; markup, Python, SQL and shell
+ * use line heuristics. Allowlisted terms are blanked out before scanning
+ * so a project's own vocabulary never counts as code.
+ */
+export class CodeClassifier {
+  private readonly threshold: number;
+
+  constructor(threshold: number = DEFAULT_CODE_THRESHOLD) {
+    this.threshold = threshold;
+  }
+
+  classify(text: string, allowlist: string[] = []): CodeDetection {
+    const masked = this.maskTerms(text, allowlist);
+
+    const fenced = FENCED_BLOCK.exec(masked);
+    if (fenced) {
+      const start = fenced.index;
+      const end = start + fenced[0].length;
+      return {
+        isCode: true,
+        confidence: 0.99,
+        language: FENCE_LANGUAGES[(fenced[2] || '').toLowerCase()],
+        reasons: ['fenced code block'],
+        span: { start, end, text: text.slice(start, end) }
+      };
+    }
+
+    let best: CodeDetection = { isCode: false, confidence: 0, reasons: [] };
+    let offset = 0;
+
+    for (const line of masked.split('\n')) {
+      if (line.trim()) {
+        const candidates: Array<[CodeLanguage, Signal[]]> = [
+          ['typescript', this.scanTypeScript(line)],
+          ['markup', this.applyRules(line, MARKUP_RULES)],
+          ['python', this.applyRules(line, PYTHON_RULES)],
+          ['sql', this.applyRules(line, SQL_RULES)],
+          ['shell', this.applyRules(line, SHELL_RULES)]
+        ];
+
+        for (const [language, signals] of candidates) {
+          const confidence = this.combine(signals);
+          if (confidence > best.confidence) {
+            const start = offset + Math.min(...signals.map(s => s.start));
+            const end = offset + Math.max(...signals.map(s => s.end));
+            best = {
+              isCode: confidence >= this.threshold,
+              confidence,
+              language,
+              reasons: signals.map(s => s.reason),
+              span: { start, end, text: text.slice(start, end) }
+            };
+          }
+        }
+      }
+      offset += line.length + 1;
+    }
+
+    return best;
+  }
+
+  /**
+   * Replace allowlisted terms with spaces, keeping offsets stable so spans
+   * still point into the original text
+   */
+  private maskTerms(text: string, allowlist: string[]): string {
+    return allowlist
+      .filter(term => term.trim().length > 0)
+      .sort((a, b) => b.length - a.length)
+      .reduce((masked, term) => {
+        const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return masked.replace(
+          new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`, 'gi'),
+          match => ' '.repeat(match.length)
+        );
+      }, text);
+  }
+
+  private scanTypeScript(line: string): Signal[] {
+    const tokens = this.tokenize(line);
+    const signals: Signal[] = [];
+    const at = (index: number): ScannedToken | undefined => tokens[index];
+    const kindAt = (index: number): ts.SyntaxKind | undefined => tokens[index]?.kind;
+    const isName = (index: number): boolean => {
+      const kind = kindAt(index);
+      return kind === ts.SyntaxKind.Identifier ||
+        (kind !== undefined && kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword);
+    };
+    const add = (confidence: number, reason: string, from: number, to: number) => {
+      const first = at(from);
+      const last = at(Math.min(to, tokens.length - 1));
+      if (first && last) {
+        signals.push({ confidence, reason, start: first.start, end: last.end });
+      }
+    };
+
+    let memberCalls = 0;
+
+    tokens.forEach((token, i) => {
+      const next = kindAt(i + 1);
+      const afterNext = kindAt(i + 2);
+
+      if (DECLARATION_KEYWORDS.has(token.kind) && next === ts.SyntaxKind.Identifier &&
+          (afterNext === ts.SyntaxKind.EqualsToken || afterNext === ts.SyntaxKind.ColonToken)) {
+        add(0.9, 'variable declaration', i, i + 2);
+      }
+
+      if (token.kind === ts.SyntaxKind.FunctionKeyword &&
+          (next === ts.SyntaxKind.OpenParenToken ||
+            (next === ts.SyntaxKind.Identifier && afterNext === ts.SyntaxKind.OpenParenToken))) {
+        add(0.95, 'function declaration', i, i + 2);
+      }
+
+      if (TYPE_DECLARATION_KEYWORDS.has(token.kind) && next === ts.SyntaxKind.Identifier &&
+          (afterNext === ts.SyntaxKind.OpenBraceToken ||
+            afterNext === ts.SyntaxKind.ExtendsKeyword ||
+            afterNext === ts.SyntaxKind.ImplementsKeyword ||
+            afterNext === ts.SyntaxKind.LessThanToken)) {
+        add(0.9, 'type declaration', i, i + 2);
+      }
+
+      if (token.kind === ts.SyntaxKind.TypeKeyword && next === ts.SyntaxKind.Identifier &&
+          afterNext === ts.SyntaxKind.EqualsToken) {
+        add(0.85, 'type alias', i, i + 2);
+      }
+
+      if (token.kind === ts.SyntaxKind.ImportKeyword) {
+        const fromIndex = tokens.findIndex((t, j) => j > i && t.kind === ts.SyntaxKind.FromKeyword);
+        if (next === ts.SyntaxKind.StringLiteral) {
+          add(0.95, 'import statement', i, i + 1);
+        } else if (fromIndex > i && kindAt(fromIndex + 1) === ts.SyntaxKind.StringLiteral) {
+          add(0.95, 'import statement', i, fromIndex + 1);
+        }
+      }
+
+      if (token.kind === ts.SyntaxKind.Identifier && token.text === 'require' &&
+          next === ts.SyntaxKind.OpenParenToken && afterNext === ts.SyntaxKind.StringLiteral) {
+        add(0.9, 'require call', i, i + 3);
+      }
+
+      if (token.kind === ts.SyntaxKind.ExportKeyword && next !== undefined && EXPORTABLE_KEYWORDS.has(next)) {
+        add(0.9, 'export statement', i, i + 1);
+      }
+
+      if (token.kind === ts.SyntaxKind.EqualsGreaterThanToken) {
+        const previous = kindAt(i - 1);
+        if (previous === ts.SyntaxKind.CloseParenToken ||
+            (previous === ts.SyntaxKind.Identifier && next === ts.SyntaxKind.OpenBraceToken)) {
+          add(0.8, 'arrow function', i - 1, i + 1);
+        }
+      }
+
+      if (CONTROL_KEYWORDS.has(token.kind) && next === ts.SyntaxKind.OpenParenToken) {
+        const close = tokens.findIndex((t, j) => j > i && t.kind === ts.SyntaxKind.CloseParenToken);
+        if (close > i && kindAt(close + 1) === ts.SyntaxKind.OpenBraceToken) {
+          add(0.85, 'control statement', i, close + 1);
+        }
+      }
+
+      if (token.kind === ts.SyntaxKind.TryKeyword && next === ts.SyntaxKind.OpenBraceToken) {
+        add(0.85, 'try block', i, i + 1);
+      }
+
+      if (COMPARISON_OPERATORS.has(token.kind) && isName(i - 1)) {
+        add(0.6, 'operator expression', i - 1, i + 1);
+      }
+
+      // obj.method( with no whitespace around the dot; a bare ".save()" in
+      // prose has no receiver and stays a weak signal
+      if (token.kind === ts.SyntaxKind.DotToken && isName(i + 1) &&
+          afterNext === ts.SyntaxKind.OpenParenToken) {
+        const receiver = at(i - 1);
+        if (receiver && receiver.end === token.start &&
+            (isName(i - 1) || receiver.kind === ts.SyntaxKind.CloseParenToken)) {
+          memberCalls++;
+          add(memberCalls > 1 ? 0.75 : 0.55, 'method call', i - 1, i + 2);
+        } else {
+          add(0.25, 'method reference', i, i + 2);
+        }
+      }
+    });
+
+    const punctuation = tokens.filter(t => CODE_PUNCTUATION.has(t.kind)).length;
+    const ratio = tokens.length > 0 ? punctuation / tokens.length : 0;
+    if (tokens.length >= 6 && ratio >= 0.4) {
+      add(Math.min(0.9, 0.45 + ratio / 2), 'symbol density', 0, tokens.length - 1);
+    }
+
+    if (tokens.length > 2 && tokens[tokens.length - 1]?.kind === ts.SyntaxKind.SemicolonToken &&
+        tokens.some(t => t.kind === ts.SyntaxKind.EqualsToken || t.kind === ts.SyntaxKind.OpenParenToken)) {
+      add(0.5, 'statement terminator', 0, tokens.length - 1);
+    }
+
+    return signals;
+  }
+
+  private tokenize(line: string): ScannedToken[] {
+    const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, line);
+    const tokens: ScannedToken[] = [];
+
+    for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+      tokens.push({
+        kind,
+        text: scanner.getTokenText(),
+        start: scanner.getTokenStart(),
+        end: scanner.getTokenEnd()
+      });
+    }
+
+    return tokens;
+  }
+
+  private applyRules(line: string, rules: HeuristicRule[]): Signal[] {
+    return rules.flatMap(rule => {
+      const match = rule.pattern.exec(line);
+      if (!match) return [];
+      const start = match.index + (match[0].length - match[0].trimStart().length);
+      return [{ confidence: rule.confidence, reason: rule.reason, start, end: match.index + match[0].length }];
+    });
+  }
+
+  /**
+   * Noisy-or over independent signals: several weak hints on one line add
+   * up, while a single weak hint stays below the threshold
+   */
+  private combine(signals: Signal[]): number {
+    const reasons = new Map<string, number>();
+    for (const signal of signals) {
+      reasons.set(signal.reason, Math.max(reasons.get(signal.reason) ?? 0, signal.confidence));
+    }
+
+    const miss = Array.from(reasons.values()).reduce((acc, confidence) => acc * (1 - confidence), 1);
+    return Math.round(Math.min(0.99, 1 - miss) * 100) / 100;
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * @actor system
+ * @responsibility Upgrades stored instruction protocols to the current version
+ * @forbidden Cannot change the meaning of planned work, only its shape
+ */
+
+import { CURRENT_PROTOCOL_VERSION, InstructionProtocol } from '@/src/models/Instruction';
+import { Logger } from '@/src/lib/logging/Logger';
+import { ProtocolSchemaIssue, ProtocolValidator } from './ProtocolValidator';
+
+// Protocols saved before metadata.version was written are treated as 0.9
+export const LEGACY_PROTOCOL_VERSION = '0.9';
+
+type StoredProtocol = Record<string, any>;
+
+export interface ProtocolMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (protocol: StoredProtocol) => StoredProtocol;
+}
+
+export interface MigrationOutcome {
+  protocol: InstructionProtocol;
+  fromVersion: string;
+  applied: string[];
+}
+
+export type ProtocolMigrationErrorCode =
+  | 'PROTOCOL_NOT_OBJECT'
+  | 'NO_MIGRATION_PATH'
+  | 'MIGRATION_CYCLE'
+  | 'MIGRATED_PROTOCOL_INVALID';
+
+export class ProtocolMigrationError extends Error {
+  constructor(
+    message: string,
+    public code: ProtocolMigrationErrorCode,
+    public issues: ProtocolSchemaIssue[] = []
+  ) {
+    super(message);
+    this.name = 'ProtocolMigrationError';
+  }
+}
+
+/**
+ * 0.9 protocols predate the version field and let planning omit
+ * optional collections. Fill them in so the 1.0 schema accepts them.
+ */
+const legacyToV1: ProtocolMigration = {
+  from: LEGACY_PROTOCOL_VERSION,
+  to: '1.0',
+  description: 'Add version metadata and default omitted collections',
+  migrate: (protocol) => {
+    const metadata = protocol['metadata'] || {};
+    const context = protocol['context'] || {};
+
+    return {
+      ...protocol,
+      metadata: {
+        ...metadata,
+        sessionName: metadata.sessionName ?? '',
+        actor: metadata.actor ?? 'planning'
+      },
+      context: {
+        ...context,
+        description: context.description ?? '',
+        prerequisites: context.prerequisites ?? [],
+        userRequest: context.userRequest ?? context.description ?? ''
+      },
+      objectives: (protocol['objectives'] || []).map((objective: StoredProtocol) => ({
+        ...objective,
+        measurable: objective['measurable'] ?? false
+      })),
+      requirements: (protocol['requirements'] || []).map((requirement: StoredProtocol) => ({
+        ...requirement,
+        priority: requirement['priority'] ?? 'should'
+      })),
+      deliverables: protocol['deliverables'] || [],
+      constraints: protocol['constraints'] || {},
+      successCriteria: (protocol['successCriteria'] || []).map((criterion: StoredProtocol) => ({
+        ...criterion,
+        automated: criterion['automated'] ?? false
+      }))
+    };
+  }
+};
+
+export class ProtocolMigrationRegistry {
+  private static instance: ProtocolMigrationRegistry;
+  private readonly logger: Logger;
+  private readonly validator: ProtocolValidator;
+  // Keyed by source version; each version has a single upgrade path
+  private readonly migrations: Map<string, ProtocolMigration> = new Map();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.validator = new ProtocolValidator(logger);
+    this.register(legacyToV1);
+  }
+
+  static getInstance(): ProtocolMigrationRegistry {
+    if (!ProtocolMigrationRegistry.instance) {
+      ProtocolMigrationRegistry.instance = new ProtocolMigrationRegistry(
+        new Logger('ProtocolMigrationRegistry')
+      );
+    }
+    return ProtocolMigrationRegistry.instance;
+  }
+
+  register(migration: ProtocolMigration): void {
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`A migration from protocol version ${migration.from} is already registered`);
+    }
+    this.migrations.set(migration.from, migration);
+  }
+
+  /**
+   * Version a stored protocol was written with
+   */
+  versionOf(stored: unknown): string {
+    const version = (stored as StoredProtocol | null)?.['metadata']?.version;
+    return typeof version === 'string' ? version : LEGACY_PROTOCOL_VERSION;
+  }
+
+  needsMigration(stored: unknown): boolean {
+    return this.versionOf(stored) !== CURRENT_PROTOCOL_VERSION;
+  }
+
+  /**
+   * Upgrade a stored protocol step by step to the current version and
+   * check the result against the current schema
+   */
+  migrate(stored: unknown): MigrationOutcome {
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+      throw new ProtocolMigrationError('Stored protocol is not an object', 'PROTOCOL_NOT_OBJECT');
+    }
+
+    const fromVersion = this.versionOf(stored);
+    const applied: string[] = [];
+    const visited = new Set<string>();
+    let version = fromVersion;
+    let protocol: StoredProtocol = JSON.parse(JSON.stringify(stored));
+
+    while (version !== CURRENT_PROTOCOL_VERSION) {
+      if (visited.has(version)) {
+        throw new ProtocolMigrationError(
+          `Protocol migrations loop at version ${version}`,
+          'MIGRATION_CYCLE'
+        );
+      }
+      visited.add(version);
+
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new ProtocolMigrationError(
+          `No migration path from protocol version ${version} to ${CURRENT_PROTOCOL_VERSION}`,
+          'NO_MIGRATION_PATH'
+        );
+      }
+
+      protocol = migration.migrate(protocol);
+      protocol['metadata'] = { ...protocol['metadata'], version: migration.to };
+      applied.push(`${migration.from} -> ${migration.to}`);
+      version = migration.to;
+    }
+
+    const issues = this.validator.checkSchema(protocol);
+    if (issues.length > 0) {
+      throw new ProtocolMigrationError(
+        `Protocol migrated from ${fromVersion} does not match the ${CURRENT_PROTOCOL_VERSION} schema`,
+        'MIGRATED_PROTOCOL_INVALID',
+        issues
+      );
+    }
+
+    if (applied.length > 0) {
+      this.logger.info('ProtocolMigrationRegistry: Upgraded stored protocol', {
+        instructionId: protocol['metadata']?.id,
+        fromVersion,
+        applied
+      });
+    }
+
+    return { protocol: protocol as InstructionProtocol, fromVersion, applied };
+  }
+
+  /**
+   * Migrate instructions attached to a loaded session. Protocols that
+   * cannot be upgraded are returned unchanged so the session still loads;
+   * ProtocolValidator rejects them if they are executed.
+   */
+  upgradeStored(stored: unknown): InstructionProtocol | undefined {
+    if (stored === undefined || stored === null) {
+      return undefined;
+    }
+
+    try {
+      return this.migrate(stored).protocol;
+    } catch (error) {
+      this.logger.warn('ProtocolMigrationRegistry: Could not upgrade stored protocol', {
+        version: this.versionOf(stored),
+        error: (error as Error).message,
+        issues: error instanceof ProtocolMigrationError ? error.issues : undefined
+      });
+      return stored as InstructionProtocol;
+    }
+  }
+}
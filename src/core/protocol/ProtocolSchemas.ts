@@ -0,0 +1,281 @@
+/**
+ * @actor system
+ * @responsibility JSON Schema definitions for the data exchanged between actors
+ */
+
+import { CURRENT_PROTOCOL_VERSION } from '@/src/models/Instruction';
+
+const stringArray = { type: 'array', items: { type: 'string' } } as const;
+
+const deliverableSchema = {
+  type: 'object',
+  required: ['type', 'description'],
+  properties: {
+    type: { enum: ['file', 'directory', 'config', 'documentation', 'service'] },
+    path: { type: 'string' },
+    description: { type: 'string', minLength: 1 },
+    validation: { type: 'string' }
+  }
+} as const;
+
+export const instructionProtocolSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://sessionhub.dev/schemas/instruction-protocol.json',
+  title: 'InstructionProtocol',
+  type: 'object',
+  required: [
+    'metadata',
+    'context',
+    'objectives',
+    'requirements',
+    'deliverables',
+    'constraints',
+    'successCriteria'
+  ],
+  properties: {
+    metadata: {
+      type: 'object',
+      required: ['id', 'sessionId', 'sessionName', 'timestamp', 'version', 'actor'],
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        sessionId: { type: 'string', minLength: 1 },
+        sessionName: { type: 'string' },
+        timestamp: { type: 'string', minLength: 1 },
+        version: { const: CURRENT_PROTOCOL_VERSION },
+        actor: { enum: ['planning', 'execution'] },
+        projectId: { type: 'string' }
+      }
+    },
+    context: {
+      type: 'object',
+      required: ['description', 'prerequisites', 'userRequest'],
+      properties: {
+        description: { type: 'string' },
+        prerequisites: stringArray,
+        relatedSessions: stringArray,
+        userRequest: { type: 'string' }
+      }
+    },
+    objectives: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'primary', 'measurable'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          primary: { type: 'string', minLength: 1 },
+          secondary: stringArray,
+          measurable: { type: 'boolean' }
+        }
+      }
+    },
+    requirements: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'description', 'priority'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 10 },
+          priority: { enum: ['must', 'should', 'could'] },
+          details: stringArray,
+          acceptanceCriteria: stringArray,
+          dependsOn: stringArray,
+          paths: stringArray,
+          tool: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              arguments: { type: 'object' }
+            }
+          }
+        }
+      }
+    },
+    deliverables: {
+      type: 'array',
+      items: deliverableSchema
+    },
+    constraints: {
+      type: 'object',
+      properties: {
+        technology: stringArray,
+        patterns: stringArray,
+        dependencies: stringArray,
+        avoid: stringArray,
+        timeLimit: { type: 'number', minimum: 0 }
+      }
+    },
+    successCriteria: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'criterion', 'validationMethod', 'automated'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          criterion: { type: 'string', minLength: 10 },
+          validationMethod: { type: 'string', minLength: 1 },
+          automated: { type: 'boolean' }
+        }
+      }
+    }
+  }
+} as const;
+
+export const executionResultSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://sessionhub.dev/schemas/execution-result.json',
+  title: 'ExecutionResult',
+  type: 'object',
+  required: [
+    'instructionId',
+    'status',
+    'startTime',
+    'endTime',
+    'outputs',
+    'errors',
+    'logs',
+    'validationResults'
+  ],
+  properties: {
+    instructionId: { type: 'string', minLength: 1 },
+    status: { enum: ['success', 'failure', 'partial'] },
+    startTime: { type: 'string' },
+    endTime: { type: 'string' },
+    outputs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'description'],
+        properties: {
+          type: { enum: ['file', 'console', 'service', 'artifact'] },
+          path: { type: 'string' },
+          content: { type: 'string' },
+          description: { type: 'string' }
+        }
+      }
+    },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['code', 'message', 'recoverable'],
+        properties: {
+          code: { type: 'string', minLength: 1 },
+          message: { type: 'string' },
+          stack: { type: 'string' },
+          recoverable: { type: 'boolean' }
+        }
+      }
+    },
+    logs: stringArray,
+    validationResults: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['criterionId', 'passed', 'message'],
+        properties: {
+          criterionId: { type: 'string' },
+          passed: { type: 'boolean' },
+          message: { type: 'string' }
+        }
+      }
+    },
+    preview: {
+      type: 'object',
+      required: ['instructionId', 'generatedAt', 'files', 'commands'],
+      properties: {
+        instructionId: { type: 'string' },
+        generatedAt: { type: 'string' },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['path', 'action', 'satisfies'],
+            properties: {
+              path: { type: 'string' },
+              action: { enum: ['create', 'modify', 'delete'] },
+              diff: { type: 'string' },
+              satisfies: { type: 'array', items: deliverableSchema }
+            }
+          }
+        },
+        commands: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['command', 'cwd', 'description'],
+            properties: {
+              command: { type: 'string' },
+              cwd: { type: 'string' },
+              description: { type: 'string' }
+            }
+          }
+        },
+        generatedCode: { type: 'object', additionalProperties: { type: 'string' } },
+        approval: {
+          type: 'object',
+          required: ['approvedBy', 'approvedAt'],
+          properties: {
+            approvedBy: { type: 'string' },
+            approvedAt: { type: 'string' }
+          }
+        }
+      }
+    },
+    rollback: {
+      type: 'object',
+      required: ['instructionId', 'reason', 'restored', 'removed', 'untracked', 'failures', 'completedAt'],
+      properties: {
+        instructionId: { type: 'string' },
+        reason: { enum: ['failure', 'cancelled', 'manual'] },
+        restored: stringArray,
+        removed: stringArray,
+        untracked: stringArray,
+        failures: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['target', 'error'],
+            properties: {
+              target: { type: 'string' },
+              error: { type: 'string' }
+            }
+          }
+        },
+        completedAt: { type: 'string' }
+      }
+    },
+    attempts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['attempt', 'trigger', 'repairing', 'tokensUsed', 'result'],
+        properties: {
+          attempt: { type: 'integer', minimum: 1 },
+          trigger: { enum: ['initial', 'repair'] },
+          repairing: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['criterionId', 'criterion', 'evidence'],
+              properties: {
+                criterionId: { type: 'string' },
+                criterion: { type: 'string' },
+                evidence: { type: 'string' }
+              }
+            }
+          },
+          tokensUsed: { type: 'number', minimum: 0 },
+          // Child results share this schema
+          result: { $ref: '#' }
+        }
+      }
+    },
+    recording: { type: 'string' }
+  }
+} as const;
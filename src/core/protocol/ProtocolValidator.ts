@@ -4,73 +4,46 @@
  * @responsibility Validates instruction protocol and enforces actor boundaries
  */
 
-import { InstructionProtocol } from '@/src/models/Instruction';
+import { ExecutionResult, InstructionProtocol } from '@/src/models/Instruction';
 import { Logger } from '@/src/lib/logging/Logger';
+import { executionResultSchema, instructionProtocolSchema } from './ProtocolSchemas';
+import { CodeClassifier, CodeDetection } from './CodeClassifier';
+import { TerminologyAllowlist } from './TerminologyAllowlist';
+import { TaskScheduler } from '@/src/core/execution/TaskScheduler';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+
+export interface ProtocolSchemaIssue {
+  // Field path such as requirements[2].priority; empty for the document root
+  path: string;
+  message: string;
+}
+
+export interface CodeViolation {
+  // Field path such as requirements[0].description
+  path: string;
+  detection: CodeDetection;
+}
+
+export class ProtocolSchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly schema: 'InstructionProtocol' | 'ExecutionResult',
+    public readonly issues: ProtocolSchemaIssue[]
+  ) {
+    super(message);
+    this.name = 'ProtocolSchemaError';
+  }
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateInstructionSchema: ValidateFunction = ajv.compile(instructionProtocolSchema);
+const validateResultSchema: ValidateFunction = ajv.compile(executionResultSchema);
 
 export class ProtocolValidator {
   private readonly logger: Logger;
   
-  // Enhanced patterns that indicate code in instructions
-  private readonly codePatterns = [
-    // Function definitions
-    /function\s+\w+\s*\(/,
-    /const\s+\w+\s*=\s*\([^)]*\)\s*=>/,
-    /\w+\s*:\s*\([^)]*\)\s*=>/,
-    
-    // Class definitions
-    /class\s+\w+/,
-    /interface\s+\w+/,
-    /type\s+\w+\s*=/,
-    /enum\s+\w+/,
-    
-    // Variable declarations
-    /const\s+\w+\s*=/,
-    /let\s+\w+\s*=/,
-    /var\s+\w+\s*=/,
-    
-    // Import/Export statements
-    /import\s+.*from/,
-    /export\s+(default\s+)?/,
-    /require\s*\(/,
-    /module\.exports/,
-    
-    // Control structures
-    /\bif\s*\(/,
-    /\bfor\s*\(/,
-    /\bwhile\s*\(/,
-    /\bswitch\s*\(/,
-    /\btry\s*{/,
-    /\bcatch\s*\(/,
-    
-    // Code blocks
-    /```[a-z]*\n[\s\S]*?```/,
-    /~~~[a-z]*\n[\s\S]*?~~~/, 
-    
-    // HTML/JSX
-    /<[^>]+>/,
-    /className=/,
-    /onClick=/,
-    
-    // Shell commands
-    /cat\s*>\s*[\w\/.]+\s*<<\s*['"]?EOF/,
-    /npm\s+(install|i)\s+/,
-    /yarn\s+add\s+/,
-    /pip\s+install\s+/,
-    /git\s+(clone|init|add|commit)/,
-    /mkdir\s+-?p?\s+/,
-    
-    // API/Database queries
-    /SELECT\s+.*FROM/i,
-    /INSERT\s+INTO/i,
-    /UPDATE\s+.*SET/i,
-    /DELETE\s+FROM/i,
-    
-    // Method calls and operators
-    /\.\w+\(/,
-    /=>/,
-    /\+=|-=|\*=|\/=/,
-    /===|!==|==|!=/
-  ];
+  private readonly classifier: CodeClassifier;
+  private readonly allowlist: TerminologyAllowlist;
 
   // Enhanced patterns that indicate strategic planning in execution
   private readonly planningPatterns = [
@@ -99,8 +72,14 @@ export class ProtocolValidator {
     context: string;
   }> = [];
 
-  constructor(logger: Logger) {
+  constructor(
+    logger: Logger,
+    classifier: CodeClassifier = new CodeClassifier(),
+    allowlist: TerminologyAllowlist = TerminologyAllowlist.getInstance()
+  ) {
     this.logger = logger;
+    this.classifier = classifier;
+    this.allowlist = allowlist;
   }
 
   /**
@@ -111,8 +90,8 @@ export class ProtocolValidator {
       instructionId: instructions.metadata.id
     });
 
-    // Validate required fields
-    this.validateStructure(instructions);
+    // Validate shape, types and version against the JSON Schema
+    this.assertSchema(instructions);
     
     // Validate metadata
     this.validateMetadata(instructions);
@@ -123,32 +102,45 @@ export class ProtocolValidator {
     // Validate requirements are descriptive
     this.validateRequirements(instructions);
     
-    // Validate success criteria
-    this.validateSuccessCriteria(instructions);
-
+    // Validate requirement dependencies form a DAG
+    this.validateDependencies(instructions);
+    
     this.logger.debug('ProtocolValidator: Validation passed');
   }
 
+  /**
+   * Check a candidate protocol against the JSON Schema without throwing
+   */
+  checkSchema(candidate: unknown): ProtocolSchemaIssue[] {
+    return validateInstructionSchema(candidate)
+      ? []
+      : this.toIssues(validateInstructionSchema.errors);
+  }
+
+  /**
+   * Enforce the InstructionProtocol schema, reporting every failing field
+   */
+  assertSchema(candidate: unknown): asserts candidate is InstructionProtocol {
+    const issues = this.checkSchema(candidate);
+    if (issues.length > 0) {
+      throw this.schemaError('InstructionProtocol', issues);
+    }
+  }
+
+  /**
+   * Enforce the ExecutionResult schema on results produced by the execution actor
+   */
+  validateExecutionResultSchema(candidate: unknown): asserts candidate is ExecutionResult {
+    if (!validateResultSchema(candidate)) {
+      throw this.schemaError('ExecutionResult', this.toIssues(validateResultSchema.errors));
+    }
+  }
+
   /**
    * Ensure instructions contain no executable code
    */
   ensureNoCode(instructions: InstructionProtocol): void {
-    const instructionText = JSON.stringify(instructions, null, 2);
-    const violations: Array<{pattern: RegExp, match: string, location: string}> = [];
-    
-    // Check each pattern
-    for (const pattern of this.codePatterns) {
-      const matches = instructionText.match(pattern);
-      if (matches) {
-        // Find approximate location in the instruction
-        const location = this.findViolationLocation(instructions, matches[0]);
-        violations.push({
-          pattern,
-          match: matches[0],
-          location
-        });
-      }
-    }
+    const violations = this.detectCode(instructions);
     
     if (violations.length > 0) {
       // Log violation to history
@@ -156,14 +148,16 @@ export class ProtocolValidator {
         this.violationHistory.push({
           timestamp: new Date(),
           type: 'code-in-planning',
-          pattern: v.pattern.toString(),
-          context: v.match
+          pattern: `${v.detection.language}: ${v.detection.reasons.join(', ')}`,
+          context: v.detection.span?.text ?? ''
         });
       });
       
       // Create detailed error message
-      const violationDetails = violations.map(v => 
-        `  - Pattern: ${v.pattern.toString()}\n    Found: "${v.match}"\n    Location: ${v.location}`
+      const violationDetails = violations.map(v =>
+        `  - Location: ${v.path}\n` +
+        `    Detected: ${v.detection.language} (confidence ${v.detection.confidence.toFixed(2)}; ${v.detection.reasons.join(', ')})\n` +
+        `    Found: "${v.detection.span?.text ?? ''}"`
       ).join('\n');
       
       const error = new Error(
@@ -180,31 +174,53 @@ export class ProtocolValidator {
       throw error;
     }
   }
+
+  /**
+   * Classify every text field of the instructions, returning the fields
+   * whose confidence reaches the classifier threshold. Terms allowlisted
+   * for the instruction's project are ignored.
+   */
+  detectCode(instructions: InstructionProtocol): CodeViolation[] {
+    const terms = this.allowlist.getTerms(instructions.metadata?.projectId);
+    const { metadata: _metadata, ...content } = instructions;
+
+    return this.collectText(content, '')
+      .map(({ path, text }) => ({ path, detection: this.classifier.classify(text, terms) }))
+      .filter(({ detection }) => detection.isCode);
+  }
+
+  /**
+   * Register project vocabulary that must not be treated as code
+   */
+  setTerminologyAllowlist(projectId: string, terms: string[]): void {
+    this.allowlist.setProjectTerms(projectId, terms);
+  }
+
+  /**
+   * Pick up the vocabulary in a project's config before validating its
+   * instructions; see TerminologyAllowlist.loadProject
+   */
+  async loadTerminologyAllowlist(projectId: string, projectPath: string): Promise<string[]> {
+    return this.allowlist.loadProject(projectId, projectPath);
+  }
   
   /**
-   * Find approximate location of violation in instruction structure
+   * Flatten nested instruction content into string fields with paths
+   * such as requirements[0].description
    */
-  private findViolationLocation(instructions: InstructionProtocol, match: string): string {
-    const text = JSON.stringify(instructions, null, 2);
-    const lines = text.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (line && line.includes(match)) {
-        // Try to identify the field
-        for (let j = i; j >= 0; j--) {
-          const prevLine = lines[j];
-          if (prevLine) {
-            const fieldMatch = prevLine.match(/"(\w+)":/);
-            if (fieldMatch && fieldMatch[1]) {
-              return `${fieldMatch[1]} field (line ~${i + 1})`;
-            }
-          }
-        }
-        return `line ~${i + 1}`;
-      }
+  private collectText(value: unknown, path: string): Array<{ path: string; text: string }> {
+    if (typeof value === 'string') {
+      return [{ path: path || '(root)', text: value }];
     }
-    return 'unknown location';
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) => this.collectText(item, `${path}[${index}]`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.entries(value).flatMap(([key, item]) =>
+        this.collectText(item, path ? `${path}.${key}` : key)
+      );
+    }
+    return [];
   }
 
   /**
@@ -227,74 +243,49 @@ export class ProtocolValidator {
     }
   }
 
-  private validateStructure(instructions: InstructionProtocol): void {
-    const requiredFields = [
-      'metadata',
-      'context', 
-      'objectives',
-      'requirements',
-      'deliverables',
-      'constraints',
-      'successCriteria'
-    ];
-
-    for (const field of requiredFields) {
-      if (!(field in instructions)) {
-        throw new Error(`Missing required field: ${field}`);
-      }
-    }
-
-    // Validate arrays are not empty
-    if (instructions.objectives.length === 0) {
-      throw new Error('Instructions must have at least one objective');
-    }
-    
-    if (instructions.requirements.length === 0) {
-      throw new Error('Instructions must have at least one requirement');
-    }
-    
-    if (instructions.successCriteria.length === 0) {
-      throw new Error('Instructions must have at least one success criterion');
-    }
-  }
-
   private validateMetadata(instructions: InstructionProtocol): void {
     const { metadata } = instructions;
     
-    if (!metadata.id || typeof metadata.id !== 'string') {
-      throw new Error('Invalid instruction ID');
-    }
-    
-    if (!metadata.sessionId || typeof metadata.sessionId !== 'string') {
-      throw new Error('Invalid session ID');
-    }
-    
-    if (metadata.version !== '1.0') {
-      throw new Error(`Unsupported instruction version: ${metadata.version}`);
-    }
-    
-    if (!['planning', 'execution'].includes(metadata.actor)) {
-      throw new Error(`Invalid actor type: ${metadata.actor}`);
-    }
-    
     // Validate timestamp
     const timestamp = new Date(metadata.timestamp);
     if (isNaN(timestamp.getTime())) {
-      throw new Error('Invalid timestamp');
+      throw this.schemaError('InstructionProtocol', [
+        { path: 'metadata.timestamp', message: 'must be a parseable date' }
+      ]);
+    }
+  }
+
+  private validateDependencies(instructions: InstructionProtocol): void {
+    const ids = new Set(instructions.requirements.map(r => r.id));
+    const issues: ProtocolSchemaIssue[] = [];
+
+    instructions.requirements.forEach((requirement, index) => {
+      (requirement.dependsOn ?? []).forEach((dependency, position) => {
+        if (!ids.has(dependency)) {
+          issues.push({
+            path: `requirements[${index}].dependsOn[${position}]`,
+            message: `references unknown requirement ${dependency}`
+          });
+        }
+      });
+    });
+
+    const cycle = issues.length === 0 ? TaskScheduler.findCycle(instructions.requirements) : undefined;
+    if (cycle) {
+      const index = instructions.requirements.findIndex(r => r.id === cycle[0]);
+      issues.push({
+        path: `requirements[${index}].dependsOn`,
+        message: `forms a dependency cycle: ${cycle.join(' -> ')}`
+      });
+    }
+
+    if (issues.length > 0) {
+      throw this.schemaError('InstructionProtocol', issues);
     }
   }
 
   private validateRequirements(instructions: InstructionProtocol): void {
     for (const requirement of instructions.requirements) {
-      // Ensure requirements are descriptive, not prescriptive
-      if (!requirement.description || requirement.description.length < 10) {
-        throw new Error('Requirement description too short');
-      }
-      
-      if (!['must', 'should', 'could'].includes(requirement.priority)) {
-        throw new Error(`Invalid requirement priority: ${requirement.priority}`);
-      }
-      
       // Check for implementation details in requirements
       const implementationKeywords = [
         'npm install',
@@ -316,34 +307,68 @@ export class ProtocolValidator {
     }
   }
 
-  private validateSuccessCriteria(instructions: InstructionProtocol): void {
-    for (const criterion of instructions.successCriteria) {
-      if (!criterion.criterion || criterion.criterion.length < 10) {
-        throw new Error('Success criterion too short');
-      }
-      
-      if (!criterion.validationMethod) {
-        throw new Error('Success criterion missing validation method');
-      }
-      
-      if (typeof criterion.automated !== 'boolean') {
-        throw new Error('Success criterion must specify if automated');
-      }
-    }
-  }
-
   /**
    * Validate that an execution result matches success criteria
    */
   validateExecutionResult(
-    _instructions: InstructionProtocol,
-    result: any
+    instructions: InstructionProtocol,
+    result: unknown
   ): boolean {
-    // This would validate that execution results meet the success criteria
-    // For now, we'll do basic validation
-    return result && result.status !== 'failure';
+    this.validateExecutionResultSchema(result);
+
+    if (result.instructionId !== instructions.metadata.id) {
+      throw new Error(
+        `Execution result ${result.instructionId} does not belong to instruction ${instructions.metadata.id}`
+      );
+    }
+
+    return result.status !== 'failure';
   }
   
+  private schemaError(
+    schema: ProtocolSchemaError['schema'],
+    issues: ProtocolSchemaIssue[]
+  ): ProtocolSchemaError {
+    const details = issues
+      .map(issue => `  - ${issue.path || '(root)'}: ${issue.message}`)
+      .join('\n');
+    const error = new ProtocolSchemaError(
+      `${schema} failed schema validation:\n${details}`,
+      schema,
+      issues
+    );
+    this.logger.error('ProtocolValidator: Schema validation failed', error, {
+      schema,
+      issues: issues.length
+    });
+    return error;
+  }
+
+  /**
+   * Convert Ajv errors into field paths, e.g. /requirements/2/priority
+   * becomes requirements[2].priority
+   */
+  private toIssues(errors: ErrorObject[] | null | undefined): ProtocolSchemaIssue[] {
+    return (errors || []).map(error => {
+      const segments = error.instancePath.split('/').slice(1)
+        .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+      if (error.keyword === 'required') {
+        segments.push(String(error.params['missingProperty']));
+      }
+
+      const path = segments.reduce(
+        (acc, segment) => /^\d+$/.test(segment) ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment,
+        ''
+      );
+
+      const message = error.keyword === 'const' || error.keyword === 'enum'
+        ? `${error.message}: ${JSON.stringify(error.params['allowedValue'] ?? error.params['allowedValues'])}`
+        : error.message || 'is invalid';
+
+      return { path, message };
+    });
+  }
+
   /**
    * Get violation history for reporting
    */
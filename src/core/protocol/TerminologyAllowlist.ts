@@ -0,0 +1,110 @@
+/**
+ * @actor system
+ * @responsibility Holds per-project vocabulary that boundary enforcement must not treat as code
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Kept in the project so the app, the CLI and teammates share it:
+//   { "terms": ["call the .save() endpoint", "Node.js"] }
+export const TERMINOLOGY_CONFIG_FILE = path.join('.sessionhub', 'terminology.json');
+
+export class TerminologyConfigError extends Error {
+  constructor(message: string, public readonly configPath: string) {
+    super(message);
+    this.name = 'TerminologyConfigError';
+  }
+}
+
+export class TerminologyAllowlist {
+  private static instance: TerminologyAllowlist;
+  private readonly global: Set<string> = new Set();
+  private readonly projects: Map<string, Set<string>> = new Map();
+
+  static getInstance(): TerminologyAllowlist {
+    if (!TerminologyAllowlist.instance) {
+      TerminologyAllowlist.instance = new TerminologyAllowlist();
+    }
+    return TerminologyAllowlist.instance;
+  }
+
+  /**
+   * Replace a project's terms, e.g. endpoint names like ".save()" or
+   * product names that look like identifiers
+   */
+  setProjectTerms(projectId: string, terms: string[]): void {
+    this.projects.set(projectId, new Set(this.normalize(terms)));
+  }
+
+  addProjectTerms(projectId: string, terms: string[]): void {
+    const existing = this.projects.get(projectId) ?? new Set<string>();
+    this.normalize(terms).forEach(term => existing.add(term));
+    this.projects.set(projectId, existing);
+  }
+
+  /**
+   * Load a project's terms from its config, replacing any set in memory.
+   * A project without the file has no terms of its own.
+   */
+  async loadProject(projectId: string, projectPath: string): Promise<string[]> {
+    const configPath = path.join(projectPath, TERMINOLOGY_CONFIG_FILE);
+    let raw: string;
+    try {
+      raw = await fs.readFile(configPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      raw = '';
+    }
+
+    let terms: unknown = [];
+    if (raw && raw.trim()) {
+      try {
+        terms = JSON.parse(raw).terms;
+      } catch (error) {
+        throw new TerminologyConfigError(`${configPath} is not valid JSON: ${(error as Error).message}`, configPath);
+      }
+    }
+    if (!Array.isArray(terms) || terms.some(term => typeof term !== 'string')) {
+      throw new TerminologyConfigError(`${configPath} must list its terms as strings under "terms"`, configPath);
+    }
+
+    this.setProjectTerms(projectId, terms);
+    return this.getProjectTerms(projectId);
+  }
+
+  /**
+   * Write a project's terms to its config and apply them
+   */
+  async saveProject(projectId: string, projectPath: string, terms: string[]): Promise<string[]> {
+    const configPath = path.join(projectPath, TERMINOLOGY_CONFIG_FILE);
+    this.setProjectTerms(projectId, terms);
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(configPath, `${JSON.stringify({ terms: this.getProjectTerms(projectId) }, null, 2)}\n`);
+    return this.getProjectTerms(projectId);
+  }
+
+  getProjectTerms(projectId: string): string[] {
+    return [...(this.projects.get(projectId) ?? [])];
+  }
+
+  clearProject(projectId: string): void {
+    this.projects.delete(projectId);
+  }
+
+  /**
+   * Terms that apply to every project
+   */
+  addGlobalTerms(terms: string[]): void {
+    this.normalize(terms).forEach(term => this.global.add(term));
+  }
+
+  getTerms(projectId?: string): string[] {
+    const project = projectId ? this.projects.get(projectId) : undefined;
+    return [...this.global, ...(project ?? [])];
+  }
+
+  private normalize(terms: string[]): string[] {
+    return terms.map(term => term.trim()).filter(term => term.length > 0);
+  }
+}
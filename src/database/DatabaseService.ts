@@ -9,6 +9,7 @@ import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
+import { ProtocolMigrationRegistry } from '../core/protocol/ProtocolMigrations';
 
 export interface DatabaseConfig {
   path?: string;
@@ -32,6 +33,30 @@ interface SessionRepository {
   delete(id: string): Promise<void>;
 }
 
+// Session fields holding objects, stored as JSON text
+const SESSION_JSON_COLUMNS = ['request', 'instructions', 'result', 'error', 'metadata'];
+
+function toSessionColumn(column: string, value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return SESSION_JSON_COLUMNS.includes(column) ? JSON.stringify(value) : value;
+}
+
+function fromSessionRow(row: any): any {
+  const session = { ...row };
+  for (const column of SESSION_JSON_COLUMNS) {
+    if (typeof session[column] === 'string') {
+      session[column] = JSON.parse(session[column]);
+    } else if (session[column] === null) {
+      delete session[column];
+    }
+  }
+  // Sessions planned by older versions carry older instruction protocols
+  if (session.instructions) {
+    session.instructions = ProtocolMigrationRegistry.getInstance().upgradeStored(session.instructions);
+  }
+  return session;
+}
+
 export class DatabaseService extends EventEmitter {
   private db: Database.Database | null = null;
   private config: DatabaseConfig;
@@ -51,31 +76,34 @@ export class DatabaseService extends EventEmitter {
     // Initialize repositories
     this.sessions = {
       create: async (session: any) => {
-        const sql = `INSERT INTO sessions (id, name, description, status, userId, projectId, createdAt, updatedAt, metadata)
-                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        const sql = `INSERT INTO sessions (id, name, description, objective, status, userId, projectId, createdAt, updatedAt, request, instructions, metadata)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
         await this.run(sql, [
           session.id,
           session.name,
           session.description,
+          session.objective ?? null,
           session.status,
           session.userId,
           session.projectId,
           session.createdAt,
           session.updatedAt,
+          toSessionColumn('request', session.request),
+          toSessionColumn('instructions', session.instructions),
           JSON.stringify(session.metadata || {})
         ]);
       },
       findById: async (id: string) => {
         const result = await this.query('SELECT * FROM sessions WHERE id = ?', [id]);
-        return result.rows[0] || null;
+        return result.rows[0] ? fromSessionRow(result.rows[0]) : null;
       },
       findAll: async () => {
         const result = await this.query('SELECT * FROM sessions', []);
-        return result.rows;
+        return result.rows.map(fromSessionRow);
       },
       update: async (id: string, updates: any) => {
         const fields = Object.keys(updates).map(key => `${key} = ?`).join(', ');
-        const values = Object.values(updates);
+        const values = Object.entries(updates).map(([key, value]) => toSessionColumn(key, value));
         values.push(id);
         await this.run(`UPDATE sessions SET ${fields} WHERE id = ?`, values);
       },
@@ -0,0 +1,9 @@
+-- Migration: Add sync revisions to cloud tables
+-- Version: 007
+-- Description: Adds the revision counter offline sync compare-and-sets against when pushing records
+
+-- Rows written before this migration start at revision 0
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE instructions ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE patterns ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
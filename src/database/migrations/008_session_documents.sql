@@ -0,0 +1,77 @@
+-- Migration: Add shared session documents to cloud tables
+-- Version: 008
+-- Description: Adds session collaborators, the CRDT update log for session text fields, and the policies that limit both to a session's owner and collaborators
+
+-- People a session's owner shares it with
+CREATE TABLE IF NOT EXISTS session_collaborators (
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, user_id)
+);
+
+-- Incremental CRDT updates to session text fields (append-only)
+CREATE TABLE IF NOT EXISTS session_document_updates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    doc_id TEXT NOT NULL,
+    -- Local session ids are not always UUIDs
+    session_id TEXT,
+    client_id TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_collaborators_user_id ON session_collaborators(user_id);
+CREATE INDEX IF NOT EXISTS idx_session_document_updates_created_at ON session_document_updates(created_at);
+CREATE INDEX IF NOT EXISTS idx_session_document_updates_doc_id ON session_document_updates(doc_id);
+
+ALTER TABLE session_collaborators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_document_updates ENABLE ROW LEVEL SECURITY;
+
+-- Session collaborator policies
+DROP POLICY IF EXISTS "Session owners can manage collaborators" ON session_collaborators;
+CREATE POLICY "Session owners can manage collaborators" ON session_collaborators
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM sessions
+            WHERE sessions.id = session_collaborators.session_id
+            AND sessions.user_id = auth.uid()
+        )
+    ) WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM sessions
+            WHERE sessions.id = session_collaborators.session_id
+            AND sessions.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can view their collaborations" ON session_collaborators;
+CREATE POLICY "Users can view their collaborations" ON session_collaborators
+    FOR SELECT USING (user_id = auth.uid());
+
+-- Whether the current user owns or collaborates on a session. Runs as its
+-- owner because collaborators cannot read the sessions row themselves.
+CREATE OR REPLACE FUNCTION can_access_session(target TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE s.id::text = target
+        AND (
+            s.user_id = auth.uid()
+            OR EXISTS (
+                SELECT 1 FROM session_collaborators c
+                WHERE c.session_id = s.id
+                AND c.user_id = auth.uid()
+            )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Session document update policies (updates are never changed)
+DROP POLICY IF EXISTS "Session members can view document updates" ON session_document_updates;
+CREATE POLICY "Session members can view document updates" ON session_document_updates
+    FOR SELECT USING (can_access_session(session_id));
+
+DROP POLICY IF EXISTS "Session members can add document updates" ON session_document_updates;
+CREATE POLICY "Session members can add document updates" ON session_document_updates
+    FOR INSERT WITH CHECK (can_access_session(session_id));
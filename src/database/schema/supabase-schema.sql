@@ -21,6 +21,7 @@ CREATE TABLE IF NOT EXISTS projects (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     last_accessed TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     metadata JSONB DEFAULT '{}',
+    revision INTEGER NOT NULL DEFAULT 0,
     
     -- Constraints
     CONSTRAINT unique_project_path UNIQUE (path),
@@ -41,6 +42,7 @@ CREATE TABLE IF NOT EXISTS sessions (
     title VARCHAR(255),
     description TEXT,
     total_duration INTERVAL,
+    revision INTEGER NOT NULL DEFAULT 0,
     
     -- Constraints
     CONSTRAINT valid_user_id CHECK (user_id IS NOT NULL)
@@ -58,6 +60,7 @@ CREATE TABLE IF NOT EXISTS instructions (
     -- Additional instruction fields
     sequence_number INTEGER,
     parent_instruction_id UUID REFERENCES instructions(id) ON DELETE SET NULL,
+    revision INTEGER NOT NULL DEFAULT 0,
     
     -- Constraints
     CONSTRAINT valid_content CHECK (content != ''),
@@ -97,12 +100,32 @@ CREATE TABLE IF NOT EXISTS patterns (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     last_used_at TIMESTAMP WITH TIME ZONE,
     project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+    revision INTEGER NOT NULL DEFAULT 0,
     
     -- Constraints
     CONSTRAINT valid_frequency CHECK (frequency >= 0),
     CONSTRAINT valid_success_rate CHECK (success_rate >= 0 AND success_rate <= 100)
 );
 
+-- People a session's owner shares it with
+CREATE TABLE IF NOT EXISTS session_collaborators (
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, user_id)
+);
+
+-- Incremental CRDT updates to session text fields (append-only)
+CREATE TABLE IF NOT EXISTS session_document_updates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    doc_id TEXT NOT NULL,
+    -- Local session ids are not always UUIDs
+    session_id TEXT,
+    client_id TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX idx_sessions_project_id ON sessions(project_id);
@@ -123,6 +146,11 @@ CREATE INDEX idx_patterns_frequency ON patterns(frequency DESC);
 CREATE INDEX idx_patterns_success_rate ON patterns(success_rate DESC);
 CREATE INDEX idx_patterns_project_id ON patterns(project_id);
 
+CREATE INDEX idx_session_collaborators_user_id ON session_collaborators(user_id);
+
+CREATE INDEX idx_session_document_updates_created_at ON session_document_updates(created_at);
+CREATE INDEX idx_session_document_updates_doc_id ON session_document_updates(doc_id);
+
 CREATE INDEX idx_projects_last_accessed ON projects(last_accessed DESC);
 CREATE INDEX idx_projects_type ON projects(type);
 
@@ -147,6 +175,8 @@ ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE instructions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE execution_results ENABLE ROW LEVEL SECURITY;
 ALTER TABLE patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_collaborators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_document_updates ENABLE ROW LEVEL SECURITY;
 
 -- Projects policies
 CREATE POLICY "Users can view their own projects" ON projects
@@ -265,6 +295,50 @@ CREATE POLICY "Authenticated users can update patterns" ON patterns
 CREATE POLICY "Authenticated users can delete patterns" ON patterns
     FOR DELETE USING (auth.uid() IS NOT NULL);
 
+-- Session collaborator policies
+CREATE POLICY "Session owners can manage collaborators" ON session_collaborators
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM sessions
+            WHERE sessions.id = session_collaborators.session_id
+            AND sessions.user_id = auth.uid()
+        )
+    ) WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM sessions
+            WHERE sessions.id = session_collaborators.session_id
+            AND sessions.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view their collaborations" ON session_collaborators
+    FOR SELECT USING (user_id = auth.uid());
+
+-- Whether the current user owns or collaborates on a session. Runs as its
+-- owner because collaborators cannot read the sessions row themselves.
+CREATE OR REPLACE FUNCTION can_access_session(target TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE s.id::text = target
+        AND (
+            s.user_id = auth.uid()
+            OR EXISTS (
+                SELECT 1 FROM session_collaborators c
+                WHERE c.session_id = s.id
+                AND c.user_id = auth.uid()
+            )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Session document update policies (updates are never changed)
+CREATE POLICY "Session members can view document updates" ON session_document_updates
+    FOR SELECT USING (can_access_session(session_id));
+
+CREATE POLICY "Session members can add document updates" ON session_document_updates
+    FOR INSERT WITH CHECK (can_access_session(session_id));
+
 -- Create views for common queries
 CREATE OR REPLACE VIEW active_sessions AS
 SELECT 
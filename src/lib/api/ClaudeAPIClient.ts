@@ -6,6 +6,9 @@
 
 import { Logger } from '../logging/Logger';
 import { APIUsageTracker } from '../../services/usage/APIUsageTracker';
+import { StreamCancelledError, StreamOptions } from './MessageStream';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { CompletionMessage, fitToContextWindow, LLMProvider } from './providers/LLMProvider';
 
 export interface ClaudeAPIConfig {
   apiKey: string;
@@ -14,6 +17,8 @@ export interface ClaudeAPIConfig {
   maxTokens?: number;
   temperature?: number;
   timeout?: number;
+  // Sends requests somewhere other than the Anthropic API
+  provider?: LLMProvider;
 }
 
 export interface ClaudeMessage {
@@ -27,6 +32,7 @@ export interface ClaudeRequest {
   max_tokens: number;
   temperature: number;
   system?: string;
+  stream?: boolean;
 }
 
 export interface ClaudeResponse {
@@ -46,7 +52,8 @@ export interface ClaudeResponse {
 
 export class ClaudeAPIClient {
   private readonly logger: Logger;
-  private readonly config: Required<ClaudeAPIConfig>;
+  private readonly config: Required<Omit<ClaudeAPIConfig, 'provider'>>;
+  private readonly provider: LLMProvider;
   private readonly defaultSystemPrompt: string;
   private rateLimiter: Map<string, number> = new Map();
   private readonly maxRequestsPerMinute = 60;
@@ -59,11 +66,16 @@ export class ClaudeAPIClient {
     this.config = {
       apiKey: config.apiKey,
       apiUrl: config.apiUrl || 'https://api.anthropic.com/v1/messages',
-      model: config.model || 'claude-3-5-sonnet-20241022',
+      model: config.model || config.provider?.defaultModel || 'claude-3-5-sonnet-20241022',
       maxTokens: config.maxTokens || 4000,
       temperature: config.temperature || 0.7,
       timeout: config.timeout || 30000
     };
+    this.provider = config.provider || new AnthropicProvider({
+      apiKey: this.config.apiKey,
+      apiUrl: this.config.apiUrl,
+      defaultModel: this.config.model
+    }, this.logger);
 
     this.defaultSystemPrompt = `You are the Planning Actor in SessionHub's Two-Actor Architecture.
 
@@ -135,8 +147,10 @@ Output your response as a valid JSON object following this exact InstructionProt
     request: unknown;
     context: any;
     systemPrompt?: string;
+    // Streams the response; text arrives through onText as it is generated
+    stream?: StreamOptions;
   }): Promise<any> {
-    const { request, context, systemPrompt } = params;
+    const { request, context, systemPrompt, stream } = params;
 
     const messages: ClaudeMessage[] = [
       {
@@ -165,7 +179,7 @@ Please analyze this request and generate a comprehensive instruction protocol th
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
         system: systemPrompt || this.defaultSystemPrompt
-      });
+      }, stream);
 
       const content = response.content[0]?.text;
       if (!content) {
@@ -190,45 +204,79 @@ Please analyze this request and generate a comprehensive instruction protocol th
   }
 
   /**
-   * Send request to Claude API with rate limiting and retry logic
+   * Send request through the provider with rate limiting. Providers
+   * without streaming answer in one piece, reported as a single delta.
    */
-  private async sendRequest(request: ClaudeRequest): Promise<ClaudeResponse> {
+  private async sendRequest(request: ClaudeRequest, stream?: StreamOptions): Promise<ClaudeResponse> {
     await this.checkRateLimit();
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const cancel = () => controller.abort();
+    stream?.signal?.addEventListener('abort', cancel, { once: true });
+    const streaming = stream && this.provider.capabilities(request.model).streaming ? stream : undefined;
 
     try {
-      this.logger.debug('Sending request to Claude API', {
+      this.logger.debug('Sending request to model provider', {
+        provider: this.provider.id,
         model: request.model,
-        messageCount: request.messages.length
+        messageCount: request.messages.length,
+        stream: !!streaming
       });
 
-      const response = await this.makeRequestWithRetry(request, controller.signal);
-      
-      const data = await response.json() as ClaudeResponse;
+      const completion = await this.provider.complete(fitToContextWindow(this.provider, {
+        model: request.model,
+        system: request.system,
+        messages: request.messages.filter(
+          (message): message is CompletionMessage => message.role !== 'system'
+        ),
+        maxTokens: request.max_tokens,
+        temperature: request.temperature,
+        signal: controller.signal,
+        stream: streaming
+      }));
+      if (stream && !streaming) {
+        stream.onText?.(completion.text, completion.text);
+      }
 
-      this.logger.debug('Claude API response received', {
-        id: data.id,
+      const data: ClaudeResponse = {
+        id: '',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: completion.text }],
+        model: completion.model,
+        usage: { input_tokens: completion.inputTokens, output_tokens: completion.outputTokens }
+      };
+
+      this.logger.debug('Model provider response received', {
+        provider: this.provider.id,
         model: data.model,
         inputTokens: data.usage.input_tokens,
         outputTokens: data.usage.output_tokens
       });
 
-      // Track usage if tracker is available
-      if (this.usageTracker && this.currentSessionId && this.currentUserId) {
-        await this.usageTracker.trackUsage({
-          sessionId: this.currentSessionId,
-          model: data.model,
-          inputTokens: data.usage.input_tokens,
-          outputTokens: data.usage.output_tokens,
-          requestType: 'planning',
-          userId: this.currentUserId
-        });
-      }
-
+      await this.trackUsage(data.model, completion.inputTokens, completion.outputTokens);
       return data;
     } catch (error: any) {
+      if (error instanceof StreamCancelledError) {
+        // A cancelled stream still has its partial usage tracked
+        this.logger.info('Model provider stream cancelled', {
+          receivedChars: error.partial.text.length,
+          outputTokens: error.partial.outputTokens
+        });
+        await this.trackUsage(
+          error.partial.model || request.model,
+          error.partial.inputTokens,
+          error.partial.outputTokens,
+          true
+        );
+        throw error;
+      }
+      if (stream?.signal?.aborted) {
+        throw new StreamCancelledError('Request cancelled before streaming started', {
+          text: '', inputTokens: 0, outputTokens: 0, complete: false
+        });
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Claude API request timed out after ${this.config.timeout}ms`);
       }
@@ -236,72 +284,35 @@ Please analyze this request and generate a comprehensive instruction protocol th
       throw error;
     } finally {
       clearTimeout(timeoutId);
+      stream?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private async trackUsage(
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    partial?: boolean
+  ): Promise<void> {
+    if (this.usageTracker && this.currentSessionId && this.currentUserId) {
+      await this.usageTracker.trackUsage({
+        sessionId: this.currentSessionId,
+        provider: this.provider.id,
+        model,
+        inputTokens,
+        outputTokens,
+        requestType: 'planning',
+        userId: this.currentUserId,
+        partial
+      });
     }
   }
 
   /**
-   * Make API request with retry logic
+   * Provider requests are sent through, for capability checks
    */
-  private async makeRequestWithRetry(
-    request: ClaudeRequest, 
-    signal: AbortSignal,
-    maxRetries = 3
-  ): Promise<Response> {
-    let lastError: Error;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await fetch(this.config.apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': this.config.apiKey,
-            'anthropic-version': '2023-06-01'
-          },
-          body: JSON.stringify(request),
-          signal
-        });
-
-        if (response.ok) {
-          return response;
-        }
-
-        // Handle specific error codes
-        if (response.status === 429) {
-          // Rate limited - wait and retry
-          const retryAfter = parseInt(response.headers.get('retry-after') || '60');
-          this.logger.warn(`Rate limited, waiting ${retryAfter}s before retry ${attempt}/${maxRetries}`);
-          await this.delay(retryAfter * 1000);
-          continue;
-        }
-
-        if (response.status >= 500 && attempt < maxRetries) {
-          // Server error - retry with exponential backoff
-          const backoffDelay = Math.pow(2, attempt) * 1000;
-          this.logger.warn(`Server error ${response.status}, retrying in ${backoffDelay}ms`);
-          await this.delay(backoffDelay);
-          continue;
-        }
-
-        // Client error or final attempt - throw error
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `Claude API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`
-        );
-      } catch (error: any) {
-        lastError = error as Error;
-        if (attempt === maxRetries || error.name === 'AbortError') {
-          throw error;
-        }
-        
-        // Wait before retry
-        const backoffDelay = Math.pow(2, attempt) * 1000;
-        this.logger.warn(`Request failed, retrying in ${backoffDelay}ms`, error as Error);
-        await this.delay(backoffDelay);
-      }
-    }
-    
-    throw lastError!;
+  getProvider(): LLMProvider {
+    return this.provider;
   }
 
   /**
@@ -360,7 +371,12 @@ Please analyze this request and generate a comprehensive instruction protocol th
   /**
    * Send a chat message (simpler interface for chat)
    */
-  async sendMessage(message: string, _sessionId: string, history: any[] = []): Promise<string> {
+  async sendMessage(
+    message: string,
+    _sessionId: string,
+    history: any[] = [],
+    stream?: StreamOptions
+  ): Promise<string> {
     const messages: ClaudeMessage[] = history.map(msg => ({
       role: msg.role as 'user' | 'assistant',
       content: msg.content
@@ -381,7 +397,7 @@ Please analyze this request and generate a comprehensive instruction protocol th
         system: `You are the Planning Actor for SessionHub, helping users plan their development projects. 
 Be helpful, clear, and focused on understanding requirements and creating strategic plans.
 Do not write code - only describe what needs to be built.`
-      });
+      }, stream);
 
       return response.content[0]?.text || 'No response generated';
     } catch (error: any) {
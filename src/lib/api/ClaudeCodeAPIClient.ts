@@ -5,8 +5,11 @@
  */
 
 import { Logger } from '@/src/lib/logging/Logger';
-import { InstructionProtocol } from '@/src/models/Instruction';
+import { CriterionFailure, InstructionProtocol } from '@/src/models/Instruction';
 import { APIUsageTracker } from '@/src/services/usage/APIUsageTracker';
+import { StreamCancelledError, StreamOptions } from './MessageStream';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { fitToContextWindow, LLMProvider } from './providers/LLMProvider';
 import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -21,6 +24,8 @@ export interface ClaudeCodeAPIConfig {
   temperature?: number;
   timeout?: number;
   workspaceDir?: string;
+  // Sends requests somewhere other than the Anthropic API
+  provider?: LLMProvider;
 }
 
 export interface CodeGenerationRequest {
@@ -31,25 +36,92 @@ export interface CodeGenerationRequest {
     framework?: string;
     existingCode?: string;
   };
+  // Set on repair attempts: the code that failed and why
+  repair?: RepairContext;
 }
 
+export interface RepairContext {
+  attempt: number;
+  previousCode: string;
+  failures: CriterionFailure[];
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Keeps repair prompts bounded when test output is long
+const MAX_EVIDENCE_CHARS = 4000;
+
 export interface CodeExecutionResult {
   success: boolean;
   output: string;
   error?: string;
+  // Original failure, so callers can inspect structured sandbox errors
+  cause?: Error;
   files: string[];
+  // Files the generated code removed, relative to the workspace like files
+  deleted?: string[];
+  // Project commands that ran after the changes; a failing one fails the run
+  commands: string[];
   executionTime: number;
 }
 
+export interface GeneratedFileChange {
+  path: string;
+  content: string | null;
+}
+
+/**
+ * Runs a shell command in the given directory and resolves with stdout.
+ * Lets callers route generated-code commands through a sandbox.
+ */
+export type CommandRunner = (command: string, cwd: string) => Promise<string>;
+
+export interface CodeExecutionOptions {
+  runner?: CommandRunner;
+  // Called with the absolute path before each file is written or deleted
+  beforeFileChange?: (fullPath: string) => Promise<void>;
+  // Called after each change with the written content, or null for a delete
+  afterFileChange?: (fullPath: string, content: string | null) => Promise<void> | void;
+}
+
+export interface APIRequestBody {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  max_tokens: number;
+  temperature: number;
+  system: string;
+}
+
+export interface APIResponseBody {
+  content: Array<{ text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number; };
+  model?: string;
+}
+
+/**
+ * Observes or stands in for the API exchanges of a single call, so runs
+ * can be recorded and replayed without network access
+ */
+export interface APIExchangeInterceptor {
+  // Resolve with a response to answer the request without sending it
+  beforeRequest?: (request: APIRequestBody) => Promise<APIResponseBody | undefined> | APIResponseBody | undefined;
+  afterResponse?: (request: APIRequestBody, response: APIResponseBody) => void;
+}
+
 export class ClaudeCodeAPIClient {
   private readonly logger: Logger;
-  private readonly config: Required<ClaudeCodeAPIConfig>;
+  private readonly config: Required<Omit<ClaudeCodeAPIConfig, 'provider'>>;
+  private readonly provider: LLMProvider;
   private readonly workspaceDir: string;
   private rateLimiter: Map<string, number> = new Map();
   private readonly maxRequestsPerMinute = 30; // Lower for code generation
   private usageTracker?: APIUsageTracker;
   private currentSessionId?: string;
   private currentUserId?: string;
+  private lastUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
   constructor(config: ClaudeCodeAPIConfig, logger?: Logger) {
     this.logger = logger || new Logger('ClaudeCodeAPIClient');
@@ -62,7 +134,7 @@ export class ClaudeCodeAPIClient {
     this.config = {
       apiKey: config.apiKey,
       apiUrl: config.apiUrl || 'https://api.anthropic.com/v1/messages',
-      model: config.model || 'claude-3-5-sonnet-20241022',
+      model: config.model || config.provider?.defaultModel || 'claude-3-5-sonnet-20241022',
       maxTokens: config.maxTokens || 8000,
       temperature: config.temperature || 0.3,
       timeout: config.timeout || 120000, // Longer timeout for code generation
@@ -70,12 +142,21 @@ export class ClaudeCodeAPIClient {
     };
     
     this.workspaceDir = this.config.workspaceDir;
+    this.provider = config.provider || new AnthropicProvider({
+      apiKey: this.config.apiKey,
+      apiUrl: this.config.apiUrl,
+      defaultModel: this.config.model
+    }, this.logger);
   }
 
   /**
    * Generate code from instructions
    */
-  async generateCode(request: CodeGenerationRequest): Promise<string> {
+  async generateCode(
+    request: CodeGenerationRequest,
+    exchange?: APIExchangeInterceptor,
+    stream?: StreamOptions
+  ): Promise<string> {
     const systemPrompt = `You are the Execution Actor in SessionHub's Two-Actor Architecture.
 
 Your role is to:
@@ -115,7 +196,11 @@ For each file, use this format:
 <file content>
 === END FILE ===
 
-Implement everything needed to meet all success criteria.`;
+To remove an existing file, emit:
+
+=== DELETE FILE: path/to/file.ext ===
+
+Implement everything needed to meet all success criteria.${request.repair ? this.buildRepairPrompt(request.repair) : ''}`;
 
     try {
       const response = await this.sendRequest({
@@ -126,7 +211,7 @@ Implement everything needed to meet all success criteria.`;
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
         system: systemPrompt
-      });
+      }, exchange, stream);
 
       const content = response.content[0]?.text;
       if (!content) {
@@ -140,28 +225,64 @@ Implement everything needed to meet all success criteria.`;
     }
   }
 
+  /**
+   * Token usage of the most recent API request
+   */
+  getLastUsage(): TokenUsage {
+    return { ...this.lastUsage };
+  }
+
+  /**
+   * Describe a failed attempt so the next generation can correct it
+   */
+  private buildRepairPrompt(repair: RepairContext): string {
+    const failures = repair.failures.map(failure => {
+      const evidence = failure.evidence.length > MAX_EVIDENCE_CHARS
+        ? `${failure.evidence.slice(0, MAX_EVIDENCE_CHARS)}\n... (truncated)`
+        : failure.evidence;
+      return `- ${failure.criterionId}: ${failure.criterion}\n${evidence}`;
+    }).join('\n\n');
+
+    return `
+
+REPAIR ATTEMPT ${repair.attempt}
+Your previous implementation did not pass these automated success criteria:
+
+${failures}
+
+Previous implementation:
+
+${repair.previousCode}
+
+Fix the failures above. Emit every file of the corrected implementation in the same format, not only the changed ones.`;
+  }
+
   /**
    * Execute generated code in isolated environment
    */
   async executeCode(
     code: string,
-    instruction: InstructionProtocol
+    instruction: InstructionProtocol,
+    options: CodeExecutionOptions = {}
   ): Promise<CodeExecutionResult> {
     const startTime = Date.now();
-    const sessionDir = path.join(this.workspaceDir, instruction.metadata.sessionId);
+    const sessionDir = this.getWorkspaceDir(instruction.metadata.sessionId);
+    const run: CommandRunner = options.runner || ((command, cwd) => this.runCommand(command, cwd));
     
     try {
       // Create workspace directory
       await fs.mkdir(sessionDir, { recursive: true });
       
       // Parse and write files
-      const files = await this.parseAndWriteFiles(code, sessionDir);
+      const changes = this.parseGeneratedChanges(code);
+      const files = await this.applyChanges(changes, sessionDir, options);
       
-      // Determine execution command based on project type
-      const execCommand = await this.determineExecutionCommand(sessionDir, files);
-      
-      // Execute the code
-      const output = await this.runCommand(execCommand, sessionDir);
+      // Determine execution commands based on project type and run them
+      const commands = this.planCommands(changes);
+      const outputs: string[] = [];
+      for (const command of commands) {
+        outputs.push(await run(command, sessionDir));
+      }
       
       // Run validation tests if specified
       const validationOutput = await this.runValidation(sessionDir, instruction);
@@ -170,8 +291,10 @@ Implement everything needed to meet all success criteria.`;
       
       return {
         success: true,
-        output: output + '\n\n' + validationOutput,
+        output: outputs.join('\n') + '\n\n' + validationOutput,
         files,
+        deleted: changes.filter(change => change.content === null).map(change => change.path),
+        commands,
         executionTime
       };
     } catch (error) {
@@ -181,77 +304,120 @@ Implement everything needed to meet all success criteria.`;
         success: false,
         output: '',
         error: (error as Error).message,
+        cause: error as Error,
         files: [],
+        commands: [],
         executionTime
       };
     }
   }
 
   /**
-   * Parse generated code and write files
+   * Workspace directory generated code for a session is written to
    */
-  private async parseAndWriteFiles(code: string, _sessionDir: string): Promise<string[]> {
-    const fileRegex = /=== FILE: (.*?) ===\n([\s\S]*?)(?=\n=== (?:END FILE|FILE:)|$)/g;
-    const files: string[] = [];
+  getWorkspaceDir(sessionId: string): string {
+    return path.join(this.workspaceDir, sessionId);
+  }
+
+  /**
+   * Parse generated code into file changes without touching the disk.
+   * A null content marks a file the generated code deletes.
+   */
+  parseGeneratedChanges(code: string): GeneratedFileChange[] {
+    const fileRegex = /=== (FILE|DELETE FILE): (.*?) ===\n?([\s\S]*?)(?=\n=== (?:END FILE|FILE:|DELETE FILE:)|$)/g;
+    const changes: GeneratedFileChange[] = [];
     let match;
 
     while ((match = fileRegex.exec(code)) !== null) {
-      const filePath = match[1]?.trim() || '';
-      const fileContent = match[2]?.trim() || '';
-      
-      const fullPath = path.join(_sessionDir, filePath);
-      const dir = path.dirname(fullPath);
-      
-      // Create directory structure
-      await fs.mkdir(dir, { recursive: true });
-      
-      // Write file
-      await fs.writeFile(fullPath, fileContent, 'utf8');
-      files.push(filePath);
-      
-      this.logger.debug('Wrote file', { path: filePath });
+      const filePath = match[2]?.trim() || '';
+      if (!filePath) continue;
+
+      changes.push({
+        path: filePath,
+        content: match[1] === 'DELETE FILE' ? null : match[3]?.trim() || ''
+      });
     }
 
-    return files;
+    return changes;
   }
 
   /**
-   * Determine execution command based on files
+   * Absolute path of a generated change, refusing paths that leave the
+   * session workspace (absolute paths, `..` segments)
    */
-  private async determineExecutionCommand(
-    sessionDir: string,
-    files: string[]
-  ): Promise<string> {
+  resolveChangePath(sessionDir: string, changePath: string): string {
+    const root = path.resolve(sessionDir);
+    const fullPath = path.resolve(root, changePath);
+    if (fullPath === root || !fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Generated change ${changePath} is outside the session workspace`);
+    }
+    return fullPath;
+  }
+
+  /**
+   * Commands a run of the given changes would execute, in order
+   */
+  planCommands(changes: GeneratedFileChange[]): string[] {
     // Check for package.json
-    if (files.includes('package.json')) {
-      const packageJson = JSON.parse(
-        await fs.readFile(path.join(sessionDir, 'package.json'), 'utf8')
-      );
-      
-      // Install dependencies
-      await this.runCommand('npm install', sessionDir);
+    const packageFile = changes.find(c => c.path === 'package.json' && c.content !== null);
+    if (packageFile?.content) {
+      const packageJson = JSON.parse(packageFile.content);
       
-      // Check for test script
+      // Check for test script, then start script
       if (packageJson.scripts?.test) {
-        return 'npm test';
+        return ['npm install', 'npm test'];
       }
       
-      // Check for start script
       if (packageJson.scripts?.start) {
-        return 'npm start';
+        return ['npm install', 'npm start'];
       }
     }
     
     // Check for Python files
-    if (files.some(f => f.endsWith('.py'))) {
-      const mainPy = files.find(f => f === 'main.py' || f === 'app.py');
-      if (mainPy) {
-        return `python ${mainPy}`;
-      }
+    const mainPy = changes.find(c => c.content !== null && (c.path === 'main.py' || c.path === 'app.py'));
+    if (mainPy) {
+      return [`python ${mainPy.path}`];
     }
     
     // Default: list files
-    return 'ls -la';
+    return ['ls -la'];
+  }
+
+  /**
+   * Write and delete files for parsed changes
+   */
+  private async applyChanges(
+    changes: GeneratedFileChange[],
+    sessionDir: string,
+    options: CodeExecutionOptions
+  ): Promise<string[]> {
+    const files: string[] = [];
+    // Check every path before touching the disk, so a bad change applies nothing
+    const fullPaths = changes.map(change => this.resolveChangePath(sessionDir, change.path));
+
+    for (const [index, change] of changes.entries()) {
+      const fullPath = fullPaths[index] as string;
+      await options.beforeFileChange?.(fullPath);
+
+      if (change.content === null) {
+        await fs.rm(fullPath, { force: true });
+        await options.afterFileChange?.(fullPath, null);
+        this.logger.debug('Deleted file', { path: change.path });
+        continue;
+      }
+      
+      // Create directory structure
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      
+      // Write file
+      await fs.writeFile(fullPath, change.content, 'utf8');
+      await options.afterFileChange?.(fullPath, change.content);
+      files.push(change.path);
+      
+      this.logger.debug('Wrote file', { path: change.path });
+    }
+
+    return files;
   }
 
   /**
@@ -328,49 +494,105 @@ Implement everything needed to meet all success criteria.`;
   }
 
   /**
-   * Send request to Claude API with rate limiting and retry logic
+   * Send request through the provider with rate limiting. Providers
+   * without streaming answer in one piece, reported as a single delta.
    */
-  private async sendRequest(request: {
-    model: string;
-    messages: Array<{ role: string; content: string }>;
-    max_tokens: number;
-    temperature: number;
-    system: string;
-  }): Promise<{ content: Array<{ text?: string }>; usage?: { input_tokens: number; output_tokens: number; }; model?: string; }> {
+  private async sendRequest(
+    request: APIRequestBody,
+    exchange?: APIExchangeInterceptor,
+    stream?: StreamOptions
+  ): Promise<APIResponseBody> {
+    const replayed = await exchange?.beforeRequest?.(request);
+    if (replayed) {
+      const text = replayed.content[0]?.text;
+      if (text) stream?.onText?.(text, text);
+      this.lastUsage = {
+        inputTokens: replayed.usage?.input_tokens || 0,
+        outputTokens: replayed.usage?.output_tokens || 0
+      };
+      this.logger.debug('Claude Code API request answered without network', { model: request.model });
+      exchange?.afterResponse?.(request, replayed);
+      return replayed;
+    }
+
     await this.checkRateLimit();
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const cancel = () => controller.abort();
+    stream?.signal?.addEventListener('abort', cancel, { once: true });
+    // A stream that only carries a cancellation signal has no reader to stream to
+    const streaming = stream?.onText && this.provider.capabilities(request.model).streaming ? stream : undefined;
 
     try {
-      this.logger.debug('Sending code generation request to Claude API', {
+      this.logger.debug('Sending code generation request to model provider', {
+        provider: this.provider.id,
         model: request.model,
-        maxTokens: request.max_tokens
+        maxTokens: request.max_tokens,
+        stream: !!streaming
       });
 
-      const response = await this.makeRequestWithRetry(request, controller.signal);
-      const data = await response.json();
+      const completion = await this.provider.complete(fitToContextWindow(this.provider, {
+        model: request.model,
+        system: request.system,
+        messages: request.messages.map(message => ({
+          role: message.role === 'assistant' ? 'assistant' : 'user',
+          content: message.content
+        })),
+        maxTokens: request.max_tokens,
+        temperature: request.temperature,
+        signal: controller.signal,
+        stream: streaming
+      }));
+      if (stream && !streaming) {
+        stream.onText?.(completion.text, completion.text);
+      }
+
+      const data: APIResponseBody = {
+        content: [{ text: completion.text }],
+        usage: { input_tokens: completion.inputTokens, output_tokens: completion.outputTokens },
+        model: completion.model
+      };
+      this.lastUsage = {
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens
+      };
 
-      this.logger.debug('Claude Code API response received', {
-        contentLength: data.content?.[0]?.text?.length || 0,
-        inputTokens: data.usage?.input_tokens || 0,
-        outputTokens: data.usage?.output_tokens || 0
+      this.logger.debug('Model provider response received', {
+        provider: this.provider.id,
+        contentLength: completion.text.length,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens
       });
 
-      // Track usage if tracker is available
-      if (this.usageTracker && this.currentSessionId && this.currentUserId && data.usage) {
-        await this.usageTracker.trackUsage({
-          sessionId: this.currentSessionId,
-          model: data.model || request.model,
-          inputTokens: data.usage.input_tokens,
-          outputTokens: data.usage.output_tokens,
-          requestType: 'execution',
-          userId: this.currentUserId
-        });
-      }
+      await this.trackUsage(completion.model, completion.inputTokens, completion.outputTokens);
 
+      exchange?.afterResponse?.(request, data);
       return data;
     } catch (error: any) {
+      if (error instanceof StreamCancelledError) {
+        // A cancelled stream still has its partial usage tracked
+        this.lastUsage = {
+          inputTokens: error.partial.inputTokens,
+          outputTokens: error.partial.outputTokens
+        };
+        this.logger.info('Model provider stream cancelled', {
+          receivedChars: error.partial.text.length,
+          outputTokens: error.partial.outputTokens
+        });
+        await this.trackUsage(
+          error.partial.model || request.model,
+          error.partial.inputTokens,
+          error.partial.outputTokens,
+          true
+        );
+        throw error;
+      }
+      if (stream?.signal?.aborted) {
+        throw new StreamCancelledError('Request cancelled before streaming started', {
+          text: '', inputTokens: 0, outputTokens: 0, complete: false
+        });
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Claude Code API request timed out after ${this.config.timeout}ms`);
       }
@@ -378,72 +600,35 @@ Implement everything needed to meet all success criteria.`;
       throw error;
     } finally {
       clearTimeout(timeoutId);
+      stream?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private async trackUsage(
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    partial?: boolean
+  ): Promise<void> {
+    if (this.usageTracker && this.currentSessionId && this.currentUserId) {
+      await this.usageTracker.trackUsage({
+        sessionId: this.currentSessionId,
+        provider: this.provider.id,
+        model,
+        inputTokens,
+        outputTokens,
+        requestType: 'execution',
+        userId: this.currentUserId,
+        partial
+      });
     }
   }
 
   /**
-   * Make API request with retry logic
+   * Provider requests are sent through, for capability checks
    */
-  private async makeRequestWithRetry(
-    request: any, 
-    signal: AbortSignal,
-    maxRetries = 3
-  ): Promise<Response> {
-    let lastError: Error;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await fetch(this.config.apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': this.config.apiKey,
-            'anthropic-version': '2023-06-01'
-          },
-          body: JSON.stringify(request),
-          signal
-        });
-
-        if (response.ok) {
-          return response;
-        }
-
-        // Handle specific error codes
-        if (response.status === 429) {
-          // Rate limited - wait and retry
-          const retryAfter = parseInt(response.headers.get('retry-after') || '60');
-          this.logger.warn(`Code API rate limited, waiting ${retryAfter}s before retry ${attempt}/${maxRetries}`);
-          await this.delay(retryAfter * 1000);
-          continue;
-        }
-
-        if (response.status >= 500 && attempt < maxRetries) {
-          // Server error - retry with exponential backoff
-          const backoffDelay = Math.pow(2, attempt) * 1000;
-          this.logger.warn(`Code API server error ${response.status}, retrying in ${backoffDelay}ms`);
-          await this.delay(backoffDelay);
-          continue;
-        }
-
-        // Client error or final attempt - throw error
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `Claude Code API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`
-        );
-      } catch (error: any) {
-        lastError = error as Error;
-        if (attempt === maxRetries || error.name === 'AbortError') {
-          throw error;
-        }
-        
-        // Wait before retry
-        const backoffDelay = Math.pow(2, attempt) * 1000;
-        this.logger.warn(`Code API request failed, retrying in ${backoffDelay}ms`, error as Error);
-        await this.delay(backoffDelay);
-      }
-    }
-    
-    throw lastError!;
+  getProvider(): LLMProvider {
+    return this.provider;
   }
 
   /**
@@ -0,0 +1,148 @@
+/**
+ * Server-sent event streaming for Claude message responses
+ * Shared by the planning and execution API clients
+ */
+
+export interface StreamOptions {
+  // Called with each text delta and the full text received so far
+  onText?: (delta: string, text: string) => void;
+  // Aborting ends the stream; usage received up to that point is still tracked
+  signal?: AbortSignal;
+}
+
+export interface StreamedMessage {
+  text: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  stopReason?: string;
+  // False when the stream ended before message_stop
+  complete: boolean;
+}
+
+export class StreamCancelledError extends Error {
+  constructor(message: string, public partial: StreamedMessage) {
+    super(message);
+    this.name = 'StreamCancelledError';
+  }
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Split a response body into server-sent events. Comment lines are
+ * skipped and multi-line data fields are joined with newlines.
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): ServerSentEvent | undefined => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      if (field === 'data') data.push(value);
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const parsed = parseBlock(block);
+        if (parsed) yield parsed;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const last = parseBlock(buffer + decoder.decode());
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a streamed Messages API response, reporting text as it arrives.
+ * When the caller's signal aborts, throws StreamCancelledError carrying
+ * the text and usage received so far.
+ */
+export async function readMessageStream(
+  response: Response,
+  options: StreamOptions = {}
+): Promise<StreamedMessage> {
+  const message: StreamedMessage = { text: '', inputTokens: 0, outputTokens: 0, complete: false };
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  try {
+    for await (const sse of parseServerSentEvents(response.body)) {
+      if (sse.data === '[DONE]') break;
+      const data = JSON.parse(sse.data);
+
+      switch (data.type) {
+        case 'message_start':
+          message.model = data.message?.model;
+          message.inputTokens = data.message?.usage?.input_tokens || 0;
+          message.outputTokens = data.message?.usage?.output_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            message.text += data.delta.text;
+            options.onText?.(data.delta.text, message.text);
+          }
+          break;
+        case 'message_delta':
+          message.stopReason = data.delta?.stop_reason ?? message.stopReason;
+          message.outputTokens = data.usage?.output_tokens ?? message.outputTokens;
+          break;
+        case 'message_stop':
+          message.complete = true;
+          break;
+        case 'error':
+          throw new Error(`Claude API stream error: ${data.error?.type} - ${data.error?.message}`);
+      }
+
+      if (options.signal?.aborted) break;
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) throw error;
+  }
+
+  if (options.signal?.aborted && !message.complete) {
+    throw new StreamCancelledError('Stream cancelled before completion', withEstimatedUsage(message));
+  }
+  if (!message.complete) {
+    throw new Error('Claude API stream ended before the message completed');
+  }
+
+  return message;
+}
+
+/**
+ * Output tokens are only reported at the end of a stream; estimate them
+ * from the text received when the stream was cut short
+ */
+export function withEstimatedUsage(message: StreamedMessage): StreamedMessage {
+  const estimated = Math.ceil(message.text.length / 4);
+  return { ...message, outputTokens: Math.max(message.outputTokens, estimated) };
+}
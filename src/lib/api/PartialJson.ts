@@ -0,0 +1,76 @@
+/**
+ * Best-effort parsing of JSON that is still being streamed
+ */
+
+/**
+ * Parse the complete part of a JSON object whose text may be cut off
+ * anywhere. Values still being written are dropped and open containers
+ * are closed. List items appear only once fully received, so lists fill
+ * in one item at a time. Returns undefined until a prefix parses.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  // Positions where the prefix ends on a value boundary, with the
+  // closers needed to make it valid at that point
+  const cuts: Array<{ end: number; closers: string }> = [];
+  const stack: Array<{ closer: string; listItem: boolean }> = [];
+  // Open containers that are list items; no cut is taken inside them
+  let openItems = 0;
+  let inString = false;
+  let escaped = false;
+  const closers = () => stack.map(open => open.closer).reverse().join('');
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        break;
+      case '{':
+      case '[': {
+        const listItem = stack[stack.length - 1]?.closer === ']';
+        stack.push({ closer: char === '{' ? '}' : ']', listItem });
+        if (listItem) openItems++;
+        if (openItems === 0) cuts.push({ end: i + 1, closers: closers() });
+        break;
+      }
+      case '}':
+      case ']':
+        if (stack.pop()?.listItem) openItems--;
+        if (stack.length === 0) {
+          return tryParse(text.slice(start, i + 1));
+        }
+        if (openItems === 0) cuts.push({ end: i + 1, closers: closers() });
+        break;
+      case ',':
+        if (openItems === 0) cuts.push({ end: i, closers: closers() });
+        break;
+    }
+  }
+
+  // A cut right after a key or colon is not valid; fall back to earlier ones
+  for (let i = cuts.length - 1; i >= 0; i--) {
+    const cut = cuts[i] as { end: number; closers: string };
+    const parsed = tryParse(text.slice(start, cut.end) + cut.closers);
+    if (parsed !== undefined) return parsed;
+  }
+  return undefined;
+}
+
+function tryParse(candidate: string): unknown {
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+}
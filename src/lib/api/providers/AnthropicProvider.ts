@@ -0,0 +1,141 @@
+/**
+ * Anthropic Messages API provider
+ */
+
+import { Logger } from '../../logging/Logger';
+import { readMessageStream } from '../MessageStream';
+import {
+  CompletionRequest,
+  CompletionResponse,
+  LLMProvider,
+  ProviderCapabilities,
+  ProviderError
+} from './LLMProvider';
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  apiUrl?: string;
+  defaultModel?: string;
+  maxRetries?: number;
+}
+
+export const ANTHROPIC_PROVIDER_ID = 'anthropic';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id = ANTHROPIC_PROVIDER_ID;
+  readonly defaultModel: string;
+  private readonly logger: Logger;
+  private readonly apiKey: string;
+  private readonly apiUrl: string;
+  private readonly maxRetries: number;
+
+  constructor(config: AnthropicProviderConfig, logger?: Logger) {
+    this.logger = logger || new Logger('AnthropicProvider');
+    this.apiKey = config.apiKey;
+    this.apiUrl = config.apiUrl || 'https://api.anthropic.com/v1/messages';
+    this.defaultModel = config.defaultModel || 'claude-3-5-sonnet-20241022';
+    this.maxRetries = config.maxRetries || 3;
+  }
+
+  capabilities(_model?: string): ProviderCapabilities {
+    return { contextWindow: 200000, toolUse: true, streaming: true };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.postWithRetry({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.stream ? { stream: true } : {})
+    }, request.signal);
+
+    if (request.stream) {
+      const message = await readMessageStream(response, request.stream);
+      return {
+        text: message.text,
+        model: message.model || request.model,
+        inputTokens: message.inputTokens,
+        outputTokens: message.outputTokens
+      };
+    }
+
+    const data = await response.json() as {
+      content?: Array<{ text?: string }>;
+      model?: string;
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+    return {
+      text: data.content?.[0]?.text || '',
+      model: data.model || request.model,
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0
+    };
+  }
+
+  /**
+   * POST with retries on rate limits, server errors and network failures
+   */
+  private async postWithRetry(body: object, signal?: AbortSignal): Promise<Response> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        const response = await fetch(this.apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': this.apiKey,
+            'anthropic-version': '2023-06-01'
+          },
+          body: JSON.stringify(body),
+          signal
+        });
+
+        if (response.ok) {
+          return response;
+        }
+
+        if (response.status === 429) {
+          // Rate limited - wait and retry
+          const retryAfter = parseInt(response.headers.get('retry-after') || '60');
+          this.logger.warn(`Rate limited, waiting ${retryAfter}s before retry ${attempt}/${this.maxRetries}`);
+          await this.delay(retryAfter * 1000);
+          continue;
+        }
+
+        if (response.status >= 500 && attempt < this.maxRetries) {
+          // Server error - retry with exponential backoff
+          const backoffDelay = Math.pow(2, attempt) * 1000;
+          this.logger.warn(`Server error ${response.status}, retrying in ${backoffDelay}ms`);
+          await this.delay(backoffDelay);
+          continue;
+        }
+
+        // Client error or final attempt
+        const errorData = await response.json().catch(() => ({}));
+        throw new ProviderError(
+          `Claude API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`,
+          this.id,
+          response.status
+        );
+      } catch (error: any) {
+        lastError = error as Error;
+        if (attempt === this.maxRetries || error.name === 'AbortError' || error instanceof ProviderError) {
+          throw error;
+        }
+
+        const backoffDelay = Math.pow(2, attempt) * 1000;
+        this.logger.warn(`Request failed, retrying in ${backoffDelay}ms`, error as Error);
+        await this.delay(backoffDelay);
+      }
+    }
+
+    throw lastError ?? new ProviderError('Claude API request failed', this.id);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Model provider abstraction shared by the planning and execution clients
+ * Providers only move messages over the wire; prompts, rate limiting and
+ * usage tracking stay with the clients
+ */
+
+import { StreamOptions } from '../MessageStream';
+
+export interface ProviderCapabilities {
+  // Maximum prompt plus completion tokens the model accepts
+  contextWindow: number;
+  toolUse: boolean;
+  streaming: boolean;
+}
+
+export interface CompletionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  system?: string;
+  messages: CompletionMessage[];
+  maxTokens: number;
+  temperature: number;
+  // Aborts the request, e.g. on timeout
+  signal?: AbortSignal;
+  // Streams the response; ignored by providers without streaming
+  stream?: StreamOptions;
+}
+
+export interface CompletionResponse {
+  text: string;
+  // Model that answered, which may differ from the requested alias
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMProvider {
+  // Stable identifier used to key pricing and usage, e.g. "anthropic"
+  readonly id: string;
+  readonly defaultModel: string;
+  capabilities(model?: string): ProviderCapabilities;
+  /**
+   * Send one completion request. A cancelled stream rejects with
+   * StreamCancelledError carrying the text and usage received so far.
+   */
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public provider: string, public status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Rough token count used to check prompts against a context window
+ * before sending them
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * System prompt and messages as sent, for token estimates
+ */
+export function promptText(request: Pick<CompletionRequest, 'system' | 'messages'>): string {
+  const parts = request.messages.map(message => message.content);
+  return (request.system ? [request.system, ...parts] : parts).join('\n');
+}
+
+export function isLLMProvider(value: unknown): value is LLMProvider {
+  const candidate = value as Partial<LLMProvider> | undefined;
+  return typeof candidate?.complete === 'function' && typeof candidate.capabilities === 'function';
+}
+
+/**
+ * Shrink the completion budget so prompt and answer fit the model's
+ * context window. Throws when the prompt alone leaves no useful room.
+ */
+export function fitToContextWindow(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  minOutputTokens = 256
+): CompletionRequest {
+  const { contextWindow } = provider.capabilities(request.model);
+  const prompt = promptText(request);
+  const available = contextWindow - estimateTokens(prompt);
+
+  if (available < minOutputTokens) {
+    throw new ProviderError(
+      `Prompt of about ${estimateTokens(prompt)} tokens does not fit the ${contextWindow}-token ` +
+      `context window of ${provider.id}:${request.model}`,
+      provider.id
+    );
+  }
+  return request.maxTokens > available ? { ...request, maxTokens: available } : request;
+}
@@ -0,0 +1,191 @@
+/**
+ * Provider for servers that speak the OpenAI chat completions API, such as
+ * self-hosted vLLM, Ollama or llama.cpp model servers
+ */
+
+import { Logger } from '../../logging/Logger';
+import {
+  parseServerSentEvents,
+  StreamCancelledError,
+  StreamedMessage,
+  StreamOptions,
+  withEstimatedUsage
+} from '../MessageStream';
+import {
+  CompletionRequest,
+  CompletionResponse,
+  estimateTokens,
+  LLMProvider,
+  promptText,
+  ProviderCapabilities,
+  ProviderError
+} from './LLMProvider';
+
+export interface OpenAICompatibleProviderConfig {
+  // Base URL including the version prefix, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  defaultModel: string;
+  // Self-hosted servers often need no key
+  apiKey?: string;
+  // Distinguishes servers in pricing and usage; defaults to "openai-compatible"
+  id?: string;
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+export const OPENAI_COMPATIBLE_PROVIDER_ID = 'openai-compatible';
+
+// Conservative defaults; most local models have small context windows
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  contextWindow: 8192,
+  toolUse: false,
+  streaming: true
+};
+
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  error?: { message?: string };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly defaultModel: string;
+  private readonly logger: Logger;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly modelCapabilities: ProviderCapabilities;
+
+  constructor(config: OpenAICompatibleProviderConfig, logger?: Logger) {
+    this.logger = logger || new Logger('OpenAICompatibleProvider');
+    this.id = config.id || OPENAI_COMPATIBLE_PROVIDER_ID;
+    this.defaultModel = config.defaultModel;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.modelCapabilities = { ...DEFAULT_CAPABILITIES, ...config.capabilities };
+  }
+
+  capabilities(_model?: string): ProviderCapabilities {
+    return { ...this.modelCapabilities };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const stream = this.modelCapabilities.streaming ? request.stream : undefined;
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new ProviderError(
+        `Model server error: ${response.status} ${response.statusText} - ${errorText}`,
+        this.id,
+        response.status
+      );
+    }
+
+    if (stream) {
+      const message = await this.readStream(response, request, stream);
+      return {
+        text: message.text,
+        model: message.model || request.model,
+        inputTokens: message.inputTokens,
+        outputTokens: message.outputTokens
+      };
+    }
+
+    const data = await response.json() as ChatCompletion;
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || request.model,
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0
+    };
+  }
+
+  /**
+   * Read a streamed chat completion. Servers that ignore include_usage
+   * report no token counts, so usage is estimated from the text instead.
+   */
+  private async readStream(
+    response: Response,
+    request: CompletionRequest,
+    options: StreamOptions
+  ): Promise<StreamedMessage> {
+    const message: StreamedMessage = { text: '', inputTokens: 0, outputTokens: 0, complete: false };
+    if (!response.body) {
+      throw new ProviderError('Streaming response has no body', this.id);
+    }
+
+    try {
+      for await (const sse of parseServerSentEvents(response.body)) {
+        if (sse.data === '[DONE]') {
+          message.complete = true;
+          break;
+        }
+        const chunk = JSON.parse(sse.data) as ChatCompletionChunk;
+        if (chunk.error) {
+          throw new ProviderError(`Model server stream error: ${chunk.error.message}`, this.id);
+        }
+
+        message.model = chunk.model || message.model;
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) {
+          message.text += choice.delta.content;
+          options.onText?.(choice.delta.content, message.text);
+        }
+        if (choice?.finish_reason) {
+          message.stopReason = choice.finish_reason;
+        }
+        if (chunk.usage) {
+          message.inputTokens = chunk.usage.prompt_tokens || 0;
+          message.outputTokens = chunk.usage.completion_tokens || 0;
+        }
+
+        if (options.signal?.aborted) break;
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) throw error;
+    }
+
+    if (options.signal?.aborted && !message.complete) {
+      throw new StreamCancelledError('Stream cancelled before completion', withEstimatedUsage(message));
+    }
+    // Some servers close the stream without a [DONE] marker
+    if (!message.complete && !message.stopReason) {
+      throw new ProviderError('Model server stream ended before the response completed', this.id);
+    }
+
+    if (message.outputTokens === 0) {
+      this.logger.debug('Model server reported no usage; estimating tokens', { model: request.model });
+      return {
+        ...withEstimatedUsage(message),
+        inputTokens: message.inputTokens || estimateTokens(promptText(request)),
+        complete: true
+      };
+    }
+    return { ...message, complete: true };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Model providers and the factory that builds them from actor configuration
+ */
+
+import { Logger } from '../../logging/Logger';
+import { ModelConfig } from '../../../models/ActorConfig';
+import { AnthropicProvider } from './AnthropicProvider';
+import { LLMProvider, ProviderCapabilities } from './LLMProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export * from './LLMProvider';
+export * from './AnthropicProvider';
+export * from './OpenAICompatibleProvider';
+
+export interface ProviderConfig extends Pick<ModelConfig, 'provider' | 'apiKey' | 'apiUrl'> {
+  model?: string;
+  // Overrides for servers whose limits differ from the defaults
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+const DEFAULT_BASE_URLS: Record<'openai' | 'local', string> = {
+  openai: 'https://api.openai.com/v1',
+  local: 'http://localhost:11434/v1'
+};
+
+/**
+ * Build a provider. "openai" and "local" both speak the OpenAI chat
+ * completions API and differ only in their default base URL.
+ */
+export function createLLMProvider(config: ProviderConfig, logger?: Logger): LLMProvider {
+  if (config.provider === 'anthropic') {
+    return new AnthropicProvider({
+      apiKey: config.apiKey || '',
+      apiUrl: config.apiUrl,
+      defaultModel: config.model
+    }, logger);
+  }
+
+  if (!config.model) {
+    throw new Error(`A model name is required for the ${config.provider} provider`);
+  }
+  return new OpenAICompatibleProvider({
+    id: config.provider === 'local' ? 'local' : 'openai',
+    baseUrl: config.apiUrl || DEFAULT_BASE_URLS[config.provider],
+    defaultModel: config.model,
+    apiKey: config.apiKey,
+    capabilities: config.capabilities
+  }, logger);
+}
+
+/**
+ * Provider selected through SESSIONHUB_LLM_* environment variables, or
+ * undefined when none is set and the Anthropic default applies
+ */
+export function providerFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env,
+  logger?: Logger
+): LLMProvider | undefined {
+  const provider = env['SESSIONHUB_LLM_PROVIDER'];
+  if (!provider) return undefined;
+  if (provider !== 'anthropic' && provider !== 'openai' && provider !== 'local') {
+    throw new Error(`Unknown SESSIONHUB_LLM_PROVIDER "${provider}"; expected anthropic, openai or local`);
+  }
+
+  const contextWindow = Number(env['SESSIONHUB_LLM_CONTEXT_WINDOW']);
+  return createLLMProvider({
+    provider,
+    model: env['SESSIONHUB_LLM_MODEL'],
+    apiUrl: env['SESSIONHUB_LLM_BASE_URL'],
+    apiKey: env['SESSIONHUB_LLM_API_KEY'] || (provider === 'anthropic' ? env['ANTHROPIC_API_KEY'] : undefined),
+    capabilities: contextWindow > 0 ? { contextWindow } : undefined
+  }, logger);
+}
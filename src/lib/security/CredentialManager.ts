@@ -6,7 +6,7 @@ import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { Logger } from '@/src/lib/logging/Logger';
+import { Logger } from '../logging/Logger';
 
 export interface Credential {
   id: string;
@@ -0,0 +1,30 @@
+/**
+ * Checks shared by the servers SessionHub runs on the loopback
+ * interface: the MCP server and the local API.
+ */
+import { IncomingMessage } from 'http';
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Browsers may only call from local pages, which guards against DNS
+ * rebinding. Non-browser clients send no Origin.
+ */
+export function isLocalOrigin(origin: string | undefined): boolean {
+  if (!origin) return true;
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Browsers cannot set headers on WebSocket upgrades, so the token may
+ * also arrive as the access_token query parameter. Returns the
+ * Authorization header to check either way.
+ */
+export function upgradeAuthorization(req: IncomingMessage): string | undefined {
+  const queryToken = new URL(req.url || '/', 'http://localhost').searchParams.get('access_token');
+  return req.headers.authorization || (queryToken ? `Bearer ${queryToken}` : undefined);
+}
@@ -4,13 +4,22 @@
  * These types define the structure of communication between actors
  */
 
+/**
+ * Version written by the planning actor. Stored protocols from older
+ * versions are upgraded by ProtocolMigrationRegistry on load.
+ */
+export type ProtocolVersion = '1.0';
+export const CURRENT_PROTOCOL_VERSION: ProtocolVersion = '1.0';
+
 export interface InstructionMetadata {
   id: string;
   sessionId: string;
   sessionName: string;
   timestamp: string;
-  version: '1.0';
+  version: ProtocolVersion;
   actor: 'planning' | 'execution';
+  // Project the instructions were planned for; selects terminology allowlists
+  projectId?: string;
 }
 
 export interface InstructionContext {
@@ -33,6 +42,18 @@ export interface InstructionRequirement {
   priority: 'must' | 'should' | 'could';
   details?: string[];
   acceptanceCriteria?: string[];
+  // IDs of requirements that must be implemented first
+  dependsOn?: string[];
+  // Files or directories the requirement is expected to change
+  paths?: string[];
+  // External MCP tool the Execution Actor calls to fulfil the requirement
+  tool?: InstructionToolCall;
+}
+
+export interface InstructionToolCall {
+  // Server-qualified tool name, e.g. github__create_issue
+  name: string;
+  arguments?: Record<string, any>;
 }
 
 export interface InstructionDeliverable {
@@ -76,6 +97,74 @@ export interface ExecutionResult {
   errors: ExecutionError[];
   logs: string[];
   validationResults: ValidationResult[];
+  preview?: ChangePreview;
+  rollback?: RollbackReport;
+  // Every run the repair loop made, oldest first; the parent mirrors the last
+  attempts?: ExecutionAttempt[];
+  // File the run's replayable recording was saved to
+  recording?: string;
+}
+
+/**
+ * Evidence for one failed automated success criterion, fed back to code
+ * generation on the next repair attempt
+ */
+export interface CriterionFailure {
+  criterionId: string;
+  criterion: string;
+  evidence: string;
+}
+
+export interface ExecutionAttempt {
+  attempt: number;
+  trigger: 'initial' | 'repair';
+  // Failures from the previous attempt that this attempt tried to fix
+  repairing: CriterionFailure[];
+  tokensUsed: number;
+  result: ExecutionResult;
+}
+
+export interface FileChangePreview {
+  path: string;
+  action: 'create' | 'modify' | 'delete';
+  diff?: string;
+  satisfies: InstructionDeliverable[];
+}
+
+export interface CommandPreview {
+  command: string;
+  cwd: string;
+  description: string;
+}
+
+export interface PreviewApproval {
+  approvedBy: string;
+  approvedAt: string;
+}
+
+/**
+ * Result of a dry run: everything a real run would change, for review
+ * before execution is allowed to touch the disk
+ */
+export interface ChangePreview {
+  instructionId: string;
+  generatedAt: string;
+  files: FileChangePreview[];
+  commands: CommandPreview[];
+  // Generated source the preview was built from per requirement ID, reused on approval
+  generatedCode?: Record<string, string>;
+  approval?: PreviewApproval;
+}
+
+export interface RollbackReport {
+  instructionId: string;
+  reason: 'failure' | 'cancelled' | 'manual';
+  restored: string[];
+  removed: string[];
+  // Changes observed but not reversible, e.g. files a command modified in place
+  untracked: string[];
+  failures: Array<{ target: string; error: string }>;
+  completedAt: string;
 }
 
 export interface ExecutionOutput {
@@ -45,6 +45,7 @@ export class SessionService {
   private static instance: SessionService;
   private db: DatabaseService;
   private logger: Logger;
+  private ready: Promise<void> | null = null;
 
   private constructor() {
     this.db = new DatabaseService();
@@ -58,6 +59,20 @@ export class SessionService {
     return SessionService.instance;
   }
 
+  /**
+   * Open the database and create the sessions table if missing
+   */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.createSchema().catch(error => {
+        this.ready = null;
+        this.logger.error('Failed to initialize session storage', error as Error);
+        throw new SessionError('Failed to initialize session storage');
+      });
+    }
+    return this.ready;
+  }
+
   async createSession(request: SessionRequest, metadata: SessionMetadata): Promise<Session> {
     try {
       const session: Session = {
@@ -218,6 +233,30 @@ export class SessionService {
     }
   }
 
+  private async createSchema(): Promise<void> {
+    await this.db.connect();
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        objective TEXT,
+        status TEXT NOT NULL,
+        userId TEXT NOT NULL,
+        projectId TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        completedAt TEXT,
+        request TEXT,
+        instructions TEXT,
+        result TEXT,
+        error TEXT,
+        metadata TEXT NOT NULL
+      )
+    `);
+    await this.db.run('CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status)');
+  }
+
   private generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -12,6 +12,7 @@ import {
   SupabaseService 
 } from '@/src/services/cloud/SupabaseService';
 import { Session } from '@/src/models/Session';
+import { ProtocolMigrationRegistry } from '@/src/core/protocol/ProtocolMigrations';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -1241,7 +1242,7 @@ export class LocalCacheService {
         context: {},
         timestamp: row.created_at
       },
-      instructions: instructions,
+      instructions: ProtocolMigrationRegistry.getInstance().upgradeStored(instructions),
       result: result,
       error: error,
       metadata: {
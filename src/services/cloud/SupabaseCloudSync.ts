@@ -7,6 +7,8 @@ import { ICloudSyncService, SyncStatus, SyncResult, SyncConflict } from '@/src/i
 import { SupabaseService, Project } from './SupabaseService';
 import { Session } from '../../models/Session';
 import { Logger } from '@/src/lib/logging/Logger';
+import { CollaborationService } from '../collaboration/CollaborationService';
+import { sessionDocumentId } from '../collaboration/types';
 
 export class SupabaseCloudSync implements ICloudSyncService {
   private readonly logger: Logger;
@@ -17,10 +19,11 @@ export class SupabaseCloudSync implements ICloudSyncService {
   private realtimeSubscriptions: Map<string, any> = new Map();
   private syncInProgress = false;
   private syncQueue: Array<() => Promise<void>> = [];
+  private collaboration: CollaborationService | null = null;
 
-  constructor() {
+  constructor(supabaseService?: SupabaseService) {
     this.logger = new Logger('SupabaseCloudSync');
-    this.supabaseService = new SupabaseService(this.logger);
+    this.supabaseService = supabaseService || new SupabaseService(this.logger);
   }
 
   async initialize(): Promise<void> {
@@ -39,6 +42,14 @@ export class SupabaseCloudSync implements ICloudSyncService {
     }
   }
 
+  /**
+   * Session text fields edited collaboratively are merged by their CRDT
+   * documents rather than by last write wins
+   */
+  attachCollaboration(collaboration: CollaborationService): void {
+    this.collaboration = collaboration;
+  }
+
   async sync(): Promise<SyncResult> {
     if (this.syncInProgress) {
       this.logger.warn('Sync already in progress, queueing request');
@@ -86,6 +97,15 @@ export class SupabaseCloudSync implements ICloudSyncService {
       results.conflicts.push(...sessionResult.conflicts);
       results.errors.push(...sessionResult.errors);
 
+      // Pull collaborative edits to session text; uploads go through the offline queue
+      if (this.collaboration) {
+        try {
+          results.downloaded += await this.collaboration.pullRemoteUpdates();
+        } catch (error) {
+          results.errors.push(`Document sync failed: ${(error as Error).message}`);
+        }
+      }
+
       // Sync patterns
       const patternResult = await this.syncPatterns();
       results.uploaded += patternResult.uploaded;
@@ -243,7 +263,7 @@ export class SupabaseCloudSync implements ICloudSyncService {
         if (localSession.id && !remoteMap.has(localSession.id)) {
           try {
             await this.supabaseService.createSession({
-              ...localSession,
+              ...await this.withCollaborativeText(localSession),
               userId: userId
             });
             result.uploaded++;
@@ -257,13 +277,28 @@ export class SupabaseCloudSync implements ICloudSyncService {
       for (const remoteSession of allRemoteSessions) {
         if (remoteSession.id && !localMap.has(remoteSession.id)) {
           try {
-            await this.saveLocalSession(remoteSession);
+            await this.saveLocalSession(await this.withCollaborativeText(remoteSession));
             result.downloaded++;
           } catch (error) {
             result.errors.push(`Failed to download session: ${(error as Error).message}`);
           }
         }
       }
+
+      // Sessions changed on both sides; resolving them keeps the text the
+      // collaborative documents merged
+      for (const localSession of localSessions) {
+        const remoteSession = localSession.id ? remoteMap.get(localSession.id) : undefined;
+        if (remoteSession && remoteSession.updatedAt !== localSession.updatedAt) {
+          result.conflicts.push({
+            itemId: localSession.id,
+            itemType: 'session',
+            localVersion: localSession,
+            remoteVersion: remoteSession,
+            resolution: 'pending'
+          });
+        }
+      }
     } catch (error) {
       result.errors.push(`Session sync failed: ${(error as Error).message}`);
     }
@@ -383,15 +418,15 @@ export class SupabaseCloudSync implements ICloudSyncService {
     
     switch (resolution) {
       case 'local':
-        await this.supabaseService.updateSession(session.id!, session);
+        await this.supabaseService.updateSession(session.id!, await this.withCollaborativeText(session));
         break;
         
       case 'remote':
-        await this.saveLocalSession(conflict.remoteVersion as Session);
+        await this.saveLocalSession(await this.withCollaborativeText(conflict.remoteVersion as Session));
         break;
         
       case 'merge':
-        const merged = this.mergeSessions(
+        const merged = await this.mergeSessions(
           conflict.localVersion as Session,
           conflict.remoteVersion as Session
         );
@@ -508,11 +543,11 @@ export class SupabaseCloudSync implements ICloudSyncService {
     };
   }
 
-  private mergeSessions(local: Session, remote: Session): Session {
+  private async mergeSessions(local: Session, remote: Session): Promise<Session> {
     const localTime = new Date(local.updatedAt || 0).getTime();
     const remoteTime = new Date(remote.updatedAt || 0).getTime();
     
-    return {
+    return this.withCollaborativeText({
       ...local,
       ...remote,
       updatedAt: localTime > remoteTime ? local.updatedAt : remote.updatedAt,
@@ -522,6 +557,27 @@ export class SupabaseCloudSync implements ICloudSyncService {
         merged: true,
         mergedAt: new Date().toISOString()
       }
+    });
+  }
+
+  /**
+   * Description and requirement text as their CRDT documents hold it
+   */
+  private async withCollaborativeText(session: Session): Promise<Session> {
+    if (!this.collaboration) return session;
+    const collaboration = this.collaboration;
+    const description = await collaboration.readText(sessionDocumentId(session.id, 'description'));
+    const instructions = session.instructions && {
+      ...session.instructions,
+      requirements: await Promise.all(session.instructions.requirements.map(async requirement => {
+        const text = await collaboration.readText(sessionDocumentId(session.id, `requirements/${requirement.id}`));
+        return text !== undefined ? { ...requirement, description: text } : requirement;
+      }))
+    };
+    return {
+      ...session,
+      ...(description !== undefined ? { description } : {}),
+      ...(instructions ? { instructions } : {})
     };
   }
 }
\ No newline at end of file
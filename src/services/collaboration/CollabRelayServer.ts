@@ -0,0 +1,147 @@
+/**
+ * Collaboration Relay Server
+ *
+ * Loopback WebSocket relay for trying collaborative editing without
+ * Supabase, e.g. two app instances on one machine. Each document is a
+ * room: updates and presence are forwarded to the other sockets in the
+ * room, and the relay keeps its own replica so a late joiner catches up
+ * from its state vector. Nothing is persisted.
+ */
+import { EventEmitter } from 'events';
+import { createServer, Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { TextDocument } from './TextCRDT';
+import { PresenceState, RelayMessage } from './types';
+
+export interface CollabRelayServerConfig {
+  port: number;
+  // Loopback only unless a caller deliberately widens it
+  host?: string;
+}
+
+interface Room {
+  document: TextDocument;
+  members: Set<WebSocket>;
+  presence: Map<string, PresenceState>;
+}
+
+export class CollabRelayServer extends EventEmitter {
+  private server: Server;
+  private wss: WebSocketServer;
+  private rooms = new Map<string, Room>();
+  // Client ids each socket joined with, per document, for leave messages
+  private joined = new WeakMap<WebSocket, Map<string, Set<string>>>();
+
+  constructor(private config: CollabRelayServerConfig) {
+    super();
+    this.server = createServer((_req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain' });
+      res.end('WebSocket only');
+    });
+    this.wss = new WebSocketServer({ server: this.server });
+    this.wss.on('connection', socket => {
+      this.joined.set(socket, new Map());
+      socket.on('message', data => this.handleMessage(socket, data.toString()));
+      socket.on('close', () => this.handleClose(socket));
+    });
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, this.config.host || '127.0.0.1', () => {
+        this.emit('started');
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.wss.clients.forEach(client => client.close(1001, 'Relay stopping'));
+    this.wss.close();
+    return new Promise(resolve => {
+      this.server.close(() => {
+        this.emit('stopped');
+        resolve();
+      });
+    });
+  }
+
+  getText(docId: string): string | undefined {
+    return this.rooms.get(docId)?.document.getText();
+  }
+
+  private handleMessage(socket: WebSocket, raw: string): void {
+    let message: RelayMessage;
+    try {
+      message = JSON.parse(raw) as RelayMessage;
+    } catch {
+      socket.close(1003, 'Invalid JSON');
+      return;
+    }
+    if (!message || typeof message.docId !== 'string') return;
+    const room = this.room(message.docId);
+
+    try {
+      switch (message.type) {
+        case 'join': {
+          room.members.add(socket);
+          const clients = this.joined.get(socket)!;
+          clients.set(message.docId, (clients.get(message.docId) || new Set()).add(message.clientId));
+          this.send(socket, { type: 'sync', docId: message.docId, update: room.document.encodeUpdateSince(message.vector || {}) });
+          room.presence.forEach(presence => this.send(socket, { type: 'presence', docId: message.docId, presence }));
+          break;
+        }
+        case 'update':
+          room.document.applyUpdate(message.update);
+          this.forward(room, socket, message);
+          break;
+        case 'presence':
+          room.presence.set(message.presence.clientId, message.presence);
+          this.forward(room, socket, message);
+          break;
+        case 'leave':
+          this.leave(socket, message.docId, message.clientId);
+          break;
+      }
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  private handleClose(socket: WebSocket): void {
+    for (const [docId, clientIds] of this.joined.get(socket) || []) {
+      clientIds.forEach(clientId => this.leave(socket, docId, clientId));
+      this.rooms.get(docId)?.members.delete(socket);
+    }
+  }
+
+  private leave(socket: WebSocket, docId: string, clientId: string): void {
+    const room = this.rooms.get(docId);
+    if (!room) return;
+    room.presence.delete(clientId);
+    this.joined.get(socket)?.get(docId)?.delete(clientId);
+    this.forward(room, socket, { type: 'leave', docId, clientId });
+  }
+
+  private room(docId: string): Room {
+    let room = this.rooms.get(docId);
+    if (!room) {
+      room = { document: new TextDocument('relay'), members: new Set(), presence: new Map() };
+      this.rooms.set(docId, room);
+    }
+    return room;
+  }
+
+  private forward(room: Room, sender: WebSocket, message: RelayMessage): void {
+    room.members.forEach(member => {
+      if (member !== sender) this.send(member, message);
+    });
+  }
+
+  private send(socket: WebSocket, message: RelayMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
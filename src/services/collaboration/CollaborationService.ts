@@ -0,0 +1,380 @@
+/**
+ * Collaboration Service
+ * Keeps session text fields (descriptions, requirement text) as text
+ * CRDT documents so concurrent edits merge instead of overwriting each
+ * other. Each edit is stored locally as the document state, queued on the
+ * offline operation queue as an incremental update for Supabase, and sent
+ * to the collaboration relay when one is configured. Remote updates come
+ * back from the relay live and from Supabase when the cloud sync pulls.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import WebSocket from 'ws';
+import { Logger } from '@/src/lib/logging/Logger';
+import { DatabaseService } from '@/src/database/DatabaseService';
+import { SupabaseService } from '../cloud/SupabaseService';
+import { OfflineOperationQueue } from '../offline/OfflineOperationQueue';
+import { TextDocument, TextUpdate } from './TextCRDT';
+import { CollaborativeDocumentSnapshot, DocumentChange, PresenceState, RelayMessage, sessionIdOf } from './types';
+
+export const DOCUMENT_UPDATES_TABLE = 'session_document_updates';
+
+export interface CollaborationServiceOptions {
+  // Prefix for this process's replica ids; random per launch by default
+  deviceId?: string;
+  // ws:// URL of a CollabRelayServer
+  relayUrl?: string;
+}
+
+export class CollaborationError extends Error {
+  constructor(message: string, public code: 'DOCUMENT_NOT_OPEN' | 'INVALID_DOCUMENT') {
+    super(message);
+    this.name = 'CollaborationError';
+  }
+}
+
+export class CollaborationService extends EventEmitter {
+  private readonly logger = new Logger('CollaborationService');
+  private readonly deviceId: string;
+  private documents = new Map<string, TextDocument>();
+  // Editor replicas that have each document open
+  private editors = new Map<string, Set<string>>();
+  private presence = new Map<string, Map<string, PresenceState>>();
+  private ready: Promise<void> | null = null;
+  private relay: WebSocket | null = null;
+  private relayUrl: string | undefined;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private replicaCount = 0;
+  private destroyed = false;
+  private readonly RELAY_RECONNECT_DELAY = 2000;
+  private readonly PULL_BATCH_SIZE = 500;
+
+  constructor(
+    private db: DatabaseService,
+    private operationQueue: OfflineOperationQueue,
+    private supabase: SupabaseService | null,
+    options: CollaborationServiceOptions = {}
+  ) {
+    super();
+    this.deviceId = options.deviceId || uuidv4();
+    this.relayUrl = options.relayUrl;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.createSchema().then(() => {
+        if (this.relayUrl) this.connectRelay(this.relayUrl);
+      }).catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Open a document for an editor. initialText seeds a document that has
+   * no state yet, e.g. the description the session was created with.
+   */
+  async open(docId: string, initialText = ''): Promise<CollaborativeDocumentSnapshot> {
+    if (!docId) {
+      throw new CollaborationError('A document id is required', 'INVALID_DOCUMENT');
+    }
+    const document = await this.load(docId);
+    if (document.length === 0 && initialText && Object.keys(document.getStateVector()).length === 0) {
+      document.seed(initialText);
+      await this.persist(docId, document);
+    }
+
+    const clientId = `${this.deviceId}-${++this.replicaCount}`;
+    const editors = this.editors.get(docId) || new Set<string>();
+    if (editors.size === 0) {
+      this.sendRelay({ type: 'join', docId, clientId: this.deviceId, vector: document.getStateVector() });
+    }
+    this.editors.set(docId, editors.add(clientId));
+
+    return {
+      docId,
+      clientId,
+      update: document.encodeState(),
+      text: document.getText(),
+      peers: [...(this.presence.get(docId)?.values() || [])]
+    };
+  }
+
+  close(docId: string, clientId: string): void {
+    const editors = this.editors.get(docId);
+    editors?.delete(clientId);
+    this.removePresence(docId, clientId);
+    this.sendRelay({ type: 'leave', docId, clientId });
+    if (editors && editors.size === 0) {
+      this.editors.delete(docId);
+      this.sendRelay({ type: 'leave', docId, clientId: this.deviceId });
+    }
+  }
+
+  getText(docId: string): string | undefined {
+    return this.documents.get(docId)?.getText();
+  }
+
+  /**
+   * Text of a document, loaded or only stored; undefined when it was never edited
+   */
+  async readText(docId: string): Promise<string | undefined> {
+    const loaded = this.getText(docId);
+    if (loaded !== undefined) return loaded;
+    await this.initialize();
+    const row = (await this.db.query('SELECT text FROM collab_documents WHERE doc_id = ?', [docId])).rows[0];
+    return row ? String(row.text) : undefined;
+  }
+
+  /**
+   * An edit made in an open editor: stored, queued for the cloud and relayed
+   */
+  async applyLocalUpdate(docId: string, clientId: string, update: TextUpdate): Promise<string> {
+    const document = this.documents.get(docId);
+    if (!document || !this.editors.get(docId)?.has(clientId)) {
+      throw new CollaborationError(`Document ${docId} is not open in ${clientId}`, 'DOCUMENT_NOT_OPEN');
+    }
+    document.applyUpdate(update);
+    await this.persist(docId, document);
+
+    await this.operationQueue.enqueue({
+      type: 'database_sync',
+      operation: 'collaborative_update',
+      payload: {
+        table: DOCUMENT_UPDATES_TABLE,
+        action: 'insert',
+        // created_at is stamped by Supabase on upload so pulls see late uploads
+        data: { id: uuidv4(), doc_id: docId, session_id: sessionIdOf(docId) ?? null, client_id: clientId, payload: update }
+      },
+      metadata: {
+        timestamp: new Date(),
+        retryCount: 0,
+        maxRetries: 10,
+        priority: 'high',
+        sessionId: sessionIdOf(docId)
+      },
+      status: 'pending'
+    });
+    this.sendRelay({ type: 'update', docId, update });
+
+    const change: DocumentChange = { docId, update, text: document.getText(), origin: clientId };
+    this.emit('update', change);
+    return change.text;
+  }
+
+  /**
+   * Updates from other devices; duplicates are harmless
+   */
+  async applyRemoteUpdate(docId: string, update: TextUpdate, origin = 'remote'): Promise<boolean> {
+    const document = await this.load(docId);
+    const changed = document.applyUpdate(update);
+    // Persisted even when the text is unchanged, since the update may hold
+    // tombstones or inserts still waiting for their origin
+    await this.persist(docId, document);
+    if (changed && this.editors.has(docId)) {
+      const change: DocumentChange = { docId, update, text: document.getText(), origin };
+      this.emit('update', change);
+    }
+    return changed;
+  }
+
+  setPresence(presence: PresenceState): void {
+    if (!this.editors.get(presence.docId)?.has(presence.clientId)) {
+      throw new CollaborationError(`Document ${presence.docId} is not open in ${presence.clientId}`, 'DOCUMENT_NOT_OPEN');
+    }
+    this.storePresence(presence);
+    this.sendRelay({ type: 'presence', docId: presence.docId, presence });
+  }
+
+  /**
+   * Fetch updates other devices uploaded since the last pull. Called by
+   * the cloud sync; a no-op while Supabase is offline.
+   */
+  async pullRemoteUpdates(): Promise<number> {
+    if (!this.supabase?.isInitialized() || !this.supabase.isServiceOnline()) {
+      return 0;
+    }
+    await this.initialize();
+    let cursor = await this.getPullCursor();
+    let applied = 0;
+
+    for (;;) {
+      let query = this.supabase.getClient()
+        .from(DOCUMENT_UPDATES_TABLE)
+        .select('doc_id, payload, client_id, created_at')
+        .order('created_at', { ascending: true })
+        .limit(this.PULL_BATCH_SIZE);
+      if (cursor) {
+        query = query.gt('created_at', cursor);
+      }
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to pull document updates: ${error.message}`);
+      }
+      const rows = (data || []) as Array<{ doc_id: string; payload: TextUpdate; client_id: string; created_at: string }>;
+
+      for (const row of rows) {
+        if (await this.applyRemoteUpdate(row.doc_id, row.payload, row.client_id)) {
+          applied++;
+        }
+        cursor = row.created_at;
+      }
+      if (cursor) {
+        await this.setPullCursor(cursor);
+      }
+      if (rows.length < this.PULL_BATCH_SIZE) break;
+    }
+
+    if (applied > 0) {
+      this.logger.info('Pulled collaborative document updates', { applied });
+    }
+    return applied;
+  }
+
+  connectRelay(url: string): void {
+    this.relayUrl = url;
+    if (this.relay || this.destroyed) return;
+
+    const socket = new WebSocket(url);
+    this.relay = socket;
+    socket.on('open', () => {
+      this.logger.info('Connected to collaboration relay', { url });
+      // Rejoin with current state vectors; the relay replies with what we missed
+      for (const docId of this.editors.keys()) {
+        const document = this.documents.get(docId)!;
+        this.sendRelay({ type: 'join', docId, clientId: this.deviceId, vector: document.getStateVector() });
+        this.sendRelay({ type: 'update', docId, update: document.encodeState() });
+        this.presence.get(docId)?.forEach(presence => {
+          if (this.editors.get(docId)?.has(presence.clientId)) {
+            this.sendRelay({ type: 'presence', docId, presence });
+          }
+        });
+      }
+    });
+    socket.on('message', data => {
+      void this.handleRelayMessage(data.toString()).catch(error => {
+        this.logger.error('Failed to apply relay message', error as Error);
+      });
+    });
+    socket.on('error', error => {
+      this.logger.warn('Collaboration relay error', { url, error: error.message });
+    });
+    socket.on('close', () => {
+      this.relay = null;
+      // Remote carets are stale once the relay is gone
+      for (const [docId, states] of this.presence) {
+        for (const clientId of states.keys()) {
+          if (!this.editors.get(docId)?.has(clientId)) this.removePresence(docId, clientId);
+        }
+      }
+      if (!this.destroyed) {
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          if (this.relayUrl) this.connectRelay(this.relayUrl);
+        }, this.RELAY_RECONNECT_DELAY);
+        this.reconnectTimer.unref?.();
+      }
+    });
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.relay?.close();
+    this.relay = null;
+    this.removeAllListeners();
+  }
+
+  private async handleRelayMessage(raw: string): Promise<void> {
+    const message = JSON.parse(raw) as RelayMessage;
+    switch (message.type) {
+      case 'sync':
+      case 'update':
+        await this.applyRemoteUpdate(message.docId, message.update, 'relay');
+        break;
+      case 'presence':
+        this.storePresence(message.presence);
+        break;
+      case 'leave':
+        this.removePresence(message.docId, message.clientId);
+        break;
+    }
+  }
+
+  private storePresence(presence: PresenceState): void {
+    const states = this.presence.get(presence.docId) || new Map<string, PresenceState>();
+    this.presence.set(presence.docId, states.set(presence.clientId, presence));
+    this.emit('presence', presence);
+  }
+
+  private removePresence(docId: string, clientId: string): void {
+    if (this.presence.get(docId)?.delete(clientId)) {
+      this.emit('presenceLeft', { docId, clientId });
+    }
+  }
+
+  private sendRelay(message: RelayMessage): void {
+    if (this.relay?.readyState === WebSocket.OPEN) {
+      this.relay.send(JSON.stringify(message));
+    }
+  }
+
+  private async load(docId: string): Promise<TextDocument> {
+    await this.initialize();
+    let document = this.documents.get(docId);
+    if (!document) {
+      document = new TextDocument(this.deviceId);
+      const row = (await this.db.query('SELECT state FROM collab_documents WHERE doc_id = ?', [docId])).rows[0];
+      if (row) {
+        document.applyUpdate(JSON.parse(row.state) as TextUpdate);
+      }
+      // Another caller may have loaded it meanwhile
+      document = this.documents.get(docId) || document;
+      this.documents.set(docId, document);
+    }
+    return document;
+  }
+
+  private async persist(docId: string, document: TextDocument): Promise<void> {
+    await this.db.run(`
+      INSERT INTO collab_documents (doc_id, state, text, updated_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(doc_id) DO UPDATE SET state = excluded.state, text = excluded.text, updated_at = CURRENT_TIMESTAMP
+    `, [docId, JSON.stringify(document.encodeState()), document.getText()]);
+  }
+
+  private async getPullCursor(): Promise<string | null> {
+    const row = (await this.db.query('SELECT pulled_until FROM collab_sync_state WHERE id = 1')).rows[0];
+    return row?.pulled_until ?? null;
+  }
+
+  private async setPullCursor(cursor: string): Promise<void> {
+    await this.db.run(`
+      INSERT INTO collab_sync_state (id, pulled_until) VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET pulled_until = excluded.pulled_until
+    `, [cursor]);
+  }
+
+  private async createSchema(): Promise<void> {
+    await this.db.connect();
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS collab_documents (
+        doc_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        text TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS collab_sync_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        pulled_until TEXT
+      )
+    `);
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Text CRDT
+ * Replicated text for fields several people edit at once, such as a
+ * session's description. Every character has a unique id and remembers the
+ * character it was typed after (RGA). Concurrent inserts after the same
+ * character are ordered by their Lamport clock, deletes leave tombstones,
+ * and updates can be applied in any order and any number of times, so
+ * replicas that have seen the same updates hold the same text.
+ */
+
+export interface CharId {
+  client: string;
+  clock: number;
+}
+
+/**
+ * A run of characters typed one after another; character k has clock
+ * id.clock + k and sits after character k - 1
+ */
+export interface InsertOperation {
+  type: 'insert';
+  id: CharId;
+  origin: CharId | null;
+  value: string;
+}
+
+export interface DeleteOperation {
+  type: 'delete';
+  id: CharId;
+  targets: CharId[];
+}
+
+export type TextOperation = InsertOperation | DeleteOperation;
+
+export interface TextUpdate {
+  ops: TextOperation[];
+}
+
+// Highest clock applied per client
+export type StateVector = Record<string, number>;
+
+// A caret anchored to the character before it, so it survives remote edits
+export interface RelativePosition {
+  after: CharId | null;
+}
+
+interface Item {
+  id: CharId;
+  origin: CharId | null;
+  value: string;
+  deleted: boolean;
+}
+
+export class CRDTError extends Error {
+  constructor(message: string, public code: 'INVALID_POSITION' | 'INVALID_UPDATE') {
+    super(message);
+    this.name = 'CRDTError';
+  }
+}
+
+export const SEED_CLIENT_PREFIX = 'seed:';
+
+export function charKey(id: CharId): string {
+  return `${id.client}@${id.clock}`;
+}
+
+function compareIds(a: CharId, b: CharId): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.client < b.client ? -1 : a.client > b.client ? 1 : 0;
+}
+
+function sameId(a: CharId | null, b: CharId | null): boolean {
+  return a === b || (!!a && !!b && a.client === b.client && a.clock === b.clock);
+}
+
+export class TextDocument {
+  private items: Item[] = [];
+  private index = new Map<string, Item>();
+  private deletes = new Map<string, DeleteOperation>();
+  // Deletes that arrived before the characters they remove
+  private pendingDeletes = new Set<string>();
+  // Inserts whose origin has not arrived yet
+  private pendingInserts: InsertOperation[] = [];
+  private clock = 0;
+  private vector: StateVector = {};
+
+  constructor(public readonly clientId: string) {
+    if (!clientId || clientId.startsWith(SEED_CLIENT_PREFIX)) {
+      throw new CRDTError(`Invalid client id: ${clientId}`, 'INVALID_UPDATE');
+    }
+  }
+
+  getText(): string {
+    let text = '';
+    for (const item of this.items) {
+      if (!item.deleted) text += item.value;
+    }
+    return text;
+  }
+
+  get length(): number {
+    return this.items.reduce((count, item) => count + (item.deleted ? 0 : 1), 0);
+  }
+
+  getStateVector(): StateVector {
+    return { ...this.vector };
+  }
+
+  /**
+   * Initial text shared by replicas that start from the same stored value.
+   * The characters get ids derived from the text itself, so two replicas
+   * seeding the same text produce the same characters instead of doubling
+   * it; different seeds both survive, one after the other.
+   */
+  seed(text: string): TextUpdate {
+    if (!text) return { ops: [] };
+    const op: InsertOperation = { type: 'insert', id: { client: SEED_CLIENT_PREFIX + hashText(text), clock: 1 }, origin: null, value: text };
+    this.applyUpdate({ ops: [op] });
+    return { ops: [op] };
+  }
+
+  insert(position: number, text: string): TextUpdate {
+    this.assertPosition(position);
+    if (!text) return { ops: [] };
+    const before = position > 0 ? this.visibleItem(position - 1) : null;
+    const op: InsertOperation = { type: 'insert', id: this.nextId(text.length), origin: before ? before.id : null, value: text };
+    this.applyUpdate({ ops: [op] });
+    return { ops: [op] };
+  }
+
+  delete(position: number, length: number): TextUpdate {
+    this.assertPosition(position);
+    this.assertPosition(position + length);
+    if (length <= 0) return { ops: [] };
+    const targets: CharId[] = [];
+    let visible = 0;
+    for (const item of this.items) {
+      if (item.deleted) continue;
+      if (visible >= position && visible < position + length) targets.push(item.id);
+      visible++;
+    }
+    const op: DeleteOperation = { type: 'delete', id: this.nextId(1), targets };
+    this.applyUpdate({ ops: [op] });
+    return { ops: [op] };
+  }
+
+  /**
+   * Replace the whole text, e.g. from a textarea change, as the smallest
+   * delete and insert around the common prefix and suffix
+   */
+  setText(text: string): TextUpdate {
+    const current = this.getText();
+    if (current === text) return { ops: [] };
+    let prefix = 0;
+    while (prefix < current.length && prefix < text.length && current[prefix] === text[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < current.length - prefix &&
+      suffix < text.length - prefix &&
+      current[current.length - 1 - suffix] === text[text.length - 1 - suffix]
+    ) suffix++;
+
+    const removed = this.delete(prefix, current.length - prefix - suffix);
+    const inserted = this.insert(prefix, text.slice(prefix, text.length - suffix));
+    return { ops: [...removed.ops, ...inserted.ops] };
+  }
+
+  /**
+   * Apply local or remote operations. Returns whether the visible text
+   * changed; operations already applied are skipped.
+   */
+  applyUpdate(update: TextUpdate): boolean {
+    if (!update || !Array.isArray(update.ops)) {
+      throw new CRDTError('Update has no operations', 'INVALID_UPDATE');
+    }
+    let changed = false;
+    for (const op of update.ops) {
+      validateOperation(op);
+      changed = (op.type === 'insert' ? this.applyInsert(op) : this.applyDelete(op)) || changed;
+    }
+    return changed;
+  }
+
+  /**
+   * Everything needed to build this document from nothing. Characters are
+   * listed in document order, so each origin precedes its dependants.
+   */
+  encodeState(): TextUpdate {
+    return this.encodeUpdateSince({});
+  }
+
+  /**
+   * Operations a replica with the given state vector has not seen
+   */
+  encodeUpdateSince(vector: StateVector): TextUpdate {
+    const ops: TextOperation[] = [];
+    let run: InsertOperation | null = null;
+    for (const item of this.items) {
+      if (item.id.clock <= (vector[item.id.client] ?? 0)) {
+        run = null;
+        continue;
+      }
+      // Extend the run while characters were typed consecutively
+      if (run && run.id.client === item.id.client && run.id.clock + run.value.length === item.id.clock &&
+          sameId(item.origin, { client: run.id.client, clock: item.id.clock - 1 })) {
+        run.value += item.value;
+      } else {
+        run = { type: 'insert', id: item.id, origin: item.origin, value: item.value };
+        ops.push(run);
+      }
+    }
+    for (const op of this.deletes.values()) {
+      if (op.id.clock > (vector[op.id.client] ?? 0)) ops.push(op);
+    }
+    // Still waiting for their origin, so they cannot be counted as seen
+    ops.push(...this.pendingInserts);
+    return { ops };
+  }
+
+  relativePosition(position: number): RelativePosition {
+    this.assertPosition(position);
+    return { after: position > 0 ? this.visibleItem(position - 1)!.id : null };
+  }
+
+  /**
+   * Current index of a relative position; a caret after a deleted
+   * character falls back to the nearest visible one before it
+   */
+  absolutePosition(relative: RelativePosition): number {
+    if (!relative.after) return 0;
+    let visible = 0;
+    for (const item of this.items) {
+      if (!item.deleted) visible++;
+      if (sameId(item.id, relative.after)) {
+        return visible;
+      }
+    }
+    return this.length;
+  }
+
+  private applyInsert(op: InsertOperation): boolean {
+    if (op.origin && !this.index.has(charKey(op.origin))) {
+      this.pendingInserts.push(op);
+      return false;
+    }
+    let changed = false;
+    let originIndex = op.origin ? this.items.indexOf(this.index.get(charKey(op.origin))!) : -1;
+    for (let k = 0; k < op.value.length; k++) {
+      const id = { client: op.id.client, clock: op.id.clock + k };
+      const key = charKey(id);
+      const existing = this.index.get(key);
+      if (existing) {
+        originIndex = this.items.indexOf(existing);
+        continue;
+      }
+      const origin = k === 0 ? op.origin : { client: op.id.client, clock: id.clock - 1 };
+      const item: Item = { id, origin, value: op.value[k]!, deleted: this.pendingDeletes.delete(key) };
+      // Skip characters inserted after the same origin with a higher clock,
+      // along with everything typed after them
+      let at = originIndex + 1;
+      while (at < this.items.length && compareIds(this.items[at]!.id, id) > 0) at++;
+      this.items.splice(at, 0, item);
+      this.index.set(key, item);
+      this.observe(id);
+      originIndex = at;
+      changed = changed || !item.deleted;
+    }
+    return this.retryPending() || changed;
+  }
+
+  private applyDelete(op: DeleteOperation): boolean {
+    const key = charKey(op.id);
+    if (this.deletes.has(key)) return false;
+    this.deletes.set(key, op);
+    this.observe(op.id);
+    let changed = false;
+    for (const target of op.targets) {
+      const item = this.index.get(charKey(target));
+      if (!item) {
+        this.pendingDeletes.add(charKey(target));
+      } else if (!item.deleted) {
+        item.deleted = true;
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private retryPending(): boolean {
+    const ready = this.pendingInserts.filter(op => op.origin && this.index.has(charKey(op.origin)));
+    if (ready.length === 0) return false;
+    this.pendingInserts = this.pendingInserts.filter(op => !ready.includes(op));
+    let changed = false;
+    for (const op of ready) {
+      changed = this.applyInsert(op) || changed;
+    }
+    return changed;
+  }
+
+  private observe(id: CharId): void {
+    this.clock = Math.max(this.clock, id.clock);
+    if (id.clock > (this.vector[id.client] ?? 0)) {
+      this.vector[id.client] = id.clock;
+    }
+  }
+
+  // Lamport clock: later than everything seen, so local edits order after them
+  private nextId(count: number): CharId {
+    const id = { client: this.clientId, clock: this.clock + 1 };
+    this.clock += count;
+    return id;
+  }
+
+  private visibleItem(position: number): Item | undefined {
+    let visible = 0;
+    for (const item of this.items) {
+      if (item.deleted) continue;
+      if (visible === position) return item;
+      visible++;
+    }
+    return undefined;
+  }
+
+  private assertPosition(position: number): void {
+    if (!Number.isInteger(position) || position < 0 || position > this.length) {
+      throw new CRDTError(`Position ${position} is outside the text`, 'INVALID_POSITION');
+    }
+  }
+}
+
+function validateOperation(op: TextOperation): void {
+  const validId = (id: unknown): boolean => {
+    const candidate = id as CharId | null;
+    return !!candidate && typeof candidate.client === 'string' && Number.isInteger(candidate.clock) && candidate.clock > 0;
+  };
+  const valid = op && validId(op.id) && (
+    op.type === 'insert'
+      ? typeof op.value === 'string' && op.value.length > 0 && (op.origin === null || validId(op.origin))
+      : op.type === 'delete' && Array.isArray(op.targets) && op.targets.every(validId)
+  );
+  if (!valid) {
+    throw new CRDTError('Malformed text operation', 'INVALID_UPDATE');
+  }
+}
+
+// FNV-1a, enough to tell seeds apart without pulling in crypto for the renderer
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
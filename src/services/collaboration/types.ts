@@ -0,0 +1,61 @@
+import { RelativePosition, StateVector, TextUpdate } from './TextCRDT';
+
+export interface CollaboratorInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Who has a document open and where their caret is. Presence is only
+ * relayed live, never stored or queued.
+ */
+export interface PresenceState {
+  docId: string;
+  // Replica that sent it; one per open editor
+  clientId: string;
+  user: CollaboratorInfo;
+  cursor?: {
+    anchor: RelativePosition;
+    head: RelativePosition;
+  };
+  updatedAt: string;
+}
+
+export type CollaborativeField = 'description' | `requirements/${string}`;
+
+/**
+ * Messages between replicas and the relay; the relay answers a join with
+ * the updates the joiner's state vector is missing
+ */
+export type RelayMessage =
+  | { type: 'join'; docId: string; clientId: string; vector: StateVector }
+  | { type: 'sync'; docId: string; update: TextUpdate }
+  | { type: 'update'; docId: string; update: TextUpdate }
+  | { type: 'presence'; docId: string; presence: PresenceState }
+  | { type: 'leave'; docId: string; clientId: string };
+
+export interface CollaborativeDocumentSnapshot {
+  docId: string;
+  // Client id for the editor's own replica
+  clientId: string;
+  update: TextUpdate;
+  text: string;
+  peers: PresenceState[];
+}
+
+export interface DocumentChange {
+  docId: string;
+  update: TextUpdate;
+  text: string;
+  // Replica the update came from
+  origin: string;
+}
+
+export function sessionDocumentId(sessionId: string, field: CollaborativeField): string {
+  return `session:${sessionId}:${field}`;
+}
+
+export function sessionIdOf(docId: string): string | undefined {
+  return /^session:([^:]+):/.exec(docId)?.[1];
+}
@@ -5,6 +5,7 @@
 
 import { Session, SessionStatus, SessionMetadata } from '@/src/models/Session';
 import { SupabaseSessionRecord } from '@/src/services/cloud/SupabaseService';
+import { ProtocolMigrationRegistry } from '@/src/core/protocol/ProtocolMigrations';
 
 export class SessionConverter {
   /**
@@ -73,7 +74,8 @@ export class SessionConverter {
         context: {},
         timestamp: record.created_at || new Date().toISOString()
       },
-      instructions: instructions,
+      // Sessions saved by older builds may carry an older protocol version
+      instructions: ProtocolMigrationRegistry.getInstance().upgradeStored(instructions),
       result: result,
       error: error,
       metadata: sessionMetadata
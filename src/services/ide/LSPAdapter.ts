@@ -0,0 +1,732 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promisify } from 'util';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+import * as chokidar from 'chokidar';
+import {
+  IIDEAdapter,
+  WorkspaceInfo,
+  FileOperation,
+  IDEConnectionStatus
+} from '../../interfaces/IIDEAdapter';
+import { BaseProjectContext } from '../../models/ProjectContext';
+import { ErrorDetectionEngine } from '../../core/error-detection/ErrorDetectionEngine';
+import { ErrorReport } from '../../core/error-detection/types';
+import { Logger } from '../../lib/logging/Logger';
+import { ProtocolValidator } from '../../core/protocol/ProtocolValidator';
+import { SecuritySandbox } from '../../core/execution/SecuritySandbox';
+import { PlanningEngine } from '../../core/planning/PlanningEngine';
+import { ExecutionEngine } from '../../core/execution/ExecutionEngine';
+import { buildExecutionEnvironment } from '../../core/execution/ExecutionEnvironment';
+import { InstructionProtocol, ExecutionResult } from '../../models/Instruction';
+import { LSPConnection, LSPResponseError, LSP_ERRORS } from './LSPConnection';
+import { CommandResponse } from './ZedSlashCommandHandler';
+
+const execFileAsync = promisify(execFile);
+
+// Two-actor commands offered through workspace/executeCommand
+export const LSP_COMMANDS = ['session_plan', 'session_execute'];
+
+/**
+ * The two actors, created on first use. CLIServices provides engines on
+ * the stored API keys and configured MCP servers.
+ */
+export interface LSPActors {
+  planning(): Promise<PlanningEngine>;
+  execution(): Promise<ExecutionEngine>;
+}
+
+export interface LSPAdapterOptions {
+  input?: Readable;
+  output?: Writable;
+  // Built on first use otherwise; it loads the workspace tsconfig and ESLint
+  errorDetection?: ErrorDetectionEngine;
+  // Engines with their built-in implementations otherwise
+  actors?: LSPActors;
+}
+
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface OpenDocument {
+  version: number;
+  text: string;
+}
+
+const CODE_FILE = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const WATCH_REGISTRATION = 'sessionhub-file-watch';
+
+/**
+ * SessionHub as a language server, so any editor with an LSP client can
+ * drive the two-actor flow. File operations are sent to the editor as
+ * workspace/applyEdit, ErrorDetectionEngine results are pushed as
+ * diagnostics and session_plan/session_execute are executeCommands.
+ * Both actors run in the server: PlanningEngine turns the request into
+ * instructions and ExecutionEngine carries them out in its session
+ * workspace, after which the files it wrote or deleted are applied to the
+ * editor's workspace as edits.
+ */
+export class LSPAdapter extends EventEmitter implements IIDEAdapter {
+  private logger: Logger;
+  private connection: LSPConnection;
+  private actors: LSPActors;
+  private errorDetection?: ErrorDetectionEngine;
+  private clientCapabilities: any = {};
+  private clientInfo: { name: string; version?: string } | null = null;
+  private activeWorkspace: WorkspaceInfo | null = null;
+  private documents: Map<string, OpenDocument> = new Map();
+  private fileWatcher?: chokidar.FSWatcher;
+  private fileChangeCallback?: (change: FileOperation) => void;
+  private watchRegistered = false;
+  private initializeReceived = false;
+  private initialized = false;
+  private shutdownRequested = false;
+  private plan?: InstructionProtocol;
+  private currentTask?: string;
+  private lastError?: string;
+
+  constructor(options: LSPAdapterOptions = {}) {
+    super();
+    this.logger = new Logger('LSPAdapter');
+    this.connection = new LSPConnection(options.input, options.output);
+    this.errorDetection = options.errorDetection;
+    this.actors = options.actors || this.builtInActors();
+
+    this.registerHandlers();
+  }
+
+  private registerHandlers(): void {
+    this.connection.onRequest('initialize', params => this.initialize(params));
+    this.connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+    this.connection.onRequest('workspace/executeCommand', params => {
+      if (!this.initializeReceived) {
+        throw new LSPResponseError('Server not initialized', LSP_ERRORS.SERVER_NOT_INITIALIZED);
+      }
+      return this.executeCommand(params);
+    });
+
+    this.connection.onNotification('initialized', () => {
+      this.initialized = true;
+      this.emit('connected');
+    });
+    this.connection.onNotification('exit', async () => {
+      // Exit code 1 tells the editor the server stopped without a shutdown request
+      const code = this.shutdownRequested ? 0 : 1;
+      await this.disconnect();
+      this.emit('exit', code);
+    });
+
+    this.connection.onNotification('textDocument/didOpen', async ({ textDocument }) => {
+      this.documents.set(textDocument.uri, { version: textDocument.version, text: textDocument.text });
+      await this.publishDiagnostics(textDocument.uri);
+    });
+    this.connection.onNotification('textDocument/didChange', ({ textDocument, contentChanges }) => {
+      const text = contentChanges[contentChanges.length - 1]?.text;
+      if (typeof text === 'string') {
+        this.documents.set(textDocument.uri, { version: textDocument.version, text });
+      }
+    });
+    this.connection.onNotification('textDocument/didSave', async ({ textDocument }) => {
+      await this.publishDiagnostics(textDocument.uri);
+    });
+    this.connection.onNotification('textDocument/didClose', ({ textDocument }) => {
+      this.documents.delete(textDocument.uri);
+      this.connection.sendNotification('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+    });
+
+    this.connection.onNotification('workspace/didChangeWatchedFiles', ({ changes }) => {
+      const types: Record<number, FileOperation['type']> = { 1: 'create', 2: 'update', 3: 'delete' };
+      for (const change of changes) {
+        const type = types[change.type];
+        if (type) this.fileChangeCallback?.({ type, path: fileURLToPath(change.uri) });
+      }
+    });
+    this.connection.onNotification('workspace/didChangeWorkspaceFolders', ({ event }) => {
+      const removed = event.removed.some((folder: any) => fileURLToPath(folder.uri) === this.activeWorkspace?.rootPath);
+      if (removed || !this.activeWorkspace) {
+        const added = event.added[0];
+        this.activeWorkspace = added ? { rootPath: fileURLToPath(added.uri), name: added.name } : null;
+        this.emit(this.activeWorkspace ? 'workspace-opened' : 'workspace-closed', this.activeWorkspace);
+      }
+    });
+  }
+
+  private initialize(params: any): Record<string, any> {
+    this.initializeReceived = true;
+    this.clientCapabilities = params.capabilities || {};
+    this.clientInfo = params.clientInfo || null;
+
+    const folder = params.workspaceFolders?.[0];
+    const rootPath = folder ? fileURLToPath(folder.uri) : params.rootUri ? fileURLToPath(params.rootUri) : params.rootPath;
+    if (rootPath) {
+      this.activeWorkspace = { rootPath, name: folder?.name || path.basename(rootPath) };
+    }
+
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: 1, save: { includeText: false } },
+        executeCommandProvider: { commands: LSP_COMMANDS },
+        workspace: { workspaceFolders: { supported: true, changeNotifications: true } }
+      },
+      serverInfo: { name: 'sessionhub', version: '1.0.1' }
+    };
+  }
+
+  /**
+   * Start serving the editor; resolves once the initialize handshake is done
+   */
+  async connect(): Promise<void> {
+    if (this.initialized) return;
+
+    const ready = new Promise<void>((resolve, reject) => {
+      const onClose = () => reject(new Error('Editor closed the connection before initializing'));
+      this.connection.once('close', onClose);
+      this.once('connected', () => {
+        this.connection.off('close', onClose);
+        resolve();
+      });
+    });
+    this.connection.listen();
+    await ready;
+  }
+
+  async disconnect(): Promise<void> {
+    this.unwatchFileChanges();
+    this.connection.close();
+    this.initialized = false;
+    this.emit('disconnected');
+  }
+
+  async getConnectionStatus(): Promise<IDEConnectionStatus> {
+    return {
+      connected: this.initialized,
+      version: this.clientInfo?.version,
+      apiAvailable: this.initialized && !this.shutdownRequested,
+      lastError: this.lastError,
+      lastCheckTime: new Date()
+    };
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    // The editor launches the server over stdio; there are no credentials
+    return this.initialized;
+  }
+
+  async openWorkspace(workspacePath: string): Promise<void> {
+    try {
+      await fs.access(workspacePath);
+    } catch (error) {
+      throw new Error(`Failed to open workspace: ${error}`);
+    }
+
+    // The editor owns its workspace folders; this picks the one SessionHub works in
+    this.activeWorkspace = {
+      rootPath: workspacePath,
+      name: path.basename(workspacePath)
+    };
+    this.emit('workspace-opened', this.activeWorkspace);
+  }
+
+  async closeWorkspace(): Promise<void> {
+    this.activeWorkspace = null;
+    this.emit('workspace-closed');
+  }
+
+  async getActiveWorkspace(): Promise<WorkspaceInfo | null> {
+    return this.activeWorkspace;
+  }
+
+  async switchWorkspace(workspacePath: string): Promise<void> {
+    await this.openWorkspace(workspacePath);
+  }
+
+  async openFile(filePath: string): Promise<void> {
+    if (!this.clientCapabilities.window?.showDocument?.support) {
+      throw new Error('Failed to open file: the editor does not support window/showDocument');
+    }
+
+    const result = await this.connection.sendRequest('window/showDocument', {
+      uri: this.toUri(filePath),
+      takeFocus: true
+    });
+    if (!result?.success) {
+      throw new Error(`Failed to open file: the editor could not show ${filePath}`);
+    }
+  }
+
+  async saveFile(filePath: string, content: string): Promise<void> {
+    const uri = this.toUri(filePath);
+    const open = this.documents.get(uri);
+    const current = open ? open.text : await fs.readFile(filePath, 'utf-8').catch(() => null);
+    if (current === null) {
+      await this.createFile(filePath, content);
+      return;
+    }
+
+    try {
+      await this.applyEdit(`Save ${path.basename(filePath)}`, this.textEdit(uri, open?.version ?? null, {
+        range: this.fullRange(current),
+        newText: content
+      }));
+      this.emit('file-saved', filePath);
+    } catch (error) {
+      throw new Error(`Failed to save file: ${error}`);
+    }
+  }
+
+  async createFile(filePath: string, content: string): Promise<void> {
+    try {
+      if (this.supportsResourceOperation('create')) {
+        const uri = this.toUri(filePath);
+        await this.applyEdit(`Create ${path.basename(filePath)}`, {
+          documentChanges: [
+            { kind: 'create', uri, options: { overwrite: true } },
+            { textDocument: { uri, version: null }, edits: [{ range: this.fullRange(''), newText: content }] }
+          ]
+        });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content, 'utf-8');
+      }
+      this.emit('file-created', filePath);
+    } catch (error) {
+      throw new Error(`Failed to create file: ${error}`);
+    }
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    try {
+      if (this.supportsResourceOperation('delete')) {
+        await this.applyEdit(`Delete ${path.basename(filePath)}`, {
+          documentChanges: [{ kind: 'delete', uri: this.toUri(filePath) }]
+        });
+      } else {
+        await fs.unlink(filePath);
+      }
+      this.emit('file-deleted', filePath);
+    } catch (error) {
+      throw new Error(`Failed to delete file: ${error}`);
+    }
+  }
+
+  async renameFile(oldPath: string, newPath: string): Promise<void> {
+    try {
+      if (this.supportsResourceOperation('rename')) {
+        await this.applyEdit(`Rename ${path.basename(oldPath)}`, {
+          documentChanges: [{ kind: 'rename', oldUri: this.toUri(oldPath), newUri: this.toUri(newPath) }]
+        });
+      } else {
+        await fs.rename(oldPath, newPath);
+      }
+      this.emit('file-renamed', { oldPath, newPath });
+    } catch (error) {
+      throw new Error(`Failed to rename file: ${error}`);
+    }
+  }
+
+  watchFileChanges(callback: (change: FileOperation) => void): void {
+    if (!this.activeWorkspace) {
+      throw new Error('No active workspace to watch');
+    }
+    this.fileChangeCallback = callback;
+
+    // Let the editor report changes when it can; it already watches the workspace
+    if (this.clientCapabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration) {
+      this.connection.sendRequest('client/registerCapability', {
+        registrations: [{
+          id: WATCH_REGISTRATION,
+          method: 'workspace/didChangeWatchedFiles',
+          registerOptions: { watchers: [{ globPattern: '**/*' }] }
+        }]
+      }).then(() => {
+        this.watchRegistered = true;
+      }, error => {
+        this.logger.warn('Editor refused file watching, watching locally', { error: (error as Error).message });
+        this.watchLocally(callback);
+      });
+    } else {
+      this.watchLocally(callback);
+    }
+  }
+
+  unwatchFileChanges(): void {
+    this.fileChangeCallback = undefined;
+    if (this.watchRegistered) {
+      this.watchRegistered = false;
+      this.connection.sendRequest('client/unregisterCapability', {
+        unregisterations: [{ id: WATCH_REGISTRATION, method: 'workspace/didChangeWatchedFiles' }]
+      }).catch(() => undefined);
+    }
+    if (this.fileWatcher) {
+      this.fileWatcher.close();
+      this.fileWatcher = undefined;
+    }
+  }
+
+  async sendToExecutionActor(instruction: string, context: BaseProjectContext): Promise<void> {
+    this.requireInitialized();
+    const plan = await this.createPlan(instruction, {
+      projectPath: context.structure.rootPath,
+      projectType: context.projectType,
+      projectId: context.projectId
+    });
+    this.startExecution(plan, context.structure.rootPath);
+  }
+
+  async getExecutionStatus(): Promise<{ active: boolean; currentTask?: string }> {
+    return {
+      active: this.currentTask !== undefined,
+      currentTask: this.currentTask
+    };
+  }
+
+  async getGitStatus(): Promise<{ branch: string; changes: string[] }> {
+    try {
+      const branch = await this.git(['rev-parse', '--abbrev-ref', 'HEAD']);
+      const status = await this.git(['status', '--porcelain']);
+
+      return {
+        branch: branch.trim(),
+        changes: status
+          .split('\n')
+          .filter(line => line.trim())
+          .map(line => line.substring(3))
+      };
+    } catch (error) {
+      throw new Error(`Failed to get git status: ${error}`);
+    }
+  }
+
+  async stageFiles(files: string[]): Promise<void> {
+    try {
+      await this.git(['add', '--', ...files]);
+    } catch (error) {
+      throw new Error(`Failed to stage files: ${error}`);
+    }
+  }
+
+  async commit(message: string): Promise<void> {
+    try {
+      await this.git(['commit', '-m', message]);
+    } catch (error) {
+      throw new Error(`Failed to commit: ${error}`);
+    }
+  }
+
+  async runLinter(): Promise<{ passed: boolean; errors: any[] }> {
+    return this.runScript('lint');
+  }
+
+  async runTypeCheck(): Promise<{ passed: boolean; errors: any[] }> {
+    return this.runScript('build:check');
+  }
+
+  getIDEName(): string {
+    return this.clientInfo?.name || 'LSP';
+  }
+
+  async getIDEVersion(): Promise<string> {
+    return this.clientInfo?.version || 'unknown';
+  }
+
+  supportsFeature(feature: string): boolean {
+    const capabilities = this.clientCapabilities;
+    const features: Record<string, boolean> = {
+      'language-servers': true,
+      'git-integration': true,
+      'diagnostics': true,
+      'execute-command': true,
+      'workspace-edit': capabilities.workspace?.applyEdit === true,
+      'resource-operations': (capabilities.workspace?.workspaceEdit?.resourceOperations || []).length > 0,
+      'show-document': capabilities.window?.showDocument?.support === true,
+      'file-watching': capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration === true
+    };
+
+    return features[feature] ?? false;
+  }
+
+  private async executeCommand(params: { command: string; arguments?: any[] }): Promise<CommandResponse> {
+    if (!LSP_COMMANDS.includes(params.command)) {
+      throw new LSPResponseError(`Unknown command: ${params.command}`, LSP_ERRORS.INVALID_PARAMS);
+    }
+
+    const response = params.command === 'session_plan'
+      ? await this.planCommand(params.arguments || [])
+      : this.executePlanCommand();
+    this.connection.sendNotification('window/showMessage', { type: 3, message: response.content });
+    return response;
+  }
+
+  // Arguments: the instruction, then the editor context ({ uri, selection })
+  private async planCommand([instruction, editor]: any[]): Promise<CommandResponse> {
+    if (typeof instruction !== 'string' || !instruction.trim()) {
+      throw new LSPResponseError('session_plan needs a description of the work', LSP_ERRORS.INVALID_PARAMS);
+    }
+
+    const projectPath = this.activeWorkspace?.rootPath || process.cwd();
+    const plan = await this.createPlan(instruction, {
+      projectPath,
+      projectId: path.basename(projectPath),
+      currentFile: editor?.uri ? fileURLToPath(editor.uri) : undefined,
+      selection: editor?.selection
+    });
+
+    const requirements = plan.requirements.map(requirement => `- ${requirement.description}`);
+    return {
+      content: [`Plan: ${plan.context.description}`, ...requirements, 'Run session_execute to implement it.'].join('\n'),
+      metadata: { actorType: 'planning', requiresExecution: true, planId: plan.metadata.id }
+    };
+  }
+
+  private executePlanCommand(): CommandResponse {
+    if (!this.plan) {
+      return { content: 'No plan to execute. Run session_plan first.', metadata: { actorType: 'execution' } };
+    }
+    if (this.currentTask !== undefined) {
+      return { content: `Still executing: ${this.currentTask}`, metadata: { actorType: 'execution' } };
+    }
+
+    const plan = this.plan;
+    this.startExecution(plan, this.activeWorkspace?.rootPath || process.cwd());
+    return {
+      content: `Executing plan: ${plan.context.description}`,
+      metadata: { actorType: 'execution', planId: plan.metadata.id }
+    };
+  }
+
+  private async createPlan(instruction: string, context: Record<string, any>): Promise<InstructionProtocol> {
+    const planning = await this.actors.planning();
+    this.plan = await planning.generateInstructions({
+      id: randomUUID(),
+      sessionId: randomUUID(),
+      content: instruction,
+      context,
+      timestamp: new Date().toISOString()
+    });
+    return this.plan;
+  }
+
+  /**
+   * Run the plan in the background; the editor hears about the outcome
+   * through window/showMessage once the results are applied
+   */
+  private startExecution(plan: InstructionProtocol, projectPath: string): void {
+    const task = plan.context.description;
+    this.currentTask = task;
+    this.emit('execution-started', { task, planId: plan.metadata.id });
+
+    this.execute(plan, projectPath).then(result => {
+      this.emit('execution-complete', { task, result });
+    }, error => {
+      this.lastError = (error as Error).message;
+      this.logger.error('Execution failed', error as Error, { planId: plan.metadata.id });
+      this.connection.sendNotification('window/showMessage', { type: 1, message: `Execution failed: ${this.lastError}` });
+      this.emit('execution-complete', { task, error: this.lastError });
+    }).finally(() => {
+      this.currentTask = undefined;
+    });
+  }
+
+  private async execute(plan: InstructionProtocol, projectPath: string): Promise<ExecutionResult> {
+    const execution = await this.actors.execution();
+    const result = await execution.executeInstructions(plan, {
+      workingDirectory: projectPath,
+      environment: await buildExecutionEnvironment(projectPath),
+      timeout: 300000,
+      dryRun: false
+    });
+
+    const failures = result.status === 'failure'
+      ? []
+      : await this.applyResults(result, execution.getWorkspaceDir(plan.metadata.sessionId), projectPath);
+    const summary = [
+      `Execution ${result.status}: ${plan.context.description}`,
+      ...result.errors.map(error => error.message),
+      ...failures
+    ];
+    this.connection.sendNotification('window/showMessage', {
+      type: result.status === 'success' && failures.length === 0 ? 3 : 1,
+      message: summary.join('\n')
+    });
+    return result;
+  }
+
+  /**
+   * Mirror the files the execution actor wrote or deleted in its session
+   * workspace into the editor's workspace. Returns the edits that failed.
+   */
+  private async applyResults(result: ExecutionResult, workspace: string | undefined, projectPath: string): Promise<string[]> {
+    if (!workspace) return [];
+
+    // Later tasks win when several touch the same file
+    const changes = new Map<string, 'write' | 'delete'>();
+    for (const output of result.outputs) {
+      let task: { files?: string[]; deleted?: string[] };
+      try {
+        task = JSON.parse(output.content || '{}');
+      } catch {
+        continue;
+      }
+      task.files?.forEach(file => changes.set(file, 'write'));
+      task.deleted?.forEach(file => changes.set(file, 'delete'));
+    }
+
+    const failures: string[] = [];
+    for (const [file, change] of changes) {
+      const target = path.join(projectPath, file);
+      try {
+        if (change === 'delete') {
+          await this.deleteFile(target);
+        } else {
+          await this.saveFile(target, await fs.readFile(path.join(workspace, file), 'utf-8'));
+        }
+      } catch (error) {
+        failures.push(`${file}: ${(error as Error).message}`);
+      }
+    }
+    return failures;
+  }
+
+  private async publishDiagnostics(uri: string): Promise<void> {
+    const filePath = fileURLToPath(uri);
+    if (!CODE_FILE.test(filePath)) return;
+
+    let reports: ErrorReport[];
+    try {
+      this.errorDetection = this.errorDetection || new ErrorDetectionEngine();
+      reports = await this.errorDetection.detectErrors(filePath);
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      this.logger.error(`Diagnostics failed for ${filePath}`, error as Error);
+      return;
+    }
+
+    // Type errors may point at other files of the program
+    const byFile = new Map<string, ErrorReport[]>([[path.resolve(filePath), []]]);
+    for (const report of reports) {
+      const file = path.resolve(report.filePath);
+      byFile.set(file, [...(byFile.get(file) || []), report]);
+    }
+
+    for (const [file, fileReports] of byFile) {
+      const fileUri = this.toUri(file);
+      this.connection.sendNotification('textDocument/publishDiagnostics', {
+        uri: fileUri,
+        version: this.documents.get(fileUri)?.version,
+        diagnostics: fileReports.map(report => this.toDiagnostic(report))
+      });
+    }
+  }
+
+  private toDiagnostic(report: ErrorReport): Record<string, any> {
+    // ErrorReport positions are 1-based, LSP positions 0-based
+    const position = { line: Math.max(report.line - 1, 0), character: Math.max(report.column - 1, 0) };
+    const severities = { error: 1, warning: 2, info: 3 };
+
+    return {
+      range: { start: position, end: position },
+      severity: severities[report.severity],
+      code: report.code,
+      source: `sessionhub (${report.category})`,
+      message: report.suggestion ? `${report.message}\n${report.suggestion}` : report.message
+    };
+  }
+
+  private async applyEdit(label: string, edit: Record<string, any>): Promise<void> {
+    this.requireInitialized();
+    const result = await this.connection.sendRequest('workspace/applyEdit', { label, edit });
+    if (!result?.applied) {
+      throw new Error(`the editor did not apply the edit${result?.failureReason ? `: ${result.failureReason}` : ''}`);
+    }
+  }
+
+  private textEdit(uri: string, version: number | null, edit: { range: Range; newText: string }): Record<string, any> {
+    if (this.clientCapabilities.workspace?.workspaceEdit?.documentChanges) {
+      return { documentChanges: [{ textDocument: { uri, version }, edits: [edit] }] };
+    }
+    return { changes: { [uri]: [edit] } };
+  }
+
+  private fullRange(text: string): Range {
+    const lines = text.split(/\r\n|\r|\n/);
+    return {
+      start: { line: 0, character: 0 },
+      end: { line: lines.length - 1, character: lines[lines.length - 1]?.length || 0 }
+    };
+  }
+
+  private supportsResourceOperation(kind: 'create' | 'rename' | 'delete'): boolean {
+    const operations: string[] = this.clientCapabilities.workspace?.workspaceEdit?.resourceOperations || [];
+    return operations.includes(kind);
+  }
+
+  private watchLocally(callback: (change: FileOperation) => void): void {
+    if (!this.activeWorkspace) return;
+
+    this.fileWatcher = chokidar.watch(this.activeWorkspace.rootPath, {
+      ignored: /(^|[\/\\])\../, // ignore dotfiles
+      persistent: true,
+      ignoreInitial: true
+    });
+
+    this.fileWatcher
+      .on('add', filePath => callback({ type: 'create', path: filePath }))
+      .on('change', filePath => callback({ type: 'update', path: filePath }))
+      .on('unlink', filePath => callback({ type: 'delete', path: filePath }));
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: this.requireWorkspace() });
+    return stdout;
+  }
+
+  private async runScript(script: string): Promise<{ passed: boolean; errors: any[] }> {
+    try {
+      await execFileAsync('npm', ['run', script], { cwd: this.requireWorkspace() });
+      return { passed: true, errors: [] };
+    } catch (error: any) {
+      return { passed: false, errors: [error.stdout || error.message] };
+    }
+  }
+
+  private requireWorkspace(): string {
+    if (!this.activeWorkspace) {
+      throw new Error('No active workspace');
+    }
+    return this.activeWorkspace.rootPath;
+  }
+
+  private builtInActors(): LSPActors {
+    const validator = new ProtocolValidator(this.logger);
+    let planning: PlanningEngine | undefined;
+    let execution: ExecutionEngine | undefined;
+    return {
+      planning: async () => (planning = planning || new PlanningEngine(this.logger, validator)),
+      execution: async () => (execution = execution || new ExecutionEngine(this.logger, validator, new SecuritySandbox(this.logger)))
+    };
+  }
+
+  private requireInitialized(): void {
+    if (!this.initialized) {
+      throw new LSPResponseError('Server not initialized', LSP_ERRORS.SERVER_NOT_INITIALIZED);
+    }
+  }
+
+  private toUri(filePath: string): string {
+    return pathToFileURL(path.resolve(this.activeWorkspace?.rootPath || process.cwd(), filePath)).href;
+  }
+}
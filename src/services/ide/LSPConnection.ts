@@ -0,0 +1,194 @@
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+import { Logger } from '../../lib/logging/Logger';
+
+// JSON-RPC error codes used by the Language Server Protocol
+export const LSP_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  SERVER_NOT_INITIALIZED: -32002,
+  REQUEST_FAILED: -32803
+} as const;
+
+export class LSPResponseError extends Error {
+  constructor(message: string, public code: number, public data?: any) {
+    super(message);
+    this.name = 'LSPResponseError';
+  }
+}
+
+type RequestHandler = (params: any) => Promise<any> | any;
+type NotificationHandler = (params: any) => Promise<void> | void;
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * JSON-RPC over the LSP base protocol: every message is a JSON body
+ * preceded by a Content-Length header. Works on any pair of streams,
+ * normally the stdin and stdout the editor launched us with.
+ */
+export class LSPConnection extends EventEmitter {
+  private logger: Logger;
+  private input: Readable;
+  private output: Writable;
+  private requestTimeoutMs: number;
+  private buffer: Buffer = Buffer.alloc(0);
+  private requestHandlers: Map<string, RequestHandler> = new Map();
+  private notificationHandlers: Map<string, NotificationHandler> = new Map();
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 1;
+  private listening = false;
+  private readonly onData = (chunk: Buffer) => this.receive(chunk);
+  private readonly onEnd = () => this.close();
+
+  constructor(input: Readable = process.stdin, output: Writable = process.stdout, requestTimeoutMs = 30000) {
+    super();
+    this.logger = new Logger('LSPConnection');
+    this.input = input;
+    this.output = output;
+    this.requestTimeoutMs = requestTimeoutMs;
+  }
+
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  listen(): void {
+    if (this.listening) return;
+    this.listening = true;
+    this.input.on('data', this.onData);
+    this.input.on('end', this.onEnd);
+  }
+
+  /**
+   * Send a request to the editor and resolve with its result
+   */
+  sendRequest<T = any>(method: string, params?: any): Promise<T> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new LSPResponseError(`${method} timed out after ${this.requestTimeoutMs}ms`, LSP_ERRORS.REQUEST_FAILED));
+      }, this.requestTimeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  sendNotification(method: string, params?: any): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  close(): void {
+    if (!this.listening) return;
+    this.listening = false;
+    this.input.off('data', this.onData);
+    this.input.off('end', this.onEnd);
+
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new LSPResponseError('Connection closed', LSP_ERRORS.REQUEST_FAILED));
+    }
+    this.pending.clear();
+    this.emit('close');
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    // A chunk may hold several messages or only part of one
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = Number(/Content-Length:\s*(\d+)/i.exec(header)?.[1]);
+      if (!Number.isFinite(length)) {
+        this.logger.warn('Dropping LSP message without Content-Length', { header });
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      this.dispatch(body);
+    }
+  }
+
+  private dispatch(body: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      this.write({ jsonrpc: '2.0', id: null, error: { code: LSP_ERRORS.PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+
+    if (message.method === undefined) {
+      this.settle(message);
+    } else if (message.id !== undefined) {
+      void this.handleRequest(message.id, message.method, message.params);
+    } else {
+      this.handleNotification(message.method, message.params);
+    }
+  }
+
+  private async handleRequest(id: number | string, method: string, params: any): Promise<void> {
+    const handler = this.requestHandlers.get(method);
+    if (!handler) {
+      this.write({ jsonrpc: '2.0', id, error: { code: LSP_ERRORS.METHOD_NOT_FOUND, message: `Unhandled method ${method}` } });
+      return;
+    }
+
+    try {
+      const result = await handler(params);
+      this.write({ jsonrpc: '2.0', id, result: result ?? null });
+    } catch (error) {
+      const code = error instanceof LSPResponseError ? error.code : LSP_ERRORS.INTERNAL_ERROR;
+      const data = error instanceof LSPResponseError ? error.data : undefined;
+      this.write({ jsonrpc: '2.0', id, error: { code, message: (error as Error).message, data } });
+    }
+  }
+
+  private handleNotification(method: string, params: any): void {
+    const handler = this.notificationHandlers.get(method);
+    // Unknown notifications, including $/ ones, are ignored per the spec
+    if (!handler) return;
+
+    Promise.resolve()
+      .then(() => handler(params))
+      .catch(error => this.logger.error(`Notification ${method} failed`, error as Error));
+  }
+
+  private settle(message: any): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    if (message.error) {
+      pending.reject(new LSPResponseError(message.error.message, message.error.code, message.error.data));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private write(message: object): void {
+    const body = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Channel Registry
+ *
+ * The single table of main-process channels (session:*, workflow:*,
+ * recovery:*, mcp:*, zed:*). Handler modules register here instead of on
+ * ipcMain; the registry binds each channel to ipcMain for the renderer and
+ * LocalAPIServer exposes the same handlers over HTTP. Events published here
+ * reach both the renderer windows and the API's WebSocket stream.
+ */
+import { EventEmitter } from 'events';
+import type { IpcMain } from 'electron';
+
+export interface ChannelParam {
+  name: string;
+  // JSON schema of the argument; any value when omitted
+  schema?: Record<string, unknown>;
+  optional?: boolean;
+  // The whole HTTP request body is this argument rather than one of its fields
+  body?: boolean;
+  description?: string;
+}
+
+export interface ChannelOptions {
+  summary?: string;
+  params?: ChannelParam[];
+  // Keep the channel off the HTTP API, e.g. when it writes to caller-chosen
+  // paths or changes which keys and tokens the app trusts
+  ipcOnly?: boolean;
+}
+
+export type ChannelHandler = (...args: any[]) => unknown;
+
+export interface ChannelDefinition extends ChannelOptions {
+  channel: string;
+  handler: ChannelHandler;
+}
+
+export interface ChannelEvent {
+  event: string;
+  payload: unknown;
+  timestamp: string;
+}
+
+export type ChannelBroadcast = (event: string, payload: unknown) => void;
+
+export class ChannelError extends Error {
+  constructor(message: string, public code: 'UNKNOWN_CHANNEL' | 'DUPLICATE_CHANNEL' | 'INVALID_ARGUMENTS') {
+    super(message);
+    this.name = 'ChannelError';
+  }
+}
+
+export class ChannelRegistry extends EventEmitter {
+  private channels = new Map<string, ChannelDefinition>();
+  private ipc: Pick<IpcMain, 'handle'> | null = null;
+  private broadcast: ChannelBroadcast | null = null;
+
+  /**
+   * Bind every channel, registered now or later, to ipcMain and send
+   * published events to the renderer through broadcast
+   */
+  attachIpc(ipc: Pick<IpcMain, 'handle'>, broadcast?: ChannelBroadcast): void {
+    this.ipc = ipc;
+    this.broadcast = broadcast || null;
+    this.channels.forEach(definition => this.bindIpc(definition));
+  }
+
+  handle(channel: string, handler: ChannelHandler): void;
+  handle(channel: string, options: ChannelOptions, handler: ChannelHandler): void;
+  handle(channel: string, optionsOrHandler: ChannelOptions | ChannelHandler, handler?: ChannelHandler): void {
+    if (this.channels.has(channel)) {
+      throw new ChannelError(`Channel ${channel} is already registered`, 'DUPLICATE_CHANNEL');
+    }
+    const definition: ChannelDefinition = typeof optionsOrHandler === 'function'
+      ? { channel, handler: optionsOrHandler }
+      : { ...optionsOrHandler, channel, handler: handler! };
+
+    this.channels.set(channel, definition);
+    this.bindIpc(definition);
+  }
+
+  get(channel: string): ChannelDefinition | undefined {
+    return this.channels.get(channel);
+  }
+
+  list(): ChannelDefinition[] {
+    return [...this.channels.values()].sort((a, b) => a.channel.localeCompare(b.channel));
+  }
+
+  async invoke(channel: string, args: unknown[] = []): Promise<unknown> {
+    const definition = this.channels.get(channel);
+    if (!definition) {
+      throw new ChannelError(`Unknown channel ${channel}`, 'UNKNOWN_CHANNEL');
+    }
+    return definition.handler(...args);
+  }
+
+  /**
+   * Turn an HTTP request body into handler arguments. An array is taken
+   * as the positional arguments; an object is keyed by parameter name.
+   */
+  argumentsFrom(channel: string, body: unknown): unknown[] {
+    const definition = this.channels.get(channel);
+    if (!definition) {
+      throw new ChannelError(`Unknown channel ${channel}`, 'UNKNOWN_CHANNEL');
+    }
+    const params = definition.params || [];
+    if (Array.isArray(body)) {
+      return params.length > 0 ? body.map((value, index) => this.revive(params[index], value)) : body;
+    }
+
+    const whole = params.length === 1 && params[0]!.body;
+    const fields = (body ?? {}) as Record<string, unknown>;
+    if (typeof fields !== 'object') {
+      throw new ChannelError(`${channel} expects a JSON object or array body`, 'INVALID_ARGUMENTS');
+    }
+    if (!whole) {
+      const unknown = Object.keys(fields).filter(key => !params.some(param => param.name === key));
+      if (unknown.length > 0) {
+        throw new ChannelError(`${channel} has no parameter ${unknown.join(', ')}`, 'INVALID_ARGUMENTS');
+      }
+    }
+
+    return params.map(param => {
+      const value = whole ? fields : fields[param.name];
+      if (value === undefined) {
+        if (!param.optional) {
+          throw new ChannelError(`${channel} requires ${param.name}`, 'INVALID_ARGUMENTS');
+        }
+        return undefined;
+      }
+      if (!this.matchesType(param, value)) {
+        throw new ChannelError(`${channel} expects ${param.name} to be ${String(param.schema?.['type'])}`, 'INVALID_ARGUMENTS');
+      }
+      return this.revive(param, value);
+    });
+  }
+
+  /**
+   * Send an event to the renderer windows and the API event stream
+   */
+  publish(event: string, payload: unknown): void {
+    this.broadcast?.(event, payload);
+    const message: ChannelEvent = { event, payload, timestamp: new Date().toISOString() };
+    this.emit('event', message);
+  }
+
+  private bindIpc(definition: ChannelDefinition): void {
+    this.ipc?.handle(definition.channel, (_event, ...args) => definition.handler(...args));
+  }
+
+  private matchesType(param: ChannelParam, value: unknown): boolean {
+    switch (param.schema?.['type']) {
+      case 'string': return typeof value === 'string';
+      case 'number':
+      case 'integer': return typeof value === 'number';
+      case 'boolean': return typeof value === 'boolean';
+      case 'array': return Array.isArray(value);
+      case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+      default: return true;
+    }
+  }
+
+  // JSON has no dates; handlers typed with Date receive one
+  private revive(param: ChannelParam | undefined, value: unknown): unknown {
+    return param?.schema?.['format'] === 'date-time' && typeof value === 'string' ? new Date(value) : value;
+  }
+}
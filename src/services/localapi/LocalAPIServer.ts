@@ -0,0 +1,283 @@
+/**
+ * Local API Server
+ *
+ * Opt-in HTTP API on the loopback interface for dashboards and scripts.
+ * Every channel of the ChannelRegistry not marked ipcOnly is served as
+ * POST /api/<channel with ':' as '/'>, described by /openapi.json, and
+ * the registry's published events stream over the /events WebSocket.
+ * Requests need the bearer token the server was started with.
+ */
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { createServer, IncomingMessage, Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { isLocalOrigin, upgradeAuthorization } from '../../lib/security/LocalRequests';
+import { ChannelDefinition, ChannelError, ChannelEvent, ChannelRegistry } from './ChannelRegistry';
+
+export interface LocalAPIServerConfig {
+  port: number;
+  // Loopback only unless a caller deliberately widens it
+  host?: string;
+  token: string;
+  version?: string;
+}
+
+export type LocalAPIServerStatus = 'stopped' | 'running' | 'error';
+
+const HTTP_STATUS: Record<ChannelError['code'], number> = {
+  UNKNOWN_CHANNEL: 404,
+  DUPLICATE_CHANNEL: 500,
+  INVALID_ARGUMENTS: 400
+};
+
+export function channelPath(channel: string): string {
+  return `/api/${channel.split(':').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * OpenAPI 3.1 description of the registry's HTTP channels
+ */
+export function buildOpenAPIDocument(registry: ChannelRegistry, version = '1.0.0'): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+  for (const definition of registry.list().filter(channel => !channel.ipcOnly)) {
+    paths[channelPath(definition.channel)] = {
+      post: {
+        operationId: definition.channel,
+        summary: definition.summary || definition.channel,
+        tags: [definition.channel.split(':')[0]],
+        ...(definition.params?.length ? { requestBody: { required: true, content: { 'application/json': { schema: requestSchema(definition) } } } } : {}),
+        responses: {
+          '200': {
+            description: 'The handler result',
+            content: { 'application/json': { schema: { type: 'object', properties: { result: {} } } } }
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '401': { $ref: '#/components/responses/Error' },
+          '500': { $ref: '#/components/responses/Error' }
+        }
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'SessionHub Local API',
+      version,
+      description: 'The channels of the SessionHub desktop app. Session and workflow events stream over the /events WebSocket.'
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearer: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+      responses: {
+        Error: {
+          description: 'The request failed',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } } }
+              }
+            }
+          }
+        }
+      }
+    }
+  };
+}
+
+function requestSchema(definition: ChannelDefinition): Record<string, unknown> {
+  const params = definition.params || [];
+  if (params.length === 1 && params[0]!.body) {
+    return { description: params[0]!.description, ...(params[0]!.schema || {}) };
+  }
+  return {
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(params.map(param => [
+      param.name,
+      { ...(param.description ? { description: param.description } : {}), ...(param.schema || {}) }
+    ])),
+    required: params.filter(param => !param.optional).map(param => param.name)
+  };
+}
+
+export class LocalAPIServer extends EventEmitter {
+  private app: Express;
+  private server: Server;
+  private wss: WebSocketServer;
+  private routes = new Map<string, string>();
+  private requestedEvents = new WeakMap<IncomingMessage, string[]>();
+  private subscriptions = new WeakMap<WebSocket, string[]>();
+  private status: LocalAPIServerStatus = 'stopped';
+  private readonly tokenHash: Buffer;
+  private readonly forwardEvent = (event: ChannelEvent) => this.broadcastEvent(event);
+
+  constructor(private registry: ChannelRegistry, private config: LocalAPIServerConfig) {
+    super();
+    if (!config.token) {
+      throw new Error('The local API needs a token');
+    }
+    this.tokenHash = this.hash(config.token);
+    this.app = express();
+    this.server = createServer(this.app);
+    this.wss = new WebSocketServer({
+      server: this.server,
+      path: '/events',
+      verifyClient: (info, done) => {
+        if (!isLocalOrigin(info.origin) || !this.authenticateUpgrade(info.req)) {
+          done(false, 401, 'Unauthorized');
+          return;
+        }
+        done(true);
+      }
+    });
+    this.setupMiddleware();
+    this.setupRoutes();
+    this.wss.on('connection', (client, req) => {
+      const prefixes = this.requestedEvents.get(req);
+      if (prefixes) {
+        this.subscriptions.set(client, prefixes);
+      }
+    });
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', error => {
+        this.status = 'error';
+        reject(error);
+      });
+      this.server.listen(this.config.port, this.config.host || '127.0.0.1', () => {
+        this.registry.on('event', this.forwardEvent);
+        this.status = 'running';
+        this.emit('started');
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.registry.off('event', this.forwardEvent);
+    this.wss.clients.forEach(client => client.close(1001, 'Server stopping'));
+    this.wss.close();
+    return new Promise(resolve => {
+      this.server.close(() => {
+        this.status = 'stopped';
+        this.emit('stopped');
+        resolve();
+      });
+    });
+  }
+
+  getStatus(): LocalAPIServerStatus {
+    return this.status;
+  }
+
+  private setupMiddleware(): void {
+    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      if (!isLocalOrigin(req.header('Origin'))) {
+        this.fail(res, 403, 'FORBIDDEN', 'Origin not allowed');
+        return;
+      }
+      next();
+    });
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      if (req.path === '/health') {
+        next();
+        return;
+      }
+      if (!this.authenticate(req.header('Authorization'))) {
+        res.header('WWW-Authenticate', 'Bearer realm="sessionhub-local-api"');
+        this.fail(res, 401, 'UNAUTHENTICATED', 'Missing or invalid bearer token');
+        return;
+      }
+      next();
+    });
+  }
+
+  private setupRoutes(): void {
+    this.app.get('/health', (_req: Request, res: Response) => {
+      res.json({ status: this.status, channels: this.registry.list().filter(channel => !channel.ipcOnly).length });
+    });
+
+    this.app.get('/openapi.json', (_req: Request, res: Response) => {
+      res.json(buildOpenAPIDocument(this.registry, this.config.version));
+    });
+
+    this.app.post('/api/*channel', async (req: Request, res: Response) => {
+      const channel = this.channelFor(req.path);
+      if (!channel) {
+        this.fail(res, 404, 'UNKNOWN_CHANNEL', `No channel at ${req.path}`);
+        return;
+      }
+      try {
+        const result = await this.registry.invoke(channel, this.registry.argumentsFrom(channel, req.body));
+        res.json({ result: result ?? null });
+      } catch (error) {
+        if (error instanceof ChannelError) {
+          this.fail(res, HTTP_STATUS[error.code], error.code, error.message);
+        } else {
+          this.fail(res, 500, 'HANDLER_FAILED', (error as Error).message);
+        }
+      }
+    });
+
+    // Malformed JSON bodies and other middleware errors
+    this.app.use((error: Error & { status?: number }, _req: Request, res: Response, _next: NextFunction) => {
+      this.fail(res, error.status || 500, 'BAD_REQUEST', error.message);
+    });
+  }
+
+  // Channels may register after the server starts, so the path table is rebuilt on a miss
+  private channelFor(path: string): string | undefined {
+    if (!this.routes.has(path)) {
+      this.routes = new Map(this.registry.list()
+        .filter(definition => !definition.ipcOnly)
+        .map(definition => [channelPath(definition.channel), definition.channel]));
+    }
+    return this.routes.get(path);
+  }
+
+  /**
+   * Events a client asked for with ?events=workflow:,session: (prefixes);
+   * every event when the parameter is absent
+   */
+  private broadcastEvent(event: ChannelEvent): void {
+    const message = JSON.stringify(event);
+    this.wss.clients.forEach(client => {
+      const prefixes = this.subscriptions.get(client);
+      if (client.readyState === WebSocket.OPEN && (!prefixes || prefixes.some(prefix => event.event.startsWith(prefix)))) {
+        client.send(message);
+      }
+    });
+  }
+
+  private authenticateUpgrade(req: IncomingMessage): boolean {
+    if (!this.authenticate(upgradeAuthorization(req))) {
+      return false;
+    }
+    const events = new URL(req.url || '/', 'http://localhost').searchParams.get('events');
+    if (events) {
+      this.requestedEvents.set(req, events.split(',').filter(Boolean));
+    }
+    return true;
+  }
+
+  private authenticate(header: string | undefined): boolean {
+    const token = /^Bearer\s+(\S+)$/i.exec(header || '')?.[1];
+    return !!token && crypto.timingSafeEqual(this.hash(token), this.tokenHash);
+  }
+
+  private hash(token: string): Buffer {
+    return crypto.createHash('sha256').update(token).digest();
+  }
+
+  private fail(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({ error: { code, message } });
+  }
+}
@@ -1,3 +1,5 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { Logger } from '../../lib/logging/Logger';
 import { LanguageDetector } from './LanguageDetector';
 import { MCPTemplateManager } from './MCPTemplateManager';
@@ -5,7 +7,9 @@ import { MCPConfigGenerator } from './MCPConfigGenerator';
 import { MCPDocumentationGenerator } from './MCPDocumentationGenerator';
 import { MCPTestGenerator } from './MCPTestGenerator';
 import { ProjectAnalyzer } from './ProjectAnalyzer';
-import { SupportedLanguage, MCPGenerationOptions, MCPServerConfig } from './types';
+import { ConformanceReport, MCPConformanceHarness } from './testing/MCPConformanceHarness';
+import { MCPResultsAggregator } from './reporting/MCPResultsAggregator';
+import { SupportedLanguage, MCPGenerationOptions, MCPServerConfig, MCPServerManifest } from './types';
 
 export class MCPGeneratorEngine {
   private logger: Logger;
@@ -15,8 +19,12 @@ export class MCPGeneratorEngine {
   private documentationGenerator: MCPDocumentationGenerator;
   private testGenerator: MCPTestGenerator;
   private projectAnalyzer: ProjectAnalyzer;
+  private conformanceHarness: MCPConformanceHarness;
+  private resultsAggregator?: MCPResultsAggregator;
+  // Latest conformance report of each generated server
+  private conformanceReports: Map<string, ConformanceReport> = new Map();
 
-  constructor() {
+  constructor(resultsAggregator?: MCPResultsAggregator) {
     this.logger = new Logger('MCPGeneratorEngine');
     this.languageDetector = new LanguageDetector();
     this.templateManager = new MCPTemplateManager();
@@ -24,6 +32,8 @@ export class MCPGeneratorEngine {
     this.documentationGenerator = new MCPDocumentationGenerator();
     this.testGenerator = new MCPTestGenerator();
     this.projectAnalyzer = new ProjectAnalyzer();
+    this.conformanceHarness = new MCPConformanceHarness(this.templateManager);
+    this.resultsAggregator = resultsAggregator;
   }
 
   /**
@@ -32,7 +42,7 @@ export class MCPGeneratorEngine {
   async generateMCPIntegration(
     projectPath: string,
     options: MCPGenerationOptions = {}
-  ): Promise<MCPServerConfig> {
+  ): Promise<MCPServerManifest> {
     try {
       this.logger.info('Starting MCP generation for project:', { projectPath });
 
@@ -86,7 +96,7 @@ export class MCPGeneratorEngine {
       }
 
       // Step 7: Create integration manifest
-      const manifest = {
+      const manifest: MCPServerManifest = {
         name: mcpConfig.name,
         version: mcpConfig.version,
         language: primaryLanguage,
@@ -106,16 +116,35 @@ export class MCPGeneratorEngine {
   }
 
   /**
-   * Validate generated MCP server
+   * Validate generated MCP server: build it, then check it implements
+   * the tools in its mcp.config.json over stdio. The report joins those
+   * of earlier servers in the aggregated results, when reporting is on.
    */
-  async validateMCPServer(_serverPath: string): Promise<boolean> {
-    try {
-      // TODO: Implement validation logic
-      return true;
-    } catch (error) {
-      this.logger.error('MCP validation failed:', error as Error);
-      return false;
+  async validateMCPServer(serverPath: string, language: SupportedLanguage): Promise<ConformanceReport> {
+    const config: MCPServerConfig = JSON.parse(
+      await fs.readFile(path.join(serverPath, 'mcp.config.json'), 'utf-8')
+    );
+    const report = await this.conformanceHarness.run({ language, serverPath, config, build: true });
+    if (report.failed > 0) {
+      this.logger.warn('MCP server does not conform to its config:', { serverPath, recommendations: report.recommendations });
+    }
+
+    this.conformanceReports.set(report.integrationId, report);
+    if (this.resultsAggregator) {
+      try {
+        await this.resultsAggregator.aggregateResults([...this.conformanceReports.values()], [], [], [], []);
+      } catch (error) {
+        this.logger.error('Failed to aggregate MCP conformance reports:', error as Error);
+      }
     }
+    return report;
+  }
+
+  /**
+   * Conformance reports of the servers validated so far
+   */
+  getConformanceReports(): ConformanceReport[] {
+    return [...this.conformanceReports.values()];
   }
 
   /**
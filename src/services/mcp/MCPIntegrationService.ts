@@ -1,10 +1,13 @@
+import * as os from 'os';
+import * as path from 'path';
 import { Logger } from '../../lib/logging/Logger';
 import { MCPGeneratorEngine } from './MCPGeneratorEngine';
 // TODO: Import when available
 // import { SessionManager } from '../../core/orchestrator/SessionManager';
 // import { PlanningEngine } from '../../core/planning/PlanningEngine';
 // import { ExecutionEngine } from '../../core/execution/ExecutionEngine';
-import { MCPGenerationOptions, MCPServerConfig } from './types';
+import { MCPResultsAggregator } from './reporting/MCPResultsAggregator';
+import { MCPGenerationOptions, MCPServerManifest } from './types';
 
 export interface MCPIntegration {
   id: string;
@@ -20,7 +23,7 @@ export interface MCPIntegration {
 interface MCPSession {
   id: string;
   projectPath: string;
-  mcpConfig: MCPServerConfig;
+  mcpConfig?: MCPServerManifest;
   status: 'planning' | 'generating' | 'testing' | 'completed' | 'failed';
   createdAt: Date;
   completedAt?: Date;
@@ -38,7 +41,14 @@ export class MCPIntegrationService {
 
   constructor() {
     this.logger = new Logger('MCPIntegrationService');
-    this.mcpGenerator = new MCPGeneratorEngine();
+    this.mcpGenerator = new MCPGeneratorEngine(new MCPResultsAggregator({
+      outputDir: path.join(os.homedir(), '.sessionhub', 'mcp', 'reports'),
+      formats: ['json'],
+      includeCharts: false,
+      includeRawData: false,
+      aggregationPeriod: 'daily',
+      retentionDays: 30
+    }));
     // TODO: Initialize when services are available
     // this.sessionManager = SessionManager.getInstance();
     // this.planningEngine = new PlanningEngine();
@@ -64,7 +74,6 @@ export class MCPIntegrationService {
       const mcpSession: MCPSession = {
         id: session.id,
         projectPath,
-        mcpConfig: {} as MCPServerConfig,
         status: 'planning',
         createdAt: new Date()
       };
@@ -133,12 +142,10 @@ export class MCPIntegrationService {
       // Phase 3: Testing
       this.updateSessionStatus(sessionId, 'testing');
 
-      const validationResult = await this.mcpGenerator.validateMCPServer(
-        (mcpConfig as any).serverPath || ''
-      );
+      const report = await this.mcpGenerator.validateMCPServer(mcpConfig.serverPath, mcpConfig.language);
 
-      if (!validationResult) {
-        throw new Error('MCP server validation failed');
+      if (report.failed > 0) {
+        throw new Error(`MCP server validation failed: ${report.recommendations.join('; ')}`);
       }
 
       // Phase 4: Integration with SessionHub
@@ -158,7 +165,7 @@ export class MCPIntegrationService {
    */
   private async integrateWithSessionHub(
     _sessionId: string,
-    mcpConfig: MCPServerConfig
+    mcpConfig: MCPServerManifest
   ): Promise<void> {
     try {
       // Register MCP server with SessionHub
@@ -167,7 +174,7 @@ export class MCPIntegrationService {
       const registrationData = {
         name: mcpConfig.name,
         version: mcpConfig.version,
-        serverPath: (mcpConfig as any).serverPath,
+        serverPath: mcpConfig.serverPath,
         tools: mcpConfig.tools,
         integrations: mcpConfig.integrations
       };
@@ -181,7 +188,7 @@ export class MCPIntegrationService {
         metadata: {
           mcpIntegration: {
             serverName: mcpConfig.name,
-            serverPath: (mcpConfig as any).serverPath,
+            serverPath: mcpConfig.serverPath,
             toolCount: mcpConfig.tools.length,
             integrationCount: mcpConfig.integrations?.length || 0
           }
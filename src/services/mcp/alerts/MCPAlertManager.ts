@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { Logger } from '../../../lib/logging/Logger';
 import { IntegrationHealth } from '../monitoring/MCPIntegrationMonitor';
+import { MCPPermissionViolation } from '../server/types';
 
 export interface AlertConfig {
   enabled: boolean;
@@ -82,6 +83,7 @@ export class MCPAlertManager extends EventEmitter {
   private throttleMap: Map<string, number> = new Map();
   private channels: Map<string, AlertChannel> = new Map();
   private rules: Map<string, AlertRule> = new Map();
+  private violations: MCPPermissionViolation[] = [];
 
   constructor(config: AlertConfig) {
     super();
@@ -144,7 +146,10 @@ export class MCPAlertManager extends EventEmitter {
         return false;
     }
 
-    // Evaluate condition
+    return this.compare(metricValue, condition);
+  }
+
+  private compare(metricValue: any, condition: AlertCondition): boolean {
     switch (condition.operator) {
       case '>':
         return metricValue > condition.value;
@@ -188,6 +193,10 @@ export class MCPAlertManager extends EventEmitter {
       metadata: rule.metadata,
     };
 
+    await this.raiseAlert(rule, alert);
+  }
+
+  private async raiseAlert(rule: AlertRule, alert: AlertEvent): Promise<void> {
     // Store alert
     this.activeAlerts.set(alert.id, alert);
     this.alertHistory.push(alert);
@@ -204,6 +213,56 @@ export class MCPAlertManager extends EventEmitter {
     this.emit('alert-triggered', alert);
   }
 
+  /**
+   * Record a capability the MCP sandbox refused. Rules on the
+   * permissionViolations metric compare against the number of violations
+   * by the same integration within the rule's window (default one hour).
+   */
+  async recordPermissionViolation(violation: MCPPermissionViolation): Promise<void> {
+    const dayAgo = Date.now() - (24 * 60 * 60 * 1000);
+    this.violations = this.violations.filter(v => Date.parse(v.timestamp) > dayAgo);
+    this.violations.push(violation);
+    this.emit('permission-violation', violation);
+
+    if (!this.config.enabled) return;
+
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled || rule.condition.metric !== 'permissionViolations') continue;
+
+      const since = Date.now() - ((rule.condition.window || 3600) * 1000);
+      const count = this.violations.filter(v =>
+        v.integrationId === violation.integrationId && Date.parse(v.timestamp) > since
+      ).length;
+      if (!this.compare(count, rule.condition) || this.isThrottled(rule.id)) continue;
+
+      await this.raiseAlert(rule, {
+        id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        ruleId: rule.id,
+        integrationId: violation.integrationId,
+        integrationName: violation.integrationName,
+        severity: rule.severity,
+        title: `${rule.name} - ${violation.integrationName}`,
+        message: `${rule.description}\n` +
+                 `Integration: ${violation.integrationName}\n` +
+                 `Tool: ${violation.tool}\n` +
+                 `Denied: ${violation.capability} ${violation.target}\n` +
+                 `Reason: ${violation.reason}\n` +
+                 `Violations in window: ${count}`,
+        metric: rule.condition.metric,
+        actualValue: count,
+        expectedValue: rule.condition.value,
+        timestamp: new Date(violation.timestamp),
+        acknowledged: false,
+        escalationLevel: 0,
+        metadata: { ...rule.metadata, violation },
+      });
+    }
+  }
+
+  getPermissionViolations(integrationId?: string): MCPPermissionViolation[] {
+    return this.violations.filter(v => !integrationId || v.integrationId === integrationId);
+  }
+
   private getMetricValue(metric: string, health: IntegrationHealth): any {
     switch (metric) {
       case 'status':
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import Queue from 'bull';
 import { MCPIntegrationService } from '../core/MCPIntegrationManager';
+import { MCPBatchStore } from './MCPBatchStore';
 import { Logger } from '../../../lib/logging/Logger';
 
 export interface BatchOperation {
@@ -8,7 +9,8 @@ export interface BatchOperation {
   type: 'test' | 'deploy' | 'update' | 'validate' | 'execute';
   items: BatchItem[];
   config: BatchConfig;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  // interrupted: was pending or processing when the app stopped
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
   progress: BatchProgress;
   results: BatchResult[];
   createdAt: Date;
@@ -70,11 +72,13 @@ export class MCPBatchProcessor extends EventEmitter {
   private activeOperations: Map<string, BatchOperation> = new Map();
   private snapshots: Map<string, BatchSnapshot[]> = new Map();
   private memoryMonitor: NodeJS.Timer | null = null;
+  private store?: MCPBatchStore;
 
-  constructor() {
+  constructor(store?: MCPBatchStore) {
     super();
     this.logger = new Logger('MCP');
     this.integrationService = new MCPIntegrationService();
+    this.store = store;
     
         
     // Initialize batch queue with Redis for production use
@@ -142,6 +146,7 @@ export class MCPBatchProcessor extends EventEmitter {
 
     // Store operation
     this.activeOperations.set(operation.id, operation);
+    await this.persistOperation(operation);
 
     // Create initial snapshot
     await this.createSnapshot(operation);
@@ -159,8 +164,19 @@ export class MCPBatchProcessor extends EventEmitter {
       throw new Error(`Operation ${operationId} not found`);
     }
 
+    // Interrupted batches wait for the user to resume, retry or roll back
+    if (operation.status !== 'pending') {
+      this.logger.info(`Skipping batch ${operationId} in ${operation.status} state`);
+      return;
+    }
+
     operation.status = 'processing';
     operation.startedAt = new Date();
+    // Resumed batches keep the results of items already processed
+    operation.progress.completed = operation.results.filter(r => r.status === 'success').length;
+    operation.progress.failed = operation.results.filter(r => r.status === 'failed').length;
+    operation.progress.skipped = operation.results.filter(r => r.status === 'skipped').length;
+    await this.persistOperation(operation);
     this.emit('batch-started', operation);
 
     // const startTime = Date.now(); // Unused
@@ -172,8 +188,7 @@ export class MCPBatchProcessor extends EventEmitter {
     try {
       // Process items with concurrency control
       const results = await this.processItemsConcurrently(operation);
-      
-      operation.results = results;
+
       operation.status = 'completed';
       operation.completedAt = new Date();
 
@@ -200,13 +215,16 @@ export class MCPBatchProcessor extends EventEmitter {
     } finally {
       clearInterval(progressInterval);
       await this.createSnapshot(operation);
+      await this.persistOperation(operation);
     }
   }
 
   private async processItemsConcurrently(operation: BatchOperation): Promise<BatchResult[]> {
-    const results: BatchResult[] = [];
-    const { items, config } = operation;
-    
+    const results = operation.results;
+    const { config } = operation;
+    const processed = new Set(results.map(r => r.itemId));
+    const items = operation.items.filter(item => !processed.has(item.id));
+
     // Create chunks based on concurrency
     const chunks: BatchItem[][] = [];
     for (let i = 0; i < items.length; i += config.concurrency) {
@@ -243,6 +261,7 @@ export class MCPBatchProcessor extends EventEmitter {
         if (result && result.status === 'fulfilled') {
           results.push(result.value);
           operation.progress.completed++;
+          await this.persistResult(operation, result.value);
         } else if (result && result.status === 'rejected') {
           const errorResult: BatchResult = {
             itemId: item?.id || 'unknown',
@@ -253,6 +272,7 @@ export class MCPBatchProcessor extends EventEmitter {
           };
           results.push(errorResult);
           operation.progress.failed++;
+          await this.persistResult(operation, errorResult);
 
           if (!config.continueOnError) {
             throw new Error(`Item ${item?.id || 'unknown'} failed: ${result.reason?.message || 'Unknown error'}`);
@@ -262,6 +282,7 @@ export class MCPBatchProcessor extends EventEmitter {
 
       // Update progress
       this.updateProgress(operation);
+      await this.persistOperation(operation);
     }
 
     return results;
@@ -453,16 +474,111 @@ export class MCPBatchProcessor extends EventEmitter {
     }
 
     await this.createSnapshot(operation);
+    await this.persistOperation(operation);
     this.emit('batch-cancelled', operation);
   }
 
+  /**
+   * Load persisted batches and mark those cut short by a restart as
+   * interrupted. Call once on startup; interrupted batches are not run
+   * again until resumed, retried or rolled back.
+   */
+  async restoreInterruptedBatches(): Promise<BatchOperation[]> {
+    if (!this.store) return [];
+
+    const operations = await this.store.loadOperations(['pending', 'processing', 'interrupted']);
+    for (const operation of operations) {
+      if (operation.status !== 'interrupted') {
+        operation.status = 'interrupted';
+        await this.store.saveOperation(operation);
+      }
+      this.activeOperations.set(operation.id, operation);
+      this.snapshots.set(operation.id, await this.store.loadSnapshots(operation.id));
+      this.emit('batch-interrupted', operation);
+    }
+
+    return operations;
+  }
+
+  /**
+   * Continue an interrupted batch with the items that have no result yet
+   */
+  async resumeBatchOperation(operationId: string): Promise<BatchOperation> {
+    const operation = this.activeOperations.get(operationId);
+    if (!operation) {
+      throw new Error(`Operation ${operationId} not found`);
+    }
+
+    if (operation.status !== 'interrupted') {
+      throw new Error(`Cannot resume operation in ${operation.status} state`);
+    }
+
+    return this.requeue(operation);
+  }
+
+  /**
+   * Run the failed items of a finished or interrupted batch again;
+   * successful items are kept. Interrupted batches also pick up the
+   * items that have no result yet.
+   */
+  async retryFailedItems(operationId: string): Promise<BatchOperation> {
+    const operation = this.activeOperations.get(operationId);
+    if (!operation) {
+      throw new Error(`Operation ${operationId} not found`);
+    }
+
+    if (!['interrupted', 'completed', 'failed'].includes(operation.status)) {
+      throw new Error(`Cannot retry operation in ${operation.status} state`);
+    }
+
+    const failed = operation.results.filter(r => r.status === 'failed').map(r => r.itemId);
+    operation.results = operation.results.filter(r => r.status !== 'failed');
+    await this.store?.deleteResults(operation.id, failed);
+
+    return this.requeue(operation);
+  }
+
+  /**
+   * Undo the successful items of an interrupted or finished batch using
+   * the snapshot taken before it started
+   */
+  async rollbackBatchOperation(operationId: string): Promise<void> {
+    const operation = this.activeOperations.get(operationId);
+    if (!operation) {
+      throw new Error(`Operation ${operationId} not found`);
+    }
+
+    if (['pending', 'processing'].includes(operation.status)) {
+      throw new Error(`Cannot roll back operation in ${operation.status} state`);
+    }
+
+    await this.rollbackOperation(operation);
+
+    if (operation.status === 'interrupted') {
+      operation.status = 'cancelled';
+      operation.completedAt = new Date();
+    }
+    await this.persistOperation(operation);
+  }
+
+  private async requeue(operation: BatchOperation): Promise<BatchOperation> {
+    operation.status = 'pending';
+    delete operation.completedAt;
+    delete operation.error;
+    await this.persistOperation(operation);
+
+    await this.batchQueue.add('process-batch', { operationId: operation.id });
+    this.emit('batch-resumed', operation);
+    return operation;
+  }
+
   async rollbackOperation(operation: BatchOperation): Promise<void> {
     this.emit('batch-rollback-started', operation);
 
     try {
-      // Get the last successful snapshot before the operation
+      // Get the snapshot taken before the operation changed anything
       const snapshots = this.snapshots.get(operation.id) || [];
-      const previousSnapshot = snapshots[snapshots.length - 2]; // -2 to get the one before current
+      const previousSnapshot = snapshots[0];
 
       if (!previousSnapshot) {
         throw new Error('No previous snapshot available for rollback');
@@ -535,6 +651,29 @@ export class MCPBatchProcessor extends EventEmitter {
     const snapshots = this.snapshots.get(operation.id) || [];
     snapshots.push(snapshot);
     this.snapshots.set(operation.id, snapshots);
+
+    try {
+      await this.store?.saveSnapshot(snapshot);
+    } catch (error: any) {
+      this.logger.error(`Failed to persist snapshot of batch ${operation.id}:`, error);
+    }
+  }
+
+  // Persistence failures are logged rather than failing the batch itself
+  private async persistOperation(operation: BatchOperation): Promise<void> {
+    try {
+      await this.store?.saveOperation(operation);
+    } catch (error: any) {
+      this.logger.error(`Failed to persist batch ${operation.id}:`, error);
+    }
+  }
+
+  private async persistResult(operation: BatchOperation, result: BatchResult): Promise<void> {
+    try {
+      await this.store?.saveResult(operation.id, result);
+    } catch (error: any) {
+      this.logger.error(`Failed to persist result of item ${result.itemId}:`, error);
+    }
   }
 
   private estimateMemoryRequirement(items: BatchItem[]): number {
@@ -0,0 +1,204 @@
+import { DatabaseService } from '../../../database/DatabaseService';
+import { BatchOperation, BatchResult, BatchSnapshot } from './MCPBatchProcessor';
+
+/**
+ * SQLite persistence for MCPBatchProcessor. Operations, per-item results
+ * and rollback snapshots are written as the batch runs, so a batch cut
+ * short by a restart can be resumed, retried or rolled back.
+ */
+export class MCPBatchStore {
+  private db: DatabaseService;
+  private ready: Promise<void> | null = null;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.createSchema().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async saveOperation(operation: BatchOperation): Promise<void> {
+    await this.initialize();
+    await this.db.run(`
+      INSERT INTO mcp_batch_operations (
+        id, type, status, items, config, progress, error, created_at, started_at, completed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        progress = excluded.progress,
+        error = excluded.error,
+        started_at = excluded.started_at,
+        completed_at = excluded.completed_at,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      operation.id,
+      operation.type,
+      operation.status,
+      JSON.stringify(operation.items),
+      JSON.stringify(operation.config),
+      JSON.stringify(operation.progress),
+      operation.error ?? null,
+      operation.createdAt.toISOString(),
+      operation.startedAt?.toISOString() ?? null,
+      operation.completedAt?.toISOString() ?? null,
+    ]);
+  }
+
+  async saveResult(operationId: string, result: BatchResult): Promise<void> {
+    await this.initialize();
+    await this.db.run(`
+      INSERT OR REPLACE INTO mcp_batch_results (
+        operation_id, item_id, status, duration, output, error, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      operationId,
+      result.itemId,
+      result.status,
+      result.duration,
+      result.output === undefined ? null : JSON.stringify(result.output),
+      result.error ?? null,
+      result.timestamp.toISOString(),
+    ]);
+  }
+
+  async deleteResults(operationId: string, itemIds: string[]): Promise<void> {
+    await this.initialize();
+    for (const itemId of itemIds) {
+      await this.db.run(
+        'DELETE FROM mcp_batch_results WHERE operation_id = ? AND item_id = ?',
+        [operationId, itemId]
+      );
+    }
+  }
+
+  async saveSnapshot(snapshot: BatchSnapshot): Promise<void> {
+    await this.initialize();
+    await this.db.run(`
+      INSERT INTO mcp_batch_snapshots (operation_id, timestamp, state, results)
+      VALUES (?, ?, ?, ?)
+    `, [
+      snapshot.operationId,
+      snapshot.timestamp.toISOString(),
+      JSON.stringify(snapshot.state),
+      JSON.stringify(snapshot.results),
+    ]);
+  }
+
+  /**
+   * Operations with their results, oldest first, optionally only those
+   * in the given states
+   */
+  async loadOperations(statuses?: BatchOperation['status'][]): Promise<BatchOperation[]> {
+    await this.initialize();
+    const filter = statuses ? `WHERE status IN (${statuses.map(() => '?').join(', ')})` : '';
+    const rows = (await this.db.query(
+      `SELECT * FROM mcp_batch_operations ${filter} ORDER BY created_at ASC`,
+      statuses || []
+    )).rows;
+
+    const operations: BatchOperation[] = [];
+    for (const row of rows) {
+      operations.push({
+        id: row.id,
+        type: row.type,
+        status: row.status,
+        items: JSON.parse(row.items),
+        config: JSON.parse(row.config),
+        progress: JSON.parse(row.progress),
+        results: await this.loadResults(row.id),
+        createdAt: new Date(row.created_at),
+        ...(row.started_at ? { startedAt: new Date(row.started_at) } : {}),
+        ...(row.completed_at ? { completedAt: new Date(row.completed_at) } : {}),
+        ...(row.error ? { error: row.error } : {}),
+      });
+    }
+    return operations;
+  }
+
+  async loadSnapshots(operationId: string): Promise<BatchSnapshot[]> {
+    await this.initialize();
+    const rows = (await this.db.query(
+      'SELECT * FROM mcp_batch_snapshots WHERE operation_id = ? ORDER BY id ASC',
+      [operationId]
+    )).rows;
+
+    return rows.map(row => ({
+      operationId: row.operation_id,
+      timestamp: new Date(row.timestamp),
+      state: JSON.parse(row.state),
+      results: JSON.parse(row.results).map((result: any) => ({
+        ...result,
+        timestamp: new Date(result.timestamp),
+      })),
+    }));
+  }
+
+  private async loadResults(operationId: string): Promise<BatchResult[]> {
+    const rows = (await this.db.query(
+      'SELECT * FROM mcp_batch_results WHERE operation_id = ? ORDER BY timestamp ASC',
+      [operationId]
+    )).rows;
+
+    return rows.map(row => ({
+      itemId: row.item_id,
+      status: row.status,
+      duration: row.duration,
+      ...(row.output !== null ? { output: JSON.parse(row.output) } : {}),
+      ...(row.error ? { error: row.error } : {}),
+      timestamp: new Date(row.timestamp),
+    }));
+  }
+
+  private async createSchema(): Promise<void> {
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS mcp_batch_operations (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        items TEXT NOT NULL,
+        config TEXT NOT NULL,
+        progress TEXT NOT NULL,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_mcp_batch_operations_status
+      ON mcp_batch_operations(status)
+    `);
+
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS mcp_batch_results (
+        operation_id TEXT NOT NULL REFERENCES mcp_batch_operations(id) ON DELETE CASCADE,
+        item_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        duration INTEGER NOT NULL,
+        output TEXT,
+        error TEXT,
+        timestamp TEXT NOT NULL,
+        PRIMARY KEY (operation_id, item_id)
+      )
+    `);
+
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS mcp_batch_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operation_id TEXT NOT NULL REFERENCES mcp_batch_operations(id) ON DELETE CASCADE,
+        timestamp TEXT NOT NULL,
+        state TEXT NOT NULL,
+        results TEXT NOT NULL
+      )
+    `);
+  }
+}
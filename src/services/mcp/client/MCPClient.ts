@@ -0,0 +1,81 @@
+/**
+ * MCP Client
+ * Protocol session with one external MCP server over any client transport
+ */
+import { MCPClientTransport, MCPRemoteTool, MCPToolCallResult, MCPClientError } from './types';
+
+export const CLIENT_PROTOCOL_VERSION = '2025-06-18';
+
+export class MCPClient {
+  readonly name: string;
+  private readonly transport: MCPClientTransport;
+  private initialized = false;
+  private serverInfo: { name: string; version: string } | null = null;
+
+  constructor(name: string, transport: MCPClientTransport) {
+    this.name = name;
+    this.transport = transport;
+  }
+
+  /**
+   * Run the initialize handshake
+   */
+  async connect(): Promise<void> {
+    if (this.initialized) return;
+
+    const result = await this.transport.request('initialize', {
+      protocolVersion: CLIENT_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'sessionhub', version: '1.0.0' }
+    });
+    if (!result['capabilities']?.['tools']) {
+      throw new MCPClientError(`MCP server ${this.name} does not offer tools`, 'NO_TOOLS', this.name);
+    }
+
+    this.serverInfo = result['serverInfo'] || null;
+    await this.transport.notify('notifications/initialized');
+    this.initialized = true;
+  }
+
+  getServerInfo(): { name: string; version: string } | null {
+    return this.serverInfo;
+  }
+
+  /**
+   * List every tool, following pagination cursors
+   */
+  async listTools(): Promise<MCPRemoteTool[]> {
+    this.ensureConnected();
+    const tools: MCPRemoteTool[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.transport.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(page['tools'] || []));
+      cursor = page['nextCursor'];
+    } while (cursor);
+
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<MCPToolCallResult> {
+    this.ensureConnected();
+    const result = await this.transport.request('tools/call', { name, arguments: args });
+    return {
+      content: result['content'] || [],
+      ...(result['structuredContent'] ? { structuredContent: result['structuredContent'] } : {}),
+      isError: result['isError'] === true
+    };
+  }
+
+  async close(): Promise<void> {
+    this.initialized = false;
+    await this.transport.close();
+  }
+
+  private ensureConnected(): void {
+    if (!this.initialized) {
+      throw new MCPClientError(`MCP server ${this.name} is not connected`, 'NOT_CONNECTED', this.name);
+    }
+  }
+}
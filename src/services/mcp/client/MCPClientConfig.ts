@@ -0,0 +1,62 @@
+/**
+ * MCP Client Configuration
+ *
+ * Reads the external MCP servers the actors may use from
+ * ~/.sessionhub/mcp/servers.json:
+ *
+ *   { "servers": [{ "name": "github", "transport": "stdio", "command": "github-mcp" }] }
+ *
+ * A missing file means no servers are configured.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '@/src/lib/logging/Logger';
+import { AuditLogger } from '@/src/lib/logging/AuditLogger';
+import { MCPClientManager } from './MCPClientManager';
+import { MCPClientError, MCPClientServerConfig } from './types';
+
+export const DEFAULT_CLIENT_CONFIG_PATH = path.join(
+  process.env['HOME'] || '',
+  '.sessionhub',
+  'mcp',
+  'servers.json'
+);
+
+export async function loadMCPClientServers(
+  configPath: string = DEFAULT_CLIENT_CONFIG_PATH
+): Promise<MCPClientServerConfig[]> {
+  let file: { servers?: unknown };
+  try {
+    file = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new MCPClientError(`Failed to read MCP server config: ${(error as Error).message}`, 'INVALID_CONFIG');
+  }
+
+  if (!Array.isArray(file.servers)) {
+    throw new MCPClientError(`${configPath} must list its servers under "servers"`, 'INVALID_CONFIG');
+  }
+  return file.servers.map((server: any, index: number) => {
+    if (typeof server?.name !== 'string' || !server.name) {
+      throw new MCPClientError(`MCP server #${index} has no name`, 'INVALID_CONFIG');
+    }
+    if (server.transport === 'stdio' && typeof server.command === 'string') return server;
+    if (server.transport === 'http' && typeof server.url === 'string') return server;
+    throw new MCPClientError(
+      `MCP server ${server.name} needs a stdio command or an http url`,
+      'INVALID_CONFIG',
+      server.name
+    );
+  });
+}
+
+/**
+ * Manager for the configured servers; call connect() to discover their tools
+ */
+export async function createMCPClientManager(
+  auditLogger: AuditLogger,
+  logger: Logger,
+  configPath?: string
+): Promise<MCPClientManager> {
+  return new MCPClientManager(await loadMCPClientServers(configPath), auditLogger, logger);
+}
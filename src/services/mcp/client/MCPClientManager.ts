@@ -0,0 +1,202 @@
+/**
+ * MCP Client Manager
+ *
+ * Connects to the configured external MCP servers and exposes their tools
+ * to the actors under server-qualified names. Access follows the Two-Actor
+ * split: the Planning Actor may only call read-only tools, the Execution
+ * Actor may call any. Every call is written to the audit log.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '@/src/lib/logging/Logger';
+import { AuditLogger } from '@/src/lib/logging/AuditLogger';
+import { MCPClient } from './MCPClient';
+import { MCPHttpClientTransport } from './MCPHttpClientTransport';
+import { MCPStdioClientTransport } from './MCPStdioClientTransport';
+import {
+  MCPActorRole,
+  MCPClientError,
+  MCPClientServerConfig,
+  MCPClientTransport,
+  MCPRemoteTool,
+  MCPToolAccess,
+  MCPToolCallContext,
+  MCPToolCallResult,
+  MCPToolDescriptor
+} from './types';
+
+export type MCPTransportFactory = (config: MCPClientServerConfig, logger: Logger) => MCPClientTransport;
+
+export interface MCPConnectReport {
+  connected: string[];
+  failed: Array<{ server: string; error: string }>;
+}
+
+const TOOL_SEPARATOR = '__';
+
+const createTransport: MCPTransportFactory = (config, logger) =>
+  config.transport === 'stdio'
+    ? new MCPStdioClientTransport(config, logger)
+    : new MCPHttpClientTransport(config);
+
+export class MCPClientManager {
+  private readonly servers: Map<string, MCPClientServerConfig> = new Map();
+  private readonly clients: Map<string, MCPClient> = new Map();
+  private tools: Map<string, MCPToolDescriptor> = new Map();
+  private readonly auditLogger: AuditLogger;
+  private readonly logger: Logger;
+  private readonly transportFactory: MCPTransportFactory;
+
+  constructor(
+    servers: MCPClientServerConfig[],
+    auditLogger: AuditLogger,
+    logger: Logger = new Logger('MCPClientManager'),
+    transportFactory: MCPTransportFactory = createTransport
+  ) {
+    for (const server of servers) {
+      if (this.servers.has(server.name)) {
+        throw new MCPClientError(`Duplicate MCP server name: ${server.name}`, 'DUPLICATE_SERVER', server.name);
+      }
+      this.servers.set(server.name, server);
+    }
+    this.auditLogger = auditLogger;
+    this.logger = logger;
+    this.transportFactory = transportFactory;
+  }
+
+  /**
+   * Connect to every configured server and discover its tools. A server
+   * that fails to connect is reported and skipped; the others stay usable.
+   */
+  async connect(): Promise<MCPConnectReport> {
+    const report: MCPConnectReport = { connected: [], failed: [] };
+
+    await Promise.all([...this.servers.values()].map(async config => {
+      if (this.clients.has(config.name)) {
+        report.connected.push(config.name);
+        return;
+      }
+      const client = new MCPClient(config.name, this.transportFactory(config, this.logger));
+      try {
+        await client.connect();
+        this.registerTools(config, await client.listTools());
+        this.clients.set(config.name, client);
+        report.connected.push(config.name);
+      } catch (error) {
+        await client.close().catch(() => undefined);
+        report.failed.push({ server: config.name, error: (error as Error).message });
+        this.logger.warn('Failed to connect to MCP server', { server: config.name, error: (error as Error).message });
+      }
+    }));
+
+    this.logger.info('MCP servers connected', { ...report, tools: this.tools.size });
+    return report;
+  }
+
+  /**
+   * Tools the given actor may call
+   */
+  listTools(role: MCPActorRole): MCPToolDescriptor[] {
+    return [...this.tools.values()].filter(tool => this.isAllowed(role, tool));
+  }
+
+  /**
+   * Call a tool by its server-qualified name on behalf of an actor
+   */
+  async callTool(
+    role: MCPActorRole,
+    name: string,
+    args: Record<string, any>,
+    context: MCPToolCallContext
+  ): Promise<MCPToolCallResult> {
+    const startTime = Date.now();
+    const tool = this.tools.get(name);
+
+    try {
+      if (!tool) {
+        throw new MCPClientError(`Unknown MCP tool: ${name}`, 'UNKNOWN_TOOL');
+      }
+      if (!this.isAllowed(role, tool)) {
+        throw new MCPClientError(
+          `The ${role} actor may not call ${name}: the tool is not read-only`,
+          'PERMISSION_DENIED',
+          tool.server
+        );
+      }
+      const client = this.clients.get(tool.server);
+      if (!client) {
+        throw new MCPClientError(`MCP server ${tool.server} is not connected`, 'NOT_CONNECTED', tool.server);
+      }
+
+      const result = await client.callTool(tool.tool, args);
+      this.audit(role, name, args, context, startTime, result.isError ? 'Tool reported an error' : undefined);
+      return result;
+    } catch (error) {
+      this.audit(role, name, args, context, startTime, (error as Error).message);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all([...this.clients.values()].map(client => client.close().catch(error => {
+      this.logger.warn('Failed to close MCP client', { server: client.name, error: (error as Error).message });
+    })));
+    this.clients.clear();
+    this.tools.clear();
+  }
+
+  private registerTools(config: MCPClientServerConfig, tools: MCPRemoteTool[]): void {
+    for (const tool of tools) {
+      const name = `${config.name}${TOOL_SEPARATOR}${tool.name}`;
+      this.tools.set(name, {
+        name,
+        server: config.name,
+        tool: tool.name,
+        description: tool.description || tool.title || tool.name,
+        inputSchema: tool.inputSchema || { type: 'object' },
+        access: this.resolveAccess(config, tool)
+      });
+    }
+  }
+
+  /**
+   * Tools are mutating unless configured or annotated as read-only;
+   * annotations are hints from the server, so config wins
+   */
+  private resolveAccess(config: MCPClientServerConfig, tool: MCPRemoteTool): MCPToolAccess {
+    const override = config.toolAccess?.[tool.name];
+    if (override) return override;
+    return tool.annotations?.readOnlyHint === true ? 'read' : 'write';
+  }
+
+  private isAllowed(role: MCPActorRole, tool: MCPToolDescriptor): boolean {
+    return role === 'execution' || tool.access === 'read';
+  }
+
+  private audit(
+    role: MCPActorRole,
+    name: string,
+    args: Record<string, any>,
+    context: MCPToolCallContext,
+    startTime: number,
+    error?: string
+  ): void {
+    this.auditLogger.logEvent({
+      actor: { type: role, id: role === 'planning' ? 'PlanningEngine' : 'ExecutionEngine' },
+      operation: {
+        type: 'mcp_tool_call',
+        description: `Call MCP tool ${name}`,
+        input: { tool: name, arguments: args }
+      },
+      result: {
+        status: error ? 'failure' : 'success',
+        duration: Date.now() - startTime,
+        ...(error ? { error } : {})
+      },
+      metadata: {
+        sessionId: context.sessionId,
+        instructionId: context.instructionId,
+        correlationId: uuidv4()
+      }
+    });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * MCP streamable HTTP client transport
+ *
+ * POSTs each JSON-RPC message to the server endpoint. Responses arrive
+ * either as a JSON body or as a server-sent event stream that ends with
+ * the response. The session ID issued on initialize is sent on every
+ * later request and released on close.
+ */
+import { parseServerSentEvents } from '@/src/lib/api/MessageStream';
+import { JsonRpcResponse } from '../server/types';
+import { MCPClientError, MCPClientTransport, MCPHttpServerConfig } from './types';
+
+export class MCPHttpClientTransport implements MCPClientTransport {
+  private readonly config: MCPHttpServerConfig;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private nextId = 1;
+
+  constructor(config: MCPHttpServerConfig) {
+    this.config = config;
+  }
+
+  async request(method: string, params?: Record<string, any>): Promise<Record<string, any>> {
+    const id = this.nextId++;
+    const response = await this.post({ jsonrpc: '2.0', id, method, params });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    const message = await this.readResponse(response, id);
+    if ('error' in message) {
+      throw new MCPClientError(message.error.message, `RPC_${message.error.code}`, this.config.name);
+    }
+    if (method === 'initialize' && typeof message.result['protocolVersion'] === 'string') {
+      this.protocolVersion = message.result['protocolVersion'];
+    }
+    return message.result;
+  }
+
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    const response = await this.post({ jsonrpc: '2.0', method, params });
+    await response.body?.cancel();
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      // Servers may not support explicit termination; the session expires either way
+      await fetch(this.config.url, { method: 'DELETE', headers: this.headers() });
+    } catch {
+      // Server already gone
+    }
+    this.sessionId = null;
+  }
+
+  private async post(message: object): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          ...this.headers(),
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream'
+        },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(this.config.timeoutMs || 30000)
+      });
+    } catch (error) {
+      throw new MCPClientError(
+        `Failed to reach MCP server: ${(error as Error).message}`,
+        'CONNECTION_FAILED',
+        this.config.name
+      );
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      this.sessionId = null;
+      throw new MCPClientError('MCP session expired', 'SESSION_EXPIRED', this.config.name);
+    }
+    if (!response.ok) {
+      throw new MCPClientError(
+        `MCP server responded with HTTP ${response.status}`,
+        `HTTP_${response.status}`,
+        this.config.name
+      );
+    }
+    return response;
+  }
+
+  private async readResponse(response: Response, id: number): Promise<JsonRpcResponse> {
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream')) {
+      return response.json() as Promise<JsonRpcResponse>;
+    }
+
+    if (response.body) {
+      // The stream may carry server notifications before the response
+      for await (const event of parseServerSentEvents(response.body)) {
+        const message = JSON.parse(event.data);
+        if (message.id === id && ('result' in message || 'error' in message)) {
+          return message;
+        }
+      }
+    }
+    throw new MCPClientError('Event stream ended without a response', 'CONNECTION_CLOSED', this.config.name);
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      ...this.config.headers,
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {})
+    };
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * MCP stdio client transport
+ *
+ * Launches an MCP server as a subprocess and exchanges newline-delimited
+ * JSON-RPC messages over its stdin and stdout. The server's stderr is
+ * forwarded to the debug log.
+ */
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { Logger } from '@/src/lib/logging/Logger';
+import { JsonRpcResponse } from '../server/types';
+import { MCPClientError, MCPClientTransport, MCPStdioServerConfig } from './types';
+
+interface PendingRequest {
+  resolve: (result: Record<string, any>) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class MCPStdioClientTransport implements MCPClientTransport {
+  private readonly config: MCPStdioServerConfig;
+  private readonly logger: Logger;
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 1;
+
+  constructor(config: MCPStdioServerConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async request(method: string, params?: Record<string, any>): Promise<Record<string, any>> {
+    const child = this.start();
+    const id = this.nextId++;
+    const timeoutMs = this.config.timeoutMs || 30000;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new MCPClientError(`${method} timed out after ${timeoutMs}ms`, 'TIMEOUT', this.config.name));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    });
+  }
+
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    this.start().stdin.write(`${JSON.stringify({ jsonrpc: '2.0', method, params })}\n`);
+  }
+
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child) return;
+    this.child = null;
+
+    const exited = new Promise<void>(resolve => {
+      if (child.exitCode !== null || child.signalCode !== null) resolve();
+      else child.once('exit', () => resolve());
+    });
+    // Closing stdin is the stdio shutdown signal; servers that ignore it are killed
+    child.stdin.end();
+    const killTimer = setTimeout(() => child.kill('SIGTERM'), 2000);
+    await exited;
+    clearTimeout(killTimer);
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    if (this.child) return this.child;
+
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.child = child;
+
+    createInterface({ input: child.stdout, crlfDelay: Infinity })
+      .on('line', line => this.receive(line));
+    createInterface({ input: child.stderr, crlfDelay: Infinity })
+      .on('line', line => this.logger.debug('MCP server stderr', { server: this.config.name, line }));
+
+    child.on('error', error => this.failPending(
+      new MCPClientError(`Failed to start MCP server: ${error.message}`, 'SPAWN_FAILED', this.config.name)
+    ));
+    child.on('exit', code => {
+      if (this.child === child) this.child = null;
+      this.failPending(
+        new MCPClientError(`MCP server exited with code ${code}`, 'CONNECTION_CLOSED', this.config.name)
+      );
+    });
+
+    return child;
+  }
+
+  private receive(line: string): void {
+    if (!line.trim()) return;
+
+    let message: Partial<JsonRpcResponse> & { method?: string };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.logger.warn('Ignoring non-JSON output from MCP server', { server: this.config.name, line });
+      return;
+    }
+
+    // Server notifications and requests carry a method; only responses settle calls
+    if (message.method !== undefined || typeof message.id !== 'number') return;
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    if ('error' in message && message.error) {
+      pending.reject(new MCPClientError(message.error.message, `RPC_${message.error.code}`, this.config.name));
+    } else {
+      pending.resolve(('result' in message && message.result) || {});
+    }
+  }
+
+  private failPending(error: MCPClientError): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
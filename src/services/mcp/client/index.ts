@@ -0,0 +1,11 @@
+/**
+ * MCP Client Module Exports
+ */
+
+export { MCPClient, CLIENT_PROTOCOL_VERSION } from './MCPClient';
+export { MCPClientManager } from './MCPClientManager';
+export type { MCPConnectReport, MCPTransportFactory } from './MCPClientManager';
+export { createMCPClientManager, loadMCPClientServers, DEFAULT_CLIENT_CONFIG_PATH } from './MCPClientConfig';
+export { MCPStdioClientTransport } from './MCPStdioClientTransport';
+export { MCPHttpClientTransport } from './MCPHttpClientTransport';
+export * from './types';
@@ -0,0 +1,84 @@
+/**
+ * MCP Client Types
+ * Configuration and results for consuming third-party MCP servers
+ */
+
+// Actors that may call external tools; planning only gets read-only ones
+export type MCPActorRole = 'planning' | 'execution';
+
+export type MCPToolAccess = 'read' | 'write';
+
+interface MCPClientServerBase {
+  // Unique name; prefixes the server's tools, e.g. github__search_issues
+  name: string;
+  // Overrides the access derived from tool annotations, keyed by tool name
+  toolAccess?: Record<string, MCPToolAccess>;
+  // Per-request timeout in milliseconds
+  timeoutMs?: number;
+}
+
+export interface MCPStdioServerConfig extends MCPClientServerBase {
+  transport: 'stdio';
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export interface MCPHttpServerConfig extends MCPClientServerBase {
+  transport: 'http';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type MCPClientServerConfig = MCPStdioServerConfig | MCPHttpServerConfig;
+
+export interface MCPClientTransport {
+  // Send a request and resolve with its result, rejecting on JSON-RPC errors
+  request(method: string, params?: Record<string, any>): Promise<Record<string, any>>;
+  notify(method: string, params?: Record<string, any>): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Tool as listed by a remote server
+export interface MCPRemoteTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
+}
+
+// Tool as exposed to the actors
+export interface MCPToolDescriptor {
+  // Server-qualified name actors call the tool by
+  name: string;
+  server: string;
+  tool: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  access: MCPToolAccess;
+}
+
+export interface MCPToolCallResult {
+  content: Array<{ type: string; text?: string; [key: string]: any }>;
+  structuredContent?: Record<string, any>;
+  isError: boolean;
+}
+
+export interface MCPToolCallContext {
+  sessionId: string;
+  instructionId?: string;
+}
+
+export class MCPClientError extends Error {
+  constructor(message: string, public code: string, public server?: string) {
+    super(message);
+    this.name = 'MCPClientError';
+  }
+}
@@ -6,6 +6,8 @@ export { MCPTemplateManager } from './MCPTemplateManager';
 export { MCPDocumentationGenerator } from './MCPDocumentationGenerator';
 export { MCPTestGenerator } from './MCPTestGenerator';
 export { ProjectAnalyzer } from './ProjectAnalyzer';
+export { MCPConformanceHarness, sampleFromSchema } from './testing/MCPConformanceHarness';
+export type { ConformanceTarget, ConformanceReport } from './testing/MCPConformanceHarness';
 
 // Export types
 export * from './types';
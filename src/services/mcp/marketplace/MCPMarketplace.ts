@@ -1,12 +1,32 @@
 /**
  * MCP Marketplace Service
  * 
- * Foundations for an MCP integration marketplace
+ * Browses the signed package indexes configured as marketplace sources
+ * and installs, upgrades, pins and uninstalls their packages through the
+ * integration registry. Sources can be directories, tarballs or local
+ * HTTP servers, so teams can host a private marketplace offline.
  */
 import { EventEmitter } from 'events';
-import { 
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MCPKeyring } from '../server/MCPKeyring';
+import { MCPIntegrationRegistry } from '../server/MCPIntegrationRegistry';
+import { canonicalManifestPayload } from '../server/MCPSecurityManager';
+import {
+  MCPBundleFile,
   MCPIntegrationManifest
 } from '../server/types';
+import {
+  MarketplaceError,
+  PackageIndexEntry,
+  PackageIndexVersion,
+  PackageSource,
+  compareVersions,
+  loadPackageIndex,
+  openPackageSource,
+  readPackageFile,
+  unpackBundle
+} from './MCPPackageIndex';
 export type { MCPIntegrationCategory } from '../server/types';
 import type { MCPIntegrationCategory } from '../server/types';
 export interface MarketplaceIntegration {
@@ -16,7 +36,12 @@ export interface MarketplaceIntegration {
   updatedAt: Date;
   publisher: MarketplacePublisher;
   stats: IntegrationStats;
+  // The manifest's signature checks out against the keyring
   verified: boolean;
+  // Newest first
+  versions: string[];
+  // Location of the package index listing it
+  source: string;
 }
 export interface MarketplacePublisher {
   id: string;
@@ -54,125 +79,161 @@ export interface MarketplaceReview {
   helpful: number;
   verified: boolean;
 }
+export interface MarketplaceOptions {
+  // Overrides the persisted source list
+  sources?: string[];
+  // Trusted keys for index and manifest signatures
+  keyring?: MCPKeyring;
+  sourcesPath?: string;
+}
+export interface MarketplaceSourceStatus {
+  location: string;
+  name?: string;
+  status: 'ok' | 'error';
+  packages: number;
+  error?: string;
+}
+export interface MarketplaceDiff {
+  added: string[];
+  removed: string[];
+}
+/**
+ * What an upgrade changes, shown to the user before it is applied
+ */
+export interface MarketplaceUpgradePlan {
+  packageId: string;
+  integrationId: string;
+  fromVersion: string;
+  toVersion: string;
+  permissions: MarketplaceDiff;
+  dependencies: MarketplaceDiff;
+  tools: MarketplaceDiff;
+  // Ties the accepted plan to the exact manifest it was computed from
+  manifestSha256: string;
+}
+export interface MarketplaceInstalledPackage {
+  packageId: string;
+  integrationId: string;
+  name: string;
+  version: string;
+  pinnedVersion?: string;
+  latestVersion?: string;
+  updateAvailable: boolean;
+}
+interface LoadedPackage {
+  source: PackageSource;
+  entry: PackageIndexEntry;
+}
+const EMPTY_STATS: IntegrationStats = {
+  downloads: 0,
+  stars: 0,
+  rating: 0,
+  reviews: 0,
+  weeklyDownloads: 0,
+  monthlyDownloads: 0
+};
 export class MCPMarketplace extends EventEmitter {
   private integrations: Map<string, MarketplaceIntegration>;
   private publishers: Map<string, MarketplacePublisher>;
   private reviews: Map<string, MarketplaceReview[]>;
-  // private apiUrl: string; // Unused for now
-  constructor(_apiUrl?: string) {
+  private packages: Map<string, LoadedPackage>;
+  private statuses: MarketplaceSourceStatus[] = [];
+  private sources: string[] | null;
+  private readonly keyring: MCPKeyring;
+  private readonly sourcesPath: string;
+  private loaded: Promise<MarketplaceSourceStatus[]> | null = null;
+  constructor(options: MarketplaceOptions = {}) {
     super();
     this.integrations = new Map();
     this.publishers = new Map();
     this.reviews = new Map();
-    // this.apiUrl = apiUrl || 'https://mcp.sessionhub.com/api/v1'; // Unused for now
-    this.loadFeaturedIntegrations();
+    this.packages = new Map();
+    this.sources = options.sources || null;
+    this.keyring = options.keyring || new MCPKeyring();
+    this.sourcesPath = options.sourcesPath || path.join(
+      process.env['HOME'] || '',
+      '.sessionhub',
+      'mcp',
+      'marketplace',
+      'sources.json'
+    );
   }
-  private async loadFeaturedIntegrations(): Promise<void> {
-    // In production, this would fetch from the API
-    // For now, we'll create some mock featured integrations
-    const featured: MarketplaceIntegration[] = [
-      {
-        id: 'github-official',
-        manifest: {
-          integration: {
-            name: 'GitHub Official',
-            version: '2.0.0',
-            description: 'Official GitHub integration with full API support',
-            author: 'GitHub',
-            category: 'development',
-            icon: '🐙',
-            tools: [],
-            permissions: ['network']
-          },
-          installation: {
-            files: [],
-            dependencies: ['@octokit/rest']
-          },
-          marketplace: {
-            featured: true,
-            downloads: 150000,
-            rating: 4.8,
-            reviews: 3421,
-            tags: ['github', 'git', 'version-control', 'official'],
-            pricing: { type: 'free' }
-          }
-        },
-        publishedAt: new Date('2024-01-15'),
-        updatedAt: new Date('2024-12-01'),
-        publisher: {
-          id: 'github',
-          name: 'GitHub, Inc.',
-          email: 'support@github.com',
-          website: 'https://github.com',
-          verified: true
-        },
-        stats: {
-          downloads: 150000,
-          stars: 4500,
-          rating: 4.8,
-          reviews: 3421,
-          weeklyDownloads: 5000,
-          monthlyDownloads: 20000
-        },
-        verified: true
-      },
-      {
-        id: 'openai-advanced',
-        manifest: {
-          integration: {
-            name: 'OpenAI Advanced',
-            version: '3.5.0',
-            description: 'Advanced OpenAI integration with GPT-4, DALL-E, and Whisper',
-            author: 'AI Tools Inc.',
-            category: 'ai',
-            icon: '🤖',
-            tools: [],
-            permissions: ['network']
-          },
-          installation: {
-            files: [],
-            dependencies: ['openai']
-          },
-          marketplace: {
-            featured: true,
-            downloads: 85000,
-            rating: 4.9,
-            reviews: 2156,
-            tags: ['openai', 'gpt-4', 'ai', 'dalle', 'whisper'],
-            pricing: {
-              type: 'freemium',
-              features: ['Basic GPT-3.5 access free', 'GPT-4 requires premium']
-            }
-          }
-        },
-        publishedAt: new Date('2024-02-20'),
-        updatedAt: new Date('2024-11-15'),
-        publisher: {
-          id: 'ai-tools',
-          name: 'AI Tools Inc.',
-          email: 'support@aitools.dev',
-          website: 'https://aitools.dev',
-          verified: true
-        },
-        stats: {
-          downloads: 85000,
-          stars: 3200,
-          rating: 4.9,
-          reviews: 2156,
-          weeklyDownloads: 3500,
-          monthlyDownloads: 14000
-        },
-        verified: true
+  /**
+   * Reload every source. A source that fails to load or verify is
+   * reported and skipped; the others stay browsable.
+   */
+  async refresh(): Promise<MarketplaceSourceStatus[]> {
+    const integrations = new Map<string, MarketplaceIntegration>();
+    const publishers = new Map<string, MarketplacePublisher>();
+    const reviews = new Map<string, MarketplaceReview[]>();
+    const packages = new Map<string, LoadedPackage>();
+    const statuses: MarketplaceSourceStatus[] = [];
+    for (const location of await this.getSources()) {
+      try {
+        const source = await openPackageSource(location);
+        const index = await loadPackageIndex(source, this.keyring);
+        index.publishers.forEach(publisher => publishers.set(publisher.id, publisher));
+        for (const entry of index.packages) {
+          // Earlier sources win when two list the same package
+          if (packages.has(entry.id) || entry.versions.length === 0) continue;
+          const versions = [...entry.versions].sort((a, b) => compareVersions(b.version, a.version));
+          const latest = versions[0] as PackageIndexVersion;
+          const manifest = await this.readManifest(source, latest);
+          const signature = await this.keyring.verify(
+            canonicalManifestPayload(manifest),
+            manifest.integration.signature,
+            'Manifest'
+          );
+          packages.set(entry.id, { source, entry: { ...entry, versions } });
+          integrations.set(entry.id, {
+            id: entry.id,
+            manifest,
+            publishedAt: new Date((versions[versions.length - 1] as PackageIndexVersion).publishedAt),
+            updatedAt: new Date(latest.publishedAt),
+            publisher: publishers.get(entry.publisher) || { id: entry.publisher, name: entry.publisher, email: '', verified: false },
+            stats: { ...EMPTY_STATS, ...entry.stats },
+            verified: signature.status === 'valid',
+            versions: versions.map(v => v.version),
+            source: location
+          });
+          reviews.set(entry.id, (entry.reviews || []).map(review => ({ ...review, createdAt: new Date(review.createdAt) })));
+        }
+        statuses.push({ location, name: index.name, status: 'ok', packages: index.packages.length });
+      } catch (error) {
+        statuses.push({ location, status: 'error', packages: 0, error: (error as Error).message });
       }
-    ];
-    featured.forEach(integration => {
-      this.integrations.set(integration.id, integration);
-      this.publishers.set(integration.publisher.id, integration.publisher);
-    });
+    }
+    this.integrations = integrations;
+    this.publishers = publishers;
+    this.reviews = reviews;
+    this.packages = packages;
+    this.statuses = statuses;
+    this.emit('marketplace:refreshed', statuses);
+    return statuses;
+  }
+  async listSources(): Promise<MarketplaceSourceStatus[]> {
+    await this.ensureLoaded();
+    return this.statuses;
+  }
+  /**
+   * Add a package index; it must load and verify before it is saved
+   */
+  async addSource(location: string): Promise<MarketplaceSourceStatus[]> {
+    await loadPackageIndex(await openPackageSource(location), this.keyring);
+    const sources = await this.getSources();
+    if (!sources.includes(location)) {
+      await this.saveSources([...sources, location]);
+    }
+    return this.reload();
+  }
+  async removeSource(location: string): Promise<MarketplaceSourceStatus[]> {
+    await this.saveSources((await this.getSources()).filter(s => s !== location));
+    return this.reload();
   }
   async searchIntegrations(
     options: MarketplaceSearchOptions = {}
   ): Promise<MarketplaceIntegration[]> {
+    await this.ensureLoaded();
     let results = Array.from(this.integrations.values());
     // Filter by query
     if (options.query) {
@@ -234,23 +295,24 @@ export class MCPMarketplace extends EventEmitter {
     return results.slice(offset, offset + limit);
   }
   async getIntegration(id: string): Promise<MarketplaceIntegration | null> {
+    await this.ensureLoaded();
     return this.integrations.get(id) || null;
   }
   async getFeaturedIntegrations(): Promise<MarketplaceIntegration[]> {
+    await this.ensureLoaded();
     const featured = Array.from(this.integrations.values()).filter(
       i => i.manifest.marketplace?.featured
     );
     return featured.sort((a, b) => b.stats.downloads - a.stats.downloads);
   }
   async getTrendingIntegrations(): Promise<MarketplaceIntegration[]> {
+    await this.ensureLoaded();
     // Calculate trending based on recent downloads growth
+    const growth = (stats: IntegrationStats) =>
+      stats.monthlyDownloads > 0 ? stats.weeklyDownloads / (stats.monthlyDownloads / 4) : 0;
     const all = Array.from(this.integrations.values());
     return all
-      .sort((a, b) => {
-        const aGrowth = a.stats.weeklyDownloads / (a.stats.monthlyDownloads / 4);
-        const bGrowth = b.stats.weeklyDownloads / (b.stats.monthlyDownloads / 4);
-        return bGrowth - aGrowth;
-      })
+      .sort((a, b) => growth(b.stats) - growth(a.stats))
       .slice(0, 10);
   }
   async getIntegrationsByCategory(
@@ -259,102 +321,114 @@ export class MCPMarketplace extends EventEmitter {
     return this.searchIntegrations({ category });
   }
   async getPublisher(id: string): Promise<MarketplacePublisher | null> {
+    await this.ensureLoaded();
     return this.publishers.get(id) || null;
   }
   async getReviews(integrationId: string): Promise<MarketplaceReview[]> {
+    await this.ensureLoaded();
     return this.reviews.get(integrationId) || [];
   }
-  async submitReview(
-    integrationId: string,
-    review: Omit<MarketplaceReview, 'id' | 'createdAt'>
-  ): Promise<MarketplaceReview> {
-    const newReview: MarketplaceReview = {
-      ...review,
-      id: Date.now().toString(),
-      createdAt: new Date()
-    };
-    const reviews = this.reviews.get(integrationId) || [];
-    reviews.push(newReview);
-    this.reviews.set(integrationId, reviews);
-    // Update integration stats
-    const integration = this.integrations.get(integrationId);
-    if (integration) {
-      const allReviews = reviews;
-      const totalRating = allReviews.reduce((sum, r) => sum + r.rating, 0);
-      integration.stats.rating = totalRating / allReviews.length;
-      integration.stats.reviews = allReviews.length;
-    }
-    this.emit('review:submitted', newReview);
-    return newReview;
-  }
+  /**
+   * Install a package, by default its newest version
+   */
   async installIntegration(
-    integrationId: string,
-    _targetPath: string
-  ): Promise<void> {
-    const integration = await this.getIntegration(integrationId);
-    if (!integration) {
-      throw new Error(`Integration not found: ${integrationId}`);
-    }
-    // Update download stats
-    integration.stats.downloads++;
-    integration.stats.weeklyDownloads++;
-    integration.stats.monthlyDownloads++;
-    this.emit('integration:installed', integration);
-    // In production, this would download and install files
-  }
-  async publishIntegration(
-    manifest: MCPIntegrationManifest,
-    publisher: MarketplacePublisher
+    packageId: string,
+    registry: MCPIntegrationRegistry,
+    version?: string
   ): Promise<string> {
-    // Validate the integration
-    if (!manifest.integration.name || !manifest.integration.version) {
-      throw new Error('Invalid integration manifest');
-    }
-    // Generate ID
-    const id = `${publisher.id}-${manifest.integration.name.toLowerCase().replace(/\s+/g, '-')}`;
-    // Create marketplace integration
-    const marketplaceIntegration: MarketplaceIntegration = {
-      id,
+    const { source, entry } = await this.getPackage(packageId);
+    const target = this.resolveVersion(entry, version);
+    const { manifest, files } = await this.fetchVersion(source, target);
+    const id = await registry.installPackage(
       manifest,
-      publishedAt: new Date(),
-      updatedAt: new Date(),
-      publisher,
-      stats: {
-        downloads: 0,
-        stars: 0,
-        rating: 0,
-        reviews: 0,
-        weeklyDownloads: 0,
-        monthlyDownloads: 0
-      },
-      verified: false
-    };
-    this.integrations.set(id, marketplaceIntegration);
-    this.publishers.set(publisher.id, publisher);
-    this.emit('integration:published', marketplaceIntegration);
+      { packageId, index: source.location, version: target.version },
+      files
+    );
+    this.emit('integration:installed', { packageId, integrationId: id, version: target.version });
     return id;
   }
-  async updateIntegration(
-    id: string,
-    manifest: MCPIntegrationManifest
-  ): Promise<void> {
-    const integration = this.integrations.get(id);
-    if (!integration) {
-      throw new Error(`Integration not found: ${id}`);
+  /**
+   * Work out what upgrading (or downgrading) an installed package would
+   * change. Nothing is installed until the plan is passed to
+   * upgradeIntegration.
+   */
+  async planUpgrade(
+    packageId: string,
+    registry: MCPIntegrationRegistry,
+    version?: string
+  ): Promise<MarketplaceUpgradePlan> {
+    const installed = await this.getInstalled(packageId, registry);
+    const { source, entry } = await this.getPackage(packageId);
+    const target = this.resolveVersion(entry, version);
+    const pinned = installed.source?.pinnedVersion;
+    if (pinned && pinned !== target.version) {
+      throw new MarketplaceError(`${packageId} is pinned to ${pinned}`, 'PINNED');
     }
-    integration.manifest = manifest;
-    integration.updatedAt = new Date();
-    this.emit('integration:updated', integration);
+    const next = await this.readManifest(source, target);
+    return {
+      packageId,
+      integrationId: installed.integration.id as string,
+      fromVersion: installed.source?.version as string,
+      toVersion: target.version,
+      permissions: diff(installed.integration.permissions, next.integration.permissions),
+      dependencies: diff(installed.installation.dependencies || [], next.installation.dependencies || []),
+      tools: diff(installed.integration.tools.map(t => t.name), next.integration.tools.map(t => t.name)),
+      manifestSha256: target.sha256
+    };
   }
-  async unpublishIntegration(id: string): Promise<void> {
-    const integration = this.integrations.get(id);
-    if (!integration) {
-      throw new Error(`Integration not found: ${id}`);
+  /**
+   * Apply an upgrade plan the user accepted. Fails if the installed
+   * version or the index changed since the plan was made.
+   */
+  async upgradeIntegration(plan: MarketplaceUpgradePlan, registry: MCPIntegrationRegistry): Promise<void> {
+    const installed = await this.getInstalled(plan.packageId, registry);
+    const { source, entry } = await this.getPackage(plan.packageId);
+    const target = entry.versions.find(v => v.version === plan.toVersion);
+    if (!target || target.sha256 !== plan.manifestSha256 || installed.source?.version !== plan.fromVersion) {
+      throw new MarketplaceError(`Upgrade plan for ${plan.packageId} is out of date`, 'PLAN_STALE');
     }
-    this.integrations.delete(id);
-    this.emit('integration:unpublished', integration);
+    const { manifest, files } = await this.fetchVersion(source, target);
+    await registry.upgradePackage(
+      plan.integrationId,
+      manifest,
+      { packageId: plan.packageId, index: source.location, version: target.version },
+      files
+    );
+    this.emit('integration:upgraded', plan);
   }
-  getCategories(): Array<{ value: MCPIntegrationCategory; label: string; count: number }> {
+  /**
+   * Pin an installed package to its current version, or unpin it
+   */
+  async pinVersion(packageId: string, pinned: boolean, registry: MCPIntegrationRegistry): Promise<void> {
+    const installed = await this.getInstalled(packageId, registry);
+    await registry.pinPackage(installed.integration.id as string, pinned);
+  }
+  async uninstallIntegration(packageId: string, registry: MCPIntegrationRegistry): Promise<void> {
+    const installed = await this.getInstalled(packageId, registry);
+    await registry.unregisterIntegration(installed.integration.id as string);
+    this.emit('integration:uninstalled', { packageId });
+  }
+  async listInstalled(registry: MCPIntegrationRegistry): Promise<MarketplaceInstalledPackage[]> {
+    await this.ensureLoaded();
+    const installed: MarketplaceInstalledPackage[] = [];
+    for (const integration of await registry.listIntegrations()) {
+      const source = (await registry.getManifest(integration.id as string))?.source;
+      if (!source) continue;
+      const latestVersion = this.integrations.get(source.packageId)?.versions[0];
+      installed.push({
+        packageId: source.packageId,
+        integrationId: integration.id as string,
+        name: integration.name,
+        version: source.version,
+        pinnedVersion: source.pinnedVersion,
+        latestVersion,
+        updateAvailable: !!latestVersion && compareVersions(latestVersion, source.version) > 0
+      });
+    }
+    return installed;
+  }
+  async getCategories(): Promise<Array<{ value: MCPIntegrationCategory; label: string; count: number }>> {
+    await this.ensureLoaded();
     const categories = new Map<MCPIntegrationCategory, number>();
     this.integrations.forEach(integration => {
       const category = integration.manifest.integration.category;
@@ -375,4 +449,71 @@ export class MCPMarketplace extends EventEmitter {
       { value: 'other', label: 'Other', count: categories.get('other') || 0 }
     ];
   }
-}
\ No newline at end of file
+  private ensureLoaded(): Promise<MarketplaceSourceStatus[]> {
+    if (!this.loaded) {
+      this.loaded = this.refresh();
+    }
+    return this.loaded;
+  }
+  private reload(): Promise<MarketplaceSourceStatus[]> {
+    this.loaded = this.refresh();
+    return this.loaded;
+  }
+  private async getSources(): Promise<string[]> {
+    if (this.sources) return this.sources;
+    try {
+      this.sources = JSON.parse(await fs.readFile(this.sourcesPath, 'utf-8')) as string[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read marketplace sources: ${(error as Error).message}`);
+      }
+      this.sources = [];
+    }
+    return this.sources;
+  }
+  private async saveSources(sources: string[]): Promise<void> {
+    this.sources = sources;
+    await fs.mkdir(path.dirname(this.sourcesPath), { recursive: true });
+    await fs.writeFile(this.sourcesPath, JSON.stringify(sources, null, 2));
+  }
+  private async getPackage(packageId: string): Promise<LoadedPackage> {
+    await this.ensureLoaded();
+    const loaded = this.packages.get(packageId);
+    if (!loaded) {
+      throw new MarketplaceError(`Package not found in any marketplace source: ${packageId}`, 'NOT_FOUND');
+    }
+    return loaded;
+  }
+  private async getInstalled(packageId: string, registry: MCPIntegrationRegistry): Promise<MCPIntegrationManifest> {
+    const installed = await registry.findPackage(packageId);
+    if (!installed) {
+      throw new MarketplaceError(`Package is not installed: ${packageId}`, 'NOT_INSTALLED');
+    }
+    return installed;
+  }
+  private resolveVersion(entry: PackageIndexEntry, version?: string): PackageIndexVersion {
+    const target = version ? entry.versions.find(v => v.version === version) : entry.versions[0];
+    if (!target) {
+      throw new MarketplaceError(`Version ${version} of ${entry.id} is not in the index`, 'NOT_FOUND');
+    }
+    return target;
+  }
+  private async readManifest(source: PackageSource, version: PackageIndexVersion): Promise<MCPIntegrationManifest> {
+    const content = await readPackageFile(source, { path: version.manifest, sha256: version.sha256 });
+    return JSON.parse(content.toString('utf-8'));
+  }
+  private async fetchVersion(
+    source: PackageSource,
+    version: PackageIndexVersion
+  ): Promise<{ manifest: MCPIntegrationManifest; files: MCPBundleFile[] }> {
+    const manifest = await this.readManifest(source, version);
+    const files = version.bundle ? unpackBundle(await readPackageFile(source, version.bundle), manifest) : [];
+    return { manifest, files };
+  }
+}
+function diff(before: string[], after: string[]): MarketplaceDiff {
+  return {
+    added: after.filter(item => !before.includes(item)),
+    removed: before.filter(item => !after.includes(item))
+  };
+}
@@ -0,0 +1,385 @@
+/**
+ * MCP Package Index
+ *
+ * On-disk format of an offline marketplace. A signed index.json lists every
+ * package version together with the SHA-256 of its manifest and optional
+ * code bundle, so the same tree can be served from a directory on a file
+ * share, a local HTTP server, or packed into a single tarball:
+ *
+ *   index.json
+ *   publishers.json                        (optional, read by the builder)
+ *   packages/<id>/<version>/manifest.json
+ *   packages/<id>/<version>/bundle.tgz     (optional, or bundle.tar)
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { MCPKeyring, MCPSigningKey } from '../server/MCPKeyring';
+import { canonicalJson } from '../server/MCPSecurityManager';
+import { MCPBundleFile, MCPIntegrationManifest, MCPIntegrationSignature } from '../server/types';
+import type { IntegrationStats, MarketplacePublisher, MarketplaceReview } from './MCPMarketplace';
+
+export interface PackageIndex {
+  format: 1;
+  name: string;
+  generatedAt: string;
+  publishers: MarketplacePublisher[];
+  packages: PackageIndexEntry[];
+  // Covers everything else in the index
+  signature?: MCPIntegrationSignature;
+}
+
+export interface PackageIndexEntry {
+  id: string;
+  // Publisher ID, see PackageIndex.publishers
+  publisher: string;
+  stats?: Partial<IntegrationStats>;
+  reviews?: Array<Omit<MarketplaceReview, 'createdAt'> & { createdAt: string }>;
+  versions: PackageIndexVersion[];
+}
+
+export interface PackageIndexVersion {
+  version: string;
+  // Paths are relative to index.json
+  manifest: string;
+  sha256: string;
+  bundle?: PackageFileRef;
+  publishedAt: string;
+}
+
+export interface PackageFileRef {
+  path: string;
+  sha256: string;
+}
+
+export interface PackageSource {
+  // Directory, tarball or http(s) URL the index was opened from
+  location: string;
+  read(relativePath: string): Promise<Buffer>;
+}
+
+export type MarketplaceErrorCode =
+  | 'SOURCE_UNAVAILABLE'
+  | 'INVALID_INDEX'
+  | 'UNTRUSTED_INDEX'
+  | 'INTEGRITY'
+  | 'NOT_FOUND'
+  | 'NOT_INSTALLED'
+  | 'PINNED'
+  | 'PLAN_STALE';
+
+export class MarketplaceError extends Error {
+  constructor(message: string, public code: MarketplaceErrorCode, public location?: string) {
+    super(message);
+    this.name = 'MarketplaceError';
+  }
+}
+
+const INDEX_FILE = 'index.json';
+const BUNDLE_FILES = ['bundle.tgz', 'bundle.tar.gz', 'bundle.tar'];
+const TARBALL = /\.(tar|tgz|tar\.gz)$/i;
+
+export function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Order semantic versions; a prerelease sorts before its release
+ */
+export function compareVersions(a: string, b: string): number {
+  const [coreA = '', preA] = a.split('-', 2);
+  const [coreB = '', preB] = b.split('-', 2);
+  const partsA = coreA.split('.').map(Number);
+  const partsB = coreB.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  if (preA === preB) return 0;
+  if (!preA) return 1;
+  if (!preB) return -1;
+  return preA < preB ? -1 : 1;
+}
+
+export function canonicalIndexPayload(index: PackageIndex): string {
+  const { signature: _signature, ...content } = index;
+  return canonicalJson(content);
+}
+
+/**
+ * Open a package index from a directory, a .tar/.tgz file, or an http(s)
+ * URL of either
+ */
+export async function openPackageSource(location: string): Promise<PackageSource> {
+  if (/^https?:\/\//i.test(location)) {
+    if (TARBALL.test(new URL(location).pathname)) {
+      return tarballSource(location, await download(location));
+    }
+    const base = location.endsWith('/') ? location : `${location}/`;
+    return { location, read: relativePath => download(new URL(safeRelative(relativePath), base).toString()) };
+  }
+
+  let isDirectory: boolean;
+  try {
+    isDirectory = (await fs.stat(location)).isDirectory();
+  } catch (error) {
+    throw new MarketplaceError(`Package index not found: ${location}`, 'SOURCE_UNAVAILABLE', location);
+  }
+  if (!isDirectory) {
+    return tarballSource(location, await fs.readFile(location));
+  }
+  return {
+    location,
+    read: async relativePath => {
+      try {
+        return await fs.readFile(path.join(location, safeRelative(relativePath)));
+      } catch (error) {
+        if (error instanceof MarketplaceError) throw error;
+        throw new MarketplaceError(`Cannot read ${relativePath} from ${location}`, 'SOURCE_UNAVAILABLE', location);
+      }
+    }
+  };
+}
+
+/**
+ * Read index.json and check its signature against the keyring. Unsigned
+ * indexes are never accepted: the index is what vouches for every file.
+ */
+export async function loadPackageIndex(source: PackageSource, keyring: MCPKeyring): Promise<PackageIndex> {
+  let index: PackageIndex;
+  try {
+    index = JSON.parse((await source.read(INDEX_FILE)).toString('utf-8'));
+  } catch (error) {
+    if (error instanceof MarketplaceError) throw error;
+    throw new MarketplaceError(`Invalid ${INDEX_FILE} in ${source.location}`, 'INVALID_INDEX', source.location);
+  }
+  if (index.format !== 1 || !Array.isArray(index.packages)) {
+    throw new MarketplaceError(`Unsupported package index format in ${source.location}`, 'INVALID_INDEX', source.location);
+  }
+
+  const check = await keyring.verify(canonicalIndexPayload(index), index.signature, 'Package index');
+  if (check.status !== 'valid') {
+    throw new MarketplaceError(
+      `Package index ${source.location} was rejected: ${check.reason}`,
+      'UNTRUSTED_INDEX',
+      source.location
+    );
+  }
+  return index;
+}
+
+/**
+ * Read a file listed in the index and check it against its hash
+ */
+export async function readPackageFile(source: PackageSource, ref: PackageFileRef): Promise<Buffer> {
+  const content = await source.read(ref.path);
+  if (sha256(content) !== ref.sha256) {
+    throw new MarketplaceError(`${ref.path} does not match the index`, 'INTEGRITY', source.location);
+  }
+  return content;
+}
+
+/**
+ * Unpack a code bundle and check it against the signed manifest: every
+ * file must be listed in installation.files with its SHA-256 checksum,
+ * and every listed file with a checksum must be in the bundle
+ */
+export function unpackBundle(bundle: Buffer, manifest: MCPIntegrationManifest): MCPBundleFile[] {
+  const expected = new Map(
+    manifest.installation.files
+      .filter(file => file.checksum)
+      .map(file => [path.posix.normalize(file.path), file.checksum])
+  );
+  const files: MCPBundleFile[] = [];
+  for (const [name, content] of readTarball(bundle)) {
+    const checksum = expected.get(name);
+    if (!checksum) {
+      throw new MarketplaceError(`Bundle file ${name} is not listed in the manifest`, 'INTEGRITY');
+    }
+    if (sha256(content) !== checksum) {
+      throw new MarketplaceError(`Bundle file ${name} does not match its checksum`, 'INTEGRITY');
+    }
+    expected.delete(name);
+    files.push({ path: name, content });
+  }
+  if (expected.size > 0) {
+    throw new MarketplaceError(`Bundle is missing ${[...expected.keys()].join(', ')}`, 'INTEGRITY');
+  }
+  return files;
+}
+
+/**
+ * Regular files of a tar or gzipped tar archive by normalized path.
+ * Handles ustar, pax and GNU long names, which covers the common tar tools.
+ */
+export function readTarball(archive: Buffer): Map<string, Buffer> {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? zlib.gunzipSync(archive) : archive;
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+    const size = parseInt(tarField(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = tarField(body, 0, body.length);
+    } else if (type === 'x') {
+      longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString('utf-8'))?.[1] || longName;
+    } else if (type !== 'g') {
+      const prefix = tarField(header, 345, 155);
+      const name = longName || (prefix ? `${prefix}/${tarField(header, 0, 100)}` : tarField(header, 0, 100));
+      longName = undefined;
+      if (type === '0' || type === '\0') {
+        files.set(path.posix.normalize(name), Buffer.from(body));
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Build and sign index.json for a directory laid out as described above.
+ * Bundles are checked against their manifests so broken packages fail
+ * here rather than on install.
+ */
+export async function buildPackageIndex(
+  directory: string,
+  keyring: MCPKeyring,
+  options: { name: string; signingKey?: MCPSigningKey }
+): Promise<PackageIndex> {
+  const publishers = await readPublishers(directory);
+  const packages: PackageIndexEntry[] = [];
+  const packagesDir = path.join(directory, 'packages');
+
+  for (const id of (await fs.readdir(packagesDir)).sort()) {
+    const versionDirs = (await fs.readdir(path.join(packagesDir, id), { withFileTypes: true }))
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort(compareVersions);
+    const versions: PackageIndexVersion[] = [];
+    let publisher = '';
+
+    for (const version of versionDirs) {
+      const base = `packages/${id}/${version}`;
+      const content = await fs.readFile(path.join(directory, base, 'manifest.json'));
+      const manifest: MCPIntegrationManifest = JSON.parse(content.toString('utf-8'));
+      if (manifest.integration.version !== version) {
+        throw new MarketplaceError(
+          `${base}/manifest.json declares version ${manifest.integration.version}`,
+          'INVALID_INDEX',
+          directory
+        );
+      }
+      publisher = manifest.integration.signature?.publisher || manifest.integration.author;
+      const bundle = await findBundle(directory, base);
+      if (bundle) {
+        unpackBundle(bundle.content, manifest);
+      }
+      versions.push({
+        version,
+        manifest: `${base}/manifest.json`,
+        sha256: sha256(content),
+        ...(bundle ? { bundle: { path: bundle.path, sha256: sha256(bundle.content) } } : {}),
+        publishedAt: manifest.integration.signature?.signedAt || new Date().toISOString()
+      });
+    }
+
+    if (versions.length === 0) continue;
+    if (!publishers.has(publisher)) {
+      publishers.set(publisher, { id: publisher, name: publisher, email: '', verified: false });
+    }
+    packages.push({ id, publisher, versions });
+  }
+
+  const unsigned: PackageIndex = {
+    format: 1,
+    name: options.name,
+    generatedAt: new Date().toISOString(),
+    publishers: [...publishers.values()],
+    packages
+  };
+  const index: PackageIndex = {
+    ...unsigned,
+    signature: await keyring.sign(canonicalIndexPayload(unsigned), options.signingKey)
+  };
+  await fs.writeFile(path.join(directory, INDEX_FILE), `${JSON.stringify(index, null, 2)}\n`);
+  return index;
+}
+
+function tarField(block: Buffer, start: number, length: number): string {
+  const raw = block.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf-8');
+}
+
+async function readPublishers(directory: string): Promise<Map<string, MarketplacePublisher>> {
+  try {
+    const list: MarketplacePublisher[] = JSON.parse(await fs.readFile(path.join(directory, 'publishers.json'), 'utf-8'));
+    return new Map(list.map(publisher => [publisher.id, publisher]));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return new Map();
+  }
+}
+
+async function findBundle(directory: string, base: string): Promise<{ path: string; content: Buffer } | undefined> {
+  for (const file of BUNDLE_FILES) {
+    try {
+      return { path: `${base}/${file}`, content: await fs.readFile(path.join(directory, base, file)) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  return undefined;
+}
+
+function tarballSource(location: string, archive: Buffer): PackageSource {
+  const entries = readTarball(archive);
+  // Archives usually wrap everything in one top-level directory
+  const index = [...entries.keys()]
+    .filter(name => path.posix.basename(name) === INDEX_FILE)
+    .sort((a, b) => a.length - b.length)[0];
+  if (!index) {
+    throw new MarketplaceError(`No ${INDEX_FILE} in ${location}`, 'INVALID_INDEX', location);
+  }
+  const root = path.posix.dirname(index);
+  return {
+    location,
+    read: async relativePath => {
+      const name = safeRelative(relativePath);
+      const content = entries.get(root === '.' ? name : `${root}/${name}`);
+      if (!content) {
+        throw new MarketplaceError(`${relativePath} is missing from ${location}`, 'SOURCE_UNAVAILABLE', location);
+      }
+      return content;
+    }
+  };
+}
+
+async function download(url: string): Promise<Buffer> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new MarketplaceError(`Cannot reach ${url}: ${(error as Error).message}`, 'SOURCE_UNAVAILABLE', url);
+  }
+  if (!response.ok) {
+    throw new MarketplaceError(`GET ${url} failed with HTTP ${response.status}`, 'SOURCE_UNAVAILABLE', url);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Index paths may not leave the index root
+function safeRelative(relativePath: string): string {
+  const normalized = path.posix.normalize(relativePath);
+  if (path.posix.isAbsolute(normalized) || normalized.split('/').includes('..')) {
+    throw new MarketplaceError(`Path outside the package index: ${relativePath}`, 'INVALID_INDEX');
+  }
+  return normalized;
+}
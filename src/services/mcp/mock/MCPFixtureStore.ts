@@ -0,0 +1,202 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { canonicalJson } from '../server/MCPSecurityManager';
+import { MCPError } from '../server/types';
+
+/**
+ * Recorded tool calls for MCPMockService. Fixtures are stored one JSON
+ * file per integration, with secrets redacted before they are written.
+ */
+export interface MockFixture {
+  integrationId: string;
+  tool: string;
+  input: any;
+  output?: any;
+  error?: MCPError;
+  recordedAt: string;
+}
+
+export interface MockFixtureFile {
+  format: 1;
+  integrationId: string;
+  fixtures: MockFixture[];
+}
+
+export interface FixtureOptions {
+  dir: string;
+  // Keys to redact besides the built-in secret names
+  redactKeys?: string[];
+  // Input keys that never affect matching, such as timestamps
+  ignoreKeys?: string[];
+  matching?: 'exact' | 'fuzzy';
+}
+
+export class MockFixtureError extends Error {
+  constructor(message: string, public code: 'NO_FIXTURE' | 'INVALID_FIXTURE') {
+    super(message);
+    this.name = 'MockFixtureError';
+  }
+}
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEY = /(token|secret|password|passwd|api[-_]?key|authorization|credential|cookie|private[-_]?key)/i;
+const SECRET_VALUE = /(Bearer\s+[\w.~+/=-]+|gh[pousr]_[A-Za-z0-9]{20,}|sk-[A-Za-z0-9_-]{20,}|xox[abprs]-[A-Za-z0-9-]{10,}|lin_api_[A-Za-z0-9]{20,})/g;
+
+/**
+ * Copy of a value with secrets replaced: values under secret-looking keys
+ * and token-shaped substrings of any string
+ */
+export function redactSecrets(value: any, extraKeys: string[] = []): any {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_VALUE, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, extraKeys));
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] = SECRET_KEY.test(key) || extraKeys.includes(key)
+        ? REDACTED
+        : redactSecrets(item, extraKeys);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+export class MCPFixtureStore {
+  private options: FixtureOptions;
+  private fixtures: MockFixture[] = [];
+
+  constructor(options: FixtureOptions) {
+    this.options = options;
+  }
+
+  add(fixture: Omit<MockFixture, 'recordedAt'>): MockFixture {
+    const redactKeys = this.options.redactKeys || [];
+    const recorded: MockFixture = {
+      integrationId: fixture.integrationId,
+      tool: fixture.tool,
+      input: redactSecrets(fixture.input ?? {}, redactKeys),
+      ...(fixture.error
+        ? { error: redactSecrets(fixture.error, redactKeys) }
+        : { output: redactSecrets(fixture.output ?? null, redactKeys) }),
+      recordedAt: new Date().toISOString(),
+    };
+    this.fixtures.push(recorded);
+    return recorded;
+  }
+
+  list(integrationId?: string): MockFixture[] {
+    return this.fixtures.filter(f => !integrationId || f.integrationId === integrationId);
+  }
+
+  /**
+   * Write one file per integration, merging with fixtures already on disk
+   * for the same calls so a recording session can be repeated
+   */
+  async save(): Promise<string[]> {
+    await fs.mkdir(this.options.dir, { recursive: true });
+    const files: string[] = [];
+
+    for (const integrationId of new Set(this.fixtures.map(f => f.integrationId))) {
+      const file = path.join(this.options.dir, `${integrationId.replace(/[^\w.-]/g, '_')}.json`);
+      const existing = await this.readFile(file).catch(() => undefined);
+      const recorded = this.list(integrationId);
+      const keys = new Set(recorded.map(f => this.callKey(f)));
+      const content: MockFixtureFile = {
+        format: 1,
+        integrationId,
+        fixtures: [...(existing?.fixtures || []).filter(f => !keys.has(this.callKey(f))), ...recorded],
+      };
+      await fs.writeFile(file, JSON.stringify(content, null, 2));
+      files.push(file);
+    }
+
+    return files;
+  }
+
+  async load(): Promise<number> {
+    this.fixtures = [];
+    const entries = await fs.readdir(this.options.dir);
+
+    for (const entry of entries.filter(name => name.endsWith('.json')).sort()) {
+      const content = await this.readFile(path.join(this.options.dir, entry));
+      this.fixtures.push(...content.fixtures);
+    }
+
+    return this.fixtures.length;
+  }
+
+  /**
+   * Fixture for a call. Exact matching compares the redacted input.
+   * Fuzzy matching scores every fixture of the tool: +2 per equal value,
+   * +1 when scalars only match as strings ('2' and 2, 'Open' and 'open'),
+   * -1 per key on one side only and -2 per differing value; redacted and
+   * ignored keys match anything. The best positive score wins, ties going
+   * to the earlier fixture, so replay is deterministic.
+   */
+  find(integrationId: string, tool: string, input: any): MockFixture | undefined {
+    const query = redactSecrets(input ?? {}, this.options.redactKeys || []);
+    const candidates = this.fixtures.filter(f => f.integrationId === integrationId && f.tool === tool);
+    const exact = candidates.find(f => canonicalJson(f.input) === canonicalJson(query));
+
+    if (exact || this.options.matching === 'exact') {
+      return exact;
+    }
+
+    let best: MockFixture | undefined;
+    let bestScore = 0;
+    for (const fixture of candidates) {
+      const score = this.score(fixture.input, query);
+      if (score > bestScore) {
+        best = fixture;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  private score(recorded: any, query: any): number {
+    if (!recorded || typeof recorded !== 'object' || !query || typeof query !== 'object') {
+      return canonicalJson(recorded) === canonicalJson(query) ? 2 : -2;
+    }
+
+    const ignored = this.options.ignoreKeys || [];
+    let score = 0;
+    for (const key of new Set([...Object.keys(recorded), ...Object.keys(query)])) {
+      if (ignored.includes(key) || recorded[key] === REDACTED) continue;
+
+      if (!(key in recorded) || !(key in query)) {
+        score -= 1;
+      } else if (canonicalJson(recorded[key]) === canonicalJson(query[key])) {
+        score += 2;
+      } else if (this.isLooseMatch(recorded[key], query[key])) {
+        score += 1;
+      } else {
+        score -= 2;
+      }
+    }
+    return score;
+  }
+
+  private isLooseMatch(recorded: any, query: any): boolean {
+    const primitive = (value: any) => value === null || typeof value !== 'object';
+    return primitive(recorded) && primitive(query) &&
+      String(recorded).trim().toLowerCase() === String(query).trim().toLowerCase();
+  }
+
+  private callKey(fixture: MockFixture): string {
+    return `${fixture.tool}:${canonicalJson(fixture.input)}`;
+  }
+
+  private async readFile(file: string): Promise<MockFixtureFile> {
+    const content = JSON.parse(await fs.readFile(file, 'utf-8'));
+    if (content?.format !== 1 || !Array.isArray(content.fixtures)) {
+      throw new MockFixtureError(`Not a fixture file: ${file}`, 'INVALID_FIXTURE');
+    }
+    return content;
+  }
+}
@@ -1,5 +1,13 @@
 import { EventEmitter } from 'events';
 import { Logger } from '../../../lib/logging/Logger';
+import type { MCPRequestHandler } from '../server/MCPRequestHandler';
+import { FixtureOptions, MCPFixtureStore, MockFixture, MockFixtureError } from './MCPFixtureStore';
+
+// mock serves hand-written responses, record proxies real calls and
+// stores them as fixtures, replay serves those fixtures
+export type MockMode = 'mock' | 'record' | 'replay';
+
+type ToolCallExecutor = Pick<MCPRequestHandler, 'executeToolCall'>;
 
 export interface MockConfig {
   enabled: boolean;
@@ -52,6 +60,9 @@ export class MCPMockService extends EventEmitter {
   private scenarios: Map<string, MockScenario> = new Map();
   private callHistory: MockCallRecord[] = [];
   private _isOfflineMode: boolean = false;
+  private mode: MockMode = 'mock';
+  private fixtures?: MCPFixtureStore;
+  private recorder?: ToolCallExecutor;
 
   constructor(config: MockConfig) {
     super();
@@ -262,21 +273,36 @@ export class MCPMockService extends EventEmitter {
         success: false,
       };
 
-      // Simulate latency
-      const latency = this.calculateLatency();
-      await this.delay(latency);
-
-      // Check if should fail based on error rate
-      if (this.shouldFail()) {
-        const error = new Error('Mock API error: Service unavailable');
-        callRecord.error = error.message;
-        callRecord.duration = Date.now() - startTime;
-        this.callHistory.push(callRecord);
-        throw error;
-      }
+      let response: any;
+      if (this.mode === 'mock') {
+        // Simulate latency
+        const latency = this.calculateLatency();
+        await this.delay(latency);
+
+        // Check if should fail based on error rate
+        if (this.shouldFail()) {
+          const error = new Error('Mock API error: Service unavailable');
+          callRecord.error = error.message;
+          callRecord.duration = Date.now() - startTime;
+          this.callHistory.push(callRecord);
+          throw error;
+        }
 
-      // Get response
-      const response = await this.getMockResponse(integrationId, tool, input);
+        // Get response
+        response = await this.getMockResponse(integrationId, tool, input);
+      } else {
+        // Recorded and replayed calls skip simulated latency and failures
+        try {
+          response = this.mode === 'record'
+            ? await this.recordCall(integrationId, tool, input)
+            : this.replayCall(integrationId, tool, input);
+        } catch (error) {
+          callRecord.error = (error as Error).message;
+          callRecord.duration = Date.now() - startTime;
+          this.callHistory.push(callRecord);
+          throw error;
+        }
+      }
       
       callRecord.output = response;
       callRecord.success = true;
@@ -292,6 +318,46 @@ export class MCPMockService extends EventEmitter {
     }
   }
 
+  private async recordCall(integrationId: string, tool: string, input: any): Promise<any> {
+    if (!this.recorder || !this.fixtures) {
+      throw new Error('Recording has not been started');
+    }
+
+    const result = await this.recorder.executeToolCall(integrationId, tool, input);
+    const fixture = this.fixtures.add({
+      integrationId,
+      tool,
+      input,
+      ...(result.success ? { output: result.data } : { error: result.error }),
+    });
+    this.emit('fixture-recorded', fixture);
+
+    if (!result.success) {
+      throw this.fixtureError(fixture);
+    }
+    return result.data;
+  }
+
+  private replayCall(integrationId: string, tool: string, input: any): any {
+    const fixture = this.fixtures?.find(integrationId, tool, input);
+    if (!fixture) {
+      throw new MockFixtureError(`No fixture recorded for ${integrationId}/${tool} matching the input`, 'NO_FIXTURE');
+    }
+    if (fixture.error) {
+      throw this.fixtureError(fixture);
+    }
+
+    // Deep clone to avoid mutations
+    return JSON.parse(JSON.stringify(fixture.output ?? null));
+  }
+
+  private fixtureError(fixture: MockFixture): Error {
+    return Object.assign(new Error(fixture.error?.message || 'Tool execution failed'), {
+      code: fixture.error?.code,
+      details: fixture.error?.details,
+    });
+  }
+
   private async getMockResponse(
     integrationId: string,
     tool: string,
@@ -399,6 +465,54 @@ export class MCPMockService extends EventEmitter {
     this.emit('offline-mode-disabled');
   }
 
+  /**
+   * Proxy calls through a real request handler and keep each request and
+   * response as a fixture until stopRecording writes them to disk
+   */
+  startRecording(executor: ToolCallExecutor, options: FixtureOptions): void {
+    this.recorder = executor;
+    this.fixtures = new MCPFixtureStore(options);
+    this.mode = 'record';
+    this.emit('recording-started', options.dir);
+  }
+
+  async stopRecording(): Promise<string[]> {
+    if (this.mode !== 'record' || !this.fixtures) {
+      throw new Error('Recording has not been started');
+    }
+
+    const files = await this.fixtures.save();
+    this.mode = 'mock';
+    this.recorder = undefined;
+    this.emit('recording-stopped', files);
+    return files;
+  }
+
+  /**
+   * Serve the fixtures in a directory instead of mock responses
+   */
+  async startReplay(options: FixtureOptions): Promise<number> {
+    const fixtures = new MCPFixtureStore(options);
+    const count = await fixtures.load();
+    this.fixtures = fixtures;
+    this.mode = 'replay';
+    this.emit('replay-started', { dir: options.dir, fixtures: count });
+    return count;
+  }
+
+  stopReplay(): void {
+    this.mode = 'mock';
+    this.emit('replay-stopped');
+  }
+
+  getMode(): MockMode {
+    return this.mode;
+  }
+
+  getFixtures(integrationId?: string): MockFixture[] {
+    return this.fixtures?.list(integrationId) || [];
+  }
+
   addMockIntegration(integration: MockIntegration): void {
     this.mockIntegrations.set(integration.id, integration);
     this.emit('mock-integration-added', integration);
@@ -0,0 +1,170 @@
+/**
+ * MCP Auth Manager
+ *
+ * Issues bearer tokens to the local clients of the MCP server (the Zed
+ * extension, the renderer, the CLI) and checks them on every HTTP and
+ * WebSocket request. Tokens carry scopes such as integrations:manage or
+ * tools:execute:<integration>. Only a hash of each token is kept, encrypted
+ * by the CredentialManager; the token itself is shown once when issued.
+ */
+import * as crypto from 'crypto';
+import { CredentialManager } from '../../../lib/security/CredentialManager';
+
+export const MCP_SCOPES = {
+  INTEGRATIONS_READ: 'integrations:read',
+  INTEGRATIONS_MANAGE: 'integrations:manage',
+  // Any integration's tools
+  TOOLS_EXECUTE_ALL: 'tools:execute:*'
+} as const;
+
+export function toolsExecuteScope(integrationId: string): string {
+  return `tools:execute:${integrationId}`;
+}
+
+export interface MCPTokenInfo {
+  tokenId: string;
+  // Which local client holds the token, e.g. "zed", "renderer" or "cli"
+  client: string;
+  scopes: string[];
+  issuedAt: string;
+  expiresAt?: string;
+}
+
+export interface MCPIssuedToken {
+  // Bearer token; it cannot be recovered after issue
+  token: string;
+  info: MCPTokenInfo;
+}
+
+export interface MCPAuthContext {
+  tokenId: string;
+  client: string;
+  scopes: string[];
+}
+
+const TOKEN_PREFIX = 'shmcp_';
+const CREDENTIAL_PREFIX = 'mcp-token:';
+const SCOPE_PATTERN = /^(integrations:(read|manage)|tools:execute:[^\s]+)$/;
+
+export class MCPAuthError extends Error {
+  constructor(message: string, public code: 'UNAUTHENTICATED' | 'FORBIDDEN' | 'INVALID_SCOPE') {
+    super(message);
+    this.name = 'MCPAuthError';
+  }
+}
+
+export class MCPAuthManager {
+  private readonly credentials: CredentialManager;
+  private initialized: Promise<void> | null = null;
+
+  constructor(credentials: CredentialManager) {
+    this.credentials = credentials;
+  }
+
+  /**
+   * Load stored tokens; safe to call repeatedly
+   */
+  initialize(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = this.credentials.initialize().catch(error => {
+        this.initialized = null;
+        throw error;
+      });
+    }
+    return this.initialized;
+  }
+
+  async issueToken(options: { client: string; scopes: string[]; expiresInDays?: number }): Promise<MCPIssuedToken> {
+    await this.initialize();
+    if (!options.client.trim()) {
+      throw new MCPAuthError('Token client name is required', 'INVALID_SCOPE');
+    }
+    const invalid = options.scopes.filter(scope => !SCOPE_PATTERN.test(scope));
+    if (options.scopes.length === 0 || invalid.length > 0) {
+      throw new MCPAuthError(`Invalid token scopes: ${invalid.join(', ') || '(none)'}`, 'INVALID_SCOPE');
+    }
+
+    const tokenId = crypto.randomBytes(8).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const info: MCPTokenInfo = {
+      tokenId,
+      client: options.client,
+      scopes: [...new Set(options.scopes)],
+      issuedAt: new Date().toISOString(),
+      ...(options.expiresInDays
+        ? { expiresAt: new Date(Date.now() + options.expiresInDays * 86400000).toISOString() }
+        : {})
+    };
+
+    await this.credentials.storeCredential({
+      name: `${CREDENTIAL_PREFIX}${tokenId}`,
+      type: 'token',
+      value: this.hash(secret),
+      metadata: { ...info },
+      expiresAt: info.expiresAt
+    });
+
+    return { token: `${TOKEN_PREFIX}${tokenId}.${secret}`, info };
+  }
+
+  async listTokens(): Promise<MCPTokenInfo[]> {
+    await this.initialize();
+    const now = new Date();
+    return this.credentials.listCredentials()
+      .filter(credential => credential.name.startsWith(CREDENTIAL_PREFIX))
+      .filter(credential => !credential.expiresAt || new Date(credential.expiresAt) > now)
+      .map(credential => credential.metadata as MCPTokenInfo);
+  }
+
+  async revokeToken(tokenId: string): Promise<boolean> {
+    await this.initialize();
+    const credential = await this.credentials.getCredentialByName(`${CREDENTIAL_PREFIX}${tokenId}`);
+    if (!credential) {
+      return false;
+    }
+    await this.credentials.deleteCredential(credential.id);
+    return true;
+  }
+
+  /**
+   * Resolve an Authorization header to the token's client and scopes.
+   * Returns null for missing, malformed, unknown or expired tokens.
+   */
+  async authenticate(authorization: string | undefined): Promise<MCPAuthContext | null> {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization || '');
+    const token = match?.[1];
+    if (!token?.startsWith(TOKEN_PREFIX)) {
+      return null;
+    }
+    const [tokenId, secret] = token.slice(TOKEN_PREFIX.length).split('.');
+    if (!tokenId || !secret) {
+      return null;
+    }
+
+    await this.initialize();
+    // Expired tokens are deleted by the lookup
+    const credential = await this.credentials.getCredentialByName(`${CREDENTIAL_PREFIX}${tokenId}`);
+    if (!credential) {
+      return null;
+    }
+    const expected = Buffer.from(credential.value);
+    const actual = Buffer.from(this.hash(secret));
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const info = credential.metadata as MCPTokenInfo;
+    return { tokenId, client: info.client, scopes: info.scopes };
+  }
+
+  static hasScope(context: MCPAuthContext, scope: string): boolean {
+    if (context.scopes.includes(scope)) {
+      return true;
+    }
+    return scope.startsWith('tools:execute:') && context.scopes.includes(MCP_SCOPES.TOOLS_EXECUTE_ALL);
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
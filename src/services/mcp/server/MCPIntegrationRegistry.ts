@@ -5,15 +5,35 @@
  * and provides discovery mechanisms.
  */
 import { EventEmitter } from 'events';
-import { MCPIntegration, MCPIntegrationManifest } from './types';
+import {
+  MCPBundleFile,
+  MCPInstallationConfig,
+  MCPIntegration,
+  MCPIntegrationManifest,
+  MCPPackageSource,
+  MCPQuarantineEntry,
+  MCPSignatureCheck
+} from './types';
+import { MCPSecurityManager, MCPSignatureError } from './MCPSecurityManager';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+const SIGNATURE_ERROR_CODES = {
+  unsigned: 'SIGNATURE_MISSING',
+  invalid: 'SIGNATURE_INVALID',
+  untrusted: 'UNTRUSTED_KEY'
+} as const;
 export class MCPIntegrationRegistry extends EventEmitter {
   private integrations: Map<string, MCPIntegration>;
   private manifests: Map<string, MCPIntegrationManifest>;
   private storagePath: string;
-  constructor(storagePath?: string) {
+  private quarantinePath: string;
+  // Code bundles of integrations installed from a package index, by integration ID
+  private packagesPath: string;
+  // Verifies manifest signatures; without it every manifest is accepted
+  private security?: MCPSecurityManager;
+  private ready: Promise<void>;
+  constructor(storagePath?: string, security?: MCPSecurityManager) {
     super();
     this.integrations = new Map();
     this.manifests = new Map();
@@ -23,7 +43,16 @@ export class MCPIntegrationRegistry extends EventEmitter {
       'mcp',
       'integrations'
     );
-    this.initializeStorage();
+    this.quarantinePath = path.join(this.storagePath, 'quarantine');
+    this.packagesPath = path.join(this.storagePath, 'packages');
+    this.security = security;
+    this.ready = this.initializeStorage();
+  }
+  /**
+   * Resolves once integrations on disk have been loaded and verified
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
   }
   private async initializeStorage(): Promise<void> {
     try {
@@ -43,16 +72,31 @@ export class MCPIntegrationRegistry extends EventEmitter {
           );
           const manifest: MCPIntegrationManifest = JSON.parse(content);
           const integration = manifest.integration;
-          if (integration.id) {
-            this.integrations.set(integration.id, integration);
-            this.manifests.set(integration.id, manifest);
+          if (!integration.id) {
+            continue;
+          }
+          // Files on disk can be edited behind our back, so every load is verified
+          const check = await this.checkSignature(manifest);
+          if (check) {
+            await this.quarantine(integration.id, manifest, check);
+            await fs.unlink(path.join(this.storagePath, file));
+            continue;
           }
+          this.integrations.set(integration.id, integration);
+          this.manifests.set(integration.id, manifest);
         }
       }
     } catch (error) {
     }
   }
-  async registerIntegration(integration: MCPIntegration): Promise<string> {
+  /**
+   * Register an integration. Manifests failing signature verification are
+   * quarantined for review and the registration is rejected.
+   */
+  async registerIntegration(
+    integration: MCPIntegration,
+    installation: MCPInstallationConfig = { files: [], dependencies: [] }
+  ): Promise<string> {
     // Generate ID if not provided
     if (!integration.id) {
       integration.id = uuidv4();
@@ -64,16 +108,15 @@ export class MCPIntegrationRegistry extends EventEmitter {
     if (existing) {
       throw new Error(`Integration with name "${integration.name}" already exists`);
     }
+    // Create manifest
+    const manifest: MCPIntegrationManifest = { integration, installation };
+    const check = await this.checkSignature(manifest);
+    if (check) {
+      await this.quarantine(integration.id, manifest, check);
+      throw this.signatureError(integration, check);
+    }
     // Store integration
     this.integrations.set(integration.id, integration);
-    // Create manifest
-    const manifest: MCPIntegrationManifest = {
-      integration,
-      installation: {
-        files: [],
-        dependencies: []
-      }
-    };
     this.manifests.set(integration.id, manifest);
     // Persist to disk
     await this.saveIntegration(integration.id, manifest);
@@ -94,6 +137,10 @@ export class MCPIntegrationRegistry extends EventEmitter {
       await fs.unlink(path.join(this.storagePath, `${id}.json`));
     } catch (error) {
     }
+    try {
+      await fs.rm(path.join(this.packagesPath, id), { recursive: true, force: true });
+    } catch (error) {
+    }
     // Emit event
     this.emit('integration:unregistered', integration);
   }
@@ -149,9 +196,14 @@ export class MCPIntegrationRegistry extends EventEmitter {
     }
     // Update integration
     const updated = { ...integration, ...updates, id };
+    const manifest = this.manifests.get(id);
+    // Updates may not change signed content; the next load would quarantine it
+    const check = manifest && await this.checkSignature({ ...manifest, integration: updated });
+    if (check) {
+      throw this.signatureError(updated, check);
+    }
     this.integrations.set(id, updated);
     // Update manifest
-    const manifest = this.manifests.get(id);
     if (manifest) {
       manifest.integration = updated;
       this.manifests.set(id, manifest);
@@ -176,16 +228,206 @@ export class MCPIntegrationRegistry extends EventEmitter {
     // Emit event
     this.emit('integration:disabled', integration);
   }
+  async listQuarantined(): Promise<MCPQuarantineEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.quarantinePath);
+    } catch (error) {
+      return [];
+    }
+    const entries: MCPQuarantineEntry[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const content = await fs.readFile(path.join(this.quarantinePath, file), 'utf-8');
+      entries.push(JSON.parse(content));
+    }
+    return entries;
+  }
+  /**
+   * Re-verify a quarantined integration, e.g. after trusting its
+   * publisher's key, and register it if it now passes
+   */
+  async releaseQuarantined(id: string): Promise<string> {
+    const entry = (await this.listQuarantined()).find(e => e.id === id);
+    if (!entry) {
+      throw new Error(`Quarantined integration not found: ${id}`);
+    }
+    const registeredId = await this.registerIntegration(entry.manifest.integration, entry.manifest.installation);
+    await this.deleteQuarantined(id);
+    this.emit('integration:released', entry.manifest.integration);
+    return registeredId;
+  }
+  async deleteQuarantined(id: string): Promise<void> {
+    try {
+      await fs.unlink(path.join(this.quarantinePath, `${id}.json`));
+    } catch (error) {
+    }
+  }
+  /**
+   * Directory holding the code bundle of an installed package
+   */
+  getPackagePath(id: string): string {
+    return path.join(this.packagesPath, id);
+  }
+  /**
+   * Integration installed from a package index, if any
+   */
+  async findPackage(packageId: string): Promise<MCPIntegrationManifest | undefined> {
+    return Array.from(this.manifests.values()).find(m => m.source?.packageId === packageId);
+  }
+  /**
+   * Install an integration from a package index together with its code
+   * bundle. The manifest goes through the same verification as any other
+   * registration.
+   */
+  async installPackage(
+    manifest: MCPIntegrationManifest,
+    source: MCPPackageSource,
+    files: MCPBundleFile[] = []
+  ): Promise<string> {
+    if (await this.findPackage(source.packageId)) {
+      throw new Error(`Package already installed: ${source.packageId}`);
+    }
+    const integration = await this.admitPackage({ ...manifest.integration, id: uuidv4() }, manifest);
+    const installed: MCPIntegrationManifest = { ...manifest, integration, source };
+    await this.writePackageFiles(integration.id!, files);
+    this.integrations.set(integration.id!, integration);
+    this.manifests.set(integration.id!, installed);
+    await this.saveIntegration(integration.id!, installed);
+    this.emit('integration:registered', integration);
+    return integration.id!;
+  }
+  /**
+   * Replace an installed package with another version, keeping its ID
+   */
+  async upgradePackage(
+    id: string,
+    manifest: MCPIntegrationManifest,
+    source: MCPPackageSource,
+    files: MCPBundleFile[] = []
+  ): Promise<void> {
+    const current = this.manifests.get(id);
+    if (!current?.source) {
+      throw new Error(`Integration was not installed from a package: ${id}`);
+    }
+    const pinned = current.source.pinnedVersion;
+    if (pinned && pinned !== source.version) {
+      throw new Error(`Package ${current.source.packageId} is pinned to ${pinned}`);
+    }
+    const integration = await this.admitPackage({ ...manifest.integration, id }, manifest);
+    const upgraded: MCPIntegrationManifest = { ...manifest, integration, source: { ...source, pinnedVersion: pinned } };
+    await fs.rm(path.join(this.packagesPath, id), { recursive: true, force: true });
+    await this.writePackageFiles(id, files);
+    this.integrations.set(id, integration);
+    this.manifests.set(id, upgraded);
+    await this.saveIntegration(id, upgraded);
+    this.emit('integration:updated', integration);
+  }
+  /**
+   * Pin an installed package to its current version, or unpin it
+   */
+  async pinPackage(id: string, pinned: boolean): Promise<void> {
+    const manifest = this.manifests.get(id);
+    if (!manifest?.source) {
+      throw new Error(`Integration was not installed from a package: ${id}`);
+    }
+    manifest.source = { ...manifest.source, pinnedVersion: pinned ? manifest.source.version : undefined };
+    await this.saveIntegration(id, manifest);
+  }
+  private async admitPackage(integration: MCPIntegration, manifest: MCPIntegrationManifest): Promise<MCPIntegration> {
+    const existing = Array.from(this.integrations.values()).find(
+      i => i.name === integration.name && i.id !== integration.id
+    );
+    if (existing) {
+      throw new Error(`Integration with name "${integration.name}" already exists`);
+    }
+    const check = await this.checkSignature({ ...manifest, integration });
+    if (check) {
+      await this.quarantine(integration.id!, { ...manifest, integration }, check);
+      throw this.signatureError(integration, check);
+    }
+    if (!this.security) {
+      return integration;
+    }
+    await this.security.validateIntegration(integration);
+    return this.security.sandboxIntegration(integration);
+  }
+  private async writePackageFiles(id: string, files: MCPBundleFile[]): Promise<void> {
+    const root = path.join(this.packagesPath, id);
+    for (const file of files) {
+      const target = path.resolve(root, file.path);
+      if (!target.startsWith(root + path.sep)) {
+        throw new Error(`Bundle file escapes the package directory: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content);
+    }
+  }
+  /**
+   * Returns the failed check when the manifest may not be loaded
+   */
+  private async checkSignature(manifest: MCPIntegrationManifest): Promise<MCPSignatureCheck | undefined> {
+    if (!this.security) {
+      return undefined;
+    }
+    const check = await this.security.verifyManifest(manifest);
+    return this.security.isAcceptable(check) ? undefined : check;
+  }
+  private async quarantine(id: string, manifest: MCPIntegrationManifest, check: MCPSignatureCheck): Promise<void> {
+    const entry: MCPQuarantineEntry = {
+      id,
+      manifest,
+      status: check.status as MCPQuarantineEntry['status'],
+      reason: check.reason || 'Signature verification failed',
+      quarantinedAt: new Date().toISOString()
+    };
+    await fs.mkdir(this.quarantinePath, { recursive: true });
+    await fs.writeFile(path.join(this.quarantinePath, `${id}.json`), JSON.stringify(entry, null, 2));
+    this.emit('integration:quarantined', entry);
+  }
+  private signatureError(integration: MCPIntegration, check: MCPSignatureCheck): MCPSignatureError {
+    return new MCPSignatureError(
+      `Integration "${integration.name}" was quarantined: ${check.reason || 'signature verification failed'}`,
+      SIGNATURE_ERROR_CODES[check.status as keyof typeof SIGNATURE_ERROR_CODES],
+      integration.id
+    );
+  }
   private async saveIntegration(id: string, manifest: MCPIntegrationManifest): Promise<void> {
     const filePath = path.join(this.storagePath, `${id}.json`);
     await fs.writeFile(filePath, JSON.stringify(manifest, null, 2));
   }
+  /**
+   * Register an integration built into SessionHub, signed with the local
+   * key so it passes verification when signatures are required
+   */
+  async registerSigned(integration: MCPIntegration): Promise<string> {
+    if (!this.security) {
+      return this.registerIntegration(integration);
+    }
+    const signed = await this.security.signManifest({
+      integration,
+      installation: { files: [], dependencies: [] }
+    });
+    return this.registerIntegration(signed.integration, signed.installation);
+  }
+  /**
+   * Register an integration built into SessionHub, replacing the copy an
+   * older release saved while keeping its id and the user's configuration
+   */
+  async registerCoreIntegration(integration: MCPIntegration): Promise<string> {
+    const existing = Array.from(this.integrations.values()).find(
+      i => i.name === integration.name && i.author === integration.author
+    );
+    if (existing?.id && existing.version === integration.version) {
+      return existing.id;
+    }
+    return this.registerSigned(existing ? { ...integration, id: existing.id, config: existing.config } : integration);
+  }
   // Core integrations that come pre-installed
   async registerCoreIntegrations(): Promise<void> {
     const coreIntegrations: MCPIntegration[] = [
       {
         name: 'GitHub',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'GitHub integration for repositories, issues, and pull requests',
         author: 'SessionHub',
         category: 'development',
@@ -193,6 +435,7 @@ export class MCPIntegrationRegistry extends EventEmitter {
         tools: [
           {
             name: 'listRepositories',
+            handler: 'builtin:github#listRepositories',
             description: 'List user repositories',
             inputSchema: {
               type: 'object',
@@ -200,19 +443,38 @@ export class MCPIntegrationRegistry extends EventEmitter {
                 page: { type: 'number', description: 'Page number' },
                 perPage: { type: 'number', description: 'Items per page' }
               }
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                repositories: { type: 'array' },
+                page: { type: 'number' }
+              },
+              required: ['repositories']
             }
           },
           {
             name: 'createIssue',
+            handler: 'builtin:github#createIssue',
             description: 'Create a new issue',
             inputSchema: {
               type: 'object',
               properties: {
-                repo: { type: 'string', description: 'Repository name' },
+                repo: { type: 'string', description: 'Repository as owner/name' },
                 title: { type: 'string', description: 'Issue title' },
                 body: { type: 'string', description: 'Issue body' }
               },
               required: ['repo', 'title']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                id: { type: 'number' },
+                number: { type: 'number' },
+                title: { type: 'string' },
+                html_url: { type: 'string' }
+              },
+              required: ['number', 'html_url']
             }
           }
         ],
@@ -220,7 +482,7 @@ export class MCPIntegrationRegistry extends EventEmitter {
       },
       {
         name: 'Linear',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Linear integration for project management',
         author: 'SessionHub',
         category: 'productivity',
@@ -228,6 +490,7 @@ export class MCPIntegrationRegistry extends EventEmitter {
         tools: [
           {
             name: 'listIssues',
+            handler: 'builtin:linear#listIssues',
             description: 'List Linear issues',
             inputSchema: {
               type: 'object',
@@ -235,10 +498,18 @@ export class MCPIntegrationRegistry extends EventEmitter {
                 teamId: { type: 'string', description: 'Team ID' },
                 filter: { type: 'string', description: 'Filter query' }
               }
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                issues: { type: 'array' }
+              },
+              required: ['issues']
             }
           },
           {
             name: 'createIssue',
+            handler: 'builtin:linear#createIssue',
             description: 'Create a new Linear issue',
             inputSchema: {
               type: 'object',
@@ -248,6 +519,15 @@ export class MCPIntegrationRegistry extends EventEmitter {
                 description: { type: 'string', description: 'Issue description' }
               },
               required: ['teamId', 'title']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                title: { type: 'string' },
+                url: { type: 'string' }
+              },
+              required: ['id', 'title']
             }
           }
         ],
@@ -255,7 +535,7 @@ export class MCPIntegrationRegistry extends EventEmitter {
       },
       {
         name: 'Figma',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Figma integration for design files and components',
         author: 'SessionHub',
         category: 'design',
@@ -263,6 +543,7 @@ export class MCPIntegrationRegistry extends EventEmitter {
         tools: [
           {
             name: 'getFile',
+            handler: 'builtin:figma#getFile',
             description: 'Get Figma file data',
             inputSchema: {
               type: 'object',
@@ -270,10 +551,20 @@ export class MCPIntegrationRegistry extends EventEmitter {
                 fileKey: { type: 'string', description: 'Figma file key' }
               },
               required: ['fileKey']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                lastModified: { type: 'string' },
+                pages: { type: 'array' }
+              },
+              required: ['name', 'pages']
             }
           },
           {
             name: 'exportComponents',
+            handler: 'builtin:figma#exportComponents',
             description: 'Export Figma components',
             inputSchema: {
               type: 'object',
@@ -282,6 +573,15 @@ export class MCPIntegrationRegistry extends EventEmitter {
                 format: { type: 'string', enum: ['svg', 'png', 'jpg'], description: 'Export format' }
               },
               required: ['fileKey', 'format']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                components: { type: 'array' },
+                format: { type: 'string' },
+                exported: { type: 'number' }
+              },
+              required: ['components', 'exported']
             }
           }
         ],
@@ -290,7 +590,7 @@ export class MCPIntegrationRegistry extends EventEmitter {
     ];
     for (const integration of coreIntegrations) {
       try {
-        await this.registerIntegration(integration);
+        await this.registerCoreIntegration(integration);
       } catch (error) {
       }
     }
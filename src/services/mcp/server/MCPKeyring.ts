@@ -0,0 +1,206 @@
+/**
+ * MCP Keyring
+ *
+ * Trusted publisher keys for verifying integration signatures, plus the
+ * local Ed25519 key this machine signs its own integrations with. Keys
+ * are identified by the fingerprint of their public key.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MCPIntegrationSignature, MCPSignatureCheck, MCPTrustedKey } from './types';
+
+export interface MCPSigningKey {
+  keyId: string;
+  publisher: string;
+  privateKey: crypto.KeyObject;
+  // SPKI PEM, for sharing with machines that should trust this key
+  publicKey: string;
+}
+
+interface KeyringFile {
+  version: 1;
+  keys: MCPTrustedKey[];
+}
+
+const KEYRING_FILE = 'keyring.json';
+const SIGNING_KEY_FILE = 'signing-key.pem';
+
+export class MCPKeyring {
+  private readonly directory: string;
+  private keys: Map<string, MCPTrustedKey> | null = null;
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(
+      process.env['HOME'] || '',
+      '.sessionhub',
+      'mcp',
+      'keyring'
+    );
+  }
+
+  /**
+   * Fingerprint of a public key: the first 128 bits of the SHA-256 of
+   * its DER encoding, in hex
+   */
+  static fingerprint(publicKey: crypto.KeyObject): string {
+    const der = publicKey.export({ type: 'spki', format: 'der' });
+    return crypto.createHash('sha256').update(der).digest('hex').slice(0, 32);
+  }
+
+  async listKeys(): Promise<MCPTrustedKey[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async getKey(keyId: string): Promise<MCPTrustedKey | undefined> {
+    return (await this.load()).get(keyId);
+  }
+
+  /**
+   * Trust a publisher's Ed25519 public key, given as SPKI PEM
+   */
+  async trustKey(publisher: string, publicKeyPem: string): Promise<MCPTrustedKey> {
+    let publicKey: crypto.KeyObject;
+    try {
+      publicKey = crypto.createPublicKey(publicKeyPem);
+    } catch (error) {
+      throw new Error(`Invalid public key: ${(error as Error).message}`);
+    }
+    if (publicKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Only Ed25519 keys are supported, got ${publicKey.asymmetricKeyType}`);
+    }
+
+    return this.addKey(publisher, publicKey, 'imported');
+  }
+
+  /**
+   * Stop trusting a key. Integrations it signed are quarantined the next
+   * time they are loaded.
+   */
+  async revokeKey(keyId: string): Promise<boolean> {
+    const keys = await this.load();
+    if (!keys.delete(keyId)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * The local signing key, generated and trusted on first use
+   */
+  async getSigningKey(publisher: string = 'local'): Promise<MCPSigningKey> {
+    const keyPath = path.join(this.directory, SIGNING_KEY_FILE);
+    let privateKey: crypto.KeyObject;
+
+    try {
+      privateKey = crypto.createPrivateKey(await fs.readFile(keyPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      privateKey = crypto.generateKeyPairSync('ed25519').privateKey;
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(
+        keyPath,
+        privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+        { mode: 0o600 }
+      );
+    }
+
+    const publicKey = crypto.createPublicKey(privateKey);
+    const trusted = await this.getKey(MCPKeyring.fingerprint(publicKey))
+      || await this.addKey(publisher, publicKey, 'local');
+    return { keyId: trusted.keyId, publisher: trusted.publisher, privateKey, publicKey: trusted.publicKey };
+  }
+
+  /**
+   * Sign an arbitrary payload, by default with the local key
+   */
+  async sign(payload: string, signingKey?: MCPSigningKey): Promise<MCPIntegrationSignature> {
+    const key = signingKey || await this.getSigningKey();
+    return {
+      algorithm: 'ed25519',
+      keyId: key.keyId,
+      publisher: key.publisher,
+      value: crypto.sign(null, Buffer.from(payload), key.privateKey).toString('base64'),
+      signedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Check a payload's signature against the trusted keys; subject names
+   * what was signed in the reasons
+   */
+  async verify(
+    payload: string,
+    signature: MCPIntegrationSignature | undefined,
+    subject: string
+  ): Promise<MCPSignatureCheck> {
+    if (!signature) {
+      return { status: 'unsigned', reason: `${subject} is not signed` };
+    }
+    if (signature.algorithm !== 'ed25519' || typeof signature.value !== 'string') {
+      return { status: 'invalid', keyId: signature.keyId, reason: 'Unsupported signature format' };
+    }
+    const trusted = await this.getKey(signature.keyId);
+    if (!trusted) {
+      return {
+        status: 'untrusted',
+        keyId: signature.keyId,
+        publisher: signature.publisher,
+        reason: `Signing key ${signature.keyId} is not in the keyring`
+      };
+    }
+    let valid = false;
+    try {
+      valid = crypto.verify(null, Buffer.from(payload), trusted.publicKey, Buffer.from(signature.value, 'base64'));
+    } catch {
+      valid = false;
+    }
+    return valid
+      ? { status: 'valid', keyId: trusted.keyId, publisher: trusted.publisher }
+      : { status: 'invalid', keyId: signature.keyId, reason: `Signature does not match the ${subject.toLowerCase()} content` };
+  }
+
+  private async addKey(
+    publisher: string,
+    publicKey: crypto.KeyObject,
+    source: MCPTrustedKey['source']
+  ): Promise<MCPTrustedKey> {
+    const keys = await this.load();
+    const keyId = MCPKeyring.fingerprint(publicKey);
+    const key: MCPTrustedKey = {
+      keyId,
+      publisher,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+      addedAt: keys.get(keyId)?.addedAt || new Date().toISOString(),
+      source
+    };
+    keys.set(keyId, key);
+    await this.save();
+    return key;
+  }
+
+  private async load(): Promise<Map<string, MCPTrustedKey>> {
+    if (this.keys) return this.keys;
+
+    try {
+      const content = await fs.readFile(path.join(this.directory, KEYRING_FILE), 'utf-8');
+      const file: KeyringFile = JSON.parse(content);
+      this.keys = new Map(file.keys.map(key => [key.keyId, key]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read MCP keyring: ${(error as Error).message}`);
+      }
+      this.keys = new Map();
+    }
+    return this.keys;
+  }
+
+  private async save(): Promise<void> {
+    const file: KeyringFile = { version: 1, keys: Array.from((await this.load()).values()) };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, KEYRING_FILE), JSON.stringify(file, null, 2));
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * MCP Protocol Handler
+ *
+ * Answers MCP JSON-RPC 2.0 messages from the integration registry, so
+ * standard MCP hosts can list and call SessionHub integration tools.
+ * Transport-agnostic; the stdio and streamable HTTP transports feed it.
+ */
+import { EventEmitter } from 'events';
+import { MCPIntegrationRegistry } from './MCPIntegrationRegistry';
+import { MCPRequestHandler } from './MCPRequestHandler';
+import {
+  JsonRpcFailure,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MCPIntegration,
+  MCPServerInfo,
+  MCPTool
+} from './types';
+
+// Newest first; the first entry is offered when a client asks for another
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  FORBIDDEN: -32001,
+  RESOURCE_NOT_FOUND: -32002
+} as const;
+
+const RESOURCE_PREFIX = 'sessionhub://integrations/';
+
+export class MCPProtocolError extends Error {
+  constructor(message: string, public code: number, public data?: any) {
+    super(message);
+    this.name = 'MCPProtocolError';
+  }
+}
+
+// Limits what one caller may list and call; stdio hosts are trusted
+export interface MCPProtocolAccess {
+  canExecute(integrationId: string): boolean;
+}
+
+interface ResolvedTool {
+  integration: MCPIntegration;
+  tool: MCPTool;
+}
+
+export class MCPProtocolHandler extends EventEmitter {
+  private registry: MCPIntegrationRegistry;
+  private requestHandler: MCPRequestHandler;
+  private serverInfo: MCPServerInfo;
+  private readonly onRegistryChange = () => {
+    for (const list of ['tools', 'resources', 'prompts']) {
+      this.emit('notification', { jsonrpc: '2.0', method: `notifications/${list}/list_changed` });
+    }
+  };
+
+  constructor(
+    registry: MCPIntegrationRegistry,
+    requestHandler: MCPRequestHandler,
+    serverInfo: MCPServerInfo
+  ) {
+    super();
+    this.registry = registry;
+    this.requestHandler = requestHandler;
+    this.serverInfo = serverInfo;
+    for (const event of ['integration:registered', 'integration:unregistered', 'integration:updated']) {
+      this.registry.on(event, this.onRegistryChange);
+    }
+  }
+
+  /**
+   * Handle one parsed message. Resolves with the response, or undefined
+   * for notifications and client responses, which are not answered.
+   */
+  async handle(message: unknown, access?: MCPProtocolAccess): Promise<JsonRpcResponse | undefined> {
+    if (!this.isRequest(message)) {
+      // Responses to server requests carry result or error and no method
+      const candidate = message as Record<string, unknown> | null;
+      if (candidate?.['jsonrpc'] === '2.0' && ('result' in candidate || 'error' in candidate)) {
+        return undefined;
+      }
+      return this.failure(null, new MCPProtocolError('Invalid JSON-RPC request', JSON_RPC_ERRORS.INVALID_REQUEST));
+    }
+
+    const isNotification = message.id === undefined;
+    try {
+      const result = await this.dispatch(message.method, message.params || {}, access);
+      if (isNotification) return undefined;
+      return { jsonrpc: '2.0', id: message.id as JsonRpcId, result };
+    } catch (error) {
+      if (isNotification) return undefined;
+      return this.failure(message.id as JsonRpcId, error);
+    }
+  }
+
+  /**
+   * Handle a raw message body, which may be a single message or a batch
+   */
+  async handleRaw(raw: string, access?: MCPProtocolAccess): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return this.failure(null, new MCPProtocolError('Parse error', JSON_RPC_ERRORS.PARSE_ERROR));
+    }
+    return this.handleParsed(parsed, access);
+  }
+
+  async handleParsed(
+    parsed: unknown,
+    access?: MCPProtocolAccess
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (!Array.isArray(parsed)) {
+      return this.handle(parsed, access);
+    }
+    if (parsed.length === 0) {
+      return this.failure(null, new MCPProtocolError('Empty batch', JSON_RPC_ERRORS.INVALID_REQUEST));
+    }
+    const responses = (await Promise.all(parsed.map(message => this.handle(message, access))))
+      .filter((response): response is JsonRpcResponse => response !== undefined);
+    return responses.length > 0 ? responses : undefined;
+  }
+
+  /**
+   * Stop forwarding registry changes as notifications
+   */
+  dispose(): void {
+    for (const event of ['integration:registered', 'integration:unregistered', 'integration:updated']) {
+      this.registry.off(event, this.onRegistryChange);
+    }
+    this.removeAllListeners();
+  }
+
+  private async dispatch(
+    method: string,
+    params: Record<string, any>,
+    access?: MCPProtocolAccess
+  ): Promise<Record<string, any>> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'ping':
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'tools/list':
+        return {
+          tools: (await this.listTools(access)).map(({ integration, tool }) => this.describeTool(integration, tool))
+        };
+      case 'tools/call':
+        return this.callTool(params, access);
+      case 'resources/list':
+        return { resources: (await this.registry.listIntegrations()).map(i => this.describeResource(i)) };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: [{
+            uriTemplate: `${RESOURCE_PREFIX}{id}`,
+            name: 'Integration',
+            description: 'Definition of a SessionHub integration and its tools',
+            mimeType: 'application/json'
+          }]
+        };
+      case 'resources/read':
+        return this.readResource(params);
+      case 'prompts/list':
+        return { prompts: (await this.registry.listIntegrations()).map(i => this.describePrompt(i)) };
+      case 'prompts/get':
+        return this.getPrompt(params);
+      default:
+        throw new MCPProtocolError(`Method not found: ${method}`, JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+    }
+  }
+
+  private initialize(params: Record<string, any>): Record<string, any> {
+    const requested = params['protocolVersion'];
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    return {
+      protocolVersion,
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true }
+      },
+      serverInfo: this.serverInfo,
+      instructions: 'Tools are named <integration>__<tool>, e.g. github__createIssue.'
+    };
+  }
+
+  private async callTool(params: Record<string, any>, access?: MCPProtocolAccess): Promise<Record<string, any>> {
+    const name = params['name'];
+    if (typeof name !== 'string') {
+      throw new MCPProtocolError('tools/call requires a tool name', JSON_RPC_ERRORS.INVALID_PARAMS);
+    }
+    const resolved = (await this.listTools()).find(({ integration, tool }) => this.toolName(integration, tool) === name);
+    if (!resolved) {
+      throw new MCPProtocolError(`Unknown tool: ${name}`, JSON_RPC_ERRORS.INVALID_PARAMS);
+    }
+    if (access && !access.canExecute(resolved.integration.id as string)) {
+      throw new MCPProtocolError(`Not allowed to call ${name}`, JSON_RPC_ERRORS.FORBIDDEN);
+    }
+
+    const result = await this.requestHandler.executeToolCall(
+      resolved.integration.id as string,
+      resolved.tool.name,
+      params['arguments'] || {}
+    );
+
+    // Tool failures are results the model can see, not protocol errors
+    if (!result.success) {
+      return {
+        content: [{ type: 'text', text: result.error?.message || 'Tool execution failed' }],
+        // Validation failures carry the failing paths in error.details
+        ...(result.error ? { structuredContent: { error: result.error } } : {}),
+        isError: true
+      };
+    }
+
+    const data = result.data;
+    return {
+      content: [{ type: 'text', text: typeof data === 'string' ? data : JSON.stringify(data ?? null) }],
+      ...(data && typeof data === 'object' && !Array.isArray(data) ? { structuredContent: data } : {}),
+      isError: false
+    };
+  }
+
+  private async readResource(params: Record<string, any>): Promise<Record<string, any>> {
+    const uri = params['uri'];
+    if (typeof uri !== 'string') {
+      throw new MCPProtocolError('resources/read requires a uri', JSON_RPC_ERRORS.INVALID_PARAMS);
+    }
+    const integration = uri.startsWith(RESOURCE_PREFIX)
+      ? await this.registry.getIntegration(uri.slice(RESOURCE_PREFIX.length))
+      : undefined;
+    if (!integration) {
+      throw new MCPProtocolError(`Resource not found: ${uri}`, JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, { uri });
+    }
+
+    // Integration config can hold credentials; it never leaves the server
+    const { config: _config, signature: _signature, ...definition } = integration;
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(definition, null, 2) }]
+    };
+  }
+
+  private async getPrompt(params: Record<string, any>): Promise<Record<string, any>> {
+    const name = params['name'];
+    const integration = (await this.registry.listIntegrations()).find(i => this.promptName(i) === name);
+    if (!integration) {
+      throw new MCPProtocolError(`Unknown prompt: ${name}`, JSON_RPC_ERRORS.INVALID_PARAMS);
+    }
+    const task = params['arguments']?.['task'];
+    if (typeof task !== 'string' || !task) {
+      throw new MCPProtocolError('Missing required argument: task', JSON_RPC_ERRORS.INVALID_PARAMS);
+    }
+
+    const tools = integration.tools
+      .map(tool => `- ${this.toolName(integration, tool)}: ${tool.description}`)
+      .join('\n');
+    return {
+      description: `Use the ${integration.name} integration`,
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Use the ${integration.name} integration to complete this task: ${task}\n\nAvailable tools:\n${tools}`
+        }
+      }]
+    };
+  }
+
+  private async listTools(access?: MCPProtocolAccess): Promise<ResolvedTool[]> {
+    const integrations = await this.registry.listIntegrations();
+    return integrations
+      .filter(integration => integration.id && (!access || access.canExecute(integration.id)))
+      .flatMap(integration => integration.tools.map(tool => ({ integration, tool })));
+  }
+
+  private describeTool(integration: MCPIntegration, tool: MCPTool): Record<string, any> {
+    return {
+      name: this.toolName(integration, tool),
+      title: `${integration.name}: ${tool.name}`,
+      description: tool.description,
+      inputSchema: { ...tool.inputSchema, type: 'object' },
+      ...(tool.outputSchema?.type === 'object' ? { outputSchema: tool.outputSchema } : {})
+    };
+  }
+
+  private describeResource(integration: MCPIntegration): Record<string, any> {
+    return {
+      uri: `${RESOURCE_PREFIX}${integration.id}`,
+      name: integration.name,
+      description: integration.description,
+      mimeType: 'application/json'
+    };
+  }
+
+  private describePrompt(integration: MCPIntegration): Record<string, any> {
+    return {
+      name: this.promptName(integration),
+      description: `Complete a task with the ${integration.name} integration`,
+      arguments: [{ name: 'task', description: 'What to accomplish', required: true }]
+    };
+  }
+
+  private promptName(integration: MCPIntegration): string {
+    return `use-${this.slug(integration.name)}`;
+  }
+
+  /**
+   * Tool names are unique per integration only, so MCP names carry the
+   * integration as a prefix
+   */
+  private toolName(integration: MCPIntegration, tool: MCPTool): string {
+    return `${this.slug(integration.name)}__${tool.name}`;
+  }
+
+  private slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private isRequest(message: unknown): message is JsonRpcRequest {
+    const candidate = message as Partial<JsonRpcRequest> | null;
+    return candidate?.jsonrpc === '2.0' &&
+      typeof candidate.method === 'string' &&
+      (candidate.id === undefined || typeof candidate.id === 'string' || typeof candidate.id === 'number');
+  }
+
+  private failure(id: JsonRpcId | null, error: unknown): JsonRpcFailure {
+    const protocolError = error instanceof MCPProtocolError
+      ? error
+      : new MCPProtocolError((error as Error)?.message || 'Internal error', JSON_RPC_ERRORS.INTERNAL_ERROR);
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: protocolError.code,
+        message: protocolError.message,
+        ...(protocolError.data !== undefined ? { data: protocolError.data } : {})
+      }
+    };
+  }
+}
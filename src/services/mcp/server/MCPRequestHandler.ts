@@ -2,16 +2,20 @@
  * MCP Request Handler
  * 
  * Handles execution of MCP tool calls with proper error handling,
- * rate limiting, and metrics collection.
+ * rate limiting, and metrics collection. Each tool runs its handler
+ * module in the sandbox worker, with input and output checked against
+ * the tool's schemas.
  */
+import Ajv, { ValidateFunction } from 'ajv';
 import { MCPIntegrationRegistry } from './MCPIntegrationRegistry';
 import { MCPSecurityManager } from './MCPSecurityManager';
+import { MCPToolError, MCPToolModuleLoader } from './MCPToolModuleLoader';
 import { 
   MCPExecutionContext, 
   MCPExecutionResult, 
   MCPError,
   MCPExecutionMetrics,
-  MCPTool,
+  MCPSchema,
   MCPRateLimit
 } from './types';
 interface RateLimitEntry {
@@ -22,26 +26,21 @@ export class MCPRequestHandler {
   private registry: MCPIntegrationRegistry;
   private security: MCPSecurityManager;
   private rateLimits: Map<string, RateLimitEntry>;
-  private executionHandlers: Map<string, Function>;
+  private modules: MCPToolModuleLoader;
+  private ajv: Ajv;
+  // Compiled validators, keyed by the schema object of the tool
+  private validators: WeakMap<MCPSchema, ValidateFunction>;
   constructor(
     registry: MCPIntegrationRegistry,
-    security: MCPSecurityManager
+    security: MCPSecurityManager,
+    modules: MCPToolModuleLoader = new MCPToolModuleLoader(id => registry.getPackagePath(id))
   ) {
     this.registry = registry;
     this.security = security;
     this.rateLimits = new Map();
-    this.executionHandlers = new Map();
-    this.setupCoreHandlers();
-  }
-  private setupCoreHandlers(): void {
-    // Register handlers for core integrations
-    this.registerHandler('GitHub', this.createGitHubHandler());
-    this.registerHandler('Linear', this.createLinearHandler());
-    this.registerHandler('Figma', this.createFigmaHandler());
-    this.registerHandler('Zapier', this.createZapierHandler());
-  }
-  registerHandler(integrationName: string, handler: Function): void {
-    this.executionHandlers.set(integrationName, handler);
+    this.modules = modules;
+    this.ajv = new Ajv({ allErrors: true, strict: false });
+    this.validators = new WeakMap();
   }
   async executeToolCall(
     integrationId: string,
@@ -69,30 +68,16 @@ export class MCPRequestHandler {
       // Check rate limits
       this.checkRateLimit(integrationId, toolName, tool.rateLimit);
       // Validate input
-      this.validateInput(params, tool);
-      // Check permissions
-      if (params._requiresPermission) {
-        const permission = params._requiresPermission;
-        if (!this.security.checkPermission(integration, permission)) {
-          throw new Error(`Permission denied: ${permission}`);
-        }
-      }
-      // Execute tool
-      let result: any;
-      const handler = this.executionHandlers.get(integration.name);
-      if (handler) {
-        // Use custom handler
-        result = await handler(toolName, params, context);
-      } else if (integration.sandboxConfig) {
-        // Execute in sandbox
-        result = await this.executeInSandbox(integration, tool, params);
-      } else {
-        // Default execution
-        result = await this.defaultExecute(integration, tool, params);
-      }
+      this.validate(params, tool.inputSchema, 'INVALID_INPUT', toolName);
+      // Execute tool module in the sandbox
+      const module = await this.modules.load(integration, tool);
+      const result = await this.security.executeToolModule(module, integration, {
+        ...context,
+        config: integration.config || {}
+      });
       // Validate output
       if (tool.outputSchema) {
-        this.validateOutput(result, tool);
+        this.validate(result, tool.outputSchema, 'INVALID_OUTPUT', toolName);
       }
       const endTime = Date.now();
       const metrics: MCPExecutionMetrics = {
@@ -147,185 +132,25 @@ export class MCPRequestHandler {
     }
     entry.count++;
   }
-  private validateInput(params: any, tool: MCPTool): void {
-    const schema = tool.inputSchema;
-    if (schema.type === 'object') {
-      // Check required fields
-      if (schema.required) {
-        for (const field of schema.required) {
-          if (!(field in params)) {
-            throw new Error(`Missing required field: ${field}`);
-          }
-        }
-      }
-      // Validate properties
-      if (schema.properties) {
-        for (const [key, prop] of Object.entries(schema.properties)) {
-          if (key in params) {
-            this.validateProperty(params[key], prop, key);
-          }
-        }
-      }
-    }
-  }
-  private validateProperty(value: any, schema: any, name: string): void {
-    // Type validation
-    const actualType = Array.isArray(value) ? 'array' : typeof value;
-    if (schema.type && actualType !== schema.type) {
-      throw new Error(`Invalid type for ${name}: expected ${schema.type}, got ${actualType}`);
+  private validate(value: any, schema: MCPSchema, code: 'INVALID_INPUT' | 'INVALID_OUTPUT', toolName: string): void {
+    let validator = this.validators.get(schema);
+    if (!validator) {
+      validator = this.ajv.compile(schema);
+      this.validators.set(schema, validator);
     }
-    // Enum validation
-    if (schema.enum && !schema.enum.includes(value)) {
-      throw new Error(`Invalid value for ${name}: must be one of ${schema.enum.join(', ')}`);
-    }
-    // Number validations
-    if (schema.type === 'number') {
-      if (schema.minimum !== undefined && value < schema.minimum) {
-        throw new Error(`Value for ${name} must be >= ${schema.minimum}`);
-      }
-      if (schema.maximum !== undefined && value > schema.maximum) {
-        throw new Error(`Value for ${name} must be <= ${schema.maximum}`);
-      }
-    }
-    // String pattern validation
-    if (schema.type === 'string' && schema.pattern) {
-      const regex = new RegExp(schema.pattern);
-      if (!regex.test(value)) {
-        throw new Error(`Value for ${name} does not match pattern: ${schema.pattern}`);
-      }
-    }
-  }
-  private validateOutput(output: any, tool: MCPTool): void {
-    // Similar to input validation but for output
-    if (!tool.outputSchema) return;
-    // Basic type checking
-    const actualType = Array.isArray(output) ? 'array' : typeof output;
-    if (tool.outputSchema.type && actualType !== tool.outputSchema.type) {
-    }
-  }
-  private async executeInSandbox(
-    integration: any,
-    tool: MCPTool,
-    params: any
-  ): Promise<any> {
-    // Execute in sandboxed environment
-    const code = `
-      // Sandboxed execution for ${tool.name}
-      const result = await executeToolInSandbox(params);
-      return result;
-    `;
-    return this.security.executeInSandbox(
+    if (validator(value)) return;
+    const errors = (validator.errors || []).map(error => ({
+      path: error.instancePath || '/',
+      message: error.message || 'is invalid',
+      keyword: error.keyword
+    }));
+    const what = code === 'INVALID_INPUT' ? 'Invalid input for' : 'Invalid output from';
+    throw new MCPToolError(
+      `${what} ${toolName}: ${errors.map(error => `${error.path} ${error.message}`).join('; ')}`,
       code,
-      { params, tool },
-      integration.sandboxConfig
+      { errors }
     );
   }
-  private async defaultExecute(
-    _integration: any,
-    tool: MCPTool,
-    params: any
-  ): Promise<any> {
-    // Default mock implementation
-    // Return mock data based on tool
-    switch (tool.name) {
-      case 'listRepositories':
-        return {
-          repositories: [
-            { id: 1, name: 'sessionhub-v2', description: 'Main repository' }
-          ]
-        };
-      case 'createIssue':
-        return {
-          id: Math.floor(Math.random() * 1000),
-          title: params.title,
-          body: params.body || '',
-          state: 'open',
-          created_at: new Date().toISOString()
-        };
-      default:
-        return { success: true, tool: tool.name, params };
-    }
-  }
-  // Handler implementations for core integrations
-  private createGitHubHandler(): Function {
-    return async (toolName: string, params: any) => {
-      switch (toolName) {
-        case 'listRepositories':
-          // In production, this would use the GitHub API
-          return {
-            repositories: [
-              { id: 1, name: 'sessionhub-v2', stars: 100 },
-              { id: 2, name: 'mcp-server', stars: 50 }
-            ],
-            page: params.page || 1,
-            total: 2
-          };
-        case 'createIssue':
-          return {
-            id: Date.now(),
-            number: Math.floor(Math.random() * 1000),
-            title: params.title,
-            body: params.body,
-            state: 'open',
-            html_url: `https://github.com/${params.repo}/issues/${Date.now()}`
-          };
-        default:
-          throw new Error(`Unknown GitHub tool: ${toolName}`);
-      }
-    };
-  }
-  private createLinearHandler(): Function {
-    return async (toolName: string, params: any) => {
-      switch (toolName) {
-        case 'listIssues':
-          return {
-            issues: [
-              { id: '1', title: 'Implement MCP Server', state: 'in_progress' }
-            ]
-          };
-        case 'createIssue':
-          return {
-            id: Date.now().toString(),
-            title: params.title,
-            description: params.description,
-            state: 'backlog'
-          };
-        default:
-          throw new Error(`Unknown Linear tool: ${toolName}`);
-      }
-    };
-  }
-  private createFigmaHandler(): Function {
-    return async (toolName: string, params: any) => {
-      switch (toolName) {
-        case 'getFile':
-          return {
-            name: 'Design System',
-            lastModified: new Date().toISOString(),
-            version: '1.0.0',
-            pages: []
-          };
-        case 'exportComponents':
-          return {
-            components: [],
-            format: params.format,
-            exported: 0
-          };
-        default:
-          throw new Error(`Unknown Figma tool: ${toolName}`);
-      }
-    };
-  }
-  private createZapierHandler(): Function {
-    return async (toolName: string, params: any) => {
-      return {
-        success: true,
-        tool: toolName,
-        integration: 'Zapier',
-        params
-      };
-    };
-  }
   // Cleanup old rate limit entries
   cleanupRateLimits(): void {
     const now = Date.now();
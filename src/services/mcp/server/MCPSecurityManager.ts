@@ -4,18 +4,90 @@
  * Handles security, sandboxing, and permission management
  * for MCP integrations to ensure safe execution.
  */
-import { Worker } from 'worker_threads';
-import * as crypto from 'crypto';
-import * as vm from 'vm';
-import { MCPIntegration, MCPSecurityConfig, MCPPermission, MCPSandboxConfig } from './types';
+import { EventEmitter } from 'events';
+import { ChildProcess, spawn } from 'child_process';
+import {
+  MCPIntegration,
+  MCPIntegrationManifest,
+  MCPSecurityConfig,
+  MCPCapability,
+  MCPPermission,
+  MCPPermissionViolation,
+  MCPSandboxConfig,
+  MCPSignatureCheck
+} from './types';
+import { MCPKeyring, MCPSigningKey } from './MCPKeyring';
+import { MCPToolError, MCPToolModule } from './MCPToolModuleLoader';
 import * as path from 'path';
-export class MCPSecurityManager {
+export class MCPSignatureError extends Error {
+  constructor(
+    message: string,
+    public code: 'SIGNATURE_MISSING' | 'SIGNATURE_INVALID' | 'UNTRUSTED_KEY',
+    public integrationId?: string
+  ) {
+    super(message);
+    this.name = 'MCPSignatureError';
+  }
+}
+/**
+ * Canonical JSON of the signed manifest content: keys sorted, undefined
+ * dropped. Host-managed fields are excluded so installing an integration
+ * does not invalidate its signature: the ID, user config, and the
+ * sandbox settings and rate limits applied after verification. Tools
+ * never run with the stored sandbox settings; the host derives them again.
+ */
+export function canonicalManifestPayload(manifest: MCPIntegrationManifest): string {
+  const {
+    id: _id,
+    signature: _signature,
+    config: _config,
+    sandboxConfig: _sandboxConfig,
+    ...integration
+  } = manifest.integration;
+  const installation = manifest.installation || { files: [] };
+  return canonicalJson({
+    integration: {
+      ...integration,
+      tools: integration.tools.map(({ rateLimit: _rateLimit, ...tool }) => tool)
+    },
+    installation: {
+      ...installation,
+      files: installation.files || [],
+      dependencies: installation.dependencies || []
+    }
+  });
+}
+/**
+ * JSON with sorted keys, so signed payloads serialize the same everywhere
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+// Capabilities as the sandbox worker receives them; null when the
+// matching permission is not declared
+interface SandboxGrants {
+  fs: { root: string; read: string[]; write: string[] } | null;
+  network: string[] | null;
+  env: Record<string, string>;
+  subprocess: string[] | null;
+}
+export class MCPSecurityManager extends EventEmitter {
   private config: MCPSecurityConfig;
-  private trustedSignatures: Set<string>;
+  private keyring: MCPKeyring;
   // private sandboxCache: Map<string, vm.Context>; // Unused for now
-  constructor(config: MCPSecurityConfig) {
+  constructor(config: MCPSecurityConfig, keyring: MCPKeyring = new MCPKeyring()) {
+    super();
     this.config = config;
-    this.trustedSignatures = new Set();
+    this.keyring = keyring;
     // this.sandboxCache = new Map(); // Unused for now
   }
   async validateIntegration(integration: MCPIntegration): Promise<void> {
@@ -33,13 +105,9 @@ export class MCPSecurityManager {
     }
     // Validate permissions
     this.validatePermissions(integration.permissions);
-    // Validate signature if required
-    if (this.config.requireSignature && !integration.signature) {
-      throw new Error('Integration signature required but not provided');
-    }
-    if (integration.signature && !this.verifySignature(integration)) {
-      throw new Error('Invalid integration signature');
-    }
+    this.validateCapabilities(integration);
+    // Signatures cover the whole manifest; the registry verifies them and
+    // quarantines failures
     // Check for suspicious patterns
     this.scanForSuspiciousPatterns(integration);
   }
@@ -59,6 +127,22 @@ export class MCPSecurityManager {
     if (hasDangerous.length > 1) {
     }
   }
+  private validateCapabilities(integration: MCPIntegration): void {
+    const { capabilities = {}, permissions } = integration;
+    const required: Record<Exclude<MCPCapability, 'env'>, MCPPermission> = {
+      fs: 'filesystem',
+      network: 'network',
+      subprocess: 'process'
+    };
+    for (const [capability, permission] of Object.entries(required)) {
+      if (capabilities[capability as keyof typeof required] && !permissions.includes(permission)) {
+        throw new Error(`Capability ${capability} requires the ${permission} permission`);
+      }
+    }
+    if (capabilities.network?.hosts.some(host => !/^[a-z0-9.-]+$/i.test(host))) {
+      throw new Error('Network capability hosts must be bare host names');
+    }
+  }
   private scanForSuspiciousPatterns(integration: MCPIntegration): void {
     const suspicious = [
       'eval', 'Function', 'require', 'import',
@@ -120,135 +204,160 @@ export class MCPSecurityManager {
       // Execute without sandbox (development mode)
       return new Function('context', code)(context);
     }
-    return new Promise((resolve, reject) => {
-      // Create worker for isolated execution
-      const workerPath = path.join(__dirname, 'sandbox-worker.js');
-      const worker = new Worker(workerPath, {
-        workerData: {
-          code,
-          context,
-          config
+    return this.runWorker({ code, context, config }, config.timeout || 30000);
+  }
+  /**
+   * Run a tool module in the sandbox worker. Tool modules always get a
+   * sandbox process, whatever enableSandbox says, and see only the capabilities
+   * their manifest grants. Refused uses are emitted as
+   * 'permission:violation' events.
+   */
+  async executeToolModule(
+    module: MCPToolModule,
+    integration: MCPIntegration,
+    context: Record<string, any>
+  ): Promise<any> {
+    // Derived here rather than read from the stored integration: sandbox
+    // settings are not signed, so a stored copy could have been widened
+    const config = this.createSandboxConfig(integration);
+    const onViolation = (denied: Pick<MCPPermissionViolation, 'capability' | 'target' | 'reason'>) => {
+      const violation: MCPPermissionViolation = {
+        integrationId: integration.id || '',
+        integrationName: integration.name,
+        tool: String(context['tool'] || ''),
+        ...denied,
+        timestamp: new Date().toISOString()
+      };
+      this.emit('permission:violation', violation);
+    };
+    return this.runWorker(
+      { module, context, config, grants: this.resolveGrants(module, integration, config) },
+      config.timeout || this.config.maxExecutionTime || 30000,
+      onViolation
+    );
+  }
+  /**
+   * Turn the manifest's capabilities into what the worker hands the
+   * module. Anything without its permission declared is left out.
+   */
+  private resolveGrants(module: MCPToolModule, integration: MCPIntegration, config: MCPSandboxConfig): SandboxGrants {
+    const { permissions, capabilities = {} } = integration;
+    const resolvePaths = (paths: string[]) => paths.map(entry => path.resolve(module.root, entry));
+    const env: Record<string, string> = { ...(config.env || {}) };
+    for (const name of capabilities.env || []) {
+      const value = process.env[name];
+      if (value !== undefined) env[name] = value;
+    }
+    const hosts = capabilities.network?.hosts || config.allowedHosts || this.config.allowedDomains;
+    return {
+      fs: permissions.includes('filesystem')
+        ? {
+          root: module.root,
+          read: resolvePaths(capabilities.fs?.read || ['.']),
+          write: resolvePaths(capabilities.fs?.write || [])
         }
-      });
-      // Set timeout
-      const timeout = setTimeout(() => {
-        worker.terminate();
-        reject(new Error('Execution timeout'));
-      }, config.timeout || 30000);
-      worker.on('message', (result) => {
+        : null,
+      network: permissions.includes('network')
+        ? hosts.filter(host => !this.config.blockedDomains.some(blocked => host === blocked || host.endsWith(`.${blocked}`)))
+        : null,
+      env,
+      subprocess: permissions.includes('process') ? capabilities.subprocess?.commands || [] : null
+    };
+  }
+  /**
+   * Run a job in a sandbox-worker.js child process under Node's permission
+   * model: it may only read the worker script and the granted paths,
+   * write the granted paths, and start subprocesses when one is granted.
+   * Its environment holds nothing but the granted variables.
+   */
+  private runWorker(
+    workerData: Record<string, any>,
+    timeoutMs: number,
+    onViolation?: (violation: Pick<MCPPermissionViolation, 'capability' | 'target' | 'reason'>) => void
+  ): Promise<any> {
+    const nodePath = this.config.nodePath || process.execPath;
+    if (!this.config.nodePath && !process.allowedNodeEnvironmentFlags.has('--experimental-permission')) {
+      return Promise.reject(new MCPToolError(
+        `Node.js ${process.version} has no permission model; set security.nodePath to a Node.js 20+ binary to run sandboxed code`,
+        'SANDBOX_ERROR'
+      ));
+    }
+    const workerPath = path.join(__dirname, 'sandbox-worker.js');
+    const grants: SandboxGrants | undefined = workerData['grants'];
+    const config: MCPSandboxConfig = workerData['config'];
+    const args = ['--experimental-permission', '--no-warnings', `--allow-fs-read=${workerPath}`];
+    for (const granted of grants?.fs?.read || []) args.push(`--allow-fs-read=${granted}`);
+    for (const granted of grants?.fs?.write || []) args.push(`--allow-fs-write=${granted}`);
+    if (grants?.subprocess) args.push('--allow-child-process');
+    if (config.memory) args.push(`--max-old-space-size=${Math.max(16, Math.floor(config.memory / (1024 * 1024)))}`);
+    const env: Record<string, string> = { ...(grants?.env || config.env || {}), ELECTRON_RUN_AS_NODE: '1' };
+    if (grants?.subprocess && process.env['PATH']) env['PATH'] = process.env['PATH'];
+
+    return new Promise((resolve, reject) => {
+      const child: ChildProcess = spawn(nodePath, [...args, workerPath], { env: env as NodeJS.ProcessEnv, stdio: ['ignore', 'ignore', 'pipe', 'ipc'] });
+      let stderr = '';
+      let settled = false;
+      const finish = (error: Error | null, data?: any) => {
+        if (settled) return;
+        settled = true;
         clearTimeout(timeout);
+        if (error) reject(error);
+        else resolve(data);
+      };
+      const timeout = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish(new Error('Execution timeout'));
+      }, timeoutMs);
+      child.stderr?.on('data', chunk => {
+        stderr = (stderr + chunk).slice(-2000);
+      });
+      child.on('message', (result: any) => {
+        if (result.violation) {
+          onViolation?.(result.violation);
+          return;
+        }
         if (result.error) {
-          reject(new Error(result.error));
+          finish(Object.assign(new Error(result.error), result.code ? { code: result.code } : {}));
         } else {
-          resolve(result.data);
+          finish(null, result.data);
         }
       });
-      worker.on('error', (error) => {
-        clearTimeout(timeout);
-        reject(error);
-      });
-      worker.on('exit', (code) => {
-        if (code !== 0) {
-          reject(new Error(`Worker stopped with exit code ${code}`));
-        }
+      child.on('error', error => finish(error));
+      child.on('close', code => {
+        const detail = stderr.trim().split('\n').pop();
+        finish(new MCPToolError(`Sandbox stopped with exit code ${code}${detail ? `: ${detail}` : ''}`, 'SANDBOX_ERROR'));
       });
+      child.send(workerData);
     });
   }
-  createSecureContext(permissions: MCPPermission[]): vm.Context {
-    const sandbox = {
-      console: {
-// REMOVED: console statement
-// REMOVED: console statement
-// REMOVED: console statement
-// REMOVED: console statement
-      },
-      setTimeout,
-      setInterval,
-      clearTimeout,
-      clearInterval,
-      Promise,
-      Date,
-      Math,
-      JSON,
-      Object: {
-        keys: Object.keys,
-        values: Object.values,
-        entries: Object.entries,
-        assign: Object.assign
-      },
-      Array: {
-        isArray: Array.isArray,
-        from: Array.from
-      }
-    };
-    // Add permitted features based on permissions
-    if (permissions.includes('network')) {
-      // Add fetch API with domain restrictions
-      (sandbox as any).fetch = this.createSecureFetch();
-    }
-    if (permissions.includes('filesystem')) {
-      // Add limited filesystem access
-      (sandbox as any).fs = this.createSecureFs();
-    }
-    return vm.createContext(sandbox);
-  }
-  private createSecureFetch(): typeof fetch {
-    return async (input: RequestInfo | URL, options?: RequestInit) => {
-      const url = typeof input === 'string' ? input : input.toString();
-      const parsedUrl = new URL(url);
-      // Check allowed domains
-      const isAllowed = this.config.allowedDomains.some(domain => 
-        parsedUrl.hostname.endsWith(domain)
-      );
-      // Check blocked domains
-      const isBlocked = this.config.blockedDomains.some(domain =>
-        parsedUrl.hostname.endsWith(domain)
-      );
-      if (!isAllowed || isBlocked) {
-        throw new Error(`Access to ${parsedUrl.hostname} is not allowed`);
-      }
-      // Perform actual fetch
-      return fetch(url, options);
-    };
+  getKeyring(): MCPKeyring {
+    return this.keyring;
   }
-  private createSecureFs(): any {
-    // Return a minimal, read-only filesystem API
-    return {
-      readFile: async (path: string) => {
-        // Only allow reading from specific directories
-        if (!path.startsWith('/tmp/mcp/')) {
-          throw new Error('Access denied');
-        }
-        // Actual implementation would read the file
-        return '';
-      }
-    };
-  }
-  signIntegration(integration: MCPIntegration, privateKey: string): string {
-    const data = JSON.stringify({
-      name: integration.name,
-      version: integration.version,
-      author: integration.author,
-      tools: integration.tools
-    });
-    const sign = crypto.createSign('SHA256');
-    sign.update(data);
-    sign.end();
-    return sign.sign(privateKey, 'hex');
+  requiresSignature(): boolean {
+    return this.config.requireSignature;
   }
-  verifySignature(integration: MCPIntegration): boolean {
-    if (!integration.signature) {
-      return false;
-    }
-    // In production, this would verify against known public keys
-    // For now, we'll accept signatures from trusted sources
-    return this.trustedSignatures.has(integration.signature);
+  /**
+   * Sign a manifest, by default with this machine's local key
+   */
+  async signManifest(
+    manifest: MCPIntegrationManifest,
+    signingKey?: MCPSigningKey
+  ): Promise<MCPIntegrationManifest> {
+    const signature = await this.keyring.sign(canonicalManifestPayload(manifest), signingKey);
+    return { ...manifest, integration: { ...manifest.integration, signature } };
   }
-  addTrustedSignature(signature: string): void {
-    this.trustedSignatures.add(signature);
+  /**
+   * Check a manifest's signature against the keyring
+   */
+  async verifyManifest(manifest: MCPIntegrationManifest): Promise<MCPSignatureCheck> {
+    return this.keyring.verify(canonicalManifestPayload(manifest), manifest.integration.signature, 'Manifest');
   }
-  removeTrustedSignature(signature: string): void {
-    this.trustedSignatures.delete(signature);
+  /**
+   * Whether a checked manifest may be loaded; unsigned ones only when
+   * signatures are not required
+   */
+  isAcceptable(check: MCPSignatureCheck): boolean {
+    return check.status === 'valid' || (check.status === 'unsigned' && !this.config.requireSignature);
   }
   // Permission checking for runtime
   checkPermission(
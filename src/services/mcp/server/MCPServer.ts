@@ -6,13 +6,33 @@
  * the runtime environment for executing MCP tools.
  */
 import { EventEmitter } from 'events';
-import { createServer, Server } from 'http';
+import { createServer, IncomingMessage, Server } from 'http';
 import express, { Express, Request, Response, NextFunction } from 'express';
 import { WebSocketServer } from 'ws';
+import { CredentialManager } from '../../../lib/security/CredentialManager';
+import { isLocalOrigin, upgradeAuthorization } from '../../../lib/security/LocalRequests';
+import { MCPAuthContext, MCPAuthError, MCPAuthManager, MCP_SCOPES, toolsExecuteScope } from './MCPAuthManager';
 import { MCPIntegrationRegistry } from './MCPIntegrationRegistry';
-import { MCPSecurityManager } from './MCPSecurityManager';
+import { MCPSecurityManager, MCPSignatureError } from './MCPSecurityManager';
+import { MCPKeyring } from './MCPKeyring';
 import { MCPRequestHandler } from './MCPRequestHandler';
-import { MCPIntegration, MCPServerConfig, MCPServerStatus } from './types';
+import {
+  JSON_RPC_ERRORS,
+  MCPProtocolAccess,
+  MCPProtocolHandler,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from './MCPProtocolHandler';
+import { MCPStdioTransport } from './MCPStdioTransport';
+import { Readable, Writable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  JsonRpcResponse,
+  MCPInstallationConfig,
+  MCPIntegration,
+  MCPIntegrationManifest,
+  MCPServerConfig,
+  MCPServerStatus
+} from './types';
 export class MCPServer extends EventEmitter {
   private app: Express;
   private server: Server;
@@ -20,18 +40,47 @@ export class MCPServer extends EventEmitter {
   private registry: MCPIntegrationRegistry;
   private security: MCPSecurityManager;
   private requestHandler: MCPRequestHandler;
+  private protocol: MCPProtocolHandler;
+  private auth: MCPAuthManager;
+  // Streamable HTTP sessions, created by initialize, mapped to the token that opened them
+  private mcpSessions: Map<string, string> = new Map();
+  // Auth context of accepted WebSocket upgrades
+  private socketAuth: WeakMap<IncomingMessage, MCPAuthContext> = new WeakMap();
   private status: MCPServerStatus = 'stopped';
   private config: MCPServerConfig;
-  constructor(config: MCPServerConfig) {
+  constructor(
+    config: MCPServerConfig,
+    keyring?: MCPKeyring,
+    auth: MCPAuthManager = new MCPAuthManager(CredentialManager.getInstance())
+  ) {
     super();
     this.config = config;
+    this.auth = auth;
     this.app = express();
     this.server = createServer(this.app);
-    this.wss = new WebSocketServer({ server: this.server });
+    this.wss = new WebSocketServer({
+      server: this.server,
+      verifyClient: (info, done) => {
+        if (!isLocalOrigin(info.origin)) {
+          done(false, 403, 'Origin not allowed');
+          return;
+        }
+        void this.authenticateUpgrade(info.req).then(
+          context => (context ? done(true) : done(false, 401, 'Unauthorized')),
+          () => done(false, 500, 'Authentication failed')
+        );
+      }
+    });
     // Initialize core components
-    this.registry = new MCPIntegrationRegistry();
-    this.security = new MCPSecurityManager(config.security);
+    this.security = new MCPSecurityManager(config.security, keyring);
+    this.registry = new MCPIntegrationRegistry(undefined, this.security);
+    this.registry.on('integration:quarantined', entry => this.emit('integration:quarantined', entry));
+    this.security.on('permission:violation', violation => this.emit('permission:violation', violation));
     this.requestHandler = new MCPRequestHandler(this.registry, this.security);
+    this.protocol = new MCPProtocolHandler(this.registry, this.requestHandler, {
+      name: 'sessionhub',
+      version: config.version || '1.0.0'
+    });
     this.setupMiddleware();
     this.setupRoutes();
     this.setupWebSocket();
@@ -44,18 +93,48 @@ export class MCPServer extends EventEmitter {
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       res.header('Access-Control-Allow-Origin', 'http://localhost:3000');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, MCP-Protocol-Version');
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id');
       if (req.method === 'OPTIONS') {
         res.sendStatus(200);
       } else {
         next();
       }
     });
+    // Every route but the health check needs a bearer token
+    this.app.use(async (req: Request, res: Response, next: NextFunction) => {
+      if (req.path === '/health') {
+        next();
+        return;
+      }
+      try {
+        const context = await this.auth.authenticate(req.header('Authorization'));
+        if (!context) {
+          res.header('WWW-Authenticate', 'Bearer realm="sessionhub-mcp"');
+          res.status(401).json({ error: 'Missing or invalid bearer token' });
+          return;
+        }
+        res.locals['auth'] = context;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    });
     // Request logging
     this.app.use((_req: Request, _res: Response, next: NextFunction) => {
       next();
     });
   }
+  /**
+   * Answer 403 unless the request's token carries the scope
+   */
+  private requireScope(res: Response, scope: string): boolean {
+    if (MCPAuthManager.hasScope(res.locals['auth'] as MCPAuthContext, scope)) {
+      return true;
+    }
+    res.status(403).json({ error: `Token lacks scope ${scope}` });
+    return false;
+  }
   private setupRoutes(): void {
     // Health check
     this.app.get('/health', (_req: Request, res: Response) => {
@@ -68,6 +147,7 @@ export class MCPServer extends EventEmitter {
     });
     // Integration management
     this.app.get('/integrations', async (_req: Request, res: Response) => {
+      if (!this.requireScope(res, MCP_SCOPES.INTEGRATIONS_READ)) return;
       try {
         const integrations = await this.registry.listIntegrations();
         res.json({ integrations });
@@ -76,19 +156,23 @@ export class MCPServer extends EventEmitter {
       }
     });
     this.app.post('/integrations/register', async (req: Request, res: Response) => {
+      if (!this.requireScope(res, MCP_SCOPES.INTEGRATIONS_MANAGE)) return;
       try {
-        const integration = req.body as MCPIntegration;
-        // Validate and sandbox the integration
-        await this.security.validateIntegration(integration);
-        const sandboxedIntegration = await this.security.sandboxIntegration(integration);
-        // Register the integration
-        const id = await this.registry.registerIntegration(sandboxedIntegration);
+        // Signed integrations are posted as whole manifests
+        const body = req.body as MCPIntegration | MCPIntegrationManifest;
+        const id = 'integration' in body
+          ? await this.registerIntegration(body.integration, body.installation)
+          : await this.registerIntegration(body);
         res.json({ id, status: 'registered' });
       } catch (error) {
-        res.status(400).json({ error: (error as Error).message });
+        res.status(400).json({
+          error: (error as Error).message,
+          ...(error instanceof MCPSignatureError ? { code: error.code } : {})
+        });
       }
     });
     this.app.delete('/integrations/:id', async (req: Request, res: Response) => {
+      if (!this.requireScope(res, MCP_SCOPES.INTEGRATIONS_MANAGE)) return;
       try {
         await this.registry.unregisterIntegration(req.params['id'] || "");
         res.json({ status: 'unregistered' });
@@ -98,8 +182,9 @@ export class MCPServer extends EventEmitter {
     });
     // Tool execution
     this.app.post('/execute', async (req: Request, res: Response) => {
+      const { integrationId, tool, params } = req.body;
+      if (!this.requireScope(res, toolsExecuteScope(String(integrationId)))) return;
       try {
-        const { integrationId, tool, params } = req.body;
         // Execute in sandboxed environment
         const result = await this.requestHandler.executeToolCall(
           integrationId,
@@ -111,6 +196,7 @@ export class MCPServer extends EventEmitter {
         res.status(500).json({ error: (error as Error).message });
       }
     });
+    this.setupMcpRoutes();
     // Configuration
     this.app.get('/config', (_req: Request, res: Response) => {
       res.json({
@@ -120,12 +206,114 @@ export class MCPServer extends EventEmitter {
       });
     });
   }
+  /**
+   * MCP streamable HTTP transport. Every POST is answered with a plain
+   * JSON response; the server never opens an SSE stream of its own.
+   */
+  private setupMcpRoutes(): void {
+    this.app.post('/mcp', async (req: Request, res: Response) => {
+      if (!isLocalOrigin(req.header('Origin'))) {
+        res.status(403).json(this.httpFailure('Origin not allowed', JSON_RPC_ERRORS.INVALID_REQUEST));
+        return;
+      }
+      const protocolVersion = req.header('MCP-Protocol-Version');
+      if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+        res.status(400).json(this.httpFailure(`Unsupported protocol version: ${protocolVersion}`, JSON_RPC_ERRORS.INVALID_REQUEST));
+        return;
+      }
+
+      const messages = Array.isArray(req.body) ? req.body : [req.body];
+      const initializing = messages.some(message => message?.method === 'initialize');
+      const sessionId = req.header('Mcp-Session-Id');
+      if (!initializing) {
+        if (!sessionId) {
+          res.status(400).json(this.httpFailure('Missing Mcp-Session-Id header', JSON_RPC_ERRORS.INVALID_REQUEST));
+          return;
+        }
+        if (this.mcpSessions.get(sessionId) !== this.tokenId(res)) {
+          res.status(404).json(this.httpFailure('Unknown or expired session', JSON_RPC_ERRORS.INVALID_REQUEST));
+          return;
+        }
+      }
+
+      const response = await this.protocol.handleParsed(req.body, this.protocolAccess(res));
+      if (!response) {
+        // Only notifications or responses were posted
+        res.status(202).end();
+        return;
+      }
+      if (initializing && this.succeeded(response)) {
+        const newSession = uuidv4();
+        this.mcpSessions.set(newSession, this.tokenId(res));
+        res.header('Mcp-Session-Id', newSession);
+      }
+      res.json(response);
+    });
+    this.app.get('/mcp', (_req: Request, res: Response) => {
+      res.header('Allow', 'POST, DELETE');
+      res.status(405).end();
+    });
+    this.app.delete('/mcp', (req: Request, res: Response) => {
+      const sessionId = req.header('Mcp-Session-Id');
+      if (!sessionId || this.mcpSessions.get(sessionId) !== this.tokenId(res)) {
+        res.status(404).end();
+        return;
+      }
+      this.mcpSessions.delete(sessionId);
+      res.status(200).end();
+    });
+    // Malformed JSON bodies surface as JSON-RPC parse errors
+    this.app.use('/mcp', (error: Error, _req: Request, res: Response, next: NextFunction) => {
+      if (error instanceof SyntaxError) {
+        res.status(400).json(this.httpFailure('Parse error', JSON_RPC_ERRORS.PARSE_ERROR));
+        return;
+      }
+      next(error);
+    });
+  }
+  private tokenId(res: Response): string {
+    return (res.locals['auth'] as MCPAuthContext).tokenId;
+  }
+  private protocolAccess(res: Response): MCPProtocolAccess {
+    const context = res.locals['auth'] as MCPAuthContext;
+    return { canExecute: integrationId => MCPAuthManager.hasScope(context, toolsExecuteScope(integrationId)) };
+  }
+  private async authenticateUpgrade(req: IncomingMessage): Promise<MCPAuthContext | null> {
+    const context = await this.auth.authenticate(upgradeAuthorization(req));
+    if (context) {
+      this.socketAuth.set(req, context);
+    }
+    return context;
+  }
+  private succeeded(response: JsonRpcResponse | JsonRpcResponse[]): boolean {
+    return (Array.isArray(response) ? response : [response]).every(r => 'result' in r);
+  }
+  private httpFailure(message: string, code: number): JsonRpcResponse {
+    return { jsonrpc: '2.0', id: null, error: { code, message } };
+  }
+  /**
+   * Serve MCP over stdio, for hosts that launch SessionHub as a
+   * subprocess. Resolves when the input stream ends.
+   */
+  async serveStdio(input?: Readable, output?: Writable): Promise<void> {
+    const transport = new MCPStdioTransport(this.protocol, input, output);
+    this.status = 'running';
+    this.emit('started');
+    await transport.start();
+    this.status = 'stopped';
+    this.emit('stopped');
+  }
   private setupWebSocket(): void {
-    this.wss.on('connection', (ws) => {
+    this.wss.on('connection', (ws, req) => {
+      const context = this.socketAuth.get(req);
+      if (!context) {
+        ws.close(1008, 'Unauthorized');
+        return;
+      }
       ws.on('message', async (message) => {
         try {
           const data = JSON.parse(message.toString());
-          const response = await this.handleWebSocketMessage(data);
+          const response = await this.handleWebSocketMessage(data, context);
           ws.send(JSON.stringify(response));
         } catch (error) {
           ws.send(JSON.stringify({ error: (error as Error).message }));
@@ -135,13 +323,19 @@ export class MCPServer extends EventEmitter {
       });
     });
   }
-  private async handleWebSocketMessage(data: any): Promise<any> {
+  private async handleWebSocketMessage(data: any, context: MCPAuthContext): Promise<any> {
+    const requireScope = (scope: string) => {
+      if (!MCPAuthManager.hasScope(context, scope)) {
+        throw new MCPAuthError(`Token lacks scope ${scope}`, 'FORBIDDEN');
+      }
+    };
     switch (data.type) {
       case 'subscribe':
         // Subscribe to integration events
         return { type: 'subscribed', id: data.integrationId };
       case 'execute':
         // Execute tool call
+        requireScope(toolsExecuteScope(String(data.integrationId)));
         return await this.requestHandler.executeToolCall(
           data.integrationId,
           data.tool,
@@ -149,6 +343,7 @@ export class MCPServer extends EventEmitter {
         );
       case 'list':
         // List available tools
+        requireScope(MCP_SCOPES.INTEGRATIONS_READ);
         const integration = await this.registry.getIntegration(data.integrationId);
         return { type: 'tools', tools: integration?.tools || [] };
       default:
@@ -156,6 +351,7 @@ export class MCPServer extends EventEmitter {
     }
   }
   async start(): Promise<void> {
+    await this.auth.initialize();
     return new Promise((resolve, reject) => {
       try {
         this.server.listen(this.config.port, () => {
@@ -171,6 +367,8 @@ export class MCPServer extends EventEmitter {
   }
   async stop(): Promise<void> {
     return new Promise((resolve) => {
+      this.protocol.dispose();
+      this.mcpSessions.clear();
       this.wss.close();
       this.server.close(() => {
         this.status = 'stopped';
@@ -187,16 +385,34 @@ export class MCPServer extends EventEmitter {
       'integration-registry',
       'sandboxed-execution',
       'websocket-streaming',
+      'mcp-json-rpc',
       'multi-language-sdk',
       'visual-builder',
       'marketplace-ready'
     ];
   }
   // Integration management
-  async registerIntegration(integration: MCPIntegration): Promise<string> {
+  async registerIntegration(integration: MCPIntegration, installation?: MCPInstallationConfig): Promise<string> {
     await this.security.validateIntegration(integration);
     const sandboxed = await this.security.sandboxIntegration(integration);
-    return this.registry.registerIntegration(sandboxed);
+    return this.registry.registerIntegration(sandboxed, installation);
+  }
+  /**
+   * Run a tool in-process, for callers inside SessionHub that need no token
+   */
+  async executeToolCall(integrationId: string, tool: string, params: any): Promise<any> {
+    return this.requestHandler.executeToolCall(integrationId, tool, params);
+  }
+  /**
+   * Register an integration that ships with SessionHub, signing it locally
+   */
+  async registerCoreIntegration(integration: MCPIntegration): Promise<string> {
+    await this.security.validateIntegration(integration);
+    const sandboxed = await this.security.sandboxIntegration(integration);
+    return this.registry.registerCoreIntegration(sandboxed);
+  }
+  getRegistry(): MCPIntegrationRegistry {
+    return this.registry;
   }
   async unregisterIntegration(id: string): Promise<void> {
     return this.registry.unregisterIntegration(id);
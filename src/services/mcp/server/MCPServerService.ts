@@ -5,7 +5,19 @@
  * with the SessionHub application.
  */
 import { MCPServer } from './MCPServer';
-import { MCPServerConfig, MCPIntegration } from './types';
+import { MCPKeyring } from './MCPKeyring';
+import { MCPIntegrationRegistry } from './MCPIntegrationRegistry';
+import { MCPAuthManager, MCPIssuedToken, MCPTokenInfo } from './MCPAuthManager';
+import { CredentialManager } from '../../../lib/security/CredentialManager';
+import { MCPSecurityManager } from './MCPSecurityManager';
+import {
+  MCPServerConfig,
+  MCPIntegration,
+  MCPIntegrationManifest,
+  MCPInstallationConfig,
+  MCPQuarantineEntry,
+  MCPTrustedKey
+} from './types';
 import { EventEmitter } from 'events';
 import * as path from 'path';
 // import * as fs from 'fs/promises'; // Unused for now
@@ -13,9 +25,18 @@ export class MCPServerService extends EventEmitter {
   private server: MCPServer | null = null;
   private config: MCPServerConfig;
   private isRunning: boolean = false;
-  constructor() {
+  // Shared with the server so trust changes apply without a restart
+  private keyring: MCPKeyring;
+  // Tokens outlive server restarts, so the service owns them
+  private auth: MCPAuthManager;
+  constructor(
+    keyring: MCPKeyring = new MCPKeyring(),
+    auth: MCPAuthManager = new MCPAuthManager(CredentialManager.getInstance())
+  ) {
     super();
     this.config = this.loadConfig();
+    this.keyring = keyring;
+    this.auth = auth;
   }
   private loadConfig(): MCPServerConfig {
     return {
@@ -31,14 +52,16 @@ export class MCPServerService extends EventEmitter {
           'api.openai.com',
           'api.anthropic.com',
           'api.stripe.com',
-          'hooks.zapier.com'
+          'hooks.zapier.com',
+          'slack.com'
         ],
         blockedDomains: [
           'localhost',
           '127.0.0.1',
           '0.0.0.0'
         ],
-        requireSignature: false // Will enable in production
+        requireSignature: false, // Will enable in production
+        nodePath: process.env['SESSIONHUB_MCP_NODE']
       },
       storage: {
         type: 'sqlite',
@@ -61,7 +84,7 @@ export class MCPServerService extends EventEmitter {
     }
     try {
       // Create server instance
-      this.server = new MCPServer(this.config);
+      this.server = new MCPServer(this.config, this.keyring, this.auth);
       // Set up event listeners
       this.setupEventListeners();
       // Start the server
@@ -89,6 +112,26 @@ export class MCPServerService extends EventEmitter {
       throw error;
     }
   }
+  /**
+   * Serve MCP over stdio instead of HTTP, for hosts such as Claude Desktop
+   * or Zed that launch SessionHub as a subprocess. Resolves when the host
+   * closes stdin.
+   */
+  async serveStdio(): Promise<void> {
+    if (this.isRunning) {
+      throw new Error('MCP Server is already running');
+    }
+    this.server = new MCPServer(this.config, this.keyring, this.auth);
+    this.setupEventListeners();
+    await this.registerCoreIntegrations();
+    this.isRunning = true;
+    try {
+      await this.server.serveStdio();
+    } finally {
+      this.isRunning = false;
+      this.server = null;
+    }
+  }
   private setupEventListeners(): void {
     if (!this.server) return;
     this.server.on('integration:registered', (integration) => {
@@ -97,6 +140,12 @@ export class MCPServerService extends EventEmitter {
     this.server.on('integration:unregistered', (integration) => {
       this.emit('integration:unregistered', integration);
     });
+    this.server.on('integration:quarantined', (entry) => {
+      this.emit('integration:quarantined', entry);
+    });
+    this.server.on('permission:violation', (violation) => {
+      this.emit('permission:violation', violation);
+    });
     this.server.on('error', (error) => {
       this.emit('error', error);
     });
@@ -106,7 +155,7 @@ export class MCPServerService extends EventEmitter {
     const coreIntegrations: MCPIntegration[] = [
       {
         name: 'GitHub',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'GitHub integration for repositories, issues, and pull requests',
         author: 'SessionHub',
         category: 'development',
@@ -114,6 +163,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'listRepositories',
+            handler: 'builtin:github#listRepositories',
             description: 'List user repositories',
             inputSchema: {
               type: 'object',
@@ -121,19 +171,38 @@ export class MCPServerService extends EventEmitter {
                 page: { type: 'number', description: 'Page number' },
                 perPage: { type: 'number', description: 'Items per page' }
               }
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                repositories: { type: 'array' },
+                page: { type: 'number' }
+              },
+              required: ['repositories']
             }
           },
           {
             name: 'createIssue',
+            handler: 'builtin:github#createIssue',
             description: 'Create a new issue',
             inputSchema: {
               type: 'object',
               properties: {
-                repo: { type: 'string', description: 'Repository name' },
+                repo: { type: 'string', description: 'Repository as owner/name' },
                 title: { type: 'string', description: 'Issue title' },
                 body: { type: 'string', description: 'Issue body' }
               },
               required: ['repo', 'title']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                id: { type: 'number' },
+                number: { type: 'number' },
+                title: { type: 'string' },
+                html_url: { type: 'string' }
+              },
+              required: ['number', 'html_url']
             }
           }
         ],
@@ -141,7 +210,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'Linear',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Linear integration for project management',
         author: 'SessionHub',
         category: 'productivity',
@@ -149,6 +218,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'listIssues',
+            handler: 'builtin:linear#listIssues',
             description: 'List Linear issues',
             inputSchema: {
               type: 'object',
@@ -156,6 +226,13 @@ export class MCPServerService extends EventEmitter {
                 teamId: { type: 'string', description: 'Team ID' },
                 filter: { type: 'string', description: 'Filter query' }
               }
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                issues: { type: 'array' }
+              },
+              required: ['issues']
             }
           }
         ],
@@ -163,7 +240,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'Figma',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Figma integration for design files',
         author: 'SessionHub',
         category: 'design',
@@ -171,6 +248,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'getFile',
+            handler: 'builtin:figma#getFile',
             description: 'Get Figma file data',
             inputSchema: {
               type: 'object',
@@ -178,6 +256,15 @@ export class MCPServerService extends EventEmitter {
                 fileKey: { type: 'string', description: 'Figma file key' }
               },
               required: ['fileKey']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                lastModified: { type: 'string' },
+                pages: { type: 'array' }
+              },
+              required: ['name', 'pages']
             }
           }
         ],
@@ -185,7 +272,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'Zapier',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Zapier webhook integration',
         author: 'SessionHub',
         category: 'automation',
@@ -193,6 +280,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'triggerWebhook',
+            handler: 'builtin:zapier#triggerWebhook',
             description: 'Trigger a Zapier webhook',
             inputSchema: {
               type: 'object',
@@ -201,6 +289,14 @@ export class MCPServerService extends EventEmitter {
                 data: { type: 'object', description: 'Data to send' }
               },
               required: ['webhookUrl', 'data']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                status: { type: 'number' },
+                response: { type: 'object' }
+              },
+              required: ['status']
             }
           }
         ],
@@ -208,7 +304,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'OpenAI',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'OpenAI API integration',
         author: 'SessionHub',
         category: 'ai',
@@ -216,6 +312,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'complete',
+            handler: 'builtin:openai#complete',
             description: 'Generate text completion',
             inputSchema: {
               type: 'object',
@@ -225,6 +322,15 @@ export class MCPServerService extends EventEmitter {
                 maxTokens: { type: 'number', description: 'Max tokens to generate' }
               },
               required: ['prompt']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                model: { type: 'string' },
+                usage: { type: 'object' }
+              },
+              required: ['text', 'model']
             }
           }
         ],
@@ -232,7 +338,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'Anthropic',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Anthropic Claude API integration',
         author: 'SessionHub',
         category: 'ai',
@@ -240,6 +346,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'complete',
+            handler: 'builtin:anthropic#complete',
             description: 'Generate text with Claude',
             inputSchema: {
               type: 'object',
@@ -249,6 +356,15 @@ export class MCPServerService extends EventEmitter {
                 maxTokens: { type: 'number', description: 'Max tokens to generate' }
               },
               required: ['prompt']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                model: { type: 'string' },
+                usage: { type: 'object' }
+              },
+              required: ['text', 'model']
             }
           }
         ],
@@ -256,7 +372,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'Stripe',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Stripe payment integration',
         author: 'SessionHub',
         category: 'finance',
@@ -264,6 +380,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'createPaymentIntent',
+            handler: 'builtin:stripe#createPaymentIntent',
             description: 'Create a payment intent',
             inputSchema: {
               type: 'object',
@@ -273,6 +390,17 @@ export class MCPServerService extends EventEmitter {
                 description: { type: 'string', description: 'Payment description' }
               },
               required: ['amount']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                amount: { type: 'number' },
+                currency: { type: 'string' },
+                status: { type: 'string' },
+                clientSecret: { type: 'string' }
+              },
+              required: ['id', 'status']
             }
           }
         ],
@@ -280,7 +408,7 @@ export class MCPServerService extends EventEmitter {
       },
       {
         name: 'Slack',
-        version: '1.0.0',
+        version: '1.1.0',
         description: 'Slack messaging integration',
         author: 'SessionHub',
         category: 'communication',
@@ -288,6 +416,7 @@ export class MCPServerService extends EventEmitter {
         tools: [
           {
             name: 'sendMessage',
+            handler: 'builtin:slack#sendMessage',
             description: 'Send a message to Slack',
             inputSchema: {
               type: 'object',
@@ -297,6 +426,14 @@ export class MCPServerService extends EventEmitter {
                 attachments: { type: 'array', description: 'Message attachments' }
               },
               required: ['channel', 'text']
+            },
+            outputSchema: {
+              type: 'object',
+              properties: {
+                channel: { type: 'string' },
+                ts: { type: 'string' }
+              },
+              required: ['channel', 'ts']
             }
           }
         ],
@@ -305,7 +442,7 @@ export class MCPServerService extends EventEmitter {
     ];
     for (const integration of coreIntegrations) {
       try {
-        await this.server.registerIntegration(integration);
+        await this.server.registerCoreIntegration(integration);
       } catch (error) {
       }
     }
@@ -327,11 +464,70 @@ export class MCPServerService extends EventEmitter {
       uptime: process.uptime()
     };
   }
-  async registerIntegration(integration: MCPIntegration): Promise<string> {
+  async registerIntegration(integration: MCPIntegration, installation?: MCPInstallationConfig): Promise<string> {
     if (!this.server) {
       throw new Error('MCP Server is not running');
     }
-    return this.server.registerIntegration(integration);
+    return this.server.registerIntegration(integration, installation);
+  }
+  /**
+   * Sign an integration or manifest with the local key, e.g. one built
+   * with MCPIntegrationSDK, so it can be shared with other machines
+   */
+  async signIntegration(
+    target: MCPIntegration | MCPIntegrationManifest,
+    publisher?: string
+  ): Promise<MCPIntegrationManifest> {
+    const manifest: MCPIntegrationManifest = 'integration' in target
+      ? target
+      : { integration: target, installation: { files: [], dependencies: [] } };
+    const security = new MCPSecurityManager(this.config.security, this.keyring);
+    return security.signManifest(manifest, await this.keyring.getSigningKey(publisher));
+  }
+  /**
+   * Public half of the local signing key, created on first use
+   */
+  async getSigningPublicKey(publisher?: string): Promise<string> {
+    return (await this.keyring.getSigningKey(publisher)).publicKey;
+  }
+  getKeyring(): MCPKeyring {
+    return this.keyring;
+  }
+  /**
+   * Registry of the running server, for installing marketplace packages
+   */
+  getRegistry(): MCPIntegrationRegistry {
+    if (!this.server) {
+      throw new Error('MCP Server is not running');
+    }
+    return this.server.getRegistry();
+  }
+  async listTrustedKeys(): Promise<MCPTrustedKey[]> {
+    return this.keyring.listKeys();
+  }
+  async trustKey(publisher: string, publicKeyPem: string): Promise<MCPTrustedKey> {
+    return this.keyring.trustKey(publisher, publicKeyPem);
+  }
+  async revokeKey(keyId: string): Promise<boolean> {
+    return this.keyring.revokeKey(keyId);
+  }
+  async listQuarantined(): Promise<MCPQuarantineEntry[]> {
+    if (!this.server) {
+      return [];
+    }
+    return this.server.getRegistry().listQuarantined();
+  }
+  async releaseQuarantined(id: string): Promise<string> {
+    if (!this.server) {
+      throw new Error('MCP Server is not running');
+    }
+    return this.server.getRegistry().releaseQuarantined(id);
+  }
+  async deleteQuarantined(id: string): Promise<void> {
+    if (!this.server) {
+      throw new Error('MCP Server is not running');
+    }
+    return this.server.getRegistry().deleteQuarantined(id);
   }
   async unregisterIntegration(id: string): Promise<void> {
     if (!this.server) {
@@ -353,26 +549,25 @@ export class MCPServerService extends EventEmitter {
     if (!this.server) {
       throw new Error('MCP Server is not running');
     }
-    const response = await fetch(`http://localhost:${this.config.port}/execute`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        integrationId,
-        tool,
-        params
-      })
-    });
-    const result = await response.json();
-    if (!response.ok) {
-      throw new Error(result.error || 'Execution failed');
-    }
-    return result.result;
+    return this.server.executeToolCall(integrationId, tool, params);
+  }
+  // Client tokens
+  async issueToken(client: string, scopes: string[], expiresInDays?: number): Promise<MCPIssuedToken> {
+    return this.auth.issueToken({ client, scopes, expiresInDays });
+  }
+  async listTokens(): Promise<MCPTokenInfo[]> {
+    return this.auth.listTokens();
+  }
+  async revokeToken(tokenId: string): Promise<boolean> {
+    return this.auth.revokeToken(tokenId);
   }
   getServerUrl(): string {
     return `http://localhost:${this.config.port}`;
   }
+  // MCP streamable HTTP endpoint for standard MCP hosts
+  getMcpUrl(): string {
+    return `${this.getServerUrl()}/mcp`;
+  }
   getWebSocketUrl(): string {
     return `ws://localhost:${this.config.port}`;
   }
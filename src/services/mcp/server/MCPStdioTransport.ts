@@ -0,0 +1,73 @@
+/**
+ * MCP stdio transport
+ *
+ * Reads newline-delimited JSON-RPC messages from an input stream and
+ * writes responses and notifications to an output stream. Nothing else
+ * may be written to the output, so hosts launching SessionHub as a
+ * subprocess see only protocol messages.
+ */
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { MCPProtocolHandler } from './MCPProtocolHandler';
+
+export class MCPStdioTransport {
+  private handler: MCPProtocolHandler;
+  private input: Readable;
+  private output: Writable;
+  private lines: Interface | null = null;
+  private pending: Set<Promise<void>> = new Set();
+  private readonly forwardNotification = (notification: object) => this.write(notification);
+
+  constructor(
+    handler: MCPProtocolHandler,
+    input: Readable = process.stdin,
+    output: Writable = process.stdout
+  ) {
+    this.handler = handler;
+    this.input = input;
+    this.output = output;
+  }
+
+  /**
+   * Start reading messages. Resolves when the input ends and every
+   * in-flight request has been answered.
+   */
+  start(): Promise<void> {
+    if (this.lines) {
+      throw new Error('stdio transport already started');
+    }
+    this.handler.on('notification', this.forwardNotification);
+    this.lines = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    this.lines.on('line', line => {
+      if (!line.trim()) return;
+      // Requests are answered as they finish, not in arrival order
+      const handled = this.handler.handleRaw(line)
+        .then(response => {
+          if (response) this.write(response);
+        })
+        .catch(error => {
+          // stdout carries only protocol messages
+          process.stderr.write(`MCP stdio transport error: ${(error as Error).message}\n`);
+        });
+      this.pending.add(handled);
+      handled.finally(() => this.pending.delete(handled));
+    });
+
+    return new Promise(resolve => {
+      this.lines?.on('close', async () => {
+        await Promise.all(this.pending);
+        this.handler.off('notification', this.forwardNotification);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.lines?.close();
+  }
+
+  private write(message: object): void {
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+}
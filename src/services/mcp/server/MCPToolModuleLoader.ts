@@ -0,0 +1,64 @@
+/**
+ * MCP Tool Module Loader
+ *
+ * Resolves the handler reference of an MCPTool to the module source the
+ * sandbox worker runs. Built-in modules ship next to this file in tools/;
+ * package modules come from the bundle installed with the integration.
+ */
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MCPIntegration, MCPTool } from './types';
+
+export type MCPToolErrorCode =
+  | 'NO_HANDLER'
+  | 'HANDLER_NOT_FOUND'
+  | 'INVALID_INPUT'
+  | 'INVALID_OUTPUT'
+  | 'SANDBOX_ERROR';
+
+export class MCPToolError extends Error {
+  constructor(message: string, public code: MCPToolErrorCode, public details?: Record<string, any>) {
+    super(message);
+    this.name = 'MCPToolError';
+  }
+}
+
+export interface MCPToolModule {
+  filename: string;
+  source: string;
+  exportName: string;
+  // Directory the module may read from with the filesystem permission
+  root: string;
+}
+
+const BUILTIN_PREFIX = 'builtin:';
+
+export class MCPToolModuleLoader {
+  private readonly packageRoot: (integrationId: string) => string;
+  private readonly builtinRoot: string;
+
+  constructor(packageRoot: (integrationId: string) => string, builtinRoot: string = path.join(__dirname, 'tools')) {
+    this.packageRoot = packageRoot;
+    this.builtinRoot = builtinRoot;
+  }
+
+  async load(integration: MCPIntegration, tool: MCPTool): Promise<MCPToolModule> {
+    if (!tool.handler) {
+      throw new MCPToolError(`Tool ${tool.name} of ${integration.name} has no handler module`, 'NO_HANDLER');
+    }
+    const [reference = '', exportName = tool.name] = tool.handler.split('#', 2);
+    const builtin = reference.startsWith(BUILTIN_PREFIX);
+    const root = builtin ? this.builtinRoot : this.packageRoot(integration.id || '');
+    const file = builtin ? `${reference.slice(BUILTIN_PREFIX.length)}.js` : reference;
+
+    const filename = path.resolve(root, file);
+    if (!filename.startsWith(root + path.sep)) {
+      throw new MCPToolError(`Handler ${tool.handler} is outside its module directory`, 'HANDLER_NOT_FOUND');
+    }
+    try {
+      return { filename, source: await fs.readFile(filename, 'utf-8'), exportName, root };
+    } catch (error) {
+      throw new MCPToolError(`Handler module not found: ${tool.handler}`, 'HANDLER_NOT_FOUND', { filename });
+    }
+  }
+}
@@ -5,6 +5,14 @@
 export { MCPServer } from './MCPServer';
 export { MCPServerService } from './MCPServerService';
 export { MCPIntegrationRegistry } from './MCPIntegrationRegistry';
-export { MCPSecurityManager } from './MCPSecurityManager';
+export { MCPSecurityManager, MCPSignatureError, canonicalManifestPayload } from './MCPSecurityManager';
+export { MCPKeyring } from './MCPKeyring';
+export { MCPAuthManager, MCPAuthError, MCP_SCOPES, toolsExecuteScope } from './MCPAuthManager';
+export type { MCPAuthContext, MCPIssuedToken, MCPTokenInfo } from './MCPAuthManager';
+export type { MCPSigningKey } from './MCPKeyring';
 export { MCPRequestHandler } from './MCPRequestHandler';
+export { MCPToolModuleLoader, MCPToolError } from './MCPToolModuleLoader';
+export type { MCPToolModule, MCPToolErrorCode } from './MCPToolModuleLoader';
+export { MCPProtocolHandler, MCPProtocolError, JSON_RPC_ERRORS, SUPPORTED_PROTOCOL_VERSIONS } from './MCPProtocolHandler';
+export { MCPStdioTransport } from './MCPStdioTransport';
 export * from './types';
\ No newline at end of file
@@ -1,91 +1,355 @@
 /**
  * Sandbox Worker
- * 
- * Executes code in an isolated worker thread with restrictions
+ *
+ * Child process that executes code with restrictions. The host starts it
+ * under Node's permission model, so file access and subprocesses are
+ * limited by the runtime itself, and its environment only holds granted
+ * variables. Runs either an inline snippet (job.code) or a tool module
+ * (job.module), calling the module's export with the tool input.
+ *
+ * The code runs in a vm context that holds no host objects. Capabilities
+ * are defined inside the context and reach the host functions below
+ * through a bridge that only passes strings, so there is no host
+ * constructor to climb out through. Every refused use is sent back as a
+ * violation before the call fails.
  */
 
-const { parentPort, workerData } = require('worker_threads');
+'use strict';
+
+const { execFile } = require('child_process');
 const vm = require('vm');
+const fs = require('fs/promises');
+const path = require('path');
+
+// Evaluated inside the context. Returns the entry points the host calls;
+// `call` and `report` stay in this closure, out of reach of sandboxed code.
+const BOOTSTRAP = `(function (call, report, globalsJson) {
+  'use strict';
+  const parse = JSON.parse;
+  const stringify = JSON.stringify;
+  const pending = new Map();
+  let nextId = 1;
+
+  function request(name, args) {
+    return new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      call(name, stringify(args), id);
+    });
+  }
+
+  function toError(json) {
+    const { message, code } = parse(json);
+    return Object.assign(new Error(message), code ? { code } : {});
+  }
+
+  function settle(id, errorJson, resultJson) {
+    const entry = pending.get(id);
+    if (!entry) return;
+    pending.delete(id);
+    if (errorJson) entry.reject(toError(errorJson));
+    else entry.resolve(resultJson === undefined ? undefined : parse(resultJson));
+  }
 
-async function executeInSandbox() {
-  try {
-    const { code, context, config } = workerData;
-    
-    // Create sandbox with limited globals
-    const sandbox = {
-      console: {
-// REMOVED: console statement
-// REMOVED: console statement
-// REMOVED: console statement
-// REMOVED: console statement
-      },
-      setTimeout,
-      setInterval,
-      clearTimeout,
-      clearInterval,
-      Promise,
-      Date,
-      Math,
-      JSON,
-      Buffer,
-      context
+  const timers = new Map();
+  let nextTimer = 1;
+  function schedule(callback, ms, args, repeat) {
+    const timer = nextTimer++;
+    const tick = () => request('timer', [Number(ms) || 0]).then(() => {
+      if (!timers.has(timer)) return;
+      if (repeat) tick(); else timers.delete(timer);
+      callback(...args);
+    });
+    timers.set(timer, true);
+    tick();
+    return timer;
+  }
+
+  class URLSearchParams {
+    constructor(init) {
+      this._pairs = [];
+      if (typeof init === 'string') {
+        for (const part of init.replace(/^\\?/, '').split('&')) {
+          if (!part) continue;
+          const [key, value = ''] = part.split('=');
+          this.append(decode(key), decode(value));
+        }
+      } else if (Array.isArray(init)) {
+        for (const [key, value] of init) this.append(key, value);
+      } else if (init) {
+        for (const key of Object.keys(init)) this.append(key, init[key]);
+      }
+    }
+    append(key, value) { this._pairs.push([String(key), String(value)]); }
+    set(key, value) { this.delete(key); this.append(key, value); }
+    get(key) { const pair = this._pairs.find(([name]) => name === key); return pair ? pair[1] : null; }
+    getAll(key) { return this._pairs.filter(([name]) => name === key).map(([, value]) => value); }
+    has(key) { return this._pairs.some(([name]) => name === key); }
+    delete(key) { this._pairs = this._pairs.filter(([name]) => name !== key); }
+    forEach(callback) { for (const [key, value] of this._pairs) callback(value, key, this); }
+    entries() { return this._pairs.map(pair => [...pair])[Symbol.iterator](); }
+    [Symbol.iterator]() { return this.entries(); }
+    toString() { return this._pairs.map(([key, value]) => encode(key) + '=' + encode(value)).join('&'); }
+  }
+  const encode = value => encodeURIComponent(value).replace(/%20/g, '+');
+  const decode = value => decodeURIComponent(value.replace(/\\+/g, ' '));
+
+  function response(raw) {
+    const headers = raw.headers;
+    return {
+      ok: raw.ok,
+      status: raw.status,
+      statusText: raw.statusText,
+      url: raw.url,
+      headers: { get: name => headers[String(name).toLowerCase()] ?? null },
+      text: async () => raw.body,
+      json: async () => parse(raw.body)
     };
+  }
 
-    // Add allowed features based on config
-    if (config.allowedHosts && config.allowedHosts.length > 0) {
-      sandbox.fetch = createRestrictedFetch(config.allowedHosts);
+  const globals = parse(globalsJson);
+  const grants = globals.grants;
+  const noop = () => undefined;
+  Object.assign(globalThis, {
+    console: { log: noop, info: noop, warn: noop, error: noop },
+    setTimeout: (callback, ms, ...args) => schedule(callback, ms, args, false),
+    setInterval: (callback, ms, ...args) => schedule(callback, ms, args, true),
+    clearTimeout: timer => { timers.delete(timer); },
+    clearInterval: timer => { timers.delete(timer); },
+    URLSearchParams,
+    context: globals.context,
+    env: globals.env
+  });
+
+  if (globals.fetch) {
+    globalThis.fetch = (url, options = {}) => request('fetch', [String(url), {
+      method: options.method,
+      headers: options.headers,
+      body: options.body == null ? undefined : String(options.body)
+    }]).then(response);
+  }
+
+  if (grants) {
+    globalThis.fs = {
+      readFile: (file, encoding) => request('fs.readFile', [String(file), encoding]),
+      readdir: dir => request('fs.readdir', [String(dir)]),
+      writeFile: (file, data) => request('fs.writeFile', [String(file), String(data)]),
+      mkdir: dir => request('fs.mkdir', [String(dir)]),
+      unlink: file => request('fs.unlink', [String(file)])
+    };
+    // Reading a variable that was not granted is reported
+    globalThis.env = new Proxy(Object.freeze({ ...grants.env }), {
+      get(target, name) {
+        if (typeof name === 'string' && !(name in target) && name !== 'toJSON' && name !== 'then') {
+          report('env', name, 'environment variable ' + name + ' is not granted');
+        }
+        return target[name];
+      }
+    });
+    globalThis.subprocess = {
+      exec: (command, args = []) => request('subprocess.exec', [String(command), Array.from(args, String)])
+    };
+    globalThis.module = { exports: {} };
+    globalThis.exports = globalThis.module.exports;
+  }
+
+  function finish(promise) {
+    promise.then(
+      result => call('result', stringify(result === undefined ? null : result) ?? 'null', 0),
+      error => call('error', stringify({
+        message: error && error.message ? String(error.message) : String(error),
+        code: error && typeof error.code === 'string' ? error.code : undefined
+      }), 0)
+    );
+  }
+
+  return {
+    settle,
+    // Inline snippets compile to an async function the host hands back
+    runMain(main) {
+      finish(Promise.resolve().then(() => main()));
+    },
+    runExport(exportName, paramsJson, label) {
+      finish(Promise.resolve().then(() => {
+        const handler = globalThis.module.exports[exportName];
+        if (typeof handler !== 'function') {
+          throw Object.assign(new Error(label + ' does not export ' + exportName), { code: 'HANDLER_NOT_FOUND' });
+        }
+        return handler(parse(paramsJson), globalThis.context);
+      }));
     }
+  };
+})`;
+
+function executeInSandbox(job) {
+  const { code, module: toolModule, context, config, grants } = job;
+  // Tool modules only get what their integration was granted; inline code
+  // keeps the host allowlist for fetch
+  const allowedHosts = toolModule ? grants.network : (config.allowedHosts && config.allowedHosts.length > 0 ? config.allowedHosts : undefined);
+  const capabilities = {
+    fetch: createRestrictedFetch(allowedHosts),
+    timer: ms => new Promise(resolve => setTimeout(resolve, ms))
+  };
+  if (toolModule) {
+    Object.assign(capabilities, createScopedFs(grants.fs), {
+      'subprocess.exec': createSubprocess(grants.subprocess, toolModule.root, config.timeout)
+    });
+  }
 
-    // Create VM context
-    const vmContext = vm.createContext(sandbox);
-    
-    // Set resource limits
-    const options = {
-      timeout: config.timeout || 30000,
-      breakOnSigint: true
+  const options = {
+    timeout: config.timeout || 30000,
+    breakOnSigint: true
+  };
+  // A null-prototype global leaves nothing that leads back to host objects
+  const vmContext = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false }
+  });
+
+  return new Promise((resolve, reject) => {
+    let settle;
+    const call = (name, argsJson, id) => {
+      if (typeof name !== 'string' || typeof argsJson !== 'string') return;
+      if (name === 'result') return resolve(JSON.parse(argsJson));
+      if (name === 'error') {
+        const { message, code: errorCode } = JSON.parse(argsJson);
+        return reject(Object.assign(new Error(message), errorCode ? { code: errorCode } : {}));
+      }
+      const capability = Object.prototype.hasOwnProperty.call(capabilities, name) ? capabilities[name] : null;
+      Promise.resolve()
+        .then(() => {
+          if (!capability) throw new Error(`Unknown capability ${name}`);
+          return capability(...JSON.parse(argsJson));
+        })
+        .then(
+          result => settle(Number(id), null, result === undefined ? undefined : JSON.stringify(result)),
+          error => settle(Number(id), JSON.stringify({ message: String(error.message), code: error.code }))
+        );
+    };
+    const report = (capability, target, reason) => {
+      process.send({ violation: { capability: String(capability), target: String(target), reason: String(reason) } });
     };
 
-    // Execute code
-    const script = new vm.Script(`
-      (async function() {
+    const install = new vm.Script(BOOTSTRAP, { filename: 'sandbox-bootstrap.js' }).runInContext(vmContext);
+    const bridge = install(call, report, JSON.stringify({
+      context,
+      env: { ...(config.env || {}) },
+      grants: toolModule ? { env: grants.env } : null,
+      fetch: Boolean(toolModule || allowedHosts)
+    }));
+    settle = bridge.settle;
+    const { runMain, runExport } = bridge;
+
+    if (!toolModule) {
+      // Compiled to a function so the host never awaits a sandbox promise
+      const main = new vm.Script(`(async function() {
         ${code}
-      })()
-    `);
-    
-    const result = await script.runInContext(vmContext, options);
-    
-    // Send result back to main thread
-    parentPort.postMessage({ data: result });
-  } catch (error) {
-    parentPort.postMessage({ error: error.message });
-  }
+      })`).runInContext(vmContext, options);
+      runMain(main);
+      return;
+    }
+
+    // CommonJS-style module without require
+    new vm.Script(toolModule.source, { filename: toolModule.filename }).runInContext(vmContext, options);
+    runExport(toolModule.exportName, JSON.stringify(context.params === undefined ? null : context.params), path.basename(toolModule.filename));
+  });
 }
 
+// Report a refused capability use and return the error to throw
+function violation(capability, target, reason) {
+  process.send({ violation: { capability, target, reason } });
+  return Object.assign(new Error(`Permission denied: ${reason}`), { code: 'PERMISSION_DENIED' });
+}
+
+// Responses cross into the sandbox as plain data with a text body
 function createRestrictedFetch(allowedHosts) {
   return async (url, options) => {
-    try {
-      const parsedUrl = new URL(url);
-      
-      // Check if host is allowed
-      const isAllowed = allowedHosts.some(host => 
-        parsedUrl.hostname === host || parsedUrl.hostname.endsWith(`.${host}`)
-      );
-      
-      if (!isAllowed) {
-        throw new Error(`Host ${parsedUrl.hostname} is not allowed`);
-      }
-      
-      // Import fetch dynamically
-      const fetch = (await import('node-fetch')).default;
-      return fetch(url, options);
-    } catch (error) {
-      throw new Error(`Fetch error: ${error.message}`);
+    const parsedUrl = new URL(url);
+
+    if (!allowedHosts) {
+      throw violation('network', parsedUrl.hostname, 'the integration does not declare the network permission');
+    }
+
+    // Check if host is allowed
+    const isAllowed = allowedHosts.some(host =>
+      parsedUrl.hostname === host || parsedUrl.hostname.endsWith(`.${host}`)
+    );
+
+    if (!isAllowed) {
+      throw violation('network', parsedUrl.hostname, `host ${parsedUrl.hostname} is not granted`);
+    }
+
+    const response = await fetch(url, options);
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.text()
+    };
+  };
+}
+
+// File access limited to the granted paths and the directories under them
+function createScopedFs(grant) {
+  const check = (file, mode) => {
+    if (!grant) {
+      throw violation('fs', String(file), 'the integration does not declare the filesystem permission');
+    }
+    const target = path.resolve(grant.root, String(file));
+    const allowed = grant[mode].some(granted => target === granted || target.startsWith(granted + path.sep));
+    if (!allowed) {
+      throw violation('fs', target, `${mode} access to ${target} is not granted`);
+    }
+    return target;
+  };
+  return {
+    'fs.readFile': async (file, encoding) => fs.readFile(check(file, 'read'), encoding || 'utf-8'),
+    'fs.readdir': async dir => fs.readdir(check(dir, 'read')),
+    'fs.writeFile': async (file, data) => {
+      await fs.writeFile(check(file, 'write'), data);
+    },
+    'fs.mkdir': async dir => {
+      await fs.mkdir(check(dir, 'write'), { recursive: true });
+    },
+    'fs.unlink': async file => {
+      await fs.unlink(check(file, 'write'));
+    }
+  };
+}
+
+// Runs granted executables in the module's directory
+function createSubprocess(commands, cwd, timeout) {
+  return async (command, args) => {
+    if (!commands) {
+      throw violation('subprocess', command, 'the integration does not declare the process permission');
+    }
+    if (!commands.includes(command)) {
+      throw violation('subprocess', command, `command ${command} is not granted`);
     }
+    return new Promise(resolve => {
+      execFile(command, args, {
+        cwd,
+        timeout: timeout || 30000,
+        maxBuffer: 10 * 1024 * 1024
+      }, (error, stdout, stderr) => {
+        resolve({
+          stdout: String(stdout),
+          stderr: error && !stderr ? error.message : String(stderr),
+          exitCode: error ? (typeof error.code === 'number' ? error.code : 1) : 0
+        });
+      });
+    });
   };
 }
 
-// Execute
-executeInSandbox().catch(error => {
-  parentPort.postMessage({ error: error.message });
-  process.exit(1);
-});
\ No newline at end of file
+// The host sends one job, then waits for its result
+process.once('message', job => {
+  Promise.resolve()
+    .then(() => executeInSandbox(job))
+    .then(
+      data => ({ data }),
+      error => ({ error: error.message, code: error.code })
+    )
+    .then(message => process.send(message, () => process.exit(0)));
+});
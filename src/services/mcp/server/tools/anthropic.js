@@ -0,0 +1,35 @@
+/**
+ * Anthropic tool module
+ *
+ * Runs in the sandbox worker. Uses the Messages API with the
+ * integration's apiKey.
+ */
+
+const API_URL = 'https://api.anthropic.com/v1';
+
+exports.complete = async (params, context) => {
+  const model = params.model || 'claude-3-opus-20240229';
+  const response = await fetch(`${context.config.baseUrl || API_URL}/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01',
+      ...(context.config.apiKey ? { 'x-api-key': context.config.apiKey } : {}),
+      ...(context.config.headers || {})
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: params.maxTokens || 1024,
+      messages: [{ role: 'user', content: params.prompt }]
+    })
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`Anthropic API ${response.status}: ${body.error ? body.error.message : response.statusText}`);
+  }
+  const text = body.content
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  return { text, model: body.model, usage: body.usage };
+};
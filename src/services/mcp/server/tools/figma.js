@@ -0,0 +1,52 @@
+/**
+ * Figma tool module
+ *
+ * Runs in the sandbox worker. Uses the integration's apiKey as a Figma
+ * personal access token.
+ */
+
+const API_URL = 'https://api.figma.com/v1';
+
+async function figma(context, route) {
+  const response = await fetch(`${context.config.baseUrl || API_URL}${route}`, {
+    headers: {
+      ...(context.config.apiKey ? { 'X-Figma-Token': context.config.apiKey } : {}),
+      ...(context.config.headers || {})
+    }
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`Figma API ${response.status}: ${body.err || body.message || response.statusText}`);
+  }
+  return body;
+}
+
+exports.getFile = async (params, context) => {
+  const file = await figma(context, `/files/${encodeURIComponent(params.fileKey)}?depth=1`);
+  return {
+    name: file.name,
+    lastModified: file.lastModified,
+    version: file.version,
+    pages: (file.document.children || []).map(page => ({ id: page.id, name: page.name }))
+  };
+};
+
+exports.exportComponents = async (params, context) => {
+  const fileKey = encodeURIComponent(params.fileKey);
+  const { meta } = await figma(context, `/files/${fileKey}/components`);
+  const components = meta.components || [];
+  if (components.length === 0) {
+    return { components: [], format: params.format, exported: 0 };
+  }
+  const ids = components.map(component => component.node_id).join(',');
+  const { images } = await figma(context, `/images/${fileKey}?ids=${encodeURIComponent(ids)}&format=${params.format}`);
+  return {
+    components: components.map(component => ({
+      id: component.node_id,
+      name: component.name,
+      url: images[component.node_id] || null
+    })),
+    format: params.format,
+    exported: components.filter(component => images[component.node_id]).length
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * GitHub tool module
+ *
+ * Runs in the sandbox worker. Authenticates with the integration's
+ * apiKey as a GitHub token.
+ */
+
+const API_URL = 'https://api.github.com';
+
+async function github(context, route, options = {}) {
+  const response = await fetch(`${context.config.baseUrl || API_URL}${route}`, {
+    ...options,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      ...(context.config.apiKey ? { Authorization: `Bearer ${context.config.apiKey}` } : {}),
+      ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(context.config.headers || {})
+    }
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`GitHub API ${response.status}: ${body.message || response.statusText}`);
+  }
+  return body;
+}
+
+exports.listRepositories = async (params, context) => {
+  const page = params.page || 1;
+  const query = new URLSearchParams({ page: String(page), per_page: String(params.perPage || 30) });
+  const repositories = await github(context, `/user/repos?${query}`);
+  return {
+    repositories: repositories.map(repo => ({
+      id: repo.id,
+      name: repo.full_name,
+      description: repo.description,
+      stars: repo.stargazers_count,
+      url: repo.html_url
+    })),
+    page
+  };
+};
+
+exports.createIssue = async (params, context) => {
+  const issue = await github(context, `/repos/${params.repo}/issues`, {
+    method: 'POST',
+    body: JSON.stringify({ title: params.title, body: params.body })
+  });
+  return {
+    id: issue.id,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    html_url: issue.html_url
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * Linear tool module
+ *
+ * Runs in the sandbox worker. Talks to the Linear GraphQL API with the
+ * integration's apiKey.
+ */
+
+const API_URL = 'https://api.linear.app/graphql';
+
+async function linear(context, query, variables) {
+  const response = await fetch(context.config.baseUrl || API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(context.config.apiKey ? { Authorization: context.config.apiKey } : {}),
+      ...(context.config.headers || {})
+    },
+    body: JSON.stringify({ query, variables })
+  });
+  const body = await response.json();
+  if (!response.ok || body.errors) {
+    const message = body.errors ? body.errors.map(error => error.message).join('; ') : response.statusText;
+    throw new Error(`Linear API ${response.status}: ${message}`);
+  }
+  return body.data;
+}
+
+const ISSUE_FIELDS = 'id identifier title description url state { name }';
+
+const toIssue = issue => ({
+  id: issue.id,
+  identifier: issue.identifier,
+  title: issue.title,
+  description: issue.description,
+  state: issue.state ? issue.state.name : null,
+  url: issue.url
+});
+
+exports.listIssues = async (params, context) => {
+  const filter = {};
+  if (params.teamId) filter.team = { id: { eq: params.teamId } };
+  if (params.filter) filter.title = { containsIgnoreCase: params.filter };
+  const data = await linear(
+    context,
+    `query Issues($filter: IssueFilter) { issues(filter: $filter) { nodes { ${ISSUE_FIELDS} } } }`,
+    { filter }
+  );
+  return { issues: data.issues.nodes.map(toIssue) };
+};
+
+exports.createIssue = async (params, context) => {
+  const data = await linear(
+    context,
+    `mutation CreateIssue($input: IssueCreateInput!) {
+      issueCreate(input: $input) { success issue { ${ISSUE_FIELDS} } }
+    }`,
+    { input: { teamId: params.teamId, title: params.title, description: params.description } }
+  );
+  if (!data.issueCreate.success) {
+    throw new Error('Linear did not create the issue');
+  }
+  return toIssue(data.issueCreate.issue);
+};
@@ -0,0 +1,31 @@
+/**
+ * OpenAI tool module
+ *
+ * Runs in the sandbox worker. Uses the chat completions API with the
+ * integration's apiKey.
+ */
+
+const API_URL = 'https://api.openai.com/v1';
+
+exports.complete = async (params, context) => {
+  const model = params.model || 'gpt-3.5-turbo';
+  const response = await fetch(`${context.config.baseUrl || API_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(context.config.apiKey ? { Authorization: `Bearer ${context.config.apiKey}` } : {}),
+      ...(context.config.headers || {})
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: params.prompt }],
+      ...(params.maxTokens ? { max_tokens: params.maxTokens } : {})
+    })
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`OpenAI API ${response.status}: ${body.error ? body.error.message : response.statusText}`);
+  }
+  const [choice] = body.choices;
+  return { text: choice ? choice.message.content : '', model: body.model, usage: body.usage };
+};
@@ -0,0 +1,26 @@
+/**
+ * Slack tool module
+ *
+ * Runs in the sandbox worker. Uses the integration's apiKey as a bot
+ * token for the Web API.
+ */
+
+const API_URL = 'https://slack.com/api';
+
+exports.sendMessage = async (params, context) => {
+  const response = await fetch(`${context.config.baseUrl || API_URL}/chat.postMessage`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      ...(context.config.apiKey ? { Authorization: `Bearer ${context.config.apiKey}` } : {}),
+      ...(context.config.headers || {})
+    },
+    body: JSON.stringify({ channel: params.channel, text: params.text, attachments: params.attachments })
+  });
+  const body = await response.json();
+  // Slack reports failures with ok: false and a 200 status
+  if (!response.ok || !body.ok) {
+    throw new Error(`Slack API ${response.status}: ${body.error || response.statusText}`);
+  }
+  return { channel: body.channel, ts: body.ts };
+};
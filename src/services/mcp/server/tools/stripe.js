@@ -0,0 +1,37 @@
+/**
+ * Stripe tool module
+ *
+ * Runs in the sandbox worker. Uses the integration's apiKey as the
+ * Stripe secret key.
+ */
+
+const API_URL = 'https://api.stripe.com/v1';
+
+exports.createPaymentIntent = async (params, context) => {
+  const form = new URLSearchParams({
+    amount: String(params.amount),
+    currency: params.currency || 'usd'
+  });
+  if (params.description) form.set('description', params.description);
+
+  const response = await fetch(`${context.config.baseUrl || API_URL}/payment_intents`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(context.config.apiKey ? { Authorization: `Bearer ${context.config.apiKey}` } : {}),
+      ...(context.config.headers || {})
+    },
+    body: form.toString()
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`Stripe API ${response.status}: ${body.error ? body.error.message : response.statusText}`);
+  }
+  return {
+    id: body.id,
+    amount: body.amount,
+    currency: body.currency,
+    status: body.status,
+    clientSecret: body.client_secret
+  };
+};
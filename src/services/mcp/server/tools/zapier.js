@@ -0,0 +1,24 @@
+/**
+ * Zapier tool module
+ *
+ * Runs in the sandbox worker. Posts JSON to a Zapier catch hook.
+ */
+
+exports.triggerWebhook = async (params) => {
+  const response = await fetch(params.webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params.data)
+  });
+  if (!response.ok) {
+    throw new Error(`Zapier webhook ${response.status}: ${response.statusText}`);
+  }
+  const text = await response.text();
+  let body = {};
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    body = { text };
+  }
+  return { status: response.status, response: body };
+};
@@ -19,6 +19,9 @@ export interface MCPSecurityConfig {
   blockedDomains: string[];
   requireSignature: boolean;
   encryptionKey?: string;
+  // Node.js 20+ binary that runs sandboxed code under the permission
+  // model; defaults to the running executable
+  nodePath?: string;
 }
 
 export interface MCPStorageConfig {
@@ -43,11 +46,23 @@ export interface MCPIntegration {
   category: MCPIntegrationCategory;
   tools: MCPTool[];
   permissions: MCPPermission[];
+  capabilities?: MCPCapabilities;
   config?: MCPIntegrationConfig;
-  signature?: string;
+  signature?: MCPIntegrationSignature;
   sandboxConfig?: MCPSandboxConfig;
 }
 
+// Detached Ed25519 signature over the manifest's canonical content
+export interface MCPIntegrationSignature {
+  algorithm: 'ed25519';
+  // Fingerprint of the publisher's public key in the keyring
+  keyId: string;
+  publisher: string;
+  // Base64 signature bytes
+  value: string;
+  signedAt: string;
+}
+
 export type MCPIntegrationCategory = 
   | 'ai'
   | 'analytics'
@@ -69,6 +84,10 @@ export interface MCPTool {
   outputSchema?: MCPSchema;
   examples?: MCPToolExample[];
   rateLimit?: MCPRateLimit;
+  // Module implementing the tool: `builtin:<module>#<export>` for modules
+  // shipped with SessionHub, or a path in the package bundle such as
+  // `src/tools.js#createIssue`. The export defaults to the tool name.
+  handler?: string;
 }
 
 export interface MCPSchema {
@@ -110,6 +129,41 @@ export type MCPPermission =
   | 'microphone'
   | 'location';
 
+// What the sandbox worker hands an integration's tool modules. A grant
+// only takes effect when the matching permission is declared too: fs needs
+// filesystem, network needs network and subprocess needs process.
+export interface MCPCapabilities {
+  fs?: {
+    // Relative paths resolve against the package directory
+    read?: string[];
+    write?: string[];
+  };
+  network?: {
+    // A host also matches its subdomains
+    hosts: string[];
+  };
+  // Host environment variables exposed as env.<NAME>
+  env?: string[];
+  subprocess?: {
+    // Executables the module may run, without a shell
+    commands: string[];
+  };
+}
+
+export type MCPCapability = keyof MCPCapabilities;
+
+// A denied capability use reported by the sandbox worker
+export interface MCPPermissionViolation {
+  integrationId: string;
+  integrationName: string;
+  tool: string;
+  capability: MCPCapability;
+  // Path, host, variable name or command that was refused
+  target: string;
+  reason: string;
+  timestamp: string;
+}
+
 export interface MCPIntegrationConfig {
   apiKey?: string;
   baseUrl?: string;
@@ -160,6 +214,23 @@ export interface MCPIntegrationManifest {
   integration: MCPIntegration;
   installation: MCPInstallationConfig;
   marketplace?: MCPMarketplaceMetadata;
+  // Set by the host for integrations installed from a package index
+  source?: MCPPackageSource;
+}
+
+export interface MCPPackageSource {
+  packageId: string;
+  // Location of the package index it was installed from
+  index: string;
+  version: string;
+  // Upgrades are refused while pinned
+  pinnedVersion?: string;
+}
+
+// A file from a package's code bundle, already checked against the manifest
+export interface MCPBundleFile {
+  path: string;
+  content: Buffer;
 }
 
 export interface MCPInstallationConfig {
@@ -180,6 +251,33 @@ export interface MCPFileEntry {
   checksum?: string;
 }
 
+export interface MCPTrustedKey {
+  keyId: string;
+  publisher: string;
+  // SPKI PEM public key
+  publicKey: string;
+  addedAt: string;
+  // Local keys are generated on this machine and can sign
+  source: 'local' | 'imported';
+}
+
+export type MCPSignatureStatus = 'valid' | 'unsigned' | 'invalid' | 'untrusted';
+
+export interface MCPSignatureCheck {
+  status: MCPSignatureStatus;
+  keyId?: string;
+  publisher?: string;
+  reason?: string;
+}
+
+export interface MCPQuarantineEntry {
+  id: string;
+  manifest: MCPIntegrationManifest;
+  status: Exclude<MCPSignatureStatus, 'valid'>;
+  reason: string;
+  quarantinedAt: string;
+}
+
 export interface MCPMarketplaceMetadata {
   featured: boolean;
   downloads: number;
@@ -196,4 +294,34 @@ export interface MCPPricingModel {
   currency?: string;
   billingPeriod?: 'monthly' | 'yearly' | 'lifetime';
   features?: string[];
-}
\ No newline at end of file
+}
+// MCP JSON-RPC protocol (https://modelcontextprotocol.io/specification)
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  // Absent on notifications, which get no response
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcSuccess {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result: Record<string, any>;
+}
+
+export interface JsonRpcFailure {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  error: { code: number; message: string; data?: any };
+}
+
+export type JsonRpcResponse = JsonRpcSuccess | JsonRpcFailure;
+
+export interface MCPServerInfo {
+  name: string;
+  version: string;
+}
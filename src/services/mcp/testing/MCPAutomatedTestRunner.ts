@@ -1,8 +1,10 @@
 import { EventEmitter } from 'events';
-import { MCPIntegrationTestFramework, TestConfig, IntegrationTestReport } from './MCPIntegrationTestFramework';
+import { MCPIntegrationTestFramework, TestConfig, TestCase, IntegrationTestReport, TestToolExecutor } from './MCPIntegrationTestFramework';
 import { MCPBatchProcessor } from '../batch/MCPBatchProcessor';
 import { MCPIntegrationMonitor } from '../monitoring/MCPIntegrationMonitor';
 import { MCPIntegrationService } from '../core/MCPIntegrationManager';
+import { MCPMockService } from '../mock/MCPMockService';
+import { FixtureOptions } from '../mock/MCPFixtureStore';
 import { Logger } from '../../../lib/logging/Logger';
 import * as cron from 'node-cron';
 import * as fs from 'fs/promises';
@@ -16,6 +18,9 @@ export interface AutomatedTestConfig {
   loadTestProfiles: LoadTestProfile[];
   reportingConfig: ReportingConfig;
   cicdIntegration: CICDConfig;
+  // Replay recorded fixtures instead of calling integrations, so runs
+  // work offline; each fixture becomes a test case
+  fixtures?: FixtureOptions;
 }
 
 export interface TestType {
@@ -108,21 +113,28 @@ export class MCPAutomatedTestRunner extends EventEmitter {
   private batchProcessor: MCPBatchProcessor;
   private monitor: MCPIntegrationMonitor;
   private integrationService: MCPIntegrationService;
+  private mockService?: MCPMockService;
+  private executor: TestToolExecutor;
   private config: AutomatedTestConfig;
   private scheduledTask?: cron.ScheduledTask;
   private activeTests: Map<string, TestRunResult> = new Map();
   private faultInjector: FaultInjector;
 
-  constructor(config: AutomatedTestConfig) {
+  // Pass the app's processor so batch runs are persisted and resumable
+  constructor(config: AutomatedTestConfig, batchProcessor?: MCPBatchProcessor) {
     super();
     this.logger = new Logger('MCP');
     this.config = config;
-    this.testFramework = new MCPIntegrationTestFramework();
-    this.batchProcessor = new MCPBatchProcessor();
+    this.batchProcessor = batchProcessor ?? new MCPBatchProcessor();
     this.monitor = new MCPIntegrationMonitor();
     this.integrationService = new MCPIntegrationService();
     (this.integrationService as any).getIntegration = async (id: string) => ({ id, name: 'Test', tools: [] });
     (this.integrationService as any).executeTool = async () => ({ success: true });
+    if (config.fixtures) {
+      this.mockService = new MCPMockService({ enabled: true, latency: { min: 0, max: 0 }, errorRate: 0, scenarios: [] });
+    }
+    this.executor = this.mockService || this.integrationService;
+    this.testFramework = new MCPIntegrationTestFramework(this.executor);
     this.faultInjector = new FaultInjector();
 
     this.setupEventListeners();
@@ -211,6 +223,10 @@ export class MCPAutomatedTestRunner extends EventEmitter {
   }
 
   private async getIntegrationsToTest(): Promise<any[]> {
+    if (this.mockService && this.config.fixtures) {
+      return this.getFixtureIntegrations(this.mockService, this.config.fixtures);
+    }
+
     if (this.config.integrationIds && this.config.integrationIds.length > 0) {
       const integrations = [];
       for (const id of this.config.integrationIds) {
@@ -225,6 +241,26 @@ export class MCPAutomatedTestRunner extends EventEmitter {
     return await this.integrationService.getAvailableIntegrations();
   }
 
+  // Integrations as far as the recorded fixtures describe them
+  private async getFixtureIntegrations(mockService: MCPMockService, fixtures: FixtureOptions): Promise<any[]> {
+    if (mockService.getMode() !== 'replay') {
+      await mockService.startReplay(fixtures);
+    }
+
+    const integrations = new Map<string, { id: string; name: string; tools: { name: string }[] }>();
+    for (const fixture of mockService.getFixtures()) {
+      const integration = integrations.get(fixture.integrationId) ||
+        { id: fixture.integrationId, name: fixture.integrationId, tools: [] };
+      if (!integration.tools.some(tool => tool.name === fixture.tool)) {
+        integration.tools.push({ name: fixture.tool });
+      }
+      integrations.set(integration.id, integration);
+    }
+
+    const ids = this.config.integrationIds;
+    return Array.from(integrations.values()).filter(i => !ids || ids.length === 0 || ids.includes(i.id));
+  }
+
   private isTestTypeEnabled(type: string): boolean {
     const testType = this.config.testTypes.find(t => t.name === type);
     return testType?.enabled ?? false;
@@ -457,7 +493,7 @@ export class MCPAutomatedTestRunner extends EventEmitter {
     try {
       // Execute a random tool from the integration
       const tool = integration.tools[Math.floor(Math.random() * integration.tools.length)];
-      await this.integrationService.executeTool(integration.id, tool.name, {});
+      await this.executor.executeTool(integration.id, tool.name, {});
 
       const responseTime = Date.now() - startTime;
       
@@ -763,7 +799,7 @@ ${result.summary}
     // Implementation similar to test framework
     return {
       integration,
-      testCases: [],
+      testCases: this.mockService ? this.getFixtureTestCases(this.mockService, integration.id) : [],
       performanceThresholds: {
         maxResponseTime: 1000,
         minThroughput: 10,
@@ -773,6 +809,18 @@ ${result.summary}
     };
   }
 
+  private getFixtureTestCases(mockService: MCPMockService, integrationId: string): TestCase[] {
+    return mockService.getFixtures(integrationId).map((fixture, index) => ({
+      id: `${integrationId}-${fixture.tool}-${index + 1}`,
+      name: `${fixture.tool} (recorded)`,
+      description: `Replays the ${fixture.tool} call recorded at ${fixture.recordedAt}`,
+      type: 'integration',
+      tool: fixture.tool,
+      input: fixture.input,
+      ...(fixture.error ? { expectedError: fixture.error.message } : { expectedOutput: fixture.output }),
+    }));
+  }
+
   private setupEventListeners(): void {
     this.testFramework.on('test-started', (data) => {
       this.emit('integration-test-started', data);
@@ -0,0 +1,385 @@
+import { EventEmitter } from 'events';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import Ajv, { ValidateFunction } from 'ajv';
+import { IntegrationTestReport, TestResult } from './MCPIntegrationTestFramework';
+import { MCPClient } from '../client/MCPClient';
+import { MCPStdioClientTransport } from '../client/MCPStdioClientTransport';
+import { MCPRemoteTool, MCPToolCallResult } from '../client/types';
+import { MCPTemplateManager } from '../MCPTemplateManager';
+import { MCPServerConfig, MCPTool, SupportedLanguage } from '../types';
+import { Logger } from '../../../lib/logging/Logger';
+
+const execAsync = promisify(exec);
+
+/**
+ * Generated server to check against the config it was generated from.
+ * The server is started with its template's run command unless a
+ * command is given.
+ */
+export interface ConformanceTarget {
+  language: SupportedLanguage;
+  serverPath: string;
+  config: MCPServerConfig;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  // Run the template's build command first
+  build?: boolean;
+  timeoutMs?: number;
+}
+
+// Test report for one generated server, accepted by MCPResultsAggregator
+export interface ConformanceReport extends IntegrationTestReport {
+  language: SupportedLanguage;
+  serverPath: string;
+  // Declared in the config but not listed by the server
+  missingTools: string[];
+  // Listed by the server but not declared in the config
+  undeclaredTools: string[];
+}
+
+/**
+ * Sample value satisfying a JSON schema: const, enum, default or the
+ * first example when present, otherwise the smallest value of the type
+ * that meets its bounds. Objects only get their required properties.
+ */
+export function sampleFromSchema(schema: any, depth = 0): any {
+  if (!schema || typeof schema !== 'object' || depth > 8) return null;
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if ('default' in schema) return schema.default;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return sampleFromSchema(variants[0], depth + 1);
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce(
+      (merged: any, part: any) => ({ ...merged, ...sampleFromSchema(part, depth + 1) }),
+      {}
+    );
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t: string) => t !== 'null') || 'null'
+    : schema.type || (schema.properties ? 'object' : 'string');
+
+  switch (type) {
+    case 'object': {
+      const value: Record<string, any> = {};
+      for (const key of schema.required || []) {
+        value[key] = sampleFromSchema(schema.properties?.[key] || {}, depth + 1);
+      }
+      return value;
+    }
+    case 'array':
+      return Array.from(
+        { length: Math.max(schema.minItems || 0, 1) },
+        () => sampleFromSchema(schema.items || {}, depth + 1)
+      );
+    case 'integer':
+    case 'number': {
+      let value = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 1);
+      if (schema.maximum !== undefined) value = Math.min(value, schema.maximum);
+      return type === 'integer' ? Math.ceil(value) : value;
+    }
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return sampleString(schema);
+  }
+}
+
+function sampleString(schema: any): string {
+  switch (schema.format) {
+    case 'date-time':
+      return '2024-01-01T00:00:00Z';
+    case 'date':
+      return '2024-01-01';
+    case 'email':
+      return 'test@example.com';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    case 'uuid':
+      return '00000000-0000-4000-8000-000000000000';
+  }
+  const value = 'test'.padEnd(schema.minLength || 0, 'x');
+  return schema.maxLength !== undefined ? value.slice(0, schema.maxLength) : value;
+}
+
+/**
+ * Language-agnostic conformance checks for generated MCP servers. Starts
+ * the server over stdio, runs the MCP handshake, then checks that every
+ * tool declared in the server's config is listed and answers a call with
+ * schema-generated input with content matching its output schema.
+ */
+export class MCPConformanceHarness extends EventEmitter {
+  private logger: Logger;
+  private templateManager: MCPTemplateManager;
+  private ajv: Ajv;
+
+  constructor(templateManager: MCPTemplateManager = new MCPTemplateManager()) {
+    super();
+    this.logger = new Logger('MCP');
+    this.templateManager = templateManager;
+    this.ajv = new Ajv({ allErrors: true, strict: false });
+  }
+
+  async run(target: ConformanceTarget): Promise<ConformanceReport> {
+    const { config, language } = target;
+    const template = this.templateManager.getTemplate(language);
+    if (!template) {
+      throw new Error(`No template available for language: ${language}`);
+    }
+
+    this.emit('conformance-started', { server: config.name, language });
+    const results: TestResult[] = [];
+    let listed: MCPRemoteTool[] = [];
+
+    const [command, ...args] = target.command
+      ? [target.command, ...(target.args || [])]
+      : template.runCommand?.split(/\s+/) || [];
+    if (!command) {
+      throw new Error(`Template for ${language} has no run command`);
+    }
+
+    const client = new MCPClient(config.name, new MCPStdioClientTransport({
+      name: config.name,
+      transport: 'stdio',
+      command,
+      args,
+      env: target.env,
+      cwd: target.serverPath,
+      timeoutMs: target.timeoutMs,
+    }, this.logger));
+
+    try {
+      listed = await this.check(results, 'handshake', async () => {
+        if (target.build && template.buildCommand) {
+          await execAsync(template.buildCommand, {
+            cwd: target.serverPath,
+            timeout: 10 * 60 * 1000,
+            maxBuffer: 10 * 1024 * 1024,
+          });
+        }
+        await client.connect();
+        return client.listTools();
+      }) || [];
+
+      for (const tool of config.tools) {
+        const remote = listed.find(t => t.name === tool.name);
+        if (results[0]?.status !== 'passed') {
+          this.skip(results, tool, 'handshake failed');
+          continue;
+        }
+
+        const input = await this.check(results, `${tool.name}:listed`, async () => {
+          if (!remote) {
+            throw new Error(`Tool ${tool.name} is declared but not listed by the server`);
+          }
+          return this.generateInput(tool, remote);
+        });
+
+        if (input === undefined) {
+          this.skip(results, tool, 'tool is not callable', ['call']);
+          continue;
+        }
+
+        await this.check(results, `${tool.name}:call`, async () => {
+          const result = await client.callTool(tool.name, input);
+          return this.checkResult(tool, result);
+        });
+      }
+    } finally {
+      await client.close();
+    }
+
+    const declared = new Set(config.tools.map(tool => tool.name));
+    const report = this.buildReport(target, results, {
+      missingTools: results[0]?.status === 'passed'
+        ? config.tools.filter(tool => !listed.some(t => t.name === tool.name)).map(tool => tool.name)
+        : [],
+      undeclaredTools: listed.filter(tool => !declared.has(tool.name)).map(tool => tool.name),
+    });
+
+    this.logger.info(`Conformance check for ${config.name} (${language}): ${report.passed}/${report.totalTests} passed`);
+    this.emit('conformance-completed', report);
+    return report;
+  }
+
+  /**
+   * Check several generated servers, one at a time
+   */
+  async runAll(targets: ConformanceTarget[]): Promise<ConformanceReport[]> {
+    const reports: ConformanceReport[] = [];
+    for (const target of targets) {
+      reports.push(await this.run(target));
+    }
+    return reports;
+  }
+
+  // Input valid under the declared schema that the listed schema also accepts
+  private generateInput(tool: MCPTool, remote: MCPRemoteTool): Record<string, any> {
+    const input = sampleFromSchema(tool.inputSchema);
+    const declaredErrors = this.validate(input, tool.inputSchema);
+    if (declaredErrors) {
+      throw new Error(`Could not generate input for ${tool.name}: ${declaredErrors}`);
+    }
+
+    const listedErrors = this.validate(input, remote.inputSchema || {});
+    if (listedErrors) {
+      throw new Error(`Listed input schema of ${tool.name} rejects input valid under the declared schema: ${listedErrors}`);
+    }
+    return input;
+  }
+
+  private checkResult(tool: MCPTool, result: MCPToolCallResult): MCPToolCallResult {
+    if (result.isError) {
+      const message = result.content.find(item => item.type === 'text')?.text;
+      throw new Error(`Tool ${tool.name} returned an error${message ? `: ${message}` : ''}`);
+    }
+
+    if (!Array.isArray(result.content) || result.content.some(item => typeof item?.type !== 'string')) {
+      throw new Error(`Tool ${tool.name} returned content without a type`);
+    }
+    if (result.content.some(item => item.type === 'text' && typeof item.text !== 'string')) {
+      throw new Error(`Tool ${tool.name} returned text content without text`);
+    }
+
+    if (tool.outputSchema) {
+      // Servers predating structured content return the JSON as text
+      const text = result.content.find(item => item.type === 'text')?.text;
+      const output = result.structuredContent ?? this.parseJson(text);
+      if (output === undefined) {
+        throw new Error(`Tool ${tool.name} declares an output schema but returned no structured content`);
+      }
+
+      const errors = this.validate(output, tool.outputSchema);
+      if (errors) {
+        throw new Error(`Output of ${tool.name} does not match its output schema: ${errors}`);
+      }
+    }
+
+    return result;
+  }
+
+  private validate(value: any, schema: Record<string, any>): string | null {
+    let validator: ValidateFunction;
+    try {
+      validator = this.ajv.compile(schema);
+    } catch (error) {
+      return `invalid schema (${(error as Error).message})`;
+    }
+
+    if (validator(value)) return null;
+    return (validator.errors || [])
+      .map(error => `${error.instancePath || '/'} ${error.message}`)
+      .join(', ');
+  }
+
+  private parseJson(text: string | undefined): any {
+    if (text === undefined) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Record a passed or failed check; resolves with the check's value when it passed
+  private async check<T>(results: TestResult[], id: string, fn: () => Promise<T>): Promise<T | undefined> {
+    const start = Date.now();
+    try {
+      const value = await fn();
+      const responseTime = Date.now() - start;
+      results.push({
+        testCaseId: id,
+        status: 'passed',
+        duration: responseTime,
+        actualOutput: value,
+        performanceMetrics: { responseTime, throughput: 0, memoryUsage: 0, cpuUsage: 0, networkLatency: 0 },
+        timestamp: new Date(),
+      });
+      return value;
+    } catch (error) {
+      results.push({
+        testCaseId: id,
+        status: 'failed',
+        duration: Date.now() - start,
+        error: (error as Error).message,
+        timestamp: new Date(),
+      });
+      return undefined;
+    }
+  }
+
+  private skip(results: TestResult[], tool: MCPTool, reason: string, checks = ['listed', 'call']): void {
+    for (const check of checks) {
+      results.push({
+        testCaseId: `${tool.name}:${check}`,
+        status: 'skipped',
+        duration: 0,
+        error: reason,
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  private buildReport(
+    target: ConformanceTarget,
+    results: TestResult[],
+    tools: Pick<ConformanceReport, 'missingTools' | 'undeclaredTools'>
+  ): ConformanceReport {
+    const { config, language } = target;
+    const passed = results.filter(r => r.status === 'passed').length;
+    const failed = results.filter(r => r.status === 'failed').length;
+    const skipped = results.filter(r => r.status === 'skipped').length;
+    const conforming = config.tools.filter(tool =>
+      results.some(r => r.testCaseId === `${tool.name}:call` && r.status === 'passed')
+    );
+    const responseTimes = results
+      .filter(r => r.testCaseId.endsWith(':call') && r.performanceMetrics)
+      .map(r => r.performanceMetrics!.responseTime);
+
+    const recommendations: string[] = [];
+    if (results[0]?.status === 'failed') {
+      recommendations.push(`Make sure the ${language} server builds and starts with "${target.command || this.templateManager.getTemplate(language)?.runCommand}"`);
+    }
+    if (tools.missingTools.length > 0) {
+      recommendations.push(`Implement the declared tools: ${tools.missingTools.join(', ')}`);
+    }
+    if (tools.undeclaredTools.length > 0) {
+      recommendations.push(`Declare or remove the tools: ${tools.undeclaredTools.join(', ')}`);
+    }
+    for (const result of results.filter(r => r.status === 'failed' && r.testCaseId.endsWith(':call'))) {
+      recommendations.push(`Fix ${result.testCaseId.replace(/:call$/, '')}: ${result.error}`);
+    }
+
+    return {
+      integrationId: `${config.name}:${language}`,
+      integrationName: `${config.name} (${language})`,
+      totalTests: results.length,
+      passed,
+      failed,
+      skipped,
+      coverage: config.tools.length > 0 ? (conforming.length / config.tools.length) * 100 : 100,
+      averageResponseTime: responseTimes.length > 0
+        ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
+        : 0,
+      performanceScore: 100,
+      reliability: passed + failed > 0 ? (passed / (passed + failed)) * 100 : 0,
+      testResults: results,
+      summary: `${conforming.length} of ${config.tools.length} declared tools conform; ${passed} passed, ${failed} failed, ${skipped} skipped`,
+      recommendations,
+      timestamp: new Date(),
+      language,
+      serverPath: target.serverPath,
+      ...tools,
+    };
+  }
+}
@@ -84,16 +84,23 @@ export interface IntegrationTestReport {
   timestamp: Date;
 }
 
+// Runs the tools under test, e.g. MCPMockService replaying recorded fixtures
+export interface TestToolExecutor {
+  executeTool(integrationId: string, tool: string, input: any): Promise<any>;
+}
+
 export class MCPIntegrationTestFramework extends EventEmitter {
   private logger: Logger;
   private integrationService: MCPIntegrationService;
+  private executor: TestToolExecutor;
   private performanceObserver?: PerformanceObserver;
 
-  constructor() {
+  constructor(executor?: TestToolExecutor) {
     super();
     this.logger = new Logger('MCP');
     this.integrationService = new MCPIntegrationService();
     (this.integrationService as any).executeTool = async () => ({ success: true });
+    this.executor = executor || this.integrationService;
   }
 
   async runIntegrationTests(config: TestConfig): Promise<IntegrationTestReport> {
@@ -151,14 +158,26 @@ export class MCPIntegrationTestFramework extends EventEmitter {
         attempts++;
         
         // Set timeout
+        let timer: NodeJS.Timeout | undefined;
         const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Test timeout')), testCase.timeout || 30000);
+          timer = setTimeout(() => reject(new Error('Test timeout')), testCase.timeout || 30000);
         });
 
         // Execute test
         const testPromise = this.executeTest(testCase, config.integration);
         
-        const actualOutput = await Promise.race([testPromise, timeoutPromise]);
+        const actualOutput = await Promise.race([testPromise, timeoutPromise]).finally(() => clearTimeout(timer));
+
+        if (testCase.expectedError) {
+          return {
+            testCaseId: testCase.id,
+            status: 'failed',
+            duration: Date.now() - startTime,
+            error: `Expected the call to fail with: ${testCase.expectedError}`,
+            actualOutput,
+            timestamp: new Date()
+          };
+        }
         
         // Validate output if expected output is provided
         if (testCase.expectedOutput !== undefined) {
@@ -178,6 +197,15 @@ export class MCPIntegrationTestFramework extends EventEmitter {
         };
 
       } catch (error: any) {
+        if (testCase.expectedError && String(error.message).includes(testCase.expectedError)) {
+          return {
+            testCaseId: testCase.id,
+            status: 'passed',
+            duration: Date.now() - startTime,
+            error: error.message,
+            timestamp: new Date()
+          };
+        }
         if (attempts >= maxAttempts) {
           return {
             testCaseId: testCase.id,
@@ -210,7 +238,7 @@ export class MCPIntegrationTestFramework extends EventEmitter {
 
     // Execute the tool with test input
     // This would need to be implemented based on the actual tool execution mechanism
-    return await this.integrationService.executeTool(integration.id, testCase.tool, testCase.input);
+    return await this.executor.executeTool(integration.id, testCase.tool, testCase.input);
   }
 
   private validateOutput(actual: any, expected: any): void {
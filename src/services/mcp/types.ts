@@ -20,6 +20,7 @@ export interface MCPTool {
     properties: Record<string, any>;
     required?: string[];
   };
+  outputSchema?: Record<string, any>; // Schema of the tool's structuredContent
   handler?: string; // Function name or path to handler
 }
 
@@ -39,6 +40,13 @@ export interface MCPServerConfig {
   prompts?: MCPPrompt[];
 }
 
+// What generateMCPIntegration produced and where
+export interface MCPServerManifest extends MCPServerConfig {
+  language: SupportedLanguage;
+  serverPath: string;
+  generatedAt: string;
+}
+
 export interface MCPResource {
   uri: string;
   name: string;
@@ -8,6 +8,13 @@ import { Logger } from '@/src/lib/logging/Logger';
 import { DatabaseService } from '@/src/database/DatabaseService';
 import { applyPatch, createPatch } from 'diff';
 import { v4 as uuidv4 } from 'uuid';
+import { MergeConflict, threeWayMerge } from './ThreeWayMerge';
+
+// Identity and sync bookkeeping differ between copies without being edits
+const IGNORED_FIELDS = [
+  'id', 'created_at', 'createdAt', 'updated_at', 'updatedAt',
+  'sync_status', 'revision', 'base_revision'
+];
 
 export interface ConflictItem {
   id: string;
@@ -48,13 +55,31 @@ export class ConflictResolutionService extends EventEmitter {
   private readonly db: DatabaseService;
   private strategies: Map<string, ResolutionStrategy> = new Map();
   private activeConflicts: Map<string, ConflictItem> = new Map();
+  private ready: Promise<void>;
 
   constructor(db: DatabaseService) {
     super();
     this.logger = new Logger('ConflictResolutionService');
     this.db = db;
-    this.initializeSchema();
     this.registerDefaultStrategies();
+    this.ready = this.initializeSchema().then(() => this.loadPendingConflicts());
+  }
+
+  /**
+   * Resolves once conflicts left pending by an earlier run are loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  private async loadPendingConflicts(): Promise<void> {
+    const rows = (await this.db.query(`
+      SELECT * FROM conflicts WHERE status = 'pending'
+    `)).rows;
+    rows.forEach(row => {
+      const conflict = this.fromRow(row);
+      this.activeConflicts.set(conflict.id, conflict);
+    });
   }
 
   private async initializeSchema(): Promise<void> {
@@ -215,7 +240,10 @@ export class ConflictResolutionService extends EventEmitter {
   }
 
   /**
-   * Detect conflicts between local and remote versions
+   * Record the fields local and remote both changed from base. Fields
+   * only one side changed merge cleanly and are not conflicts. Without
+   * a base nothing shows which side changed a field, so nothing is
+   * recorded.
    */
   async detectConflict(
     table: string,
@@ -224,46 +252,59 @@ export class ConflictResolutionService extends EventEmitter {
     remoteData: any,
     baseData?: any
   ): Promise<ConflictItem[]> {
-    const conflicts: ConflictItem[] = [];
-    const conflictDetectedAt = new Date();
+    if (baseData === undefined || baseData === null) {
+      return [];
+    }
 
-    // Compare each field
-    const allFields = new Set([
-      ...Object.keys(localData),
-      ...Object.keys(remoteData)
-    ]);
+    const { conflicts } = threeWayMerge(baseData, localData, remoteData, {
+      ignoreFields: IGNORED_FIELDS
+    });
 
-    for (const field of allFields) {
-      if (this.shouldIgnoreField(field)) continue;
-
-      const localValue = localData[field];
-      const remoteValue = remoteData[field];
-      const baseValue = baseData?.[field];
-
-      // Check if values differ
-      if (!this.valuesEqual(localValue, remoteValue)) {
-        // Check if both changed from base
-        const localChanged = baseValue !== undefined && !this.valuesEqual(localValue, baseValue);
-        const remoteChanged = baseValue !== undefined && !this.valuesEqual(remoteValue, baseValue);
-
-        if (localChanged && remoteChanged) {
-          // Both changed - definite conflict
-          const conflict = await this.createConflict({
-            type: 'field',
-            table,
-            recordId,
-            field,
-            localValue,
-            remoteValue,
-            baseValue,
-            localTimestamp: new Date(localData.updated_at || localData.updatedAt),
-            remoteTimestamp: new Date(remoteData.updated_at || remoteData.updatedAt),
-            conflictDetectedAt
-          });
-
-          conflicts.push(conflict);
-        }
+    return this.recordConflicts(
+      table,
+      recordId,
+      conflicts,
+      new Date(localData.updated_at || localData.updatedAt),
+      new Date(remoteData.updated_at || remoteData.updatedAt)
+    );
+  }
+
+  /**
+   * Record the overlapping fields of an already computed merge, one
+   * conflict per field, in the same order. A field that already has an
+   * unresolved conflict keeps it rather than gaining a second one.
+   */
+  async recordConflicts(
+    table: string,
+    recordId: string,
+    fields: MergeConflict[],
+    localTimestamp: Date,
+    remoteTimestamp: Date
+  ): Promise<ConflictItem[]> {
+    await this.ready;
+    const conflictDetectedAt = new Date();
+    const conflicts: ConflictItem[] = [];
+
+    for (const field of fields) {
+      const pending = Array.from(this.activeConflicts.values()).find(conflict =>
+        conflict.table === table && conflict.recordId === recordId && conflict.field === field.field);
+      if (pending) {
+        conflicts.push(pending);
+        continue;
       }
+
+      conflicts.push(await this.createConflict({
+        type: 'field',
+        table,
+        recordId,
+        field: field.field,
+        localValue: field.localValue,
+        remoteValue: field.remoteValue,
+        baseValue: field.baseValue,
+        localTimestamp,
+        remoteTimestamp,
+        conflictDetectedAt
+      }));
     }
 
     return conflicts;
@@ -349,6 +390,7 @@ export class ConflictResolutionService extends EventEmitter {
     resolvedBy: 'auto' | 'user' = 'user',
     notes?: string
   ): Promise<ConflictResolution> {
+    await this.ready;
     const conflict = this.activeConflicts.get(conflictId);
     if (!conflict) {
       throw new Error(`Conflict ${conflictId} not found`);
@@ -436,6 +478,7 @@ export class ConflictResolutionService extends EventEmitter {
       errors: [] as Error[]
     };
 
+    await this.ready;
     const autoResolvable = Array.from(this.activeConflicts.values())
       .filter(c => c.autoResolvable);
 
@@ -458,26 +501,39 @@ export class ConflictResolutionService extends EventEmitter {
   }
 
   /**
-   * Get conflicts for a record
+   * Get conflicts for a record, newest first; resolved ones only when asked
    */
   async getConflictsForRecord(
     table: string, 
-    recordId: string
+    recordId: string,
+    includeResolved: boolean = false
   ): Promise<ConflictItem[]> {
     const results = (await this.db.query(`
       SELECT * FROM conflicts 
-      WHERE table_name = ? AND record_id = ? AND status = 'pending'
+      WHERE table_name = ? AND record_id = ?${includeResolved ? '' : " AND status = 'pending'"}
       ORDER BY detected_at DESC
     `, [table, recordId])).rows;
 
-    return results.map(r => ({
+    return results.map(r => this.fromRow(r));
+  }
+
+  /**
+   * Get all active conflicts, including those left pending by an earlier run
+   */
+  async getAllActiveConflicts(): Promise<ConflictItem[]> {
+    await this.ready;
+    return Array.from(this.activeConflicts.values());
+  }
+
+  private fromRow(r: any): ConflictItem {
+    return {
       id: r.id,
       type: r.type,
       table: r.table_name,
       recordId: r.record_id,
       field: r.field,
-      localValue: JSON.parse(r.local_value),
-      remoteValue: JSON.parse(r.remote_value),
+      localValue: r.local_value ? JSON.parse(r.local_value) : undefined,
+      remoteValue: r.remote_value ? JSON.parse(r.remote_value) : undefined,
       baseValue: r.base_value ? JSON.parse(r.base_value) : undefined,
       localTimestamp: new Date(r.local_timestamp),
       remoteTimestamp: new Date(r.remote_timestamp),
@@ -486,36 +542,12 @@ export class ConflictResolutionService extends EventEmitter {
       autoResolvable: r.auto_resolvable === 1,
       suggestedResolution: r.suggested_resolution,
       mergeStrategy: r.merge_strategy
-    }));
-  }
-
-  /**
-   * Get all active conflicts
-   */
-  async getAllActiveConflicts(): Promise<ConflictItem[]> {
-    return Array.from(this.activeConflicts.values());
+    };
   }
 
   /**
    * Helper methods
    */
-  private shouldIgnoreField(field: string): boolean {
-    const ignoredFields = ['id', 'created_at', 'createdAt', 'sync_status'];
-    return ignoredFields.includes(field);
-  }
-
-  private valuesEqual(a: any, b: any): boolean {
-    if (a === b) return true;
-    if (a == null || b == null) return false;
-    if (typeof a !== typeof b) return false;
-
-    if (typeof a === 'object') {
-      return JSON.stringify(a) === JSON.stringify(b);
-    }
-
-    return false;
-  }
-
   private calculateSeverity(data: Partial<ConflictItem>): 'low' | 'medium' | 'high' {
     // Critical fields
     if (['status', 'state', 'payment', 'amount'].includes(data.field || '')) {
@@ -9,6 +9,32 @@ import { LocalCacheService } from '../cache/LocalCacheService';
 import { SupabaseService } from '../cloud/SupabaseService';
 import { OfflineOperationQueue, QueuedOperation } from './OfflineOperationQueue';
 import { DatabaseService } from '@/src/database/DatabaseService';
+import { ConflictResolution, ConflictResolutionService } from './ConflictResolutionService';
+import { MergeConflict, setPath, threeWayMerge, valuesEqual } from './ThreeWayMerge';
+
+/**
+ * Bookkeeping every synced record carries. revision counts the versions
+ * written to the cloud; base_revision is the revision a local copy was
+ * last synced at, whose content is kept in sync_base as the common
+ * ancestor for three-way merges. The cloud tables carry the revision
+ * column from migration 007_sync_revisions.
+ */
+export interface SyncRevision {
+  revision?: number;
+  base_revision?: number;
+}
+
+export interface SyncFieldConflict {
+  // ConflictResolutionService item for this field
+  conflictId: string;
+  field: string;
+  path: string[];
+  baseValue: unknown;
+  localValue: unknown;
+  remoteValue: unknown;
+  resolvedValue?: unknown;
+  resolved: boolean;
+}
 
 export interface SyncConflict {
   id: string;
@@ -16,12 +42,21 @@ export interface SyncConflict {
   recordId: string;
   localVersion: any;
   remoteVersion: any;
+  // Common ancestor; absent when the record has no synced base yet
+  baseVersion?: any;
   localTimestamp: Date;
   remoteTimestamp: Date;
+  // Fields both sides changed; every other field is already merged into mergedVersion
+  fields: SyncFieldConflict[];
   resolution?: 'local' | 'remote' | 'merge';
   mergedVersion?: any;
 }
 
+type ReconcileOutcome = 'unchanged' | 'pushed' | 'pulled' | 'merged' | 'conflict' | 'stale';
+
+// Fields that differ between copies without being edits
+const SYNC_FIELDS = ['id', 'created_at', 'updated_at', 'sync_status', 'revision', 'base_revision'];
+
 export interface SyncProgress {
   phase: 'preparing' | 'uploading' | 'downloading' | 'resolving' | 'completed';
   current: number;
@@ -48,15 +83,18 @@ export class OfflineSyncEngine extends EventEmitter {
   private readonly supabase: SupabaseService;
   private readonly operationQueue: OfflineOperationQueue;
   private readonly db: DatabaseService;
+  private readonly conflictResolution: ConflictResolutionService;
   private syncInProgress: boolean = false;
   private readonly BATCH_SIZE = 100;
   private conflicts: Map<string, SyncConflict> = new Map();
+  private ready: Promise<void>;
 
   constructor(
     localCache: LocalCacheService,
     supabase: SupabaseService,
     operationQueue: OfflineOperationQueue,
-    db: DatabaseService
+    db: DatabaseService,
+    conflictResolution: ConflictResolutionService = new ConflictResolutionService(db)
   ) {
     super();
     this.logger = new Logger('OfflineSyncEngine');
@@ -64,7 +102,13 @@ export class OfflineSyncEngine extends EventEmitter {
     this.supabase = supabase;
     this.operationQueue = operationQueue;
     this.db = db;
-    this.initializeSchema();
+    this.conflictResolution = conflictResolution;
+    this.conflictResolution.on('conflictResolved', (resolution: ConflictResolution) => {
+      void this.applyResolution(resolution).catch(error => {
+        this.logger.error('Failed to apply conflict resolution', error as Error, { conflictId: resolution.conflictId });
+      });
+    });
+    this.ready = this.initializeSchema().then(() => this.restoreConflicts());
   }
 
   private async initializeSchema(): Promise<void> {
@@ -101,6 +145,18 @@ export class OfflineSyncEngine extends EventEmitter {
         )
       `);
 
+      // Last synced content of each record, the base of three-way merges
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS sync_base (
+          table_name TEXT NOT NULL,
+          record_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          snapshot TEXT NOT NULL,
+          synced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (table_name, record_id)
+        )
+      `);
+
       this.logger.info('Sync engine schema initialized');
     } catch (error) {
       this.logger.error('Failed to initialize schema', error as Error);
@@ -257,34 +313,20 @@ export class OfflineSyncEngine extends EventEmitter {
   }
 
   /**
-   * Resolve sync conflicts
+   * Report conflicts still waiting on a decision. Overlapping edits are
+   * never resolved automatically; they are applied once every field has
+   * been resolved through ConflictResolutionService.
    */
   private async resolveConflicts(result: SyncResult): Promise<void> {
     const conflicts = Array.from(this.conflicts.values());
-    
+
     if (conflicts.length === 0) {
       return;
     }
 
     this.updateProgress('resolving', 0, conflicts.length);
-
-    for (let i = 0; i < conflicts.length; i++) {
-      const conflict = conflicts[i];
-      
-      try {
-        if (conflict) {
-          await this.resolveConflict(conflict);
-          result.conflicts.push(conflict);
-        }
-      } catch (error) {
-        result.errors.push({
-          message: `Failed to resolve conflict for ${conflict?.table}:${conflict?.recordId}`,
-          operation: error
-        });
-      }
-      
-      this.updateProgress('resolving', i + 1, conflicts.length);
-    }
+    result.conflicts.push(...conflicts);
+    this.updateProgress('resolving', conflicts.length, conflicts.length);
   }
 
   /**
@@ -340,25 +382,13 @@ export class OfflineSyncEngine extends EventEmitter {
     for (const item of items) {
       try {
         const exists = await this.checkRemoteExists(table, item.id);
-        
-        if (exists) {
-          // Check for conflicts
-          const remoteItem = await this.fetchRemoteItem(table, item.id);
-          if (this.hasConflict(item, remoteItem)) {
-            this.registerConflict(table, item, remoteItem);
-            continue;
-          }
+        const remoteItem = exists ? await this.fetchRemoteItem(table, item.id) : null;
+
+        const outcome = await this.reconcile(table, item, remoteItem);
+        if (outcome === 'pushed' || outcome === 'merged') {
+          uploaded++;
         }
         
-        // Upload the item
-        await this.supabase.getClient()
-          .from(table)
-          .upsert(item);
-        
-        // Mark as synced in local cache
-        await this.localCache.markAsSynced(table, item.id);
-        uploaded++;
-        
       } catch (error) {
         this.logger.error(`Failed to upload item ${item.id}`, error as Error);
         result.errors.push({
@@ -384,19 +414,12 @@ export class OfflineSyncEngine extends EventEmitter {
     for (const item of items) {
       try {
         const localItem = await this.localCache.get(table, item.id);
-        
-        if (localItem && this.hasConflict(localItem, item)) {
-          this.registerConflict(table, localItem, item);
-          continue;
+
+        const outcome = await this.reconcile(table, localItem || null, item);
+        if (outcome === 'pulled' || outcome === 'merged') {
+          downloaded++;
         }
         
-        // Save to local cache
-        await this.localCache.set(table, item.id, item, {
-          skipSync: true // Don't mark for upload since it came from remote
-        });
-        
-        downloaded++;
-        
       } catch (error) {
         this.logger.error(`Failed to download item ${item.id}`, error as Error);
         result.errors.push({
@@ -410,84 +433,277 @@ export class OfflineSyncEngine extends EventEmitter {
   }
 
   /**
-   * Check if item has conflict
+   * Bring the local and remote copies of a record together against their
+   * common ancestor. Edits made on one side only are taken as they are;
+   * non-overlapping edits on both sides are merged field by field; only
+   * fields both sides changed become a conflict.
    */
-  private hasConflict(localItem: any, remoteItem: any): boolean {
-    // Simple version-based conflict detection
-    if (localItem.version && remoteItem.version) {
-      return localItem.version !== remoteItem.version &&
-             localItem.updated_at !== remoteItem.updated_at;
+  private async reconcile(table: string, localItem: any | null, remoteItem: any | null): Promise<ReconcileOutcome> {
+    await this.ready;
+    const recordId = (localItem || remoteItem).id;
+    if (this.conflicts.has(`${table}:${recordId}`)) {
+      // Waiting on a decision; merging again would raise the same conflict
+      return 'conflict';
     }
-    
-    // Timestamp-based conflict detection
-    const localTime = new Date(localItem.updated_at).getTime();
-    const remoteTime = new Date(remoteItem.updated_at).getTime();
-    
-    // If both were modified after last sync, it's a conflict
-    return Math.abs(localTime - remoteTime) > 1000; // 1 second tolerance
+
+    if (!remoteItem) {
+      return await this.push(table, localItem, null) ? 'pushed' : 'stale';
+    }
+    if (!localItem) {
+      await this.pull(table, remoteItem);
+      return 'pulled';
+    }
+
+    const base = await this.loadBase(table, recordId, localItem.base_revision);
+    const remoteRevision = remoteItem.revision ?? 0;
+
+    if (base && base.revision === remoteRevision) {
+      // Nobody else wrote since our base
+      if (this.sameContent(localItem, base.snapshot)) {
+        return 'unchanged';
+      }
+      return await this.push(table, localItem, remoteRevision) ? 'pushed' : 'stale';
+    }
+    if (base && this.sameContent(localItem, base.snapshot)) {
+      await this.pull(table, remoteItem);
+      return 'pulled';
+    }
+    if (this.sameContent(localItem, remoteItem) || (!base && localItem.sync_status === 'synced')) {
+      // Both sides made the same edit, or a copy from before base revisions has no local edits
+      await this.pull(table, remoteItem);
+      return 'pulled';
+    }
+
+    const { merged, conflicts } = threeWayMerge(base?.snapshot, localItem, remoteItem, { ignoreFields: SYNC_FIELDS });
+    if (conflicts.length === 0) {
+      return await this.push(table, merged, remoteRevision) ? 'merged' : 'stale';
+    }
+
+    await this.registerConflict(table, localItem, remoteItem, base?.snapshot, merged, conflicts);
+    return 'conflict';
+  }
+
+  /**
+   * Write a record to the cloud as the next revision and record it as the
+   * new base on both sides. expectedRevision guards against a concurrent
+   * writer; when another device got there first the write is skipped and
+   * the next sync merges against its version.
+   */
+  private async push(table: string, record: any, expectedRevision: number | null): Promise<boolean> {
+    const revision = (expectedRevision ?? record.base_revision ?? 0) + 1;
+    const { base_revision: _base, sync_status: _status, ...content } = record;
+    const next = { ...content, revision, updated_at: new Date().toISOString() };
+
+    const client = this.supabase.getClient();
+    if (expectedRevision === null) {
+      const { error } = await client.from(table).insert(next);
+      if (error) throw error;
+    } else {
+      const { data, error } = await client.from(table)
+        .update(next)
+        .eq('id', record.id)
+        .eq('revision', expectedRevision)
+        .select('id');
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        this.logger.warn('Remote record changed during sync; merging on next sync', { table, id: record.id });
+        return false;
+      }
+    }
+
+    await this.pull(table, next);
+    return true;
+  }
+
+  /**
+   * Take the remote version locally and make it the base
+   */
+  private async pull(table: string, remoteItem: any): Promise<void> {
+    const revision = remoteItem.revision ?? 0;
+    await this.localCache.set(table, remoteItem.id, { ...remoteItem, base_revision: revision }, {
+      skipSync: true // Don't mark for upload since it matches the cloud
+    });
+    await this.saveBase(table, remoteItem.id, revision, remoteItem);
+  }
+
+  private async loadBase(table: string, recordId: string, baseRevision: number | undefined): Promise<{ revision: number; snapshot: any } | null> {
+    if (baseRevision === undefined || baseRevision === null) return null;
+    const row = (await this.db.query(`
+      SELECT revision, snapshot FROM sync_base
+      WHERE table_name = ? AND record_id = ?
+    `, [table, recordId])).rows[0];
+
+    // A base from another revision is not this copy's ancestor
+    if (!row || row.revision !== baseRevision) return null;
+    return { revision: row.revision, snapshot: JSON.parse(row.snapshot) };
+  }
+
+  private async saveBase(table: string, recordId: string, revision: number, snapshot: any): Promise<void> {
+    await this.db.run(`
+      INSERT OR REPLACE INTO sync_base (table_name, record_id, revision, snapshot, synced_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `, [table, recordId, revision, JSON.stringify(snapshot)]);
+  }
+
+  private sameContent(a: any, b: any): boolean {
+    const strip = (record: any) => Object.fromEntries(
+      Object.entries(record).filter(([key]) => !SYNC_FIELDS.includes(key))
+    );
+    return valuesEqual(strip(a), strip(b));
   }
 
   /**
-   * Register a conflict
+   * Hand the overlapping fields to ConflictResolutionService. The record
+   * stays unsynced until every field has been resolved.
    */
-  private registerConflict(table: string, localItem: any, remoteItem: any): void {
+  private async registerConflict(
+    table: string,
+    localItem: any,
+    remoteItem: any,
+    base: any,
+    merged: any,
+    overlapping: MergeConflict[]
+  ): Promise<void> {
     const conflictId = `${table}:${localItem.id}`;
-    
+    const items = await this.conflictResolution.recordConflicts(
+      table,
+      localItem.id,
+      overlapping,
+      new Date(localItem.updated_at),
+      new Date(remoteItem.updated_at)
+    );
+
     const conflict: SyncConflict = {
       id: conflictId,
       table,
       recordId: localItem.id,
       localVersion: localItem,
       remoteVersion: remoteItem,
+      baseVersion: base,
       localTimestamp: new Date(localItem.updated_at),
-      remoteTimestamp: new Date(remoteItem.updated_at)
+      remoteTimestamp: new Date(remoteItem.updated_at),
+      fields: overlapping.map((field, index) => ({
+        ...field,
+        conflictId: items[index]!.id,
+        resolved: false
+      })),
+      mergedVersion: merged
     };
     
     this.conflicts.set(conflictId, conflict);
+    await this.savePendingConflict(conflict);
     this.emit('conflictDetected', conflict);
   }
 
   /**
-   * Resolve a conflict
+   * Rebuild the conflicts an earlier run left waiting on a decision, so
+   * the record is not merged again and its field resolutions still apply
    */
-  private async resolveConflict(conflict: SyncConflict): Promise<void> {
-    // Default strategy: last-write-wins
-    const resolution = conflict.localTimestamp > conflict.remoteTimestamp 
-      ? 'local' 
-      : 'remote';
-    
-    conflict.resolution = resolution;
-    
-    if (resolution === 'local') {
-      // Upload local version
-      await this.supabase.getClient()
-        .from(conflict.table)
-        .upsert(conflict.localVersion);
-    } else {
-      // Download remote version
-      await this.localCache.set(
-        conflict.table, 
-        conflict.recordId, 
-        conflict.remoteVersion,
-        { skipSync: true }
-      );
+  private async restoreConflicts(): Promise<void> {
+    const rows = (await this.db.query(`
+      SELECT * FROM sync_conflicts WHERE resolution IS NULL
+    `)).rows;
+    if (rows.length === 0) return;
+
+    const pending = new Set((await this.conflictResolution.getAllActiveConflicts()).map(item => item.id));
+    for (const row of rows) {
+      const localItem = JSON.parse(row.local_version);
+      const remoteItem = JSON.parse(row.remote_version);
+      const base = await this.loadBase(row.table_name, row.record_id, localItem.base_revision);
+      const items = await this.conflictResolution.getConflictsForRecord(row.table_name, row.record_id, true);
+      const stored = row.merged_version ? JSON.parse(row.merged_version) : undefined;
+      // The merge gives each field's path; fields decided before the
+      // restart are already applied to the stored merged version
+      const { merged, conflicts } = threeWayMerge(base?.snapshot, localItem, remoteItem, { ignoreFields: SYNC_FIELDS });
+      const fields = conflicts.flatMap(field => {
+        const item = items.find(candidate => candidate.field === field.field);
+        if (!item) return [];
+        const resolved = !pending.has(item.id);
+        return [{
+          ...field,
+          conflictId: item.id,
+          resolvedValue: resolved ? field.path.reduce((value, key) => value?.[key], stored) : undefined,
+          resolved
+        }];
+      });
+
+      const conflict: SyncConflict = {
+        id: row.id,
+        table: row.table_name,
+        recordId: row.record_id,
+        localVersion: localItem,
+        remoteVersion: remoteItem,
+        baseVersion: base?.snapshot,
+        localTimestamp: new Date(row.local_timestamp),
+        remoteTimestamp: new Date(row.remote_timestamp),
+        fields,
+        mergedVersion: stored ?? merged
+      };
+      this.conflicts.set(conflict.id, conflict);
+
+      if (fields.every(field => field.resolved)) {
+        await this.completeConflict(conflict);
+      }
     }
-    
-    // Save conflict resolution
+
+    this.logger.info('Restored pending sync conflicts', { count: this.conflicts.size });
+  }
+
+  /**
+   * Apply a field resolution; once every field of the record is resolved
+   * the merged record is written to both sides
+   */
+  private async applyResolution(resolution: ConflictResolution): Promise<void> {
+    await this.ready;
+    const conflict = Array.from(this.conflicts.values())
+      .find(candidate => candidate.fields.some(field => field.conflictId === resolution.conflictId));
+    if (!conflict) return;
+
+    const field = conflict.fields.find(candidate => candidate.conflictId === resolution.conflictId)!;
+    field.resolvedValue = resolution.resolvedValue;
+    field.resolved = true;
+    // Kept with the conflict so a restart does not lose the decision
+    conflict.mergedVersion = setPath(conflict.mergedVersion, field.path, field.resolvedValue);
+    if (conflict.fields.some(candidate => !candidate.resolved)) {
+      await this.db.run(`
+        UPDATE sync_conflicts SET merged_version = ? WHERE id = ?
+      `, [JSON.stringify(conflict.mergedVersion), conflict.id]);
+      return;
+    }
+
+    await this.completeConflict(conflict);
+  }
+
+  private async completeConflict(conflict: SyncConflict): Promise<void> {
+    const record = conflict.mergedVersion;
+    const resolutions = new Set(conflict.fields.map(resolved =>
+      valuesEqual(resolved.resolvedValue, resolved.localValue) ? 'local'
+        : valuesEqual(resolved.resolvedValue, resolved.remoteValue) ? 'remote'
+        : 'merge'
+    ));
+
+    this.conflicts.delete(conflict.id);
+    conflict.resolution = resolutions.size === 1 ? [...resolutions][0] : 'merge';
+    if (!await this.push(conflict.table, record, conflict.remoteVersion.revision ?? 0)) {
+      // Merge the resolved record against the newer remote version next time
+      await this.localCache.set(conflict.table, record.id, record);
+      await this.saveConflictResolution(conflict);
+      return;
+    }
+
     await this.saveConflictResolution(conflict);
-    
     this.emit('conflictResolved', conflict);
   }
 
   /**
-   * Save conflict resolution to database
+   * Keep a conflict waiting on a decision until it is resolved
    */
-  private async saveConflictResolution(conflict: SyncConflict): Promise<void> {
+  private async savePendingConflict(conflict: SyncConflict): Promise<void> {
     await this.db.run(`
-      INSERT INTO sync_conflicts (
+      INSERT OR REPLACE INTO sync_conflicts (
         id, table_name, record_id, local_version, remote_version,
-        local_timestamp, remote_timestamp, resolution, resolved_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        local_timestamp, remote_timestamp, merged_version
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       conflict.id,
       conflict.table,
@@ -496,7 +712,22 @@ export class OfflineSyncEngine extends EventEmitter {
       JSON.stringify(conflict.remoteVersion),
       conflict.localTimestamp.toISOString(),
       conflict.remoteTimestamp.toISOString(),
-      conflict.resolution
+      JSON.stringify(conflict.mergedVersion)
+    ]);
+  }
+
+  /**
+   * Save conflict resolution to database
+   */
+  private async saveConflictResolution(conflict: SyncConflict): Promise<void> {
+    await this.db.run(`
+      UPDATE sync_conflicts
+      SET resolution = ?, merged_version = ?, resolved_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [
+      conflict.resolution,
+      JSON.stringify(conflict.mergedVersion),
+      conflict.id
     ]);
   }
 
@@ -601,9 +832,7 @@ export class OfflineSyncEngine extends EventEmitter {
   }
 
   private async finalizeSynchronization(_result: SyncResult): Promise<void> {
-    // Clear resolved conflicts
-    this.conflicts.clear();
-    
+    // Unresolved conflicts stay until ConflictResolutionService resolves them
     // Clean up old sync metadata
     await this.db.run(`
       DELETE FROM sync_metadata 
@@ -634,7 +863,7 @@ export class OfflineSyncEngine extends EventEmitter {
       for (const id of ids) {
         const localItem = await this.localCache.get(table, id);
         if (localItem) {
-          await this.uploadBatch(table, [localItem], result);
+          result.uploaded += await this.uploadBatch(table, [localItem], result);
         }
       }
       
@@ -0,0 +1,123 @@
+/**
+ * Three-Way Merge
+ * Merges the local and remote versions of a record against their common
+ * ancestor, field by field. A field changed on one side takes that side's
+ * value; a field changed on both sides to different values is a conflict.
+ * Plain objects are merged key by key, so edits to different keys of the
+ * same object do not collide.
+ */
+
+export interface MergeConflict {
+  // Dotted path for display, e.g. "metadata.theme"
+  field: string;
+  path: string[];
+  baseValue: unknown;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+export interface MergeResult<T> {
+  // Conflicting fields hold the local value until they are resolved
+  merged: T;
+  conflicts: MergeConflict[];
+}
+
+export interface MergeOptions {
+  // Top-level fields the merge leaves to the caller, e.g. sync bookkeeping
+  ignoreFields?: string[];
+}
+
+/**
+ * Merge local and remote against base. Without a base every field the
+ * two sides disagree on is a conflict, since neither can be shown to be
+ * the unchanged one.
+ */
+export function threeWayMerge<T extends Record<string, any>>(
+  base: Record<string, any> | undefined,
+  local: T,
+  remote: Record<string, any>,
+  options: MergeOptions = {}
+): MergeResult<T> {
+  const conflicts: MergeConflict[] = [];
+  const ignored = new Set(options.ignoreFields || []);
+  const merged = mergeObjects(base, local, remote, [], conflicts, ignored) as T;
+  return { merged, conflicts };
+}
+
+function mergeObjects(
+  base: Record<string, any> | undefined,
+  local: Record<string, any>,
+  remote: Record<string, any>,
+  path: string[],
+  conflicts: MergeConflict[],
+  ignored: Set<string>
+): Record<string, any> {
+  const merged: Record<string, any> = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    const localValue = local[key];
+    const remoteValue = remote[key];
+    const baseValue = base?.[key];
+    let value: unknown;
+
+    if (path.length === 0 && ignored.has(key)) {
+      value = localValue;
+    } else if (valuesEqual(localValue, remoteValue)) {
+      value = localValue;
+    } else if (base && valuesEqual(localValue, baseValue)) {
+      value = remoteValue;
+    } else if (base && valuesEqual(remoteValue, baseValue)) {
+      value = localValue;
+    } else if (isPlainObject(localValue) && isPlainObject(remoteValue) && (baseValue === undefined || isPlainObject(baseValue))) {
+      value = mergeObjects(baseValue ?? {}, localValue, remoteValue, [...path, key], conflicts, ignored);
+    } else {
+      conflicts.push({ field: [...path, key].join('.'), path: [...path, key], baseValue, localValue, remoteValue });
+      value = localValue;
+    }
+
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Copy of record with the value at path replaced; undefined removes it
+ */
+export function setPath<T extends Record<string, any>>(record: T, path: string[], value: unknown): T {
+  const [key, ...rest] = path;
+  if (key === undefined) return record;
+  const copy: Record<string, any> = { ...record };
+  if (rest.length > 0) {
+    copy[key] = setPath(isPlainObject(copy[key]) ? copy[key] : {}, rest, value);
+  } else if (value === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = value;
+  }
+  return copy as T;
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, index) => valuesEqual(item, other[index]));
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every(key => valuesEqual(left[key], right[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
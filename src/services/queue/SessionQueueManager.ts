@@ -1,6 +1,9 @@
 import { EventEmitter } from 'events';
-import { SessionStatus, SessionPriority } from '../../models/Session';
+import { Session, SessionStatus, SessionPriority } from '../../models/Session';
 import { SessionManager } from '../../core/orchestrator/SessionManager';
+import { Logger } from '../../lib/logging/Logger';
+import { SessionService } from '../SessionService';
+import { SessionQueueStore } from './SessionQueueStore';
 // import { InstructionQueue } from '../../core/orchestrator/InstructionQueue';
 // import { SessionExecutionPipeline } from '@/services/session/SessionExecutionPipeline';
 // import { LocalCacheService } from '@/services/cache/LocalCacheService';
@@ -67,6 +70,17 @@ export interface QueueEvent {
   timestamp: Date;
 }
 
+export interface SessionQueueOptions {
+  // Keeps the queue in the shared database instead of in memory only
+  store?: SessionQueueStore;
+  // Sessions live in the database rather than the in-memory SessionManager
+  sessions?: SessionService;
+  // Runs a queued session to its final status. Without it the queue only
+  // records sessions, e.g. for one-shot CLI commands, and whichever
+  // process has a runner starts them.
+  runSession?: (sessionId: string) => Promise<SessionStatus>;
+}
+
 export class SessionQueueManager extends EventEmitter {
   private static instance: SessionQueueManager;
   private sessionManager: SessionManager;
@@ -75,10 +89,19 @@ export class SessionQueueManager extends EventEmitter {
   private queueState: QueueState;
   private metricsUpdateInterval: NodeJS.Timeout | null = null;
   private processingInterval: NodeJS.Timeout | null = null;
-
-  private constructor() {
+  private store?: SessionQueueStore;
+  private sessions?: SessionService;
+  private runSession?: (sessionId: string) => Promise<SessionStatus>;
+  private processing = false;
+  private logger = new Logger('SessionQueue');
+  private ready: Promise<void>;
+
+  private constructor(options: SessionQueueOptions) {
     super();
     this.sessionManager = SessionManager.getInstance();
+    this.store = options.store;
+    this.sessions = options.sessions;
+    this.runSession = options.runSession;
     // this._instructionQueue = InstructionQueue.getInstance();
     // Using instructionQueue for queue processing
     // this.cacheService = LocalCacheService.getInstance();
@@ -90,20 +113,32 @@ export class SessionQueueManager extends EventEmitter {
       lastUpdated: new Date()
     };
 
-    this.initialize();
+    this.ready = this.initialize();
   }
 
-  static getInstance(): SessionQueueManager {
+  /**
+   * Options only apply to the call that creates the instance
+   */
+  static getInstance(options: SessionQueueOptions = {}): SessionQueueManager {
     if (!SessionQueueManager.instance) {
-      SessionQueueManager.instance = new SessionQueueManager();
+      SessionQueueManager.instance = new SessionQueueManager(options);
     }
     return SessionQueueManager.instance;
   }
 
+  /**
+   * Resolves once the persisted queue has been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
   private async initialize() {
     await this.loadPersistedState();
     this.startMetricsUpdater();
-    this.startQueueProcessor();
+    if (this.runSession) {
+      this.startQueueProcessor();
+    }
     this.setupEventListeners();
   }
 
@@ -121,24 +156,36 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   private async loadPersistedState() {
-    try {
-      // TODO: Implement cache service integration
-      // const persistedState = await this.cacheService.get('queue-state');
-      // For now, start with empty state
-    } catch (error) {
-      // Failed to load persisted queue state
+    // Without a store the queue starts empty
+    const persistedState = await this.store?.load();
+    if (persistedState) {
+      this.queueState = persistedState;
     }
   }
 
-  private async persistState() {
-    try {
-      // TODO: Implement cache service integration
-      // await this.cacheService.set('queue-state', JSON.stringify(this.queueState));
-    } catch (error) {
-      // Failed to persist queue state
+  /**
+   * Another process (the CLI or the app) may have changed the queue since
+   * it was loaded; re-read it before acting on it
+   */
+  private async sync() {
+    if (this.store) {
+      await this.loadPersistedState();
+    }
+  }
+
+  private async updateSessionRecord(sessionId: string, updates: { status?: 'cancelled'; metadata?: Session['metadata'] }) {
+    if (this.sessions) {
+      await this.sessions.updateSession(sessionId, updates);
+    } else {
+      await this.sessionManager.updateSession(sessionId, updates);
     }
   }
 
+  private async persistState() {
+    this.queueState.lastUpdated = new Date();
+    await this.store?.save(this.queueState);
+  }
+
   private setupEventListeners() {
     // TODO: Implement proper event listeners when SessionManager events are ready
     // this.sessionManager.on('session-created', (session: any) => {
@@ -168,14 +215,24 @@ export class SessionQueueManager extends EventEmitter {
 
   private startQueueProcessor() {
     this.processingInterval = setInterval(() => {
-      if (!this.queueState.isPaused) {
-        this.processQueue();
+      if (!this.processing) {
+        this.processing = true;
+        this.processQueue()
+          .catch(error => this.logger.error('Failed to process the session queue', error as Error))
+          .finally(() => { this.processing = false; });
       }
     }, 1000); // Check every second
   }
 
-  private async processQueue() {
-    const availableSlots = this.sessionManager.getAvailableSlots();
+  /**
+   * Start as many pending sessions as there are free slots
+   */
+  async processQueue(): Promise<void> {
+    await this.sync();
+    if (this.queueState.isPaused) return;
+
+    const executing = this.queueState.sessions.filter(s => s.status === 'executing').length;
+    const availableSlots = this.sessionManager.getAvailableSlots() - executing;
     if (availableSlots <= 0) return;
 
     const pendingSessions = this.queueState.sessions
@@ -204,6 +261,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async addToQueue(session: any): Promise<void> {
+    await this.sync();
     const queuedSession: QueuedSession = {
       id: session.id,
       name: session.name,
@@ -239,6 +297,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async removeFromQueue(sessionId: string): Promise<void> {
+    await this.sync();
     const index = this.queueState.sessions.findIndex(s => s.id === sessionId);
     if (index === -1) return;
 
@@ -255,6 +314,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async moveSession(sessionId: string, newPosition: number): Promise<void> {
+    await this.sync();
     const sessionIndex = this.queueState.sessions.findIndex(s => s.id === sessionId);
     if (sessionIndex === -1) return;
 
@@ -274,11 +334,12 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async updatePriority(sessionId: string, priority: SessionPriority): Promise<void> {
+    await this.sync();
     const session = this.queueState.sessions.find(s => s.id === sessionId);
     if (!session) return;
 
     session.priority = priority;
-    await this.sessionManager.updateSession(sessionId, {
+    await this.updateSessionRecord(sessionId, {
       metadata: { ...session.metadata, priority }
     });
     await this.persistState();
@@ -292,6 +353,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async pauseQueue(): Promise<void> {
+    await this.sync();
     this.queueState.isPaused = true;
     await this.persistState();
 
@@ -302,6 +364,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async resumeQueue(): Promise<void> {
+    await this.sync();
     this.queueState.isPaused = false;
     await this.persistState();
 
@@ -312,7 +375,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   async cancelSession(sessionId: string): Promise<void> {
-    await this.sessionManager.updateSession(sessionId, { status: 'cancelled' });
+    await this.updateSessionRecord(sessionId, { status: 'cancelled' });
     await this.removeFromQueue(sessionId);
   }
 
@@ -324,33 +387,37 @@ export class SessionQueueManager extends EventEmitter {
 
   private async startSession(sessionId: string): Promise<void> {
     const session = this.queueState.sessions.find(s => s.id === sessionId);
-    if (!session) return;
+    if (!session || !this.runSession) return;
+
+    // Recorded before running so no other process starts it as well
+    session.status = 'executing';
+    session.updatedAt = new Date().toISOString();
+    await this.persistState();
 
-    await this.sessionManager.updateSession(sessionId, { status: 'executing' });
-    
     this.emitEvent({
       type: 'session-started',
       sessionId,
       timestamp: new Date()
     });
 
-    // TODO: Implement session execution pipeline
-    // const pipeline = new SessionExecutionPipeline(sessionId);
-    // pipeline.execute().then(() => {
-    //   this.emitEvent({
-    //     type: 'session-completed',
-    //     sessionId,
-    //     timestamp: new Date()
-    //   });
-    //   this.removeFromQueue(sessionId);
-    // }).catch((error) => {
-    //   this.emitEvent({
-    //     type: 'session-failed',
-    //     sessionId,
-    //     data: { error: error.message },
-    //     timestamp: new Date()
-    //   });
-    // });
+    void this.runSession(sessionId)
+      .then(status => {
+        this.emitEvent({
+          type: status === 'completed' ? 'session-completed' : 'session-failed',
+          sessionId,
+          data: { status },
+          timestamp: new Date()
+        });
+      }, (error: Error) => {
+        this.emitEvent({
+          type: 'session-failed',
+          sessionId,
+          data: { error: error.message },
+          timestamp: new Date()
+        });
+      })
+      .then(() => this.removeFromQueue(sessionId))
+      .catch(error => this.logger.error('Failed to remove a finished session from the queue', error as Error, { sessionId }));
   }
 
   // Removed unused updateSessionInQueue method
@@ -375,6 +442,7 @@ export class SessionQueueManager extends EventEmitter {
   }
 
   private async updateMetrics() {
+    await this.sync();
     const now = new Date();
     const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
     
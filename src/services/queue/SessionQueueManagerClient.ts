@@ -56,17 +56,21 @@ export interface QueueMetrics {
 }
 
 export interface QueueEvent {
-  type: 'session-added' | 'session-removed' | 'session-started' | 'session-completed' | 
-        'session-failed' | 'queue-paused' | 'queue-resumed' | 'state-changed' | 
+  type: 'session-added' | 'session-removed' | 'session-moved' | 'session-started' | 'session-completed' |
+        'session-failed' | 'queue-paused' | 'queue-resumed' | 'state-changed' |
         'metrics-updated' | 'position-changed';
   sessionId?: string;
   data?: any;
   timestamp: Date;
 }
 
+type ServerQueueState = Awaited<ReturnType<Window['sessionhub']['queue']['getState']>>;
+
 /**
  * Client-side Session Queue Manager
- * This is a client-safe version that doesn't import server-side modules
+ * This is a client-safe version that doesn't import server-side modules.
+ * The queue itself lives in the main process, shared with the CLI; this
+ * keeps the last state fetched from it and relays its events.
  */
 export class SessionQueueManagerClient extends EventEmitter {
   private static instance: SessionQueueManagerClient;
@@ -96,6 +100,12 @@ export class SessionQueueManagerClient extends EventEmitter {
 
   private constructor() {
     super();
+    this.api()?.onEvent(event => {
+      // Listeners get the event once the state reflects it
+      void this.refresh()
+        .catch(() => undefined)
+        .then(() => this.emitQueueEvent(event));
+    });
   }
 
   static getInstance(): SessionQueueManagerClient {
@@ -106,101 +116,111 @@ export class SessionQueueManagerClient extends EventEmitter {
   }
 
   /**
-   * Get current queue state
+   * Get the queue state as last fetched
    */
   getQueueState(): QueueState {
     return { ...this.queueState };
   }
 
   /**
-   * Add session to queue (client-side mock)
+   * Fetch the queue state from the main process
+   */
+  async refresh(): Promise<QueueState> {
+    this.queueState = this.fromServer(await this.requireApi().getState());
+    return this.getQueueState();
+  }
+
+  /**
+   * Queue a planned session
    */
   async addSession(session: Partial<QueuedSession>): Promise<void> {
-    // In a real implementation, this would make an API call
-// REMOVED: console statement
-    this.emitQueueEvent({
-      type: 'session-added',
-      sessionId: session.id,
-      timestamp: new Date()
-    });
+    if (!session.id) throw new Error('Only a saved session can be queued');
+    await this.requireApi().add(session.id, session.priority);
+    await this.refresh();
   }
 
   /**
-   * Cancel a session (client-side mock)
+   * Cancel a session and drop it from the queue
    */
   async cancelSession(sessionId: string): Promise<void> {
-// REMOVED: console statement
-    this.emitQueueEvent({
-      type: 'session-removed',
-      sessionId,
-      timestamp: new Date()
-    });
+    await this.cancelMultipleSessions([sessionId]);
   }
 
   /**
-   * Cancel multiple sessions (client-side mock)
+   * Cancel several sessions at once
    */
   async cancelMultipleSessions(sessionIds: string[]): Promise<void> {
-// REMOVED: console statement
-    sessionIds.forEach(id => {
-      this.emitQueueEvent({
-        type: 'session-removed',
-        sessionId: id,
-        timestamp: new Date()
-      });
-    });
+    await this.requireApi().cancel(sessionIds);
+    await this.refresh();
   }
 
   /**
-   * Update session priority (client-side mock)
+   * Update session priority
    */
-  async updatePriority(sessionId: string, _priority: SessionPriority): Promise<void> {
-// REMOVED: console statement
-    this.emitQueueEvent({
-      type: 'position-changed',
-      sessionId,
-      timestamp: new Date()
-    });
+  async updatePriority(sessionId: string, priority: SessionPriority): Promise<void> {
+    await this.requireApi().setPriority(sessionId, priority);
+    await this.refresh();
   }
 
   /**
-   * Move session position (client-side mock)
+   * Move session position
    */
-  async moveSession(sessionId: string, _newPosition: number): Promise<void> {
-// REMOVED: console statement
-    this.emitQueueEvent({
-      type: 'position-changed',
-      sessionId,
-      timestamp: new Date()
-    });
+  async moveSession(sessionId: string, newPosition: number): Promise<void> {
+    await this.requireApi().move(sessionId, newPosition);
+    await this.refresh();
   }
 
   /**
-   * Pause queue (client-side mock)
+   * Stop starting queued sessions
    */
   async pauseQueue(): Promise<void> {
-// REMOVED: console statement
-    this.queueState.isPaused = true;
-    this.emitQueueEvent({
-      type: 'queue-paused',
-      timestamp: new Date()
-    });
+    await this.requireApi().pause();
+    await this.refresh();
   }
 
   /**
-   * Resume queue (client-side mock)
+   * Start queued sessions again
    */
   async resumeQueue(): Promise<void> {
-// REMOVED: console statement
-    this.queueState.isPaused = false;
-    this.emitQueueEvent({
-      type: 'queue-resumed',
-      timestamp: new Date()
-    });
+    await this.requireApi().resume();
+    await this.refresh();
+  }
+
+  private api(): Window['sessionhub']['queue'] | undefined {
+    return typeof window !== 'undefined' ? window.sessionhub?.queue : undefined;
+  }
+
+  private requireApi(): Window['sessionhub']['queue'] {
+    const api = this.api();
+    if (!api) throw new Error('The session queue is only available in the desktop app');
+    return api;
+  }
+
+  private fromServer(state: ServerQueueState): QueueState {
+    const count = (status: SessionStatus) => state.sessions.filter(session => session.status === status).length;
+    const executing = count('executing');
+    const finished = state.metrics.completedToday + state.metrics.failedToday;
+
+    return {
+      sessions: state.sessions.map(session => ({ ...session, addedToQueueAt: new Date(session.addedToQueueAt) })),
+      isPaused: state.isPaused,
+      isProcessing: executing > 0,
+      metrics: {
+        ...state.metrics,
+        totalSessions: state.sessions.length,
+        pendingSessions: count('pending'),
+        executingSessions: executing,
+        completedSessions: state.metrics.completedToday,
+        failedSessions: state.metrics.failedToday,
+        averageExecutionTime: state.metrics.averageProcessingTime,
+        throughput: state.metrics.throughputPerHour,
+        successRate: finished ? state.metrics.completedToday / finished * 100 : 0
+      }
+    };
   }
 
   private emitQueueEvent(event: QueueEvent): void {
     this.emit('queue-event', event);
     this.emit(event.type, event);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { DatabaseService } from '../../database/DatabaseService';
+import { QueueState } from './SessionQueueManager';
+
+/**
+ * SQLite persistence for SessionQueueManager. The whole queue is kept as
+ * one JSON document so the desktop app and the CLI see the same queue;
+ * the last writer wins.
+ */
+export class SessionQueueStore {
+  private db: DatabaseService;
+  private ready: Promise<void> | null = null;
+
+  constructor(db: DatabaseService) {
+    this.db = db;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.createSchema().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async load(): Promise<QueueState | null> {
+    await this.initialize();
+    const row = (await this.db.query('SELECT state FROM session_queue_state WHERE id = 1')).rows[0];
+    if (!row) return null;
+
+    const state = JSON.parse(row.state);
+    return {
+      ...state,
+      sessions: state.sessions.map((session: any) => ({
+        ...session,
+        addedToQueueAt: new Date(session.addedToQueueAt)
+      })),
+      lastUpdated: new Date(state.lastUpdated)
+    };
+  }
+
+  async save(state: QueueState): Promise<void> {
+    await this.initialize();
+    await this.db.run(`
+      INSERT INTO session_queue_state (id, state) VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET state = excluded.state, updated_at = CURRENT_TIMESTAMP
+    `, [JSON.stringify(state)]);
+  }
+
+  private async createSchema(): Promise<void> {
+    await this.db.connect();
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS session_queue_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        state TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+}
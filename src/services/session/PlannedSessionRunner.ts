@@ -0,0 +1,88 @@
+/**
+ * @actor execution
+ * @responsibility Run a planned session's instructions and record the outcome on the session
+ */
+
+import { Session } from '../../models/Session';
+import { ExecutionEngine } from '../../core/execution/ExecutionEngine';
+import { buildExecutionEnvironment } from '../../core/execution/ExecutionEnvironment';
+import { SessionService } from '../SessionService';
+
+export interface PlannedSessionOptions {
+  timeout?: number;
+  concurrency?: number;
+  record?: boolean;
+}
+
+/**
+ * Execute a session planned earlier, e.g. by `sessionhub plan`. The CLI's
+ * execute command and the desktop queue both run sessions through here,
+ * so a session finishes the same way wherever it was started.
+ */
+export async function runPlannedSession(
+  sessions: SessionService,
+  execution: ExecutionEngine,
+  session: Session,
+  options: PlannedSessionOptions = {}
+): Promise<Session> {
+  if (!session.instructions) {
+    throw new Error(`Session ${session.id} has no plan to execute`);
+  }
+
+  await sessions.updateSession(session.id, { status: 'executing' });
+
+  const startTime = Date.now();
+  const workingDirectory = String(session.metadata.projectPath || process.cwd());
+  let updates: Partial<Session>;
+  try {
+    const result = await execution.executeInstructions(session.instructions, {
+      workingDirectory,
+      environment: await buildExecutionEnvironment(workingDirectory),
+      timeout: options.timeout ?? 300000,
+      dryRun: false,
+      concurrency: options.concurrency,
+      record: options.record
+    });
+
+    const succeeded = result.status === 'success';
+    updates = {
+      status: succeeded ? 'completed' : 'failed',
+      completedAt: succeeded ? result.endTime : undefined,
+      result: {
+        sessionId: session.id,
+        instructionId: result.instructionId,
+        status: result.status,
+        success: succeeded,
+        startTime: result.startTime,
+        endTime: result.endTime,
+        duration: Date.now() - startTime,
+        logs: result.logs,
+        errors: result.errors.map(error => error.message),
+        metadata: result.recording ? { recording: result.recording } : undefined
+      },
+      error: succeeded ? undefined : {
+        code: 'EXECUTION_FAILED',
+        message: result.errors[0]?.message || `Execution finished with status ${result.status}`,
+        actor: 'execution',
+        phase: 'executing',
+        recoverable: true
+      }
+    };
+  } catch (error) {
+    updates = {
+      status: 'failed',
+      error: {
+        code: 'EXECUTION_FAILED',
+        message: (error as Error).message,
+        actor: 'execution',
+        phase: 'executing',
+        recoverable: true
+      }
+    };
+  }
+
+  return sessions.updateSession(session.id, {
+    ...updates,
+    metadata: { ...session.metadata, executionDuration: Date.now() - startTime }
+  });
+}
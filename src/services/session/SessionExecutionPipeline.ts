@@ -10,12 +10,17 @@ import { SecuritySandbox } from '@/src/core/execution/SecuritySandbox';
 import { SessionManager, Session, UserRequest, ExecutionResult } from '@/src/core/orchestrator/SessionManager';
 import { WorkflowEngine } from '@/src/core/orchestrator/WorkflowEngine';
 import { PlanningEngine } from '@/src/core/planning/PlanningEngine';
-import { ExecutionEngine } from '@/src/core/execution/ExecutionEngine';
+import { ExecutionEngine, RepairOptions } from '@/src/core/execution/ExecutionEngine';
+import { buildExecutionEnvironment } from '@/src/core/execution/ExecutionEnvironment';
+import { ReplayReport } from '@/src/core/execution/ExecutionReplayer';
 import { DocumentImportService, ImportResult } from '../document/DocumentImportService';
 import { DocumentAnalysisService, DocumentAnalysis, DocumentMetadata } from '../document/DocumentAnalysisService';
 // import { PatternRecognitionService } from '../intelligence/PatternRecognitionService';
 import { ClaudeAPIClient } from '@/src/lib/api/ClaudeAPIClient';
-import { InstructionProtocol } from '@/src/models/Instruction';
+import { MCPClientManager } from '@/src/services/mcp/client/MCPClientManager';
+import { StreamOptions } from '@/src/lib/api/MessageStream';
+import { ClaudeCodeAPIClient } from '@/src/lib/api/ClaudeCodeAPIClient';
+import { InstructionObjective, InstructionProtocol, RollbackReport } from '@/src/models/Instruction';
 import { EventEmitter } from 'events';
 
 export interface SessionDocument {
@@ -31,6 +36,12 @@ export interface SessionExecutionRequest {
   description: string;
   documents?: SessionDocument[];
   context?: Record<string, any>;
+  // Retry failed automated success criteria with regenerated code
+  repair?: RepairOptions;
+  // Maximum number of independent requirements executed at once
+  concurrency?: number;
+  // Save a replayable recording of the execution
+  record?: boolean;
 }
 
 export interface SessionProgress {
@@ -42,6 +53,26 @@ export interface SessionProgress {
   details?: Record<string, any>;
 }
 
+/**
+ * A progress update of one session, emitted as 'progress'
+ */
+export interface SessionProgressEvent {
+  sessionId: string;
+  progress: SessionProgress;
+}
+
+/**
+ * Incremental output of a streaming API response, emitted as 'stream'
+ */
+export interface SessionStreamEvent {
+  sessionId: string;
+  phase: 'planning' | 'executing';
+  // Text received since the previous event
+  delta: string;
+  // Objectives of the plan received so far, sent when the list grows
+  objectives?: InstructionObjective[];
+}
+
 export interface EnhancedSession extends Session {
   documents?: SessionDocument[];
   documentAnalysis?: DocumentAnalysis;
@@ -61,11 +92,14 @@ export class SessionExecutionPipeline extends EventEmitter {
   private readonly documentAnalysis: DocumentAnalysisService;
   // private readonly patternRecognition: PatternRecognitionService;
   private readonly progressCallbacks: Map<string, (progress: SessionProgress) => void> = new Map();
+  private readonly streamControllers: Map<string, AbortController> = new Map();
 
   constructor(
     logger: Logger,
     auditLogger: AuditLogger,
-    claudeClient: ClaudeAPIClient
+    claudeClient: ClaudeAPIClient,
+    // External MCP tools offered to both actors
+    mcpClients?: MCPClientManager
   ) {
     super();
     this.logger = logger;
@@ -76,8 +110,16 @@ export class SessionExecutionPipeline extends EventEmitter {
     this.securitySandbox = new SecuritySandbox(logger);
     this.sessionManager = SessionManager.getInstance() // logger, auditLogger);
     this.workflowEngine = new WorkflowEngine(logger, auditLogger);
-    this.planningEngine = new PlanningEngine(logger, this.protocolValidator, claudeClient);
-    this.executionEngine = new ExecutionEngine(logger, this.protocolValidator, this.securitySandbox);
+    this.planningEngine = new PlanningEngine(logger, this.protocolValidator, claudeClient, undefined, mcpClients);
+    // Execution generates code through the same provider planning uses
+    this.executionEngine = new ExecutionEngine(
+      logger,
+      this.protocolValidator,
+      this.securitySandbox,
+      new ClaudeCodeAPIClient({ apiKey: '', provider: claudeClient.getProvider() }, logger),
+      undefined,
+      mcpClients
+    );
     this.documentImport = new DocumentImportService(logger, auditLogger);
     this.documentAnalysis = new DocumentAnalysisService(logger, auditLogger, claudeClient);
     // this.patternRecognition = new PatternRecognitionService();
@@ -103,7 +145,7 @@ export class SessionExecutionPipeline extends EventEmitter {
       const instructions = await this.executePlanningPhase(session);
       
       // Execute implementation phase
-      const result = await this.executeImplementationPhase(session, instructions);
+      const result = await this.executeImplementationPhase(session, instructions, request);
       
       // Complete session with review
       await this.completeSession(session, result);
@@ -276,8 +318,18 @@ export class SessionExecutionPipeline extends EventEmitter {
       context: planningContext
     };
     
-    // Generate instructions
-    const instructions = await this.planningEngine.generateInstructions(enhancedRequest);
+    // Generate instructions, streaming the plan as it is written
+    let objectiveCount = 0;
+    const instructions = await this.planningEngine.generateInstructions(enhancedRequest, {
+      ...this.streamTo(session, 'planning'),
+      onPartialInstructions: partial => {
+        const objectives = (partial.objectives ?? []).filter(o => o && typeof o.primary === 'string');
+        if (objectives.length > objectiveCount) {
+          objectiveCount = objectives.length;
+          this.emit('stream', { sessionId: session.id, phase: 'planning', delta: '', objectives });
+        }
+      }
+    }).finally(() => this.streamControllers.delete(session.id));
 
     await this.sessionManager.updateSession(session.id, {
       status: 'planning',
@@ -303,7 +355,8 @@ export class SessionExecutionPipeline extends EventEmitter {
    */
   private async executeImplementationPhase(
     session: EnhancedSession,
-    instructions: InstructionProtocol
+    instructions: InstructionProtocol,
+    options: Pick<SessionExecutionRequest, 'repair' | 'concurrency' | 'record'> = {}
   ): Promise<ExecutionResult> {
     this.logger.info('Starting execution phase', { sessionId: session.id });
 
@@ -325,10 +378,31 @@ export class SessionExecutionPipeline extends EventEmitter {
     // Execute with progress tracking
     const result = await this.executionEngine.executeInstructions(instructions, {
       workingDirectory: process.cwd(),
-      environment: process.env as Record<string, string>,
+      environment: await buildExecutionEnvironment(process.cwd()),
       timeout: 300000, // 5 minutes
-      dryRun: false
-    });
+      dryRun: false,
+      repair: options.repair,
+      concurrency: options.concurrency,
+      record: options.record,
+      stream: this.streamTo(session, 'executing')
+    }).finally(() => this.streamControllers.delete(session.id));
+
+    if (result.attempts && result.attempts.length > 1) {
+      await this.updateProgress(session, this.createProgress({
+        phase: 'executing',
+        step: 'Repairing failed criteria',
+        progress: 85,
+        message: `Execution took ${result.attempts.length} attempts to reach ${result.status}`,
+        details: {
+          attempts: result.attempts.map(a => ({
+            attempt: a.attempt,
+            status: a.result.status,
+            repairing: a.repairing.map(f => f.criterionId),
+            tokensUsed: a.tokensUsed
+          }))
+        }
+      }));
+    }
 
     // Convert from Instruction.ExecutionResult to SessionManager.ExecutionResult
     const sessionResult: ExecutionResult = {
@@ -425,6 +499,7 @@ export class SessionExecutionPipeline extends EventEmitter {
     if (callback) {
       callback(progress);
     }
+    this.emit('progress', { sessionId: session.id, progress });
 
     this.logger.debug('Session progress update', {
       sessionId: session.id,
@@ -447,6 +522,51 @@ export class SessionExecutionPipeline extends EventEmitter {
     this.progressCallbacks.delete(sessionId);
   }
 
+  /**
+   * Stream options that forward text as 'stream' events and can be
+   * cancelled through cancelStreaming
+   */
+  private streamTo(session: EnhancedSession, phase: SessionStreamEvent['phase']): StreamOptions {
+    const controller = new AbortController();
+    this.streamControllers.set(session.id, controller);
+    return {
+      signal: controller.signal,
+      onText: delta => {
+        const event: SessionStreamEvent = { sessionId: session.id, phase, delta };
+        this.emit('stream', event);
+      }
+    };
+  }
+
+  /**
+   * Cancel the API response a session is currently streaming. Usage
+   * received before the cancellation is still tracked.
+   */
+  cancelStreaming(sessionId: string): boolean {
+    const controller = this.streamControllers.get(sessionId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort();
+    this.logger.info('Session streaming cancelled', { sessionId });
+    return true;
+  }
+
+  /**
+   * Cancel a session's running execution. The task in progress is
+   * stopped and every change the execution applied is rolled back.
+   */
+  cancelSession(sessionId: string): boolean {
+    const instructionId = this.getSession(sessionId)?.instructions?.metadata.id;
+    if (!instructionId || !this.executionEngine.cancelExecution(instructionId)) {
+      return false;
+    }
+
+    this.logger.info('Session execution cancelled', { sessionId });
+    return true;
+  }
+
   /**
    * Get session by ID
    */
@@ -454,6 +574,54 @@ export class SessionExecutionPipeline extends EventEmitter {
     return this.sessionManager.getSession(sessionId) as EnhancedSession;
   }
 
+  /**
+   * Roll back every change the session's execution applied
+   */
+  async rollbackSession(sessionId: string): Promise<RollbackReport> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const instructionId = session.instructions?.metadata.id;
+    if (!instructionId) {
+      throw new Error(`Session ${sessionId} has no executed instructions to roll back`);
+    }
+
+    const report = await this.executionEngine.rollbackExecution(instructionId);
+
+    await this.updateProgress(session, this.createProgress({
+      phase: 'reviewing',
+      step: 'Changes rolled back',
+      progress: 100,
+      message: `Rolled back ${report.restored.length + report.removed.length} change(s)`,
+      details: { rollback: report }
+    }));
+
+    return report;
+  }
+
+  /**
+   * Recordings saved by the session's recorded executions
+   */
+  async listRecordings(sessionId: string): Promise<string[]> {
+    const session = this.getSession(sessionId);
+    return this.executionEngine.listRecordings(session?.instructions?.metadata.sessionId || sessionId);
+  }
+
+  /**
+   * Replay a recorded execution from its file; API responses and command
+   * output come from the recording
+   */
+  async replayRecording(file: string): Promise<ReplayReport> {
+    const recording = await this.executionEngine.loadRecording(file);
+    return this.executionEngine.replayExecution(recording, {
+      workingDirectory: process.cwd(),
+      environment: await buildExecutionEnvironment(process.cwd()),
+      timeout: 300000
+    });
+  }
+
   /**
    * Get sessions for user
    */
@@ -6,11 +6,14 @@
 import { EventEmitter } from 'events';
 import { DatabaseService } from '@/src/database/DatabaseService';
 import { AnalyticsDataStore } from '@/src/services/analytics/AnalyticsDataStore';
+import { DEFAULT_PRICING_PROVIDER, pricingKey } from './CostCalculator';
 
 export interface TokenUsage {
   id: string;
   sessionId: string;
   timestamp: Date;
+  // Provider that served the request, e.g. "anthropic" or "local"
+  provider: string;
   model: string;
   inputTokens: number;
   outputTokens: number;
@@ -19,6 +22,8 @@ export interface TokenUsage {
   currency: string;
   requestType: 'planning' | 'execution' | 'chat';
   userId: string;
+  // Set when a streamed response was cancelled before it completed
+  partial?: boolean;
 }
 
 export interface UsageMetrics {
@@ -29,6 +34,7 @@ export interface UsageMetrics {
   requestCount: number;
   averageTokensPerRequest: number;
   averageCostPerRequest: number;
+  // Keyed by provider:model
   costByModel: Record<string, number>;
   tokensByModel: Record<string, number>;
   timeRange: { start: Date; end: Date };
@@ -57,7 +63,9 @@ export class APIUsageTracker extends EventEmitter {
   private analytics: AnalyticsDataStore;
   private currentLimits: UsageLimits;
   private realtimeUsage: Map<string, TokenUsage[]> = new Map();
+  // Keyed by provider:model
   private modelPricing: Record<string, { input: number; output: number }>;
+  private ready: Promise<void>;
 
   constructor(db: DatabaseService, analytics: AnalyticsDataStore) {
     super();
@@ -70,13 +78,13 @@ export class APIUsageTracker extends EventEmitter {
     
     // Claude model pricing (per 1M tokens)
     this.modelPricing = {
-      'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
-      'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-      'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
-      'claude-3-sonnet-20240229': { input: 3.00, output: 15.00 }
+      'anthropic:claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00 },
+      'anthropic:claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+      'anthropic:claude-3-opus-20240229': { input: 15.00, output: 75.00 },
+      'anthropic:claude-3-sonnet-20240229': { input: 3.00, output: 15.00 }
     };
 
-    this.initializeDatabase();
+    this.ready = this.initializeDatabase();
   }
 
   /**
@@ -90,6 +98,7 @@ export class APIUsageTracker extends EventEmitter {
         id TEXT PRIMARY KEY,
         session_id TEXT NOT NULL,
         timestamp TEXT NOT NULL,
+        provider TEXT NOT NULL DEFAULT 'anthropic',
         model TEXT NOT NULL,
         input_tokens INTEGER NOT NULL,
         output_tokens INTEGER NOT NULL,
@@ -98,6 +107,7 @@ export class APIUsageTracker extends EventEmitter {
         currency TEXT NOT NULL,
         request_type TEXT NOT NULL,
         user_id TEXT NOT NULL,
+        partial INTEGER NOT NULL DEFAULT 0,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP
       )
     `;
@@ -134,6 +144,10 @@ export class APIUsageTracker extends EventEmitter {
     await this.db.query(createUsageLimitsTable);
     await this.db.query(createUsageAlertsTable);
 
+    // Databases created before these columns existed lack them
+    await this.ensureUsageColumn('partial', 'INTEGER NOT NULL DEFAULT 0');
+    await this.ensureUsageColumn('provider', "TEXT NOT NULL DEFAULT 'anthropic'");
+
     // Create indexes for performance
     await this.db.query('CREATE INDEX IF NOT EXISTS idx_usage_session ON api_usage(session_id)');
     await this.db.query('CREATE INDEX IF NOT EXISTS idx_usage_user ON api_usage(user_id)');
@@ -141,33 +155,49 @@ export class APIUsageTracker extends EventEmitter {
     await this.db.query('CREATE INDEX IF NOT EXISTS idx_alerts_user ON usage_alerts(user_id, acknowledged)');
   }
 
+  private async ensureUsageColumn(name: string, definition: string): Promise<void> {
+    const column = await this.db.query(
+      'SELECT name FROM pragma_table_info(\'api_usage\') WHERE name = ?',
+      [name]
+    );
+    if (column.rows.length === 0) {
+      await this.db.query(`ALTER TABLE api_usage ADD COLUMN ${name} ${definition}`);
+    }
+  }
+
   /**
-   * Track API usage from a Claude API response
+   * Track API usage from a model provider response
    */
   async trackUsage(params: {
     sessionId: string;
+    // Defaults to anthropic
+    provider?: string;
     model: string;
     inputTokens: number;
     outputTokens: number;
     requestType: 'planning' | 'execution' | 'chat';
     userId: string;
+    partial?: boolean;
   }): Promise<TokenUsage> {
     const {
       sessionId,
+      provider = DEFAULT_PRICING_PROVIDER,
       model,
       inputTokens,
       outputTokens,
       requestType,
-      userId
+      userId,
+      partial
     } = params;
 
     const totalTokens = inputTokens + outputTokens;
-    const estimatedCost = this.calculateCost(model, inputTokens, outputTokens);
+    const estimatedCost = this.calculateCost(provider, model, inputTokens, outputTokens);
     
     const usage: TokenUsage = {
       id: this.generateId(),
       sessionId,
       timestamp: new Date(),
+      provider,
       model,
       inputTokens,
       outputTokens,
@@ -175,7 +205,8 @@ export class APIUsageTracker extends EventEmitter {
       estimatedCost,
       currency: 'USD',
       requestType,
-      userId
+      userId,
+      partial
     };
 
     // Store in database
@@ -194,13 +225,16 @@ export class APIUsageTracker extends EventEmitter {
   }
 
   /**
-   * Calculate cost based on model pricing
+   * Calculate cost based on provider and model pricing
    */
-  private calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-    const pricing = this.modelPricing[model];
+  private calculateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
+    const pricing = this.modelPricing[pricingKey(provider, model)];
     if (!pricing) {
-      // Default to Sonnet pricing if model not found
-      return ((inputTokens * 3.00) + (outputTokens * 15.00)) / 1000000;
+      // Unknown Claude models default to Sonnet pricing; other providers,
+      // such as self-hosted servers, cost nothing until priced
+      return provider === DEFAULT_PRICING_PROVIDER
+        ? ((inputTokens * 3.00) + (outputTokens * 15.00)) / 1000000
+        : 0;
     }
 
     return ((inputTokens * pricing.input) + (outputTokens * pricing.output)) / 1000000;
@@ -212,15 +246,16 @@ export class APIUsageTracker extends EventEmitter {
   private async storeUsage(usage: TokenUsage): Promise<void> {
     const query = `
       INSERT INTO api_usage (
-        id, session_id, timestamp, model, input_tokens, output_tokens,
-        total_tokens, estimated_cost, currency, request_type, user_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, session_id, timestamp, provider, model, input_tokens, output_tokens,
+        total_tokens, estimated_cost, currency, request_type, user_id, partial
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     await this.db.query(query, [
       usage.id,
       usage.sessionId,
       usage.timestamp.toISOString(),
+      usage.provider,
       usage.model,
       usage.inputTokens,
       usage.outputTokens,
@@ -228,7 +263,8 @@ export class APIUsageTracker extends EventEmitter {
       usage.estimatedCost,
       usage.currency,
       usage.requestType,
-      usage.userId
+      usage.userId,
+      usage.partial ? 1 : 0
     ]);
 
     // Store in analytics for historical analysis
@@ -271,6 +307,8 @@ export class APIUsageTracker extends EventEmitter {
     startDate: Date,
     endDate: Date
   ): Promise<UsageMetrics> {
+    await this.ready;
+
     const query = `
       SELECT 
         SUM(input_tokens) as total_input,
@@ -278,12 +316,13 @@ export class APIUsageTracker extends EventEmitter {
         SUM(total_tokens) as total_tokens,
         SUM(estimated_cost) as total_cost,
         COUNT(*) as request_count,
+        provider,
         model,
         SUM(estimated_cost) as model_cost,
         SUM(total_tokens) as model_tokens
       FROM api_usage 
       WHERE user_id = ? AND timestamp BETWEEN ? AND ?
-      GROUP BY model
+      GROUP BY provider, model
     `;
 
     const results = await this.db.query(query, [
@@ -306,8 +345,9 @@ export class APIUsageTracker extends EventEmitter {
       totalTokens += row.total_tokens || 0;
       totalCost += row.total_cost || 0;
       requestCount += row.request_count || 0;
-      costByModel[row.model] = row.model_cost || 0;
-      tokensByModel[row.model] = row.model_tokens || 0;
+      const key = pricingKey(row.provider || DEFAULT_PRICING_PROVIDER, row.model);
+      costByModel[key] = row.model_cost || 0;
+      tokensByModel[key] = row.model_tokens || 0;
     });
 
     return {
@@ -543,7 +583,7 @@ export class APIUsageTracker extends EventEmitter {
 
     if (format === 'csv') {
       const headers = [
-        'ID', 'Session ID', 'Timestamp', 'Model', 'Input Tokens',
+        'ID', 'Session ID', 'Timestamp', 'Provider', 'Model', 'Input Tokens',
         'Output Tokens', 'Total Tokens', 'Estimated Cost', 'Currency', 'Request Type'
       ];
       
@@ -553,6 +593,7 @@ export class APIUsageTracker extends EventEmitter {
           row.id,
           row.session_id,
           row.timestamp,
+          row.provider,
           row.model,
           row.input_tokens,
           row.output_tokens,
@@ -577,7 +618,7 @@ export class APIUsageTracker extends EventEmitter {
   }
 
   /**
-   * Get model pricing information
+   * Get model pricing information, keyed by provider:model
    */
   getModelPricing(): Record<string, { input: number; output: number }> {
     return { ...this.modelPricing };
@@ -586,9 +627,13 @@ export class APIUsageTracker extends EventEmitter {
   /**
    * Update model pricing
    */
-  updateModelPricing(model: string, pricing: { input: number; output: number }): void {
-    this.modelPricing[model] = pricing;
-    this.emit('pricing_updated', { model, pricing });
+  updateModelPricing(
+    model: string,
+    pricing: { input: number; output: number },
+    provider: string = DEFAULT_PRICING_PROVIDER
+  ): void {
+    this.modelPricing[pricingKey(provider, model)] = pricing;
+    this.emit('pricing_updated', { provider, model, pricing });
   }
 
   /**
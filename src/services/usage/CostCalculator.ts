@@ -14,6 +14,16 @@ export interface ModelPricing {
   provider: string;
 }
 
+/**
+ * Models are priced per provider; the same model name served by a
+ * self-hosted server costs nothing per token
+ */
+export function pricingKey(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
+
+export const DEFAULT_PRICING_PROVIDER = 'anthropic';
+
 export interface CurrencyRate {
   from: string;
   to: string;
@@ -28,6 +38,7 @@ export interface CostBreakdown {
   totalCost: number;
   currency: string;
   model: string;
+  provider: string;
   inputTokens: number;
   outputTokens: number;
   exchangeRate?: number;
@@ -112,7 +123,7 @@ export class CostCalculator extends EventEmitter {
     ];
 
     defaultPricing.forEach(pricing => {
-      this.modelPricing.set(pricing.name, pricing);
+      this.modelPricing.set(pricingKey(pricing.provider, pricing.name), pricing);
     });
   }
 
@@ -151,11 +162,12 @@ export class CostCalculator extends EventEmitter {
     model: string,
     inputTokens: number,
     outputTokens: number,
-    targetCurrency?: string
+    targetCurrency?: string,
+    provider: string = DEFAULT_PRICING_PROVIDER
   ): CostBreakdown {
-    const pricing = this.modelPricing.get(model);
+    const pricing = this.modelPricing.get(pricingKey(provider, model));
     if (!pricing) {
-      throw new Error(`Pricing not found for model: ${model}`);
+      throw new Error(`Pricing not found for model: ${pricingKey(provider, model)}`);
     }
 
     const inputCost = (inputTokens * pricing.inputCostPer1M) / 1000000;
@@ -168,6 +180,7 @@ export class CostCalculator extends EventEmitter {
       totalCost,
       currency: pricing.currency,
       model,
+      provider,
       inputTokens,
       outputTokens
     };
@@ -186,6 +199,13 @@ export class CostCalculator extends EventEmitter {
     return result;
   }
 
+  /**
+   * Whether pricing is known for a provider's model
+   */
+  hasPricing(model: string, provider: string = DEFAULT_PRICING_PROVIDER): boolean {
+    return this.modelPricing.has(pricingKey(provider, model));
+  }
+
   /**
    * Convert currency amount
    */
@@ -283,13 +303,15 @@ export class CostCalculator extends EventEmitter {
     currentModel: string,
     avgInputTokens: number,
     avgOutputTokens: number,
-    targetCurrency?: string
+    targetCurrency?: string,
+    provider: string = DEFAULT_PRICING_PROVIDER
   ): CostOptimization {
     const currentCost = this.calculateCost(
       currentModel,
       avgInputTokens,
       avgOutputTokens,
-      targetCurrency
+      targetCurrency,
+      provider
     );
 
     const alternatives: Array<{
@@ -301,14 +323,18 @@ export class CostCalculator extends EventEmitter {
     }> = [];
 
     // Analyze all available models
-    for (const [modelName] of this.modelPricing) {
-      if (modelName === currentModel) continue;
+    for (const pricing of this.modelPricing.values()) {
+      if (pricing.name === currentModel && pricing.provider === provider) continue;
 
+      const modelName = pricing.provider === provider
+        ? pricing.name
+        : pricingKey(pricing.provider, pricing.name);
       const altCost = this.calculateCost(
-        modelName,
+        pricing.name,
         avgInputTokens,
         avgOutputTokens,
-        targetCurrency
+        targetCurrency,
+        pricing.provider
       );
 
       const savings = currentCost.totalCost - altCost.totalCost;
@@ -366,7 +392,7 @@ export class CostCalculator extends EventEmitter {
    * Update model pricing
    */
   updateModelPricing(newPricing: ModelPricing): void {
-    this.modelPricing.set(newPricing.name, newPricing);
+    this.modelPricing.set(pricingKey(newPricing.provider, newPricing.name), newPricing);
     this.emit('pricing_updated', newPricing);
   }
 
@@ -429,6 +455,8 @@ export class CostCalculator extends EventEmitter {
   calculateBulkCost(
     operations: Array<{
       model: string;
+      // Defaults to anthropic
+      provider?: string;
       inputTokens: number;
       outputTokens: number;
     }>,
@@ -450,13 +478,14 @@ export class CostCalculator extends EventEmitter {
     const modelDistribution: Record<string, number> = {};
 
     for (const op of operations) {
-      const cost = this.calculateCost(op.model, op.inputTokens, op.outputTokens, targetCurrency);
+      const cost = this.calculateCost(op.model, op.inputTokens, op.outputTokens, targetCurrency, op.provider);
       breakdown.push(cost);
       totalCost += cost.totalCost;
       totalInputTokens += op.inputTokens;
       totalOutputTokens += op.outputTokens;
       
-      modelDistribution[op.model] = (modelDistribution[op.model] || 0) + 1;
+      const key = pricingKey(cost.provider, op.model);
+      modelDistribution[key] = (modelDistribution[key] || 0) + 1;
     }
 
     return {
@@ -516,7 +545,8 @@ export class CostCalculator extends EventEmitter {
     avgInputTokensPerRequest: number,
     avgOutputTokensPerRequest: number,
     projectionDays: number = 30,
-    targetCurrency?: string
+    targetCurrency?: string,
+    provider: string = DEFAULT_PRICING_PROVIDER
   ): {
     dailyCost: number;
     weeklyCost: number;
@@ -528,7 +558,8 @@ export class CostCalculator extends EventEmitter {
       model,
       avgInputTokensPerRequest,
       avgOutputTokensPerRequest,
-      targetCurrency
+      targetCurrency,
+      provider
     );
 
     const dailyCost = singleRequestCost.totalCost * dailyRequests;
@@ -5,7 +5,7 @@
 
 import { EventEmitter } from 'events';
 import { DatabaseService } from '@/src/database/DatabaseService';
-import { CostCalculator } from './CostCalculator';
+import { CostCalculator, DEFAULT_PRICING_PROVIDER } from './CostCalculator';
 
 export interface UsageLimit {
   id: string;
@@ -295,7 +295,8 @@ export class UsageLimitsManager extends EventEmitter {
   async checkLimits(
     userId: string,
     estimatedTokens: { input: number; output: number },
-    model: string
+    model: string,
+    provider: string = DEFAULT_PRICING_PROVIDER
   ): Promise<{
     allowed: boolean;
     violations: LimitViolation[];
@@ -313,7 +314,7 @@ export class UsageLimitsManager extends EventEmitter {
         continue;
       }
 
-      const status = await this.getLimitStatus(limit, estimatedTokens, model);
+      const status = await this.getLimitStatus(limit, estimatedTokens, model, provider);
 
       if (status.status === 'exceeded' && limit.hardLimit) {
         blockedLimits.push(limit.id);
@@ -368,7 +369,8 @@ export class UsageLimitsManager extends EventEmitter {
   private async getLimitStatus(
     limit: UsageLimit,
     estimatedTokens: { input: number; output: number },
-    model: string
+    model: string,
+    provider: string = DEFAULT_PRICING_PROVIDER
   ): Promise<UsageStatus> {
     const periodStart = this.getPeriodStart(limit.period);
     const periodEnd = this.getPeriodEnd(limit.period);
@@ -379,12 +381,14 @@ export class UsageLimitsManager extends EventEmitter {
     // Add estimated usage
     if (limit.type === 'tokens') {
       currentUsage += estimatedTokens.input + estimatedTokens.output;
-    } else if (limit.type === 'cost') {
+    } else if (limit.type === 'cost' && this.costCalculator.hasPricing(model, provider)) {
+      // Unpriced models, such as those on self-hosted servers, add no cost
       const costEstimate = this.costCalculator.calculateCost(
         model,
         estimatedTokens.input,
         estimatedTokens.output,
-        limit.currency
+        limit.currency,
+        provider
       );
       currentUsage += costEstimate.totalCost;
     } else if (limit.type === 'requests') {
@@ -161,6 +161,7 @@ export class UsageMonitorService extends EventEmitter {
    */
   async trackAPIUsage(params: {
     sessionId: string;
+    provider?: string;
     model: string;
     inputTokens: number;
     outputTokens: number;
@@ -172,7 +173,8 @@ export class UsageMonitorService extends EventEmitter {
       const limitCheck = await this.limitsManager.checkLimits(
         params.userId,
         { input: params.inputTokens, output: params.outputTokens },
-        params.model
+        params.model,
+        params.provider
       );
 
       if (!limitCheck.allowed) {
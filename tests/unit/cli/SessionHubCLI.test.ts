@@ -0,0 +1,184 @@
+// The real services open the desktop database and start background timers
+jest.mock('../../../src/cli/CLIServices', () => ({ createCLIServices: jest.fn() }));
+
+import { SessionHubCLI, EXIT_CODES } from '../../../src/cli/SessionHubCLI';
+import { CLIServices } from '../../../src/cli/CLIServices';
+import { Session } from '../../../src/models/Session';
+
+describe('SessionHubCLI', () => {
+  let stored: Map<string, Session>;
+  let queued: Map<string, any>;
+  let services: CLIServices;
+  let stdout: string;
+  let stderr: string;
+  const generateInstructions = jest.fn();
+  const executeInstructions = jest.fn();
+  const listRecordings = jest.fn();
+  const loadRecording = jest.fn();
+  const replayExecution = jest.fn();
+
+  const run = (...argv: string[]) => new SessionHubCLI(services, {
+    stdout: { write: (text: string) => (stdout += text, true) },
+    stderr: { write: (text: string) => (stderr += text, true) }
+  }).run(argv);
+
+  beforeEach(() => {
+    stored = new Map();
+    queued = new Map();
+    stdout = '';
+    stderr = '';
+    generateInstructions.mockReset().mockResolvedValue({ metadata: { id: 'instr-1' }, requirements: [] });
+    executeInstructions.mockReset();
+    listRecordings.mockReset();
+    loadRecording.mockReset();
+    replayExecution.mockReset();
+
+    const sessions = {
+      createSession: async (request: any, metadata: any) => {
+        const session = {
+          id: `session_${stored.size + 1}`,
+          name: request.content,
+          description: request.content,
+          status: 'planning',
+          createdAt: '2026-10-19T09:00:00.000Z',
+          updatedAt: '2026-10-19T09:00:00.000Z',
+          userId: request.userId,
+          projectId: metadata.projectId,
+          request,
+          metadata
+        } as Session;
+        stored.set(session.id, session);
+        return session;
+      },
+      getSession: async (id: string) => stored.get(id) || null,
+      updateSession: async (id: string, updates: Partial<Session>) => {
+        const session = { ...stored.get(id)!, ...updates };
+        stored.set(id, session);
+        return session;
+      }
+    };
+
+    const queue = {
+      addToQueue: async (session: any) => {
+        queued.set(session.id, { ...session, priority: session.metadata.priority, queuePosition: queued.size + 1 });
+      },
+      removeFromQueue: async (id: string) => {
+        queued.delete(id);
+      },
+      getSession: (id: string) => queued.get(id),
+      getQueueState: () => ({ isPaused: false, sessions: [...queued.values()] })
+    };
+
+    services = {
+      sessions: async () => sessions as any,
+      queue: async () => queue as any,
+      planning: async () => ({ generateInstructions }) as any,
+      execution: async () => ({ executeInstructions, listRecordings, loadRecording, replayExecution }) as any,
+      usage: async () => ({}) as any,
+      close: jest.fn(async () => undefined)
+    };
+  });
+
+  it('should plan a session and exit with its status', async () => {
+    const code = await run('plan', 'add', 'a settings page', '--project', 'web', '--path', '/work/web');
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({
+      id: 'session_1',
+      status: 'pending',
+      projectId: 'web',
+      instructions: { metadata: { id: 'instr-1' } },
+      request: { content: 'add a settings page', sessionId: 'session_1', context: { projectPath: '/work/web' } }
+    });
+    expect(services.close).toHaveBeenCalled();
+
+    generateInstructions.mockRejectedValue(new Error('rate limited'));
+    stdout = '';
+    expect(await run('plan', 'fix the build')).toBe(1);
+    expect(JSON.parse(stdout).error).toMatchObject({ code: 'PLANNING_FAILED', message: 'rate limited' });
+  });
+
+  it('should execute planned sessions and record the result', async () => {
+    await run('plan', 'add a settings page', '--path', '/work/web');
+    await run('queue', 'add', 'session_1', '--priority', 'high');
+    expect(queued.get('session_1')).toMatchObject({ priority: 'high' });
+
+    executeInstructions.mockResolvedValue({
+      instructionId: 'instr-1',
+      status: 'failure',
+      startTime: '2026-10-19T09:01:00.000Z',
+      endTime: '2026-10-19T09:02:00.000Z',
+      outputs: [],
+      errors: [{ code: 'TEST_FAILED', message: 'settings.test.ts failed', recoverable: true }],
+      logs: [],
+      validationResults: []
+    });
+    stdout = '';
+    const code = await run('execute', 'session_1', '--concurrency', '2');
+
+    expect(code).toBe(1);
+    expect(executeInstructions).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: { id: 'instr-1' } }),
+      expect.objectContaining({ workingDirectory: '/work/web', concurrency: 2, dryRun: false })
+    );
+    expect(JSON.parse(stdout)).toMatchObject({
+      status: 'failed',
+      result: { status: 'failure', errors: ['settings.test.ts failed'] },
+      error: { code: 'EXECUTION_FAILED', actor: 'execution' }
+    });
+    expect(queued.has('session_1')).toBe(false);
+  });
+
+  it('should list and replay recorded runs', async () => {
+    await run('plan', 'add a settings page', '--path', '/work/web');
+    executeInstructions.mockResolvedValue({
+      instructionId: 'instr-1',
+      status: 'success',
+      startTime: '2026-10-19T09:01:00.000Z',
+      endTime: '2026-10-19T09:02:00.000Z',
+      outputs: [],
+      errors: [],
+      logs: [],
+      validationResults: [],
+      recording: '/recordings/session_1/instr-1.json'
+    });
+    stdout = '';
+    await run('execute', 'session_1', '--record');
+
+    expect(executeInstructions).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ record: true }));
+    expect(JSON.parse(stdout).result.metadata).toEqual({ recording: '/recordings/session_1/instr-1.json' });
+
+    listRecordings.mockResolvedValue(['/recordings/session_1/instr-1.json']);
+    stdout = '';
+    expect(await run('replay', 'list', 'session_1')).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({ sessionId: 'session_1', recordings: ['/recordings/session_1/instr-1.json'] });
+
+    const recording = { instructionId: 'instr-1', recordedAt: '2026-10-19T09:02:00.000Z' };
+    loadRecording.mockResolvedValue(recording);
+    replayExecution.mockResolvedValue({
+      instructionId: 'instr-1',
+      recordedAt: recording.recordedAt,
+      result: { status: 'success' },
+      divergences: [{ kind: 'api', at: 'api #1', message: 'API request differs from the recorded request' }]
+    });
+    stdout = '';
+    expect(await run('replay', 'run', '/recordings/session_1/instr-1.json')).toBe(1);
+    expect(loadRecording).toHaveBeenCalledWith('/recordings/session_1/instr-1.json');
+    expect(replayExecution).toHaveBeenCalledWith(recording, expect.objectContaining({ timeout: 300000 }));
+    expect(JSON.parse(stdout)).toMatchObject({ status: 'success', divergences: [{ kind: 'api', at: 'api #1' }] });
+  });
+
+  it('should report usage errors and missing sessions on stderr', async () => {
+    expect(await run('execute', 'session_9')).toBe(EXIT_CODES.notFound);
+    expect(JSON.parse(stderr).error.code).toBe('NOT_FOUND');
+
+    stored.set('session_2', { id: 'session_2', status: 'planning', metadata: {} } as Session);
+    stderr = '';
+    expect(await run('execute', 'session_2')).toBe(EXIT_CODES.usage);
+    expect(JSON.parse(stderr).error.code).toBe('NO_PLAN');
+
+    expect(await run('queue', 'add', 'session_2', '--priority', 'urgent')).toBe(EXIT_CODES.usage);
+    expect(await run('plan', '--model', 'opus', 'x')).toBe(EXIT_CODES.usage);
+    expect(await run('deploy')).toBe(EXIT_CODES.usage);
+  });
+});
@@ -0,0 +1,81 @@
+import * as fs from 'fs/promises';
+import { ChangePreviewBuilder } from '../../../src/core/execution/ChangePreview';
+import { InstructionDeliverable } from '../../../src/models/Instruction';
+
+const mockReadFile = fs.readFile as jest.Mock;
+
+describe('ChangePreviewBuilder', () => {
+  const deliverables: InstructionDeliverable[] = [
+    { type: 'file', path: 'src/index.ts', description: 'Entry point' },
+    { type: 'directory', path: './src/components/', description: 'UI components' }
+  ];
+  let builder: ChangePreviewBuilder;
+
+  beforeEach(() => {
+    builder = new ChangePreviewBuilder(deliverables);
+    mockReadFile.mockReset();
+  });
+
+  const missingFile = () => Object.assign(new Error('not found'), { code: 'ENOENT' });
+
+  it('should preview new files as creations with a unified diff', async () => {
+    mockReadFile.mockRejectedValue(missingFile());
+
+    const preview = await builder.previewFileChange('/workspace', 'src/index.ts', 'export {};\n');
+
+    expect(preview?.action).toBe('create');
+    expect(preview?.diff).toContain('+export {};');
+    expect(preview?.satisfies).toEqual([deliverables[0]]);
+  });
+
+  it('should preview existing files as modifications', async () => {
+    mockReadFile.mockResolvedValue('old\n');
+
+    const preview = await builder.previewFileChange('/workspace', 'src/components/Button.tsx', 'new\n');
+
+    expect(preview?.action).toBe('modify');
+    expect(preview?.diff).toContain('-old');
+    expect(preview?.diff).toContain('+new');
+    expect(preview?.satisfies).toEqual([deliverables[1]]);
+  });
+
+  it('should preview deletions and skip deleting missing files', async () => {
+    mockReadFile.mockResolvedValueOnce('content\n');
+    const deletion = await builder.previewFileChange('/workspace', 'README.md', null);
+    expect(deletion?.action).toBe('delete');
+    expect(deletion?.satisfies).toEqual([]);
+
+    mockReadFile.mockRejectedValueOnce(missingFile());
+    expect(await builder.previewFileChange('/workspace', 'gone.md', null)).toBeNull();
+  });
+
+  it('should skip files whose content is unchanged', async () => {
+    mockReadFile.mockResolvedValue('same\n');
+
+    expect(await builder.previewFileChange('/workspace', 'src/index.ts', 'same\n')).toBeNull();
+  });
+
+  it('should merge fragments with later changes to a path winning', () => {
+    const preview = builder.merge('instruction-1', [
+      {
+        files: [{ path: 'a.ts', action: 'create', satisfies: [] }],
+        commands: [{ command: 'npm install', cwd: '/workspace', description: 'install' }]
+      },
+      {
+        files: [{ path: 'a.ts', action: 'modify', satisfies: [] }],
+        commands: [{ command: 'npm test', cwd: '/workspace', description: 'test' }],
+        generatedCode: { 'req-2': '=== FILE: a.ts ===' }
+      },
+      {
+        files: [],
+        commands: [],
+        generatedCode: { 'req-3': '=== FILE: b.ts ===' }
+      }
+    ]);
+
+    expect(preview.instructionId).toBe('instruction-1');
+    expect(preview.files).toEqual([{ path: 'a.ts', action: 'modify', satisfies: [] }]);
+    expect(preview.commands.map(c => c.command)).toEqual(['npm install', 'npm test']);
+    expect(preview.generatedCode).toEqual({ 'req-2': '=== FILE: a.ts ===', 'req-3': '=== FILE: b.ts ===' });
+  });
+});
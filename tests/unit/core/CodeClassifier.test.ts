@@ -0,0 +1,128 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeClassifier } from '../../../src/core/protocol/CodeClassifier';
+import { ProtocolValidator } from '../../../src/core/protocol/ProtocolValidator';
+import { TerminologyAllowlist, TerminologyConfigError } from '../../../src/core/protocol/TerminologyAllowlist';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+describe('CodeClassifier', () => {
+  const classifier = new CodeClassifier();
+
+  it.each([
+    'Call the .save() endpoint after the form is submitted',
+    'The page must handle errors => display a friendly message',
+    'Users should be able to select the items from their cart',
+    'Render a <Header> above the profile details',
+    'Export the report as CSV'
+  ])('should treat planning prose as prose: %s', text => {
+    expect(classifier.classify(text).isCode).toBe(false);
+  });
+
+  it.each([
+    ['const user = await db.find(id);', 'typescript'],
+    ["import React from 'react'", 'typescript'],
+    ['<Button onClick={handleClick}>Save</Button>', 'markup'],
+    ['def load_profile(user_id):', 'python'],
+    ['SELECT id, name FROM users WHERE id = 1', 'sql'],
+    ['npm install --save lodash', 'shell']
+  ])('should detect %s as %s', (text, language) => {
+    const detection = classifier.classify(text);
+
+    expect(detection.isCode).toBe(true);
+    expect(detection.language).toBe(language);
+    expect(detection.confidence).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('should report the offending span within the original text', () => {
+    const text = 'Store the profile.\nconst profile = loadProfile(id);';
+    const detection = classifier.classify(text);
+
+    expect(detection.span?.text).toBe('const profile = loadProfile(id);');
+    expect(text.slice(detection.span?.start, detection.span?.end)).toBe(detection.span?.text);
+  });
+
+  it('should ignore allowlisted terminology', () => {
+    const text = 'Wire the form to user.profile.update() and user.session.refresh()';
+
+    expect(classifier.classify(text).isCode).toBe(true);
+    expect(
+      classifier.classify(text, ['user.profile.update()', 'user.session.refresh()']).isCode
+    ).toBe(false);
+  });
+});
+
+describe('ProtocolValidator.ensureNoCode', () => {
+  const protocol = (description: string): InstructionProtocol => ({
+    metadata: {
+      id: 'instr-1',
+      sessionId: 'session-1',
+      sessionName: 'Checkout',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      version: '1.0',
+      actor: 'planning',
+      projectId: 'shop'
+    },
+    context: { description: 'Checkout flow', prerequisites: [], userRequest: 'Build checkout' },
+    objectives: [{ id: 'obj-1', primary: 'Customers can pay', measurable: true }],
+    requirements: [{ id: 'req-1', description, priority: 'must' }],
+    deliverables: [],
+    constraints: {},
+    successCriteria: [{
+      id: 'sc-1',
+      criterion: 'Payment completes end to end',
+      validationMethod: 'Manual test',
+      automated: false
+    }]
+  });
+
+  let allowlist: TerminologyAllowlist;
+  let validator: ProtocolValidator;
+
+  beforeEach(() => {
+    allowlist = new TerminologyAllowlist();
+    validator = new ProtocolValidator(new Logger('CodeClassifierTest'), new CodeClassifier(), allowlist);
+  });
+
+  it('should name the field and span of detected code', () => {
+    const violations = validator.detectCode(protocol('Persist the order with orders.insert(order).then(done)'));
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]?.path).toBe('requirements[0].description');
+    expect(violations[0]?.detection.span?.text).toContain('orders.insert(order)');
+  });
+
+  it('should apply the allowlist of the instruction project only', () => {
+    const instructions = protocol('Persist the order with orders.insert(order).then(done)');
+    allowlist.setProjectTerms('other-project', ['orders.insert(order).then(done)']);
+    expect(() => validator.ensureNoCode(instructions)).toThrow(/ACTOR BOUNDARY VIOLATION/);
+
+    validator.setTerminologyAllowlist('shop', ['orders.insert(order).then(done)']);
+    expect(() => validator.ensureNoCode(instructions)).not.toThrow();
+  });
+
+  it('should keep project terms in the project config', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'terminology-test-'));
+    try {
+      const instructions = protocol('Persist the order with orders.insert(order).then(done)');
+      expect(await validator.loadTerminologyAllowlist('shop', root)).toEqual([]);
+
+      await allowlist.saveProject('shop', root, ['orders.insert(order).then(done)', '  ']);
+      expect(JSON.parse(fs.readFileSync(path.join(root, '.sessionhub', 'terminology.json'), 'utf-8')))
+        .toEqual({ terms: ['orders.insert(order).then(done)'] });
+
+      // Another process, e.g. the CLI, reads the same config
+      const elsewhere = new ProtocolValidator(new Logger('CodeClassifierTest'), new CodeClassifier(), new TerminologyAllowlist());
+      await elsewhere.loadTerminologyAllowlist('shop', root);
+      expect(() => elsewhere.ensureNoCode(instructions)).not.toThrow();
+
+      fs.writeFileSync(path.join(root, '.sessionhub', 'terminology.json'), '{ "terms": "orders" }');
+      await expect(allowlist.loadProject('shop', root)).rejects.toThrow(TerminologyConfigError);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
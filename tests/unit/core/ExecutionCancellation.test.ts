@@ -0,0 +1,106 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionEngine } from '../../../src/core/execution/ExecutionEngine';
+import { IsolationOptions, SandboxError, SecuritySandbox } from '../../../src/core/execution/SecuritySandbox';
+import { ProtocolValidator } from '../../../src/core/protocol/ProtocolValidator';
+import { ClaudeCodeAPIClient } from '../../../src/lib/api/ClaudeCodeAPIClient';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+const instructions: InstructionProtocol = {
+  metadata: {
+    id: 'instr-cancel',
+    sessionId: 'session-cancel',
+    sessionName: 'Greeting',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    version: '1.0',
+    actor: 'planning'
+  },
+  context: { description: 'Greeting page', prerequisites: [], userRequest: 'Greet visitors by name' },
+  objectives: [{ id: 'obj-1', primary: 'Visitors see a greeting', measurable: true }],
+  requirements: [{ id: 'req-1', description: 'Show a greeting with the visitor name', priority: 'must' }],
+  deliverables: [],
+  constraints: {},
+  successCriteria: [{
+    id: 'sc-1',
+    criterion: 'The greeting page renders the name',
+    validationMethod: 'Manual review',
+    automated: false
+  }]
+};
+
+describe('ExecutionEngine cancellation', () => {
+  const logger = new Logger('ExecutionCancellationTest');
+  const originalFetch = global.fetch;
+  let root: string;
+  let engine: ExecutionEngine;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cancel-test-'));
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        content: [{ text: '=== FILE: greeting.js ===\nhello\n=== END FILE ===' }],
+        usage: { input_tokens: 10, output_tokens: 5 }
+      })
+    })) as unknown as typeof fetch;
+
+    // The command runs until the run is cancelled, like a long build
+    const executeIsolated = jest.fn((_spec: unknown, options: IsolationOptions) => new Promise((_resolve, reject) => {
+      options.signal?.addEventListener('abort', () => {
+        reject(new SandboxError('Isolated task cancelled', 'SANDBOX_CANCELLED'));
+      });
+      engine.cancelExecution(instructions.metadata.id);
+    }));
+    const sandbox = {
+      executeSecurely: (operation: () => Promise<unknown>) => operation(),
+      executeIsolated
+    } as unknown as SecuritySandbox;
+
+    engine = new ExecutionEngine(
+      logger,
+      new ProtocolValidator(logger),
+      sandbox,
+      new ClaudeCodeAPIClient({ apiKey: 'test', workspaceDir: path.join(root, 'workspaces') }, logger)
+    );
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should stop the running task and roll back what the run wrote', async () => {
+    const result = await engine.executeInstructions(instructions, {
+      workingDirectory: root,
+      environment: {},
+      timeout: 5000,
+      dryRun: false
+    });
+
+    expect(result.status).toBe('failure');
+    expect(result.errors.map(error => error.code)).toEqual(['EXECUTION_CANCELLED']);
+    expect(result.rollback?.reason).toBe('cancelled');
+    expect(result.rollback?.removed.some(file => file.endsWith('greeting.js'))).toBe(true);
+    expect(engine.cancelExecution(instructions.metadata.id)).toBe(false);
+  });
+
+  it('should not start a run whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await engine.executeInstructions(instructions, {
+      workingDirectory: root,
+      environment: {},
+      timeout: 5000,
+      dryRun: false,
+      signal: controller.signal
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.errors.map(error => error.code)).toEqual(['EXECUTION_CANCELLED']);
+  });
+});
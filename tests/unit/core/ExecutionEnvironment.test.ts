@@ -0,0 +1,64 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildExecutionEnvironment,
+  EXECUTION_ENVIRONMENT_FILE,
+  ExecutionEnvironmentError
+} from '../../../src/core/execution/ExecutionEnvironment';
+import { SecuritySandbox } from '../../../src/core/execution/SecuritySandbox';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+describe('buildExecutionEnvironment', () => {
+  let projectPath: string;
+
+  const writeConfig = (content: string) => {
+    fs.mkdirSync(path.join(projectPath, '.sessionhub'), { recursive: true });
+    fs.writeFileSync(path.join(projectPath, EXECUTION_ENVIRONMENT_FILE), content);
+  };
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'environment-test-'));
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-secret';
+    process.env['PROJECT_DATABASE_URL'] = 'postgres://localhost/app';
+  });
+
+  afterEach(() => {
+    delete process.env['ANTHROPIC_API_KEY'];
+    delete process.env['PROJECT_DATABASE_URL'];
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('should keep the app\'s secrets out of isolated tasks', async () => {
+    writeConfig(JSON.stringify({ variables: ['PROJECT_DATABASE_URL'] }));
+    const sandbox = new SecuritySandbox(new Logger('ExecutionEnvironmentTest'));
+
+    const result = await sandbox.executeIsolated(
+      {
+        kind: 'node',
+        command: 'process.stdout.write(JSON.stringify([process.env.ANTHROPIC_API_KEY, process.env.PROJECT_DATABASE_URL]))'
+      },
+      { workingDirectory: projectPath, environment: await buildExecutionEnvironment(projectPath) }
+    );
+
+    expect(JSON.parse(result.stdout)).toEqual([null, 'postgres://localhost/app']);
+  });
+
+  it('should pass only the base variables when the project names none', async () => {
+    const environment = await buildExecutionEnvironment(projectPath, {
+      PATH: '/usr/bin',
+      HOME: '/home/dev',
+      SESSIONHUB_LLM_API_KEY: 'secret'
+    });
+
+    expect(environment).toEqual({ PATH: '/usr/bin', HOME: '/home/dev' });
+  });
+
+  it('should reject a config that does not list names', async () => {
+    writeConfig(JSON.stringify({ variables: 'NODE_ENV' }));
+
+    await expect(buildExecutionEnvironment(projectPath)).rejects.toBeInstanceOf(ExecutionEnvironmentError);
+  });
+});
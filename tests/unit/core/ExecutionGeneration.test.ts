@@ -0,0 +1,141 @@
+import * as path from 'path';
+import { ExecutionEngine } from '../../../src/core/execution/ExecutionEngine';
+import { SecuritySandbox } from '../../../src/core/execution/SecuritySandbox';
+import { ProtocolValidator } from '../../../src/core/protocol/ProtocolValidator';
+import { ClaudeCodeAPIClient, CodeGenerationRequest } from '../../../src/lib/api/ClaudeCodeAPIClient';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+const instructions: InstructionProtocol = {
+  metadata: {
+    id: 'instr-generation',
+    sessionId: 'session-generation',
+    sessionName: 'Orders',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    version: '1.0',
+    actor: 'planning'
+  },
+  context: { description: 'Order pages', prerequisites: [], userRequest: 'List and show orders' },
+  objectives: [{ id: 'obj-1', primary: 'Customers can browse their orders', measurable: true }],
+  requirements: [
+    { id: 'req-schema', description: 'Orders are stored with their items', priority: 'must', paths: ['db'] },
+    { id: 'req-api', description: 'Orders can be fetched', priority: 'must', dependsOn: ['req-schema'], paths: ['api'] },
+    { id: 'req-ui', description: 'Orders are listed', priority: 'must', paths: ['ui'] }
+  ],
+  deliverables: [],
+  constraints: {},
+  successCriteria: [{
+    id: 'sc-1',
+    criterion: 'The order list shows every order',
+    validationMethod: 'Manual review',
+    automated: false
+  }]
+};
+
+describe('ExecutionEngine code generation', () => {
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  let events: string[];
+  let active: number;
+  let peak: number;
+  let claudeApi: ClaudeCodeAPIClient;
+  let engine: ExecutionEngine;
+
+  const context = () => ({
+    workingDirectory: process.cwd(),
+    environment: {},
+    timeout: 5000,
+    dryRun: false,
+    concurrency: 2
+  });
+
+  beforeEach(() => {
+    events = [];
+    active = 0;
+    peak = 0;
+    const logger = new Logger('ExecutionGenerationTest');
+    claudeApi = {
+      generateCode: jest.fn(async (request: CodeGenerationRequest) => {
+        const requirement = request.instruction.requirements[0]!;
+        const id = requirement.id;
+        active++;
+        peak = Math.max(peak, active);
+        events.push(`generate:${id}`);
+        await delay(10);
+        active--;
+        return `=== FILE: ${path.join(requirement.paths?.[0] ?? '.', id)}.js ===\n${id}\n=== END FILE ===`;
+      }),
+      getLastUsage: jest.fn(() => ({ inputTokens: 10, outputTokens: 5 })),
+      getWorkspaceDir: jest.fn(() => '/workspaces/session-generation'),
+      parseGeneratedChanges: jest.fn((code: string) => [{ path: code.split(' ')[2], content: code }]),
+      resolveChangePath: jest.fn((root: string, file: string) => path.resolve(root, file)),
+      planCommands: jest.fn(() => []),
+      executeCode: jest.fn(async (code: string) => {
+        events.push(`execute:${code.split(' ')[2]}`);
+        return { success: true, output: 'ok', files: [], executionTime: 1 };
+      })
+    } as unknown as ClaudeCodeAPIClient;
+
+    engine = new ExecutionEngine(logger, new ProtocolValidator(logger), new SecuritySandbox(logger), claudeApi);
+  });
+
+  it('should generate each requirement in its own task, after its dependencies', async () => {
+    const result = await engine.executeInstructions(instructions, context());
+
+    expect(result.status).toBe('success');
+    expect(jest.mocked(claudeApi.generateCode).mock.calls.map(([request]) => request.instruction.requirements.map(r => r.id)))
+      .toEqual(expect.arrayContaining([['req-schema'], ['req-api'], ['req-ui']]));
+    expect(claudeApi.generateCode).toHaveBeenCalledTimes(3);
+    // Independent requirements generate side by side; the API waits for the schema
+    expect(peak).toBe(2);
+    expect(events.indexOf('generate:req-api')).toBeGreaterThan(events.indexOf('execute:db/req-schema.js'));
+    expect(result.outputs.map(o => o.description)).toEqual([
+      'Generate and execute code for req-schema: Orders are stored with their items',
+      'Generate and execute code for req-ui: Orders are listed',
+      'Generate and execute code for req-api: Orders can be fetched'
+    ]);
+  });
+
+  it('should not run generation tasks without paths alongside each other', async () => {
+    const unscoped = {
+      ...instructions,
+      requirements: instructions.requirements.map(({ paths: _paths, dependsOn: _dependsOn, ...requirement }) => requirement)
+    };
+
+    const result = await engine.executeInstructions(unscoped, context());
+
+    expect(result.status).toBe('success');
+    // Each may run npm install in the shared workspace
+    expect(peak).toBe(1);
+    expect(result.logs).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^Serialized task .* both write \/workspaces\/session-generation$/)
+    ]));
+  });
+
+  it('should reject generated changes outside the declared paths', async () => {
+    jest.mocked(claudeApi.generateCode).mockResolvedValue('=== FILE: package.json ===\n{}\n=== END FILE ===');
+
+    const result = await engine.executeInstructions({ ...instructions, requirements: [instructions.requirements[2]!] }, context());
+
+    expect(result.status).toBe('failure');
+    expect(result.errors[0]?.message).toContain('Generated change package.json is outside the paths declared by req-ui');
+    expect(claudeApi.executeCode).not.toHaveBeenCalled();
+  });
+
+  it('should apply an approved preview per requirement without regenerating', async () => {
+    const dryRun = await engine.executeInstructions(instructions, { ...context(), dryRun: true });
+    const preview = dryRun.preview!;
+
+    expect(Object.keys(preview.generatedCode ?? {}).sort()).toEqual(['req-api', 'req-schema', 'req-ui']);
+
+    jest.mocked(claudeApi.generateCode).mockClear();
+    const result = await engine.executeInstructions(instructions, {
+      ...context(),
+      approvedPreview: { ...preview, approval: { approvedBy: 'reviewer', approvedAt: '2025-01-01T00:00:00.000Z' } }
+    });
+
+    expect(result.status).toBe('success');
+    expect(claudeApi.generateCode).not.toHaveBeenCalled();
+    expect(jest.mocked(claudeApi.executeCode).mock.calls.map(([code]) => code).sort())
+      .toEqual(Object.values(preview.generatedCode ?? {}).sort());
+  });
+});
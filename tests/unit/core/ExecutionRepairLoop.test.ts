@@ -0,0 +1,135 @@
+import { ExecutionEngine } from '../../../src/core/execution/ExecutionEngine';
+import { SecuritySandbox } from '../../../src/core/execution/SecuritySandbox';
+import { ProtocolValidator } from '../../../src/core/protocol/ProtocolValidator';
+import { ClaudeCodeAPIClient, CodeGenerationRequest } from '../../../src/lib/api/ClaudeCodeAPIClient';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+const instructions: InstructionProtocol = {
+  metadata: {
+    id: 'instr-repair',
+    sessionId: 'session-repair',
+    sessionName: 'Totals',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    version: '1.0',
+    actor: 'planning'
+  },
+  context: { description: 'Order totals', prerequisites: [], userRequest: 'Compute order totals' },
+  objectives: [{ id: 'obj-1', primary: 'Orders show a correct total', measurable: true }],
+  requirements: [{ id: 'req-1', description: 'Totals include tax and shipping', priority: 'must' }],
+  deliverables: [],
+  constraints: {},
+  successCriteria: [{
+    id: 'sc-1',
+    criterion: 'The totals test suite passes',
+    validationMethod: 'Automated tests',
+    automated: true
+  }]
+};
+
+describe('ExecutionEngine repair loop', () => {
+  let requests: CodeGenerationRequest[];
+  let outcomes: Array<boolean | string>;
+  let engine: ExecutionEngine;
+
+  beforeEach(() => {
+    requests = [];
+    outcomes = [];
+    const logger = new Logger('ExecutionRepairLoopTest');
+    const claudeApi = {
+      generateCode: jest.fn(async (request: CodeGenerationRequest) => {
+        requests.push(request);
+        return `=== FILE: totals.js ===\nattempt ${requests.length}\n=== END FILE ===`;
+      }),
+      getLastUsage: jest.fn(() => ({ inputTokens: 100, outputTokens: 50 })),
+      getWorkspaceDir: jest.fn(() => '/workspaces/session-repair'),
+      parseGeneratedChanges: jest.fn(() => [{ path: 'totals.js', content: '' }]),
+      resolveChangePath: jest.fn((root: string, file: string) => `${root}/${file}`),
+      executeCode: jest.fn(async () => {
+        const outcome = outcomes.shift() ?? true;
+        if (typeof outcome === 'string') {
+          return { success: true, output: outcome, files: [], commands: ['npm test'], executionTime: 1 };
+        }
+        return outcome
+          ? { success: true, output: 'Tests: 3 passed, 3 total', files: [], commands: ['npm test'], executionTime: 1 }
+          : { success: false, output: '', error: 'expected 110 but received 100', files: [], commands: [], executionTime: 1 };
+      })
+    } as unknown as ClaudeCodeAPIClient;
+
+    engine = new ExecutionEngine(
+      logger,
+      new ProtocolValidator(logger),
+      new SecuritySandbox(logger),
+      claudeApi
+    );
+  });
+
+  const context = (maxAttempts: number, maxTokens?: number) => ({
+    workingDirectory: process.cwd(),
+    environment: {},
+    timeout: 5000,
+    dryRun: false,
+    repair: { maxAttempts, sessionBudget: { maxTokens } }
+  });
+
+  it('should feed failure evidence back until the criteria pass', async () => {
+    outcomes = [false, false, true];
+
+    const result = await engine.executeInstructions(instructions, context(5));
+
+    expect(result.status).toBe('success');
+    expect(result.attempts?.map(a => [a.trigger, a.result.status])).toEqual([
+      ['initial', 'failure'],
+      ['repair', 'failure'],
+      ['repair', 'success']
+    ]);
+    expect(requests[1]?.repair?.previousCode).toContain('attempt 1');
+    expect(requests[1]?.repair?.failures[0]?.evidence).toContain('expected 110 but received 100');
+    expect(engine.getRepairUsage('session-repair')).toEqual({ repairAttempts: 2, tokens: 450 });
+  });
+
+  it('should fail a criterion on a failing test report even when no task failed', async () => {
+    outcomes = ['Tests: 1 failed, 2 passed, 3 total', true];
+
+    const result = await engine.executeInstructions(instructions, context(3));
+
+    expect(result.attempts?.map(a => [a.trigger, a.result.status])).toEqual([
+      ['initial', 'partial'],
+      ['repair', 'success']
+    ]);
+    expect(result.attempts?.[0]?.result.errors).toEqual([]);
+    expect(requests[1]?.repair?.failures[0]?.evidence).toContain('Tests: 1 failed, 2 passed, 3 total');
+  });
+
+  it('should not pass an automated criterion that nothing verified', async () => {
+    outcomes = ['built'];
+
+    const result = await engine.executeInstructions(instructions, context(1));
+
+    expect(result.status).toBe('partial');
+    expect(result.validationResults[0]).toMatchObject({
+      passed: false,
+      message: 'Criterion not verified: The totals test suite passes (no test report in the command output)'
+    });
+  });
+
+  it('should stop at the attempt limit and return the last failure', async () => {
+    outcomes = [false, false, false];
+
+    const result = await engine.executeInstructions(instructions, context(2));
+
+    expect(result.status).toBe('failure');
+    expect(result.attempts).toHaveLength(2);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should respect the per-session token budget across executions', async () => {
+    outcomes = [false, false, false, false];
+
+    await engine.executeInstructions(instructions, context(3, 300));
+    const second = await engine.executeInstructions(instructions, context(3, 300));
+
+    expect(second.attempts).toHaveLength(1);
+    expect(second.logs.some(log => log.includes('token budget exhausted'))).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExecutionEngine } from '../../../src/core/execution/ExecutionEngine';
+import { ExecutionRecording, ExecutionRecordingStore, contentHash } from '../../../src/core/execution/ExecutionRecorder';
+import { ExecutionReplayer } from '../../../src/core/execution/ExecutionReplayer';
+import { SecuritySandbox } from '../../../src/core/execution/SecuritySandbox';
+import { ProtocolValidator } from '../../../src/core/protocol/ProtocolValidator';
+import { ClaudeCodeAPIClient } from '../../../src/lib/api/ClaudeCodeAPIClient';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+const instructions: InstructionProtocol = {
+  metadata: {
+    id: 'instr-replay',
+    sessionId: 'session-replay',
+    sessionName: 'Greeting',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    version: '1.0',
+    actor: 'planning'
+  },
+  context: { description: 'Greeting page', prerequisites: [], userRequest: 'Greet visitors by name' },
+  objectives: [{ id: 'obj-1', primary: 'Visitors see a greeting', measurable: true }],
+  requirements: [{ id: 'req-1', description: 'Show a greeting with the visitor name', priority: 'must' }],
+  deliverables: [],
+  constraints: {},
+  successCriteria: [{
+    id: 'sc-1',
+    criterion: 'The greeting page renders the name',
+    validationMethod: 'Manual review',
+    automated: false
+  }]
+};
+
+describe('ExecutionEngine recordings', () => {
+  const logger = new Logger('ExecutionReplayTest');
+  const originalFetch = global.fetch;
+  let root: string;
+  let listing: string;
+  let executeIsolated: jest.Mock;
+  let engine: ExecutionEngine;
+
+  const respondWith = (code: string) => {
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ content: [{ text: code }], usage: { input_tokens: 10, output_tokens: 5 } })
+    })) as unknown as typeof fetch;
+  };
+
+  const context = () => ({
+    workingDirectory: root,
+    environment: {},
+    timeout: 5000,
+    dryRun: false
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-test-'));
+    listing = 'greeting.js';
+    executeIsolated = jest.fn(async () => ({ exitCode: 0, stdout: listing, stderr: '', durationMs: 1, cpuTimeMs: 1 }));
+    const sandbox = {
+      executeSecurely: (operation: () => Promise<unknown>) => operation(),
+      executeIsolated
+    } as unknown as SecuritySandbox;
+
+    engine = new ExecutionEngine(
+      logger,
+      new ProtocolValidator(logger),
+      sandbox,
+      new ClaudeCodeAPIClient({ apiKey: 'test', workspaceDir: path.join(root, 'workspaces') }, logger),
+      new ExecutionRecordingStore(path.join(root, 'recordings'))
+    );
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should record API exchanges, commands and file writes', async () => {
+    respondWith('=== FILE: greeting.js ===\nhello\n=== END FILE ===');
+
+    const result = await engine.executeInstructions(instructions, { ...context(), record: true });
+    const recording = await engine.loadRecording(result.recording as string);
+
+    expect(result.status).toBe('success');
+    expect(recording.events.map(e => e.kind)).toEqual(['api', 'file', 'command']);
+    expect(recording.events[1]).toMatchObject({ path: '<workspace>/greeting.js', action: 'write' });
+    expect(recording.events[2]).toMatchObject({ command: 'ls -la', cwd: '<workspace>', output: 'greeting.js' });
+  });
+
+  it('should replay without network access or commands and report no divergence', async () => {
+    respondWith('=== FILE: greeting.js ===\nhello\n=== END FILE ===');
+    const recorded = await engine.executeInstructions(instructions, { ...context(), record: true });
+    const recording = await engine.loadRecording(recorded.recording as string);
+
+    global.fetch = jest.fn(async () => { throw new Error('network disabled'); }) as unknown as typeof fetch;
+    executeIsolated.mockClear();
+    listing = 'greeting.js\ncore';
+    const report = await engine.replayExecution(recording, context());
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(executeIsolated).not.toHaveBeenCalled();
+    expect(report.result.status).toBe('success');
+    expect(report.divergences).toEqual([]);
+  });
+
+  it('should flag where a re-execution diverges', async () => {
+    respondWith('=== FILE: greeting.js ===\nhello\n=== END FILE ===');
+    const recorded = await engine.executeInstructions(instructions, { ...context(), record: true });
+    const recording = await engine.loadRecording(recorded.recording as string);
+
+    recording.instructions = {
+      ...recording.instructions,
+      requirements: [{ id: 'req-1', description: 'Show a greeting with the visitor first name', priority: 'must' }]
+    };
+    const report = await engine.replayExecution(recording, context());
+
+    expect(report.divergences.map(d => [d.kind, d.at])).toEqual([['api', 'api #1']]);
+  });
+
+  it('should fail a replayed command the way it failed when recorded', async () => {
+    respondWith('=== FILE: greeting.js ===\nhello\n=== END FILE ===');
+    executeIsolated.mockRejectedValueOnce(new Error('ls: permission denied'));
+    const recorded = await engine.executeInstructions(instructions, { ...context(), record: true });
+    const recording = await engine.loadRecording(recorded.recording as string);
+    expect(recorded.status).toBe('failure');
+
+    const report = await engine.replayExecution(recording, context());
+
+    expect(report.result.status).toBe('failure');
+    expect(report.result.errors[0]?.message).toContain('ls: permission denied');
+    expect(report.divergences).toEqual([]);
+  });
+
+  it('should answer requests sent in a different order with their own recorded responses', async () => {
+    const request = (prompt: string) => ({ model: 'm', max_tokens: 1, messages: [{ role: 'user', content: prompt }] });
+    const exchange = (seq: number, prompt: string) => ({
+      kind: 'api' as const,
+      seq,
+      requestHash: contentHash(JSON.stringify(request(prompt))),
+      request: request(prompt),
+      response: { content: [{ text: `answer ${prompt}` }] }
+    });
+    const recording = {
+      instructions,
+      events: [exchange(0, 'schema'), exchange(1, 'ui')]
+    } as unknown as ExecutionRecording;
+    const replayer = new ExecutionReplayer(recording);
+    const interceptor = replayer.exchange();
+
+    expect(await interceptor.beforeRequest?.(request('ui') as any)).toMatchObject({ content: [{ text: 'answer ui' }] });
+    expect(await interceptor.beforeRequest?.(request('schema') as any)).toMatchObject({ content: [{ text: 'answer schema' }] });
+    expect(replayer.compare({ ...recording, events: [] }).filter(d => d.kind === 'api')).toEqual([]);
+  });
+});
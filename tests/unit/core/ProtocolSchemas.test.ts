@@ -0,0 +1,160 @@
+import { ProtocolValidator, ProtocolSchemaError } from '../../../src/core/protocol/ProtocolValidator';
+import {
+  ProtocolMigrationRegistry,
+  ProtocolMigrationError
+} from '../../../src/core/protocol/ProtocolMigrations';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { DatabaseService } from '../../../src/database/DatabaseService';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+const buildProtocol = (): InstructionProtocol => ({
+  metadata: {
+    id: 'instr-1',
+    sessionId: 'session-1',
+    sessionName: 'Profile page',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    version: '1.0',
+    actor: 'planning'
+  },
+  context: {
+    description: 'Add a profile page',
+    prerequisites: [],
+    userRequest: 'Add a profile page for signed in users'
+  },
+  objectives: [{ id: 'obj-1', primary: 'Users can view their profile', measurable: true }],
+  requirements: [{ id: 'req-1', description: 'Show the user name and avatar', priority: 'must' }],
+  deliverables: [{ type: 'file', description: 'Profile page component' }],
+  constraints: {},
+  successCriteria: [{
+    id: 'sc-1',
+    criterion: 'Profile page renders for a signed in user',
+    validationMethod: 'Render test',
+    automated: true
+  }]
+});
+
+describe('ProtocolValidator schema enforcement', () => {
+  const validator = new ProtocolValidator(new Logger('ProtocolSchemasTest'));
+
+  it('should accept a well-formed protocol', () => {
+    expect(validator.checkSchema(buildProtocol())).toEqual([]);
+  });
+
+  it('should report field-level paths for every schema violation', () => {
+    const protocol: any = buildProtocol();
+    protocol.requirements[0].priority = 'urgent';
+    delete protocol.successCriteria[0].automated;
+    protocol.metadata.version = '2.0';
+
+    const error = (() => {
+      try {
+        validator.validate(protocol);
+      } catch (e) {
+        return e;
+      }
+      return null;
+    })();
+
+    expect(error).toBeInstanceOf(ProtocolSchemaError);
+    expect((error as ProtocolSchemaError).issues.map(i => i.path)).toEqual(
+      expect.arrayContaining(['metadata.version', 'requirements[0].priority', 'successCriteria[0].automated'])
+    );
+  });
+
+  it('should validate execution results against their schema', () => {
+    const result = {
+      instructionId: 'instr-1',
+      status: 'done',
+      startTime: '',
+      endTime: '',
+      outputs: [],
+      errors: [{ code: 'TASK_FAILED', message: 'boom' }],
+      logs: [],
+      validationResults: []
+    };
+
+    expect(() => validator.validateExecutionResultSchema(result)).toThrow(ProtocolSchemaError);
+    try {
+      validator.validateExecutionResultSchema(result);
+    } catch (e) {
+      expect((e as ProtocolSchemaError).issues.map(i => i.path)).toEqual(['status', 'errors[0].recoverable']);
+    }
+  });
+});
+
+describe('ProtocolMigrationRegistry', () => {
+  let registry: ProtocolMigrationRegistry;
+
+  beforeEach(() => {
+    registry = new ProtocolMigrationRegistry(new Logger('ProtocolMigrationsTest'));
+  });
+
+  it('should upgrade unversioned protocols to the current version', () => {
+    const legacy: any = buildProtocol();
+    delete legacy.metadata.version;
+    delete legacy.constraints;
+    delete legacy.requirements[0].priority;
+
+    const outcome = registry.migrate(legacy);
+
+    expect(outcome.fromVersion).toBe('0.9');
+    expect(outcome.applied).toEqual(['0.9 -> 1.0']);
+    expect(outcome.protocol.metadata.version).toBe('1.0');
+    expect(outcome.protocol.requirements[0]?.priority).toBe('should');
+    expect(legacy.metadata.version).toBeUndefined();
+  });
+
+  it('should leave current protocols untouched', () => {
+    const outcome = registry.migrate(buildProtocol());
+
+    expect(outcome.applied).toEqual([]);
+    expect(outcome.protocol).toEqual(buildProtocol());
+  });
+
+  it('should chain registered migrations', () => {
+    registry.register({
+      from: '0.8',
+      to: '0.9',
+      description: 'Rename goals to objectives',
+      migrate: ({ goals, ...rest }) => ({ ...rest, objectives: goals })
+    });
+    const stored: any = { ...buildProtocol(), goals: buildProtocol().objectives };
+    delete stored.objectives;
+    stored.metadata = { ...stored.metadata, version: '0.8' };
+
+    const outcome = registry.migrate(stored);
+
+    expect(outcome.applied).toEqual(['0.8 -> 0.9', '0.9 -> 1.0']);
+    expect(outcome.protocol.objectives).toHaveLength(1);
+  });
+
+  it('should reject versions without a migration path', () => {
+    const stored: any = buildProtocol();
+    stored.metadata.version = '0.1';
+
+    expect(() => registry.migrate(stored)).toThrow(ProtocolMigrationError);
+  });
+
+  it('should keep unmigratable protocols when loading sessions', () => {
+    const stored: any = buildProtocol();
+    stored.metadata.version = '0.1';
+
+    expect(registry.upgradeStored(stored)).toBe(stored);
+    expect(registry.upgradeStored(undefined)).toBeUndefined();
+  });
+
+  it('should upgrade the instructions of sessions loaded from the database', async () => {
+    const legacy: any = buildProtocol();
+    delete legacy.metadata.version;
+    delete legacy.requirements[0].priority;
+    const db = new DatabaseService({ memory: true });
+    jest.spyOn(db, 'query').mockResolvedValue({
+      rows: [{ id: 'session-1', status: 'pending', instructions: JSON.stringify(legacy), metadata: '{}', request: null }]
+    } as any);
+
+    const session = await db.sessions.findById('session-1');
+
+    expect(session.instructions.metadata.version).toBe('1.0');
+    expect(session.instructions.requirements[0].priority).toBe('should');
+  });
+});
@@ -0,0 +1,95 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RollbackJournal } from '../../../src/core/execution/RollbackJournal';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+describe('RollbackJournal', () => {
+  let root: string;
+  let journal: RollbackJournal;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-test-'));
+    journal = new RollbackJournal('instruction-1', new Logger('RollbackJournalTest'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should restore modified files and remove created files', async () => {
+    const existing = path.join(root, 'existing.txt');
+    const created = path.join(root, 'nested', 'created.txt');
+    fs.writeFileSync(existing, 'original');
+
+    await journal.recordFileChange('task-1', existing);
+    fs.writeFileSync(existing, 'changed');
+    await journal.recordFileChange('task-1', created);
+    fs.mkdirSync(path.dirname(created), { recursive: true });
+    fs.writeFileSync(created, 'new');
+
+    const report = await journal.rollback('failure');
+
+    expect(fs.readFileSync(existing, 'utf8')).toBe('original');
+    expect(fs.existsSync(created)).toBe(false);
+    expect(report.restored).toEqual([existing]);
+    expect(report.removed).toEqual([created]);
+    expect(report.failures).toEqual([]);
+  });
+
+  it('should restore deleted files', async () => {
+    const target = path.join(root, 'deleted.txt');
+    fs.writeFileSync(target, 'keep me');
+
+    await journal.recordFileChange('task-1', target);
+    fs.rmSync(target);
+
+    await journal.rollback('manual');
+
+    expect(fs.readFileSync(target, 'utf8')).toBe('keep me');
+  });
+
+  it('should keep the pre-execution snapshot when a file changes twice', async () => {
+    const target = path.join(root, 'twice.txt');
+    fs.writeFileSync(target, 'v0');
+
+    await journal.recordFileChange('task-1', target);
+    fs.writeFileSync(target, 'v1');
+    await journal.recordFileChange('task-2', target);
+    fs.writeFileSync(target, 'v2');
+
+    await journal.rollback('failure');
+
+    expect(fs.readFileSync(target, 'utf8')).toBe('v0');
+  });
+
+  it('should remove paths a command created and report in-place changes', async () => {
+    const touched = path.join(root, 'touched.txt');
+    fs.writeFileSync(touched, 'a');
+
+    await journal.trackCommand('task-1', 'npm install', root, async () => {
+      fs.mkdirSync(path.join(root, 'node_modules', 'pkg'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'node_modules', 'pkg', 'index.js'), '');
+      fs.writeFileSync(touched, 'a longer value');
+    });
+
+    const report = await journal.rollback('cancelled');
+
+    expect(fs.existsSync(path.join(root, 'node_modules'))).toBe(false);
+    expect(report.removed).toEqual([path.join(root, 'node_modules')]);
+    expect(report.untracked).toEqual([touched]);
+  });
+
+  it('should undo entries in reverse order and refuse a second rollback', async () => {
+    const order: string[] = [];
+    journal.recordUndo('task-1', 'first', async () => { order.push('first'); });
+    journal.recordUndo('task-2', 'second', async () => { order.push('second'); });
+
+    await journal.rollback('failure');
+
+    expect(order).toEqual(['second', 'first']);
+    await expect(journal.rollback('manual')).rejects.toThrow('already been rolled back');
+  });
+});
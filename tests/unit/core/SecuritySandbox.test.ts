@@ -0,0 +1,107 @@
+import * as os from 'os';
+import { SecuritySandbox, SandboxError } from '../../../src/core/execution/SecuritySandbox';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+describe('SecuritySandbox', () => {
+  let sandbox: SecuritySandbox;
+  const workingDirectory = os.tmpdir();
+
+  beforeEach(() => {
+    sandbox = new SecuritySandbox(new Logger('SecuritySandboxTest'));
+  });
+
+  describe('executeIsolated', () => {
+    it('should run a command in a child process and capture output', async () => {
+      const result = await sandbox.executeIsolated(
+        { kind: 'node', command: 'process.stdout.write("hello")' },
+        { workingDirectory, environment: {} }
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe('hello');
+    });
+
+    it('should only expose allow-listed environment variables', async () => {
+      process.env['SANDBOX_TEST_SECRET'] = 'leaked';
+
+      const result = await sandbox.executeIsolated(
+        {
+          kind: 'node',
+          command: 'process.stdout.write(JSON.stringify([process.env.SANDBOX_TEST_SECRET, process.env.ALLOWED]))'
+        },
+        { workingDirectory, environment: { ALLOWED: 'yes' } }
+      );
+
+      delete process.env['SANDBOX_TEST_SECRET'];
+      expect(JSON.parse(result.stdout)).toEqual([null, 'yes']);
+    });
+
+    it('should reject working directories outside the sandbox root', async () => {
+      await expect(
+        sandbox.executeIsolated(
+          { kind: 'command', command: 'ls', cwd: '../..' },
+          { workingDirectory, environment: {} }
+        )
+      ).rejects.toMatchObject({ code: 'SANDBOX_WORKDIR_VIOLATION' });
+    });
+
+    it('should kill tasks that exceed the wall-clock limit', async () => {
+      await expect(
+        sandbox.executeIsolated(
+          { kind: 'node', command: 'setTimeout(() => {}, 60000)' },
+          { workingDirectory, environment: {}, limits: { timeoutMs: 500 } }
+        )
+      ).rejects.toMatchObject({ code: 'SANDBOX_TIMEOUT' });
+    });
+
+    it('should kill tasks that exceed the CPU time limit', async () => {
+      await expect(
+        sandbox.executeIsolated(
+          { kind: 'node', command: 'while (true) {}' },
+          { workingDirectory, environment: {}, limits: { maxCpuTimeMs: 1000, timeoutMs: 8000 } }
+        )
+      ).rejects.toMatchObject({ code: 'SANDBOX_CPU_LIMIT' });
+    });
+
+    it('should kill tasks that exceed the memory limit', async () => {
+      const error = await sandbox.executeIsolated(
+        {
+          kind: 'node',
+          command: 'const keep = []; setInterval(() => keep.push(Buffer.alloc(16 * 1024 * 1024, 1)), 20)'
+        },
+        { workingDirectory, environment: {}, limits: { maxMemoryMB: 128, timeoutMs: 8000 } }
+      ).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SandboxError);
+      expect((error as SandboxError).code).toBe('SANDBOX_MEMORY_LIMIT');
+    });
+
+    it('should kill tasks whose run is cancelled', async () => {
+      const controller = new AbortController();
+      const running = sandbox.executeIsolated(
+        { kind: 'node', command: 'setTimeout(() => {}, 60000)' },
+        { workingDirectory, environment: {}, signal: controller.signal }
+      );
+      setTimeout(() => controller.abort(), 200);
+
+      await expect(running).rejects.toMatchObject({ code: 'SANDBOX_CANCELLED' });
+    });
+
+    it('should report non-zero exits as structured errors', async () => {
+      await expect(
+        sandbox.executeIsolated(
+          { kind: 'node', command: 'process.exitCode = 3' },
+          { workingDirectory, environment: {} }
+        )
+      ).rejects.toMatchObject({ code: 'SANDBOX_NONZERO_EXIT' });
+    });
+  });
+
+  describe('executeSecurely', () => {
+    it('should surface timeouts with a sandbox error code', async () => {
+      await expect(
+        sandbox.executeSecurely(() => new Promise(resolve => setTimeout(resolve, 1000)), 50)
+      ).rejects.toMatchObject({ code: 'SANDBOX_TIMEOUT' });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { TaskScheduler, SchedulableTask } from '../../../src/core/execution/TaskScheduler';
+
+describe('TaskScheduler', () => {
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Runs each task for a few milliseconds and records start/end order
+  const recorder = () => {
+    const events: string[] = [];
+    let active = 0;
+    let peak = 0;
+    const execute = async (task: SchedulableTask) => {
+      active++;
+      peak = Math.max(peak, active);
+      events.push(`start:${task.id}`);
+      await delay(10);
+      events.push(`end:${task.id}`);
+      active--;
+    };
+    return { events, execute, peak: () => peak };
+  };
+
+  it('should run independent tasks concurrently up to the width', async () => {
+    const tasks = ['a', 'b', 'c', 'd', 'e'].map(id => ({ id }));
+    const { execute, peak } = recorder();
+
+    const report = await new TaskScheduler(tasks, 2).run(execute);
+
+    expect(report.completed).toHaveLength(5);
+    expect(peak()).toBe(2);
+  });
+
+  it('should start tasks only after their dependencies complete', async () => {
+    const tasks = [
+      { id: 'schema' },
+      { id: 'api', dependsOn: ['schema'] },
+      { id: 'ui' },
+      { id: 'e2e', dependsOn: ['api', 'ui'] }
+    ];
+    const { events, execute } = recorder();
+
+    await new TaskScheduler(tasks, 4).run(execute);
+
+    expect(events.indexOf('start:api')).toBeGreaterThan(events.indexOf('end:schema'));
+    expect(events.indexOf('start:e2e')).toBeGreaterThan(events.indexOf('end:api'));
+    expect(events.indexOf('start:e2e')).toBeGreaterThan(events.indexOf('end:ui'));
+    expect(events.indexOf('start:ui')).toBeLessThan(events.indexOf('end:schema'));
+  });
+
+  it('should serialize tasks that write overlapping paths', async () => {
+    const tasks = [
+      { id: 'components', writes: ['/repo/src/components'] },
+      { id: 'button', writes: ['/repo/src/components/Button.tsx'] },
+      { id: 'docs', writes: ['/repo/docs'] }
+    ];
+    const { events, execute } = recorder();
+
+    const report = await new TaskScheduler(tasks, 3).run(execute);
+
+    expect(events.indexOf('start:button')).toBeGreaterThan(events.indexOf('end:components'));
+    expect(events.indexOf('start:docs')).toBeLessThan(events.indexOf('end:components'));
+    expect(report.serialized).toEqual([
+      { task: 'button', waitedFor: 'components', path: '/repo/src/components/Button.tsx' }
+    ]);
+  });
+
+  it('should stop starting tasks after a failure and skip the rest', async () => {
+    const tasks = [
+      { id: 'a' },
+      { id: 'b', dependsOn: ['a'] },
+      { id: 'c' }
+    ];
+
+    const report = await new TaskScheduler(tasks, 1).run(async task => {
+      if (task.id === 'a') throw new Error('boom');
+    });
+
+    expect(report.failed).toEqual(['a']);
+    expect(report.skipped).toEqual(['b', 'c']);
+  });
+
+  it('should reject dependency cycles and unknown dependencies', () => {
+    expect(() => new TaskScheduler([
+      { id: 'a', dependsOn: ['b'] },
+      { id: 'b', dependsOn: ['a'] }
+    ], 1)).toThrow(expect.objectContaining({ code: 'DEPENDENCY_CYCLE' }));
+
+    expect(() => new TaskScheduler([{ id: 'a', dependsOn: ['missing'] }], 1))
+      .toThrow(expect.objectContaining({ code: 'UNKNOWN_DEPENDENCY' }));
+  });
+});
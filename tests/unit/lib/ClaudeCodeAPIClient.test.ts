@@ -0,0 +1,62 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeAPIClient } from '../../../src/lib/api/ClaudeCodeAPIClient';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { Logger } from '../../../src/lib/logging/Logger';
+
+const instruction = {
+  metadata: { id: 'instr-1', sessionId: 'session-1', sessionName: 'Files', timestamp: '2025-01-01T00:00:00.000Z', version: '1.0' },
+  successCriteria: []
+} as unknown as InstructionProtocol;
+
+describe('ClaudeCodeAPIClient.executeCode', () => {
+  let root: string;
+  let client: ClaudeCodeAPIClient;
+  const runner = jest.fn(async () => '');
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'code-client-'));
+    client = new ClaudeCodeAPIClient({ apiKey: 'test', workspaceDir: path.join(root, 'workspaces') }, new Logger('ClaudeCodeAPIClientTest'));
+    runner.mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write and delete files inside the session workspace', async () => {
+    const workspace = client.getWorkspaceDir('session-1');
+    fs.mkdirSync(workspace, { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'old.txt'), 'old');
+
+    const result = await client.executeCode(
+      '=== FILE: src/new.txt ===\nnew\n=== END FILE ===\n=== DELETE FILE: old.txt ===',
+      instruction,
+      { runner }
+    );
+
+    expect(result).toMatchObject({ success: true, files: ['src/new.txt'] });
+    expect(fs.readFileSync(path.join(workspace, 'src', 'new.txt'), 'utf8')).toBe('new');
+    expect(fs.existsSync(path.join(workspace, 'old.txt'))).toBe(false);
+  });
+
+  it.each([
+    ['a delete', '=== FILE: ok.txt ===\nok\n=== END FILE ===\n=== DELETE FILE: ../../victim.txt ==='],
+    ['a write', '=== FILE: ok.txt ===\nok\n=== END FILE ===\n=== FILE: ../../victim.txt ===\npwned\n=== END FILE ==='],
+    ['an absolute path', '=== DELETE FILE: VICTIM ===']
+  ])('should refuse %s outside the session workspace and apply nothing', async (_label, code) => {
+    const victim = path.join(root, 'victim.txt');
+    fs.writeFileSync(victim, 'keep');
+
+    const result = await client.executeCode(code.replace('VICTIM', victim), instruction, { runner });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('outside the session workspace');
+    expect(fs.readFileSync(victim, 'utf8')).toBe('keep');
+    expect(fs.existsSync(path.join(client.getWorkspaceDir('session-1'), 'ok.txt'))).toBe(false);
+    expect(runner).not.toHaveBeenCalled();
+  });
+});
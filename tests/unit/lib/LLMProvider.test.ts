@@ -0,0 +1,136 @@
+import { ClaudeAPIClient } from '../../../src/lib/api/ClaudeAPIClient';
+import {
+  fitToContextWindow,
+  LLMProvider,
+  OpenAICompatibleProvider,
+  ProviderError
+} from '../../../src/lib/api/providers';
+import { CostCalculator } from '../../../src/services/usage/CostCalculator';
+
+const sseResponse = (events: object[]): Response => {
+  const encoder = new TextEncoder();
+  const chunks = [...events.map(e => `data: ${JSON.stringify(e)}\n\n`), 'data: [DONE]\n\n'];
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk === undefined) controller.close();
+      else controller.enqueue(encoder.encode(chunk));
+    }
+  });
+  return { ok: true, body } as Response;
+};
+
+describe('OpenAICompatibleProvider', () => {
+  const originalFetch = global.fetch;
+  const provider = new OpenAICompatibleProvider({
+    id: 'local',
+    baseUrl: 'http://localhost:11434/v1/',
+    defaultModel: 'llama3'
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should send chat completions with the system prompt first', async () => {
+    const fetchMock = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        model: 'llama3:8b',
+        choices: [{ message: { content: 'Plan ready' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 }
+      })
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const response = await provider.complete({
+      model: 'llama3',
+      system: 'Describe, do not code',
+      messages: [{ role: 'user', content: 'Plan a login page' }],
+      maxTokens: 100,
+      temperature: 0.2
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(init.body as string).messages).toEqual([
+      { role: 'system', content: 'Describe, do not code' },
+      { role: 'user', content: 'Plan a login page' }
+    ]);
+    expect(response).toEqual({ text: 'Plan ready', model: 'llama3:8b', inputTokens: 12, outputTokens: 3 });
+  });
+
+  it('should stream deltas and read usage from the final chunk', async () => {
+    global.fetch = jest.fn(async () => sseResponse([
+      { model: 'llama3', choices: [{ delta: { content: 'Hel' } }] },
+      { model: 'llama3', choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] },
+      { model: 'llama3', choices: [], usage: { prompt_tokens: 9, completion_tokens: 2 } }
+    ])) as unknown as typeof fetch;
+    const deltas: string[] = [];
+
+    const response = await provider.complete({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'Say hello' }],
+      maxTokens: 10,
+      temperature: 0,
+      stream: { onText: delta => deltas.push(delta) }
+    });
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(response).toMatchObject({ text: 'Hello', inputTokens: 9, outputTokens: 2 });
+  });
+});
+
+describe('fitToContextWindow', () => {
+  const provider = new OpenAICompatibleProvider({
+    baseUrl: 'http://localhost:8000/v1',
+    defaultModel: 'small',
+    capabilities: { contextWindow: 1000 }
+  });
+  const request = (content: string) => ({
+    model: 'small',
+    messages: [{ role: 'user' as const, content }],
+    maxTokens: 4000,
+    temperature: 0
+  });
+
+  it('should shrink the completion budget to the remaining window', () => {
+    expect(fitToContextWindow(provider, request('x'.repeat(400))).maxTokens).toBe(900);
+  });
+
+  it('should reject prompts that leave no room for an answer', () => {
+    expect(() => fitToContextWindow(provider, request('x'.repeat(3800)))).toThrow(ProviderError);
+  });
+});
+
+describe('provider-keyed usage', () => {
+  it('should send client requests through the provider and track usage under its id', async () => {
+    const provider: LLMProvider = {
+      id: 'local',
+      defaultModel: 'llama3',
+      capabilities: () => ({ contextWindow: 8192, toolUse: false, streaming: false }),
+      complete: jest.fn(async request => ({ text: 'Sure', model: request.model, inputTokens: 5, outputTokens: 1 }))
+    };
+    const tracker = { trackUsage: jest.fn(async () => ({})) };
+    const client = new ClaudeAPIClient({ apiKey: '', provider });
+    client.setUsageTracker(tracker as never, 'session-1', 'user-1');
+    const deltas: string[] = [];
+
+    const reply = await client.sendMessage('Hi', 'session-1', [], { onText: delta => deltas.push(delta) });
+
+    expect(reply).toBe('Sure');
+    // Without streaming support the whole answer arrives as one delta
+    expect(deltas).toEqual(['Sure']);
+    expect(provider.complete).toHaveBeenCalledWith(expect.objectContaining({ model: 'llama3', stream: undefined }));
+    expect(tracker.trackUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: 'local', model: 'llama3' }));
+  });
+
+  it('should price models per provider', () => {
+    const calculator = new CostCalculator();
+
+    expect(calculator.calculateCost('claude-3-haiku-20240307', 1000000, 0).totalCost).toBe(0.25);
+    expect(calculator.hasPricing('claude-3-haiku-20240307', 'local')).toBe(false);
+    expect(() => calculator.calculateCost('claude-3-haiku-20240307', 1, 1, undefined, 'local'))
+      .toThrow('Pricing not found for model: local:claude-3-haiku-20240307');
+  });
+});
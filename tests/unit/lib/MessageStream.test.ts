@@ -0,0 +1,103 @@
+import { readMessageStream, StreamCancelledError } from '../../../src/lib/api/MessageStream';
+import { parsePartialJson } from '../../../src/lib/api/PartialJson';
+
+// Builds a streamed response whose body yields the given chunks in order
+const sseResponse = (chunks: string[], onPull?: (index: number) => void): Response => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      onPull?.(index);
+      const chunk = chunks[index++];
+      if (chunk === undefined) controller.close();
+      else controller.enqueue(encoder.encode(chunk));
+    }
+  });
+  return { body } as Response;
+};
+
+const event = (type: string, data: object) => `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+
+describe('readMessageStream', () => {
+  const start = event('message_start', { message: { model: 'claude-test', usage: { input_tokens: 42, output_tokens: 1 } } });
+  const delta = (text: string) => event('content_block_delta', { delta: { type: 'text_delta', text } });
+
+  it('should report text deltas and final usage', async () => {
+    const deltas: string[] = [];
+    const full = [
+      start,
+      delta('Hello'),
+      // An event split across network chunks
+      delta(', world').slice(0, 20),
+      delta(', world').slice(20),
+      event('message_delta', { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } }),
+      event('message_stop', {})
+    ];
+
+    const message = await readMessageStream(sseResponse(full), { onText: d => deltas.push(d) });
+
+    expect(deltas).toEqual(['Hello', ', world']);
+    expect(message).toMatchObject({
+      text: 'Hello, world',
+      model: 'claude-test',
+      inputTokens: 42,
+      outputTokens: 7,
+      stopReason: 'end_turn',
+      complete: true
+    });
+  });
+
+  it('should keep partial text and usage when cancelled mid-stream', async () => {
+    const controller = new AbortController();
+    const chunks = [start, delta('Twelve chars'), delta(' never sent'), event('message_stop', {})];
+
+    const reading = readMessageStream(
+      sseResponse(chunks, index => { if (index === 2) controller.abort(); }),
+      { signal: controller.signal }
+    );
+
+    await expect(reading).rejects.toBeInstanceOf(StreamCancelledError);
+    const partial = await reading.catch((error: StreamCancelledError) => error.partial);
+    expect(partial).toMatchObject({ text: 'Twelve chars', inputTokens: 42, outputTokens: 3, complete: false });
+  });
+
+  it('should surface stream error events', async () => {
+    const chunks = [start, event('error', { error: { type: 'overloaded_error', message: 'Overloaded' } })];
+
+    await expect(readMessageStream(sseResponse(chunks))).rejects.toThrow(/overloaded_error - Overloaded/);
+  });
+});
+
+describe('parsePartialJson', () => {
+  const plan = JSON.stringify({
+    metadata: { id: 'plan-1' },
+    objectives: [
+      { id: 'obj-1', primary: 'Visitors can sign up' },
+      { id: 'obj-2', primary: 'Visitors can sign in' }
+    ]
+  }, null, 2);
+
+  it('should return only fully received list items', () => {
+    const cut = plan.indexOf('Visitors can sign in') + 8;
+
+    expect(parsePartialJson(plan.slice(0, cut))).toEqual({
+      metadata: { id: 'plan-1' },
+      objectives: [{ id: 'obj-1', primary: 'Visitors can sign up' }]
+    });
+  });
+
+  it('should parse complete text and ignore surrounding prose', () => {
+    expect(parsePartialJson(`Here is the plan:\n${plan}\nDone.`)).toEqual(JSON.parse(plan));
+  });
+
+  it('should grow monotonically as text arrives', () => {
+    let seen = 0;
+    for (let i = 1; i <= plan.length; i++) {
+      const partial = parsePartialJson(plan.slice(0, i)) as { objectives?: unknown[] } | undefined;
+      const count = partial?.objectives?.length ?? 0;
+      expect(count).toBeGreaterThanOrEqual(seen);
+      seen = count;
+    }
+    expect(seen).toBe(2);
+  });
+});
@@ -0,0 +1,234 @@
+// The module's singleton would keep a connectivity timer running
+jest.mock('../../../src/services/cloud/SupabaseService', () => ({ SupabaseService: jest.fn() }));
+
+import { TextDocument, TextUpdate } from '../../../src/services/collaboration/TextCRDT';
+import { CollabRelayServer } from '../../../src/services/collaboration/CollabRelayServer';
+import { CollaborationService } from '../../../src/services/collaboration/CollaborationService';
+import { DocumentChange, PresenceState, sessionDocumentId } from '../../../src/services/collaboration/types';
+import { SupabaseCloudSync } from '../../../src/services/cloud/SupabaseCloudSync';
+import { Session } from '../../../src/models/Session';
+
+describe('TextDocument', () => {
+  const sync = (from: TextDocument, to: TextDocument) => to.applyUpdate(from.encodeUpdateSince(to.getStateVector()));
+
+  it('should converge on concurrent edits in any delivery order', () => {
+    const alice = new TextDocument('alice');
+    const bob = new TextDocument('bob');
+    const carol = new TextDocument('carol');
+    // Replicas seeding the same stored text share its characters
+    alice.seed('Build the login page');
+    bob.seed('Build the login page');
+    expect(alice.encodeState()).toEqual(bob.encodeState());
+
+    const updates: TextUpdate[] = [
+      alice.insert(5, ' and test'),
+      alice.delete(0, 5),
+      bob.insert(20, ' with OAuth'),
+      bob.setText('Build the signup page with OAuth')
+    ];
+
+    sync(alice, bob);
+    sync(bob, alice);
+    expect(alice.getText()).toBe(' and test the signup page with OAuth');
+    expect(bob.getText()).toBe(alice.getText());
+
+    // Reversed and repeated delivery, origins arriving after their dependants
+    for (const update of [...updates].reverse()) {
+      carol.applyUpdate(update);
+    }
+    expect(carol.getText()).toBe('');
+    carol.applyUpdate(alice.encodeState());
+    expect(carol.getText()).toBe(alice.getText());
+    expect(carol.applyUpdate(bob.encodeState())).toBe(false);
+  });
+
+  it('should keep remote carets anchored to the text around them', () => {
+    const alice = new TextDocument('alice');
+    const bob = new TextDocument('bob');
+    alice.applyUpdate(alice.insert(0, 'hello world'));
+    bob.applyUpdate(alice.encodeState());
+
+    const caret = bob.relativePosition(6);
+    alice.applyUpdate(bob.insert(0, '>> '));
+    bob.applyUpdate(alice.insert(0, 'Say: '));
+    bob.applyUpdate(alice.delete(5, 3));
+
+    expect(bob.getText()).toBe('Say: hello world');
+    expect(bob.absolutePosition(caret)).toBe(11);
+    expect(bob.getText().slice(bob.absolutePosition(caret))).toBe('world');
+  });
+});
+
+describe('CollaborationService', () => {
+  const port = 49000 + Math.floor(Math.random() * 1000);
+  const docId = sessionDocumentId('s1', 'description');
+  let relay: CollabRelayServer;
+
+  const createDb = () => {
+    const documents = new Map<string, string>();
+    const texts = new Map<string, string>();
+    let cursor: string | null = null;
+    return {
+      documents,
+      connect: jest.fn(async () => undefined),
+      run: jest.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('INTO collab_documents')) documents.set(params[0], params[1]) && texts.set(params[0], params[2]);
+        if (sql.includes('INTO collab_sync_state')) cursor = params[0];
+        return { rows: [] };
+      }),
+      query: jest.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FROM collab_documents')) {
+          return { rows: documents.has(params[0]) ? [{ state: documents.get(params[0]), text: texts.get(params[0]) }] : [] };
+        }
+        return { rows: sql.includes('FROM collab_sync_state') && cursor ? [{ pulled_until: cursor }] : [] };
+      })
+    };
+  };
+
+  const until = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  beforeAll(async () => {
+    relay = new CollabRelayServer({ port });
+    await relay.start();
+  });
+
+  afterAll(async () => {
+    await relay.stop();
+  });
+
+  it('should relay edits and presence between devices and queue them for the cloud', async () => {
+    const queue = { enqueue: jest.fn(async () => 'op') };
+    const devices = ['laptop', 'desktop'].map(deviceId =>
+      new CollaborationService(createDb() as any, queue as any, null, { deviceId, relayUrl: `ws://127.0.0.1:${port}` }));
+    const [laptop, desktop] = devices as [CollaborationService, CollaborationService];
+    const changes: DocumentChange[] = [];
+    const presence: PresenceState[] = [];
+    desktop.on('update', change => changes.push(change));
+    desktop.on('presence', state => presence.push(state));
+
+    await Promise.all(devices.map(device => device.initialize()));
+    const mine = await laptop.open(docId, 'Initial description');
+    const theirs = await desktop.open(docId, 'Initial description');
+    await until(() => relay.getText(docId) === 'Initial description');
+
+    // Each editor keeps its own replica and sends its edits through the service
+    const editor = new TextDocument(mine.clientId);
+    editor.applyUpdate(mine.update);
+    await laptop.applyLocalUpdate(docId, mine.clientId, editor.insert(0, 'Revised: '));
+    laptop.setPresence({
+      docId,
+      clientId: mine.clientId,
+      user: { id: 'u1', name: 'Sam', color: '#f97316' },
+      cursor: { anchor: editor.relativePosition(9), head: editor.relativePosition(9) },
+      updatedAt: new Date().toISOString()
+    });
+
+    await until(() => desktop.getText(docId) === 'Revised: Initial description' && presence.length > 0);
+    expect(changes[0]).toMatchObject({ docId, text: 'Revised: Initial description', origin: 'relay' });
+    expect(presence[0]).toMatchObject({ clientId: mine.clientId, user: { name: 'Sam' } });
+
+    const remote = new TextDocument(theirs.clientId);
+    remote.applyUpdate(theirs.update);
+    remote.applyUpdate(changes[0]!.update);
+    expect(remote.absolutePosition(presence[0]!.cursor!.head)).toBe(9);
+
+    expect(queue.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'database_sync',
+      payload: expect.objectContaining({
+        table: 'session_document_updates',
+        action: 'insert',
+        data: expect.objectContaining({ doc_id: docId, session_id: 's1', client_id: mine.clientId })
+      })
+    }));
+    await expect(desktop.applyLocalUpdate(docId, 'unknown', { ops: [] })).rejects.toThrow('is not open');
+
+    const left: unknown[] = [];
+    desktop.on('presenceLeft', event => left.push(event));
+    laptop.close(docId, mine.clientId);
+    await until(() => left.length > 0);
+    devices.forEach(device => device.destroy());
+  });
+
+  it('should pull updates other devices uploaded to Supabase', async () => {
+    const other = new TextDocument('phone');
+    const rows = [
+      { doc_id: docId, payload: other.insert(0, 'Offline draft'), client_id: 'phone', created_at: '2026-10-18T09:00:00.000Z' },
+      { doc_id: docId, payload: other.insert(13, ' from the train'), client_id: 'phone', created_at: '2026-10-18T09:05:00.000Z' }
+    ];
+    const filters: string[] = [];
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      gt: (_column: string, value: string) => (filters.push(value), builder),
+      then: (resolve: (value: unknown) => void) =>
+        resolve({ data: rows.filter(row => !filters.length || row.created_at > filters[filters.length - 1]!), error: null })
+    };
+    const supabase = { isInitialized: () => true, isServiceOnline: () => true, getClient: () => ({ from: () => builder }) };
+    const db = createDb();
+    const service = new CollaborationService(db as any, { enqueue: jest.fn() } as any, supabase as any, { deviceId: 'laptop' });
+
+    expect(await service.pullRemoteUpdates()).toBe(2);
+    expect(service.getText(docId)).toBe('Offline draft from the train');
+    expect(await service.pullRemoteUpdates()).toBe(0);
+    expect(filters).toEqual(['2026-10-18T09:05:00.000Z']);
+    expect(db.documents.has(docId)).toBe(true);
+    service.destroy();
+  });
+
+  it('should keep collaboratively merged text when session sync resolves a conflict', async () => {
+    const db = createDb();
+    const service = new CollaborationService(db as any, { enqueue: jest.fn(async () => 'op') } as any, null, { deviceId: 'laptop' });
+    const requirementDoc = sessionDocumentId('s1', 'requirements/r1');
+    for (const [id, text] of [[docId, 'Login page'], [requirementDoc, 'Use OAuth']] as const) {
+      const snapshot = await service.open(id, text);
+      const editor = new TextDocument(snapshot.clientId);
+      editor.applyUpdate(snapshot.update);
+      await service.applyLocalUpdate(id, snapshot.clientId, editor.insert(text.length, ' (merged)'));
+    }
+
+    const session = (description: string, requirement: string, updatedAt: string) => ({
+      id: 's1',
+      name: 'Login',
+      description,
+      updatedAt,
+      instructions: { requirements: [{ id: 'r1', description: requirement, priority: 'must' }] },
+      metadata: {}
+    }) as unknown as Session;
+    const local = session('Login page (merged)', 'Use OAuth', '2026-10-18T09:00:00.000Z');
+    const remote = session('Login page v2', 'Use SAML', '2026-10-18T10:00:00.000Z');
+    const supabase = {
+      getCurrentUser: async () => ({ id: 'u1' }),
+      getProjects: async () => [{ id: 'p1' }],
+      getProjectSessions: async () => [remote],
+      getPatterns: async () => [],
+      updateSession: jest.fn(async () => remote)
+    };
+    const cloudSync = new SupabaseCloudSync(supabase as any);
+    cloudSync.attachCollaboration(service);
+    jest.spyOn(cloudSync as any, 'getLocalSessions').mockResolvedValue([local]);
+
+    const result = await cloudSync.sync();
+    expect(result.conflicts).toEqual([expect.objectContaining({ itemId: 's1', itemType: 'session' })]);
+
+    // The newer remote row would win field by field; the documents win for text
+    await cloudSync.resolveConflict(result.conflicts[0]!, 'merge');
+    await cloudSync.resolveConflict(result.conflicts[0]!, 'local');
+    for (const [, update] of supabase.updateSession.mock.calls as unknown as Array<[string, Session]>) {
+      expect(update.description).toBe('Login page (merged)');
+      expect(update.instructions!.requirements[0]!.description).toBe('Use OAuth (merged)');
+    }
+    expect(supabase.updateSession).toHaveBeenCalledTimes(2);
+
+    // Documents only stored on disk count too
+    const restarted = new CollaborationService(db as any, { enqueue: jest.fn() } as any, null, { deviceId: 'laptop' });
+    await expect(restarted.readText(docId)).resolves.toBe('Login page (merged)');
+    service.destroy();
+    restarted.destroy();
+  });
+});
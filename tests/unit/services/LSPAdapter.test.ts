@@ -0,0 +1,268 @@
+// The module's singleton would keep a connectivity timer running
+jest.mock('../../../src/services/cloud/SupabaseService', () => ({ SupabaseService: jest.fn() }));
+
+import * as fs from 'fs/promises';
+import { PassThrough } from 'stream';
+import { LSPAdapter } from '../../../src/services/ide/LSPAdapter';
+import { ErrorDetectionEngine } from '../../../src/core/error-detection/ErrorDetectionEngine';
+import { PlanningEngine } from '../../../src/core/planning/PlanningEngine';
+import { ExecutionEngine } from '../../../src/core/execution/ExecutionEngine';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+
+// Plays the editor side of the connection
+class TestClient {
+  readonly toServer = new PassThrough();
+  readonly fromServer = new PassThrough();
+  readonly notifications: any[] = [];
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private waiting = new Map<number, (message: any) => void>();
+  private requestHandlers = new Map<string, (params: any) => any>();
+
+  constructor() {
+    this.fromServer.on('data', chunk => this.receive(chunk));
+  }
+
+  onRequest(method: string, handler: (params: any) => any): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  request(method: string, params?: any): Promise<any> {
+    const id = this.nextId++;
+    return new Promise(resolve => {
+      this.waiting.set(id, resolve);
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params?: any): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  async waitFor(method: string, matches: (params: any) => boolean = () => true): Promise<any> {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const found = this.notifications.find(n => n.method === method && matches(n.params));
+      if (found) return found.params;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`No ${method} notification`);
+  }
+
+  private send(message: object): void {
+    const body = JSON.stringify(message);
+    // Split the frame to exercise partial reads
+    const frame = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    this.toServer.write(frame.slice(0, 10));
+    this.toServer.write(frame.slice(10));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+      const length = Number(/Content-Length: (\d+)/.exec(this.buffer.subarray(0, headerEnd).toString())?.[1]);
+      if (this.buffer.length < headerEnd + 4 + length) return;
+      const body = this.buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString();
+      this.buffer = this.buffer.subarray(headerEnd + 4 + length);
+
+      const message = JSON.parse(body);
+      if (message.method && message.id !== undefined) {
+        const result = this.requestHandlers.get(message.method)?.(message.params) ?? null;
+        this.send({ jsonrpc: '2.0', id: message.id, result });
+      } else if (message.method) {
+        this.notifications.push(message);
+      } else {
+        this.waiting.get(message.id)?.(message);
+      }
+    }
+  }
+}
+
+const plan = {
+  metadata: { id: 'instr-settings', sessionId: 'session-settings' },
+  context: { description: 'Add a settings api' },
+  requirements: [{ id: 'req-1', description: 'Settings can be read and updated' }]
+} as unknown as InstructionProtocol;
+
+describe('LSPAdapter', () => {
+  let client: TestClient;
+  let adapter: LSPAdapter;
+  const detectErrors = jest.fn();
+  const generateInstructions = jest.fn();
+  const executeInstructions = jest.fn();
+
+  const start = async (capabilities: any = {}) => {
+    const connected = adapter.connect();
+    const early = await client.request('workspace/executeCommand', { command: 'session_plan', arguments: [] });
+    expect(early.error.code).toBe(-32002);
+
+    const initialize = await client.request('initialize', {
+      processId: null,
+      clientInfo: { name: 'Neovim', version: '0.10.0' },
+      rootUri: 'file:///work/app',
+      capabilities
+    });
+    client.notify('initialized', {});
+    await connected;
+    return initialize;
+  };
+
+  beforeEach(() => {
+    client = new TestClient();
+    detectErrors.mockReset();
+    generateInstructions.mockReset().mockResolvedValue(plan);
+    executeInstructions.mockReset();
+    jest.mocked(fs.readFile).mockReset();
+    adapter = new LSPAdapter({
+      input: client.toServer,
+      output: client.fromServer,
+      errorDetection: { detectErrors } as unknown as ErrorDetectionEngine,
+      actors: {
+        planning: async () => ({ generateInstructions } as unknown as PlanningEngine),
+        execution: async () => ({
+          executeInstructions,
+          getWorkspaceDir: (sessionId: string) => `/workspaces/${sessionId}`
+        } as unknown as ExecutionEngine)
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  it('should run the handshake and expose the two-actor commands', async () => {
+    const initialize = await start();
+
+    expect(initialize.result.capabilities.executeCommandProvider.commands).toEqual(['session_plan', 'session_execute']);
+    expect(adapter.getIDEName()).toBe('Neovim');
+    expect(await adapter.getActiveWorkspace()).toEqual({ rootPath: '/work/app', name: 'app' });
+
+    const planned = await client.request('workspace/executeCommand', {
+      command: 'session_plan',
+      arguments: ['add a settings api', { uri: 'file:///work/app/src/api.ts' }]
+    });
+    expect(planned.result.metadata).toMatchObject({ actorType: 'planning', requiresExecution: true, planId: 'instr-settings' });
+    expect(generateInstructions).toHaveBeenCalledWith(expect.objectContaining({
+      content: 'add a settings api',
+      context: expect.objectContaining({ projectPath: '/work/app', currentFile: '/work/app/src/api.ts' })
+    }));
+  });
+
+  it('should execute the plan in the server and apply its files as workspace edits', async () => {
+    const edits: any[] = [];
+    client.onRequest('workspace/applyEdit', params => {
+      edits.push(params.edit);
+      return { applied: true };
+    });
+    let finish: (value: unknown) => void = () => undefined;
+    executeInstructions.mockReturnValue(new Promise(resolve => { finish = resolve; }));
+    jest.mocked(fs.readFile).mockImplementation((async (file: string) => {
+      if (file === '/workspaces/session-settings/src/settings.ts') return 'export const settings = {};\n';
+      throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+    }) as any);
+    await start({ workspace: { applyEdit: true, workspaceEdit: { documentChanges: true, resourceOperations: ['create', 'delete'] } } });
+
+    const early = await client.request('workspace/executeCommand', { command: 'session_execute', arguments: [] });
+    expect(early.result.content).toContain('No plan');
+
+    await client.request('workspace/executeCommand', { command: 'session_plan', arguments: ['add a settings api'] });
+    const execute = await client.request('workspace/executeCommand', { command: 'session_execute', arguments: [] });
+    expect(execute.result.metadata).toEqual({ actorType: 'execution', planId: 'instr-settings' });
+    expect(await adapter.getExecutionStatus()).toEqual({ active: true, currentTask: 'Add a settings api' });
+    // The project's execution environment is read first
+    await new Promise(resolve => setImmediate(resolve));
+    expect(executeInstructions).toHaveBeenCalledWith(plan, expect.objectContaining({ workingDirectory: '/work/app', dryRun: false }));
+
+    finish({
+      status: 'success',
+      errors: [],
+      outputs: [{
+        type: 'console',
+        content: JSON.stringify({ files: ['src/settings.ts'], deleted: ['src/legacy.ts'] }),
+        description: 'Generate and execute code for req-1'
+      }]
+    });
+    const outcome = await client.waitFor('window/showMessage', params => params.message.startsWith('Execution'));
+
+    expect(outcome).toEqual({ type: 3, message: 'Execution success: Add a settings api' });
+    expect(edits).toEqual([
+      {
+        documentChanges: [
+          { kind: 'create', uri: 'file:///work/app/src/settings.ts', options: { overwrite: true } },
+          expect.objectContaining({ edits: [expect.objectContaining({ newText: 'export const settings = {};\n' })] })
+        ]
+      },
+      { documentChanges: [{ kind: 'delete', uri: 'file:///work/app/src/legacy.ts' }] }
+    ]);
+    expect((await adapter.getExecutionStatus()).active).toBe(false);
+  });
+
+  it('should send file operations to the editor as workspace edits', async () => {
+    const edits: any[] = [];
+    client.onRequest('workspace/applyEdit', params => {
+      edits.push(params.edit);
+      return { applied: true };
+    });
+    await start({ workspace: { applyEdit: true, workspaceEdit: { documentChanges: true, resourceOperations: ['create', 'rename'] } } });
+
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: 'file:///work/app/README.md', languageId: 'markdown', version: 4, text: 'one\ntwo' }
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await adapter.saveFile('README.md', 'replaced');
+    await adapter.createFile('/work/app/src/new.ts', 'export {};\n');
+    await adapter.renameFile('/work/app/src/new.ts', '/work/app/src/renamed.ts');
+
+    expect(edits).toEqual([
+      {
+        documentChanges: [{
+          textDocument: { uri: 'file:///work/app/README.md', version: 4 },
+          edits: [{ range: { start: { line: 0, character: 0 }, end: { line: 1, character: 3 } }, newText: 'replaced' }]
+        }]
+      },
+      {
+        documentChanges: [
+          { kind: 'create', uri: 'file:///work/app/src/new.ts', options: { overwrite: true } },
+          expect.objectContaining({ edits: [expect.objectContaining({ newText: 'export {};\n' })] })
+        ]
+      },
+      { documentChanges: [{ kind: 'rename', oldUri: 'file:///work/app/src/new.ts', newUri: 'file:///work/app/src/renamed.ts' }] }
+    ]);
+
+    client.onRequest('workspace/applyEdit', () => ({ applied: false, failureReason: 'read-only' }));
+    await expect(adapter.saveFile('README.md', 'again')).rejects.toThrow('read-only');
+  });
+
+  it('should push ErrorDetectionEngine results as diagnostics', async () => {
+    detectErrors.mockResolvedValue([{
+      filePath: '/work/app/src/api.ts',
+      line: 3,
+      column: 7,
+      severity: 'error',
+      category: 'TypeScript',
+      code: 'TS2322',
+      message: "Type 'string' is not assignable to type 'number'.",
+      suggestion: 'Check the declared type',
+      timestamp: new Date().toISOString()
+    }]);
+    await start();
+
+    client.notify('textDocument/didSave', { textDocument: { uri: 'file:///work/app/src/api.ts' } });
+    const published = await client.waitFor('textDocument/publishDiagnostics');
+
+    expect(detectErrors).toHaveBeenCalledWith('/work/app/src/api.ts');
+    expect(published).toEqual({
+      uri: 'file:///work/app/src/api.ts',
+      diagnostics: [{
+        range: { start: { line: 2, character: 6 }, end: { line: 2, character: 6 } },
+        severity: 1,
+        code: 'TS2322',
+        source: 'sessionhub (TypeScript)',
+        message: "Type 'string' is not assignable to type 'number'.\nCheck the declared type"
+      }]
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import WebSocket from 'ws';
+import { ChannelRegistry } from '../../../src/services/localapi/ChannelRegistry';
+import { LocalAPIServer } from '../../../src/services/localapi/LocalAPIServer';
+
+describe('LocalAPIServer', () => {
+  const port = 48000 + Math.floor(Math.random() * 1000);
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const token = 'local-api-test-token';
+  const sessions = new Map<string, { id: string; name: string }>();
+  const ipcHandlers = new Map<string, (...args: any[]) => unknown>();
+  const broadcasts: any[] = [];
+  let registry: ChannelRegistry;
+  let server: LocalAPIServer;
+
+  const post = (route: string, body?: unknown, auth = token) => fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(auth ? { Authorization: `Bearer ${auth}` } : {}) },
+    body: JSON.stringify(body ?? {})
+  });
+
+  beforeAll(async () => {
+    registry = new ChannelRegistry();
+    registry.handle('session:get', { params: [{ name: 'sessionId', schema: { type: 'string' } }] }, async (sessionId: string) => {
+      return sessions.get(sessionId) || null;
+    });
+    registry.handle('workflow:start', {
+      params: [{ name: 'request', body: true, schema: { type: 'object', properties: { workflowId: { type: 'string' } } } }]
+    }, async ({ workflowId }: { workflowId: string }) => {
+      registry.publish('workflow:started', { id: workflowId });
+      registry.publish('zed:health-update', { healthy: true });
+      return { success: true };
+    });
+    registry.handle('recovery:exportLogs', { params: [{ name: 'outputPath' }], ipcOnly: true }, async () => 'written');
+    registry.attachIpc(
+      { handle: (channel: string, listener: (...args: any[]) => unknown) => ipcHandlers.set(channel, listener) } as any,
+      (event, payload) => broadcasts.push({ event, payload })
+    );
+    // Registered after the IPC bind and after the server's routes exist
+    registry.handle('session:create', {
+      params: [{ name: 'name', schema: { type: 'string' } }, { name: 'dueAt', schema: { type: 'string', format: 'date-time' }, optional: true }]
+    }, async (name: string, dueAt?: Date) => {
+      const session = { id: `session_${sessions.size + 1}`, name, dueYear: dueAt?.getUTCFullYear() };
+      sessions.set(session.id, session);
+      return session;
+    });
+
+    server = new LocalAPIServer(registry, { port, token });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should serve the same handlers over IPC and HTTP', async () => {
+    expect([...ipcHandlers.keys()].sort()).toEqual(['recovery:exportLogs', 'session:create', 'session:get', 'workflow:start']);
+    const viaIpc = await ipcHandlers.get('session:create')!({ sender: {} }, 'from ipc');
+
+    const created = await post('/api/session/create', { name: 'from http', dueAt: '2027-01-15T00:00:00.000Z' });
+    expect(created.status).toBe(200);
+    expect(await created.json()).toEqual({ result: { id: 'session_2', name: 'from http', dueYear: 2027 } });
+
+    const fetched = await post('/api/session/get', [viaIpc.id]);
+    expect((await fetched.json()).result).toMatchObject({ name: 'from ipc' });
+    expect(await (await post('/api/session/get', { sessionId: 'missing' })).json()).toEqual({ result: null });
+  });
+
+  it('should reject bad arguments, unknown channels and missing tokens', async () => {
+    const missing = await post('/api/session/get', {});
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toEqual({ code: 'INVALID_ARGUMENTS', message: 'session:get requires sessionId' });
+    expect((await post('/api/session/get', { sessionId: 7 })).status).toBe(400);
+    expect((await post('/api/session/get', { sessionId: 'a', extra: true })).status).toBe(400);
+
+    expect((await post('/api/recovery/exportLogs', { outputPath: '/etc/passwd' })).status).toBe(404);
+    expect((await post('/api/session/get', { sessionId: 'a' }, '')).status).toBe(401);
+    expect((await post('/api/session/get', { sessionId: 'a' }, 'wrong-token')).status).toBe(401);
+
+    const foreign = await fetch(`${baseUrl}/api/session/get`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, Origin: 'http://attacker.example' }
+    });
+    expect(foreign.status).toBe(403);
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('should describe the HTTP channels in the OpenAPI document', async () => {
+    const document = await (await fetch(`${baseUrl}/openapi.json`, { headers: { Authorization: `Bearer ${token}` } })).json();
+
+    expect(Object.keys(document.paths).sort()).toEqual(['/api/session/create', '/api/session/get', '/api/workflow/start']);
+    expect(document.paths['/api/session/create'].post).toMatchObject({
+      operationId: 'session:create',
+      tags: ['session'],
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { name: { type: 'string' }, dueAt: { type: 'string', format: 'date-time' } },
+              required: ['name']
+            }
+          }
+        }
+      }
+    });
+    expect(document.paths['/api/workflow/start'].post.requestBody.content['application/json'].schema)
+      .toMatchObject({ type: 'object', properties: { workflowId: { type: 'string' } } });
+  });
+
+  it('should stream published events to authenticated sockets', async () => {
+    await expect(new Promise((resolve, reject) => {
+      const socket = new WebSocket(`ws://127.0.0.1:${port}/events`);
+      socket.once('open', resolve);
+      socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    })).rejects.toThrow('HTTP 401');
+
+    // A valid token does not let other sites' pages in
+    await expect(new Promise((resolve, reject) => {
+      const socket = new WebSocket(`ws://127.0.0.1:${port}/events?access_token=${token}`, { origin: 'http://rebound.example' });
+      socket.once('open', resolve);
+      socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    })).rejects.toThrow('HTTP 401');
+
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/events?events=workflow:,session:&access_token=${token}`);
+    await new Promise(resolve => socket.once('open', resolve));
+    const received: any[] = [];
+    socket.on('message', data => received.push(JSON.parse(data.toString())));
+
+    expect((await (await post('/api/workflow/start', { workflowId: 'wf-1' })).json()).result).toEqual({ success: true });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    socket.close();
+
+    // The zed event is filtered out for this socket but still reaches the renderer
+    expect(received).toEqual([{ event: 'workflow:started', payload: { id: 'wf-1' }, timestamp: expect.any(String) }]);
+    expect(broadcasts.map(b => b.event)).toEqual(['workflow:started', 'zed:health-update']);
+  });
+});
@@ -0,0 +1,89 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { CredentialManager } from '../../../src/lib/security/CredentialManager';
+import { Logger } from '../../../src/lib/logging/Logger';
+import { MCPAuthManager } from '../../../src/services/mcp/server/MCPAuthManager';
+import { MCPServer } from '../../../src/services/mcp/server/MCPServer';
+
+const openSocket = (url: string, headers: Record<string, string> = {}) =>
+  new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(url, { headers });
+    socket.once('open', () => resolve(socket));
+    socket.once('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    socket.once('error', reject);
+  });
+
+describe('MCPServer authentication', () => {
+  const port = 47000 + Math.floor(Math.random() * 1000);
+  const baseUrl = `http://localhost:${port}`;
+  const home = process.env['HOME'];
+  let root: string;
+  let auth: MCPAuthManager;
+  let server: MCPServer;
+
+  const call = (route: string, token?: string, init: RequestInit = {}) => fetch(`${baseUrl}${route}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+  });
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-auth-'));
+    // The registry and keyring live under HOME
+    process.env['HOME'] = root;
+    auth = new MCPAuthManager(new CredentialManager(new Logger('MCPAuthTest'), 'test-key', path.join(root, 'credentials')));
+    server = new MCPServer({
+      port,
+      security: { enableSandbox: false, maxExecutionTime: 1000, allowedDomains: [], blockedDomains: [], requireSignature: false }
+    }, undefined, auth);
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    process.env['HOME'] = home;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should reject requests without a valid token', async () => {
+    const missing = await call('/integrations');
+    const forged = await call('/integrations', 'shmcp_0011223344556677.forged');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect(forged.status).toBe(401);
+    expect((await call('/health')).status).toBe(200);
+  });
+
+  it('should enforce scopes per route and per integration', async () => {
+    const reader = (await auth.issueToken({ client: 'zed', scopes: ['integrations:read', 'tools:execute:github'] })).token;
+    const execute = (integrationId: string) => call('/execute', reader, {
+      method: 'POST',
+      body: JSON.stringify({ integrationId, tool: 'search', params: {} })
+    });
+
+    expect((await call('/integrations', reader)).status).toBe(200);
+    expect((await call('/integrations/github', reader, { method: 'DELETE' })).status).toBe(403);
+    expect((await execute('slack')).status).toBe(403);
+    expect((await execute('github')).status).not.toBe(403);
+    await expect(auth.issueToken({ client: 'cli', scopes: ['admin'] })).rejects.toMatchObject({ code: 'INVALID_SCOPE' });
+  });
+
+  it('should authenticate WebSocket upgrades and stop accepting revoked tokens', async () => {
+    const issued = await auth.issueToken({ client: 'renderer', scopes: ['integrations:read'] });
+
+    await expect(openSocket(`ws://localhost:${port}`)).rejects.toThrow('HTTP 401');
+    const socket = await openSocket(`ws://localhost:${port}?access_token=${issued.token}`);
+    const reply = new Promise<any>(resolve => socket.once('message', data => resolve(JSON.parse(data.toString()))));
+    socket.send(JSON.stringify({ type: 'execute', integrationId: 'github', tool: 'search', params: {} }));
+    expect(await reply).toMatchObject({ error: expect.stringContaining('tools:execute:github') });
+    socket.close();
+
+    expect((await auth.listTokens()).map(token => token.client)).toEqual(expect.arrayContaining(['zed', 'renderer']));
+    expect(await auth.revokeToken(issued.info.tokenId)).toBe(true);
+    await expect(openSocket(`ws://localhost:${port}`, { Authorization: `Bearer ${issued.token}` })).rejects.toThrow('HTTP 401');
+  });
+});
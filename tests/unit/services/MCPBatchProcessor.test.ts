@@ -0,0 +1,145 @@
+jest.mock('bull', () => jest.fn().mockImplementation(() => ({
+  process: jest.fn(),
+  on: jest.fn(),
+  add: jest.fn(async () => undefined),
+  getJob: jest.fn(async () => null),
+  close: jest.fn(async () => undefined)
+})));
+
+import { BatchOperation, BatchResult, BatchSnapshot, MCPBatchProcessor } from '../../../src/services/mcp/batch/MCPBatchProcessor';
+import { MCPBatchStore } from '../../../src/services/mcp/batch/MCPBatchStore';
+
+interface StoredBatches {
+  operations: Map<string, BatchOperation>;
+  results: Map<string, Map<string, BatchResult>>;
+  snapshots: Map<string, BatchSnapshot[]>;
+}
+
+// Stands in for the SQLite tables; writable is cleared to simulate the app stopping
+class MemoryBatchStore {
+  writable = true;
+
+  constructor(private data: StoredBatches) {}
+
+  async saveOperation(operation: BatchOperation): Promise<void> {
+    if (!this.writable) return;
+    this.data.operations.set(operation.id, structuredClone({ ...operation, results: [] }));
+  }
+
+  async saveResult(operationId: string, result: BatchResult): Promise<void> {
+    if (!this.writable) return;
+    const results = this.data.results.get(operationId) || new Map<string, BatchResult>();
+    results.set(result.itemId, structuredClone(result));
+    this.data.results.set(operationId, results);
+  }
+
+  async deleteResults(operationId: string, itemIds: string[]): Promise<void> {
+    for (const itemId of itemIds) {
+      this.data.results.get(operationId)?.delete(itemId);
+    }
+  }
+
+  async saveSnapshot(snapshot: BatchSnapshot): Promise<void> {
+    if (!this.writable) return;
+    const snapshots = this.data.snapshots.get(snapshot.operationId) || [];
+    snapshots.push(structuredClone(snapshot));
+    this.data.snapshots.set(snapshot.operationId, snapshots);
+  }
+
+  async loadOperations(statuses?: BatchOperation['status'][]): Promise<BatchOperation[]> {
+    return Array.from(this.data.operations.values())
+      .filter(operation => !statuses || statuses.includes(operation.status))
+      .map(operation => ({
+        ...structuredClone(operation),
+        results: Array.from(this.data.results.get(operation.id)?.values() || []).map(result => structuredClone(result))
+      }));
+  }
+
+  async loadSnapshots(operationId: string): Promise<BatchSnapshot[]> {
+    return structuredClone(this.data.snapshots.get(operationId) || []);
+  }
+}
+
+describe('MCPBatchProcessor persistence', () => {
+  const items = ['a', 'b', 'c'].map(id => ({ id, integrationId: 'github', tool: 'create_issue', input: { id } }));
+  let data: StoredBatches;
+  let processors: MCPBatchProcessor[];
+
+  const start = (store: MemoryBatchStore, executeTool: jest.Mock) => {
+    const processor = new MCPBatchProcessor(store as unknown as MCPBatchStore);
+    (processor as any).integrationService.executeTool = executeTool;
+    processors.push(processor);
+    return processor;
+  };
+
+  const until = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  beforeEach(() => {
+    data = { operations: new Map(), results: new Map(), snapshots: new Map() };
+    processors = [];
+  });
+
+  afterEach(async () => {
+    for (const processor of processors) {
+      await processor.cleanup();
+    }
+  });
+
+  it('should persist a new batch and restore it as interrupted after a restart', async () => {
+    const first = start(new MemoryBatchStore(data), jest.fn());
+    const operation = await first.createBatchOperation('execute', items, { concurrency: 1 });
+
+    expect(data.operations.get(operation.id)).toMatchObject({ status: 'pending', items });
+    expect(data.snapshots.get(operation.id)).toHaveLength(1);
+
+    const executeTool = jest.fn(async () => ({ success: true }));
+    const second = start(new MemoryBatchStore(data), executeTool);
+    const restored = await second.restoreInterruptedBatches();
+
+    expect(restored.map(batch => batch.id)).toEqual([operation.id]);
+    expect(second.getBatchOperation(operation.id)?.status).toBe('interrupted');
+    expect(data.operations.get(operation.id)?.status).toBe('interrupted');
+
+    // A queued job left over from before the restart does not run it again
+    await second.processBatchOperation(operation.id);
+    expect(executeTool).not.toHaveBeenCalled();
+  });
+
+  it('should resume an interrupted batch with only the items that have no result', async () => {
+    const firstStore = new MemoryBatchStore(data);
+    let release: (value: unknown) => void = () => undefined;
+    const blocked = new Promise(resolve => { release = resolve; });
+    const first = start(firstStore, jest.fn((_integrationId: string, _tool: string, input: { id: string }) =>
+      input.id === 'a' ? Promise.resolve({ done: 'a' }) : blocked
+    ));
+    const operation = await first.createBatchOperation('execute', items, { concurrency: 1, progressReportInterval: 60000 });
+    const running = first.processBatchOperation(operation.id);
+
+    await until(() => data.results.get(operation.id)?.has('a') === true);
+    // The app stops while item b is running
+    firstStore.writable = false;
+
+    const executeTool = jest.fn(async (_integrationId: string, _tool: string, input: { id: string }) => ({ done: input.id }));
+    const second = start(new MemoryBatchStore(data), executeTool);
+    const [restored] = await second.restoreInterruptedBatches();
+
+    expect(restored).toMatchObject({ status: 'interrupted', results: [{ itemId: 'a', status: 'success' }] });
+
+    await second.resumeBatchOperation(operation.id);
+    expect(data.operations.get(operation.id)?.status).toBe('pending');
+    await second.processBatchOperation(operation.id);
+
+    expect(executeTool.mock.calls.map(call => call[2].id)).toEqual(['b', 'c']);
+    expect(data.operations.get(operation.id)?.status).toBe('completed');
+    expect(Array.from(data.results.get(operation.id)!.values()).map(result => [result.itemId, result.output]))
+      .toEqual([['a', { done: 'a' }], ['b', { done: 'b' }], ['c', { done: 'c' }]]);
+
+    release({ done: 'late' });
+    await running;
+  });
+});
@@ -0,0 +1,189 @@
+import * as fs from 'fs/promises';
+import { ExecutionEngine } from '../../../src/core/execution/ExecutionEngine';
+import { SecuritySandbox } from '../../../src/core/execution/SecuritySandbox';
+import { ProtocolValidator } from '../../../src/core/protocol/ProtocolValidator';
+import { CredentialManager } from '../../../src/lib/security/CredentialManager';
+import { AuditLogger } from '../../../src/lib/logging/AuditLogger';
+import { Logger } from '../../../src/lib/logging/Logger';
+import { InstructionProtocol } from '../../../src/models/Instruction';
+import { MCPClientManager } from '../../../src/services/mcp/client/MCPClientManager';
+import { loadMCPClientServers } from '../../../src/services/mcp/client/MCPClientConfig';
+import { MCPClientTransport, MCPRemoteTool } from '../../../src/services/mcp/client/types';
+import { MCPAuthManager } from '../../../src/services/mcp/server/MCPAuthManager';
+import { MCPServer } from '../../../src/services/mcp/server/MCPServer';
+
+const tools: MCPRemoteTool[] = [
+  { name: 'search_issues', inputSchema: { type: 'object' }, annotations: { readOnlyHint: true } },
+  { name: 'create_issue', description: 'Open an issue', inputSchema: { type: 'object' } },
+  { name: 'get_labels', inputSchema: { type: 'object' } }
+];
+
+// Scripted server that lists tools over two pages and echoes calls
+const fakeServer = (): MCPClientTransport & { request: jest.Mock } => ({
+  request: jest.fn(async (method: string, params?: Record<string, any>) => {
+    switch (method) {
+      case 'initialize':
+        return { protocolVersion: '2025-06-18', capabilities: { tools: {} }, serverInfo: { name: 'github', version: '1' } };
+      case 'tools/list':
+        return params?.['cursor'] ? { tools: tools.slice(2) } : { tools: tools.slice(0, 2), nextCursor: 'page-2' };
+      case 'tools/call':
+        return { content: [{ type: 'text', text: `called ${params?.['name']}` }], isError: false };
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  }),
+  notify: jest.fn(async () => undefined),
+  close: jest.fn(async () => undefined)
+});
+
+describe('MCPClientManager', () => {
+  const logger = new Logger('MCPClientTest');
+  let auditLogger: AuditLogger;
+  let transport: ReturnType<typeof fakeServer>;
+  let manager: MCPClientManager;
+
+  beforeEach(async () => {
+    auditLogger = new AuditLogger(logger);
+    transport = fakeServer();
+    manager = new MCPClientManager(
+      [{ name: 'github', transport: 'stdio', command: 'github-mcp', toolAccess: { get_labels: 'read' } }],
+      auditLogger,
+      logger,
+      () => transport
+    );
+    await manager.connect();
+  });
+
+  it('should discover paginated tools and give planning only the read-only ones', () => {
+    expect(manager.listTools('execution').map(t => t.name)).toEqual([
+      'github__search_issues', 'github__create_issue', 'github__get_labels'
+    ]);
+    expect(manager.listTools('planning').map(t => t.name)).toEqual(['github__search_issues', 'github__get_labels']);
+  });
+
+  it('should refuse mutating tools to planning and audit every call with the session', async () => {
+    await expect(manager.callTool('planning', 'github__create_issue', {}, { sessionId: 'session-1' }))
+      .rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+    const result = await manager.callTool('execution', 'github__create_issue', { title: 'Bug' }, { sessionId: 'session-1' });
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'called create_issue' }], isError: false });
+    expect(transport.request).toHaveBeenCalledWith('tools/call', { name: 'create_issue', arguments: { title: 'Bug' } });
+    expect(auditLogger.getSessionAuditTrail('session-1').map(e => [e.actor.type, e.result.status])).toEqual([
+      ['planning', 'failure'],
+      ['execution', 'success']
+    ]);
+  });
+
+  it('should report servers that fail to connect and keep the others', async () => {
+    const broken: MCPClientTransport = {
+      request: async () => { throw new Error('spawn github-mcp ENOENT'); },
+      notify: async () => undefined,
+      close: async () => undefined
+    };
+    const mixed = new MCPClientManager(
+      [
+        { name: 'github', transport: 'stdio', command: 'github-mcp' },
+        { name: 'jira', transport: 'http', url: 'http://localhost:1/mcp' }
+      ],
+      auditLogger,
+      logger,
+      config => config.name === 'github' ? fakeServer() : broken
+    );
+
+    const report = await mixed.connect();
+
+    expect(report).toEqual({ connected: ['github'], failed: [{ server: 'jira', error: 'spawn github-mcp ENOENT' }] });
+    expect(mixed.listTools('execution')).toHaveLength(3);
+  });
+
+  it('should run tool requirements as execution service tasks', async () => {
+    const sandbox = { executeSecurely: (operation: () => Promise<unknown>) => operation() } as unknown as SecuritySandbox;
+    const engine = new ExecutionEngine(logger, new ProtocolValidator(logger), sandbox, undefined, undefined, manager);
+    const instructions: InstructionProtocol = {
+      metadata: {
+        id: 'instr-tools',
+        sessionId: 'session-2',
+        sessionName: 'Triage',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        version: '1.0',
+        actor: 'planning'
+      },
+      context: { description: 'Issue triage', prerequisites: [], userRequest: 'File the login bug' },
+      objectives: [{ id: 'obj-1', primary: 'The login bug is tracked', measurable: true }],
+      requirements: [{
+        id: 'req-1',
+        description: 'Open an issue describing the login bug',
+        priority: 'must',
+        tool: { name: 'github__create_issue', arguments: { title: 'Login broken' } }
+      }],
+      deliverables: [],
+      constraints: {},
+      successCriteria: [{ id: 'sc-1', criterion: 'The issue exists', validationMethod: 'Manual review', automated: false }]
+    };
+    const context = { workingDirectory: '/tmp', environment: {}, timeout: 5000, dryRun: true };
+
+    const preview = await engine.executeInstructions(instructions, context);
+    const result = await engine.executeInstructions(instructions, { ...context, dryRun: false });
+
+    expect(preview.preview?.commands[0]?.command).toBe('mcp github__create_issue {"title":"Login broken"}');
+    expect(result.status).toBe('success');
+    expect(auditLogger.getSessionAuditTrail('session-2')).toEqual([
+      expect.objectContaining({
+        actor: { type: 'execution', id: 'ExecutionEngine' },
+        metadata: expect.objectContaining({ instructionId: 'instr-tools' })
+      })
+    ]);
+  });
+});
+
+describe('loadMCPClientServers', () => {
+  it('should read the configured servers and treat a missing file as none', async () => {
+    const servers = [
+      { name: 'github', transport: 'stdio', command: 'github-mcp', args: ['--read-only'] },
+      { name: 'docs', transport: 'http', url: 'https://docs.example.com/mcp' }
+    ];
+    jest.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify({ servers }));
+    expect(await loadMCPClientServers('/config/servers.json')).toEqual(servers);
+
+    jest.mocked(fs.readFile).mockRejectedValueOnce(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+    expect(await loadMCPClientServers('/config/servers.json')).toEqual([]);
+  });
+
+  it('should reject servers without a name or a way to reach them', async () => {
+    jest.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify({ servers: [{ transport: 'stdio', command: 'x' }] }));
+    await expect(loadMCPClientServers('/config/servers.json')).rejects.toThrow('MCP server #0 has no name');
+
+    jest.mocked(fs.readFile).mockResolvedValueOnce(JSON.stringify({ servers: [{ name: 'docs', transport: 'http' }] }));
+    await expect(loadMCPClientServers('/config/servers.json')).rejects.toMatchObject({ code: 'INVALID_CONFIG', server: 'docs' });
+  });
+});
+
+describe('MCPClientManager over streamable HTTP', () => {
+  const port = 47000 + Math.floor(Math.random() * 1000);
+  let server: MCPServer;
+  let token: string;
+
+  beforeAll(async () => {
+    jest.mocked(fs.readdir).mockResolvedValue([]);
+    const auth = new MCPAuthManager(new CredentialManager(new Logger('MCPClientTest'), 'test-key', '/tmp/mcp-credentials'));
+    token = (await auth.issueToken({ client: 'test', scopes: ['integrations:read'] })).token;
+    server = new MCPServer({
+      port,
+      security: { enableSandbox: false, maxExecutionTime: 1000, allowedDomains: [], blockedDomains: [], requireSignature: false }
+    }, undefined, auth);
+    await server.start();
+  });
+
+  afterAll(() => server.stop());
+
+  it('should initialize a session against the SessionHub MCP server', async () => {
+    const manager = new MCPClientManager(
+      [{ name: 'sessionhub', transport: 'http', url: `http://localhost:${port}/mcp`, headers: { Authorization: `Bearer ${token}` } }],
+      new AuditLogger()
+    );
+
+    expect(await manager.connect()).toEqual({ connected: ['sessionhub'], failed: [] });
+    expect(manager.listTools('execution')).toEqual([]);
+    await manager.disconnect();
+  });
+});
@@ -0,0 +1,165 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPConformanceHarness, sampleFromSchema } from '../../../src/services/mcp/testing/MCPConformanceHarness';
+import { MCPResultsAggregator } from '../../../src/services/mcp/reporting/MCPResultsAggregator';
+import { MCPGeneratorEngine } from '../../../src/services/mcp/MCPGeneratorEngine';
+import { MCPServerConfig } from '../../../src/services/mcp/types';
+
+// Stands in for a generated server: lists add, echo and debug but not
+// search, and add returns a string sum
+const SERVER_SOURCE = `
+const readline = require('readline');
+const tools = [
+  { name: 'add', inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] } },
+  { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+  { name: 'debug', inputSchema: { type: 'object' } }
+];
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const { id, method, params } = JSON.parse(line);
+  if (method === 'initialize') {
+    send({ id, result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'calc', version: '1.0.0' } } });
+  } else if (method === 'tools/list') {
+    send({ id, result: { tools } });
+  } else if (method === 'tools/call') {
+    const args = params.arguments;
+    const result = params.name === 'add'
+      ? { content: [{ type: 'text', text: String(args.a + args.b) }], structuredContent: { sum: String(args.a + args.b) } }
+      : { content: [{ type: 'text', text: args.text }] };
+    send({ id, result });
+  }
+});
+`;
+
+describe('MCPConformanceHarness', () => {
+  let dir: string;
+
+  const config: MCPServerConfig = {
+    name: 'calc',
+    version: '1.0.0',
+    tools: [
+      {
+        name: 'add',
+        description: 'Add two numbers',
+        inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+        outputSchema: { type: 'object', properties: { sum: { type: 'number' } }, required: ['sum'] },
+      },
+      {
+        name: 'echo',
+        description: 'Echo text',
+        inputSchema: { type: 'object', properties: { text: { type: 'string', minLength: 6 } }, required: ['text'] },
+      },
+      {
+        name: 'search',
+        description: 'Search documents',
+        inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-conformance-'));
+    fs.writeFileSync(path.join(dir, 'server.js'), SERVER_SOURCE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should generate inputs that satisfy the schema', () => {
+    expect(sampleFromSchema({
+      type: 'object',
+      properties: {
+        id: { type: 'integer', minimum: 3 },
+        tags: { type: 'array', items: { type: 'string', format: 'email' } },
+        kind: { enum: ['issue', 'pr'] },
+        note: { type: 'string' },
+      },
+      required: ['id', 'tags', 'kind'],
+    })).toEqual({ id: 3, tags: ['test@example.com'], kind: 'issue' });
+  });
+
+  it('should report declared tools the server does not implement', async () => {
+    const report = await new MCPConformanceHarness().run({
+      language: 'javascript',
+      serverPath: dir,
+      config,
+      command: process.execPath,
+      args: ['server.js'],
+    });
+
+    expect(report.testResults.map(result => [result.testCaseId, result.status])).toEqual([
+      ['handshake', 'passed'],
+      ['add:listed', 'passed'],
+      ['add:call', 'failed'],
+      ['echo:listed', 'passed'],
+      ['echo:call', 'passed'],
+      ['search:listed', 'failed'],
+      ['search:call', 'skipped'],
+    ]);
+    expect(report.testResults[2]?.error).toContain('/sum must be number');
+    expect(report).toMatchObject({ missingTools: ['search'], undeclaredTools: ['debug'], passed: 4, failed: 2 });
+    expect(report.coverage).toBeCloseTo(100 / 3);
+
+    const aggregator = new MCPResultsAggregator({
+      outputDir: path.join(dir, 'reports'),
+      formats: ['json'],
+      includeCharts: false,
+      includeRawData: false,
+      aggregationPeriod: 'daily',
+      retentionDays: 1,
+    });
+    const results = await aggregator.aggregateResults([report], [], [], [], []);
+    expect(results.integrations).toEqual([
+      expect.objectContaining({ integrationId: 'calc:javascript', passedTests: 4, failedTests: 2 }),
+    ]);
+  });
+
+  it('should aggregate the report of each server the generator validates', async () => {
+    fs.writeFileSync(path.join(dir, 'mcp.config.json'), JSON.stringify(config));
+    const run = MCPConformanceHarness.prototype.run;
+    // The fixture needs no build and runs with node
+    const spy = jest.spyOn(MCPConformanceHarness.prototype, 'run').mockImplementation(function (this: MCPConformanceHarness, target) {
+      return run.call(this, { ...target, build: false, command: process.execPath, args: ['server.js'] });
+    });
+    const aggregator = new MCPResultsAggregator({
+      outputDir: path.join(dir, 'reports'),
+      formats: ['json'],
+      includeCharts: false,
+      includeRawData: false,
+      aggregationPeriod: 'daily',
+      retentionDays: 1,
+    });
+    const aggregated = jest.fn();
+    aggregator.on('aggregation-completed', aggregated);
+
+    try {
+      const engine = new MCPGeneratorEngine(aggregator);
+      const report = await engine.validateMCPServer(dir, 'javascript');
+
+      expect(report).toMatchObject({ integrationId: 'calc:javascript', failed: 2 });
+      expect(engine.getConformanceReports()).toEqual([report]);
+      expect(aggregated).toHaveBeenCalledWith(expect.objectContaining({
+        integrations: [expect.objectContaining({ integrationId: 'calc:javascript', passedTests: 4, failedTests: 2 })],
+      }));
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('should fail the handshake when the server does not start', async () => {
+    const report = await new MCPConformanceHarness().run({
+      language: 'python',
+      serverPath: dir,
+      config,
+      command: path.join(dir, 'missing-binary'),
+    });
+
+    expect(report.testResults[0]).toMatchObject({ testCaseId: 'handshake', status: 'failed' });
+    expect(report.testResults.slice(1).every(result => result.status === 'skipped')).toBe(true);
+    expect(report.missingTools).toEqual([]);
+  });
+});
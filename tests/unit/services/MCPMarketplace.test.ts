@@ -0,0 +1,137 @@
+jest.unmock('fs/promises');
+
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPMarketplace } from '../../../src/services/mcp/marketplace/MCPMarketplace';
+import { buildPackageIndex } from '../../../src/services/mcp/marketplace/MCPPackageIndex';
+import { MCPIntegrationRegistry } from '../../../src/services/mcp/server/MCPIntegrationRegistry';
+import { MCPKeyring } from '../../../src/services/mcp/server/MCPKeyring';
+import { MCPSecurityManager } from '../../../src/services/mcp/server/MCPSecurityManager';
+import { MCPIntegrationManifest, MCPPermission } from '../../../src/services/mcp/server/types';
+
+const securityConfig = {
+  enableSandbox: false,
+  maxExecutionTime: 1000,
+  allowedDomains: [],
+  blockedDomains: [],
+  requireSignature: true
+};
+
+describe('MCPMarketplace package index', () => {
+  let root: string;
+  let indexDir: string;
+  let publisherKeyring: MCPKeyring;
+  let hostKeyring: MCPKeyring;
+  let registry: MCPIntegrationRegistry;
+
+  // Write a signed manifest and a bundle with one file for a version
+  const addVersion = async (version: string, permissions: MCPPermission[], dependencies: string[]) => {
+    const dir = path.join(indexDir, 'packages', 'issue-tracker', version);
+    const code = Buffer.from(`module.exports = { version: '${version}' };\n`);
+    fs.mkdirSync(path.join(dir, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'src', 'index.js'), code);
+    execFileSync('tar', ['czf', 'bundle.tgz', 'src'], { cwd: dir });
+    fs.rmSync(path.join(dir, 'src'), { recursive: true });
+
+    const manifest: MCPIntegrationManifest = {
+      integration: {
+        name: 'Issue Tracker',
+        version,
+        description: 'Tracks issues',
+        author: 'Acme',
+        category: 'productivity',
+        tools: [{ name: 'createIssue', description: 'Create an issue', inputSchema: { type: 'object' } }],
+        permissions
+      },
+      installation: {
+        files: [{ path: 'src/index.js', checksum: crypto.createHash('sha256').update(code).digest('hex') }],
+        dependencies
+      }
+    };
+    const publisher = new MCPSecurityManager(securityConfig, publisherKeyring);
+    const signed = await publisher.signManifest(manifest, await publisherKeyring.getSigningKey('acme'));
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(signed));
+  };
+
+  const marketplace = (sources: string[], keyring: MCPKeyring = hostKeyring) =>
+    new MCPMarketplace({ sources, keyring, sourcesPath: path.join(root, 'sources.json') });
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-marketplace-'));
+    indexDir = path.join(root, 'index');
+    publisherKeyring = new MCPKeyring(path.join(root, 'publisher'));
+    hostKeyring = new MCPKeyring(path.join(root, 'host'));
+    await hostKeyring.trustKey('acme', (await publisherKeyring.getSigningKey('acme')).publicKey);
+
+    await addVersion('1.0.0', ['network'], ['node-fetch']);
+    await addVersion('1.1.0', ['network', 'filesystem'], ['node-fetch', 'chokidar']);
+    await buildPackageIndex(indexDir, publisherKeyring, { name: 'Acme' });
+
+    registry = new MCPIntegrationRegistry(
+      path.join(root, 'integrations'),
+      new MCPSecurityManager(securityConfig, hostKeyring)
+    );
+    await registry.whenReady();
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should install a pinned version with its bundle and diff it before upgrading', async () => {
+    const market = marketplace([indexDir]);
+    const id = await market.installIntegration('issue-tracker', registry, '1.0.0');
+
+    expect(fs.readFileSync(path.join(root, 'integrations', 'packages', id, 'src', 'index.js'), 'utf-8'))
+      .toContain("'1.0.0'");
+    expect(await market.listInstalled(registry)).toEqual([
+      expect.objectContaining({ packageId: 'issue-tracker', version: '1.0.0', latestVersion: '1.1.0', updateAvailable: true })
+    ]);
+
+    await market.pinVersion('issue-tracker', true, registry);
+    await expect(market.planUpgrade('issue-tracker', registry)).rejects.toMatchObject({ code: 'PINNED' });
+    await market.pinVersion('issue-tracker', false, registry);
+
+    const plan = await market.planUpgrade('issue-tracker', registry);
+    expect(plan).toMatchObject({
+      fromVersion: '1.0.0',
+      toVersion: '1.1.0',
+      permissions: { added: ['filesystem'], removed: [] },
+      dependencies: { added: ['chokidar'], removed: [] },
+      tools: { added: [], removed: [] }
+    });
+
+    await market.upgradeIntegration(plan, registry);
+    expect((await registry.getIntegration(id))?.version).toBe('1.1.0');
+    await expect(market.upgradeIntegration(plan, registry)).rejects.toMatchObject({ code: 'PLAN_STALE' });
+
+    await market.uninstallIntegration('issue-tracker', registry);
+    expect(await registry.listIntegrations()).toEqual([]);
+    expect(fs.existsSync(path.join(root, 'integrations', 'packages', id))).toBe(false);
+  });
+
+  it('should read the same index from a tarball', async () => {
+    const tarball = path.join(root, 'acme-marketplace.tgz');
+    execFileSync('tar', ['czf', tarball, 'index'], { cwd: root });
+
+    const [integration] = await marketplace([tarball]).searchIntegrations();
+
+    expect(integration).toMatchObject({ id: 'issue-tracker', versions: ['1.1.0', '1.0.0'], verified: true, source: tarball });
+    expect(integration?.manifest.integration.permissions).toEqual(['network', 'filesystem']);
+  });
+
+  it('should reject untrusted indexes and files that do not match the index', async () => {
+    const untrusted = await marketplace([indexDir], new MCPKeyring(path.join(root, 'stranger'))).refresh();
+    expect(untrusted).toEqual([expect.objectContaining({ status: 'error', error: expect.stringContaining('not in the keyring') })]);
+
+    const bundle = path.join(indexDir, 'packages', 'issue-tracker', '1.0.0', 'bundle.tgz');
+    fs.appendFileSync(bundle, 'tampered');
+    const market = marketplace([indexDir]);
+
+    await expect(market.installIntegration('issue-tracker', registry, '1.0.0')).rejects.toMatchObject({ code: 'INTEGRITY' });
+    expect(await registry.listIntegrations()).toEqual([]);
+  });
+});
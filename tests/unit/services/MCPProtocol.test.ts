@@ -0,0 +1,184 @@
+import * as fs from 'fs/promises';
+import { PassThrough } from 'stream';
+import { CredentialManager } from '../../../src/lib/security/CredentialManager';
+import { Logger } from '../../../src/lib/logging/Logger';
+import { MCPAuthManager } from '../../../src/services/mcp/server/MCPAuthManager';
+import { MCPIntegrationRegistry } from '../../../src/services/mcp/server/MCPIntegrationRegistry';
+import { MCPProtocolHandler, JSON_RPC_ERRORS } from '../../../src/services/mcp/server/MCPProtocolHandler';
+import { MCPRequestHandler } from '../../../src/services/mcp/server/MCPRequestHandler';
+import { MCPServer } from '../../../src/services/mcp/server/MCPServer';
+import { MCPStdioTransport } from '../../../src/services/mcp/server/MCPStdioTransport';
+import { MCPIntegration } from '../../../src/services/mcp/server/types';
+
+const integration: MCPIntegration = {
+  name: 'Issue Tracker',
+  version: '1.0.0',
+  description: 'Tracks issues',
+  author: 'SessionHub',
+  category: 'productivity',
+  tools: [{
+    name: 'createIssue',
+    description: 'Create an issue',
+    inputSchema: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] }
+  }],
+  permissions: ['network'],
+  config: { apiKey: 'secret-key' }
+};
+
+const request = (id: number, method: string, params?: object) => ({ jsonrpc: '2.0', id, method, params });
+
+describe('MCPProtocolHandler', () => {
+  let registry: MCPIntegrationRegistry;
+  let executeToolCall: jest.Mock;
+  let handler: MCPProtocolHandler;
+  let integrationId: string;
+
+  beforeEach(async () => {
+    registry = new MCPIntegrationRegistry('/tmp/mcp-protocol-test');
+    integrationId = await registry.registerIntegration({ ...integration });
+    executeToolCall = jest.fn(async () => ({ success: true, data: { number: 7 } }));
+    handler = new MCPProtocolHandler(
+      registry,
+      { executeToolCall } as unknown as MCPRequestHandler,
+      { name: 'sessionhub', version: '1.0.0' }
+    );
+  });
+
+  afterEach(() => handler.dispose());
+
+  it('should negotiate the protocol version on initialize', async () => {
+    const supported = await handler.handle(request(1, 'initialize', { protocolVersion: '2025-03-26' }));
+    const unknown = await handler.handle(request(2, 'initialize', { protocolVersion: '1999-01-01' }));
+
+    expect(supported).toMatchObject({ id: 1, result: { protocolVersion: '2025-03-26', serverInfo: { name: 'sessionhub' } } });
+    expect(unknown).toMatchObject({ id: 2, result: { protocolVersion: '2025-06-18' } });
+  });
+
+  it('should list registry tools under integration-prefixed names and call them', async () => {
+    const list = await handler.handle(request(1, 'tools/list'));
+    const call = await handler.handle(request(2, 'tools/call', {
+      name: 'issue-tracker__createIssue',
+      arguments: { title: 'Broken login' }
+    }));
+
+    expect(list).toMatchObject({ result: { tools: [{ name: 'issue-tracker__createIssue', inputSchema: { type: 'object' } }] } });
+    expect(executeToolCall).toHaveBeenCalledWith(integrationId, 'createIssue', { title: 'Broken login' });
+    expect(call).toMatchObject({
+      result: { content: [{ type: 'text', text: '{"number":7}' }], structuredContent: { number: 7 }, isError: false }
+    });
+  });
+
+  it('should report tool failures as results and unknown tools as errors', async () => {
+    executeToolCall.mockResolvedValueOnce({ success: false, error: { code: 'E', message: 'Rate limited' } });
+
+    const failed = await handler.handle(request(1, 'tools/call', { name: 'issue-tracker__createIssue' }));
+    const unknown = await handler.handle(request(2, 'tools/call', { name: 'nope__tool' }));
+
+    expect(failed).toMatchObject({ result: { content: [{ text: 'Rate limited' }], isError: true } });
+    expect(unknown).toMatchObject({ error: { code: JSON_RPC_ERRORS.INVALID_PARAMS } });
+  });
+
+  it('should expose integrations as resources without their config', async () => {
+    const read = await handler.handle(request(1, 'resources/read', { uri: `sessionhub://integrations/${integrationId}` }));
+    const missing = await handler.handle(request(2, 'resources/read', { uri: 'sessionhub://integrations/missing' }));
+
+    const text = (read as { result: { contents: Array<{ text: string }> } }).result.contents[0]?.text as string;
+    expect(JSON.parse(text)).toMatchObject({ name: 'Issue Tracker' });
+    expect(text).not.toContain('secret-key');
+    expect(missing).toMatchObject({ error: { code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND } });
+  });
+
+  it('should render integration prompts', async () => {
+    const prompt = await handler.handle(request(1, 'prompts/get', {
+      name: 'use-issue-tracker',
+      arguments: { task: 'File a bug' }
+    }));
+
+    expect(prompt).toMatchObject({ result: { messages: [{ role: 'user', content: { type: 'text' } }] } });
+    expect(JSON.stringify(prompt)).toContain('issue-tracker__createIssue');
+  });
+
+  it('should answer batches, skip notifications and reject malformed messages', async () => {
+    const batch = await handler.handleRaw(JSON.stringify([
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      request(1, 'ping')
+    ]));
+
+    expect(batch).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+    expect(await handler.handleRaw('{not json')).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.PARSE_ERROR } });
+    expect(await handler.handle({ id: 1, method: 'ping' })).toMatchObject({ error: { code: JSON_RPC_ERRORS.INVALID_REQUEST } });
+    expect(await handler.handle(request(3, 'sampling/createMessage'))).toMatchObject({
+      error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND }
+    });
+  });
+
+  it('should exchange newline-delimited messages over stdio', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on('data', chunk => lines.push(...chunk.toString().split('\n').filter(Boolean)));
+
+    const done = new MCPStdioTransport(handler, input, output).start();
+    input.write(`${JSON.stringify(request(1, 'tools/list'))}\n`);
+    input.end(`${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })}\n`);
+    await done;
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0] as string)).toMatchObject({ id: 1, result: { tools: [{ name: 'issue-tracker__createIssue' }] } });
+  });
+});
+
+describe('MCPServer streamable HTTP', () => {
+  const port = 47000 + Math.floor(Math.random() * 1000);
+  const url = `http://localhost:${port}/mcp`;
+  let server: MCPServer;
+  let authorization: string;
+
+  const post = (body: object, headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: authorization,
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  beforeAll(async () => {
+    jest.mocked(fs.readdir).mockResolvedValue([]);
+    const auth = new MCPAuthManager(new CredentialManager(new Logger('MCPProtocolTest'), 'test-key', '/tmp/mcp-credentials'));
+    authorization = `Bearer ${(await auth.issueToken({ client: 'test', scopes: ['integrations:read'] })).token}`;
+    server = new MCPServer({
+      port,
+      security: { enableSandbox: false, maxExecutionTime: 1000, allowedDomains: [], blockedDomains: [], requireSignature: false }
+    }, undefined, auth);
+    await server.start();
+  });
+
+  afterAll(() => server.stop());
+
+  it('should issue a session on initialize and require it afterwards', async () => {
+    const init = await post(request(1, 'initialize', { protocolVersion: '2025-06-18' }));
+    const sessionId = init.headers.get('mcp-session-id') as string;
+
+    expect(init.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect((await post(request(2, 'tools/list'))).status).toBe(400);
+    expect((await post(request(2, 'tools/list'), { 'Mcp-Session-Id': 'unknown' })).status).toBe(404);
+
+    const notified = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+    const listed = await post(request(3, 'tools/list'), { 'Mcp-Session-Id': sessionId });
+    expect(notified.status).toBe(202);
+    expect(await listed.json()).toMatchObject({ id: 3, result: { tools: [] } });
+
+    expect((await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId, Authorization: authorization } })).status).toBe(200);
+    expect((await post(request(4, 'ping'), { 'Mcp-Session-Id': sessionId })).status).toBe(404);
+  });
+
+  it('should reject browser requests from non-local origins', async () => {
+    const response = await post(request(1, 'initialize', {}), { Origin: 'https://attacker.example' });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,270 @@
+jest.unmock('fs/promises');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPAlertManager } from '../../../src/services/mcp/alerts/MCPAlertManager';
+import { MCPIntegrationRegistry } from '../../../src/services/mcp/server/MCPIntegrationRegistry';
+import { MCPKeyring } from '../../../src/services/mcp/server/MCPKeyring';
+import { MCPRequestHandler } from '../../../src/services/mcp/server/MCPRequestHandler';
+import { MCPSecurityManager } from '../../../src/services/mcp/server/MCPSecurityManager';
+import { MCPToolModuleLoader } from '../../../src/services/mcp/server/MCPToolModuleLoader';
+import { MCPIntegration, MCPPermissionViolation } from '../../../src/services/mcp/server/types';
+
+const TOOLS_SOURCE = `
+exports.add = async ({ a, b }) => ({ sum: a + b });
+exports.broken = async () => ({ sum: 'not a number' });
+exports.ping = async () => {
+  const response = await fetch('https://api.github.com/zen');
+  return { sum: response.status };
+};
+`;
+
+const FILES_SOURCE = `
+exports.run = async () => {
+  const data = await fs.readFile('data/in.txt');
+  await fs.writeFile('out/result.txt', data.toUpperCase());
+  const echoed = await subprocess.exec('echo', ['hi']);
+  const denied = [];
+  const attempts = [
+    () => fs.writeFile('data/in.txt', 'overwritten'),
+    () => fs.readFile('../../../../etc/hostname'),
+    () => subprocess.exec('ls'),
+    () => fetch('https://api.github.com/zen')
+  ];
+  for (const attempt of attempts) {
+    try {
+      await attempt();
+    } catch (error) {
+      denied.push(error.code);
+    }
+  }
+  return { echoed: echoed.stdout.trim(), token: env.MCP_TEST_TOKEN, home: env.HOME || null, denied };
+};
+`;
+
+const ESCAPE_SOURCE = `
+exports.run = async () => {
+  const attempts = {
+    global: () => this.constructor.constructor('return process')(),
+    capability: () => fs.readFile.constructor('return process')(),
+    promise: () => fetch('https://api.github.com').constructor.constructor('return process')(),
+    buffer: () => Buffer.constructor('return process')(),
+    require: () => require('child_process')
+  };
+  const outcomes = {};
+  for (const [name, attempt] of Object.entries(attempts)) {
+    try {
+      const reached = attempt();
+      outcomes[name] = reached && reached.env ? Object.keys(reached.env).length : 'no process';
+    } catch (error) {
+      outcomes[name] = error.name;
+    }
+  }
+  return outcomes;
+};
+`;
+
+describe('MCP tool modules', () => {
+  let root: string;
+  let registry: MCPIntegrationRegistry;
+  let security: MCPSecurityManager;
+  let handler: MCPRequestHandler;
+  let integration: MCPIntegration;
+
+  const sumTool = (name: string) => ({
+    name,
+    description: `${name} two numbers`,
+    handler: `src/tools.js#${name}`,
+    inputSchema: {
+      type: 'object' as const,
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b']
+    },
+    outputSchema: {
+      type: 'object' as const,
+      properties: { sum: { type: 'number' } },
+      required: ['sum']
+    }
+  });
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-tools-'));
+    security = new MCPSecurityManager({
+      enableSandbox: false,
+      maxExecutionTime: 5000,
+      allowedDomains: ['api.github.com'],
+      blockedDomains: [],
+      requireSignature: false
+    }, new MCPKeyring(path.join(root, 'keys')));
+    registry = new MCPIntegrationRegistry(path.join(root, 'integrations'), security);
+    await registry.whenReady();
+    handler = new MCPRequestHandler(registry, security);
+
+    integration = {
+      name: 'Calculator',
+      version: '1.0.0',
+      description: 'Adds numbers',
+      author: 'Acme',
+      category: 'other',
+      tools: [sumTool('add'), sumTool('broken'), sumTool('ping'), { ...sumTool('escape'), handler: '../../keys/x.js' }],
+      permissions: []
+    };
+    const id = await registry.registerIntegration(integration);
+    const packagePath = registry.getPackagePath(id);
+    fs.mkdirSync(path.join(packagePath, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(packagePath, 'src', 'tools.js'), TOOLS_SOURCE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should run the package module in the sandbox worker', async () => {
+    const result = await handler.executeToolCall(integration.id as string, 'add', { a: 2, b: 3 });
+
+    expect(result).toMatchObject({ success: true, data: { sum: 5 } });
+  });
+
+  it('should return structured errors for invalid input and output', async () => {
+    const missing = await handler.executeToolCall(integration.id as string, 'add', { a: '2' });
+    const output = await handler.executeToolCall(integration.id as string, 'broken', { a: 1, b: 1 });
+
+    expect(missing.error).toMatchObject({
+      code: 'INVALID_INPUT',
+      details: {
+        errors: expect.arrayContaining([
+          expect.objectContaining({ path: '/', keyword: 'required' }),
+          expect.objectContaining({ path: '/a', keyword: 'type' })
+        ])
+      }
+    });
+    expect(output.error).toMatchObject({
+      code: 'INVALID_OUTPUT',
+      details: { errors: [expect.objectContaining({ path: '/sum', keyword: 'type' })] }
+    });
+  });
+
+  it('should deny APIs the integration did not declare and handlers outside the package', async () => {
+    const denied = await handler.executeToolCall(integration.id as string, 'ping', { a: 1, b: 1 });
+    const escaped = await handler.executeToolCall(integration.id as string, 'escape', { a: 1, b: 1 });
+
+    expect(denied.error).toMatchObject({ code: 'PERMISSION_DENIED', message: expect.stringContaining('network') });
+    expect(escaped.error).toMatchObject({ code: 'HANDLER_NOT_FOUND' });
+    await expect(new MCPToolModuleLoader(() => root).load(integration, { ...sumTool('add'), handler: 'builtin:github#listRepositories' }))
+      .resolves.toMatchObject({ exportName: 'listRepositories', source: expect.stringContaining('api.github.com') });
+  });
+
+  it('should only hand modules the capabilities their manifest grants', async () => {
+    process.env['MCP_TEST_TOKEN'] = 'granted';
+    const alerts = new MCPAlertManager({
+      enabled: true,
+      channels: [],
+      rules: [{
+        id: 'sandbox-violations',
+        name: 'Sandbox violations',
+        description: 'An integration keeps using capabilities it was not granted',
+        condition: { type: 'threshold', metric: 'permissionViolations', operator: '>=', value: 5 },
+        severity: 'critical',
+        channels: [],
+        enabled: true
+      }],
+      throttling: { maxAlertsPerHour: 10, cooldownMinutes: 60 },
+      escalation: { enabled: false, levels: [] }
+    });
+    const violations: MCPPermissionViolation[] = [];
+    security.on('permission:violation', violation => {
+      violations.push(violation);
+      void alerts.recordPermissionViolation(violation);
+    });
+
+    const files: MCPIntegration = {
+      name: 'Files',
+      version: '1.0.0',
+      description: 'Transforms files',
+      author: 'Acme',
+      category: 'other',
+      tools: [{ name: 'run', description: 'Run', handler: 'src/files.js', inputSchema: { type: 'object' } }],
+      permissions: ['filesystem', 'process'],
+      capabilities: {
+        fs: { read: ['data'], write: ['out'] },
+        env: ['MCP_TEST_TOKEN'],
+        subprocess: { commands: ['echo'] }
+      }
+    };
+    const id = await registry.registerIntegration(files);
+    const packagePath = registry.getPackagePath(id);
+    for (const dir of ['src', 'data', 'out']) fs.mkdirSync(path.join(packagePath, dir), { recursive: true });
+    fs.writeFileSync(path.join(packagePath, 'src', 'files.js'), FILES_SOURCE);
+    fs.writeFileSync(path.join(packagePath, 'data', 'in.txt'), 'hello');
+
+    const result = await handler.executeToolCall(id, 'run', {});
+    delete process.env['MCP_TEST_TOKEN'];
+
+    expect(result.data).toEqual({
+      echoed: 'hi',
+      token: 'granted',
+      home: null,
+      denied: ['PERMISSION_DENIED', 'PERMISSION_DENIED', 'PERMISSION_DENIED', 'PERMISSION_DENIED']
+    });
+    expect(fs.readFileSync(path.join(packagePath, 'out', 'result.txt'), 'utf-8')).toBe('HELLO');
+    expect(fs.readFileSync(path.join(packagePath, 'data', 'in.txt'), 'utf-8')).toBe('hello');
+    expect(violations.map(v => [v.capability, v.tool])).toEqual([
+      ['fs', 'run'], ['fs', 'run'], ['subprocess', 'run'], ['network', 'run'], ['env', 'run']
+    ]);
+    expect(alerts.getActiveAlerts()).toEqual([
+      expect.objectContaining({ integrationId: id, ruleId: 'sandbox-violations', actualValue: 5 })
+    ]);
+    await expect(security.validateIntegration({ ...files, permissions: ['filesystem'] }))
+      .rejects.toThrow('Capability subprocess requires the process permission');
+  });
+
+  it('should ignore sandbox settings stored with the integration', async () => {
+    const widened: MCPIntegration = {
+      ...integration,
+      name: 'Widened',
+      tools: [{ name: 'probe', description: 'Probe', handler: 'src/probe.js#probe', inputSchema: { type: 'object' } }],
+      permissions: ['network'],
+      sandboxConfig: { memory: 0, cpu: 1, timeout: 600000, allowedHosts: ['example.com'], env: { INJECTED: 'yes' } }
+    };
+    const id = await registry.registerIntegration(widened);
+    fs.mkdirSync(path.join(registry.getPackagePath(id), 'src'), { recursive: true });
+    fs.writeFileSync(path.join(registry.getPackagePath(id), 'src', 'probe.js'), `
+exports.probe = async () => {
+  let network = 'allowed';
+  try {
+    await fetch('https://example.com');
+  } catch (error) {
+    network = error.code;
+  }
+  return { network, injected: env.INJECTED || null };
+};
+`);
+
+    const result = await handler.executeToolCall(id, 'probe', {});
+
+    expect(result.data).toEqual({ network: 'PERMISSION_DENIED', injected: null });
+  });
+
+  it('should not let modules reach the host process through the objects they are given', async () => {
+    const escape: MCPIntegration = {
+      ...integration,
+      name: 'Escape',
+      tools: [{ name: 'run', description: 'Run', handler: 'src/escape.js', inputSchema: { type: 'object' } }],
+      permissions: ['filesystem']
+    };
+    const id = await registry.registerIntegration(escape);
+    fs.mkdirSync(path.join(registry.getPackagePath(id), 'src'), { recursive: true });
+    fs.writeFileSync(path.join(registry.getPackagePath(id), 'src', 'escape.js'), ESCAPE_SOURCE);
+
+    const result = await handler.executeToolCall(id, 'run', {});
+
+    expect(result.data).toEqual({
+      global: 'EvalError',
+      capability: 'EvalError',
+      promise: 'EvalError',
+      buffer: 'ReferenceError',
+      require: 'ReferenceError'
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { OfflineSyncEngine, SyncConflict } from '../../../src/services/offline/OfflineSyncEngine';
+import { ConflictResolutionService } from '../../../src/services/offline/ConflictResolutionService';
+import { threeWayMerge } from '../../../src/services/offline/ThreeWayMerge';
+
+describe('threeWayMerge', () => {
+  const base = { id: 'p1', name: 'App', description: 'old', tags: ['a'], settings: { theme: 'light', tabs: 2 } };
+
+  it('should take each side\'s edits to different fields', () => {
+    const local = { ...base, description: 'new', settings: { theme: 'light', tabs: 4 } };
+    const remote = { ...base, name: 'App 2', tags: ['a', 'b'], settings: { theme: 'dark', tabs: 2 } };
+
+    expect(threeWayMerge(base, local, remote)).toEqual({
+      merged: { id: 'p1', name: 'App 2', description: 'new', tags: ['a', 'b'], settings: { theme: 'dark', tabs: 4 } },
+      conflicts: []
+    });
+  });
+
+  it('should report only fields both sides changed differently', () => {
+    const local = { ...base, name: 'Local', description: 'same', settings: { theme: 'blue', tabs: 2 } };
+    const { description: _removed, ...remote } = { ...base, name: 'Remote', settings: { theme: 'dark', tabs: 2 } };
+    const { merged, conflicts } = threeWayMerge(base, { ...local, updated_at: 'x' }, { ...remote, updated_at: 'y' }, {
+      ignoreFields: ['updated_at']
+    });
+
+    expect(conflicts).toEqual([
+      { field: 'name', path: ['name'], baseValue: 'App', localValue: 'Local', remoteValue: 'Remote' },
+      { field: 'description', path: ['description'], baseValue: 'old', localValue: 'same', remoteValue: undefined },
+      { field: 'settings.theme', path: ['settings', 'theme'], baseValue: 'light', localValue: 'blue', remoteValue: 'dark' }
+    ]);
+    expect(merged).toMatchObject({ name: 'Local', updated_at: 'x', settings: { theme: 'blue', tabs: 2 } });
+
+    // Without a common ancestor nothing shows which side is unchanged
+    expect(threeWayMerge(undefined, { id: 'p1', name: 'A', tabs: 1 }, { id: 'p1', name: 'B', tabs: 1 }).conflicts)
+      .toEqual([{ field: 'name', path: ['name'], baseValue: undefined, localValue: 'A', remoteValue: 'B' }]);
+  });
+});
+
+describe('OfflineSyncEngine', () => {
+  let remote: Map<string, any>;
+  let local: Map<string, any>;
+  let bases: Map<string, { revision: number; snapshot: string }>;
+  let conflictRows: Map<string, any>;
+  let syncConflictRows: Map<string, any>;
+  let db: any;
+  let cache: any;
+  let conflictService: ConflictResolutionService;
+  let engine: OfflineSyncEngine;
+
+  const synced = {
+    id: 'p1',
+    name: 'App',
+    description: 'old',
+    settings: { theme: 'light', tabs: 2 },
+    revision: 1,
+    updated_at: '2026-10-01T10:00:00.000Z'
+  };
+
+  // Supabase query builder over the in-memory remote table
+  const from = () => {
+    const filters: Record<string, unknown> = {};
+    let updates: any = null;
+    const matching = () => [...remote.values()].filter(row =>
+      Object.entries(filters).every(([key, value]) => (row[key] ?? 0) === value));
+    const builder: any = {
+      select: () => builder,
+      eq: (key: string, value: unknown) => (filters[key] = value, builder),
+      single: async () => ({ data: matching()[0] || null, error: matching()[0] ? null : { message: 'not found' } }),
+      insert: async (row: any) => (remote.set(row.id, row), { error: null }),
+      update: (row: any) => (updates = row, builder),
+      then: (resolve: (value: unknown) => void) => {
+        const rows = matching();
+        rows.forEach(row => remote.set(row.id, { ...updates }));
+        resolve({ data: rows.map(row => ({ id: row.id })), error: null });
+      }
+    };
+    return builder;
+  };
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  beforeEach(() => {
+    remote = new Map();
+    local = new Map();
+    bases = new Map([['projects:p1', { revision: 1, snapshot: JSON.stringify(synced) }]]);
+    conflictRows = new Map();
+    syncConflictRows = new Map();
+    // Keeps the rows both services read back after a restart
+    db = {
+      run: jest.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('INTO sync_base')) {
+          bases.set(`${params[0]}:${params[1]}`, { revision: params[2], snapshot: params[3] });
+        } else if (sql.includes('INSERT INTO conflicts')) {
+          const [id, type, table_name, record_id, field, local_value, remote_value, base_value, local_timestamp, remote_timestamp] = params;
+          conflictRows.set(id, {
+            id, type, table_name, record_id, field, local_value, remote_value, base_value,
+            local_timestamp, remote_timestamp, detected_at: new Date().toISOString(), status: 'pending'
+          });
+        } else if (sql.includes('UPDATE conflicts SET status')) {
+          conflictRows.get(params[0]).status = 'resolved';
+        } else if (sql.includes('INTO sync_conflicts')) {
+          const [id, table_name, record_id, local_version, remote_version, local_timestamp, remote_timestamp, merged_version] = params;
+          syncConflictRows.set(id, {
+            id, table_name, record_id, local_version, remote_version, local_timestamp, remote_timestamp, merged_version, resolution: null
+          });
+        } else if (sql.includes('UPDATE sync_conflicts')) {
+          const row = syncConflictRows.get(params[params.length - 1]);
+          if (sql.includes('resolution = ?')) row.resolution = params[0];
+          row.merged_version = params[sql.includes('resolution = ?') ? 1 : 0];
+        }
+      }),
+      query: jest.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FROM conflicts')) {
+          const rows = [...conflictRows.values()].filter(row => sql.includes('record_id = ?')
+            ? row.table_name === params[0] && row.record_id === params[1]
+            : true);
+          return { rows: rows.filter(row => !sql.includes("status = 'pending'") || row.status === 'pending').reverse() };
+        }
+        if (sql.includes('FROM sync_conflicts')) {
+          return { rows: [...syncConflictRows.values()].filter(row => row.resolution === null) };
+        }
+        const base = sql.includes('FROM sync_base') ? bases.get(`${params[0]}:${params[1]}`) : undefined;
+        return { rows: base ? [base] : [] };
+      })
+    };
+    cache = {
+      get: async (_table: string, id: string) => local.get(id),
+      set: async (_table: string, id: string, data: any, options?: { skipSync?: boolean }) => {
+        local.set(id, { ...data, sync_status: options?.skipSync ? 'synced' : 'pending' });
+      }
+    };
+
+    conflictService = new ConflictResolutionService(db as any);
+    engine = new OfflineSyncEngine(cache as any, { getClient: () => ({ from }) } as any, {} as any, db as any, conflictService);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    conflictService.destroy();
+  });
+
+  it('should merge offline edits to different fields instead of dropping one side', async () => {
+    local.set('p1', { ...synced, base_revision: 1, description: 'offline edit', sync_status: 'pending' });
+    remote.set('p1', { ...synced, name: 'Renamed elsewhere', settings: { theme: 'dark', tabs: 2 }, revision: 2 });
+
+    const result = await engine.syncItems('projects', ['p1']);
+
+    expect(result.uploaded).toBe(1);
+    expect(remote.get('p1')).toMatchObject({
+      name: 'Renamed elsewhere',
+      description: 'offline edit',
+      settings: { theme: 'dark', tabs: 2 },
+      revision: 3
+    });
+    expect(local.get('p1')).toMatchObject({ description: 'offline edit', revision: 3, base_revision: 3, sync_status: 'synced' });
+    expect(bases.get('projects:p1')!.revision).toBe(3);
+    expect(await conflictService.getAllActiveConflicts()).toEqual([]);
+  });
+
+  it('should send overlapping edits to ConflictResolutionService and apply the decision', async () => {
+    const detected: SyncConflict[] = [];
+    const resolved: SyncConflict[] = [];
+    engine.on('conflictDetected', conflict => detected.push(conflict));
+    engine.on('conflictResolved', conflict => resolved.push(conflict));
+    local.set('p1', { ...synced, base_revision: 1, name: 'Local name', description: 'local notes' });
+    remote.set('p1', { ...synced, name: 'Remote name', settings: { theme: 'light', tabs: 8 }, revision: 2 });
+
+    expect((await engine.syncItems('projects', ['p1'])).uploaded).toBe(0);
+    expect(remote.get('p1').revision).toBe(2);
+
+    const [conflict] = await conflictService.getAllActiveConflicts();
+    expect(conflict).toMatchObject({ field: 'name', baseValue: 'App', localValue: 'Local name', remoteValue: 'Remote name' });
+    expect(detected[0]!.fields).toHaveLength(1);
+    // A second sync leaves the record alone while the decision is pending
+    await engine.syncItems('projects', ['p1']);
+    expect(await conflictService.getAllActiveConflicts()).toHaveLength(1);
+
+    await conflictService.resolveConflict(conflict!.id, 'remote');
+    await flush();
+
+    expect(remote.get('p1')).toMatchObject({
+      name: 'Remote name',
+      description: 'local notes',
+      settings: { theme: 'light', tabs: 8 },
+      revision: 3
+    });
+    expect(local.get('p1')).toMatchObject({ name: 'Remote name', description: 'local notes', base_revision: 3 });
+    expect(resolved[0]).toMatchObject({ recordId: 'p1', resolution: 'remote' });
+  });
+
+  it('should pick up pending conflicts after a restart without raising them again', async () => {
+    local.set('p1', { ...synced, base_revision: 1, name: 'Local name', description: 'local notes' });
+    remote.set('p1', { ...synced, name: 'Remote name', description: 'remote notes', revision: 2 });
+
+    await engine.syncItems('projects', ['p1']);
+    const [name, description] = await conflictService.getAllActiveConflicts();
+    await conflictService.resolveConflict(name!.id, 'local');
+    await flush();
+
+    // The app restarts with the same database
+    engine.destroy();
+    conflictService.destroy();
+    conflictService = new ConflictResolutionService(db);
+    engine = new OfflineSyncEngine(cache, { getClient: () => ({ from }) } as any, {} as any, db, conflictService);
+
+    expect((await engine.syncItems('projects', ['p1'])).uploaded).toBe(0);
+    expect((await conflictService.getAllActiveConflicts()).map(conflict => conflict.id)).toEqual([description!.id]);
+    expect(conflictRows.size).toBe(2);
+
+    await conflictService.resolveConflict(description!.id, 'remote');
+    await flush();
+
+    expect(remote.get('p1')).toMatchObject({ name: 'Local name', description: 'remote notes', revision: 3 });
+    expect(syncConflictRows.get('projects:p1')).toMatchObject({ resolution: 'merge' });
+  });
+
+  it('should keep one unresolved conflict per field', async () => {
+    const field = { field: 'name', path: ['name'], baseValue: 'App', localValue: 'A', remoteValue: 'B' };
+    const at = new Date('2026-10-01T10:00:00.000Z');
+
+    const [first] = await conflictService.recordConflicts('projects', 'p1', [field], at, at);
+    const [again] = await conflictService.recordConflicts('projects', 'p1', [field], at, at);
+
+    expect(again!.id).toBe(first!.id);
+    expect(conflictRows.size).toBe(1);
+  });
+
+  it('should not report conflicts without a base to compare against', async () => {
+    const conflicts = await conflictService.detectConflict(
+      'projects', 'p1', { id: 'p1', name: 'A' }, { id: 'p1', name: 'B' }
+    );
+
+    expect(conflicts).toEqual([]);
+    expect(conflictRows.size).toBe(0);
+  });
+});
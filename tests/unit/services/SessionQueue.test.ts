@@ -0,0 +1,117 @@
+import { QueueEvent, QueueState, SessionQueueManager, SessionQueueOptions } from '../../../src/services/queue/SessionQueueManager';
+import { SessionQueueStore } from '../../../src/services/queue/SessionQueueStore';
+import { SessionService } from '../../../src/services/SessionService';
+import { Session, SessionStatus } from '../../../src/models/Session';
+
+// Stands in for the queue row both the CLI and the app read and write
+class MemoryQueueStore {
+  state: QueueState | null = null;
+
+  async load(): Promise<QueueState | null> {
+    return this.state && structuredClone(this.state);
+  }
+
+  async save(state: QueueState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+describe('SessionQueueManager shared queue', () => {
+  let store: MemoryQueueStore;
+  let stored: Map<string, Session>;
+  let sessions: SessionService;
+  let managers: SessionQueueManager[];
+
+  // Each process has its own instance; reset the singleton to start another
+  const open = async (options: Omit<SessionQueueOptions, 'store' | 'sessions'> = {}) => {
+    (SessionQueueManager as any).instance = undefined;
+    const manager = SessionQueueManager.getInstance({
+      ...options,
+      store: store as unknown as SessionQueueStore,
+      sessions
+    });
+    await manager.whenReady();
+    managers.push(manager);
+    return manager;
+  };
+
+  const until = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  beforeEach(() => {
+    store = new MemoryQueueStore();
+    stored = new Map([['session-1', {
+      id: 'session-1',
+      name: 'Settings page',
+      description: 'Add a settings page',
+      status: 'pending',
+      createdAt: '2026-10-19T09:00:00.000Z',
+      updatedAt: '2026-10-19T09:00:00.000Z',
+      userId: 'dev',
+      projectId: 'web',
+      request: {} as Session['request'],
+      metadata: { priority: 'high' }
+    }]]);
+    sessions = {
+      updateSession: jest.fn(async (id: string, updates: Partial<Session>) => {
+        const session = { ...stored.get(id)!, ...updates };
+        stored.set(id, session);
+        return session;
+      })
+    } as unknown as SessionService;
+    managers = [];
+  });
+
+  afterEach(() => {
+    managers.forEach(manager => manager.destroy());
+    (SessionQueueManager as any).instance = undefined;
+  });
+
+  it('should run sessions the CLI queued in the process that has a runner', async () => {
+    const cli = await open();
+    await cli.addToQueue(stored.get('session-1'));
+    cli.destroy();
+
+    let finish: (status: SessionStatus) => void = () => undefined;
+    const runSession = jest.fn(() => new Promise<SessionStatus>(resolve => { finish = resolve; }));
+    const app = await open({ runSession });
+    const events: string[] = [];
+    app.on('queue-event', (event: QueueEvent) => events.push(event.type));
+
+    await app.processQueue();
+
+    expect(runSession).toHaveBeenCalledWith('session-1');
+    // Recorded before it runs, so the CLI sees it is taken
+    expect(store.state?.sessions).toMatchObject([{ id: 'session-1', status: 'executing', priority: 'high' }]);
+
+    await app.processQueue();
+    expect(runSession).toHaveBeenCalledTimes(1);
+
+    finish('completed');
+    await until(() => store.state?.sessions.length === 0);
+    expect(events).toEqual(['session-started', 'session-completed', 'session-removed']);
+  });
+
+  it('should pick up pauses and cancellations made by another process', async () => {
+    const runSession = jest.fn(async (): Promise<SessionStatus> => 'completed');
+    const app = await open({ runSession });
+    const cli = await open();
+
+    await cli.addToQueue(stored.get('session-1'));
+    await cli.pauseQueue();
+    await app.processQueue();
+    expect(runSession).not.toHaveBeenCalled();
+
+    await cli.cancelSession('session-1');
+    await app.resumeQueue();
+    await app.processQueue();
+
+    expect(runSession).not.toHaveBeenCalled();
+    expect(stored.get('session-1')?.status).toBe('cancelled');
+    expect(store.state).toMatchObject({ isPaused: false, sessions: [] });
+  });
+});